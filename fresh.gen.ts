@@ -5,21 +5,50 @@
 import * as $_404 from './routes/_404.tsx';
 import * as $_500 from './routes/_500.tsx';
 import * as $_app from './routes/_app.tsx';
+import * as $admin_changes from './routes/admin/changes.tsx';
 import * as $admin_index from './routes/admin/index.tsx';
+import * as $admin_jobs from './routes/admin/jobs.tsx';
 import * as $admin_logs from './routes/admin/logs.tsx';
 import * as $admin_settings from './routes/admin/settings.tsx';
 import * as $admin_universities_id_ from './routes/admin/universities/[id].tsx';
+import * as $api_admin_api_keys from './routes/api/admin/api-keys.ts';
+import * as $api_admin_api_keys_id_ from './routes/api/admin/api-keys/[id].ts';
+import * as $api_admin_api_keys_id_rotate from './routes/api/admin/api-keys/[id]/rotate.ts';
+import * as $api_admin_audit_log from './routes/api/admin/audit-log.ts';
+import * as $api_admin_auth_login from './routes/api/admin/auth/login.ts';
+import * as $api_admin_auth_logout from './routes/api/admin/auth/logout.ts';
+import * as $api_admin_auth_me from './routes/api/admin/auth/me.ts';
+import * as $api_admin_changes from './routes/api/admin/changes.ts';
+import * as $api_admin_changes_id_ from './routes/api/admin/changes/[id].ts';
+import * as $api_admin_changes_id_approve from './routes/api/admin/changes/[id]/approve.ts';
+import * as $api_admin_changes_id_reject from './routes/api/admin/changes/[id]/reject.ts';
+import * as $api_admin_exchange_rates from './routes/api/admin/exchange-rates.ts';
+import * as $api_admin_http_status from './routes/api/admin/http-status.ts';
+import * as $api_admin_jobs from './routes/api/admin/jobs.ts';
+import * as $api_admin_jobs_id_ from './routes/api/admin/jobs/[id].ts';
+import * as $api_admin_rate_limits from './routes/api/admin/rate-limits.ts';
 import * as $api_admin_test_parser from './routes/api/admin/test-parser.ts';
 import * as $api_admin_universities from './routes/api/admin/universities.ts';
 import * as $api_admin_universities_id_profile from './routes/api/admin/universities/[id]/profile.ts';
 import * as $api_admin_universities_id_programs from './routes/api/admin/universities/[id]/programs.ts';
+import * as $api_admin_universities_id_sources from './routes/api/admin/universities/[id]/sources.ts';
+import * as $api_admin_universities_id_versions_version_ from './routes/api/admin/universities/[id]/versions/[version].ts';
+import * as $api_admin_universities_id_versions_version_rollback from './routes/api/admin/universities/[id]/versions/[version]/rollback.ts';
+import * as $api_admin_universities_id_versions_diff from './routes/api/admin/universities/[id]/versions/diff.ts';
+import * as $api_admin_universities_id_versions_index from './routes/api/admin/universities/[id]/versions/index.ts';
 import * as $api_admin_update_now from './routes/api/admin/update-now.ts';
+import * as $api_battles_id_ from './routes/api/battles/[id].ts';
+import * as $api_battles_id_recompute from './routes/api/battles/[id]/recompute.ts';
 import * as $api_chat from './routes/api/chat.ts';
+import * as $api_chat_sessions_id_ from './routes/api/chat/sessions/[id].ts';
+import * as $api_chat_sessions_index from './routes/api/chat/sessions/index.ts';
 import * as $api_debug from './routes/api/debug.ts';
 import * as $api_filters from './routes/api/filters.ts';
 import * as $api_parser from './routes/api/parser.ts';
+import * as $api_programs_index from './routes/api/programs/index.ts';
 import * as $api_search_autocomplete from './routes/api/search/autocomplete.ts';
 import * as $api_search_create from './routes/api/search/create.ts';
+import * as $api_search_index from './routes/api/search/index.ts';
 import * as $api_search_universities from './routes/api/search/universities.ts';
 import * as $api_search_verify from './routes/api/search/verify.ts';
 import * as $api_test_features from './routes/api/test/features.ts';
@@ -29,6 +58,7 @@ import * as $api_universities_id_profile from './routes/api/universities/[id]/pr
 import * as $api_universities_compare from './routes/api/universities/compare.ts';
 import * as $api_universities_filtered from './routes/api/universities/filtered.ts';
 import * as $api_universities_index from './routes/api/universities/index.ts';
+import * as $battle_id_ from './routes/battle/[id].tsx';
 import * as $index from './routes/index.tsx';
 import * as $universities_id_ from './routes/universities/[id].tsx';
 import * as $universities_index from './routes/universities/index.tsx';
@@ -39,8 +69,10 @@ import * as $Tour3DSection from './islands/Tour3DSection.tsx';
 import * as $UniversityProfile from './islands/UniversityProfile.tsx';
 import * as $UniversitySearch from './islands/UniversitySearch.tsx';
 import * as $UniversitySelector from './islands/UniversitySelector.tsx';
+import * as $admin_AdminChanges from './islands/admin/AdminChanges.tsx';
 import * as $admin_AdminContext from './islands/admin/AdminContext.tsx';
 import * as $admin_AdminDashboard from './islands/admin/AdminDashboard.tsx';
+import * as $admin_AdminJobs from './islands/admin/AdminJobs.tsx';
 import * as $admin_AdminLogin from './islands/admin/AdminLogin.tsx';
 import * as $admin_AdminLogs from './islands/admin/AdminLogs.tsx';
 import * as $admin_AdminSettings from './islands/admin/AdminSettings.tsx';
@@ -51,12 +83,15 @@ import * as $admin_editor_BasicInfoTab from './islands/admin/editor/BasicInfoTab
 import * as $admin_editor_CampusTab from './islands/admin/editor/CampusTab.tsx';
 import * as $admin_editor_ContactsTab from './islands/admin/editor/ContactsTab.tsx';
 import * as $admin_editor_FormFields from './islands/admin/editor/FormFields.tsx';
+import * as $admin_editor_HistoryTab from './islands/admin/editor/HistoryTab.tsx';
 import * as $admin_editor_InternationalTab from './islands/admin/editor/InternationalTab.tsx';
 import * as $admin_editor_JSONTab from './islands/admin/editor/JSONTab.tsx';
 import * as $admin_editor_ProgramsTab from './islands/admin/editor/ProgramsTab.tsx';
 import * as $admin_editor_RankingsTab from './islands/admin/editor/RankingsTab.tsx';
+import * as $admin_editor_ScheduleTab from './islands/admin/editor/ScheduleTab.tsx';
 import * as $admin_editor_TuitionTab from './islands/admin/editor/TuitionTab.tsx';
 import * as $admin_editor_index from './islands/admin/editor/index.ts';
+import * as $admin_settings_ApiKeysSection from './islands/admin/settings/ApiKeysSection.tsx';
 import { type Manifest } from '$fresh/server.ts';
 
 const manifest = {
@@ -64,21 +99,50 @@ const manifest = {
     './routes/_404.tsx': $_404,
     './routes/_500.tsx': $_500,
     './routes/_app.tsx': $_app,
+    './routes/admin/changes.tsx': $admin_changes,
     './routes/admin/index.tsx': $admin_index,
+    './routes/admin/jobs.tsx': $admin_jobs,
     './routes/admin/logs.tsx': $admin_logs,
     './routes/admin/settings.tsx': $admin_settings,
     './routes/admin/universities/[id].tsx': $admin_universities_id_,
+    './routes/api/admin/api-keys.ts': $api_admin_api_keys,
+    './routes/api/admin/api-keys/[id].ts': $api_admin_api_keys_id_,
+    './routes/api/admin/api-keys/[id]/rotate.ts': $api_admin_api_keys_id_rotate,
+    './routes/api/admin/audit-log.ts': $api_admin_audit_log,
+    './routes/api/admin/auth/login.ts': $api_admin_auth_login,
+    './routes/api/admin/auth/logout.ts': $api_admin_auth_logout,
+    './routes/api/admin/auth/me.ts': $api_admin_auth_me,
+    './routes/api/admin/changes.ts': $api_admin_changes,
+    './routes/api/admin/changes/[id].ts': $api_admin_changes_id_,
+    './routes/api/admin/changes/[id]/approve.ts': $api_admin_changes_id_approve,
+    './routes/api/admin/changes/[id]/reject.ts': $api_admin_changes_id_reject,
+    './routes/api/admin/exchange-rates.ts': $api_admin_exchange_rates,
+    './routes/api/admin/http-status.ts': $api_admin_http_status,
+    './routes/api/admin/jobs.ts': $api_admin_jobs,
+    './routes/api/admin/jobs/[id].ts': $api_admin_jobs_id_,
+    './routes/api/admin/rate-limits.ts': $api_admin_rate_limits,
     './routes/api/admin/test-parser.ts': $api_admin_test_parser,
     './routes/api/admin/universities.ts': $api_admin_universities,
     './routes/api/admin/universities/[id]/profile.ts': $api_admin_universities_id_profile,
     './routes/api/admin/universities/[id]/programs.ts': $api_admin_universities_id_programs,
+    './routes/api/admin/universities/[id]/sources.ts': $api_admin_universities_id_sources,
+    './routes/api/admin/universities/[id]/versions/[version].ts': $api_admin_universities_id_versions_version_,
+    './routes/api/admin/universities/[id]/versions/[version]/rollback.ts': $api_admin_universities_id_versions_version_rollback,
+    './routes/api/admin/universities/[id]/versions/diff.ts': $api_admin_universities_id_versions_diff,
+    './routes/api/admin/universities/[id]/versions/index.ts': $api_admin_universities_id_versions_index,
     './routes/api/admin/update-now.ts': $api_admin_update_now,
+    './routes/api/battles/[id].ts': $api_battles_id_,
+    './routes/api/battles/[id]/recompute.ts': $api_battles_id_recompute,
     './routes/api/chat.ts': $api_chat,
+    './routes/api/chat/sessions/[id].ts': $api_chat_sessions_id_,
+    './routes/api/chat/sessions/index.ts': $api_chat_sessions_index,
     './routes/api/debug.ts': $api_debug,
     './routes/api/filters.ts': $api_filters,
     './routes/api/parser.ts': $api_parser,
+    './routes/api/programs/index.ts': $api_programs_index,
     './routes/api/search/autocomplete.ts': $api_search_autocomplete,
     './routes/api/search/create.ts': $api_search_create,
+    './routes/api/search/index.ts': $api_search_index,
     './routes/api/search/universities.ts': $api_search_universities,
     './routes/api/search/verify.ts': $api_search_verify,
     './routes/api/test/features.ts': $api_test_features,
@@ -88,6 +152,7 @@ const manifest = {
     './routes/api/universities/compare.ts': $api_universities_compare,
     './routes/api/universities/filtered.ts': $api_universities_filtered,
     './routes/api/universities/index.ts': $api_universities_index,
+    './routes/battle/[id].tsx': $battle_id_,
     './routes/index.tsx': $index,
     './routes/universities/[id].tsx': $universities_id_,
     './routes/universities/index.tsx': $universities_index,
@@ -100,8 +165,10 @@ const manifest = {
     './islands/UniversityProfile.tsx': $UniversityProfile,
     './islands/UniversitySearch.tsx': $UniversitySearch,
     './islands/UniversitySelector.tsx': $UniversitySelector,
+    './islands/admin/AdminChanges.tsx': $admin_AdminChanges,
     './islands/admin/AdminContext.tsx': $admin_AdminContext,
     './islands/admin/AdminDashboard.tsx': $admin_AdminDashboard,
+    './islands/admin/AdminJobs.tsx': $admin_AdminJobs,
     './islands/admin/AdminLogin.tsx': $admin_AdminLogin,
     './islands/admin/AdminLogs.tsx': $admin_AdminLogs,
     './islands/admin/AdminSettings.tsx': $admin_AdminSettings,
@@ -112,12 +179,15 @@ const manifest = {
     './islands/admin/editor/CampusTab.tsx': $admin_editor_CampusTab,
     './islands/admin/editor/ContactsTab.tsx': $admin_editor_ContactsTab,
     './islands/admin/editor/FormFields.tsx': $admin_editor_FormFields,
+    './islands/admin/editor/HistoryTab.tsx': $admin_editor_HistoryTab,
     './islands/admin/editor/InternationalTab.tsx': $admin_editor_InternationalTab,
     './islands/admin/editor/JSONTab.tsx': $admin_editor_JSONTab,
     './islands/admin/editor/ProgramsTab.tsx': $admin_editor_ProgramsTab,
     './islands/admin/editor/RankingsTab.tsx': $admin_editor_RankingsTab,
+    './islands/admin/editor/ScheduleTab.tsx': $admin_editor_ScheduleTab,
     './islands/admin/editor/TuitionTab.tsx': $admin_editor_TuitionTab,
     './islands/admin/editor/index.ts': $admin_editor_index,
+    './islands/admin/settings/ApiKeysSection.tsx': $admin_settings_ApiKeysSection,
   },
   baseUrl: import.meta.url,
 } satisfies Manifest;
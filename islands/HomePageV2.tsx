@@ -15,22 +15,22 @@ interface Stats {
 export default function HomePageV2() {
   const stats = useSignal<Stats>({ total: 0, countries: 0, programs: 0 });
 
-  // Load stats
+  // Load stats: итоги и фасет стран без выгрузки всего списка
   useEffect(() => {
     const fetchStats = async () => {
       try {
-        const response = await fetch('/api/universities?limit=1000');
-        if (response.ok) {
-          const data = await response.json();
-          const universities = data.data || [];
-          const countries = new Set(universities.map((u: { country: string }) => u.country));
-          const programs = universities.reduce((acc: number, u: { programs_count?: number }) => 
-            acc + (u.programs_count || 0), 0);
-          
+        const [universitiesResponse, programsResponse] = await Promise.all([
+          fetch('/api/universities/filtered?limit=1'),
+          fetch('/api/programs?limit=1'),
+        ]);
+        if (universitiesResponse.ok && programsResponse.ok) {
+          const universities = await universitiesResponse.json();
+          const programs = await programsResponse.json();
+
           stats.value = {
-            total: universities.length,
-            countries: countries.size,
-            programs,
+            total: universities.total || 0,
+            countries: universities.facets?.countries?.length || 0,
+            programs: programs.total || 0,
           };
         }
       } catch {
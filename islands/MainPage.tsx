@@ -10,13 +10,14 @@ import { TabPanel } from '../src/components/TabPanel.tsx';
 import type { TabId } from '../src/components/Tabs.tsx';
 import { SmartSearchTab } from '../src/components/tabs/SmartSearchTab.tsx';
 import { UniversityBaseTab } from '../src/components/tabs/UniversityBaseTab.tsx';
+import { ProgramsTab } from '../src/components/tabs/ProgramsTab.tsx';
 import { BattleTab } from '../src/components/tabs/BattleTab.tsx';
 import { ChatBotTab } from '../src/components/tabs/ChatBotTab.tsx';
 import { AdminTab } from '../src/components/tabs/AdminTab.tsx';
 import { LanguageProvider } from '../src/contexts/LanguageContext.tsx';
 
 const STORAGE_KEY = 'activeTab';
-const VALID_TABS: TabId[] = ['search', 'base', 'battle', 'chat', 'admin'];
+const VALID_TABS: TabId[] = ['search', 'base', 'programs', 'battle', 'chat', 'admin'];
 
 /**
  * Главный island с tab-based интерфейсом
@@ -54,7 +55,7 @@ export default function MainPage() {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Ctrl/Cmd + число для быстрого переключения
-      if ((e.ctrlKey || e.metaKey) && e.key >= '1' && e.key <= '5') {
+      if ((e.ctrlKey || e.metaKey) && e.key >= '1' && e.key <= '6') {
         e.preventDefault();
         const index = parseInt(e.key, 10) - 1;
         if (index < VALID_TABS.length) {
@@ -94,6 +95,10 @@ export default function MainPage() {
             <UniversityBaseTab />
           </TabPanel>
 
+          <TabPanel id="programs" isActive={activeTab.value === 'programs'}>
+            <ProgramsTab />
+          </TabPanel>
+
           <TabPanel id="battle" isActive={activeTab.value === 'battle'}>
             <BattleTab />
           </TabPanel>
@@ -0,0 +1,424 @@
+/**
+ * Страница проверки изменений профилей, полученных парсером
+ * Принять целиком, принять выбранные поля или отклонить
+ */
+
+import { useState, useEffect } from 'preact/hooks';
+import { useAdmin, useAdminAPI } from './AdminContext.tsx';
+import type { ProfileChange, ProfileChangeDetail } from '../../src/services/profile-changes.service.ts';
+import type { FieldDiff } from '../../src/services/profile-versions.service.ts';
+import type { ProfileChangeStatus } from '../../src/types/index.ts';
+
+const PAGE_SIZE = 50;
+
+const STATUS_STYLES: Record<ProfileChangeStatus, { label: string; class: string }> = {
+  pending: { label: 'Ждёт проверки', class: 'bg-cyber-500/20 text-cyber-400' },
+  approved: { label: 'Принято', class: 'bg-green-500/20 text-green-400' },
+  partially_approved: { label: 'Принято частично', class: 'bg-green-500/10 text-green-300' },
+  rejected: { label: 'Отклонено', class: 'bg-red-500/20 text-red-400' },
+  superseded: { label: 'Заменено новым', class: 'bg-dark-600 text-gray-400' },
+};
+
+const STATUS_ORDER: ProfileChangeStatus[] = ['pending', 'approved', 'partially_approved', 'rejected', 'superseded'];
+
+const CHANGE_LABELS: Record<FieldDiff['change'], string> = {
+  added: 'добавлено',
+  removed: 'удалено',
+  updated: 'изменено',
+};
+
+const formatDate = (value: string | null): string =>
+  value ? new Date(value).toLocaleString('ru') : '—';
+
+/**
+ * Короткое представление значения поля
+ */
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+};
+
+export default function AdminChanges() {
+  const { logout } = useAdmin();
+  const { fetchWithAuth } = useAdminAPI();
+
+  const [changes, setChanges] = useState<ProfileChange[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [status, setStatus] = useState<'' | ProfileChangeStatus>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<ProfileChangeDetail | null>(null);
+  const [acceptedPaths, setAcceptedPaths] = useState<Set<string>>(new Set());
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadChanges = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (status) params.set('status', status);
+
+      const response = await fetchWithAuth(`/api/admin/changes?${params}`);
+      const data = await response.json();
+      if (response.ok) {
+        setChanges(data.data);
+        setPendingCount(data.pending);
+        setTotal(data.pagination.total);
+      } else {
+        setError(data.error || 'Failed to load changes');
+      }
+    } catch {
+      setError('Failed to load changes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadChanges();
+  }, [offset, status]);
+
+  const openChange = async (id: string) => {
+    try {
+      const response = await fetchWithAuth(`/api/admin/changes/${id}`);
+      const data = await response.json();
+      if (response.ok) {
+        const detail = data.data as ProfileChangeDetail;
+        setSelected(detail);
+        setAcceptedPaths(new Set(detail.fields.map((f) => f.path)));
+        setComment('');
+      } else {
+        setError(data.error || 'Failed to load change');
+      }
+    } catch {
+      setError('Connection error');
+    }
+  };
+
+  const togglePath = (path: string) => {
+    const next = new Set(acceptedPaths);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setAcceptedPaths(next);
+  };
+
+  const review = async (action: 'approve' | 'reject', fields?: string[]) => {
+    if (!selected) return;
+    if (action === 'reject' && !confirm('Отклонить изменение? Профиль на сайте останется прежним.')) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetchWithAuth(`/api/admin/changes/${selected.id}/${action}`, {
+        method: 'POST',
+        body: JSON.stringify({ fields, comment: comment.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Review failed');
+        return;
+      }
+      setSelected(null);
+      await loadChanges();
+    } catch {
+      setError('Connection error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const pageStart = total === 0 ? 0 : offset + 1;
+  const pageEnd = Math.min(offset + PAGE_SIZE, total);
+  const allAccepted = selected !== null && acceptedPaths.size === selected.fields.length;
+
+  return (
+    <div class="min-h-screen bg-dark-900">
+      {/* Header */}
+      <header class="bg-dark-800 border-b border-dark-600">
+        <div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div class="flex justify-between items-center">
+            <div class="flex items-center gap-4">
+              <a href="/admin" class="text-cyber-400 hover:text-cyber-300">
+                ← Назад
+              </a>
+              <h1 class="text-2xl font-bold text-white">📝 Изменения от парсера</h1>
+              {pendingCount > 0 && (
+                <span class="px-2 py-1 text-xs rounded bg-cyber-500/20 text-cyber-400">
+                  ждут проверки: {pendingCount}
+                </span>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={logout}
+              class="text-sm text-red-400 hover:text-red-300"
+            >
+              Выйти
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Breadcrumbs */}
+      <nav class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+        <ol class="flex items-center space-x-2 text-sm text-gray-500">
+          <li><a href="/admin" class="hover:text-cyber-400">Админ</a></li>
+          <li>/</li>
+          <li class="text-white">Изменения</li>
+        </ol>
+      </nav>
+
+      {/* Content */}
+      <main class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Status filter */}
+        <div class="bg-dark-800 rounded-lg border border-dark-600 p-4 mb-6">
+          <div class="flex flex-wrap gap-2 items-center">
+            <button
+              type="button"
+              onClick={() => { setStatus(''); setOffset(0); }}
+              class={`px-3 py-1 rounded text-sm ${status === '' ? 'bg-cyber-500 text-dark-900' : 'bg-dark-700 text-gray-300'}`}
+            >
+              Все
+            </button>
+            {STATUS_ORDER.map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => { setStatus(s); setOffset(0); }}
+                class={`px-3 py-1 rounded text-sm ${status === s ? 'bg-cyber-500 text-dark-900' : 'bg-dark-700 text-gray-300'}`}
+              >
+                {STATUS_STYLES[s].label}
+              </button>
+            ))}
+            <div class="flex-1" />
+            <button
+              type="button"
+              onClick={() => loadChanges()}
+              class="px-4 py-2 bg-dark-700 text-gray-300 rounded-lg hover:bg-dark-600 border border-dark-600"
+            >
+              🔄 Обновить
+            </button>
+          </div>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div class="mb-4 p-4 bg-red-500/10 border border-red-500/30 text-red-400 rounded-lg">
+            {error}
+            <button type="button" onClick={() => setError(null)} class="ml-2">×</button>
+          </div>
+        )}
+
+        <div class="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* List */}
+          <div class="bg-dark-800 border border-dark-600 rounded-lg overflow-hidden">
+            {isLoading ? (
+              <div class="text-center py-12">
+                <div class="animate-spin rounded-full h-12 w-12 border-b-2 border-cyber-500 mx-auto"></div>
+              </div>
+            ) : changes.length === 0 ? (
+              <div class="text-center py-12 text-gray-500">
+                Изменений нет
+              </div>
+            ) : (
+              <>
+                <ul class="divide-y divide-dark-600">
+                  {changes.map((change) => (
+                    <li key={change.id}>
+                      <button
+                        type="button"
+                        onClick={() => openChange(change.id)}
+                        class={`w-full text-left px-4 py-3 hover:bg-dark-700 ${selected?.id === change.id ? 'bg-dark-700' : ''}`}
+                      >
+                        <div class="flex justify-between items-center gap-2">
+                          <span class="text-sm font-medium text-white truncate">
+                            {change.universityName ?? change.universityId.slice(0, 8)}
+                          </span>
+                          <span class={`px-2 py-0.5 text-xs rounded whitespace-nowrap ${STATUS_STYLES[change.status].class}`}>
+                            {STATUS_STYLES[change.status].label}
+                          </span>
+                        </div>
+                        <div class="text-xs text-gray-500 mt-1">
+                          {formatDate(change.createdAt)} · версия {change.baseVersion}
+                          {change.currentVersion !== change.baseVersion && change.status === 'pending' && (
+                            <span class="text-yellow-400"> · профиль изменён после парсинга</span>
+                          )}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                {/* Pagination */}
+                <div class="px-4 py-3 flex items-center justify-between border-t border-dark-600 text-sm text-gray-400">
+                  <span>{pageStart}–{pageEnd} из {total}</span>
+                  <div class="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                      disabled={offset === 0}
+                      class="px-3 py-1 bg-dark-700 rounded disabled:opacity-50"
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setOffset(offset + PAGE_SIZE)}
+                      disabled={pageEnd >= total}
+                      class="px-3 py-1 bg-dark-700 rounded disabled:opacity-50"
+                    >
+                      →
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Diff */}
+          <div class="lg:col-span-2 bg-dark-800 border border-dark-600 rounded-lg p-4">
+            {!selected ? (
+              <div class="text-center py-12 text-gray-500">
+                Выберите изменение слева
+              </div>
+            ) : (
+              <div class="space-y-4">
+                <div class="flex justify-between items-start gap-4">
+                  <div>
+                    <h2 class="text-lg font-semibold text-white">
+                      {selected.universityName ?? selected.universityId}
+                    </h2>
+                    <p class="text-xs text-gray-500">
+                      {selected.sourceUrl ?? 'источник удалён'} · получено {formatDate(selected.createdAt)}
+                    </p>
+                    {selected.reviewedAt && (
+                      <p class="text-xs text-gray-500">
+                        Проверено {formatDate(selected.reviewedAt)} ({selected.reviewedBy ?? '—'})
+                        {selected.publishedVersion && ` · версия ${selected.publishedVersion}`}
+                        {selected.reviewComment && ` · «${selected.reviewComment}»`}
+                      </p>
+                    )}
+                  </div>
+                  <span class={`px-2 py-1 text-xs rounded ${STATUS_STYLES[selected.status].class}`}>
+                    {STATUS_STYLES[selected.status].label}
+                  </span>
+                </div>
+
+                {/* Summary */}
+                {Object.keys(selected.summary).length > 0 && (
+                  <div class="text-sm text-gray-300 bg-dark-700 rounded p-3 space-y-1">
+                    {Object.entries(selected.summary).map(([field, value]) => (
+                      <div key={field}>
+                        <span class="text-gray-500">{field}:</span>{' '}
+                        {typeof value === 'string'
+                          ? value
+                          : `+${value.added} / −${value.removed} / ~${value.updated}`}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {selected.conflicts.length > 0 && (
+                  <div class="p-3 bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 rounded text-sm">
+                    После парсинга профиль изменился (версия {selected.baseVersion} → {selected.currentVersion}).
+                    Принятие перезапишет поля: {selected.conflicts.join(', ')}
+                  </div>
+                )}
+
+                {/* Fields */}
+                {selected.fields.length === 0 ? (
+                  <div class="text-gray-500 text-sm">Поля не изменились</div>
+                ) : (
+                  <div class="overflow-x-auto">
+                    <table class="min-w-full divide-y divide-dark-600 text-sm">
+                      <thead class="bg-dark-700">
+                        <tr>
+                          <th class="px-3 py-2"></th>
+                          <th class="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase">Поле</th>
+                          <th class="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase">Было</th>
+                          <th class="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase">Стало</th>
+                        </tr>
+                      </thead>
+                      <tbody class="divide-y divide-dark-600">
+                        {selected.fields.map((field) => (
+                          <tr key={field.path} class={selected.conflicts.includes(field.path) ? 'bg-yellow-500/5' : ''}>
+                            <td class="px-3 py-2 align-top">
+                              <input
+                                type="checkbox"
+                                checked={acceptedPaths.has(field.path)}
+                                disabled={selected.status !== 'pending'}
+                                onChange={() => togglePath(field.path)}
+                              />
+                            </td>
+                            <td class="px-3 py-2 align-top whitespace-nowrap">
+                              <div class="text-white font-mono">{field.path}</div>
+                              <div class="text-xs text-gray-500">{CHANGE_LABELS[field.change]}</div>
+                            </td>
+                            <td class="px-3 py-2 align-top text-red-300 break-all max-w-xs">
+                              {formatValue(field.old_value)}
+                            </td>
+                            <td class="px-3 py-2 align-top text-green-300 break-all max-w-xs">
+                              {formatValue(field.new_value)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {/* Actions */}
+                {selected.status === 'pending' && (
+                  <div class="space-y-3 pt-2 border-t border-dark-600">
+                    <input
+                      type="text"
+                      value={comment}
+                      onInput={(e) => setComment((e.target as HTMLInputElement).value)}
+                      placeholder="Комментарий (необязательно)"
+                      class="w-full px-3 py-2 bg-dark-700 border border-dark-600 rounded text-white text-sm"
+                    />
+                    <div class="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => review('approve')}
+                        disabled={isSubmitting}
+                        class="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-500 disabled:opacity-50"
+                      >
+                        ✓ Принять всё
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => review('approve', [...acceptedPaths])}
+                        disabled={isSubmitting || acceptedPaths.size === 0 || allAccepted}
+                        class="px-4 py-2 bg-dark-700 text-green-400 rounded-lg hover:bg-dark-600 border border-dark-600 disabled:opacity-50"
+                      >
+                        Принять выбранные ({acceptedPaths.size})
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => review('reject')}
+                        disabled={isSubmitting}
+                        class="px-4 py-2 bg-dark-700 text-red-400 rounded-lg hover:bg-dark-600 border border-dark-600 disabled:opacity-50"
+                      >
+                        ✕ Отклонить
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { JSX } from 'preact';
  * Информация об админе
  */
 interface AdminInfo {
+  id?: string;
+  username?: string;
   name: string;
   email?: string;
   permissions: string[];
@@ -17,79 +19,75 @@ interface AdminInfo {
 
 /**
  * Контекст админа
+ * Сессия хранится в HttpOnly cookie, клиент видит только данные админа
  */
 interface AdminContextType {
-  adminKey: string | null;
   adminInfo: AdminInfo | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
-  login: (key: string) => Promise<boolean>;
-  logout: () => void;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
   clearError: () => void;
 }
 
 const AdminContext = createContext<AdminContextType | null>(null);
 
-const STORAGE_KEY = 'admin_key';
-
 /**
  * Provider для админ контекста
  */
 export const AdminProvider = ({ children }: { children: JSX.Element | JSX.Element[] }) => {
-  const [adminKey, setAdminKey] = useState<string | null>(null);
   const [adminInfo, setAdminInfo] = useState<AdminInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Загрузить ключ из localStorage при инициализации
+  // Проверить текущую сессию при инициализации
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      validateKey(stored);
-    } else {
-      setIsLoading(false);
-    }
+    fetch('/api/admin/auth/me')
+      .then(async (response) => {
+        if (response.ok) {
+          const data = await response.json();
+          setAdminInfo(data.admin);
+        }
+      })
+      .catch(() => setError('Connection error'))
+      .finally(() => setIsLoading(false));
   }, []);
 
-  // Проверить ключ на сервере
-  const validateKey = async (key: string): Promise<boolean> => {
+  const login = useCallback(async (username: string, password: string): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await fetch('/api/admin/universities?limit=1', {
-        headers: { 'X-Admin-Key': key },
+      const response = await fetch('/api/admin/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
       });
+      const data = await response.json();
 
       if (response.ok) {
-        setAdminKey(key);
-        setAdminInfo({ name: 'Admin', permissions: ['full_access'] });
-        localStorage.setItem(STORAGE_KEY, key);
-        setIsLoading(false);
+        setAdminInfo(data.admin);
         return true;
-      } else {
-        const data = await response.json();
-        setError(data.error || 'Invalid admin key');
-        localStorage.removeItem(STORAGE_KEY);
-        setIsLoading(false);
-        return false;
       }
+
+      setError(data.error || 'Invalid username or password');
+      return false;
     } catch (_err) {
       setError('Connection error');
-      setIsLoading(false);
       return false;
+    } finally {
+      setIsLoading(false);
     }
-  };
-
-  const login = useCallback(async (key: string): Promise<boolean> => {
-    return await validateKey(key);
   }, []);
 
-  const logout = useCallback(() => {
-    setAdminKey(null);
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/admin/auth/logout', { method: 'POST' });
+    } catch (_err) {
+      // Локальный выход всё равно выполняем
+    }
     setAdminInfo(null);
-    localStorage.removeItem(STORAGE_KEY);
   }, []);
 
   const clearError = useCallback(() => {
@@ -99,9 +97,8 @@ export const AdminProvider = ({ children }: { children: JSX.Element | JSX.Elemen
   return (
     <AdminContext.Provider
       value={{
-        adminKey,
         adminInfo,
-        isAuthenticated: !!adminKey,
+        isAuthenticated: !!adminInfo,
         isLoading,
         error,
         login,
@@ -126,27 +123,32 @@ export const useAdmin = (): AdminContextType => {
 };
 
 /**
- * API helper с админ-ключом
+ * API helper для админских запросов
+ * Cookie сессии отправляется браузером автоматически (same-origin)
  */
 export const useAdminAPI = () => {
-  const { adminKey } = useAdmin();
+  const { logout } = useAdmin();
 
   const fetchWithAuth = useCallback(
     async (url: string, options: RequestInit = {}) => {
       const headers = new Headers(options.headers);
-      if (adminKey) {
-        headers.set('X-Admin-Key', adminKey);
-      }
       headers.set('Content-Type', 'application/json');
 
       const response = await fetch(url, {
         ...options,
         headers,
+        credentials: 'same-origin',
       });
 
+      // Сессия истекла или отозвана — вернуть на форму входа.
+      // 403 (нет разрешения) сессию не завершает: ответ обрабатывает вызывающий код
+      if (response.status === 401) {
+        await logout();
+      }
+
       return response;
     },
-    [adminKey]
+    [logout]
   );
 
   return { fetchWithAuth };
@@ -104,12 +104,12 @@ export default function AdminDashboard() {
   const handleUpdateNow = async (id: string) => {
     setActionLoading(id);
     try {
-      const response = await fetchWithAuth(`/api/admin/update-now?university_id=${id}`, {
+      const response = await fetchWithAuth(`/api/admin/update-now?university_id=${id}&wait=false`, {
         method: 'POST',
       });
       
       if (response.ok) {
-        setSuccessMessage('Обновление запущено');
+        setSuccessMessage('Обновление поставлено в очередь');
         setTimeout(loadUniversities, 2000);
       } else {
         const data = await response.json();
@@ -184,6 +184,18 @@ export default function AdminDashboard() {
             >
               📋 Логи
             </a>
+            <a
+              href="/admin/jobs"
+              class="py-4 px-1 border-b-2 border-transparent font-medium text-sm text-gray-500 hover:text-gray-300"
+            >
+              ⚙️ Задания
+            </a>
+            <a
+              href="/admin/changes"
+              class="py-4 px-1 border-b-2 border-transparent font-medium text-sm text-gray-500 hover:text-gray-300"
+            >
+              📝 Изменения
+            </a>
             <a
               href="/admin/settings"
               class="py-4 px-1 border-b-2 border-transparent font-medium text-sm text-gray-500 hover:text-gray-300"
@@ -0,0 +1,326 @@
+/**
+ * Страница очереди заданий парсинга
+ */
+
+import { useState, useEffect } from 'preact/hooks';
+import { useAdmin, useAdminAPI } from './AdminContext.tsx';
+import type { ParseJob } from '../../src/services/parse-jobs.service.ts';
+import type { FailingSource } from '../../src/services/http-fetch.service.ts';
+import type { ParseJobStatus } from '../../src/types/index.ts';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Интервал автообновления списка
+ */
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATUS_STYLES: Record<ParseJobStatus, { label: string; class: string }> = {
+  pending: { label: 'В очереди', class: 'bg-dark-600 text-gray-300' },
+  running: { label: 'Выполняется', class: 'bg-cyber-500/20 text-cyber-400' },
+  succeeded: { label: 'Готово', class: 'bg-green-500/20 text-green-400' },
+  failed: { label: 'Ошибка', class: 'bg-red-500/20 text-red-400' },
+  cancelled: { label: 'Отменено', class: 'bg-yellow-500/20 text-yellow-400' },
+};
+
+const STATUS_ORDER: ParseJobStatus[] = ['pending', 'running', 'succeeded', 'failed', 'cancelled'];
+
+const formatDate = (value: string | null): string =>
+  value ? new Date(value).toLocaleString('ru') : '—';
+
+export default function AdminJobs() {
+  const { logout } = useAdmin();
+  const { fetchWithAuth } = useAdminAPI();
+
+  const [jobs, setJobs] = useState<ParseJob[]>([]);
+  const [stats, setStats] = useState<Partial<Record<ParseJobStatus, number>>>({});
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [status, setStatus] = useState<'' | ParseJobStatus>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [failingSources, setFailingSources] = useState<FailingSource[]>([]);
+
+  const loadJobs = async (silent = false) => {
+    if (!silent) setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (status) params.set('status', status);
+
+      const response = await fetchWithAuth(`/api/admin/jobs?${params}`);
+      const data = await response.json();
+      if (response.ok) {
+        setJobs(data.data);
+        setStats(data.stats);
+        setTotal(data.pagination.total);
+      } else {
+        setError(data.error || 'Failed to load jobs');
+      }
+    } catch {
+      setError('Failed to load jobs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadFailingSources = async () => {
+    try {
+      const response = await fetchWithAuth('/api/admin/http-status');
+      if (response.ok) {
+        const data = await response.json();
+        setFailingSources(data.data);
+      }
+    } catch {
+      // Список проблемных сайтов вспомогательный — ошибку не показываем
+    }
+  };
+
+  useEffect(() => {
+    loadFailingSources();
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+    const timer = setInterval(() => loadJobs(true), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [offset, status]);
+
+  const cancelJob = async (job: ParseJob) => {
+    if (!confirm(`Отменить задание для «${job.universityName ?? job.universityId}»?`)) return;
+    setCancellingId(job.id);
+    try {
+      const response = await fetchWithAuth(`/api/admin/jobs/${job.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to cancel job');
+      }
+      await loadJobs(true);
+    } catch {
+      setError('Connection error');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const pageStart = total === 0 ? 0 : offset + 1;
+  const pageEnd = Math.min(offset + PAGE_SIZE, total);
+
+  return (
+    <div class="min-h-screen bg-dark-900">
+      {/* Header */}
+      <header class="bg-dark-800 border-b border-dark-600">
+        <div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div class="flex justify-between items-center">
+            <div class="flex items-center gap-4">
+              <a href="/admin" class="text-cyber-400 hover:text-cyber-300">
+                ← Назад
+              </a>
+              <h1 class="text-2xl font-bold text-white">⚙️ Очередь парсинга</h1>
+            </div>
+            <button
+              type="button"
+              onClick={logout}
+              class="text-sm text-red-400 hover:text-red-300"
+            >
+              Выйти
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Breadcrumbs */}
+      <nav class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+        <ol class="flex items-center space-x-2 text-sm text-gray-500">
+          <li><a href="/admin" class="hover:text-cyber-400">Админ</a></li>
+          <li>/</li>
+          <li class="text-white">Задания</li>
+        </ol>
+      </nav>
+
+      {/* Content */}
+      <main class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Status filter with counters */}
+        <div class="bg-dark-800 rounded-lg border border-dark-600 p-4 mb-6">
+          <div class="flex flex-wrap gap-2 items-center">
+            <button
+              type="button"
+              onClick={() => { setStatus(''); setOffset(0); }}
+              class={`px-3 py-1 rounded text-sm ${status === '' ? 'bg-cyber-500 text-dark-900' : 'bg-dark-700 text-gray-300'}`}
+            >
+              Все
+            </button>
+            {STATUS_ORDER.map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => { setStatus(s); setOffset(0); }}
+                class={`px-3 py-1 rounded text-sm ${status === s ? 'bg-cyber-500 text-dark-900' : 'bg-dark-700 text-gray-300'}`}
+              >
+                {STATUS_STYLES[s].label} ({stats[s] ?? 0})
+              </button>
+            ))}
+            <div class="flex-1" />
+            <button
+              type="button"
+              onClick={() => { loadJobs(); loadFailingSources(); }}
+              class="px-4 py-2 bg-dark-700 text-gray-300 rounded-lg hover:bg-dark-600 border border-dark-600"
+            >
+              🔄 Обновить
+            </button>
+          </div>
+        </div>
+
+        {/* Failing sites */}
+        {failingSources.length > 0 && (
+          <div class="bg-dark-800 rounded-lg border border-red-500/30 p-4 mb-6">
+            <h2 class="text-lg font-semibold text-white mb-3">
+              🚫 Проблемные сайты ({failingSources.length})
+            </h2>
+            <ul class="divide-y divide-dark-600">
+              {failingSources.map((source) => (
+                <li key={source.sourceId} class="py-2 flex flex-wrap items-center gap-3 text-sm">
+                  <span class="px-2 py-1 text-xs rounded bg-red-500/20 text-red-400 font-mono">
+                    {source.lastStatus ?? 'ERR'}
+                  </span>
+                  <a href={`/admin/universities/${source.universityId}`} class="text-white hover:text-cyber-400">
+                    {source.universityName}
+                  </a>
+                  <span class="text-gray-500 truncate max-w-xs" title={source.url}>{source.url}</span>
+                  <span class="text-gray-400">
+                    ошибок {source.failures} из {source.attempts} за 7 дней
+                  </span>
+                  <span class="text-gray-500">
+                    последний успех: {formatDate(source.lastSuccessAt)}
+                  </span>
+                  {source.lastError && (
+                    <span class="text-xs text-red-400 truncate max-w-xs" title={source.lastError}>
+                      {source.lastError}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Error */}
+        {error && (
+          <div class="mb-4 p-4 bg-red-500/10 border border-red-500/30 text-red-400 rounded-lg">
+            {error}
+            <button type="button" onClick={() => setError(null)} class="ml-2">×</button>
+          </div>
+        )}
+
+        {/* Jobs Table */}
+        {isLoading ? (
+          <div class="text-center py-12">
+            <div class="animate-spin rounded-full h-12 w-12 border-b-2 border-cyber-500 mx-auto"></div>
+          </div>
+        ) : jobs.length === 0 ? (
+          <div class="text-center py-12 text-gray-500">
+            Заданий нет
+          </div>
+        ) : (
+          <div class="bg-dark-800 border border-dark-600 rounded-lg overflow-hidden">
+            <div class="overflow-x-auto">
+              <table class="min-w-full divide-y divide-dark-600">
+                <thead class="bg-dark-700">
+                  <tr>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">
+                      Университет
+                    </th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">
+                      Тип
+                    </th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">
+                      Статус
+                    </th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">
+                      Попытки
+                    </th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">
+                      Запуск
+                    </th>
+                    <th class="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">
+                      Ошибка
+                    </th>
+                    <th class="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody class="bg-dark-800 divide-y divide-dark-600">
+                  {jobs.map((job) => (
+                    <tr key={job.id} class="hover:bg-dark-700">
+                      <td class="px-6 py-4 whitespace-nowrap">
+                        <div class="text-sm font-medium text-white">
+                          {job.universityName ?? job.universityId.slice(0, 8)}
+                        </div>
+                        <div class="text-xs text-gray-500">{job.requestedBy ?? 'По расписанию'}</div>
+                      </td>
+                      <td class="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
+                        {job.type}
+                        {job.priority > 0 && <span class="ml-1 text-xs text-cyber-400">↑{job.priority}</span>}
+                      </td>
+                      <td class="px-6 py-4 whitespace-nowrap">
+                        <span class={`px-2 py-1 text-xs rounded ${STATUS_STYLES[job.status].class}`}>
+                          {STATUS_STYLES[job.status].label}
+                        </span>
+                      </td>
+                      <td class="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
+                        {job.attempts} / {job.maxAttempts}
+                      </td>
+                      <td class="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
+                        {job.status === 'pending' ? formatDate(job.nextRunAt) : formatDate(job.finishedAt ?? job.updatedAt)}
+                      </td>
+                      <td class="px-6 py-4 text-xs text-red-400 max-w-xs truncate" title={job.lastError ?? ''}>
+                        {job.lastError ?? ''}
+                      </td>
+                      <td class="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        {job.status === 'pending' && (
+                          <button
+                            type="button"
+                            onClick={() => cancelJob(job)}
+                            disabled={cancellingId === job.id}
+                            class="text-red-400 hover:text-red-300 disabled:opacity-50"
+                          >
+                            Отменить
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            <div class="px-6 py-3 flex items-center justify-between border-t border-dark-600 text-sm text-gray-400">
+              <span>{pageStart}–{pageEnd} из {total}</span>
+              <div class="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                  disabled={offset === 0}
+                  class="px-3 py-1 bg-dark-700 rounded disabled:opacity-50"
+                >
+                  ←
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={pageEnd >= total}
+                  class="px-3 py-1 bg-dark-700 rounded disabled:opacity-50"
+                >
+                  →
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -7,17 +7,17 @@ import { useAdmin } from './AdminContext.tsx';
 
 export default function AdminLogin() {
   const { login, isLoading, error, clearError } = useAdmin();
-  const [key, setKey] = useState('');
-  const [showKey, setShowKey] = useState(false);
-  const [remember, setRemember] = useState(true);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
 
   const handleSubmit = async (e: Event) => {
     e.preventDefault();
-    if (!key.trim()) return;
-    
-    const success = await login(key.trim());
-    if (!success && !remember) {
-      setKey('');
+    if (!username.trim() || !password) return;
+
+    const success = await login(username.trim(), password);
+    if (!success) {
+      setPassword('');
     }
   };
 
@@ -30,7 +30,7 @@ export default function AdminLogin() {
             🔐 Админ-панель
           </h2>
           <p class="mt-2 text-center text-sm text-gray-400">
-            Введите ключ для доступа
+            Войдите под своей учётной записью
           </p>
         </div>
 
@@ -63,29 +63,49 @@ export default function AdminLogin() {
             </div>
           )}
 
-          <div class="rounded-md -space-y-px">
-            {/* Admin Key Input */}
+          <div class="rounded-md space-y-3">
+            {/* Username Input */}
+            <div>
+              <label for="admin-username" class="sr-only">
+                Логин
+              </label>
+              <input
+                id="admin-username"
+                name="username"
+                type="text"
+                autoComplete="username"
+                required
+                class="appearance-none rounded-md relative block w-full px-3 py-3 bg-dark-800 border border-dark-600 placeholder-gray-500 text-white focus:outline-none focus:ring-cyber-500 focus:border-cyber-500 focus:z-10 sm:text-sm"
+                placeholder="Логин"
+                value={username}
+                onInput={(e) => setUsername((e.target as HTMLInputElement).value)}
+                disabled={isLoading}
+              />
+            </div>
+
+            {/* Password Input */}
             <div class="relative">
-              <label for="admin-key" class="sr-only">
-                Админ-ключ
+              <label for="admin-password" class="sr-only">
+                Пароль
               </label>
               <input
-                id="admin-key"
-                name="key"
-                type={showKey ? 'text' : 'password'}
+                id="admin-password"
+                name="password"
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="current-password"
                 required
                 class="appearance-none rounded-md relative block w-full px-3 py-3 bg-dark-800 border border-dark-600 placeholder-gray-500 text-white focus:outline-none focus:ring-cyber-500 focus:border-cyber-500 focus:z-10 sm:text-sm"
-                placeholder="Введите админ-ключ"
-                value={key}
-                onInput={(e) => setKey((e.target as HTMLInputElement).value)}
+                placeholder="Пароль"
+                value={password}
+                onInput={(e) => setPassword((e.target as HTMLInputElement).value)}
                 disabled={isLoading}
               />
               <button
                 type="button"
                 class="absolute inset-y-0 right-0 pr-3 flex items-center"
-                onClick={() => setShowKey(!showKey)}
+                onClick={() => setShowPassword(!showPassword)}
               >
-                {showKey ? (
+                {showPassword ? (
                   <svg class="h-5 w-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
                   </svg>
@@ -99,26 +119,11 @@ export default function AdminLogin() {
             </div>
           </div>
 
-          {/* Remember checkbox */}
-          <div class="flex items-center">
-            <input
-              id="remember"
-              name="remember"
-              type="checkbox"
-              checked={remember}
-              onChange={(e) => setRemember((e.target as HTMLInputElement).checked)}
-              class="h-4 w-4 text-cyber-500 focus:ring-cyber-500 border-dark-600 bg-dark-800 rounded"
-            />
-            <label for="remember" class="ml-2 block text-sm text-gray-300">
-              Запомнить ключ
-            </label>
-          </div>
-
           {/* Submit button */}
           <div>
             <button
               type="submit"
-              disabled={isLoading || !key.trim()}
+              disabled={isLoading || !username.trim() || !password}
               class="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-dark-900 bg-cyber-500 hover:bg-cyber-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyber-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
             >
               {isLoading ? (
@@ -140,7 +145,7 @@ export default function AdminLogin() {
 
         {/* Help text */}
         <p class="mt-4 text-center text-xs text-gray-500">
-          Ключ задаётся в переменной окружения ADMIN_KEY
+          Учётная запись создаётся командой deno task admin:create
         </p>
       </div>
     </div>
@@ -14,42 +14,98 @@ interface LogEntry {
   resource_id?: string;
   details?: Record<string, unknown>;
   success: boolean;
+  error_message?: string;
+  ip_address?: string;
   timestamp: string;
 }
 
-type FilterAction = 'all' | 'create' | 'update' | 'delete' | 'view';
+interface Filters {
+  admin: string;
+  action: string;
+  resourceType: string;
+  success: '' | 'true' | 'false';
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Типы действий для фильтра (см. AdminActionType)
+ */
+const ACTION_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'Все действия' },
+  { value: 'create_university', label: 'Создание университета' },
+  { value: 'update_university', label: 'Обновление университета' },
+  { value: 'delete_university', label: 'Удаление университета' },
+  { value: 'update_profile', label: 'Обновление профиля' },
+  { value: 'patch_profile', label: 'Частичное обновление профиля' },
+  { value: 'rollback_profile', label: 'Откат профиля' },
+  { value: 'create_program', label: 'Создание программы' },
+  { value: 'update_program', label: 'Обновление программы' },
+  { value: 'delete_program', label: 'Удаление программы' },
+  { value: 'test_parser', label: 'Тест парсера' },
+  { value: 'trigger_update', label: 'Запуск обновления' },
+  { value: 'view_data', label: 'Просмотр' },
+  { value: 'login_attempt', label: 'Вход' },
+  { value: 'create_api_key', label: 'Выпуск API-ключа' },
+  { value: 'rotate_api_key', label: 'Ротация API-ключа' },
+  { value: 'update_api_key', label: 'Срок API-ключа' },
+  { value: 'revoke_api_key', label: 'Отзыв API-ключа' },
+  { value: 'cancel_parse_job', label: 'Отмена задания парсинга' },
+  { value: 'update_source_schedule', label: 'Расписание источника' },
+  { value: 'approve_profile_change', label: 'Принятие изменений профиля' },
+  { value: 'reject_profile_change', label: 'Отклонение изменений профиля' },
+  { value: 'update_exchange_rate', label: 'Изменение курса валюты' },
+  { value: 'delete_exchange_rate', label: 'Удаление курса валюты' },
+  { value: 'other', label: 'Другое' },
+];
+
+const EMPTY_FILTERS: Filters = {
+  admin: '',
+  action: '',
+  resourceType: '',
+  success: '',
+  from: '',
+  to: '',
+};
 
 export default function AdminLogs() {
   const { logout } = useAdmin();
   const { fetchWithAuth } = useAdminAPI();
 
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filterAction, setFilterAction] = useState<FilterAction>('all');
-  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
 
   useEffect(() => {
     loadLogs();
-  }, []);
+  }, [offset, filters]);
 
   const loadLogs = async () => {
     setIsLoading(true);
     try {
-      // Используем API для получения логов из update_logs
-      const response = await fetchWithAuth('/api/admin/universities?limit=1');
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (filters.admin) params.set('admin', filters.admin);
+      if (filters.action) params.set('action', filters.action);
+      if (filters.resourceType) params.set('resource_type', filters.resourceType);
+      if (filters.success) params.set('success', filters.success);
+      if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      const response = await fetchWithAuth(`/api/admin/audit-log?${params}`);
+      const data = await response.json();
       if (response.ok) {
-        // Пока заглушка - в реальности нужен отдельный API
-        setLogs([
-          {
-            admin_key_masked: 'dev-...key',
-            admin_name: 'Admin',
-            action: 'view_data',
-            resource_type: 'universities',
-            success: true,
-            timestamp: new Date().toISOString(),
-          },
-        ]);
+        setLogs(data.data);
+        setTotal(data.pagination.total);
+      } else {
+        setError(data.error || 'Failed to load logs');
       }
     } catch {
       setError('Failed to load logs');
@@ -58,24 +114,20 @@ export default function AdminLogs() {
     }
   };
 
-  const filteredLogs = logs.filter((log) => {
-    if (filterAction !== 'all' && !log.action.includes(filterAction)) {
-      return false;
-    }
-    if (search) {
-      const searchLower = search.toLowerCase();
-      return (
-        log.action.toLowerCase().includes(searchLower) ||
-        log.resource_type.toLowerCase().includes(searchLower) ||
-        log.admin_name?.toLowerCase().includes(searchLower)
-      );
-    }
-    return true;
-  });
+  /**
+   * Изменить фильтр и вернуться на первую страницу
+   */
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters({ ...filters, [key]: value });
+    setOffset(0);
+  };
+
+  const pageStart = total === 0 ? 0 : offset + 1;
+  const pageEnd = Math.min(offset + PAGE_SIZE, total);
 
   const exportCSV = () => {
     const headers = ['Время', 'Админ', 'Действие', 'Ресурс', 'ID', 'Статус'];
-    const rows = filteredLogs.map((log) => [
+    const rows = logs.map((log) => [
       new Date(log.timestamp).toLocaleString('ru'),
       log.admin_name || log.admin_key_masked,
       log.action,
@@ -133,23 +185,65 @@ export default function AdminLogs() {
             <div class="flex-1 min-w-[200px]">
               <input
                 type="text"
-                placeholder="Поиск..."
-                value={search}
-                onInput={(e) => setSearch((e.target as HTMLInputElement).value)}
+                placeholder="Админ..."
+                value={filters.admin}
+                onChange={(e) => updateFilter('admin', (e.target as HTMLInputElement).value)}
                 class="w-full px-4 py-2 bg-dark-700 border border-dark-600 text-white rounded-lg focus:ring-cyber-500 focus:border-cyber-500 placeholder-gray-500"
               />
             </div>
             <select
-              value={filterAction}
-              onChange={(e) => setFilterAction((e.target as HTMLSelectElement).value as FilterAction)}
+              value={filters.action}
+              onChange={(e) => updateFilter('action', (e.target as HTMLSelectElement).value)}
+              class="px-4 py-2 bg-dark-700 border border-dark-600 text-white rounded-lg"
+            >
+              {ACTION_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              placeholder="Ресурс (university, ...)"
+              value={filters.resourceType}
+              onChange={(e) => updateFilter('resourceType', (e.target as HTMLInputElement).value)}
+              class="px-4 py-2 bg-dark-700 border border-dark-600 text-white rounded-lg placeholder-gray-500"
+            />
+            <select
+              value={filters.success}
+              onChange={(e) => updateFilter('success', (e.target as HTMLSelectElement).value as Filters['success'])}
               class="px-4 py-2 bg-dark-700 border border-dark-600 text-white rounded-lg"
             >
-              <option value="all">Все действия</option>
-              <option value="create">Создание</option>
-              <option value="update">Обновление</option>
-              <option value="delete">Удаление</option>
-              <option value="view">Просмотр</option>
+              <option value="">Любой статус</option>
+              <option value="true">OK</option>
+              <option value="false">Error</option>
             </select>
+          </div>
+          <div class="flex flex-wrap gap-4 items-center mt-4">
+            <label class="flex items-center gap-2 text-sm text-gray-400">
+              С
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', (e.target as HTMLInputElement).value)}
+                class="px-3 py-2 bg-dark-700 border border-dark-600 text-white rounded-lg"
+              />
+            </label>
+            <label class="flex items-center gap-2 text-sm text-gray-400">
+              по
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', (e.target as HTMLInputElement).value)}
+                class="px-3 py-2 bg-dark-700 border border-dark-600 text-white rounded-lg"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => { setFilters(EMPTY_FILTERS); setOffset(0); }}
+              class="px-4 py-2 text-gray-400 hover:text-white"
+            >
+              Сбросить
+            </button>
+            <div class="flex-1" />
             <button
               type="button"
               onClick={loadLogs}
@@ -180,7 +274,7 @@ export default function AdminLogs() {
           <div class="text-center py-12">
             <div class="animate-spin rounded-full h-12 w-12 border-b-2 border-cyber-500 mx-auto"></div>
           </div>
-        ) : filteredLogs.length === 0 ? (
+        ) : logs.length === 0 ? (
           <div class="text-center py-12 text-gray-500">
             Логи не найдены
           </div>
@@ -211,8 +305,8 @@ export default function AdminLogs() {
                   </tr>
                 </thead>
                 <tbody class="bg-dark-800 divide-y divide-dark-600">
-                  {filteredLogs.map((log, idx) => (
-                    <tr key={idx} class="hover:bg-dark-700">
+                  {logs.map((log, idx) => (
+                    <tr key={log.id ?? idx} class="hover:bg-dark-700">
                       <td class="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
                         {new Date(log.timestamp).toLocaleString('ru')}
                       </td>
@@ -244,7 +338,7 @@ export default function AdminLogs() {
                         {log.success ? (
                           <span class="text-green-400">✓ OK</span>
                         ) : (
-                          <span class="text-red-400">✗ Error</span>
+                          <span class="text-red-400" title={log.error_message}>✗ Error</span>
                         )}
                       </td>
                       <td class="px-6 py-4 text-sm text-gray-500">
@@ -263,6 +357,28 @@ export default function AdminLogs() {
                 </tbody>
               </table>
             </div>
+            {/* Pagination */}
+            <div class="flex justify-between items-center px-6 py-3 border-t border-dark-600 text-sm text-gray-400">
+              <span>{pageStart}–{pageEnd} из {total}</span>
+              <div class="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                  disabled={offset === 0}
+                  class="px-3 py-1 bg-dark-700 rounded border border-dark-600 hover:bg-dark-600 disabled:opacity-50"
+                >
+                  ← Назад
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={pageEnd >= total}
+                  class="px-3 py-1 bg-dark-700 rounded border border-dark-600 hover:bg-dark-600 disabled:opacity-50"
+                >
+                  Вперёд →
+                </button>
+              </div>
+            </div>
           </div>
         )}
       </main>
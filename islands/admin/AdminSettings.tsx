@@ -4,6 +4,7 @@
 
 import { useState } from 'preact/hooks';
 import { useAdmin, useAdminAPI } from './AdminContext.tsx';
+import ApiKeysSection from './settings/ApiKeysSection.tsx';
 
 export default function AdminSettings() {
   const { adminInfo, logout } = useAdmin();
@@ -15,6 +16,10 @@ export default function AdminSettings() {
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<string | null>(null);
 
+  const canManageKeys = !!adminInfo?.permissions?.some(
+    (p) => p === 'manage_users' || p === 'full_access'
+  );
+
   const testOllama = async () => {
     setIsTesting(true);
     setTestResult(null);
@@ -88,6 +93,9 @@ export default function AdminSettings() {
           </div>
         </div>
 
+        {/* API Keys */}
+        {canManageKeys && <ApiKeysSection />}
+
         {/* Ollama Settings */}
         <div class="bg-dark-800 rounded-lg border border-dark-600 p-6">
           <h2 class="text-lg font-medium text-white mb-4">🤖 Ollama AI</h2>
@@ -118,7 +126,7 @@ export default function AdminSettings() {
               )}
             </div>
             <p class="text-xs text-gray-500">
-              Настраивается через переменную окружения OLLAMA_URL
+              Настраивается через OLLAMA_URL или LLM_BASE_URL (отдельно для задачи — LLM_PARSING_BASE_URL, LLM_CHAT_BASE_URL и т.д.)
             </p>
           </div>
         </div>
@@ -7,7 +7,7 @@ import { useAdmin, AdminProvider } from './AdminContext.tsx';
 import AdminLogin from './AdminLogin.tsx';
 import AdminDashboard from './AdminDashboard.tsx';
 
-type PageType = 'dashboard' | 'logs' | 'settings' | 'editor';
+type PageType = 'dashboard' | 'logs' | 'jobs' | 'changes' | 'settings' | 'editor';
 
 interface Props {
   page?: PageType;
@@ -37,6 +37,10 @@ function AuthGate({ page, universityId }: Props) {
     case 'logs':
       // Lazy import для логов
       return <LazyAdminLogs />;
+    case 'jobs':
+      return <LazyAdminJobs />;
+    case 'changes':
+      return <LazyAdminChanges />;
     case 'settings':
       return <LazyAdminSettings />;
     case 'editor':
@@ -50,6 +54,8 @@ function AuthGate({ page, universityId }: Props) {
  * Ленивые компоненты для уменьшения бандла
  */
 import AdminLogs from './AdminLogs.tsx';
+import AdminJobs from './AdminJobs.tsx';
+import AdminChanges from './AdminChanges.tsx';
 import AdminSettings from './AdminSettings.tsx';
 import UniversityEditor from './UniversityEditor.tsx';
 
@@ -57,6 +63,14 @@ function LazyAdminLogs() {
   return <AdminLogs />;
 }
 
+function LazyAdminJobs() {
+  return <AdminJobs />;
+}
+
+function LazyAdminChanges() {
+  return <AdminChanges />;
+}
+
 function LazyAdminSettings() {
   return <AdminSettings />;
 }
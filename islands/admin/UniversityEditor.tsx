@@ -4,7 +4,7 @@
 
 import { useState, useEffect } from 'preact/hooks';
 import { useAdmin, useAdminAPI } from './AdminContext.tsx';
-import type { University } from '../../src/types/university.ts';
+import type { University, ProfileProvenance } from '../../src/types/university.ts';
 
 // Импорт вкладок
 import BasicInfoTab from './editor/BasicInfoTab.tsx';
@@ -16,13 +16,35 @@ import InternationalTab from './editor/InternationalTab.tsx';
 import ContactsTab from './editor/ContactsTab.tsx';
 import RankingsTab from './editor/RankingsTab.tsx';
 import JSONTab from './editor/JSONTab.tsx';
+import HistoryTab from './editor/HistoryTab.tsx';
+import ScheduleTab from './editor/ScheduleTab.tsx';
+import { ProvenanceSummary } from './editor/FormFields.tsx';
 
-type Tab = 'basic' | 'programs' | 'admissions' | 'tuition' | 'campus' | 'international' | 'contacts' | 'rankings' | 'json';
+type Tab = 'basic' | 'programs' | 'admissions' | 'tuition' | 'campus' | 'international' | 'contacts' | 'rankings' | 'history' | 'schedule' | 'json';
 
 interface Props {
   universityId: string;
 }
 
+/**
+ * Разделы профиля, редактируемые на каждой вкладке (для отображения происхождения)
+ */
+const TAB_SECTIONS: Partial<Record<Tab, { field: string; label: string }[]>> = {
+  programs: [{ field: 'programs', label: 'Программы' }],
+  admissions: [{ field: 'admissions', label: 'Поступление' }],
+  tuition: [
+    { field: 'tuition_general', label: 'Стоимость' },
+    { field: 'scholarships', label: 'Стипендии' },
+  ],
+  campus: [
+    { field: 'campus', label: 'Кампус' },
+    { field: 'other', label: 'Прочее' },
+  ],
+  international: [{ field: 'international', label: 'Международное' }],
+  contacts: [{ field: 'contacts', label: 'Контакты' }],
+  rankings: [{ field: 'rankings', label: 'Рейтинги' }],
+};
+
 /**
  * Главный компонент редактора университета
  */
@@ -31,6 +53,7 @@ export default function UniversityEditor({ universityId }: Props) {
   const { fetchWithAuth } = useAdminAPI();
   
   const [university, setUniversity] = useState<University | null>(null);
+  const [provenance, setProvenance] = useState<ProfileProvenance>({});
   const [originalData, setOriginalData] = useState<string>('');
   const [activeTab, setActiveTab] = useState<Tab>('basic');
   const [isLoading, setIsLoading] = useState(true);
@@ -55,6 +78,7 @@ export default function UniversityEditor({ universityId }: Props) {
       const data = await response.json();
       if (response.ok && data.profile) {
         setUniversity(data.profile);
+        setProvenance(data.provenance ?? {});
         setOriginalData(JSON.stringify(data.profile));
       } else {
         setError(data.error || 'Не удалось загрузить');
@@ -78,8 +102,14 @@ export default function UniversityEditor({ universityId }: Props) {
       });
       const data = await response.json();
       
-      if (response.ok && data.success) {
-        setSuccess(`Обновлено! ${data.message || ''}`);
+      if (response.status === 202 && data.success) {
+        // Воркер не успел выполнить задание — оно остаётся в очереди
+        setSuccess('Обновление выполняется в фоне, проверьте очередь заданий');
+      } else if (response.ok && data.success) {
+        const preserved: string[] = data.preserved_fields ?? [];
+        setSuccess(`Обновлено! ${data.message || ''}${
+          preserved.length > 0 ? ` Ручные правки сохранены: ${preserved.join(', ')}` : ''
+        }`);
         // Перезагрузить данные
         await loadUniversity();
       } else {
@@ -129,6 +159,9 @@ export default function UniversityEditor({ universityId }: Props) {
       if (response.ok && data.success) {
         setSuccess('Сохранено успешно!');
         setOriginalData(JSON.stringify(university));
+        if (data.data?.provenance) {
+          setProvenance(data.data.provenance);
+        }
         setTimeout(() => setSuccess(null), 3000);
       } else {
         setError(data.message || 'Не удалось сохранить');
@@ -180,6 +213,8 @@ export default function UniversityEditor({ universityId }: Props) {
     { id: 'international', label: 'Международное', icon: '🌍' },
     { id: 'contacts', label: 'Контакты', icon: '📞' },
     { id: 'rankings', label: 'Рейтинги', icon: '🏆' },
+    { id: 'history', label: 'История', icon: '🕓' },
+    { id: 'schedule', label: 'Расписание', icon: '⏱️' },
     { id: 'json', label: 'JSON', icon: '{ }' },
   ];
 
@@ -276,8 +311,11 @@ export default function UniversityEditor({ universityId }: Props) {
       {/* Content */}
       <main class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-8">
         <div class="bg-white rounded-b-lg shadow p-6">
+          {TAB_SECTIONS[activeTab] && (
+            <ProvenanceSummary fields={TAB_SECTIONS[activeTab]!} provenance={provenance} />
+          )}
           {activeTab === 'basic' && (
-            <BasicInfoTab university={university} updateField={updateField} />
+            <BasicInfoTab university={university} provenance={provenance} updateField={updateField} />
           )}
           {activeTab === 'programs' && (
             <ProgramsTab 
@@ -323,6 +361,20 @@ export default function UniversityEditor({ universityId }: Props) {
               onUpdate={(r) => updateField('rankings', r)} 
             />
           )}
+          {activeTab === 'history' && (
+            <HistoryTab
+              universityId={universityId}
+              hasChanges={hasChanges}
+              onRolledBack={async (message) => {
+                await loadUniversity();
+                setSuccess(message);
+                setTimeout(() => setSuccess(null), 3000);
+              }}
+            />
+          )}
+          {activeTab === 'schedule' && (
+            <ScheduleTab universityId={universityId} />
+          )}
           {activeTab === 'json' && (
             <JSONTab data={university} onChange={setUniversity} />
           )}
@@ -2,18 +2,19 @@
  * Вкладка: Основная информация университета
  */
 
-import { InputField, TextAreaField } from './FormFields.tsx';
-import type { University } from '../../../src/types/university.ts';
+import { InputField, TextAreaField, ProvenanceBadge } from './FormFields.tsx';
+import type { University, ProfileProvenance } from '../../../src/types/university.ts';
 
 interface Props {
   university: University;
+  provenance: ProfileProvenance;
   updateField: (path: string, value: unknown) => void;
 }
 
 /**
  * Форма редактирования основной информации
  */
-export default function BasicInfoTab({ university, updateField }: Props) {
+export default function BasicInfoTab({ university, provenance, updateField }: Props) {
   return (
     <div class="space-y-6">
       <h3 class="text-lg font-medium border-b pb-2">Основная информация</h3>
@@ -23,12 +24,14 @@ export default function BasicInfoTab({ university, updateField }: Props) {
           label="Название"
           value={university.name}
           onChange={(v) => updateField('name', v)}
+          badge={<ProvenanceBadge provenance={provenance.name} />}
           required
         />
         <InputField
           label="Название (EN)"
           value={university.name_en || ''}
           onChange={(v) => updateField('name_en', v)}
+          badge={<ProvenanceBadge provenance={provenance.name_en} />}
         />
       </div>
 
@@ -37,12 +40,14 @@ export default function BasicInfoTab({ university, updateField }: Props) {
           label="Страна"
           value={university.country}
           onChange={(v) => updateField('country', v)}
+          badge={<ProvenanceBadge provenance={provenance.country} />}
           required
         />
         <InputField
           label="Город"
           value={university.city}
           onChange={(v) => updateField('city', v)}
+          badge={<ProvenanceBadge provenance={provenance.city} />}
           required
         />
         <InputField
@@ -50,6 +55,7 @@ export default function BasicInfoTab({ university, updateField }: Props) {
           type="number"
           value={university.founded_year?.toString() || ''}
           onChange={(v) => updateField('founded_year', v ? parseInt(v) : null)}
+          badge={<ProvenanceBadge provenance={provenance.founded_year} />}
         />
       </div>
 
@@ -59,12 +65,14 @@ export default function BasicInfoTab({ university, updateField }: Props) {
           type="url"
           value={university.website_url}
           onChange={(v) => updateField('website_url', v)}
+          badge={<ProvenanceBadge provenance={provenance.website_url} />}
         />
         <InputField
           label="Логотип (URL)"
           type="url"
           value={university.logo_url || ''}
           onChange={(v) => updateField('logo_url', v)}
+          badge={<ProvenanceBadge provenance={provenance.logo_url} />}
         />
       </div>
 
@@ -74,12 +82,14 @@ export default function BasicInfoTab({ university, updateField }: Props) {
           type="number"
           value={university.student_count?.toString() || ''}
           onChange={(v) => updateField('student_count', v ? parseInt(v) : null)}
+          badge={<ProvenanceBadge provenance={provenance.student_count} />}
         />
         <InputField
           label="Количество преподавателей"
           type="number"
           value={university.faculty_count?.toString() || ''}
           onChange={(v) => updateField('faculty_count', v ? parseInt(v) : null)}
+          badge={<ProvenanceBadge provenance={provenance.faculty_count} />}
         />
       </div>
 
@@ -87,6 +97,7 @@ export default function BasicInfoTab({ university, updateField }: Props) {
         label="Описание"
         value={university.description}
         onChange={(v) => updateField('description', v)}
+        badge={<ProvenanceBadge provenance={provenance.description} />}
         rows={4}
       />
 
@@ -94,6 +105,7 @@ export default function BasicInfoTab({ university, updateField }: Props) {
         label="Миссия"
         value={university.mission || ''}
         onChange={(v) => updateField('mission', v)}
+        badge={<ProvenanceBadge provenance={provenance.mission} />}
         rows={3}
       />
     </div>
@@ -2,6 +2,69 @@
  * Общие компоненты полей формы для редактора университета
  */
 
+import type { ComponentChildren } from 'preact';
+import type { FieldProvenance, ProfileProvenance } from '../../../src/types/university.ts';
+
+/**
+ * Отображение методов получения данных
+ */
+const PROVENANCE_LABELS: Record<FieldProvenance['method'], { label: string; class: string }> = {
+  llm: { label: '🤖 LLM', class: 'bg-blue-100 text-blue-800' },
+  search: { label: '🔎 AI-поиск', class: 'bg-orange-100 text-orange-800' },
+  seed: { label: '🌱 Seed', class: 'bg-green-100 text-green-800' },
+  manual: { label: '✍️ Вручную', class: 'bg-purple-100 text-purple-800' },
+};
+
+interface ProvenanceBadgeProps {
+  provenance?: FieldProvenance;
+}
+
+/**
+ * Бейдж происхождения поля: метод, уверенность и источник в подсказке
+ */
+export function ProvenanceBadge({ provenance }: ProvenanceBadgeProps) {
+  if (!provenance) {
+    return (
+      <span class="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-500" title="Происхождение неизвестно">
+        ?
+      </span>
+    );
+  }
+
+  const view = PROVENANCE_LABELS[provenance.method];
+  const title = [
+    provenance.source_url && `Источник: ${provenance.source_url}`,
+    provenance.model && `Модель: ${provenance.model}`,
+    `Дата: ${new Date(provenance.extracted_at).toLocaleString('ru-RU')}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span class={`px-1.5 py-0.5 text-xs rounded font-normal ${view?.class ?? 'bg-gray-100 text-gray-500'}`} title={title}>
+      {view?.label ?? provenance.method} · {Math.round(provenance.confidence * 100)}%
+    </span>
+  );
+}
+
+interface ProvenanceSummaryProps {
+  fields: { field: string; label: string }[];
+  provenance: ProfileProvenance;
+}
+
+/**
+ * Строка с происхождением разделов профиля, показанных на вкладке
+ */
+export function ProvenanceSummary({ fields, provenance }: ProvenanceSummaryProps) {
+  return (
+    <div class="mb-4 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+      {fields.map(({ field, label }) => (
+        <span key={field} class="flex items-center gap-1">
+          {label}: <ProvenanceBadge provenance={provenance[field]} />
+        </span>
+      ))}
+    </div>
+  );
+}
+
 interface InputFieldProps {
   label: string;
   value: string;
@@ -10,6 +73,7 @@ interface InputFieldProps {
   required?: boolean;
   disabled?: boolean;
   placeholder?: string;
+  badge?: ComponentChildren;
 }
 
 /**
@@ -23,11 +87,12 @@ export function InputField({
   required = false,
   disabled = false,
   placeholder,
+  badge,
 }: InputFieldProps) {
   return (
     <div>
       <label class="block text-sm font-medium text-gray-700 mb-1">
-        {label} {required && <span class="text-red-500">*</span>}
+        {label} {required && <span class="text-red-500">*</span>} {badge}
       </label>
       <input
         type={type}
@@ -51,6 +116,7 @@ interface TextAreaFieldProps {
   required?: boolean;
   disabled?: boolean;
   placeholder?: string;
+  badge?: ComponentChildren;
 }
 
 /**
@@ -64,11 +130,12 @@ export function TextAreaField({
   required = false,
   disabled = false,
   placeholder,
+  badge,
 }: TextAreaFieldProps) {
   return (
     <div>
       <label class="block text-sm font-medium text-gray-700 mb-1">
-        {label} {required && <span class="text-red-500">*</span>}
+        {label} {required && <span class="text-red-500">*</span>} {badge}
       </label>
       <textarea
         rows={rows}
@@ -0,0 +1,222 @@
+/**
+ * Вкладка: История версий профиля
+ */
+
+import { useState, useEffect } from 'preact/hooks';
+import { useAdminAPI } from '../AdminContext.tsx';
+import type { ProfileVersionSummary, FieldDiff } from '../../../src/services/profile-versions.service.ts';
+
+interface Props {
+  universityId: string;
+  hasChanges: boolean;
+  onRolledBack: (message: string) => void;
+}
+
+/**
+ * Подписи и цвета для типов изменений
+ */
+const CHANGE_STYLES: Record<FieldDiff['change'], { label: string; class: string }> = {
+  added: { label: 'Добавлено', class: 'bg-green-100 text-green-800' },
+  removed: { label: 'Удалено', class: 'bg-red-100 text-red-800' },
+  updated: { label: 'Изменено', class: 'bg-yellow-100 text-yellow-800' },
+};
+
+/**
+ * Короткое представление значения для таблицы diff
+ */
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+};
+
+/**
+ * Список версий, сравнение с текущей и откат
+ */
+export default function HistoryTab({ universityId, hasChanges, onRolledBack }: Props) {
+  const { fetchWithAuth } = useAdminAPI();
+
+  const [versions, setVersions] = useState<ProfileVersionSummary[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<FieldDiff[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentVersion = versions[0]?.version;
+
+  useEffect(() => {
+    loadVersions();
+  }, [universityId]);
+
+  /**
+   * Загрузить список версий
+   */
+  const loadVersions = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/admin/universities/${universityId}/versions`);
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setVersions(data.versions);
+      } else {
+        setError(data.error || 'Не удалось загрузить историю');
+      }
+    } catch {
+      setError('Ошибка соединения');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Выбрать версию и сравнить её с текущей
+   */
+  const selectVersion = async (version: number) => {
+    setSelected(version);
+    setDiff(null);
+    setError(null);
+    try {
+      const response = await fetchWithAuth(
+        `/api/admin/universities/${universityId}/versions/diff?from=${version}&to=${currentVersion}`
+      );
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setDiff(data.fields);
+      } else {
+        setError(data.error || 'Не удалось сравнить версии');
+      }
+    } catch {
+      setError('Ошибка соединения');
+    }
+  };
+
+  /**
+   * Откатить профиль к выбранной версии
+   */
+  const handleRollback = async () => {
+    if (selected === null) return;
+    const warning = hasChanges ? '\nНесохранённые изменения будут потеряны.' : '';
+    if (!confirm(`Откатить профиль к версии ${selected}?${warning}`)) return;
+
+    setIsRollingBack(true);
+    setError(null);
+    try {
+      const response = await fetchWithAuth(
+        `/api/admin/universities/${universityId}/versions/${selected}/rollback`,
+        { method: 'POST' }
+      );
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setSelected(null);
+        setDiff(null);
+        await loadVersions();
+        onRolledBack(`Профиль откатен к версии ${selected} (новая версия ${data.data.version})`);
+      } else {
+        setError(data.message || data.error || 'Не удалось откатить');
+      }
+    } catch {
+      setError('Ошибка соединения');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p class="text-gray-500 text-center py-8">Загрузка истории...</p>;
+  }
+
+  return (
+    <div class="space-y-4">
+      <h3 class="text-lg font-medium border-b pb-2">История версий ({versions.length})</h3>
+
+      {error && (
+        <div class="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div class="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Список версий */}
+        <div class="space-y-2">
+          {versions.map((v) => (
+            <button
+              key={v.version}
+              type="button"
+              onClick={() => v.version !== currentVersion && selectVersion(v.version)}
+              disabled={v.version === currentVersion}
+              class={`w-full text-left border rounded-lg p-3 ${
+                selected === v.version ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div class="flex justify-between items-center">
+                <span class="font-medium">Версия {v.version}</span>
+                {v.version === currentVersion && (
+                  <span class="px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded">текущая</span>
+                )}
+              </div>
+              <p class="text-xs text-gray-500">{new Date(v.created_at).toLocaleString('ru-RU')}</p>
+              {v.notes && <p class="text-xs text-gray-600 mt-1">{v.notes}</p>}
+              {v.completeness_score !== null && (
+                <p class="text-xs text-gray-400">Заполненность: {v.completeness_score}%</p>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {/* Diff с текущей версией */}
+        <div class="lg:col-span-2">
+          {selected === null ? (
+            <p class="text-gray-500 text-center py-8">
+              Выберите версию, чтобы сравнить её с текущей
+            </p>
+          ) : (
+            <div class="space-y-3">
+              <div class="flex justify-between items-center">
+                <span class="font-medium">
+                  Изменения: версия {selected} → версия {currentVersion}
+                </span>
+                <button
+                  type="button"
+                  onClick={handleRollback}
+                  disabled={isRollingBack}
+                  class="px-4 py-2 bg-orange-600 text-white rounded-lg text-sm hover:bg-orange-700 disabled:opacity-50"
+                >
+                  {isRollingBack ? 'Откат...' : `↩️ Откатить к версии ${selected}`}
+                </button>
+              </div>
+
+              {diff === null ? (
+                <p class="text-gray-500 text-sm">Загрузка...</p>
+              ) : diff.length === 0 ? (
+                <p class="text-gray-500 text-sm">Версии не отличаются</p>
+              ) : (
+                <table class="w-full text-sm border">
+                  <thead class="bg-gray-50">
+                    <tr>
+                      <th class="p-2 text-left">Поле</th>
+                      <th class="p-2 text-left">Было (v{selected})</th>
+                      <th class="p-2 text-left">Стало (v{currentVersion})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.map((d) => (
+                      <tr key={d.path} class="border-t align-top">
+                        <td class="p-2">
+                          <div class="font-mono text-xs">{d.path}</div>
+                          <span class={`px-1.5 py-0.5 text-xs rounded ${CHANGE_STYLES[d.change].class}`}>
+                            {CHANGE_STYLES[d.change].label}
+                          </span>
+                        </td>
+                        <td class="p-2 text-gray-600 break-all">{formatValue(d.old_value)}</td>
+                        <td class="p-2 break-all">{formatValue(d.new_value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
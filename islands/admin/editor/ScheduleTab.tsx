@@ -0,0 +1,242 @@
+/**
+ * Вкладка: Расписание проверки источников
+ */
+
+import { useState, useEffect } from 'preact/hooks';
+import { useAdminAPI } from '../AdminContext.tsx';
+import type { SourceSchedule } from '../../../src/services/source-schedules.service.ts';
+import type { SourcePublishMode, SourceRefreshMode } from '../../../src/types/index.ts';
+
+interface Props {
+  universityId: string;
+}
+
+/**
+ * Интервал в минутах → «3 ч», «2 д 6 ч»
+ */
+const formatMinutes = (minutes: number): string => {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+  return [days && `${days} д`, hours && `${hours} ч`, rest && `${rest} мин`].filter(Boolean).join(' ') || '0 мин';
+};
+
+const formatDate = (value: string | null): string =>
+  value ? new Date(value).toLocaleString('ru-RU') : '—';
+
+/**
+ * Успешная загрузка: 2xx или 304 (не изменилось)
+ */
+const isHttpOk = (status: number | null): boolean =>
+  status !== null && ((status >= 200 && status < 300) || status === 304);
+
+/**
+ * Форма расписания одного источника
+ */
+function SourceScheduleForm({ source, onSave }: {
+  source: SourceSchedule;
+  onSave: (source: SourceSchedule, changes: Record<string, unknown>) => Promise<void>;
+}) {
+  const [mode, setMode] = useState<SourceRefreshMode>(source.mode);
+  const [cron, setCron] = useState(source.cron ?? '0 3 * * *');
+  const [intervalMinutes, setIntervalMinutes] = useState(source.intervalMinutes);
+  const [min, setMin] = useState(source.minIntervalMinutes);
+  const [max, setMax] = useState(source.maxIntervalMinutes);
+  const [publishMode, setPublishMode] = useState<SourcePublishMode>(source.publishMode);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    await onSave(source, {
+      mode,
+      cron: mode === 'fixed' ? cron : source.cron,
+      interval_minutes: intervalMinutes,
+      min_interval_minutes: min,
+      max_interval_minutes: max,
+      publish_mode: publishMode,
+    });
+    setIsSaving(false);
+  };
+
+  const numberInput = (value: number, onChange: (v: number) => void) => (
+    <input
+      type="number"
+      min={5}
+      value={value}
+      onInput={(e) => onChange(parseInt((e.target as HTMLInputElement).value) || 0)}
+      class="w-28 px-2 py-1 border rounded"
+    />
+  );
+
+  return (
+    <div class="border rounded-lg p-4 space-y-3">
+      <div class="flex justify-between items-start gap-4">
+        <div class="min-w-0">
+          <a href={source.url} target="_blank" rel="noopener" class="text-blue-600 hover:underline break-all">
+            {source.url}
+          </a>
+          <p class="text-xs text-gray-500">
+            {source.sourceType}{!source.isActive && ' · неактивен'}
+            {source.lastHttpStatusAt && (
+              <span
+                class={`ml-2 px-1.5 py-0.5 rounded font-mono ${
+                  isHttpOk(source.lastHttpStatus) ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                }`}
+                title={`Последняя загрузка: ${formatDate(source.lastHttpStatusAt)}`}
+              >
+                HTTP {source.lastHttpStatus ?? 'ошибка сети'}
+              </span>
+            )}
+          </p>
+        </div>
+        <div class="text-right text-xs text-gray-500 whitespace-nowrap">
+          <div>Проверен: {formatDate(source.lastCheckedAt)}</div>
+          <div>Следующая: {formatDate(source.nextCheckAt)}</div>
+          <div>
+            Изменения: {source.recentChanges} из {source.recentChecks} последних проверок
+          </div>
+        </div>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-4 text-sm">
+        <label class="flex items-center gap-2">
+          <input type="radio" checked={mode === 'adaptive'} onChange={() => setMode('adaptive')} />
+          Адаптивно
+        </label>
+        <label class="flex items-center gap-2">
+          <input type="radio" checked={mode === 'fixed'} onChange={() => setMode('fixed')} />
+          По расписанию (cron, UTC)
+        </label>
+      </div>
+
+      {mode === 'fixed' ? (
+        <div class="text-sm">
+          <input
+            type="text"
+            value={cron}
+            onInput={(e) => setCron((e.target as HTMLInputElement).value)}
+            placeholder="0 3 * * 1"
+            class="w-48 px-2 py-1 border rounded font-mono"
+          />
+          <span class="ml-2 text-xs text-gray-500">минута час день месяц день_недели</span>
+        </div>
+      ) : (
+        <div class="flex flex-wrap items-center gap-4 text-sm">
+          <label class="flex items-center gap-2">
+            Сейчас, мин {numberInput(intervalMinutes, setIntervalMinutes)}
+            <span class="text-xs text-gray-500">{formatMinutes(intervalMinutes)}</span>
+          </label>
+          <label class="flex items-center gap-2">
+            Мин. {numberInput(min, setMin)}
+          </label>
+          <label class="flex items-center gap-2">
+            Макс. {numberInput(max, setMax)}
+          </label>
+        </div>
+      )}
+
+      <label class="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={publishMode === 'review'}
+          onChange={(e) => setPublishMode((e.target as HTMLInputElement).checked ? 'review' : 'auto')}
+        />
+        Публиковать изменения только после проверки
+        <a href="/admin/changes" class="text-xs text-blue-600 hover:underline">(очередь изменений)</a>
+      </label>
+
+      <div class="flex justify-end">
+        <button
+          type="button"
+          onClick={save}
+          disabled={isSaving}
+          class="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Сохранение...' : 'Сохранить настройки'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Источники университета и их расписание
+ */
+export default function ScheduleTab({ universityId }: Props) {
+  const { fetchWithAuth } = useAdminAPI();
+
+  const [sources, setSources] = useState<SourceSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSources();
+  }, [universityId]);
+
+  const loadSources = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetchWithAuth(`/api/admin/universities/${universityId}/sources`);
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setSources(data.sources);
+      } else {
+        setError(data.error || 'Не удалось загрузить источники');
+      }
+    } catch {
+      setError('Ошибка соединения');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveSchedule = async (source: SourceSchedule, changes: Record<string, unknown>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetchWithAuth(
+        `/api/admin/universities/${universityId}/sources?source_id=${source.id}`,
+        { method: 'PATCH', body: JSON.stringify(changes) }
+      );
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setSources((current) => current.map((s) => (s.id === source.id ? data.source : s)));
+        setMessage(`Следующая проверка: ${formatDate(data.source.nextCheckAt)}`);
+      } else {
+        setError(data.error || 'Не удалось сохранить расписание');
+      }
+    } catch {
+      setError('Ошибка соединения');
+    }
+  };
+
+  if (isLoading) {
+    return <p class="text-gray-500 text-center py-8">Загрузка источников...</p>;
+  }
+
+  return (
+    <div class="space-y-4">
+      <h3 class="text-lg font-medium border-b pb-2">Расписание проверки ({sources.length})</h3>
+      <p class="text-sm text-gray-500">
+        Адаптивный режим сокращает интервал вдвое, если сайт менялся хотя бы в половине последних
+        проверок, и увеличивает в 1,5 раза, если изменений не было.
+      </p>
+
+      {error && (
+        <div class="p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+      {message && (
+        <div class="p-3 bg-green-50 text-green-700 rounded-lg text-sm">{message}</div>
+      )}
+
+      {sources.length === 0 ? (
+        <p class="text-gray-500 text-center py-8">У университета нет источников</p>
+      ) : (
+        sources.map((source) => (
+          <SourceScheduleForm key={source.id} source={source} onSave={saveSchedule} />
+        ))
+      )}
+    </div>
+  );
+}
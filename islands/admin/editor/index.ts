@@ -11,5 +11,7 @@ export { default as CampusTab } from './CampusTab.tsx';
 export { default as InternationalTab } from './InternationalTab.tsx';
 export { default as ContactsTab } from './ContactsTab.tsx';
 export { default as RankingsTab } from './RankingsTab.tsx';
+export { default as HistoryTab } from './HistoryTab.tsx';
+export { default as ScheduleTab } from './ScheduleTab.tsx';
 export { default as JSONTab } from './JSONTab.tsx';
 export * from './FormFields.tsx';
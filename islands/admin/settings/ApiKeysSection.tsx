@@ -0,0 +1,260 @@
+/**
+ * Раздел настроек: API-ключи машинных клиентов
+ */
+
+import { useCallback, useEffect, useState } from 'preact/hooks';
+import { useAdminAPI } from '../AdminContext.tsx';
+import type { ApiKeySummary, ApiKeyStatus } from '../../../src/services/api-keys.service.ts';
+
+/**
+ * Права, которые можно выдать ключу
+ */
+const PERMISSION_OPTIONS = ['read', 'write', 'delete', 'parse', 'manage_users', 'full_access'];
+
+const STATUS_STYLES: Record<ApiKeyStatus, { label: string; class: string }> = {
+  active: { label: 'Активен', class: 'bg-green-500/20 text-green-400' },
+  expired: { label: 'Истёк', class: 'bg-yellow-500/20 text-yellow-400' },
+  revoked: { label: 'Отозван', class: 'bg-red-500/20 text-red-400' },
+};
+
+const formatDate = (value: string | null): string =>
+  value ? new Date(value).toLocaleString('ru-RU') : '—';
+
+/**
+ * Список ключей, выпуск, ротация, срок действия и отзыв
+ */
+export default function ApiKeysSection() {
+  const { fetchWithAuth } = useAdminAPI();
+
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [permissions, setPermissions] = useState<string[]>(['read']);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+
+  const loadKeys = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetchWithAuth('/api/admin/api-keys');
+      const data = await response.json();
+      if (response.ok) {
+        setKeys(data.data);
+      } else {
+        setError(data.error || 'Не удалось загрузить ключи');
+      }
+    } catch {
+      setError('Ошибка соединения');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchWithAuth]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  /**
+   * Выполнить действие с ключом и обновить список
+   */
+  const runAction = async (url: string, options: RequestInit) => {
+    setError(null);
+    try {
+      const response = await fetchWithAuth(url, options);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Операция не выполнена');
+        return;
+      }
+      if (data.key) {
+        setIssuedKey(data.key);
+      }
+      await loadKeys();
+    } catch {
+      setError('Ошибка соединения');
+    }
+  };
+
+  const createKey = async (e: Event) => {
+    e.preventDefault();
+    await runAction('/api/admin/api-keys', {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        permissions,
+        expires_at: expiresInDays > 0
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      }),
+    });
+    setName('');
+  };
+
+  const rotateKey = async (key: ApiKeySummary) => {
+    const grace = prompt(`Сколько часов старый ключ «${key.name}» ещё будет действовать?`, '24');
+    if (grace === null) return;
+    await runAction(`/api/admin/api-keys/${key.id}/rotate`, {
+      method: 'POST',
+      body: JSON.stringify({ grace_hours: parseFloat(grace) || 0 }),
+    });
+  };
+
+  const changeExpiry = async (key: ApiKeySummary) => {
+    const days = prompt('Срок действия в днях от сегодня (0 — истечь сейчас, пусто — бессрочно)', '30');
+    if (days === null) return;
+    await runAction(`/api/admin/api-keys/${key.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        expires_at: days.trim() === ''
+          ? null
+          : new Date(Date.now() + parseFloat(days) * 24 * 60 * 60 * 1000).toISOString(),
+      }),
+    });
+  };
+
+  const revokeKey = async (key: ApiKeySummary) => {
+    if (!confirm(`Отозвать ключ «${key.name}»? Клиенты с ним перестанут работать.`)) return;
+    await runAction(`/api/admin/api-keys/${key.id}`, { method: 'DELETE' });
+  };
+
+  const togglePermission = (permission: string) => {
+    setPermissions((current) =>
+      current.includes(permission)
+        ? current.filter((p) => p !== permission)
+        : [...current, permission]
+    );
+  };
+
+  return (
+    <div class="bg-dark-800 rounded-lg border border-dark-600 p-6">
+      <h2 class="text-lg font-medium text-white mb-4">🔑 API-ключи</h2>
+      <p class="text-xs text-gray-500 mb-4">
+        Ключи для скриптов и интеграций (заголовок X-Admin-Key). Ключ показывается один раз.
+      </p>
+
+      {error && (
+        <div class="mb-4 rounded bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {issuedKey && (
+        <div class="mb-4 rounded bg-green-500/10 border border-green-500/30 p-3">
+          <p class="text-sm text-green-400 mb-2">Сохраните ключ — больше он показан не будет:</p>
+          <code class="block break-all text-sm text-white bg-dark-900 p-2 rounded">{issuedKey}</code>
+          <button
+            type="button"
+            onClick={() => setIssuedKey(null)}
+            class="mt-2 text-xs text-gray-400 hover:text-white"
+          >
+            Скрыть
+          </button>
+        </div>
+      )}
+
+      {/* Create form */}
+      <form onSubmit={createKey} class="space-y-3 mb-6">
+        <div class="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onInput={(e) => setName((e.target as HTMLInputElement).value)}
+            placeholder="Название (например, CI парсинга)"
+            required
+            class="flex-1 p-2 bg-dark-700 border border-dark-600 text-white rounded placeholder-gray-500"
+          />
+          <input
+            type="number"
+            value={expiresInDays}
+            onInput={(e) => setExpiresInDays(parseInt((e.target as HTMLInputElement).value) || 0)}
+            min={0}
+            title="Срок действия (дни, 0 — бессрочно)"
+            class="w-24 p-2 bg-dark-700 border border-dark-600 text-white rounded"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || permissions.length === 0}
+            class="px-4 py-2 bg-cyber-500 text-dark-900 font-medium rounded hover:bg-cyber-400 disabled:opacity-50"
+          >
+            Выпустить
+          </button>
+        </div>
+        <div class="flex flex-wrap gap-3">
+          {PERMISSION_OPTIONS.map((permission) => (
+            <label key={permission} class="flex items-center text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={permissions.includes(permission)}
+                onChange={() => togglePermission(permission)}
+                class="h-4 w-4 mr-1 text-cyber-500 rounded bg-dark-700 border-dark-600"
+              />
+              {permission}
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {/* Keys table */}
+      {isLoading ? (
+        <p class="text-sm text-gray-500">Загрузка...</p>
+      ) : keys.length === 0 ? (
+        <p class="text-sm text-gray-500">Ключей пока нет</p>
+      ) : (
+        <div class="overflow-x-auto">
+          <table class="min-w-full text-sm">
+            <thead>
+              <tr class="text-left text-gray-500">
+                <th class="py-2 pr-4">Название</th>
+                <th class="py-2 pr-4">Права</th>
+                <th class="py-2 pr-4">Истекает</th>
+                <th class="py-2 pr-4">Использован</th>
+                <th class="py-2 pr-4">Статус</th>
+                <th class="py-2"></th>
+              </tr>
+            </thead>
+            <tbody class="divide-y divide-dark-600">
+              {keys.map((key) => (
+                <tr key={key.id} class="text-gray-300">
+                  <td class="py-2 pr-4">
+                    <div class="text-white">{key.name}</div>
+                    <div class="text-xs text-gray-500 font-mono">{key.prefix}…</div>
+                  </td>
+                  <td class="py-2 pr-4 text-xs">{key.permissions.join(', ')}</td>
+                  <td class="py-2 pr-4 text-xs">{formatDate(key.expiresAt)}</td>
+                  <td class="py-2 pr-4 text-xs">
+                    {formatDate(key.lastUsedAt)}
+                    {key.lastUsedIp && <div class="text-gray-500">{key.lastUsedIp}</div>}
+                  </td>
+                  <td class="py-2 pr-4">
+                    <span class={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[key.status].class}`}>
+                      {STATUS_STYLES[key.status].label}
+                    </span>
+                  </td>
+                  <td class="py-2 text-right whitespace-nowrap space-x-2">
+                    {key.status === 'active' && (
+                      <button type="button" onClick={() => rotateKey(key)} class="text-cyber-400 hover:text-cyber-300">
+                        Ротация
+                      </button>
+                    )}
+                    {key.status !== 'revoked' && (
+                      <>
+                        <button type="button" onClick={() => changeExpiry(key)} class="text-gray-400 hover:text-white">
+                          Срок
+                        </button>
+                        <button type="button" onClick={() => revokeKey(key)} class="text-red-400 hover:text-red-300">
+                          Отозвать
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,7 +12,7 @@
  * 2. Проверка подключения к БД
  * 3. Запуск миграций
  * 4. Заполнение тестовыми данными (если база пустая)
- * 5. Запуск фонового воркера обновления
+ * 5. Запуск фоновых воркеров (обновление данных, очистка сессий чата)
  * 6. Запуск Fresh сервера
  */
 
@@ -26,6 +26,7 @@ import { testConnection, closePool, query } from './src/config/database.ts';
 import { runMigrations } from './src/db/migrations.ts';
 import { seedUniversities } from './src/db/seed.ts';
 import { startUpdateWorker, stopUpdateWorker } from './src/workers/update.worker.ts';
+import { startChatRetentionWorker, stopChatRetentionWorker } from './src/workers/chat-retention.worker.ts';
 import { loadEnv } from './src/config/env.ts';
 
 /**
@@ -88,6 +89,7 @@ async function main(): Promise<void> {
     // 5. Запуск фонового воркера
     logger.info('⚙️  Запуск фонового воркера обновления...');
     startUpdateWorker();
+    startChatRetentionWorker();
     
     // 6. Запуск Fresh сервера
     const initDuration = Date.now() - startTime;
@@ -119,7 +121,8 @@ async function shutdown(): Promise<void> {
   try {
     // Остановить воркер
     stopUpdateWorker();
-    logger.info('✅ Воркер остановлен');
+    stopChatRetentionWorker();
+    logger.info('✅ Воркеры остановлены');
     
     // Закрыть пул подключений
     await closePool();
@@ -0,0 +1,18 @@
+/**
+ * Страница проверки изменений профилей от парсера
+ */
+
+import { Head } from '$fresh/runtime.ts';
+import AdminWrapper from '../../islands/admin/AdminWrapper.tsx';
+
+export default function ChangesPage() {
+  return (
+    <>
+      <Head>
+        <title>Изменения | Админ-панель</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+      <AdminWrapper page="changes" />
+    </>
+  );
+}
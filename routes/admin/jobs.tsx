@@ -0,0 +1,18 @@
+/**
+ * Страница очереди заданий парсинга
+ */
+
+import { Head } from '$fresh/runtime.ts';
+import AdminWrapper from '../../islands/admin/AdminWrapper.tsx';
+
+export default function JobsPage() {
+  return (
+    <>
+      <Head>
+        <title>Задания | Админ-панель</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+      <AdminWrapper page="jobs" />
+    </>
+  );
+}
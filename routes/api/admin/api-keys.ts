@@ -0,0 +1,105 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../src/utils/logger.ts';
+import { authErrorResponse, requirePermission } from '../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../src/services/audit.service.ts';
+import { ApiKeyError, createApiKey, listApiKeys } from '../../../src/services/api-keys.service.ts';
+import type { AdminPermission } from '../../../src/config/admin.ts';
+
+/**
+ * Admin API Keys
+ * GET  /api/admin/api-keys - список ключей (без секретов)
+ * POST /api/admin/api-keys - выпустить ключ; секрет возвращается один раз
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Список ключей
+   */
+  async GET(req) {
+    logger.info('API: GET /api/admin/api-keys');
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'manage_users');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    try {
+      const keys = await listApiKeys();
+
+      return new Response(JSON.stringify({ data: keys }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to list API keys', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+
+  /**
+   * POST - Выпустить ключ
+   */
+  async POST(req) {
+    logger.info('API: POST /api/admin/api-keys');
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'manage_users');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    let body: { name?: string; permissions?: AdminPermission[]; expires_at?: string | null };
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const { key, apiKey } = await createApiKey({
+        name: body.name ?? '',
+        permissions: body.permissions ?? [],
+        expiresAt: body.expires_at ? new Date(body.expires_at) : null,
+      }, auth.adminInfo!);
+
+      await audit.success('create_api_key', 'api_key', apiKey.id, {
+        name: apiKey.name,
+        permissions: apiKey.permissions,
+        expires_at: apiKey.expiresAt,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        key,
+        data: apiKey,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ApiKeyError) {
+        await audit.failure('create_api_key', 'api_key', err.message);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to create API key', err);
+      await audit.failure('create_api_key', 'api_key', String(err));
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,129 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+import { authErrorResponse, requirePermission } from '../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../src/services/audit.service.ts';
+import {
+  ApiKeyError,
+  revokeApiKey,
+  setApiKeyExpiry,
+} from '../../../../src/services/api-keys.service.ts';
+
+/**
+ * HTTP-статус для ошибки управления ключом
+ */
+const errorStatus = (err: ApiKeyError): number =>
+  err.code === 'NOT_FOUND' ? 404 : err.code === 'NOT_ACTIVE' ? 409 : 400;
+
+/**
+ * Admin API Key
+ * PATCH  /api/admin/api-keys/[id] - изменить срок действия ({ expires_at })
+ * DELETE /api/admin/api-keys/[id] - отозвать ключ
+ */
+export const handler: Handlers = {
+  /**
+   * PATCH - Срок действия: дата, null (бессрочно) или прошедшая дата (истечь сразу)
+   */
+  async PATCH(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: PATCH /api/admin/api-keys/[id]', { id });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'manage_users');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    let body: { expires_at?: string | null };
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.expires_at === undefined) {
+      return new Response(JSON.stringify({ error: 'expires_at is required (ISO date or null)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const apiKey = await setApiKeyExpiry(id, body.expires_at ? new Date(body.expires_at) : null);
+      await audit.success('update_api_key', 'api_key', id, { expires_at: apiKey.expiresAt });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: apiKey,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ApiKeyError) {
+        await audit.failure('update_api_key', 'api_key', err.message, id);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: errorStatus(err),
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to update API key', err);
+      await audit.failure('update_api_key', 'api_key', String(err), id);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+
+  /**
+   * DELETE - Отозвать ключ
+   */
+  async DELETE(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: DELETE /api/admin/api-keys/[id]', { id });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'manage_users');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    try {
+      const apiKey = await revokeApiKey(id);
+      await audit.success('revoke_api_key', 'api_key', id, { name: apiKey.name });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: apiKey,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ApiKeyError) {
+        await audit.failure('revoke_api_key', 'api_key', err.message, id);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: errorStatus(err),
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to revoke API key', err);
+      await audit.failure('revoke_api_key', 'api_key', String(err), id);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,76 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../src/utils/logger.ts';
+import { authErrorResponse, requirePermission } from '../../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../../src/services/audit.service.ts';
+import { ApiKeyError, rotateApiKey } from '../../../../../src/services/api-keys.service.ts';
+
+/**
+ * Admin API Key Rotation
+ * POST /api/admin/api-keys/[id]/rotate - выпустить замену ключа
+ * Тело: { grace_hours?: number } — сколько часов старый ключ ещё действует (по умолчанию 0)
+ */
+export const handler: Handlers = {
+  /**
+   * POST - Ротация ключа
+   */
+  async POST(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: POST /api/admin/api-keys/[id]/rotate', { id });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'manage_users');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    let body: { grace_hours?: number } = {};
+    try {
+      const text = await req.text();
+      if (text) body = JSON.parse(text);
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const graceHours = Number(body.grace_hours ?? 0);
+      const { key, apiKey, previous } = await rotateApiKey(id, graceHours, auth.adminInfo!);
+
+      await audit.success('rotate_api_key', 'api_key', id, {
+        new_key_id: apiKey.id,
+        grace_hours: graceHours,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        key,
+        data: apiKey,
+        previous,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ApiKeyError) {
+        await audit.failure('rotate_api_key', 'api_key', err.message, id);
+        const status = err.code === 'NOT_FOUND' ? 404 : err.code === 'NOT_ACTIVE' ? 409 : 400;
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to rotate API key', err);
+      await audit.failure('rotate_api_key', 'api_key', String(err), id);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
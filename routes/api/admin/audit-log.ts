@@ -0,0 +1,75 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../src/middleware/auth.ts';
+import {
+  getAdminActions,
+  type AdminActionType,
+} from '../../../src/services/audit.service.ts';
+
+/**
+ * Admin Audit Log
+ * GET /api/admin/audit-log - журнал админ-действий
+ *
+ * Query params:
+ * - admin: имя админа (частичное совпадение)
+ * - action: тип действия (create_university, update_profile, ...)
+ * - resource_type, resource_id: ресурс
+ * - success: true | false
+ * - from, to: период (ISO дата)
+ * - limit, offset: пагинация
+ */
+export const handler: Handlers = {
+  async GET(req) {
+    logger.info('API: GET /api/admin/audit-log');
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    const url = new URL(req.url);
+    const params = url.searchParams;
+    const limit = Math.min(parseInt(params.get('limit') ?? '50', 10) || 50, 200);
+    const offset = Math.max(parseInt(params.get('offset') ?? '0', 10) || 0, 0);
+    const successParam = params.get('success');
+
+    for (const key of ['from', 'to']) {
+      const value = params.get(key);
+      if (value && isNaN(Date.parse(value))) {
+        return new Response(JSON.stringify({ error: `Invalid date in "${key}"` }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    try {
+      const result = await getAdminActions({
+        adminName: params.get('admin') ?? undefined,
+        action: (params.get('action') as AdminActionType) ?? undefined,
+        resourceType: params.get('resource_type') ?? undefined,
+        resourceId: params.get('resource_id') ?? undefined,
+        success: successParam === null ? undefined : successParam === 'true',
+        from: params.get('from') ?? undefined,
+        to: params.get('to') ?? undefined,
+        limit,
+        offset,
+      });
+
+      return new Response(JSON.stringify({
+        data: result.data,
+        pagination: { limit, offset, total: result.total },
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to load audit log', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
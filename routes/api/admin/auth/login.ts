@@ -0,0 +1,103 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+import { sessionCookie } from '../../../../src/middleware/auth.ts';
+import { getClientIp, rateLimitedResponse } from '../../../../src/middleware/rate-limit.ts';
+import {
+  accountToAdminInfo,
+  authenticateAdmin,
+  createAdminSession,
+} from '../../../../src/services/admin-auth.service.ts';
+import { createAuditLogger } from '../../../../src/services/audit.service.ts';
+import {
+  consumeRateLimit,
+  peekRateLimit,
+  resetRateLimit,
+} from '../../../../src/services/rate-limit.service.ts';
+
+/**
+ * Admin Login
+ * POST /api/admin/auth/login - вход по логину и паролю
+ *
+ * Body: { username, password }
+ * Ответ ставит HttpOnly cookie admin_session; неудачные попытки
+ * списываются из лимита admin-auth.
+ */
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    const ip = getClientIp(req, ctx);
+    logger.info('API: POST /api/admin/auth/login', { ip });
+
+    let body: { username?: unknown; password?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ success: false, error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { username, password } = body;
+    if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Username and password are required',
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const limit = await peekRateLimit('admin-auth', ip);
+    if (!limit.allowed) {
+      logger.warn('Admin login rate limit exceeded', { ip });
+      return rateLimitedResponse(limit, {
+        success: false,
+        error: 'Too many failed attempts. Please try again later.',
+      });
+    }
+
+    try {
+      const account = await authenticateAdmin(username, password);
+
+      if (!account) {
+        await consumeRateLimit('admin-auth', ip);
+        await createAuditLogger(req, null, { name: username, username, permissions: [] })
+          .failure('login_attempt', 'admin_session', 'Invalid credentials');
+        return new Response(JSON.stringify({ success: false, error: 'Invalid username or password' }), {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (limit.remaining < limit.limit) {
+        await resetRateLimit('admin-auth', ip);
+      }
+
+      const { token, expiresAt } = await createAdminSession(account.id, {
+        ip,
+        userAgent: req.headers.get('user-agent') ?? undefined,
+      });
+      const admin = accountToAdminInfo(account);
+      await createAuditLogger(req, null, admin).success('login_attempt', 'admin_session', account.id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        admin,
+        expiresAt: expiresAt.toISOString(),
+      }), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Set-Cookie': sessionCookie(token, expiresAt),
+        },
+      });
+    } catch (err) {
+      logger.error('Admin login failed', err);
+      return new Response(JSON.stringify({ success: false, error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,37 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+import { clearSessionCookie, getSessionToken } from '../../../../src/middleware/auth.ts';
+import { deleteAdminSession } from '../../../../src/services/admin-auth.service.ts';
+
+/**
+ * Admin Logout
+ * POST /api/admin/auth/logout - завершить сессию и удалить cookie
+ */
+export const handler: Handlers = {
+  async POST(req) {
+    logger.info('API: POST /api/admin/auth/logout');
+
+    const token = getSessionToken(req);
+    let ended = false;
+
+    if (token) {
+      try {
+        ended = await deleteAdminSession(token);
+      } catch (err) {
+        logger.error('Failed to delete admin session', err);
+        return new Response(JSON.stringify({ success: false, error: 'Internal error' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, session_ended: ended }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Set-Cookie': clearSessionCookie(),
+      },
+    });
+  },
+};
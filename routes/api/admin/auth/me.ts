@@ -0,0 +1,32 @@
+import { Handlers } from '$fresh/server.ts';
+import {
+  getSessionToken,
+  requireAdmin,
+  unauthorizedResponse,
+} from '../../../../src/middleware/auth.ts';
+
+/**
+ * Current Admin
+ * GET /api/admin/auth/me - текущий админ (по сессии или API-ключу)
+ */
+export const handler: Handlers = {
+  async GET(req) {
+    // Админ-панель спрашивает /me при загрузке: отсутствие входа — не попытка подбора
+    if (!getSessionToken(req) && !req.headers.get('X-Admin-Key')) {
+      return unauthorizedResponse('Not logged in');
+    }
+
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    return new Response(JSON.stringify({
+      admin: auth.adminInfo,
+      method: auth.method,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  },
+};
@@ -0,0 +1,70 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../src/middleware/auth.ts';
+import { countPendingProfileChanges, listProfileChanges } from '../../../src/services/profile-changes.service.ts';
+import type { ProfileChangeStatus } from '../../../src/types/index.ts';
+
+const CHANGE_STATUSES: ProfileChangeStatus[] = ['pending', 'approved', 'partially_approved', 'rejected', 'superseded'];
+
+/**
+ * Admin Profile Changes
+ * GET /api/admin/changes - изменения профилей от парсера, ожидающие проверки
+ *
+ * Query params:
+ * - status: pending | approved | partially_approved | rejected | superseded
+ * - university_id: изменения одного университета
+ * - limit (по умолчанию 50, максимум 200), offset
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Список изменений и число ожидающих
+   */
+  async GET(req) {
+    logger.info('API: GET /api/admin/changes');
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status');
+    if (status && !CHANGE_STATUSES.includes(status as ProfileChangeStatus)) {
+      return new Response(JSON.stringify({ error: `status must be one of: ${CHANGE_STATUSES.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), 200);
+    const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+
+    try {
+      const [{ data, total }, pending] = await Promise.all([
+        listProfileChanges({
+          status: (status as ProfileChangeStatus) || undefined,
+          universityId: url.searchParams.get('university_id') || undefined,
+          limit,
+          offset,
+        }),
+        countPendingProfileChanges(),
+      ]);
+
+      return new Response(JSON.stringify({
+        data,
+        pending,
+        pagination: { total, limit, offset },
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to list profile changes', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,44 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../../src/middleware/auth.ts';
+import { getProfileChange } from '../../../../src/services/profile-changes.service.ts';
+
+/**
+ * Admin Profile Change
+ * GET /api/admin/changes/[id] - изменение с diff по полям относительно базовой версии
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Изменение по ID
+   */
+  async GET(req, ctx) {
+    const { id } = ctx.params;
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    try {
+      const change = await getProfileChange(id);
+      if (!change) {
+        return new Response(JSON.stringify({ error: 'Change not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ data: change }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to get profile change', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,88 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../src/utils/logger.ts';
+import { authErrorResponse, requirePermission } from '../../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../../src/services/audit.service.ts';
+import { approveProfileChange, ProfileChangeError } from '../../../../../src/services/profile-changes.service.ts';
+
+/**
+ * Admin Approve Profile Change
+ * POST /api/admin/changes/[id]/approve - опубликовать изменение целиком или выбранные поля
+ *
+ * Body: { "fields"?: string[], "comment"?: string }
+ * Без fields принимается всё изменение.
+ */
+export const handler: Handlers = {
+  /**
+   * POST - Принять изменение
+   */
+  async POST(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: POST /api/admin/changes/[id]/approve', { id });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'write');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    let body: { fields?: string[]; comment?: string } = {};
+    try {
+      const text = await req.text();
+      if (text) body = JSON.parse(text);
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (body.fields !== undefined && (!Array.isArray(body.fields) || body.fields.some((f) => typeof f !== 'string'))) {
+      return new Response(JSON.stringify({ error: 'fields must be an array of strings' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const change = await approveProfileChange(id, {
+        fields: body.fields,
+        comment: body.comment,
+        reviewedBy: auth.adminInfo?.username ?? auth.adminInfo?.name,
+      });
+
+      await audit.success('approve_profile_change', 'profile_change', id, {
+        university_id: change.universityId,
+        status: change.status,
+        fields: change.acceptedFields,
+        published_version: change.publishedVersion,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: change,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ProfileChangeError) {
+        await audit.failure('approve_profile_change', 'profile_change', err.message, id);
+        const status = err.code === 'NOT_FOUND' ? 404 : err.code === 'NOT_PENDING' ? 409 : 400;
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to approve profile change', err);
+      await audit.failure('approve_profile_change', 'profile_change', String(err), id);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
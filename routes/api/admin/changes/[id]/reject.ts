@@ -0,0 +1,75 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../src/utils/logger.ts';
+import { authErrorResponse, requirePermission } from '../../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../../src/services/audit.service.ts';
+import { ProfileChangeError, rejectProfileChange } from '../../../../../src/services/profile-changes.service.ts';
+
+/**
+ * Admin Reject Profile Change
+ * POST /api/admin/changes/[id]/reject - отклонить изменение, профиль не меняется
+ *
+ * Body: { "comment"?: string }
+ */
+export const handler: Handlers = {
+  /**
+   * POST - Отклонить изменение
+   */
+  async POST(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: POST /api/admin/changes/[id]/reject', { id });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'write');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    let body: { comment?: string } = {};
+    try {
+      const text = await req.text();
+      if (text) body = JSON.parse(text);
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const change = await rejectProfileChange(id, {
+        comment: body.comment,
+        reviewedBy: auth.adminInfo?.username ?? auth.adminInfo?.name,
+      });
+
+      await audit.success('reject_profile_change', 'profile_change', id, {
+        university_id: change.universityId,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: change,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ProfileChangeError) {
+        await audit.failure('reject_profile_change', 'profile_change', err.message, id);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: err.code === 'NOT_FOUND' ? 404 : 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to reject profile change', err);
+      await audit.failure('reject_profile_change', 'profile_change', String(err), id);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,172 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../src/utils/logger.ts';
+import { authErrorResponse, requireAdmin, requirePermission, unauthorizedResponse } from '../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../src/services/audit.service.ts';
+import {
+  deleteExchangeRate,
+  ExchangeRateError,
+  listExchangeRates,
+  setExchangeRate,
+} from '../../../src/services/exchange-rates.service.ts';
+import { recalculateTuitionColumns } from '../../../src/services/parser.service.ts';
+import { clearFilterCache } from '../universities/filtered.ts';
+
+/**
+ * Admin Exchange Rates
+ * GET    /api/admin/exchange-rates - курсы валют к USD
+ * PUT    /api/admin/exchange-rates - задать курс { currency, units_per_usd }
+ * DELETE /api/admin/exchange-rates?currency=EUR - удалить курс
+ *
+ * После изменения курса колонки min_tuition/max_tuition пересчитываются.
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Список курсов
+   */
+  async GET(req) {
+    logger.info('API: GET /api/admin/exchange-rates');
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    try {
+      const data = await listExchangeRates();
+
+      return new Response(JSON.stringify({ base: 'USD', data }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to list exchange rates', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+
+  /**
+   * PUT - Задать курс валюты
+   */
+  async PUT(req) {
+    logger.info('API: PUT /api/admin/exchange-rates');
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'write');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    let body: { currency?: string; units_per_usd?: number };
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const rate = await setExchangeRate(
+        body.currency ?? '',
+        Number(body.units_per_usd),
+        auth.adminInfo?.name ?? null
+      );
+      const recalculated = await recalculateTuitionColumns();
+      // Ответы фильтра содержат суммы, пересчитанные по прежнему курсу
+      clearFilterCache();
+
+      await audit.success('update_exchange_rate', 'exchange_rate', rate.currency, {
+        units_per_usd: rate.unitsPerUsd,
+        recalculated,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: rate,
+        recalculated,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ExchangeRateError) {
+        await audit.failure('update_exchange_rate', 'exchange_rate', err.message, body.currency);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to update exchange rate', err);
+      await audit.failure('update_exchange_rate', 'exchange_rate', String(err), body.currency);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+
+  /**
+   * DELETE - Удалить курс; суммы в этой валюте выпадут из фильтра по стоимости
+   */
+  async DELETE(req) {
+    logger.info('API: DELETE /api/admin/exchange-rates');
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'write');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+    const currency = new URL(req.url).searchParams.get('currency')?.trim().toUpperCase();
+
+    if (!currency) {
+      return new Response(JSON.stringify({ error: 'currency is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      await deleteExchangeRate(currency);
+      const recalculated = await recalculateTuitionColumns();
+      clearFilterCache();
+
+      await audit.success('delete_exchange_rate', 'exchange_rate', currency, { recalculated });
+
+      return new Response(JSON.stringify({
+        success: true,
+        currency,
+        recalculated,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ExchangeRateError) {
+        await audit.failure('delete_exchange_rate', 'exchange_rate', err.message, currency);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: err.code === 'NOT_FOUND' ? 404 : 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to delete exchange rate', err);
+      await audit.failure('delete_exchange_rate', 'exchange_rate', String(err), currency);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
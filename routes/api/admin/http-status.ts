@@ -0,0 +1,57 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../src/middleware/auth.ts';
+import { getSourceHttpHistory, listFailingSources } from '../../../src/services/http-fetch.service.ts';
+
+/**
+ * Admin HTTP Status
+ * GET /api/admin/http-status - сайты, последняя загрузка которых неудачна
+ * GET /api/admin/http-status?source_id=... - история HTTP-статусов источника
+ *
+ * Query params:
+ * - days: за сколько дней считать ошибки (по умолчанию 7, максимум 90)
+ * - limit: записей истории (по умолчанию 20, максимум 100)
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Проблемные сайты или история одного источника
+   */
+  async GET(req) {
+    logger.info('API: GET /api/admin/http-status');
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    const url = new URL(req.url);
+    const sourceId = url.searchParams.get('source_id');
+
+    try {
+      if (sourceId) {
+        const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '20') || 20, 1), 100);
+        const history = await getSourceHttpHistory(sourceId, limit);
+
+        return new Response(JSON.stringify({ source_id: sourceId, history }, null, 2), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '7') || 7, 1), 90);
+      const failing = await listFailingSources(days);
+
+      return new Response(JSON.stringify({ days, data: failing }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to load HTTP status', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
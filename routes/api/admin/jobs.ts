@@ -0,0 +1,70 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../src/middleware/auth.ts';
+import { getParseJobStats, listParseJobs } from '../../../src/services/parse-jobs.service.ts';
+import type { ParseJobStatus } from '../../../src/types/index.ts';
+
+const JOB_STATUSES: ParseJobStatus[] = ['pending', 'running', 'succeeded', 'failed', 'cancelled'];
+
+/**
+ * Admin Parse Jobs
+ * GET /api/admin/jobs - очередь заданий парсинга
+ *
+ * Query params:
+ * - status: pending | running | succeeded | failed | cancelled
+ * - university_id: задания одного университета
+ * - limit (по умолчанию 50, максимум 200), offset
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Список заданий и счётчики по статусам
+   */
+  async GET(req) {
+    logger.info('API: GET /api/admin/jobs');
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status');
+    if (status && !JOB_STATUSES.includes(status as ParseJobStatus)) {
+      return new Response(JSON.stringify({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), 200);
+    const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+
+    try {
+      const [{ data, total }, stats] = await Promise.all([
+        listParseJobs({
+          status: (status as ParseJobStatus) || undefined,
+          universityId: url.searchParams.get('university_id') || undefined,
+          limit,
+          offset,
+        }),
+        getParseJobStats(),
+      ]);
+
+      return new Response(JSON.stringify({
+        data,
+        stats,
+        pagination: { total, limit, offset },
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to list parse jobs', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,91 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+import { authErrorResponse, requireAdmin, requirePermission, unauthorizedResponse } from '../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../src/services/audit.service.ts';
+import { cancelParseJob, getParseJob, ParseJobError } from '../../../../src/services/parse-jobs.service.ts';
+
+/**
+ * Admin Parse Job
+ * GET    /api/admin/jobs/[id] - состояние задания
+ * DELETE /api/admin/jobs/[id] - отменить ожидающее задание
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Задание по ID
+   */
+  async GET(req, ctx) {
+    const { id } = ctx.params;
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    try {
+      const job = await getParseJob(id);
+      if (!job) {
+        return new Response(JSON.stringify({ error: 'Job not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ data: job }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to get parse job', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+
+  /**
+   * DELETE - Отменить задание (только pending; выполняющееся дорабатывает до конца)
+   */
+  async DELETE(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: DELETE /api/admin/jobs/[id]', { id });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'parse');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    try {
+      const job = await cancelParseJob(id);
+      await audit.success('cancel_parse_job', 'parse_job', id, { university_id: job.universityId });
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: job,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof ParseJobError) {
+        await audit.failure('cancel_parse_job', 'parse_job', err.message, id);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: err.code === 'NOT_FOUND' ? 404 : 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to cancel parse job', err);
+      await audit.failure('cancel_parse_job', 'parse_job', String(err), id);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,102 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../src/utils/logger.ts';
+import { authErrorResponse, requireAdmin, requirePermission, unauthorizedResponse } from '../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../src/services/audit.service.ts';
+import {
+  getRateLimitPolicies,
+  getRateLimitStoreName,
+  listThrottledClients,
+  RATE_LIMIT_GROUPS,
+  type RateLimitGroup,
+  resetRateLimit,
+} from '../../../src/services/rate-limit.service.ts';
+
+/**
+ * Admin Rate Limits
+ * GET    /api/admin/rate-limits - политики и клиенты, упёршиеся в лимит
+ * DELETE /api/admin/rate-limits?group=chat&key=1.2.3.4 - сбросить лимит клиента
+ *        (без key — всей группы)
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Политики групп и ограниченные сейчас клиенты
+   */
+  async GET(req) {
+    logger.info('API: GET /api/admin/rate-limits');
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    try {
+      const throttled = await listThrottledClients();
+
+      return new Response(JSON.stringify({
+        store: getRateLimitStoreName(),
+        policies: getRateLimitPolicies(),
+        throttled,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to list throttled clients', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+
+  /**
+   * DELETE - Сбросить лимит
+   */
+  async DELETE(req) {
+    logger.info('API: DELETE /api/admin/rate-limits');
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'write');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+    const url = new URL(req.url);
+    const group = url.searchParams.get('group');
+    const key = url.searchParams.get('key') ?? undefined;
+
+    if (!group || !RATE_LIMIT_GROUPS.includes(group as RateLimitGroup)) {
+      return new Response(JSON.stringify({
+        error: `Invalid group (expected one of: ${RATE_LIMIT_GROUPS.join(', ')})`,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const removed = await resetRateLimit(group as RateLimitGroup, key);
+      await audit.success('reset_rate_limit', 'rate_limit', key ? `${group}:${key}` : group, { removed });
+
+      return new Response(JSON.stringify({
+        success: true,
+        group,
+        key: key ?? null,
+        removed,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to reset rate limit', err);
+      await audit.failure('reset_rate_limit', 'rate_limit', String(err), group);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -1,5 +1,6 @@
 import { Handlers } from '$fresh/server.ts';
 import { logger } from '../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../src/middleware/auth.ts';
 import { 
   fetchAndHashWebsite, 
   markdownToUniversityProfile,
@@ -18,15 +19,6 @@ const TEST_PARSER_CONFIG = {
   maxMarkdownLength: 100000, // 100KB markdown в ответе
 };
 
-/**
- * Проверить admin key
- */
-const validateAdminKey = (req: Request): boolean => {
-  const adminKey = req.headers.get('X-Admin-Key') ?? req.headers.get('admin-key');
-  const expectedKey = Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key';
-  return adminKey === expectedKey;
-};
-
 /**
  * Тело запроса
  */
@@ -67,15 +59,10 @@ export const handler: Handlers = {
 
     logger.info('API: POST /api/admin/test-parser');
 
-    // 1. Проверка авторизации
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ 
-        error: 'Unauthorized',
-        message: 'Invalid or missing admin key' 
-      }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // 1. Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     // 2. Парсинг тела запроса
@@ -254,16 +241,11 @@ export const handler: Handlers = {
    * GET /api/admin/test-parser
    * Информация об эндпоинте
    */
-  GET(req) {
-    // Проверка авторизации
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ 
-        error: 'Unauthorized',
-        message: 'Invalid or missing admin key' 
-      }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+  async GET(req) {
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     return new Response(JSON.stringify({
@@ -21,12 +21,12 @@ export const handler: Handlers = {
     logger.info('API: GET /api/admin/universities');
 
     // Аутентификация
-    const auth = requireAdmin(req);
+    const auth = await requireAdmin(req);
     if (!auth.valid) {
       return unauthorizedResponse(auth.error);
     }
 
-    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo?.name);
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
     const url = new URL(req.url);
     const limit = parseInt(url.searchParams.get('limit') ?? '50', 10);
     const offset = parseInt(url.searchParams.get('offset') ?? '0', 10);
@@ -62,12 +62,12 @@ export const handler: Handlers = {
     logger.info('API: POST /api/admin/universities');
 
     // Аутентификация
-    const auth = requireAdmin(req);
+    const auth = await requireAdmin(req);
     if (!auth.valid) {
       return unauthorizedResponse(auth.error);
     }
 
-    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo?.name);
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
 
     let body: {
       name: string;
@@ -125,12 +125,12 @@ export const handler: Handlers = {
     logger.info('API: DELETE /api/admin/universities');
 
     // Аутентификация
-    const auth = requireAdmin(req);
+    const auth = await requireAdmin(req);
     if (!auth.valid) {
       return unauthorizedResponse(auth.error);
     }
 
-    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo?.name);
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
     const url = new URL(req.url);
     const id = url.searchParams.get('id');
 
@@ -1,23 +1,16 @@
 import { Handlers } from '$fresh/server.ts';
 import { logger } from '../../../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../../../src/middleware/auth.ts';
 import {
   getProfileForEdit,
+  getProvenanceForEdit,
   updateUniversityProfile,
   patchUniversityProfile,
 } from '../../../../../src/services/admin.service.ts';
 
-/**
- * Проверить admin key
- */
-const validateAdminKey = (req: Request): boolean => {
-  const adminKey = req.headers.get('X-Admin-Key') ?? req.headers.get('admin-key');
-  const expectedKey = Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key';
-  return adminKey === expectedKey;
-};
-
 /**
  * Admin University Profile
- * GET   /api/admin/universities/[id]/profile - получить профиль
+ * GET   /api/admin/universities/[id]/profile - получить профиль и происхождение полей
  * PUT   /api/admin/universities/[id]/profile - обновить целиком
  * PATCH /api/admin/universities/[id]/profile - обновить часть
  */
@@ -29,11 +22,10 @@ export const handler: Handlers = {
     const { id } = ctx.params;
     logger.info('API: GET /api/admin/universities/[id]/profile', { id });
 
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     try {
@@ -46,9 +38,12 @@ export const handler: Handlers = {
         });
       }
 
+      const provenance = await getProvenanceForEdit(id);
+
       return new Response(JSON.stringify({
         success: true,
         profile,
+        provenance,
       }, null, 2), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
@@ -69,11 +64,10 @@ export const handler: Handlers = {
     const { id } = ctx.params;
     logger.info('API: PUT /api/admin/universities/[id]/profile', { id });
 
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     let body: { university: Record<string, unknown> };
@@ -112,11 +106,10 @@ export const handler: Handlers = {
     const { id } = ctx.params;
     logger.info('API: PATCH /api/admin/universities/[id]/profile', { id });
 
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     let body: { path: string; value: unknown };
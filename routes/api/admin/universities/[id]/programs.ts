@@ -1,5 +1,6 @@
 import { Handlers } from '$fresh/server.ts';
 import { logger } from '../../../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../../../src/middleware/auth.ts';
 import {
   getPrograms,
   createProgram,
@@ -8,15 +9,6 @@ import {
 } from '../../../../../src/services/admin.service.ts';
 import type { Program } from '../../../../../src/types/university.ts';
 
-/**
- * Проверить admin key
- */
-const validateAdminKey = (req: Request): boolean => {
-  const adminKey = req.headers.get('X-Admin-Key') ?? req.headers.get('admin-key');
-  const expectedKey = Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key';
-  return adminKey === expectedKey;
-};
-
 /**
  * Admin Programs CRUD
  * GET    /api/admin/universities/[id]/programs - список программ
@@ -32,11 +24,10 @@ export const handler: Handlers = {
     const { id } = ctx.params;
     logger.info('API: GET /api/admin/universities/[id]/programs', { id });
 
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     try {
@@ -67,11 +58,10 @@ export const handler: Handlers = {
     const { id } = ctx.params;
     logger.info('API: POST /api/admin/universities/[id]/programs', { id });
 
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     let body: { program: Partial<Program> };
@@ -113,11 +103,10 @@ export const handler: Handlers = {
 
     logger.info('API: PUT /api/admin/universities/[id]/programs', { id, programId });
 
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     if (!programId) {
@@ -165,11 +154,10 @@ export const handler: Handlers = {
 
     logger.info('API: DELETE /api/admin/universities/[id]/programs', { id, programId });
 
-    if (!validateAdminKey(req)) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     if (!programId) {
@@ -0,0 +1,138 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../src/utils/logger.ts';
+import { authErrorResponse, requireAdmin, requirePermission, unauthorizedResponse } from '../../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../../src/services/audit.service.ts';
+import {
+  listSourceSchedules,
+  SourceScheduleError,
+  updateSourceSchedule,
+} from '../../../../../src/services/source-schedules.service.ts';
+import type { SourcePublishMode, SourceRefreshMode } from '../../../../../src/types/index.ts';
+
+/**
+ * Admin Source Schedules
+ * GET   /api/admin/universities/[id]/sources - источники и их расписание проверки
+ * PATCH /api/admin/universities/[id]/sources?source_id=X - изменить расписание и режим публикации
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Источники университета с расписанием
+   */
+  async GET(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: GET /api/admin/universities/[id]/sources', { id });
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    try {
+      const sources = await listSourceSchedules(id);
+
+      return new Response(JSON.stringify({
+        success: true,
+        university_id: id,
+        sources,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to get source schedules', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+
+  /**
+   * PATCH - Расписание источника
+   * Body: { mode, cron, interval_minutes, min_interval_minutes, max_interval_minutes }
+   */
+  async PATCH(req, ctx) {
+    const { id } = ctx.params;
+    const url = new URL(req.url);
+    const sourceId = url.searchParams.get('source_id');
+    logger.info('API: PATCH /api/admin/universities/[id]/sources', { id, sourceId });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'write');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    if (!sourceId) {
+      return new Response(JSON.stringify({ error: 'source_id is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    let body: {
+      mode?: SourceRefreshMode;
+      cron?: string | null;
+      interval_minutes?: number;
+      min_interval_minutes?: number;
+      max_interval_minutes?: number;
+      publish_mode?: SourcePublishMode;
+    };
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const source = await updateSourceSchedule(id, sourceId, {
+        mode: body.mode,
+        cron: body.cron,
+        intervalMinutes: body.interval_minutes,
+        minIntervalMinutes: body.min_interval_minutes,
+        maxIntervalMinutes: body.max_interval_minutes,
+        publishMode: body.publish_mode,
+      });
+
+      await audit.success('update_source_schedule', 'university_source', sourceId, {
+        university_id: id,
+        mode: source.mode,
+        cron: source.cron,
+        interval_minutes: source.intervalMinutes,
+        min_interval_minutes: source.minIntervalMinutes,
+        max_interval_minutes: source.maxIntervalMinutes,
+        publish_mode: source.publishMode,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        source,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (err instanceof SourceScheduleError) {
+        await audit.failure('update_source_schedule', 'university_source', err.message, sourceId);
+        return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+          status: err.code === 'NOT_FOUND' ? 404 : 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      logger.error('Failed to update source schedule', err);
+      await audit.failure('update_source_schedule', 'university_source', String(err), sourceId);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
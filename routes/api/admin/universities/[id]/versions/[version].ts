@@ -0,0 +1,60 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../../src/utils/logger.ts';
+import { getProfileVersion } from '../../../../../../src/services/profile-versions.service.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../../../../src/middleware/auth.ts';
+
+/**
+ * Admin Profile Version
+ * GET /api/admin/universities/[id]/versions/[version] - получить версию целиком
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Профиль и происхождение полей выбранной версии
+   */
+  async GET(req, ctx) {
+    const { id } = ctx.params;
+    const version = parseInt(ctx.params.version, 10);
+    logger.info('API: GET /api/admin/universities/[id]/versions/[version]', { id, version });
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    if (isNaN(version)) {
+      return new Response(JSON.stringify({ error: 'Invalid version' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const result = await getProfileVersion(id, version);
+
+      if (!result) {
+        return new Response(JSON.stringify({ error: 'Version not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        version: result.version,
+        created_at: result.created_at,
+        profile: result.profile_json,
+        provenance: result.field_provenance,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to get profile version', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,76 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../../../src/utils/logger.ts';
+import { rollbackToVersion } from '../../../../../../../src/services/profile-versions.service.ts';
+import { authErrorResponse, requirePermission } from '../../../../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../../../../src/services/audit.service.ts';
+
+/**
+ * Admin Profile Rollback
+ * POST /api/admin/universities/[id]/versions/[version]/rollback - откатить профиль
+ * Создаёт новую версию с содержимым выбранной
+ */
+export const handler: Handlers = {
+  /**
+   * POST - Откат к версии
+   */
+  async POST(req, ctx) {
+    const { id } = ctx.params;
+    const version = parseInt(ctx.params.version, 10);
+    logger.info('API: POST /api/admin/universities/[id]/versions/[version]/rollback', { id, version });
+
+    // Аутентификация
+    const auth = await requirePermission(req, 'write');
+    if (!auth.valid) {
+      return authErrorResponse(auth);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    if (isNaN(version)) {
+      await audit.failure('rollback_profile', 'university', 'Invalid version', id);
+      return new Response(JSON.stringify({ error: 'Invalid version' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Не-UUID не найдётся: не передаём его в запрос с приведением к uuid
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      await audit.failure('rollback_profile', 'university', 'University not found', id, { version });
+      return new Response(JSON.stringify({ success: false, message: 'University not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const result = await rollbackToVersion(id, version);
+
+      if (result.success) {
+        const data = result.data as { version: number };
+        await audit.success('rollback_profile', 'university', id, {
+          restored_from: version,
+          new_version: data.version,
+        });
+      } else {
+        await audit.failure('rollback_profile', 'university', result.message, id, { version });
+      }
+
+      return new Response(JSON.stringify({
+        ...result,
+        admin_action_logged: true,
+      }, null, 2), {
+        status: result.success ? 200 : 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to rollback profile', err);
+      await audit.failure('rollback_profile', 'university', String(err), id, { version });
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
@@ -0,0 +1,72 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../../src/utils/logger.ts';
+import {
+  diffProfileVersions,
+  listProfileVersions,
+} from '../../../../../../src/services/profile-versions.service.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../../../../src/middleware/auth.ts';
+
+/**
+ * Admin Profile Versions Diff
+ * GET /api/admin/universities/[id]/versions/diff?from=1&to=3 - сравнить две версии
+ * Если `to` не указан, сравнение идёт с текущей версией
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Структурированный diff полей
+   */
+  async GET(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: GET /api/admin/universities/[id]/versions/diff', { id });
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    const url = new URL(req.url);
+    const from = parseInt(url.searchParams.get('from') ?? '', 10);
+    let to = parseInt(url.searchParams.get('to') ?? '', 10);
+
+    if (isNaN(from)) {
+      return new Response(JSON.stringify({
+        error: 'Missing or invalid "from" version',
+        expected: '?from=1&to=3',
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      if (isNaN(to)) {
+        const versions = await listProfileVersions(id);
+        to = versions[0]?.version ?? from;
+      }
+
+      const diff = await diffProfileVersions(id, from, to);
+
+      if (!diff) {
+        return new Response(JSON.stringify({ error: 'Version not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        ...diff,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to diff profile versions', err);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
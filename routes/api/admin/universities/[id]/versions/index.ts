@@ -0,0 +1,56 @@
+import { Handlers } from '$fresh/server.ts';
+import { logger } from '../../../../../../src/utils/logger.ts';
+import { listProfileVersions } from '../../../../../../src/services/profile-versions.service.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../../../../src/middleware/auth.ts';
+import { createAuditLogger } from '../../../../../../src/services/audit.service.ts';
+
+/**
+ * Admin Profile Versions
+ * GET /api/admin/universities/[id]/versions - список версий профиля
+ */
+export const handler: Handlers = {
+  /**
+   * GET - Список версий (от новой к старой)
+   */
+  async GET(req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: GET /api/admin/universities/[id]/versions', { id });
+
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
+    }
+
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+
+    try {
+      const versions = await listProfileVersions(id);
+
+      if (versions.length === 0) {
+        return new Response(JSON.stringify({ error: 'University not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      await audit.success('view_data', 'profile_versions', id, { count: versions.length });
+
+      return new Response(JSON.stringify({
+        success: true,
+        current_version: versions[0].version,
+        versions,
+      }, null, 2), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      logger.error('Failed to list profile versions', err);
+      await audit.failure('view_data', 'profile_versions', String(err), id);
+      return new Response(JSON.stringify({ error: 'Internal error' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  },
+};
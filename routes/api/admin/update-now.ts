@@ -6,46 +6,47 @@ import {
 } from '../../../src/workers/update.worker.ts';
 import { getUniversityWithProfile } from '../../../src/services/universities.service.ts';
 import { logger } from '../../../src/utils/logger.ts';
-import { checkOllamaHealth } from '../../../src/utils/ollama.client.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../src/middleware/auth.ts';
+import { checkLlmHealth, getLlmProvider } from '../../../src/utils/llm/index.ts';
+import { createAuditLogger } from '../../../src/services/audit.service.ts';
+import { getParseJobStats, waitForParseJob } from '../../../src/services/parse-jobs.service.ts';
 
 /**
- * Проверка admin ключа
+ * Сколько ждать завершения ручного перепарсинга, прежде чем ответить 202
  */
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key';
-
-const isAuthorized = (req: Request): boolean => {
-  const authHeader = req.headers.get('X-Admin-Key');
-  return authHeader === ADMIN_KEY;
-};
+const UPDATE_NOW_WAIT_MS = 120_000;
 
 /**
  * GET /api/admin/update-now
  * Получить статус воркера
  *
  * POST /api/admin/update-now
- * Запустить обновление
+ * Поставить обновление в очередь parse_jobs с ручным приоритетом
  *
  * Query params:
- * - university_id: обновить конкретный университет
- * - all: обновить все (если указан)
+ * - university_id: перепарсить конкретный университет (ждёт завершения до 2 минут)
+ * - all: поставить проверку всех университетов (сразу 202)
+ * - overwrite_manual: перезаписать поля, отредактированные вручную
+ * - wait=false: не ждать завершения перепарсинга
  */
 export const handler: Handlers = {
   /**
    * GET - статус воркера
    */
-  GET(req) {
-    if (!isAuthorized(req)) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
+  async GET(req) {
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     const status = getWorkerStatus();
+    const queue = await getParseJobStats();
 
     return new Response(
       JSON.stringify({
         worker: status,
+        queue,
         timestamp: new Date().toISOString(),
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -58,38 +59,40 @@ export const handler: Handlers = {
   async POST(req) {
     const startTime = Date.now();
 
-    // Проверка авторизации
-    if (!isAuthorized(req)) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
+    const audit = createAuditLogger(req, auth.adminKey, auth.adminInfo);
+    const requestedBy = auth.adminInfo?.username ?? auth.adminInfo?.name;
     const url = new URL(req.url);
     const universityId = url.searchParams.get('university_id');
     const updateAll = url.searchParams.has('all');
+    const overwriteManual = url.searchParams.get('overwrite_manual') === 'true';
+    const wait = url.searchParams.get('wait') !== 'false';
 
-    logger.info('API: POST /api/admin/update-now', { universityId, updateAll });
+    logger.info('API: POST /api/admin/update-now', { universityId, updateAll, wait });
 
     try {
-      // Обновить все университеты
+      // Поставить проверку всех университетов
       if (updateAll) {
-        const result = await triggerManualUpdate();
-        const duration = Date.now() - startTime;
+        const result = await triggerManualUpdate(requestedBy);
+        await audit.success('trigger_update', 'university', undefined, { all: true, queued: result.queued });
 
         return new Response(
           JSON.stringify({
             success: true,
-            message: `Updated ${result.updated} universities`,
+            message: `Queued ${result.queued} universities`,
             ...result,
-            response_time_ms: duration,
+            response_time_ms: Date.now() - startTime,
           }),
-          { status: 200, headers: { 'Content-Type': 'application/json' } }
+          { status: 202, headers: { 'Content-Type': 'application/json' } }
         );
       }
 
-      // Обновить конкретный университет
+      // Перепарсить конкретный университет
       if (universityId) {
         // Валидация UUID
         const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -100,57 +103,73 @@ export const handler: Handlers = {
           );
         }
 
-        // Проверить доступность Ollama
-        const ollamaHealthy = await checkOllamaHealth();
-        if (!ollamaHealthy) {
-          logger.warn('Ollama is not available for parsing');
+        // Проверить доступность LLM для парсинга
+        const llmHealthy = await checkLlmHealth('parsing');
+        if (!llmHealthy) {
+          const llm = getLlmProvider('parsing');
+          logger.warn('LLM is not available for parsing', { provider: llm.name, url: llm.baseUrl });
           return new Response(
             JSON.stringify({ 
               success: false,
-              error: 'Ollama LLM is not available',
-              message: 'Cannot update: Ollama AI service is not running. Start Ollama with `ollama serve` and ensure the model is available.',
-              ollama_url: Deno.env.get('OLLAMA_URL') ?? 'http://localhost:11434',
-              ollama_model: Deno.env.get('OLLAMA_MODEL') ?? 'llama3',
+              error: 'LLM is not available',
+              message: `Cannot update: LLM server (${llm.name}) at ${llm.baseUrl} is not responding. Start it and ensure model "${llm.model}" is available.`,
+              llm_provider: llm.name,
+              llm_url: llm.baseUrl,
+              llm_model: llm.model,
             }),
             { status: 503, headers: { 'Content-Type': 'application/json' } }
           );
         }
 
-        // Полный сброс и перепарсинг (удаляет старый профиль, создаёт новый)
-        const result = await resetUniversityNow(universityId);
+        // Полный сброс и перепарсинг выполняет воркер с ручным приоритетом
+        const queued = await resetUniversityNow(universityId, overwriteManual, requestedBy);
+        await audit.success('trigger_update', 'university', universityId, { job_id: queued.id, overwrite_manual: overwriteManual });
 
-        if (!result) {
+        const job = wait ? await waitForParseJob(queued.id, UPDATE_NOW_WAIT_MS) : queued;
+
+        if (!job || job.status === 'pending' || job.status === 'running') {
           return new Response(
             JSON.stringify({
-              success: false,
-              message: 'No active source found for this university',
+              success: !job?.lastError,
+              queued: true,
+              message: job?.lastError
+                ? `Attempt failed, retry scheduled: ${job.lastError}`
+                : 'Update is queued',
+              job: job ?? queued,
+              response_time_ms: Date.now() - startTime,
             }),
-            { status: 404, headers: { 'Content-Type': 'application/json' } }
+            { status: 202, headers: { 'Content-Type': 'application/json' } }
           );
         }
 
-        // Получить обновленный профиль
-        let profile = null;
-        if (result.success) {
-          const university = await getUniversityWithProfile(universityId);
-          profile = university?.profile ?? null;
+        if (job.status !== 'succeeded') {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              message: job.lastError ?? `Job ${job.status}`,
+              job,
+              response_time_ms: Date.now() - startTime,
+            }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } }
+          );
         }
 
-        const duration = Date.now() - startTime;
+        // Получить обновленный профиль
+        const university = await getUniversityWithProfile(universityId);
+        const result = job.result as { updated?: boolean; preserved_fields?: string[] } | null;
 
         return new Response(
           JSON.stringify({
-            success: result.success,
-            updated: result.updated,
-            message: result.error ?? (result.updated ? 'Profile updated' : 'No changes detected'),
-            university: result.universityName,
-            profile,
-            response_time_ms: duration,
+            success: true,
+            updated: result?.updated ?? false,
+            message: result?.updated ? 'Profile updated' : 'No changes detected',
+            university: job.universityName,
+            preserved_fields: result?.preserved_fields ?? [],
+            profile: university?.profile ?? null,
+            job,
+            response_time_ms: Date.now() - startTime,
           }),
-          {
-            status: result.success ? 200 : 500,
-            headers: { 'Content-Type': 'application/json' },
-          }
+          { status: 200, headers: { 'Content-Type': 'application/json' } }
         );
       }
 
@@ -0,0 +1,44 @@
+/**
+ * API endpoint сохранённого сравнения
+ * GET /api/battles/:id
+ */
+
+import { Handlers } from '$fresh/server.ts';
+import { getBattle } from '../../../src/services/battles.service.ts';
+import { logger } from '../../../src/utils/logger.ts';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const handler: Handlers = {
+  async GET(_req, ctx) {
+    const { id } = ctx.params;
+
+    if (!uuidRegex.test(id)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid UUID format' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    try {
+      const battle = await getBattle(id);
+      if (!battle) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Battle not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, battle }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (err) {
+      logger.error('Failed to load battle', { id, error: err });
+      return new Response(
+        JSON.stringify({ success: false, error: 'Internal error' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  },
+};
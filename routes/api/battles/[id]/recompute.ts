@@ -0,0 +1,59 @@
+/**
+ * API endpoint пересчёта сохранённого сравнения
+ * POST /api/battles/:id/recompute - только если профиль университета изменился после расчёта
+ */
+
+import { Handlers } from '$fresh/server.ts';
+import { BattleError, recomputeBattle } from '../../../../src/services/battles.service.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const handler: Handlers = {
+  async POST(_req, ctx) {
+    const { id } = ctx.params;
+    logger.info('API: POST /api/battles/[id]/recompute', { id });
+
+    if (!uuidRegex.test(id)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid UUID format' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    try {
+      const battle = await recomputeBattle(id);
+      return new Response(
+        JSON.stringify({ success: true, battle }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (err) {
+      if (err instanceof BattleError) {
+        return new Response(
+          JSON.stringify({ success: false, error: err.message, code: err.code }),
+          {
+            status: err.code === 'NOT_FOUND' ? 404 : 409,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      logger.error('Battle recompute failed', { id, error: errorMessage });
+
+      const isNotFound = errorMessage.includes('not found');
+      const isRateLimit = errorMessage.includes('wait');
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: isNotFound ? 'University not found' : isRateLimit ? 'Rate limit' : 'Recompute failed',
+          message: errorMessage,
+        }),
+        {
+          status: isNotFound ? 404 : isRateLimit ? 429 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  },
+};
@@ -1,39 +1,134 @@
 /**
  * API endpoint для чат-бота
  * POST /api/chat
+ *
+ * Если передан sessionId существующей сессии, история берётся из БД,
+ * иначе создаётся новая сессия. Ответ содержит sessionId для продолжения
+ * и citations — университеты из базы, на которые опирается ответ.
+ *
+ * При `stream: true` в теле (или Accept: text/event-stream) ответ отдаётся
+ * как Server-Sent Events: session → token* → done | error.
  */
 
 import { FreshContext, Handlers } from '$fresh/server.ts';
 import {
   generateChatbotResponse,
-  checkChatRateLimit,
+  streamChatbotResponse,
   validateMessage,
+  createChatSession,
+  getChatSession,
+  addMessageToSession,
+  CHAT_LANGUAGES,
+  CHAT_SESSION_CONFIG,
   type ChatMessage,
 } from '../../src/services/chatbot.service.ts';
+import { consumeRateLimit, type RateLimitResult } from '../../src/services/rate-limit.service.ts';
+import {
+  getClientIp,
+  rateLimitHeaders,
+  rateLimitedResponse,
+} from '../../src/middleware/rate-limit.ts';
 import { logger } from '../../src/utils/logger.ts';
 
-/**
- * Получить IP адрес клиента
- */
-const getClientIp = (req: Request, ctx: FreshContext): string => {
-  const forwarded = req.headers.get('x-forwarded-for');
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  const realIp = req.headers.get('x-real-ip');
-  if (realIp) {
-    return realIp;
-  }
-  return ctx.remoteAddr?.hostname || 'unknown';
-};
-
 interface ChatRequest {
   message: string;
   history?: ChatMessage[];
   language?: string;
   sessionId?: string;
+  stream?: boolean;
 }
 
+/**
+ * Сформировать событие SSE
+ */
+const encodeSseEvent = (event: string, data: unknown): Uint8Array =>
+  new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+/**
+ * Потоковый ответ чат-бота в формате SSE
+ * Если клиент закрывает соединение, генерация отменяется и обмен не сохраняется.
+ */
+const createChatStreamResponse = (
+  message: string,
+  history: ChatMessage[],
+  language: string,
+  sessionId: string,
+  startTime: number,
+  rateLimit: RateLimitResult
+): Response => {
+  const controller = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: string, data: unknown) => {
+        if (!controller.signal.aborted) {
+          stream.enqueue(encodeSseEvent(event, data));
+        }
+      };
+
+      send('session', { sessionId });
+
+      try {
+        const { response, citations } = await streamChatbotResponse(
+          message,
+          history,
+          language,
+          (token) => send('token', { text: token }),
+          controller.signal
+        );
+
+        // Сохранить обмен сообщениями
+        await addMessageToSession(sessionId, 'user', message.trim());
+        await addMessageToSession(sessionId, 'assistant', response, citations);
+
+        const duration = Date.now() - startTime;
+        logger.info('Chat stream completed', {
+          sessionId,
+          responseLength: response.length,
+          citations: citations.length,
+          duration,
+        });
+
+        send('done', {
+          success: true,
+          response,
+          citations,
+          universityIds: citations.map((c) => c.id),
+          sessionId,
+          took_ms: duration,
+        });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          logger.info('Chat stream cancelled by client', { sessionId });
+          return;
+        }
+
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        logger.error('Chat stream error', { sessionId, error: errorMessage });
+        send('error', { success: false, error: 'Chat failed', message: errorMessage });
+      }
+
+      if (!controller.signal.aborted) {
+        stream.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      ...rateLimitHeaders(rateLimit),
+    },
+  });
+};
+
 export const handler: Handlers = {
   async POST(req: Request, ctx: FreshContext) {
     const startTime = Date.now();
@@ -41,22 +136,14 @@ export const handler: Handlers = {
 
     try {
       // Проверить rate limit
-      if (!checkChatRateLimit(ip)) {
+      const rateLimit = await consumeRateLimit('chat', ip);
+      if (!rateLimit.allowed) {
         logger.warn('Chat rate limit exceeded', { ip });
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: 'Rate limit exceeded',
-            message: 'Please wait before sending another message',
-          }),
-          {
-            status: 429,
-            headers: {
-              'Content-Type': 'application/json',
-              'Retry-After': '60',
-            },
-          }
-        );
+        return rateLimitedResponse(rateLimit, {
+          success: false,
+          error: 'Rate limit exceeded',
+          message: 'Please wait before sending another message',
+        });
       }
 
       // Парсинг body
@@ -74,7 +161,8 @@ export const handler: Handlers = {
         );
       }
 
-      const { message, history = [], language = 'ru' } = body;
+      const { message, history = [], sessionId } = body;
+      let { language = 'ru' } = body;
 
       // Валидация сообщения
       const validation = validateMessage(message);
@@ -89,26 +177,74 @@ export const handler: Handlers = {
         );
       }
 
+      // Язык сохраняется в сессии: принимаются только поддерживаемые
+      if (typeof language !== 'string' || !CHAT_LANGUAGES.includes(language)) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: 'Invalid language',
+            message: `Supported languages: ${CHAT_LANGUAGES.join(', ')}`,
+          }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Продолжить сохранённую сессию или начать новую
+      const existingSession = sessionId ? await getChatSession(sessionId) : null;
+      let formattedHistory: ChatMessage[];
+      let activeSessionId: string;
+
+      if (existingSession) {
+        activeSessionId = existingSession.id;
+        language = existingSession.language;
+        formattedHistory = existingSession.messages.slice(-CHAT_SESSION_CONFIG.historyLimit);
+      } else {
+        activeSessionId = (await createChatSession(language)).id;
+        // Клиент без сохранённой сессии может прислать историю сам
+        formattedHistory = (history || []).map((msg) => ({
+          role: msg.role,
+          content: msg.content,
+          timestamp: new Date(msg.timestamp),
+        }));
+      }
+
       logger.info('Chat request', {
         ip,
+        sessionId: activeSessionId,
+        resumed: existingSession !== null,
         messageLength: message.length,
-        historyLength: history.length,
+        historyLength: formattedHistory.length,
         language,
       });
 
-      // Преобразовать историю
-      const formattedHistory: ChatMessage[] = (history || []).map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-        timestamp: new Date(msg.timestamp),
-      }));
+      const wantsStream = body.stream === true ||
+        (req.headers.get('accept') ?? '').includes('text/event-stream');
+      if (wantsStream) {
+        return createChatStreamResponse(
+          message,
+          formattedHistory,
+          language,
+          activeSessionId,
+          startTime,
+          rateLimit
+        );
+      }
 
       // Генерировать ответ
-      const response = await generateChatbotResponse(message, formattedHistory, language);
+      const { response, citations } = await generateChatbotResponse(
+        message,
+        formattedHistory,
+        language
+      );
+
+      // Сохранить обмен сообщениями
+      await addMessageToSession(activeSessionId, 'user', message.trim());
+      await addMessageToSession(activeSessionId, 'assistant', response, citations);
 
       const duration = Date.now() - startTime;
       logger.info('Chat response', {
         responseLength: response.length,
+        citations: citations.length,
         duration,
       });
 
@@ -116,6 +252,9 @@ export const handler: Handlers = {
         JSON.stringify({
           success: true,
           response,
+          citations,
+          universityIds: citations.map((c) => c.id),
+          sessionId: activeSessionId,
           took_ms: duration,
         }),
         {
@@ -123,6 +262,7 @@ export const handler: Handlers = {
           headers: {
             'Content-Type': 'application/json',
             'X-Response-Time': `${duration}ms`,
+            ...rateLimitHeaders(rateLimit),
           },
         }
       );
@@ -0,0 +1,66 @@
+/**
+ * API сессии чат-бота
+ * GET    /api/chat/sessions/:id - транскрипт сессии (для восстановления чата)
+ * DELETE /api/chat/sessions/:id - удалить сессию
+ */
+
+import { FreshContext, Handlers } from '$fresh/server.ts';
+import {
+  getChatSession,
+  deleteChatSession,
+} from '../../../../src/services/chatbot.service.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+
+export const handler: Handlers = {
+  async GET(_req: Request, ctx: FreshContext) {
+    const { id } = ctx.params;
+
+    try {
+      const session = await getChatSession(id);
+
+      if (!session) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Session not found or expired' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          sessionId: session.id,
+          language: session.language,
+          createdAt: session.createdAt.toISOString(),
+          expiresAt: session.expiresAt.toISOString(),
+          messages: session.messages,
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (err) {
+      logger.error('Failed to load chat session', { id, error: err });
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to load session' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  },
+
+  async DELETE(_req: Request, ctx: FreshContext) {
+    const { id } = ctx.params;
+
+    try {
+      const deleted = await deleteChatSession(id);
+
+      return new Response(
+        JSON.stringify({ success: deleted }),
+        { status: deleted ? 200 : 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (err) {
+      logger.error('Failed to delete chat session', { id, error: err });
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to delete session' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * API сессий чат-бота
+ * POST /api/chat/sessions - создать новую сессию
+ */
+
+import { Handlers } from '$fresh/server.ts';
+import { CHAT_LANGUAGES, createChatSession } from '../../../../src/services/chatbot.service.ts';
+import { logger } from '../../../../src/utils/logger.ts';
+
+export const handler: Handlers = {
+  async POST(req: Request) {
+    let language = 'ru';
+
+    try {
+      const body = await req.json();
+      if (typeof body?.language === 'string' && CHAT_LANGUAGES.includes(body.language)) {
+        language = body.language;
+      }
+    } catch {
+      // Тело необязательно — используем язык по умолчанию
+    }
+
+    try {
+      const session = await createChatSession(language);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          sessionId: session.id,
+          language: session.language,
+          expiresAt: session.expiresAt.toISOString(),
+        }),
+        { status: 201, headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (err) {
+      logger.error('Failed to create chat session', { error: err });
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to create session' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  },
+};
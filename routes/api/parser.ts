@@ -1,24 +1,15 @@
 import { Handlers } from '$fresh/server.ts';
 import {
   fetchAndHashWebsite,
+  crawlAndHashWebsite,
   checkAndUpdateWebsite,
   updateAllSources,
   markdownToUniversityProfile,
 } from '../../src/services/parser.service.ts';
-import { htmlToMarkdown } from '../../src/utils/markdown.converter.ts';
-import { checkOllamaHealth } from '../../src/utils/ollama.client.ts';
+import { checkLlmHealth, getLlmProvider } from '../../src/utils/llm/index.ts';
 import { query } from '../../src/config/database.ts';
 import { logger } from '../../src/utils/logger.ts';
-
-/**
- * Простая проверка admin ключа
- */
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key';
-
-const isAuthorized = (req: Request): boolean => {
-  const authHeader = req.headers.get('X-Admin-Key');
-  return authHeader === ADMIN_KEY;
-};
+import { requireAdmin, unauthorizedResponse } from '../../src/middleware/auth.ts';
 
 /**
  * POST /api/parser
@@ -29,10 +20,11 @@ const isAuthorized = (req: Request): boolean => {
  * - universityId?: string (для check/update)
  * - sourceId?: string (для check/update)
  * - url?: string (для preview)
+ * - overwriteManual?: boolean (для update — перезаписать ручные правки)
  */
 export const handler: Handlers = {
   /**
-   * GET - статус парсера и Ollama
+   * GET - статус парсера и LLM
    */
   async GET(_req) {
     const startTime = Date.now();
@@ -40,7 +32,8 @@ export const handler: Handlers = {
     logger.debug('API: GET /api/parser');
 
     try {
-      const ollamaHealthy = await checkOllamaHealth();
+      const llmHealthy = await checkLlmHealth('parsing');
+      const llm = getLlmProvider('parsing');
 
       // Статистика источников
       const stats = await query<{
@@ -61,7 +54,13 @@ export const handler: Handlers = {
       return new Response(
         JSON.stringify({
           status: 'ok',
-          ollama: ollamaHealthy ? 'connected' : 'disconnected',
+          // Поле ollama сохранено для совместимости, фактически — статус LLM для парсинга
+          ollama: llmHealthy ? 'connected' : 'disconnected',
+          llm: {
+            status: llmHealthy ? 'connected' : 'disconnected',
+            provider: llm.name,
+            model: llm.model,
+          },
           sources: {
             total: parseInt(stats[0]?.total ?? '0', 10),
             checked_today: parseInt(stats[0]?.checked_today ?? '0', 10),
@@ -90,17 +89,15 @@ export const handler: Handlers = {
   async POST(req) {
     const startTime = Date.now();
 
-    // Проверка авторизации
-    if (!isAuthorized(req)) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     try {
       const body = await req.json();
-      const { action, universityId, sourceId, url } = body;
+      const { action, universityId, sourceId, url, overwriteManual } = body;
 
       logger.info('API: POST /api/parser', { action, universityId, url });
 
@@ -137,8 +134,7 @@ export const handler: Handlers = {
             );
           }
 
-          const { html, hash } = await fetchAndHashWebsite(url);
-          const markdown = htmlToMarkdown(html);
+          const { markdown, hash, pages } = await crawlAndHashWebsite(url);
           const profile = await markdownToUniversityProfile(markdown, url);
           const duration = Date.now() - startTime;
 
@@ -146,6 +142,7 @@ export const handler: Handlers = {
             JSON.stringify({
               success: true,
               hash,
+              pages: pages.map((p) => ({ url: p.url, depth: p.depth, markdownLength: p.markdown.length })),
               markdownLength: markdown.length,
               profile,
               response_time_ms: duration,
@@ -163,7 +160,13 @@ export const handler: Handlers = {
             );
           }
 
-          const result = await checkAndUpdateWebsite(universityId, sourceId, url);
+          const result = await checkAndUpdateWebsite(
+            universityId,
+            sourceId,
+            url,
+            false,
+            overwriteManual === true
+          );
           const duration = Date.now() - startTime;
 
           return new Response(
@@ -0,0 +1,63 @@
+import { Handlers } from '$fresh/server.ts';
+import {
+  parseProgramFilters,
+  ProgramFilterError,
+  searchPrograms,
+} from '../../../src/services/programs.service.ts';
+import { logger } from '../../../src/utils/logger.ts';
+
+/**
+ * GET /api/programs
+ * Поиск программ обучения по всем университетам с фильтрами и пагинацией
+ */
+export const handler: Handlers = {
+  async GET(req) {
+    const url = new URL(req.url);
+    const startTime = Date.now();
+
+    logger.info('API: GET /api/programs', {
+      query: Object.fromEntries(url.searchParams),
+    });
+
+    try {
+      const filters = parseProgramFilters(url.searchParams);
+      const result = await searchPrograms(filters);
+
+      const duration = Date.now() - startTime;
+      logger.info('API: Programs fetched', {
+        count: result.data.length,
+        total: result.total,
+        duration_ms: duration,
+      });
+
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'public, max-age=300',
+          'X-Response-Time': `${duration}ms`,
+        },
+      });
+    } catch (err) {
+      if (err instanceof ProgramFilterError) {
+        return new Response(
+          JSON.stringify({ error: 'Bad Request', message: err.message }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      logger.error('API: Failed to fetch programs', err);
+
+      return new Response(
+        JSON.stringify({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch programs',
+        }),
+        {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  },
+};
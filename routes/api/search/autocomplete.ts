@@ -5,23 +5,14 @@
 
 import { FreshContext, Handlers } from '$fresh/server.ts';
 import { searchUniversitiesAutocomplete } from '../../../src/services/university-search.service.ts';
+import { consumeRateLimit } from '../../../src/services/rate-limit.service.ts';
+import {
+  getClientIp,
+  rateLimitHeaders,
+  rateLimitedResponse,
+} from '../../../src/middleware/rate-limit.ts';
 import { logger } from '../../../src/utils/logger.ts';
 
-/**
- * Получить IP адрес клиента
- */
-const getClientIp = (req: Request, ctx: FreshContext): string => {
-  const forwarded = req.headers.get('x-forwarded-for');
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  const realIp = req.headers.get('x-real-ip');
-  if (realIp) {
-    return realIp;
-  }
-  return ctx.remoteAddr?.hostname || 'unknown';
-};
-
 export const handler: Handlers = {
   /**
    * GET /api/search/autocomplete?q=query
@@ -74,8 +65,21 @@ export const handler: Handlers = {
         );
       }
 
+      // Проверить rate limit
+      const rateLimit = await consumeRateLimit('search', ip);
+      if (!rateLimit.allowed) {
+        logger.warn('Autocomplete rate limit exceeded', { ip });
+        return rateLimitedResponse(rateLimit, {
+          error: 'Rate limit exceeded. Please wait before making more requests.',
+          results: [],
+          query,
+          total: 0,
+          cache_hit: false,
+        });
+      }
+
       // Выполнить поиск
-      const result = await searchUniversitiesAutocomplete(query, ip);
+      const result = await searchUniversitiesAutocomplete(query);
 
       const duration = Date.now() - startTime;
       logger.info('Autocomplete response', {
@@ -96,6 +100,7 @@ export const handler: Handlers = {
           'Content-Type': 'application/json',
           'Cache-Control': cacheControl,
           'X-Response-Time': `${duration}ms`,
+          ...rateLimitHeaders(rateLimit),
         },
       });
     } catch (err) {
@@ -104,26 +109,6 @@ export const handler: Handlers = {
 
       logger.error('Autocomplete error', { query, error: errorMessage, duration });
 
-      // Проверить тип ошибки
-      if (errorMessage.includes('Rate limit')) {
-        return new Response(
-          JSON.stringify({
-            error: 'Rate limit exceeded. Please wait before making more requests.',
-            results: [],
-            query,
-            total: 0,
-            cache_hit: false,
-          }),
-          {
-            status: 429,
-            headers: {
-              'Content-Type': 'application/json',
-              'Retry-After': '60',
-            },
-          }
-        );
-      }
-
       return new Response(
         JSON.stringify({
           error: 'Internal server error',
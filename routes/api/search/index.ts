@@ -0,0 +1,80 @@
+/**
+ * API полнотекстового поиска по содержимому профилей
+ * GET /api/search?q=...&language=ru&limit=20&offset=0
+ */
+
+import { FreshContext, Handlers } from '$fresh/server.ts';
+import {
+  MAX_SEARCH_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+  SEARCH_LANGUAGES,
+  type SearchLanguage,
+  searchUniversityContent,
+} from '../../../src/services/full-text-search.service.ts';
+import { consumeRateLimit } from '../../../src/services/rate-limit.service.ts';
+import {
+  getClientIp,
+  rateLimitHeaders,
+  rateLimitedResponse,
+} from '../../../src/middleware/rate-limit.ts';
+import { logger } from '../../../src/utils/logger.ts';
+
+const json = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+export const handler: Handlers = {
+  async GET(req: Request, ctx: FreshContext) {
+    const startTime = Date.now();
+    const url = new URL(req.url);
+    const q = (url.searchParams.get('q') ?? '').trim();
+    const language = (url.searchParams.get('language') ?? 'ru') as SearchLanguage;
+    const limit = parseInt(url.searchParams.get('limit') ?? '20', 10);
+    const offset = parseInt(url.searchParams.get('offset') ?? '0', 10);
+
+    if (q.length < 2) {
+      return json({ success: false, error: 'Query too short (min 2 characters)' }, 400);
+    }
+    if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+      return json(
+        { success: false, error: `Query too long (max ${MAX_SEARCH_QUERY_LENGTH} characters)` },
+        400
+      );
+    }
+    if (!SEARCH_LANGUAGES.includes(language)) {
+      return json({ success: false, error: 'Invalid language' }, 400);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      return json({ success: false, error: 'Invalid pagination' }, 400);
+    }
+
+    const ip = getClientIp(req, ctx);
+    const rateLimit = await consumeRateLimit('search', ip);
+    if (!rateLimit.allowed) {
+      logger.warn('Content search rate limit exceeded', { ip });
+      return rateLimitedResponse(rateLimit, { success: false, error: 'Rate limit exceeded' });
+    }
+
+    try {
+      const { results, total } = await searchUniversityContent(q, { language, limit, offset });
+
+      return json(
+        {
+          success: true,
+          query: q,
+          language,
+          results,
+          total,
+          took_ms: Date.now() - startTime,
+        },
+        200,
+        { 'Cache-Control': 'public, max-age=60', ...rateLimitHeaders(rateLimit) }
+      );
+    } catch (err) {
+      logger.error('Content search failed', { q, error: err });
+      return json({ success: false, error: 'Search failed', took_ms: Date.now() - startTime }, 500);
+    }
+  },
+};
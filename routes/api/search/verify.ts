@@ -7,15 +7,12 @@ import { Handlers } from '$fresh/server.ts';
 import { logger } from '../../../src/utils/logger.ts';
 import { verifyUniversityWithAI } from '../../../src/services/search.service.ts';
 import { query } from '../../../src/config/database.ts';
-
-/**
- * Получить IP клиента
- */
-const getClientIp = (req: Request): string => {
-  return req.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
-    ?? req.headers.get('x-real-ip')
-    ?? 'unknown';
-};
+import { consumeRateLimit } from '../../../src/services/rate-limit.service.ts';
+import {
+  getClientIp,
+  rateLimitHeaders,
+  rateLimitedResponse,
+} from '../../../src/middleware/rate-limit.ts';
 
 export const handler: Handlers = {
   /**
@@ -48,31 +45,17 @@ export const handler: Handlers = {
       });
     }
 
-    try {
-      const { result, rateLimited, remaining, resetIn } = await verifyUniversityWithAI(
-        name.trim(),
-        clientIp
-      );
-
-      // Rate limited
-      if (rateLimited) {
-        return new Response(JSON.stringify({
-          error: 'Too many requests',
-          message: `Rate limit exceeded. Try again in ${Math.ceil((resetIn || 60000) / 1000)} seconds.`,
-          retry_after: Math.ceil((resetIn || 60000) / 1000),
-        }), {
-          status: 429,
-          headers: { 
-            'Content-Type': 'application/json',
-            'Retry-After': String(Math.ceil((resetIn || 60000) / 1000)),
-            'X-RateLimit-Remaining': '0',
-          },
-        });
-      }
+    // Rate limit: каждый запрос к LLM списывает токен
+    const rateLimit = await consumeRateLimit('verify', clientIp);
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit, {
+        error: 'Too many requests',
+        message: `Rate limit exceeded. Try again in ${rateLimit.retryAfterSeconds} seconds.`,
+      });
+    }
 
-      if (!result) {
-        throw new Error('No result from AI');
-      }
+    try {
+      const result = await verifyUniversityWithAI(name.trim(), clientIp);
 
       // Проверяем, есть ли университет с таким website в базе
       let existingUniversity = null;
@@ -158,7 +141,7 @@ export const handler: Handlers = {
         status: 200,
         headers: { 
           'Content-Type': 'application/json',
-          'X-RateLimit-Remaining': String(remaining ?? 0),
+          ...rateLimitHeaders(rateLimit),
         },
       });
 
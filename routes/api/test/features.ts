@@ -106,9 +106,8 @@ const runSearchTests = async (): Promise<TestSuiteResult> => {
   // Test 6: AI Verify (если Ollama доступна)
   tests.push(await runTest('AI Verify - availability check', async () => {
     try {
-      const { result, rateLimited } = await verifyUniversityWithAI('Harvard', 'test');
-      if (rateLimited) return { status: 'rate_limited' };
-      return { found: result?.found, confidence: result?.confidence };
+      const result = await verifyUniversityWithAI('Harvard', 'test');
+      return { found: result.found, confidence: result.confidence };
     } catch (err) {
       // AI может быть недоступен - это не ошибка теста
       return { status: 'ai_unavailable', note: String(err) };
@@ -291,7 +290,7 @@ export const handler: Handlers = {
    */
   async POST(req) {
     // Аутентификация
-    const auth = requireAdmin(req);
+    const auth = await requireAdmin(req);
     if (!auth.valid) {
       return unauthorizedResponse(auth.error);
     }
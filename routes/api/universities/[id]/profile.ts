@@ -5,22 +5,9 @@ import {
   updateUniversityProfile,
 } from '../../../../src/services/universities.service.ts';
 import { logger } from '../../../../src/utils/logger.ts';
+import { requireAdmin, unauthorizedResponse } from '../../../../src/middleware/auth.ts';
 import type { University } from '../../../../src/types/university.ts';
 
-/**
- * Простая проверка admin ключа
- * В продакшене использовать нормальную аутентификацию
- */
-const ADMIN_KEY = Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key';
-
-/**
- * Проверка авторизации
- */
-const isAuthorized = (req: Request): boolean => {
-  const authHeader = req.headers.get('X-Admin-Key');
-  return authHeader === ADMIN_KEY;
-};
-
 /**
  * GET /api/universities/:id/profile
  * Получить только профиль университета
@@ -86,14 +73,10 @@ export const handler: Handlers = {
 
     logger.info('API: POST /api/universities/:id/profile', { id });
 
-    // Проверка авторизации
-    if (!isAuthorized(req)) {
-      logger.warn('API: Unauthorized profile update attempt', { id });
-
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized', message: 'Invalid or missing X-Admin-Key header' }),
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
+    // Аутентификация
+    const auth = await requireAdmin(req);
+    if (!auth.valid) {
+      return unauthorizedResponse(auth.error);
     }
 
     // Валидация UUID
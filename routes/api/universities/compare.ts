@@ -1,10 +1,18 @@
 /**
  * API endpoint для сравнения университетов
- * GET /api/universities/compare?id1=uuid1&id2=uuid2&language=ru
+ * GET /api/universities/compare?ids=uuid1,uuid2,uuid3&language=ru&weights=reputation:3,cost:2
+ * GET /api/universities/compare?id1=uuid1&id2=uuid2&language=ru (сравнение пары)
  */
 
 import { FreshContext, Handlers } from '$fresh/server.ts';
-import { compareUniversities, clearBattleCache } from '../../../src/services/university-battle.service.ts';
+import {
+  clearBattleCache,
+  compareUniversities,
+  MAX_BATTLE_UNIVERSITIES,
+  MIN_BATTLE_UNIVERSITIES,
+} from '../../../src/services/university-battle.service.ts';
+import { parseBattleWeights } from '../../../src/services/battle-scoring.service.ts';
+import { saveBattle } from '../../../src/services/battles.service.ts';
 import { logger } from '../../../src/utils/logger.ts';
 
 export const handler: Handlers = {
@@ -12,12 +20,19 @@ export const handler: Handlers = {
     const startTime = Date.now();
     const url = new URL(req.url);
 
-    const id1 = url.searchParams.get('id1');
-    const id2 = url.searchParams.get('id2');
+    // ids=a,b,c или устаревшие id1/id2
+    const idsParam = url.searchParams.get('ids');
+    const ids = (idsParam !== null
+      ? idsParam.split(',')
+      : [url.searchParams.get('id1'), url.searchParams.get('id2')]
+    )
+      .map((id) => id?.trim())
+      .filter((id): id is string => !!id);
     const language = url.searchParams.get('language') || 'ru';
     const forceRefresh = url.searchParams.get('refresh') === 'true';
+    const weights = parseBattleWeights(url.searchParams.get('weights'));
 
-    logger.info('Compare request', { id1, id2, language, forceRefresh });
+    logger.info('Compare request', { ids, language, weights, forceRefresh });
 
     // Если запрошено обновление кэша
     if (forceRefresh) {
@@ -26,18 +41,29 @@ export const handler: Handlers = {
     }
 
     // Валидация
-    if (!id1 || !id2) {
+    if (ids.length < MIN_BATTLE_UNIVERSITIES) {
       return new Response(
         JSON.stringify({
           success: false,
           error: 'Missing parameters',
-          message: 'Both id1 and id2 are required',
+          message: `At least ${MIN_BATTLE_UNIVERSITIES} university ids are required (ids or id1 and id2)`,
         }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    if (id1 === id2) {
+    if (ids.length > MAX_BATTLE_UNIVERSITIES) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid parameters',
+          message: `At most ${MAX_BATTLE_UNIVERSITIES} universities can be compared`,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (new Set(ids).size !== ids.length) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -48,26 +74,47 @@ export const handler: Handlers = {
       );
     }
 
+    if (!weights) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid parameters',
+          message: 'weights must be criterion:weight pairs with integer weights 0-5 and at least one non-zero',
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Валидация UUID формата
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(id1) || !uuidRegex.test(id2)) {
+    if (!ids.every((id) => uuidRegex.test(id))) {
       return new Response(
         JSON.stringify({
           success: false,
           error: 'Invalid UUID format',
-          message: 'id1 and id2 must be valid UUIDs',
+          message: 'All university ids must be valid UUIDs',
         }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
     try {
-      const result = await compareUniversities(id1, id2, language);
+      const result = await compareUniversities(ids, language, weights);
+
+      // Сохранить для постоянной ссылки (без объяснений LLM — не сохраняем)
+      let battleId: string | null = null;
+      if (result.hasNarrative) {
+        try {
+          battleId = (await saveBattle(result, language)).id;
+        } catch (err) {
+          logger.warn('Failed to save battle', { ids, error: err });
+        }
+      }
+
       const duration = Date.now() - startTime;
 
       logger.info('Compare response', {
-        id1,
-        id2,
+        ids,
         winner: result.overallWinner,
         duration,
       });
@@ -76,6 +123,8 @@ export const handler: Handlers = {
         JSON.stringify({
           success: true,
           result,
+          battle_id: battleId,
+          share_url: battleId ? `/battle/${battleId}` : null,
           cached: duration < 100, // Предполагаем что кэш быстрее 100ms
           took_ms: duration,
         }),
@@ -83,7 +132,7 @@ export const handler: Handlers = {
           status: 200,
           headers: {
             'Content-Type': 'application/json',
-            'Cache-Control': 'public, max-age=86400', // 24 часа
+            'Cache-Control': battleId ? 'public, max-age=86400' : 'no-store', // 24 часа
             'X-Response-Time': `${duration}ms`,
           },
         }
@@ -92,7 +141,7 @@ export const handler: Handlers = {
       const duration = Date.now() - startTime;
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
 
-      logger.error('Compare failed', { id1, id2, error: errorMessage, duration });
+      logger.error('Compare failed', { ids, error: errorMessage, duration });
 
       // Определить тип ошибки
       const isNotFound = errorMessage.includes('not found');
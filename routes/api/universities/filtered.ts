@@ -6,11 +6,29 @@
 import { FreshContext, Handlers } from '$fresh/server.ts';
 import { query } from '../../../src/config/database.ts';
 import { logger } from '../../../src/utils/logger.ts';
+import {
+  parseUniversityListSort,
+  UNIVERSITY_SORTS,
+  UniversityListError,
+  universitySortKey,
+  type UniversityListSort,
+  type UniversitySort,
+} from '../../../src/services/universities.service.ts';
+import { buildKeysetCondition, buildKeysetOrder, takeKeysetPage } from '../../../src/utils/keyset.ts';
+import {
+  BASE_CURRENCY,
+  convertAmount,
+  convertTuition,
+  type DisplayCurrency,
+  type ExchangeRates,
+  parseDisplayCurrency,
+} from '../../../src/utils/currency.ts';
+import { getExchangeRates } from '../../../src/services/exchange-rates.service.ts';
 
 /**
  * Параметры фильтрации
  */
-interface FilterParams {
+interface FilterParams extends UniversityListSort {
   country: string | null;
   specializations: string[];
   languages: string[];
@@ -19,6 +37,8 @@ interface FilterParams {
   max_tuition: number | null;
   accepts_international: boolean | null;
   size_category: string | null;
+  /** Валюта min_tuition/max_tuition в запросе и в ответе */
+  currency: DisplayCurrency;
   limit: number;
   offset: number;
 }
@@ -46,11 +66,28 @@ interface FilteredUniversity {
 /**
  * Кэш результатов фильтрации
  */
-const filterCache = new Map<string, { results: FilteredUniversity[]; total: number; timestamp: number }>();
+const filterCache = new Map<
+  string,
+  {
+    results: FilteredUniversity[];
+    total: number;
+    facets: Facets;
+    nextCursor: string | null;
+    timestamp: number;
+  }
+>();
 const CACHE_TTL = 1000 * 60 * 5; // 5 минут
 
+/**
+ * Сбросить кэш фильтрации (после изменения курсов валют)
+ */
+export const clearFilterCache = (): void => {
+  filterCache.clear();
+};
+
 /**
  * Парсинг параметров запроса
+ * @throws UniversityListError при неверной сортировке или курсоре
  */
 const parseFilterParams = (url: URL): FilterParams => {
   const params = url.searchParams;
@@ -77,6 +114,11 @@ const parseFilterParams = (url: URL): FilterParams => {
     return value.toLowerCase() === 'true';
   };
 
+  const currency = parseDisplayCurrency(params.get('currency'));
+  if (!currency) {
+    throw new UniversityListError('Invalid currency');
+  }
+
   return {
     country: params.get('country') || null,
     specializations: parseArray('specialization'),
@@ -86,11 +128,30 @@ const parseFilterParams = (url: URL): FilterParams => {
     max_tuition: parseNumber('max_tuition'),
     accepts_international: parseBoolean('accepts_international'),
     size_category: params.get('size') || null,
+    currency,
     limit: Math.min(parseNumber('limit') || 50, 100),
     offset: parseNumber('offset') || 0,
+    ...parseUniversityListSort(params),
   };
 };
 
+/**
+ * Перевести границы стоимости из валюты запроса в USD (колонки хранятся в USD)
+ * Колонки целочисленные, поэтому границы округляются до целых долларов:
+ * это же убирает погрешность обратного пересчёта границ фасетов.
+ */
+const toBaseCurrency = (params: FilterParams, rates: ExchangeRates): FilterParams => {
+  if (params.currency === BASE_CURRENCY) return params;
+
+  const convert = (amount: number | null): number | null => {
+    if (amount === null) return null;
+    const usd = convertAmount(amount, params.currency, BASE_CURRENCY, rates);
+    return usd === null ? null : Math.round(usd);
+  };
+
+  return { ...params, min_tuition: convert(params.min_tuition), max_tuition: convert(params.max_tuition) };
+};
+
 /**
  * Генерация ключа кэша
  */
@@ -99,88 +160,173 @@ const getCacheKey = (params: FilterParams): string => {
 };
 
 /**
- * Построение SQL запроса с фильтрами
+ * Фасет: значение фильтра и число университетов с ним
  */
-const buildFilterQuery = (params: FilterParams): { sql: string; values: unknown[] } => {
+interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Фасет стоимости: диапазон USD/год, max = null — без верхней границы.
+ * Считается так же, как фильтр min_tuition/max_tuition с этими границами.
+ */
+interface TuitionFacetValue extends FacetValue {
+  min: number;
+  max: number | null;
+}
+
+interface Facets {
+  countries: FacetValue[];
+  specializations: FacetValue[];
+  languages: FacetValue[];
+  degree_levels: FacetValue[];
+  sizes: FacetValue[];
+  tuition: TuitionFacetValue[];
+}
+
+type FacetKey = 'country' | 'specializations' | 'languages' | 'degree_levels' | 'size' | 'tuition';
+
+/**
+ * Диапазоны для фасета стоимости
+ */
+const TUITION_BUCKETS: Array<{ min: number; max: number | null }> = [
+  { min: 0, max: 5000 },
+  { min: 5000, max: 10000 },
+  { min: 10000, max: 20000 },
+  { min: 20000, max: 40000 },
+  { min: 40000, max: null },
+];
+
+const bucketLabel = (bucket: { min: number; max: number | null }): string =>
+  bucket.max === null ? `${bucket.min}+` : `${bucket.min}-${bucket.max}`;
+
+/**
+ * Условия WHERE для набора фильтров
+ * @param param - добавляет значение в список параметров и возвращает плейсхолдер
+ * @param exclude - фильтр, который не применяется (для подсчёта его собственного фасета)
+ */
+const buildConditions = (
+  params: FilterParams,
+  param: (value: unknown) => string,
+  exclude?: FacetKey
+): string => {
   const conditions: string[] = ['is_active = true'];
-  const values: unknown[] = [];
-  let paramIndex = 1;
 
   // Country filter
-  if (params.country) {
-    conditions.push(`country = $${paramIndex}`);
-    values.push(params.country);
-    paramIndex++;
+  if (params.country && exclude !== 'country') {
+    conditions.push(`country = ${param(params.country)}`);
   }
 
   // Specializations filter (JSONB contains)
-  if (params.specializations.length > 0) {
-    conditions.push(`specializations @> $${paramIndex}::jsonb`);
-    values.push(JSON.stringify(params.specializations));
-    paramIndex++;
+  if (params.specializations.length > 0 && exclude !== 'specializations') {
+    conditions.push(`specializations @> ${param(JSON.stringify(params.specializations))}::jsonb`);
   }
 
   // Languages filter
-  if (params.languages.length > 0) {
-    conditions.push(`languages @> $${paramIndex}::jsonb`);
-    values.push(JSON.stringify(params.languages));
-    paramIndex++;
+  if (params.languages.length > 0 && exclude !== 'languages') {
+    conditions.push(`languages @> ${param(JSON.stringify(params.languages))}::jsonb`);
   }
 
   // Degree levels filter
-  if (params.degree_levels.length > 0) {
-    conditions.push(`degree_levels @> $${paramIndex}::jsonb`);
-    values.push(JSON.stringify(params.degree_levels));
-    paramIndex++;
+  if (params.degree_levels.length > 0 && exclude !== 'degree_levels') {
+    conditions.push(`degree_levels @> ${param(JSON.stringify(params.degree_levels))}::jsonb`);
   }
 
   // Tuition range
-  if (params.min_tuition !== null) {
-    conditions.push(`(min_tuition >= $${paramIndex} OR min_tuition IS NULL)`);
-    values.push(params.min_tuition);
-    paramIndex++;
+  if (params.min_tuition !== null && exclude !== 'tuition') {
+    conditions.push(`(min_tuition >= ${param(params.min_tuition)} OR min_tuition IS NULL)`);
   }
 
-  if (params.max_tuition !== null) {
-    conditions.push(`(max_tuition <= $${paramIndex} OR max_tuition IS NULL)`);
-    values.push(params.max_tuition);
-    paramIndex++;
+  if (params.max_tuition !== null && exclude !== 'tuition') {
+    conditions.push(`(max_tuition <= ${param(params.max_tuition)} OR max_tuition IS NULL)`);
   }
 
   // Accepts international
   if (params.accepts_international !== null) {
-    conditions.push(`accepts_international = $${paramIndex}`);
-    values.push(params.accepts_international);
-    paramIndex++;
+    conditions.push(`accepts_international = ${param(params.accepts_international)}`);
   }
 
   // Size category
-  if (params.size_category) {
-    conditions.push(`size_category = $${paramIndex}`);
-    values.push(params.size_category);
-    paramIndex++;
+  if (params.size_category && exclude !== 'size') {
+    conditions.push(`size_category = ${param(params.size_category)}`);
   }
 
-  const whereClause = conditions.join(' AND ');
+  return conditions.join(' AND ');
+};
+
+/**
+ * Список параметров запроса с генератором плейсхолдеров
+ */
+const createParams = () => {
+  const values: unknown[] = [];
+  const param = (value: unknown): string => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  return { values, param };
+};
+
+/**
+ * Значение сортировки для строки universities
+ * Рейтинг — лучшее место в QS World из колонки rankings, заполненность —
+ * из последней версии профиля, как в общем списке университетов.
+ */
+const SORT_EXPRESSIONS: Record<UniversitySort, string> = {
+  name: 'name',
+  founded_year: 'founded_year',
+  student_count: 'student_count',
+  tuition: 'min_tuition',
+  ranking: `(
+        SELECT MIN((r->>'rank')::int)
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(rankings) = 'array' THEN rankings ELSE '[]'::jsonb END
+        ) AS r
+        WHERE r->>'source' ILIKE '%QS%World%'
+      )`,
+  completeness: `(
+        SELECT COALESCE((profile_json->'metadata'->>'completeness_score')::int, 0)
+        FROM university_profiles
+        WHERE university_id = universities.id
+        ORDER BY version DESC, created_at DESC
+        LIMIT 1
+      )`,
+  updated_at: "date_trunc('milliseconds', updated_at)",
+};
+
+/**
+ * Построение SQL запроса с фильтрами
+ * Выбирается на одну строку больше страницы, чтобы понять, есть ли следующая.
+ * С курсором offset не применяется.
+ */
+const buildFilterQuery = (params: FilterParams): { sql: string; values: unknown[] } => {
+  const { values, param } = createParams();
+  const whereClause = buildConditions(params, param);
+  const { cast } = UNIVERSITY_SORTS[params.sort];
+  const keysetClause = params.cursor
+    ? `WHERE ${buildKeysetCondition('s.sort_value', 's.id', cast, params.direction, params.cursor, param)}`
+    : '';
 
   // Main query
   const sql = `
-    SELECT 
-      id, name, name_en, country, city,
-      COALESCE(specializations, '[]'::jsonb) as specializations,
-      COALESCE(languages, '[]'::jsonb) as languages,
-      COALESCE(degree_levels, '[]'::jsonb) as degree_levels,
-      min_tuition, max_tuition, size_category,
-      COALESCE(accepts_international, true) as accepts_international,
-      founded_year, student_count
-    FROM universities
-    WHERE ${whereClause}
-    ORDER BY name
-    LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    SELECT * FROM (
+      SELECT 
+        id, name, name_en, country, city,
+        COALESCE(specializations, '[]'::jsonb) as specializations,
+        COALESCE(languages, '[]'::jsonb) as languages,
+        COALESCE(degree_levels, '[]'::jsonb) as degree_levels,
+        min_tuition, max_tuition, size_category,
+        COALESCE(accepts_international, true) as accepts_international,
+        founded_year, student_count,
+        ${SORT_EXPRESSIONS[params.sort]} AS sort_value
+      FROM universities
+      WHERE ${whereClause}
+    ) s
+    ${keysetClause}
+    ORDER BY ${buildKeysetOrder('s.sort_value', 's.id', params.direction)}
+    LIMIT ${param(params.limit + 1)} OFFSET ${param(params.cursor ? 0 : params.offset)}
   `;
 
-  values.push(params.limit, params.offset);
-
   return { sql, values };
 };
 
@@ -188,61 +334,84 @@ const buildFilterQuery = (params: FilterParams): { sql: string; values: unknown[
  * Подсчёт общего количества результатов
  */
 const buildCountQuery = (params: FilterParams): { sql: string; values: unknown[] } => {
-  const conditions: string[] = ['is_active = true'];
-  const values: unknown[] = [];
-  let paramIndex = 1;
-
-  if (params.country) {
-    conditions.push(`country = $${paramIndex}`);
-    values.push(params.country);
-    paramIndex++;
-  }
-
-  if (params.specializations.length > 0) {
-    conditions.push(`specializations @> $${paramIndex}::jsonb`);
-    values.push(JSON.stringify(params.specializations));
-    paramIndex++;
-  }
+  const { values, param } = createParams();
+  const sql = `SELECT COUNT(*) as total FROM universities WHERE ${buildConditions(params, param)}`;
 
-  if (params.languages.length > 0) {
-    conditions.push(`languages @> $${paramIndex}::jsonb`);
-    values.push(JSON.stringify(params.languages));
-    paramIndex++;
-  }
-
-  if (params.degree_levels.length > 0) {
-    conditions.push(`degree_levels @> $${paramIndex}::jsonb`);
-    values.push(JSON.stringify(params.degree_levels));
-    paramIndex++;
-  }
+  return { sql, values };
+};
 
-  if (params.min_tuition !== null) {
-    conditions.push(`(min_tuition >= $${paramIndex} OR min_tuition IS NULL)`);
-    values.push(params.min_tuition);
-    paramIndex++;
-  }
+/**
+ * Подсчёт фасетов одним запросом
+ * Страна, размер и стоимость выбираются по одному значению, поэтому их фасеты
+ * считаются без собственного фильтра — видны альтернативы текущему выбору.
+ * Специализации, языки и уровни фильтруются по вхождению всех выбранных
+ * значений, и их счётчики показывают, сколько останется после добавления значения.
+ */
+const buildFacetsQuery = (params: FilterParams): { sql: string; values: unknown[] } => {
+  const { values, param } = createParams();
+
+  const arrayFacet = (facet: string, column: string) => `
+    SELECT '${facet}' AS facet, v AS value, COUNT(*) AS count
+    FROM universities,
+      jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(${column}) = 'array' THEN ${column} ELSE '[]'::jsonb END
+      ) AS v
+    WHERE ${buildConditions(params, param)}
+    GROUP BY v`;
+
+  const tuitionBuckets = TUITION_BUCKETS.map((bucket) =>
+    `('${bucketLabel(bucket)}', ${bucket.min}, ${bucket.max ?? 'NULL'}::int)`
+  ).join(', ');
 
-  if (params.max_tuition !== null) {
-    conditions.push(`(max_tuition <= $${paramIndex} OR max_tuition IS NULL)`);
-    values.push(params.max_tuition);
-    paramIndex++;
-  }
+  const sql = `
+    SELECT 'country' AS facet, country AS value, COUNT(*) AS count
+    FROM universities
+    WHERE ${buildConditions(params, param, 'country')}
+    GROUP BY country
+    UNION ALL ${arrayFacet('specializations', 'specializations')}
+    UNION ALL ${arrayFacet('languages', 'languages')}
+    UNION ALL ${arrayFacet('degree_levels', 'degree_levels')}
+    UNION ALL
+    SELECT 'size' AS facet, size_category AS value, COUNT(*) AS count
+    FROM universities
+    WHERE ${buildConditions(params, param, 'size')} AND size_category IS NOT NULL
+    GROUP BY size_category
+    UNION ALL
+    SELECT 'tuition' AS facet, b.bucket AS value, COUNT(*) AS count
+    FROM universities
+    JOIN (VALUES ${tuitionBuckets}) AS b(bucket, bucket_min, bucket_max)
+      ON (min_tuition >= b.bucket_min OR min_tuition IS NULL)
+     AND (max_tuition <= b.bucket_max OR b.bucket_max IS NULL OR max_tuition IS NULL)
+    WHERE ${buildConditions(params, param, 'tuition')}
+    GROUP BY b.bucket
+  `;
 
-  if (params.accepts_international !== null) {
-    conditions.push(`accepts_international = $${paramIndex}`);
-    values.push(params.accepts_international);
-    paramIndex++;
-  }
+  return { sql, values };
+};
 
-  if (params.size_category) {
-    conditions.push(`size_category = $${paramIndex}`);
-    values.push(params.size_category);
-    paramIndex++;
-  }
+/**
+ * Разложить строки фасетов по группам, по убыванию числа
+ */
+const groupFacets = (rows: Array<{ facet: string; value: string; count: string | number }>): Facets => {
+  const byFacet = (facet: string): FacetValue[] =>
+    rows
+      .filter((r) => r.facet === facet && r.value !== null)
+      .map((r) => ({ value: r.value, count: Number(r.count) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
 
-  const sql = `SELECT COUNT(*) as total FROM universities WHERE ${conditions.join(' AND ')}`;
+  const tuitionCounts = new Map(byFacet('tuition').map((f) => [f.value, f.count]));
 
-  return { sql, values };
+  return {
+    countries: byFacet('country'),
+    specializations: byFacet('specializations'),
+    languages: byFacet('languages'),
+    degree_levels: byFacet('degree_levels'),
+    sizes: byFacet('size'),
+    // Диапазоны стоимости — в порядке возрастания, пустые не возвращаются
+    tuition: TUITION_BUCKETS
+      .map((bucket) => ({ ...bucket, value: bucketLabel(bucket), count: tuitionCounts.get(bucketLabel(bucket)) ?? 0 }))
+      .filter((bucket) => bucket.count > 0),
+  };
 };
 
 export const handler: Handlers = {
@@ -257,6 +426,7 @@ export const handler: Handlers = {
         country: params.country,
         specializations: params.specializations,
         languages: params.languages,
+        sort: params.sort,
         limit: params.limit,
         offset: params.offset,
       });
@@ -272,6 +442,7 @@ export const handler: Handlers = {
           JSON.stringify({
             results: cached.results,
             total: cached.total,
+            facets: cached.facets,
             filters_applied: {
               country: params.country,
               specializations: params.specializations,
@@ -281,10 +452,14 @@ export const handler: Handlers = {
               max_tuition: params.max_tuition,
               accepts_international: params.accepts_international,
               size: params.size_category,
+              currency: params.currency,
             },
             pagination: {
               limit: params.limit,
-              offset: params.offset,
+              offset: params.cursor ? 0 : params.offset,
+              sort: params.sort,
+              order: params.direction,
+              next_cursor: cached.nextCursor,
             },
             cache_hit: true,
           }),
@@ -299,21 +474,52 @@ export const handler: Handlers = {
         );
       }
 
+      // Границы стоимости — в USD, как колонки
+      const rates = await getExchangeRates();
+      if (!rates[params.currency]) {
+        throw new UniversityListError(`No exchange rate for ${params.currency}`);
+      }
+      const baseParams = toBaseCurrency(params, rates);
+
       // Выполнить запросы параллельно
-      const { sql: dataSql, values: dataValues } = buildFilterQuery(params);
-      const { sql: countSql, values: countValues } = buildCountQuery(params);
+      const { sql: dataSql, values: dataValues } = buildFilterQuery(baseParams);
+      const { sql: countSql, values: countValues } = buildCountQuery(baseParams);
+      const { sql: facetsSql, values: facetsValues } = buildFacetsQuery(baseParams);
 
-      const [results, countResult] = await Promise.all([
-        query<FilteredUniversity>(dataSql, dataValues),
+      const [rows, countResult, facetRows] = await Promise.all([
+        query<FilteredUniversity & { sort_value: unknown }>(dataSql, dataValues),
         query<{ total: string }>(countSql, countValues),
+        query<{ facet: string; value: string; count: string }>(facetsSql, facetsValues),
       ]);
 
+      const { data: results, nextCursor } = takeKeysetPage(
+        rows,
+        params.limit,
+        universitySortKey(params.sort, params.direction)
+      );
       const total = parseInt(countResult[0]?.total || '0', 10);
+      const facets = groupFacets(facetRows);
+
+      // Стоимость в ответе — в валюте запроса
+      if (params.currency !== BASE_CURRENCY) {
+        const convert = (amount: number | null) => convertTuition(amount, BASE_CURRENCY, params.currency, rates);
+        for (const university of results) {
+          university.min_tuition = convert(university.min_tuition);
+          university.max_tuition = convert(university.max_tuition);
+        }
+        facets.tuition = facets.tuition.map((bucket) => ({
+          ...bucket,
+          min: convert(bucket.min) ?? bucket.min,
+          max: convert(bucket.max),
+        }));
+      }
 
       // Сохранить в кэш
       filterCache.set(cacheKey, {
         results,
         total,
+        facets,
+        nextCursor,
         timestamp: Date.now(),
       });
 
@@ -332,6 +538,7 @@ export const handler: Handlers = {
         JSON.stringify({
           results,
           total,
+          facets,
           filters_applied: {
             country: params.country,
             specializations: params.specializations,
@@ -341,10 +548,14 @@ export const handler: Handlers = {
             max_tuition: params.max_tuition,
             accepts_international: params.accepts_international,
             size: params.size_category,
+            currency: params.currency,
           },
           pagination: {
             limit: params.limit,
-            offset: params.offset,
+            offset: params.cursor ? 0 : params.offset,
+            sort: params.sort,
+            order: params.direction,
+            next_cursor: nextCursor,
           },
           cache_hit: false,
         }),
@@ -358,6 +569,13 @@ export const handler: Handlers = {
         }
       );
     } catch (err) {
+      if (err instanceof UniversityListError) {
+        return new Response(
+          JSON.stringify({ error: 'Bad Request', message: err.message, results: [], total: 0 }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
       const duration = Date.now() - startTime;
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
 
@@ -1,10 +1,15 @@
 import { Handlers } from '$fresh/server.ts';
-import { getAllUniversities } from '../../../src/services/universities.service.ts';
+import {
+  getAllUniversities,
+  parseUniversityListSort,
+  UniversityListError,
+} from '../../../src/services/universities.service.ts';
 import { logger } from '../../../src/utils/logger.ts';
+import { parseDisplayCurrency } from '../../../src/utils/currency.ts';
 
 /**
  * GET /api/universities
- * Получить список университетов с пагинацией и поиском
+ * Получить список университетов с пагинацией, сортировкой и поиском
  */
 export const handler: Handlers = {
   async GET(req) {
@@ -25,6 +30,11 @@ export const handler: Handlers = {
       const search = url.searchParams.get('search') ?? undefined;
       const country = url.searchParams.get('country') ?? undefined;
       const city = url.searchParams.get('city') ?? undefined;
+      const { sort, direction, cursor } = parseUniversityListSort(url.searchParams);
+      const currency = parseDisplayCurrency(url.searchParams.get('currency'));
+      if (!currency) {
+        throw new UniversityListError('Invalid currency');
+      }
 
       // Получить данные
       const result = await getAllUniversities({
@@ -33,6 +43,10 @@ export const handler: Handlers = {
         search,
         country,
         city,
+        sort,
+        direction,
+        cursor,
+        currency,
       });
 
       const duration = Date.now() - startTime;
@@ -50,6 +64,13 @@ export const handler: Handlers = {
         },
       });
     } catch (err) {
+      if (err instanceof UniversityListError) {
+        return new Response(
+          JSON.stringify({ error: 'Bad Request', message: err.message }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
       logger.error('API: Failed to fetch universities', err);
 
       return new Response(
@@ -0,0 +1,204 @@
+import { Head } from '$fresh/runtime.ts';
+import { Handlers, PageProps } from '$fresh/server.ts';
+import { BattleResults } from '../../src/components/BattleMode/BattleResults.tsx';
+import { BattleError, getBattle, recomputeBattle, type StoredBattle } from '../../src/services/battles.service.ts';
+import { logger } from '../../src/utils/logger.ts';
+
+/**
+ * Данные страницы
+ */
+interface PageData {
+  id: string;
+  battle: StoredBattle | null;
+  /** Абсолютный адрес страницы для OpenGraph */
+  pageUrl: string;
+  error?: string;
+  recomputeError?: string;
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Заголовок и описание для превью ссылки
+ */
+const buildShareText = (battle: StoredBattle): { title: string; description: string } => {
+  const { universities, ranking } = battle.result;
+  const byId = new Map(universities.map((u) => [u.id, u]));
+  const title = `${universities.map((u) => u.name).join(' vs ')} — сравнение университетов`;
+  const places = ranking
+    .map((id, i) => `${i + 1}. ${byId.get(id)?.name} (${byId.get(id)?.totalScore})`)
+    .join(' · ');
+  return {
+    title,
+    description: `Победитель: ${byId.get(battle.result.overallWinner)?.name}. ${places}`,
+  };
+};
+
+/**
+ * Серверная загрузка данных
+ */
+export const handler: Handlers<PageData> = {
+  async GET(req, ctx) {
+    const { id } = ctx.params;
+    const pageUrl = new URL(req.url).href;
+
+    if (!uuidRegex.test(id)) {
+      return ctx.render({ id, battle: null, pageUrl, error: 'Неверная ссылка на сравнение' });
+    }
+
+    try {
+      const battle = await getBattle(id);
+      if (!battle) {
+        return ctx.render({ id, battle: null, pageUrl, error: 'Сравнение не найдено' });
+      }
+      return ctx.render({ id, battle, pageUrl });
+    } catch (err) {
+      logger.error('Failed to load battle page', { id, error: err });
+      return ctx.render({ id, battle: null, pageUrl, error: 'Не удалось загрузить сравнение' });
+    }
+  },
+
+  /**
+   * Пересчитать устаревшее сравнение (форма на странице) и вернуться к нему
+   */
+  async POST(req, ctx) {
+    const { id } = ctx.params;
+    const url = new URL(req.url);
+
+    if (!uuidRegex.test(id)) {
+      return ctx.render({ id, battle: null, pageUrl: url.href, error: 'Неверная ссылка на сравнение' });
+    }
+
+    try {
+      await recomputeBattle(id);
+      return new Response(null, { status: 303, headers: { Location: `/battle/${id}` } });
+    } catch (err) {
+      const recomputeError = err instanceof BattleError && err.code === 'NOT_STALE'
+        ? 'Профили не менялись — сравнение актуально'
+        : 'Не удалось пересчитать сравнение, попробуйте позже';
+      if (!(err instanceof BattleError)) {
+        logger.error('Battle page recompute failed', { id, error: err });
+      }
+
+      const battle = await getBattle(id).catch(() => null);
+      return ctx.render({
+        id,
+        battle,
+        pageUrl: url.href,
+        error: battle ? undefined : 'Сравнение не найдено',
+        recomputeError,
+      });
+    }
+  },
+};
+
+/**
+ * Страница сохранённого сравнения
+ * GET /battle/:id
+ */
+export default function BattlePage({ data }: PageProps<PageData>) {
+  const { id, battle, pageUrl, error, recomputeError } = data;
+  const share = battle ? buildShareText(battle) : null;
+  const changedNames = battle
+    ? battle.result.universities
+      .filter((u) => battle.changedUniversityIds.includes(u.id))
+      .map((u) => u.name)
+    : [];
+
+  return (
+    <>
+      <Head>
+        <title>{share ? `${share.title} | Цифровой университет` : 'Сравнение | Цифровой университет'}</title>
+        {share && (
+          <>
+            <meta name="description" content={share.description} />
+            <meta property="og:title" content={share.title} />
+            <meta property="og:description" content={share.description} />
+            <meta property="og:url" content={pageUrl} />
+            <meta name="twitter:card" content="summary" />
+            <meta name="twitter:title" content={share.title} />
+            <meta name="twitter:description" content={share.description} />
+            <link rel="canonical" href={pageUrl} />
+          </>
+        )}
+      </Head>
+
+      <div class="min-h-screen bg-dark-900">
+        {/* Header */}
+        <header class="bg-dark-800 border-b border-dark-600 sticky top-0 z-40">
+          <div class="max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+            <a
+              href="/"
+              class="flex items-center gap-2 text-gray-400 hover:text-cyber-400 transition-colors"
+            >
+              <span>⚔️</span>
+              <span>Новое сравнение</span>
+            </a>
+
+            <a href="/" class="flex items-center gap-2">
+              <span class="text-xl">🎓</span>
+              <span class="font-semibold text-white hidden sm:inline">Цифровой университет</span>
+            </a>
+          </div>
+        </header>
+
+        <main class="max-w-5xl mx-auto px-4 py-8">
+          {error || !battle ? (
+            <div class="bg-dark-800 rounded-xl border border-dark-600 p-12 text-center">
+              <span class="text-4xl">⚔️</span>
+              <h1 class="text-2xl font-bold text-white mt-4 mb-2">{error}</h1>
+              <a
+                href="/"
+                class="inline-block mt-4 px-6 py-3 bg-cyber-500 text-dark-900 font-medium rounded-lg hover:bg-cyber-400 transition-colors"
+              >
+                На главную
+              </a>
+            </div>
+          ) : (
+            <div class="space-y-6">
+              <div class="text-center">
+                <h1 class="text-2xl md:text-3xl font-bold text-white">⚔️ {share!.title}</h1>
+                <p class="text-sm text-gray-500 mt-2">
+                  Посчитано {new Date(battle.updatedAt).toLocaleDateString('ru-RU')}
+                </p>
+              </div>
+
+              {/* Профили изменились после расчёта */}
+              {battle.isStale && (
+                <form
+                  method="POST"
+                  action={`/battle/${id}`}
+                  class="flex flex-col md:flex-row items-center justify-between gap-4 p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl"
+                >
+                  <p class="text-amber-300 text-sm">
+                    ⚠️ С момента сравнения обновились профили: {changedNames.join(', ') || 'университет удалён'}
+                  </p>
+                  <button
+                    type="submit"
+                    class="px-4 py-2 bg-amber-500 text-dark-900 font-medium rounded-lg hover:bg-amber-400 transition-colors"
+                  >
+                    🔄 Пересчитать
+                  </button>
+                </form>
+              )}
+              {recomputeError && (
+                <p class="text-center text-sm text-red-400">{recomputeError}</p>
+              )}
+
+              <div class="bg-white rounded-2xl p-6">
+                <BattleResults result={battle.result} />
+              </div>
+            </div>
+          )}
+        </main>
+
+        {/* Footer */}
+        <footer class="border-t border-dark-700 mt-8">
+          <div class="max-w-5xl mx-auto px-4 py-6 text-center text-gray-500 text-sm">
+            <p>© 2024 Цифровой университет. Данные обновляются автоматически.</p>
+          </div>
+        </footer>
+      </div>
+    </>
+  );
+}
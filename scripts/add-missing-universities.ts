@@ -7,6 +7,7 @@ import 'https://deno.land/std@0.208.0/dotenv/load.ts';
 
 import { transaction } from '../src/config/database.ts';
 import { logger } from '../src/utils/logger.ts';
+import { buildProvenance } from '../src/services/provenance.service.ts';
 import type { PoolClient } from 'postgres';
 import type { University, Program, Ranking, Scholarship, Contacts, Admissions, TuitionGeneral } from '../src/types/university.ts';
 
@@ -306,10 +307,12 @@ const addUniversity = async (
     },
   } as University;
 
+  const provenance = buildProvenance(fullProfile, 'seed', { sourceUrl: baseData.website_url });
+
   await client.queryObject(
-    `INSERT INTO university_profiles (university_id, profile_json, language, version)
-     VALUES ($1, $2, 'ru', 1)`,
-    [universityId, JSON.stringify(fullProfile)]
+    `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+     VALUES ($1, $2, $3, 'ru', 1)`,
+    [universityId, JSON.stringify(fullProfile), JSON.stringify(provenance)]
   );
 
   // Создать источник
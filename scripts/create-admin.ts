@@ -0,0 +1,67 @@
+#!/usr/bin/env -S deno run -A
+/**
+ * Создание учётной записи администратора
+ * Запуск: deno task admin:create --username=alice [--name="Alice"] [--email=a@x.kz] [--permissions=read,write]
+ * Пароль берётся из ADMIN_PASSWORD или запрашивается в терминале.
+ */
+
+import '$std/dotenv/load.ts';
+import { initDatabase, closePool } from '../src/config/database.ts';
+import { AdminAccountError, createAdminAccount } from '../src/services/admin-auth.service.ts';
+import type { AdminPermission } from '../src/config/admin.ts';
+import { logger } from '../src/utils/logger.ts';
+
+/**
+ * Аргументы вида --key=value
+ */
+const parseArgs = (args: string[]): Record<string, string> =>
+  Object.fromEntries(
+    args
+      .filter((arg) => arg.startsWith('--') && arg.includes('='))
+      .map((arg) => {
+        const [key, ...rest] = arg.slice(2).split('=');
+        return [key, rest.join('=')];
+      })
+  );
+
+const main = async () => {
+  const args = parseArgs(Deno.args);
+
+  if (!args.username) {
+    console.error('Usage: deno task admin:create --username=<login> [--name=...] [--email=...] [--permissions=read,write]');
+    Deno.exit(1);
+  }
+
+  const password = Deno.env.get('ADMIN_PASSWORD') ?? prompt('Password:') ?? '';
+
+  try {
+    await initDatabase();
+
+    const account = await createAdminAccount({
+      username: args.username,
+      password,
+      name: args.name,
+      email: args.email,
+      permissions: args.permissions
+        ? args.permissions.split(',').map((p) => p.trim() as AdminPermission)
+        : undefined,
+    });
+
+    logger.info('=== Admin account created ===', {
+      id: account.id,
+      username: account.username,
+      permissions: account.permissions,
+    });
+  } catch (err) {
+    if (err instanceof AdminAccountError) {
+      console.error(err.message);
+    } else {
+      logger.error('Failed to create admin account', err);
+    }
+    Deno.exit(1);
+  } finally {
+    await closePool();
+  }
+};
+
+await main();
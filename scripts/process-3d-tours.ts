@@ -11,6 +11,7 @@
  */
 
 import { getBatchProcessorService } from '../src/services/tour-scanner/batch-processor.service.ts';
+import { checkLlmHealth, getLlmProvider } from '../src/utils/llm/index.ts';
 
 /**
  * Парсинг аргументов командной строки
@@ -65,7 +66,7 @@ const showHelp = () => {
 
 Требования:
   - DATABASE_URL в переменных окружения
-  - Ollama запущена на localhost:11434 (для AI режима)
+  - LLM-сервер для задачи parsing (LLM_PARSING_* / LLM_* / OLLAMA_URL) — для AI режима
 `);
 };
 
@@ -96,18 +97,13 @@ const main = async () => {
 
   console.log('✅ DATABASE_URL установлен');
 
-  // Проверить Ollama (если используется AI)
+  // Проверить LLM (если используется AI)
   if (options.useAI) {
-    try {
-      const response = await fetch('http://localhost:11434/api/tags');
-      if (response.ok) {
-        console.log('✅ Ollama доступна');
-      } else {
-        console.log('⚠️  Ollama недоступна, AI анализ будет пропущен');
-        options.useAI = false;
-      }
-    } catch {
-      console.log('⚠️  Ollama недоступна, AI анализ будет пропущен');
+    const llm = getLlmProvider('parsing');
+    if (await checkLlmHealth('parsing')) {
+      console.log(`✅ LLM доступна (${llm.name}: ${llm.model})`);
+    } else {
+      console.log(`⚠️  LLM недоступна (${llm.baseUrl}), AI анализ будет пропущен`);
       options.useAI = false;
     }
   }
@@ -8,6 +8,8 @@ import 'https://deno.land/std@0.208.0/dotenv/load.ts';
 
 import { transaction } from '../src/config/database.ts';
 import { fetchAndHashWebsite, markdownToUniversityProfile } from '../src/services/parser.service.ts';
+import { buildLlmProvenance, buildProvenance } from '../src/services/provenance.service.ts';
+import { getLlmModel } from '../src/utils/llm/index.ts';
 import { htmlToMarkdown } from '../src/utils/markdown.converter.ts';
 import { logger } from '../src/utils/logger.ts';
 import type { PoolClient } from 'postgres';
@@ -187,12 +189,14 @@ const loadUniversity = async (
       }
 
       // Создать профиль
+      const provenance = buildLlmProvenance(profile, uni.website, getLlmModel('parsing'));
       await client.queryObject(
-        `INSERT INTO university_profiles (university_id, profile_json, language, version)
-         VALUES ($1, $2, 'ru', 1)
+        `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+         VALUES ($1, $2, $3, 'ru', 1)
          ON CONFLICT (university_id, language, version) DO UPDATE SET
-           profile_json = EXCLUDED.profile_json`,
-        [universityId, JSON.stringify({ ...profile, id: universityId })]
+           profile_json = EXCLUDED.profile_json,
+           field_provenance = EXCLUDED.field_provenance`,
+        [universityId, JSON.stringify({ ...profile, id: universityId }), JSON.stringify(provenance)]
       );
 
       // Создать источник
@@ -283,12 +287,14 @@ const createFallbackUniversity = async (
         },
       };
 
+      const provenance = buildProvenance(fallbackProfile, 'seed', { sourceUrl: uni.website });
       await client.queryObject(
-        `INSERT INTO university_profiles (university_id, profile_json, language, version)
-         VALUES ($1, $2, 'ru', 1)
+        `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+         VALUES ($1, $2, $3, 'ru', 1)
          ON CONFLICT (university_id, language, version) DO UPDATE SET
-           profile_json = EXCLUDED.profile_json`,
-        [universityId, JSON.stringify(fallbackProfile)]
+           profile_json = EXCLUDED.profile_json,
+           field_provenance = EXCLUDED.field_provenance`,
+        [universityId, JSON.stringify(fallbackProfile), JSON.stringify(provenance)]
       );
     });
 
@@ -8,8 +8,9 @@ import 'https://deno.land/std@0.208.0/dotenv/load.ts';
 
 import { transaction } from '../src/config/database.ts';
 import { logger } from '../src/utils/logger.ts';
+import { buildProvenance } from '../src/services/provenance.service.ts';
 import type { PoolClient } from 'postgres';
-import type { University, Program, Ranking, Scholarship, Contacts, Admissions, TuitionGeneral } from '../src/types/university.ts';
+import type { University, Program, Ranking, Scholarship, Contacts, Admissions, TuitionGeneral, ProfileProvenance } from '../src/types/university.ts';
 
 /**
  * Полные данные топ-университетов Казахстана (актуальные на 2025 год)
@@ -946,8 +947,8 @@ const updateUniversityProfile = async (
   logger.info(`Updating: ${universityName}`);
 
   // Получить текущий профиль
-  const currentProfile = await client.queryObject<{ profile_json: University }>(
-    `SELECT profile_json FROM university_profiles 
+  const currentProfile = await client.queryObject<{ profile_json: University; field_provenance: ProfileProvenance }>(
+    `SELECT profile_json, field_provenance FROM university_profiles 
      WHERE university_id = $1 AND language = 'ru' 
      ORDER BY version DESC LIMIT 1`,
     [universityId]
@@ -969,6 +970,12 @@ const updateUniversityProfile = async (
     },
   };
 
+  // Поля из скрипта получают происхождение 'seed', остальные сохраняют прежнее
+  const provenance: ProfileProvenance = {
+    ...(currentProfile.rows[0]?.field_provenance ?? {}),
+    ...buildProvenance(profileData, 'seed', { sourceUrl: websiteUrl }),
+  };
+
   // Обновить базовую таблицу universities
   await client.queryObject(
     `UPDATE universities SET
@@ -990,9 +997,9 @@ const updateUniversityProfile = async (
 
   // Создать новую версию профиля
   await client.queryObject(
-    `INSERT INTO university_profiles (university_id, profile_json, language, version)
-     VALUES ($1, $2, 'ru', $3)`,
-    [universityId, JSON.stringify(mergedProfile), newVersion]
+    `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+     VALUES ($1, $2, $3, 'ru', $4)`,
+    [universityId, JSON.stringify(mergedProfile), JSON.stringify(provenance), newVersion]
   );
 
   logger.info(`✅ Updated: ${universityName} (version ${newVersion})`);
@@ -0,0 +1,17 @@
+-- =============================================
+-- Цифровой университет - Миграция 008
+-- Происхождение (provenance) полей профиля
+-- Version: 008
+-- =============================================
+
+-- Карта "поле профиля → источник":
+-- { "<field>": { "method", "source_url", "model", "extracted_at", "confidence" } }
+ALTER TABLE university_profiles
+ADD COLUMN IF NOT EXISTS field_provenance JSONB NOT NULL DEFAULT '{}';
+
+-- Быстрый поиск профилей с ручными правками
+CREATE INDEX IF NOT EXISTS idx_profiles_field_provenance
+ON university_profiles USING GIN(field_provenance);
+
+COMMENT ON COLUMN university_profiles.field_provenance IS
+  'Происхождение полей profile_json: метод извлечения (llm, search, seed, manual), URL источника, модель LLM, время и уверенность';
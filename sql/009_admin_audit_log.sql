@@ -0,0 +1,57 @@
+-- =============================================
+-- Цифровой университет - Миграция 009
+-- Отдельная таблица журнала админ-действий
+-- Version: 009
+-- =============================================
+
+-- =============================================
+-- Таблица: admin_audit_log
+-- Действия администраторов (раньше хранились в update_logs)
+-- =============================================
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    admin_key_masked VARCHAR(50) NOT NULL,
+    admin_name VARCHAR(200),
+    action VARCHAR(50) NOT NULL,
+    resource_type VARCHAR(100) NOT NULL,
+    resource_id VARCHAR(200),
+    details JSONB,
+    success BOOLEAN NOT NULL DEFAULT true,
+    error_message TEXT,
+    ip_address VARCHAR(100),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Индексы для фильтрации журнала
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON admin_audit_log(action);
+CREATE INDEX IF NOT EXISTS idx_audit_log_admin ON admin_audit_log(admin_name);
+CREATE INDEX IF NOT EXISTS idx_audit_log_resource ON admin_audit_log(resource_type, resource_id);
+
+-- =============================================
+-- Перенос старых записей из update_logs
+-- =============================================
+INSERT INTO admin_audit_log (
+    admin_key_masked, admin_name, action, resource_type, resource_id,
+    details, success, ip_address, created_at
+)
+SELECT
+    COALESCE(entry->>'admin_key_masked', 'unknown'),
+    entry->>'admin_name',
+    COALESCE(entry->>'action', 'other'),
+    COALESCE(entry->>'resource_type', 'unknown'),
+    entry->>'resource_id',
+    entry->'details',
+    logs.status = 'success',
+    entry->>'ip',
+    logs.created_at
+FROM (
+    SELECT status, created_at, error_message::jsonb AS entry
+    FROM update_logs
+    WHERE error_message LIKE '{%"type":"admin_action"%'
+) logs;
+
+DELETE FROM update_logs WHERE error_message LIKE '{%"type":"admin_action"%';
+
+COMMENT ON TABLE admin_audit_log IS 'Журнал действий администраторов';
@@ -0,0 +1,37 @@
+-- =============================================
+-- Цифровой университет - Миграция 010
+-- Хранение сессий и сообщений чат-бота
+-- Version: 010
+-- =============================================
+
+-- =============================================
+-- Таблица: chat_sessions
+-- Сессии чата (продлеваются при каждом сообщении)
+-- =============================================
+CREATE TABLE IF NOT EXISTS chat_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id VARCHAR(200),
+    language VARCHAR(10) NOT NULL DEFAULT 'ru',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_expires_at ON chat_sessions(expires_at);
+
+-- =============================================
+-- Таблица: chat_messages
+-- Сообщения в сессиях чата
+-- =============================================
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id, created_at);
+
+COMMENT ON TABLE chat_sessions IS 'Сессии чат-бота; удаляются задачей очистки после expires_at';
+COMMENT ON TABLE chat_messages IS 'Сообщения чат-бота';
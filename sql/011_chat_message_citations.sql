@@ -0,0 +1,10 @@
+-- =============================================
+-- Цифровой университет - Миграция 011
+-- Источники (университеты) в ответах чат-бота
+-- Version: 011
+-- =============================================
+
+ALTER TABLE chat_messages
+    ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN chat_messages.citations IS 'Университеты из базы, на которые ссылается ответ ассистента: [{id, name}]';
@@ -0,0 +1,13 @@
+-- =============================================
+-- Цифровой университет - Миграция 012
+-- Ошибки последнего парсинга источника
+-- Version: 012
+-- =============================================
+
+ALTER TABLE university_sources
+    ADD COLUMN IF NOT EXISTS last_error TEXT,
+    ADD COLUMN IF NOT EXISTS last_error_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS last_validation_errors JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN university_sources.last_error IS 'Сообщение об ошибке последнего неудачного парсинга';
+COMMENT ON COLUMN university_sources.last_validation_errors IS 'Поля ответа LLM, не прошедшие проверку по схеме профиля: [{path, message, fatal, page?}]';
@@ -0,0 +1,26 @@
+-- =============================================
+-- Цифровой университет - Миграция 013
+-- Общее хранилище rate limiting (token bucket)
+-- Version: 013
+-- =============================================
+
+-- =============================================
+-- Таблица: rate_limit_buckets
+-- Корзины токенов по группе маршрутов и клиенту (RATE_LIMIT_STORE=postgres)
+-- =============================================
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    group_name VARCHAR(50) NOT NULL,
+    client_key VARCHAR(200) NOT NULL,
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    denied_count INTEGER NOT NULL DEFAULT 0,
+    last_denied_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (group_name, client_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_denied ON rate_limit_buckets(last_denied_at)
+    WHERE last_denied_at IS NOT NULL;
+
+COMMENT ON TABLE rate_limit_buckets IS 'Состояние token bucket: токены на момент updated_at, пополняются по политике группы';
+COMMENT ON COLUMN rate_limit_buckets.denied_count IS 'Сколько запросов отклонено с момента создания корзины';
@@ -0,0 +1,43 @@
+-- =============================================
+-- Цифровой университет - Миграция 014
+-- Учётные записи администраторов и серверные сессии
+-- Version: 014
+-- =============================================
+
+-- =============================================
+-- Таблица: admins
+-- Администраторы с паролем (хэш PBKDF2-SHA256)
+-- =============================================
+CREATE TABLE IF NOT EXISTS admins (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    username VARCHAR(100) NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    email VARCHAR(200),
+    permissions JSONB NOT NULL DEFAULT '["full_access"]'::jsonb,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_login_at TIMESTAMP WITH TIME ZONE
+);
+
+-- =============================================
+-- Таблица: admin_sessions
+-- Сессии входа; в cookie хранится токен, в БД — только его SHA-256
+-- =============================================
+CREATE TABLE IF NOT EXISTS admin_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    admin_id UUID NOT NULL REFERENCES admins(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    ip_address VARCHAR(100),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_admin ON admin_sessions(admin_id);
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_expires_at ON admin_sessions(expires_at);
+
+COMMENT ON TABLE admins IS 'Учётные записи админ-панели; API-ключи из окружения остаются для машинных клиентов';
+COMMENT ON COLUMN admins.password_hash IS 'pbkdf2-sha256$<итерации>$<соль base64>$<хэш base64>';
+COMMENT ON TABLE admin_sessions IS 'Сессии админ-панели (HttpOnly cookie admin_session)';
@@ -0,0 +1,30 @@
+-- =============================================
+-- Цифровой университет - Миграция 015
+-- API-ключи машинных клиентов с областями прав, сроком и ротацией
+-- Version: 015
+-- =============================================
+
+-- =============================================
+-- Таблица: admin_api_keys
+-- Сам ключ показывается один раз при создании, в БД — только его SHA-256
+-- =============================================
+CREATE TABLE IF NOT EXISTS admin_api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    key_prefix VARCHAR(20) NOT NULL,
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    permissions JSONB NOT NULL DEFAULT '["read"]'::jsonb,
+    created_by VARCHAR(200),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    rotated_from UUID REFERENCES admin_api_keys(id) ON DELETE SET NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    last_used_ip VARCHAR(100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_api_keys_created_at ON admin_api_keys(created_at DESC);
+
+COMMENT ON TABLE admin_api_keys IS 'API-ключи admin API для машинных клиентов (вместе с ключами из ADMIN_KEY*)';
+COMMENT ON COLUMN admin_api_keys.key_prefix IS 'Начало ключа для отображения в списке';
+COMMENT ON COLUMN admin_api_keys.rotated_from IS 'Ключ, взамен которого выпущен этот';
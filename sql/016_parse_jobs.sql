@@ -0,0 +1,46 @@
+-- =============================================
+-- Цифровой университет - Миграция 016
+-- Очередь заданий парсинга с повторами, backoff и приоритетами
+-- Version: 016
+-- =============================================
+
+-- =============================================
+-- Таблица: parse_jobs
+-- Задания воркера обновления; переживают перезапуск процесса
+-- =============================================
+CREATE TABLE IF NOT EXISTS parse_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    university_id UUID NOT NULL REFERENCES universities(id) ON DELETE CASCADE,
+    source_id UUID REFERENCES university_sources(id) ON DELETE CASCADE,
+    job_type VARCHAR(20) NOT NULL DEFAULT 'check'
+        CHECK (job_type IN ('check', 'reparse')),
+    options JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'cancelled')),
+    priority INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    locked_by VARCHAR(100),
+    last_error TEXT,
+    result JSONB,
+    requested_by VARCHAR(200),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Выборка следующего задания: приоритет, затем время запуска
+CREATE INDEX IF NOT EXISTS idx_parse_jobs_pending ON parse_jobs(priority DESC, next_run_at)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_parse_jobs_created_at ON parse_jobs(created_at DESC);
+
+-- Не больше одного незавершённого задания на университет
+CREATE UNIQUE INDEX IF NOT EXISTS idx_parse_jobs_active_university ON parse_jobs(university_id)
+    WHERE status IN ('pending', 'running');
+
+COMMENT ON TABLE parse_jobs IS 'Очередь заданий парсинга: check — проверка изменений, reparse — полный перепарсинг';
+COMMENT ON COLUMN parse_jobs.priority IS 'Больше — раньше; ручной запуск из админки выше планового';
+COMMENT ON COLUMN parse_jobs.next_run_at IS 'Не раньше этого времени (экспоненциальный backoff после ошибок)';
+COMMENT ON COLUMN parse_jobs.locked_by IS 'Воркер, выполняющий задание; зависшие задания возвращаются в очередь';
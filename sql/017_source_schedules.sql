@@ -0,0 +1,33 @@
+-- =============================================
+-- Цифровой университет - Миграция 017
+-- Расписание проверки для каждого источника: cron или адаптивный интервал
+-- Version: 017
+-- =============================================
+
+ALTER TABLE university_sources
+    ADD COLUMN IF NOT EXISTS refresh_mode VARCHAR(20) NOT NULL DEFAULT 'adaptive'
+        CHECK (refresh_mode IN ('fixed', 'adaptive')),
+    ADD COLUMN IF NOT EXISTS refresh_cron VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS refresh_interval_minutes INTEGER NOT NULL DEFAULT 1440,
+    ADD COLUMN IF NOT EXISTS refresh_min_minutes INTEGER NOT NULL DEFAULT 60,
+    ADD COLUMN IF NOT EXISTS refresh_max_minutes INTEGER NOT NULL DEFAULT 10080,
+    ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE university_sources
+    ADD CONSTRAINT chk_sources_refresh_bounds
+        CHECK (refresh_min_minutes > 0
+            AND refresh_min_minutes <= refresh_interval_minutes
+            AND refresh_interval_minutes <= refresh_max_minutes),
+    ADD CONSTRAINT chk_sources_refresh_cron
+        CHECK (refresh_mode <> 'fixed' OR refresh_cron IS NOT NULL);
+
+-- Источники, которым пора на проверку
+CREATE INDEX IF NOT EXISTS idx_sources_next_check_at ON university_sources(next_check_at)
+    WHERE is_active = true;
+
+-- История проверок источника для адаптивного интервала
+CREATE INDEX IF NOT EXISTS idx_logs_source_created_at ON update_logs(source_id, created_at DESC);
+
+COMMENT ON COLUMN university_sources.refresh_mode IS 'fixed — по расписанию refresh_cron (UTC), adaptive — интервал подстраивается под частоту изменений';
+COMMENT ON COLUMN university_sources.refresh_interval_minutes IS 'Текущий интервал адаптивного режима, в пределах refresh_min_minutes..refresh_max_minutes';
+COMMENT ON COLUMN university_sources.next_check_at IS 'Когда поставить следующую плановую проверку (NULL — при ближайшем обходе)';
@@ -0,0 +1,37 @@
+-- =============================================
+-- Цифровой университет - Миграция 018
+-- Условные запросы (ETag/Last-Modified) и история HTTP-статусов источников
+-- Version: 018
+-- =============================================
+
+ALTER TABLE university_sources
+    ADD COLUMN IF NOT EXISTS http_etag VARCHAR(500),
+    ADD COLUMN IF NOT EXISTS http_last_modified VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS last_http_status INTEGER,
+    ADD COLUMN IF NOT EXISTS last_http_status_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN university_sources.http_etag IS 'ETag главной страницы для If-None-Match';
+COMMENT ON COLUMN university_sources.http_last_modified IS 'Last-Modified главной страницы для If-Modified-Since';
+COMMENT ON COLUMN university_sources.last_http_status IS 'HTTP-статус последней загрузки (NULL — сетевая ошибка или ещё не загружался)';
+
+-- =============================================
+-- Таблица: source_http_log
+-- Результаты загрузки главной страницы источника
+-- =============================================
+CREATE TABLE IF NOT EXISTS source_http_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source_id UUID NOT NULL REFERENCES university_sources(id) ON DELETE CASCADE,
+    url VARCHAR(2000) NOT NULL,
+    status_code INTEGER,
+    error_message TEXT,
+    response_time_ms INTEGER,
+    retry_after TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_http_log_source ON source_http_log(source_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_source_http_log_created_at ON source_http_log(created_at DESC);
+
+COMMENT ON TABLE source_http_log IS 'История HTTP-статусов сайтов университетов (последние записи на источник)';
+COMMENT ON COLUMN source_http_log.status_code IS 'NULL — таймаут или сетевая ошибка (см. error_message)';
+COMMENT ON COLUMN source_http_log.retry_after IS 'Время из заголовка Retry-After (429/503)';
@@ -0,0 +1,44 @@
+-- =============================================
+-- Цифровой университет - Миграция 019
+-- Проверка изменений парсера администратором перед публикацией
+-- Version: 019
+-- =============================================
+
+ALTER TABLE university_sources
+    ADD COLUMN IF NOT EXISTS publish_mode VARCHAR(10) NOT NULL DEFAULT 'auto'
+        CHECK (publish_mode IN ('auto', 'review'));
+
+COMMENT ON COLUMN university_sources.publish_mode IS 'auto — профиль публикуется сразу, review — изменения ждут проверки в profile_changes';
+
+-- =============================================
+-- Таблица: profile_changes
+-- Профили, полученные воркером и ожидающие проверки
+-- =============================================
+CREATE TABLE IF NOT EXISTS profile_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    university_id UUID NOT NULL REFERENCES universities(id) ON DELETE CASCADE,
+    source_id UUID REFERENCES university_sources(id) ON DELETE SET NULL,
+    base_version INTEGER NOT NULL,
+    profile_json JSONB NOT NULL,
+    field_provenance JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'partially_approved', 'rejected', 'superseded')),
+    accepted_fields JSONB,
+    published_version INTEGER,
+    reviewed_by VARCHAR(200),
+    review_comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_profile_changes_status ON profile_changes(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_profile_changes_university ON profile_changes(university_id, created_at DESC);
+
+-- Не больше одного ожидающего изменения на университет (новое заменяет старое)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profile_changes_pending_university ON profile_changes(university_id)
+    WHERE status = 'pending';
+
+COMMENT ON TABLE profile_changes IS 'Изменения профиля от воркера, ожидающие проверки (publish_mode = review)';
+COMMENT ON COLUMN profile_changes.base_version IS 'Версия профиля, с которой сравнивался результат парсинга';
+COMMENT ON COLUMN profile_changes.accepted_fields IS 'Принятые пути полей при частичном принятии';
+COMMENT ON COLUMN profile_changes.published_version IS 'Версия university_profiles, созданная при принятии';
@@ -0,0 +1,30 @@
+-- =============================================
+-- Цифровой университет - Миграция 020
+-- Сохранённые сравнения университетов (Battle Mode) с постоянными ссылками
+-- Version: 020
+-- =============================================
+
+-- =============================================
+-- Таблица: battles
+-- Результат сравнения и версии профилей, по которым он посчитан
+-- =============================================
+CREATE TABLE IF NOT EXISTS battles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    university_ids UUID[] NOT NULL,
+    profile_versions INTEGER[] NOT NULL,
+    language VARCHAR(5) NOT NULL DEFAULT 'ru',
+    weights JSONB NOT NULL,
+    result JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (cardinality(university_ids) BETWEEN 2 AND 5),
+    CHECK (cardinality(profile_versions) = cardinality(university_ids))
+);
+
+-- Повторное сравнение того же набора с теми же версиями возвращает существующую запись
+CREATE INDEX IF NOT EXISTS idx_battles_lookup ON battles(university_ids, language);
+
+COMMENT ON TABLE battles IS 'Сохранённые сравнения университетов, открываются по ссылке /battle/{id}';
+COMMENT ON COLUMN battles.university_ids IS 'Университеты в порядке колонок результата';
+COMMENT ON COLUMN battles.profile_versions IS 'Версии university_profiles на момент расчёта (в том же порядке)';
+COMMENT ON COLUMN battles.result IS 'BattleResult, как его вернул /api/universities/compare';
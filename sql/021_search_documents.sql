@@ -0,0 +1,172 @@
+-- =============================================
+-- Цифровой университет - Миграция 021
+-- Полнотекстовый поиск по содержимому профилей (ru, en, kk)
+-- Version: 021
+-- =============================================
+
+-- =============================================
+-- Таблица: university_search_documents
+-- Поисковый документ университета, поддерживается триггерами
+-- =============================================
+-- names       — все варианты названия (name, name_en, переводы), вес A во всех языках
+-- content_*   — описание на языке + программы, специализации и направления
+--               исследований (они обычно не переведены и входят во все языки), вес B
+-- Для казахского в PostgreSQL нет стеммера, поэтому используется конфигурация simple.
+CREATE TABLE IF NOT EXISTS university_search_documents (
+    university_id UUID PRIMARY KEY REFERENCES universities(id) ON DELETE CASCADE,
+    names TEXT NOT NULL DEFAULT '',
+    content_ru TEXT NOT NULL DEFAULT '',
+    content_en TEXT NOT NULL DEFAULT '',
+    content_kk TEXT NOT NULL DEFAULT '',
+    document_ru TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('russian'::regconfig, names), 'A') ||
+        setweight(to_tsvector('russian'::regconfig, content_ru), 'B')
+    ) STORED,
+    document_en TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('english'::regconfig, names), 'A') ||
+        setweight(to_tsvector('english'::regconfig, content_en), 'B')
+    ) STORED,
+    document_kk TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple'::regconfig, names), 'A') ||
+        setweight(to_tsvector('simple'::regconfig, content_kk), 'B')
+    ) STORED,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_ru ON university_search_documents USING GIN (document_ru);
+CREATE INDEX IF NOT EXISTS idx_search_documents_en ON university_search_documents USING GIN (document_en);
+CREATE INDEX IF NOT EXISTS idx_search_documents_kk ON university_search_documents USING GIN (document_kk);
+
+-- =============================================
+-- Пересборка документа по текущим данным университета
+-- =============================================
+CREATE OR REPLACE FUNCTION refresh_university_search_document(p_university_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  u RECORD;
+  profile JSONB;
+  names_text TEXT;
+  shared_text TEXT;
+  programs_text TEXT;
+  specializations_text TEXT;
+BEGIN
+  SELECT id, name, name_en, translations, specializations
+  INTO u
+  FROM universities
+  WHERE id = p_university_id;
+
+  IF NOT FOUND THEN
+    DELETE FROM university_search_documents WHERE university_id = p_university_id;
+    RETURN;
+  END IF;
+
+  SELECT profile_json INTO profile
+  FROM university_profiles
+  WHERE university_id = p_university_id
+  ORDER BY version DESC, created_at DESC
+  LIMIT 1;
+
+  profile := COALESCE(profile, '{}'::jsonb);
+
+  SELECT string_agg(concat_ws(' ', p ->> 'name', p ->> 'description', p ->> 'career_outcomes'), ' ')
+  INTO programs_text
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(profile -> 'programs') = 'array' THEN profile -> 'programs' ELSE '[]'::jsonb END
+  ) AS p
+  WHERE jsonb_typeof(p) = 'object';
+
+  SELECT string_agg(s, ' ')
+  INTO specializations_text
+  FROM jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(u.specializations) = 'array' THEN u.specializations ELSE '[]'::jsonb END
+  ) AS s;
+
+  names_text := concat_ws(' ',
+    u.name,
+    u.name_en,
+    u.translations -> 'ru' ->> 'name',
+    u.translations -> 'en' ->> 'name',
+    u.translations -> 'kk' ->> 'name',
+    profile -> 'translations' -> 'ru' ->> 'name',
+    profile -> 'translations' -> 'en' ->> 'name',
+    profile -> 'translations' -> 'kk' ->> 'name'
+  );
+
+  shared_text := concat_ws(' ',
+    programs_text,
+    specializations_text,
+    COALESCE(profile ->> 'research_focus', profile -> 'other' ->> 'research_focus'),
+    COALESCE(profile ->> 'special_programs', profile -> 'other' ->> 'special_programs')
+  );
+
+  INSERT INTO university_search_documents (university_id, names, content_ru, content_en, content_kk, updated_at)
+  VALUES (
+    p_university_id,
+    names_text,
+    concat_ws(' ',
+      COALESCE(profile -> 'translations' -> 'ru' ->> 'description',
+               u.translations -> 'ru' ->> 'description',
+               profile ->> 'description'),
+      profile ->> 'mission',
+      shared_text),
+    concat_ws(' ',
+      COALESCE(profile -> 'translations' -> 'en' ->> 'description',
+               u.translations -> 'en' ->> 'description'),
+      profile -> 'translations' -> 'en' ->> 'mission',
+      shared_text),
+    concat_ws(' ',
+      COALESCE(profile -> 'translations' -> 'kk' ->> 'description',
+               u.translations -> 'kk' ->> 'description'),
+      profile -> 'translations' -> 'kk' ->> 'mission',
+      shared_text),
+    NOW()
+  )
+  ON CONFLICT (university_id) DO UPDATE SET
+    names = EXCLUDED.names,
+    content_ru = EXCLUDED.content_ru,
+    content_en = EXCLUDED.content_en,
+    content_kk = EXCLUDED.content_kk,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- Триггеры: документ обновляется вместе с университетом и профилем
+-- =============================================
+CREATE OR REPLACE FUNCTION trigger_university_search_document()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_university_search_document(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_profile_search_document()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_university_search_document(OLD.university_id);
+  ELSE
+    PERFORM refresh_university_search_document(NEW.university_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_universities_search_document ON universities;
+CREATE TRIGGER trigger_universities_search_document
+    AFTER INSERT OR UPDATE OF name, name_en, translations, specializations ON universities
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_university_search_document();
+
+DROP TRIGGER IF EXISTS trigger_profiles_search_document ON university_profiles;
+CREATE TRIGGER trigger_profiles_search_document
+    AFTER INSERT OR UPDATE OF profile_json OR DELETE ON university_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_profile_search_document();
+
+-- Документы для уже существующих университетов
+SELECT refresh_university_search_document(id) FROM universities;
+
+COMMENT ON TABLE university_search_documents IS 'Поисковые документы университетов (ru/en/kk), обновляются триггерами';
+COMMENT ON FUNCTION refresh_university_search_document IS 'Пересобрать поисковый документ университета по последней версии профиля';
@@ -0,0 +1,32 @@
+-- =============================================
+-- Цифровой университет - Миграция 022
+-- Курсы валют для пересчёта стоимости обучения
+-- Version: 022
+-- =============================================
+
+-- =============================================
+-- Таблица: exchange_rates
+-- Курс задаётся администратором как число единиц валюты за 1 USD
+-- =============================================
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    currency CHAR(3) PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+    units_per_usd NUMERIC(20, 8) NOT NULL CHECK (units_per_usd > 0),
+    updated_by VARCHAR(255),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (currency <> 'USD' OR units_per_usd = 1)
+);
+
+-- Начальные курсы; актуальные значения задаются в админке
+INSERT INTO exchange_rates (currency, units_per_usd) VALUES
+    ('USD', 1),
+    ('EUR', 0.92),
+    ('KZT', 500),
+    ('RUB', 90)
+ON CONFLICT (currency) DO NOTHING;
+
+COMMENT ON TABLE exchange_rates IS 'Курсы валют к USD для колонок min_tuition/max_tuition и показа стоимости';
+COMMENT ON COLUMN exchange_rates.currency IS 'Код ISO 4217';
+COMMENT ON COLUMN exchange_rates.units_per_usd IS 'Сколько единиц валюты стоит 1 USD';
+
+COMMENT ON COLUMN universities.min_tuition IS 'Минимальная стоимость обучения, USD/год по курсам exchange_rates';
+COMMENT ON COLUMN universities.max_tuition IS 'Максимальная стоимость обучения, USD/год по курсам exchange_rates';
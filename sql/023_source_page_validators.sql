@@ -0,0 +1,11 @@
+-- =============================================
+-- Цифровой университет - Миграция 023
+-- Валидаторы внутренних страниц источника для условных запросов
+-- Version: 023
+-- =============================================
+
+ALTER TABLE university_sources
+    ADD COLUMN IF NOT EXISTS page_validators JSONB;
+
+COMMENT ON COLUMN university_sources.page_validators IS
+    'ETag/Last-Modified внутренних страниц последнего обхода: [{url, etag, lastModified}]; NULL — обход ещё не сохранялся';
@@ -2,7 +2,7 @@
  * Компонент результатов сравнения
  */
 
-import type { BattleResult } from '../../services/university-battle.service.ts';
+import type { BattleResult, BattleUniversity } from '../../services/university-battle.service.ts';
 import { ComparisonBar } from './ComparisonBar.tsx';
 import { BattleStats } from './BattleStats.tsx';
 
@@ -10,36 +10,30 @@ interface BattleResultsProps {
   result: BattleResult;
 }
 
+/**
+ * Колонки сетки карточек по числу университетов
+ */
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+  5: 'md:grid-cols-5',
+};
+
 /**
  * Результаты Battle Mode
  */
 export const BattleResults = ({ result }: BattleResultsProps) => {
-  const { universityA, universityB, criteria } = result;
+  const { universities, criteria } = result;
+  const byRank = [...universities].sort((a, b) => a.rank - b.rank);
 
   return (
     <div class="space-y-6">
-      {/* Header с университетами */}
-      <div class="grid md:grid-cols-3 gap-4">
-        {/* University A Card */}
-        <UniversityCard
-          university={universityA}
-          isWinner={result.overallWinner === 'A'}
-          side="left"
-        />
-
-        {/* VS */}
-        <div class="flex items-center justify-center">
-          <div class="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-3 rounded-full font-bold text-xl shadow-lg">
-            VS
-          </div>
-        </div>
-
-        {/* University B Card */}
-        <UniversityCard
-          university={universityB}
-          isWinner={result.overallWinner === 'B'}
-          side="right"
-        />
+      {/* Карточки университетов в порядке итогового места */}
+      <div class={`grid gap-4 ${GRID_COLUMNS[universities.length] ?? 'md:grid-cols-3'}`}>
+        {byRank.map((university) => (
+          <UniversityCard key={university.id} university={university} />
+        ))}
       </div>
 
       {/* Criteria Comparison */}
@@ -52,8 +46,7 @@ export const BattleResults = ({ result }: BattleResultsProps) => {
             <ComparisonBar
               key={criterion.name}
               criterion={criterion}
-              nameA={universityA.name}
-              nameB={universityB.name}
+              universities={universities}
             />
           ))}
         </div>
@@ -65,41 +58,37 @@ export const BattleResults = ({ result }: BattleResultsProps) => {
   );
 };
 
+/**
+ * Значок места
+ */
+const RANK_BADGES: Record<number, string> = { 1: '🏆', 2: '🥈', 3: '🥉' };
+
 interface UniversityCardProps {
-  university: {
-    id: string;
-    name: string;
-    country: string;
-    city: string;
-    totalScore: number;
-  };
-  isWinner: boolean;
-  side: 'left' | 'right';
+  university: BattleUniversity;
 }
 
 /**
  * Карточка университета в результатах
  */
-const UniversityCard = ({ university, isWinner, side }: UniversityCardProps) => {
+const UniversityCard = ({ university }: UniversityCardProps) => {
+  const isWinner = university.rank === 1;
   const borderColor = isWinner ? 'border-yellow-400 bg-yellow-50' : 'border-gray-200 bg-white';
-  const alignment = side === 'left' ? 'text-left' : 'text-right';
 
   return (
     <div class={`rounded-xl p-4 border-2 ${borderColor} transition-all duration-300`}>
-      {isWinner && (
-        <div class={`mb-2 ${alignment}`}>
-          <span class="text-2xl">🏆</span>
-        </div>
-      )}
-      <h4 class={`font-bold text-lg text-gray-900 ${alignment}`}>
+      <div class="mb-2 flex items-center justify-between">
+        <span class="text-sm font-semibold text-gray-500">#{university.rank}</span>
+        {RANK_BADGES[university.rank] && <span class="text-2xl">{RANK_BADGES[university.rank]}</span>}
+      </div>
+      <h4 class="font-bold text-lg text-gray-900">
         {university.name}
       </h4>
-      <p class={`text-sm text-gray-500 mt-1 ${alignment}`}>
+      <p class="text-sm text-gray-500 mt-1">
         📍 {university.country}, {university.city}
       </p>
-      <div class={`mt-3 ${alignment}`}>
+      <div class="mt-3">
         <span class="inline-block px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm font-medium">
-          Общий балл: {university.totalScore}
+          Балл: {university.totalScore} / 10
         </span>
       </div>
     </div>
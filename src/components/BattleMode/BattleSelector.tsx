@@ -4,6 +4,8 @@
 
 import { useSignal } from '@preact/signals';
 import { useCallback } from 'preact/hooks';
+import { type BattleWeights, DEFAULT_BATTLE_WEIGHTS } from '../../services/battle-scoring.service.ts';
+import { WeightSliders } from './WeightSliders.tsx';
 
 interface University {
   id: string;
@@ -11,122 +13,141 @@ interface University {
   country: string;
 }
 
+/**
+ * Слот выбора одного университета
+ */
+interface Slot {
+  selected: University | null;
+  search: string;
+  results: University[];
+  loading: boolean;
+}
+
 interface BattleSelectorProps {
-  onCompare: (id1: string, id2: string) => void;
+  onCompare: (ids: string[], weights: BattleWeights) => void;
   loading?: boolean;
 }
 
+/**
+ * Сколько университетов можно сравнить за раз
+ */
+const MIN_SLOTS = 2;
+const MAX_SLOTS = 5;
+
+const SLOT_COLORS: Array<UniversitySearchInputProps['color']> = ['blue', 'red', 'green', 'amber', 'purple'];
+
+const emptySlot = (): Slot => ({ selected: null, search: '', results: [], loading: false });
+
 /**
  * Селектор университетов для Battle Mode
  */
 export const BattleSelector = ({ onCompare, loading = false }: BattleSelectorProps) => {
-  const universityA = useSignal<University | null>(null);
-  const universityB = useSignal<University | null>(null);
-  const searchA = useSignal('');
-  const searchB = useSignal('');
-  const resultsA = useSignal<University[]>([]);
-  const resultsB = useSignal<University[]>([]);
-  const loadingA = useSignal(false);
-  const loadingB = useSignal(false);
+  const slots = useSignal<Slot[]>([emptySlot(), emptySlot()]);
+  const weights = useSignal<BattleWeights>({ ...DEFAULT_BATTLE_WEIGHTS });
+
+  const updateSlot = (index: number, patch: Partial<Slot>) => {
+    slots.value = slots.value.map((slot, i) => (i === index ? { ...slot, ...patch } : slot));
+  };
 
   // Поиск университетов
-  const searchUniversities = useCallback(async (query: string, side: 'A' | 'B') => {
+  const searchUniversities = useCallback(async (query: string, index: number) => {
     if (query.length < 2) {
-      if (side === 'A') resultsA.value = [];
-      else resultsB.value = [];
+      updateSlot(index, { results: [] });
       return;
     }
 
-    const loadingSignal = side === 'A' ? loadingA : loadingB;
-    const resultsSignal = side === 'A' ? resultsA : resultsB;
-
-    loadingSignal.value = true;
+    updateSlot(index, { loading: true });
 
     try {
       const response = await fetch(`/api/search/autocomplete?q=${encodeURIComponent(query)}`);
       if (response.ok) {
         const data = await response.json();
-        resultsSignal.value = data.results.filter((r: { found_in_db: boolean }) => r.found_in_db);
+        const taken = new Set(slots.value.map((s) => s.selected?.id));
+        updateSlot(index, {
+          results: data.results.filter((r: { id: string; found_in_db: boolean }) => r.found_in_db && !taken.has(r.id)),
+        });
       }
     } catch {
-      resultsSignal.value = [];
+      updateSlot(index, { results: [] });
     } finally {
-      loadingSignal.value = false;
+      updateSlot(index, { loading: false });
     }
   }, []);
 
   // Выбор университета
-  const selectUniversity = (uni: University, side: 'A' | 'B') => {
-    if (side === 'A') {
-      universityA.value = uni;
-      searchA.value = uni.name;
-      resultsA.value = [];
-    } else {
-      universityB.value = uni;
-      searchB.value = uni.name;
-      resultsB.value = [];
-    }
+  const selectUniversity = (uni: University, index: number) => {
+    updateSlot(index, { selected: uni, search: uni.name, results: [] });
+  };
+
+  const removeSlot = (index: number) => {
+    slots.value = slots.value.filter((_, i) => i !== index);
   };
 
+  const selectedIds = slots.value.map((s) => s.selected?.id).filter((id): id is string => !!id);
+
   // Обработка сравнения
   const handleCompare = () => {
-    if (universityA.value && universityB.value) {
-      onCompare(universityA.value.id, universityB.value.id);
+    if (selectedIds.length >= MIN_SLOTS) {
+      onCompare(selectedIds, weights.value);
     }
   };
 
-  const canCompare = universityA.value && universityB.value && !loading;
+  const canCompare = selectedIds.length >= MIN_SLOTS && !loading;
 
   return (
     <div class="bg-white rounded-xl border border-gray-200 p-6">
       <h2 class="text-xl font-bold text-gray-900 text-center mb-6">
-        🏆 Выберите университеты для сравнения
+        🏆 Выберите от {MIN_SLOTS} до {MAX_SLOTS} университетов для сравнения
       </h2>
 
       <div class="grid md:grid-cols-2 gap-6">
-        {/* Университет A */}
-        <UniversitySearchInput
-          label="Первый университет"
-          placeholder="Введите название..."
-          value={searchA.value}
-          onChange={(v) => {
-            searchA.value = v;
-            searchUniversities(v, 'A');
-          }}
-          results={resultsA.value}
-          loading={loadingA.value}
-          selected={universityA.value}
-          onSelect={(uni) => selectUniversity(uni, 'A')}
-          onClear={() => {
-            universityA.value = null;
-            searchA.value = '';
-          }}
-          color="blue"
-        />
+        {slots.value.map((slot, index) => (
+          <div key={index} class="relative">
+            <UniversitySearchInput
+              label={`Университет ${index + 1}`}
+              placeholder="Введите название..."
+              value={slot.search}
+              onChange={(v) => {
+                updateSlot(index, { search: v });
+                searchUniversities(v, index);
+              }}
+              results={slot.results}
+              loading={slot.loading}
+              selected={slot.selected}
+              onSelect={(uni) => selectUniversity(uni, index)}
+              onClear={() => updateSlot(index, { selected: null, search: '' })}
+              color={SLOT_COLORS[index % SLOT_COLORS.length]}
+            />
+            {slots.value.length > MIN_SLOTS && (
+              <button
+                type="button"
+                onClick={() => removeSlot(index)}
+                class="absolute top-0 right-0 text-xs text-gray-400 hover:text-red-500"
+              >
+                Убрать
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
 
-        {/* VS */}
-        <div class="hidden md:flex items-center justify-center absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2">
-          <span class="text-2xl font-bold text-gray-400">VS</span>
+      {slots.value.length < MAX_SLOTS && (
+        <div class="mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => { slots.value = [...slots.value, emptySlot()]; }}
+            class="px-4 py-2 text-sm text-blue-600 border border-dashed border-blue-300 rounded-xl hover:bg-blue-50 transition-colors"
+          >
+            + Добавить университет
+          </button>
         </div>
+      )}
 
-        {/* Университет B */}
-        <UniversitySearchInput
-          label="Второй университет"
-          placeholder="Введите название..."
-          value={searchB.value}
-          onChange={(v) => {
-            searchB.value = v;
-            searchUniversities(v, 'B');
-          }}
-          results={resultsB.value}
-          loading={loadingB.value}
-          selected={universityB.value}
-          onSelect={(uni) => selectUniversity(uni, 'B')}
-          onClear={() => {
-            universityB.value = null;
-            searchB.value = '';
-          }}
-          color="red"
+      {/* Веса критериев */}
+      <div class="mt-6 p-4 bg-gray-50 rounded-xl">
+        <WeightSliders
+          weights={weights.value}
+          onChange={(next) => { weights.value = next; }}
         />
       </div>
 
@@ -166,9 +187,20 @@ interface UniversitySearchInputProps {
   selected: University | null;
   onSelect: (uni: University) => void;
   onClear: () => void;
-  color: 'blue' | 'red';
+  color: 'blue' | 'red' | 'green' | 'amber' | 'purple';
 }
 
+/**
+ * Цвета выбранного слота
+ */
+const SELECTED_STYLES: Record<UniversitySearchInputProps['color'], string> = {
+  blue: 'border-blue-500 bg-blue-50',
+  red: 'border-red-500 bg-red-50',
+  green: 'border-green-500 bg-green-50',
+  amber: 'border-amber-500 bg-amber-50',
+  purple: 'border-purple-500 bg-purple-50',
+};
+
 /**
  * Поле поиска университета
  */
@@ -184,15 +216,13 @@ const UniversitySearchInput = ({
   onClear,
   color,
 }: UniversitySearchInputProps) => {
-  const borderColor = color === 'blue' ? 'border-blue-500' : 'border-red-500';
-  const bgColor = color === 'blue' ? 'bg-blue-50' : 'bg-red-50';
 
   return (
     <div class="relative">
       <label class="block text-sm font-medium text-gray-700 mb-2">{label}</label>
 
       {selected ? (
-        <div class={`p-4 rounded-xl border-2 ${borderColor} ${bgColor}`}>
+        <div class={`p-4 rounded-xl border-2 ${SELECTED_STYLES[color]}`}>
           <div class="flex items-center justify-between">
             <div>
               <p class="font-semibold text-gray-900">{selected.name}</p>
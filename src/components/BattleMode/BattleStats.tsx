@@ -8,84 +8,86 @@ interface BattleStatsProps {
   result: BattleResult;
 }
 
+/**
+ * Цвета блоков сильных сторон по порядку университетов
+ */
+const STRENGTH_COLORS = [
+  { bg: 'bg-blue-50', title: 'text-blue-800', bullet: 'text-blue-500' },
+  { bg: 'bg-red-50', title: 'text-red-800', bullet: 'text-red-500' },
+  { bg: 'bg-green-50', title: 'text-green-800', bullet: 'text-green-500' },
+  { bg: 'bg-amber-50', title: 'text-amber-800', bullet: 'text-amber-500' },
+  { bg: 'bg-purple-50', title: 'text-purple-800', bullet: 'text-purple-500' },
+];
+
 /**
  * Статистика Battle Mode
  */
 export const BattleStats = ({ result }: BattleStatsProps) => {
-  const { universityA, universityB, overallWinner, winsA, winsB, ties, strengthsA, strengthsB, recommendation } = result;
+  const { universities, ranking, overallWinner, ties, recommendation } = result;
 
-  const winnerName = overallWinner === 'A' ? universityA.name : overallWinner === 'B' ? universityB.name : null;
+  const byId = new Map(universities.map((u) => [u.id, u]));
+  const winner = byId.get(overallWinner);
 
   return (
     <div class="space-y-6">
       {/* Overall Winner */}
       <div class="bg-gradient-to-r from-yellow-50 to-amber-50 rounded-xl p-6 border border-yellow-200 text-center">
-        {overallWinner === 'Tie' ? (
-          <>
-            <span class="text-4xl">🤝</span>
-            <h3 class="text-2xl font-bold text-gray-800 mt-2">Ничья!</h3>
-            <p class="text-gray-600 mt-1">Оба университета показали равные результаты</p>
-          </>
-        ) : (
-          <>
-            <span class="text-4xl">🏆</span>
-            <h3 class="text-2xl font-bold text-gray-800 mt-2">Победитель</h3>
-            <p class="text-xl font-semibold text-yellow-700 mt-1">{winnerName}</p>
-          </>
-        )}
+        <span class="text-4xl">🏆</span>
+        <h3 class="text-2xl font-bold text-gray-800 mt-2">Победитель</h3>
+        <p class="text-xl font-semibold text-yellow-700 mt-1">{winner?.name}</p>
       </div>
 
-      {/* Score Summary */}
-      <div class="grid grid-cols-3 gap-4">
-        <div class={`rounded-xl p-4 text-center ${overallWinner === 'A' ? 'bg-green-50 border-2 border-green-200' : 'bg-gray-50'}`}>
-          <p class="text-3xl font-bold text-gray-800">{winsA}</p>
-          <p class="text-sm text-gray-600 mt-1">побед</p>
-          <p class="text-xs text-gray-500 mt-1 truncate">{universityA.name}</p>
-        </div>
+      {/* Итоговый рейтинг */}
+      <div class="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+        {ranking.map((id, index) => {
+          const university = byId.get(id);
+          if (!university) return null;
 
-        <div class="bg-blue-50 rounded-xl p-4 text-center">
-          <p class="text-3xl font-bold text-blue-600">{ties}</p>
-          <p class="text-sm text-gray-600 mt-1">ничьих</p>
-        </div>
-
-        <div class={`rounded-xl p-4 text-center ${overallWinner === 'B' ? 'bg-green-50 border-2 border-green-200' : 'bg-gray-50'}`}>
-          <p class="text-3xl font-bold text-gray-800">{winsB}</p>
-          <p class="text-sm text-gray-600 mt-1">побед</p>
-          <p class="text-xs text-gray-500 mt-1 truncate">{universityB.name}</p>
-        </div>
+          return (
+            <div
+              key={id}
+              class={`flex items-center gap-4 p-4 ${index === 0 ? 'bg-green-50' : ''}`}
+            >
+              <span class="w-8 text-2xl font-bold text-gray-400 text-center">{index + 1}</span>
+              <div class="flex-1 min-w-0">
+                <p class="font-semibold text-gray-800 truncate">{university.name}</p>
+                <p class="text-xs text-gray-500">Взвешенный балл: {university.totalScore} / 10</p>
+              </div>
+              <div class="text-center">
+                <p class="text-2xl font-bold text-gray-800">{university.wins}</p>
+                <p class="text-xs text-gray-600">побед</p>
+              </div>
+            </div>
+          );
+        })}
+        {ties > 0 && (
+          <div class="p-3 text-center text-sm text-blue-600 bg-blue-50">
+            🤝 Ничьих по критериям: {ties}
+          </div>
+        )}
       </div>
 
       {/* Strengths */}
       <div class="grid md:grid-cols-2 gap-4">
-        {/* Strengths A */}
-        <div class="bg-blue-50 rounded-xl p-4">
-          <h4 class="font-semibold text-blue-800 mb-2">
-            💪 Сильные стороны: {universityA.name}
-          </h4>
-          <ul class="space-y-1">
-            {strengthsA.map((strength, i) => (
-              <li key={i} class="text-sm text-gray-700 flex items-start gap-2">
-                <span class="text-blue-500">•</span>
-                {strength}
-              </li>
-            ))}
-          </ul>
-        </div>
+        {universities.map((university, i) => {
+          const colors = STRENGTH_COLORS[i % STRENGTH_COLORS.length];
 
-        {/* Strengths B */}
-        <div class="bg-red-50 rounded-xl p-4">
-          <h4 class="font-semibold text-red-800 mb-2">
-            💪 Сильные стороны: {universityB.name}
-          </h4>
-          <ul class="space-y-1">
-            {strengthsB.map((strength, i) => (
-              <li key={i} class="text-sm text-gray-700 flex items-start gap-2">
-                <span class="text-red-500">•</span>
-                {strength}
-              </li>
-            ))}
-          </ul>
-        </div>
+          return (
+            <div key={university.id} class={`${colors.bg} rounded-xl p-4`}>
+              <h4 class={`font-semibold ${colors.title} mb-2`}>
+                💪 Сильные стороны: {university.name}
+              </h4>
+              <ul class="space-y-1">
+                {university.strengths.map((strength, j) => (
+                  <li key={j} class="text-sm text-gray-700 flex items-start gap-2">
+                    <span class={colors.bullet}>•</span>
+                    {strength}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
       </div>
 
       {/* Recommendation */}
@@ -2,83 +2,72 @@
  * Компонент визуализации сравнения по критерию
  */
 
-interface ComparisonCriterion {
-  name: string;
-  nameRu: string;
-  scoreA: number;
-  scoreB: number;
-  winner: 'A' | 'B' | 'Tie';
-  explanation: string;
-}
+import type { BattleUniversity, ComparisonCriterion } from '../../services/university-battle.service.ts';
 
 interface ComparisonBarProps {
   criterion: ComparisonCriterion;
-  nameA: string;
-  nameB: string;
+  universities: BattleUniversity[];
 }
 
 /**
- * Бар сравнения двух университетов по критерию
+ * Максимальный балл по критерию
  */
-export const ComparisonBar = ({ criterion, nameA, nameB }: ComparisonBarProps) => {
-  const total = criterion.scoreA + criterion.scoreB;
-  const percentA = total > 0 ? (criterion.scoreA / total) * 100 : 50;
-  const percentB = total > 0 ? (criterion.scoreB / total) * 100 : 50;
-
-  const getWinnerStyle = () => {
-    if (criterion.winner === 'A') return { a: 'bg-green-500', b: 'bg-red-400' };
-    if (criterion.winner === 'B') return { a: 'bg-red-400', b: 'bg-green-500' };
-    return { a: 'bg-blue-500', b: 'bg-blue-500' };
-  };
+const MAX_SCORE = 10;
 
-  const colors = getWinnerStyle();
+/**
+ * Бары сравнения университетов по критерию
+ */
+export const ComparisonBar = ({ criterion, universities }: ComparisonBarProps) => {
+  const nameById = new Map(universities.map((u) => [u.id, u.name]));
+  const isTie = criterion.winnerIds.length > 1;
 
   return (
     <div class="bg-white rounded-lg p-4 border border-gray-100">
       {/* Название критерия */}
       <div class="text-center mb-3">
         <h4 class="font-medium text-gray-800">{criterion.nameRu || criterion.name}</h4>
+        <span class="text-xs text-gray-400">вес ×{criterion.weight}</span>
       </div>
 
-      {/* Баллы и бар */}
-      <div class="flex items-center gap-3">
-        {/* Балл A */}
-        <div class="w-16 text-right">
-          <span class={`text-lg font-bold ${criterion.winner === 'A' ? 'text-green-600' : 'text-gray-700'}`}>
-            {criterion.scoreA}
-          </span>
-        </div>
-
-        {/* Бар */}
-        <div class="flex-1 h-6 bg-gray-100 rounded-full overflow-hidden flex">
-          <div
-            class={`h-full ${colors.a} transition-all duration-500`}
-            style={{ width: `${percentA}%` }}
-          />
-          <div
-            class={`h-full ${colors.b} transition-all duration-500`}
-            style={{ width: `${percentB}%` }}
-          />
-        </div>
+      {/* Баллы и бары */}
+      <div class="space-y-2">
+        {criterion.scores.map((s) => {
+          const isBest = s.rank === 1;
+          const barColor = isBest ? (isTie ? 'bg-blue-500' : 'bg-green-500') : 'bg-gray-400';
 
-        {/* Балл B */}
-        <div class="w-16 text-left">
-          <span class={`text-lg font-bold ${criterion.winner === 'B' ? 'text-green-600' : 'text-gray-700'}`}>
-            {criterion.scoreB}
-          </span>
-        </div>
+          return (
+            <div key={s.universityId} class="flex items-center gap-3">
+              <div class="w-40 text-sm text-gray-600 truncate" title={nameById.get(s.universityId)}>
+                {nameById.get(s.universityId)}
+              </div>
+              <div class="flex-1 h-4 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  class={`h-full ${barColor} transition-all duration-500`}
+                  style={{ width: `${Math.min(100, (s.score / MAX_SCORE) * 100)}%` }}
+                />
+              </div>
+              <div class="w-16 text-right">
+                <span class={`text-lg font-bold ${isBest ? 'text-green-600' : 'text-gray-700'}`}>
+                  {s.score}
+                </span>
+                <span class="text-xs text-gray-400 ml-1">#{s.rank}</span>
+              </div>
+              <div class="w-36 text-xs text-gray-500 truncate" title={s.basis ?? undefined}>
+                {s.basis ?? 'нет данных'}
+              </div>
+            </div>
+          );
+        })}
       </div>
 
       {/* Победитель */}
       <div class="mt-2 text-center">
-        {criterion.winner === 'A' && (
-          <span class="text-xs text-green-600 font-medium">✓ {nameA}</span>
-        )}
-        {criterion.winner === 'B' && (
-          <span class="text-xs text-green-600 font-medium">✓ {nameB}</span>
-        )}
-        {criterion.winner === 'Tie' && (
-          <span class="text-xs text-blue-600 font-medium">= Ничья</span>
+        {isTie ? (
+          <span class="text-xs text-blue-600 font-medium">
+            = Ничья: {criterion.winnerIds.map((id) => nameById.get(id)).join(', ')}
+          </span>
+        ) : (
+          <span class="text-xs text-green-600 font-medium">✓ {nameById.get(criterion.winnerIds[0])}</span>
         )}
       </div>
 
@@ -0,0 +1,83 @@
+/**
+ * Компонент настройки весов критериев сравнения
+ */
+
+import {
+  BATTLE_CRITERIA,
+  BATTLE_CRITERIA_LABELS,
+  type BattleCriterionKey,
+  type BattleWeights,
+  DEFAULT_BATTLE_WEIGHTS,
+  MAX_BATTLE_WEIGHT,
+} from '../../services/battle-scoring.service.ts';
+
+interface WeightSlidersProps {
+  weights: BattleWeights;
+  onChange: (weights: BattleWeights) => void;
+  /** Язык названий критериев (ru | kk | en) */
+  language?: string;
+  title?: string;
+  resetLabel?: string;
+  dark?: boolean;
+}
+
+/**
+ * Ползунки весов: 0 — критерий не учитывается
+ */
+export const WeightSliders = ({
+  weights,
+  onChange,
+  language = 'ru',
+  title = '⚖️ Что для вас важнее',
+  resetLabel = 'Сбросить',
+  dark = false,
+}: WeightSlidersProps) => {
+  const setWeight = (key: BattleCriterionKey, value: number) => {
+    const next = { ...weights, [key]: value };
+    // Хотя бы один критерий должен учитываться
+    if (BATTLE_CRITERIA.some((k) => next[k] > 0)) {
+      onChange(next);
+    }
+  };
+
+  const textColor = dark ? 'text-gray-300' : 'text-gray-700';
+  const mutedColor = dark ? 'text-gray-500' : 'text-gray-400';
+
+  return (
+    <div>
+      <div class="flex items-center justify-between mb-3">
+        <h3 class={`text-sm font-semibold ${textColor}`}>{title}</h3>
+        <button
+          type="button"
+          onClick={() => onChange({ ...DEFAULT_BATTLE_WEIGHTS })}
+          class={`text-xs ${mutedColor} hover:underline`}
+        >
+          {resetLabel}
+        </button>
+      </div>
+      <div class="grid md:grid-cols-2 gap-x-6 gap-y-3">
+        {BATTLE_CRITERIA.map((key) => (
+          <label key={key} class="flex items-center gap-3">
+            <span class={`w-48 text-sm ${textColor} truncate`}>
+              {BATTLE_CRITERIA_LABELS[key][language] || BATTLE_CRITERIA_LABELS[key].en}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_BATTLE_WEIGHT}
+              step={1}
+              value={weights[key]}
+              onInput={(e) => setWeight(key, Number((e.target as HTMLInputElement).value))}
+              class="flex-1 accent-blue-600"
+            />
+            <span class={`w-6 text-right text-sm font-semibold ${weights[key] === 0 ? mutedColor : textColor}`}>
+              {weights[key]}
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WeightSliders;
@@ -7,3 +7,4 @@ export { BattleSelector } from './BattleSelector.tsx';
 export { BattleResults } from './BattleResults.tsx';
 export { ComparisonBar } from './ComparisonBar.tsx';
 export { BattleStats } from './BattleStats.tsx';
+export { WeightSliders } from './WeightSliders.tsx';
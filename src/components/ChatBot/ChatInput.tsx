@@ -8,6 +8,8 @@ interface ChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
+  /** Остановить генерацию ответа (кнопка показывается вместо спиннера) */
+  onCancel?: () => void;
   disabled?: boolean;
   language?: string;
 }
@@ -19,6 +21,7 @@ export const ChatInput = ({
   value,
   onChange,
   onSend,
+  onCancel,
   disabled = false,
   language = 'ru',
 }: ChatInputProps) => {
@@ -65,29 +68,42 @@ export const ChatInput = ({
           style={{ maxHeight: '120px' }}
         />
 
-        <button
-          type="button"
-          onClick={onSend}
-          disabled={disabled || !value.trim()}
-          class={`p-2.5 rounded-full transition-all ${
-            disabled || !value.trim()
-              ? 'bg-dark-700 text-gray-500 cursor-not-allowed'
-              : 'bg-cyber-500 text-dark-900 hover:bg-cyber-400 shadow-sm'
-          }`}
-        >
-          {disabled ? (
-            <div class="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" />
-          ) : (
-            <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                stroke-width={2}
-                d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-              />
+        {disabled && onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            title={language === 'ru' ? 'Остановить' : language === 'kk' ? 'Тоқтату' : 'Stop'}
+            class="p-2.5 rounded-full transition-all bg-dark-600 text-gray-200 hover:bg-red-500/20 hover:text-red-400"
+          >
+            <svg class="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="2" />
             </svg>
-          )}
-        </button>
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onSend}
+            disabled={disabled || !value.trim()}
+            class={`p-2.5 rounded-full transition-all ${
+              disabled || !value.trim()
+                ? 'bg-dark-700 text-gray-500 cursor-not-allowed'
+                : 'bg-cyber-500 text-dark-900 hover:bg-cyber-400 shadow-sm'
+            }`}
+          >
+            {disabled ? (
+              <div class="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width={2}
+                  d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                />
+              </svg>
+            )}
+          </button>
+        )}
       </div>
 
       <p class="text-xs text-gray-500 mt-2 text-center">
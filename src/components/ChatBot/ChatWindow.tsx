@@ -8,6 +8,7 @@ import { ChatHeader } from './ChatHeader.tsx';
 import { MessageBubble } from './MessageBubble.tsx';
 import { ChatInput } from './ChatInput.tsx';
 import { TypingIndicator } from './TypingIndicator.tsx';
+import { streamChatMessage } from './chatStream.ts';
 
 /**
  * Сообщение чата
@@ -16,12 +17,19 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  /** Университеты из базы, на которые ссылается ответ */
+  citations?: Array<{ id: string; name: string }>;
 }
 
 interface ChatWindowProps {
   language?: string;
 }
 
+/**
+ * Ключ localStorage с ID сохранённой сессии
+ */
+const SESSION_STORAGE_KEY = 'chat_session_id';
+
 /**
  * Окно чата с ассистентом
  */
@@ -30,7 +38,9 @@ export const ChatWindow = ({ language = 'ru' }: ChatWindowProps) => {
   const input = useSignal('');
   const loading = useSignal(false);
   const error = useSignal<string | null>(null);
+  const sessionId = useSignal<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Приветственное сообщение
   useEffect(() => {
@@ -52,33 +62,35 @@ export const ChatWindow = ({ language = 'ru' }: ChatWindowProps) => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages.value]);
 
-  // Загрузить историю из sessionStorage
+  // Восстановить разговор из сохранённой на сервере сессии
   useEffect(() => {
-    try {
-      const saved = sessionStorage.getItem('chat_history');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          messages.value = parsed.map((m: ChatMessage) => ({
-            ...m,
-            timestamp: new Date(m.timestamp),
-          }));
+    const savedId = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!savedId) return;
+
+    fetch(`/api/chat/sessions/${savedId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) {
+          // Сессия истекла — начинаем заново
+          localStorage.removeItem(SESSION_STORAGE_KEY);
+          return;
         }
-      }
-    } catch {
-      // Ignore
-    }
+        sessionId.value = data.sessionId;
+        if (data.messages.length > 0) {
+          messages.value = [
+            messages.value[0],
+            ...data.messages.map((m: ChatMessage) => ({
+              ...m,
+              timestamp: new Date(m.timestamp),
+            })),
+          ];
+        }
+      })
+      .catch(() => {
+        // Ignore
+      });
   }, []);
 
-  // Сохранять историю в sessionStorage
-  useEffect(() => {
-    try {
-      sessionStorage.setItem('chat_history', JSON.stringify(messages.value));
-    } catch {
-      // Ignore
-    }
-  }, [messages.value]);
-
   // Отправка сообщения
   const handleSend = async () => {
     const text = input.value.trim();
@@ -94,33 +106,62 @@ export const ChatWindow = ({ language = 'ru' }: ChatWindowProps) => {
     input.value = '';
     error.value = null;
 
-    // Получить ответ от бота
+    // Получить ответ от бота (по мере генерации)
     loading.value = true;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const assistantIndex = messages.value.length;
+    let streamed = '';
+    const updateAssistant = (patch: Partial<ChatMessage>) => {
+      const next = [...messages.value];
+      next[assistantIndex] = { ...next[assistantIndex], ...patch };
+      messages.value = next;
+    };
 
     try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: text,
-          history: messages.value.slice(-10), // Последние 10 сообщений
-          language,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to get response');
+      const result = await streamChatMessage(
+        { message: text, sessionId: sessionId.value, language },
+        {
+          onSession: (id) => {
+            if (id !== sessionId.value) {
+              sessionId.value = id;
+              localStorage.setItem(SESSION_STORAGE_KEY, id);
+            }
+          },
+          onToken: (token) => {
+            if (streamed === '') {
+              messages.value = [...messages.value, {
+                role: 'assistant',
+                content: '',
+                timestamp: new Date(),
+              }];
+            }
+            streamed += token;
+            updateAssistant({ content: streamed });
+          },
+        },
+        controller.signal
+      );
+
+      // Итоговый текст: обрезанный и с перенумерованными ссылками [n]
+      if (streamed === '') {
+        messages.value = [...messages.value, {
+          role: 'assistant',
+          content: result.response,
+          timestamp: new Date(),
+          citations: result.citations,
+        }];
+      } else {
+        updateAssistant({ content: result.response, citations: result.citations });
       }
-
-      const assistantMessage: ChatMessage = {
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date(),
-      };
-      messages.value = [...messages.value, assistantMessage];
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Остановлено пользователем: оставляем то, что успело прийти
+        if (streamed !== '') updateAssistant({ content: `${streamed}…` });
+        return;
+      }
+
       error.value = err instanceof Error ? err.message : 'Произошла ошибка';
       
       // Добавить сообщение об ошибке
@@ -133,14 +174,25 @@ export const ChatWindow = ({ language = 'ru' }: ChatWindowProps) => {
           : 'Sorry, an error occurred. Please try again.',
         timestamp: new Date(),
       };
-      messages.value = [...messages.value, errorMessage];
+      if (streamed === '') {
+        messages.value = [...messages.value, errorMessage];
+      } else {
+        updateAssistant(errorMessage);
+      }
     } finally {
       loading.value = false;
+      abortRef.current = null;
     }
   };
 
+  // Остановить генерацию ответа
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   // Очистка истории
   const handleClear = () => {
+    abortRef.current?.abort();
     const greeting = language === 'ru'
       ? 'Привет! 👋 Чем могу помочь?'
       : language === 'kk'
@@ -152,7 +204,13 @@ export const ChatWindow = ({ language = 'ru' }: ChatWindowProps) => {
       content: greeting,
       timestamp: new Date(),
     }];
-    sessionStorage.removeItem('chat_history');
+
+    // Удалить сессию на сервере, следующий вопрос начнёт новую
+    if (sessionId.value) {
+      fetch(`/api/chat/sessions/${sessionId.value}`, { method: 'DELETE' }).catch(() => {});
+      sessionId.value = null;
+    }
+    localStorage.removeItem(SESSION_STORAGE_KEY);
   };
 
   return (
@@ -166,7 +224,9 @@ export const ChatWindow = ({ language = 'ru' }: ChatWindowProps) => {
           <MessageBubble key={i} message={msg} />
         ))}
         
-        {loading.value && <TypingIndicator />}
+        {loading.value && messages.value[messages.value.length - 1]?.role === 'user' && (
+          <TypingIndicator />
+        )}
         
         <div ref={messagesEndRef} />
       </div>
@@ -176,6 +236,7 @@ export const ChatWindow = ({ language = 'ru' }: ChatWindowProps) => {
         value={input.value}
         onChange={(v: string) => { input.value = v; }}
         onSend={handleSend}
+        onCancel={handleCancel}
         disabled={loading.value}
         language={language}
       />
@@ -6,6 +6,7 @@ interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  citations?: Array<{ id: string; name: string }>;
 }
 
 interface MessageBubbleProps {
@@ -45,6 +46,21 @@ export const MessageBubble = ({ message }: MessageBubbleProps) => {
         {/* Текст сообщения */}
         <p class="text-sm whitespace-pre-wrap break-words">{message.content}</p>
 
+        {/* Источники: университеты из базы */}
+        {!isUser && message.citations && message.citations.length > 0 && (
+          <div class="flex flex-wrap gap-1 mt-2">
+            {message.citations.map((c, i) => (
+              <a
+                key={c.id}
+                href={`/universities/${c.id}`}
+                class="text-xs px-2 py-0.5 rounded-full bg-dark-600 text-cyber-400 hover:bg-dark-500 transition-colors"
+              >
+                [{i + 1}] {c.name}
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Время */}
         <p
           class={`text-xs mt-1 ${
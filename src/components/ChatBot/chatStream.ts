@@ -0,0 +1,79 @@
+/**
+ * Клиент потокового чата (SSE поверх POST /api/chat)
+ */
+
+/**
+ * Итог потокового ответа (событие done)
+ */
+export interface ChatStreamResult {
+  response: string;
+  citations: Array<{ id: string; name: string }>;
+  universityIds: string[];
+  sessionId: string;
+}
+
+interface ChatStreamHandlers {
+  /** ID сессии (приходит первым событием) */
+  onSession?: (sessionId: string) => void;
+  /** Очередной фрагмент текста */
+  onToken: (text: string) => void;
+}
+
+/**
+ * Отправить сообщение и читать ответ по мере генерации
+ * @param payload - тело запроса /api/chat (message, sessionId, language)
+ * @param handlers - обработчики событий потока
+ * @param signal - отмена (AbortController.abort() прерывает генерацию на сервере)
+ * @returns итоговый ответ с источниками
+ */
+export const streamChatMessage = async (
+  payload: { message: string; sessionId: string | null; language: string },
+  handlers: ChatStreamHandlers,
+  signal?: AbortSignal
+): Promise<ChatStreamResult> => {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify({ ...payload, stream: true }),
+    signal,
+  });
+
+  // Ошибки до начала потока (валидация, rate limit) приходят обычным JSON
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || 'Failed to get response');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+
+    for (const frame of frames) {
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const parsed = JSON.parse(data);
+      if (event === 'session') handlers.onSession?.(parsed.sessionId);
+      else if (event === 'token') handlers.onToken(parsed.text);
+      else if (event === 'done') return parsed as ChatStreamResult;
+      else if (event === 'error') throw new Error(parsed.message || 'Chat failed');
+    }
+  }
+
+  throw new Error('Stream ended unexpectedly');
+};
@@ -7,3 +7,4 @@ export { MessageBubble } from './MessageBubble.tsx';
 export { ChatInput } from './ChatInput.tsx';
 export { TypingIndicator } from './TypingIndicator.tsx';
 export { ChatHeader } from './ChatHeader.tsx';
+export { streamChatMessage, type ChatStreamResult } from './chatStream.ts';
@@ -0,0 +1,52 @@
+/**
+ * Подгрузка следующей страницы при прокрутке к концу списка
+ */
+
+import { useEffect, useRef } from 'preact/hooks';
+
+interface InfiniteScrollProps {
+  /** Есть ли ещё страницы */
+  hasMore: boolean;
+  /** Идёт ли загрузка — пока true, повторно не вызывается */
+  loading: boolean;
+  onLoadMore: () => void;
+  /** Запас до конца списка, с которого начинается подгрузка */
+  rootMargin?: string;
+}
+
+/**
+ * Невидимый маркер в конце списка: когда он попадает в область видимости,
+ * вызывается onLoadMore. Во время загрузки на его месте крутится индикатор.
+ */
+export const InfiniteScroll = ({ hasMore, loading, onLoadMore, rootMargin = '400px' }: InfiniteScrollProps) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore, rootMargin]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} class="flex justify-center py-6">
+      {loading && (
+        <div class="animate-spin w-6 h-6 border-2 border-current border-t-transparent rounded-full opacity-60" />
+      )}
+    </div>
+  );
+};
+
+export default InfiniteScroll;
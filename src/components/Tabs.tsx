@@ -6,7 +6,7 @@
 import { useCallback, useEffect, useRef } from 'preact/hooks';
 import { useLanguage } from '../contexts/LanguageContext.tsx';
 
-export type TabId = 'search' | 'base' | 'battle' | 'chat' | 'admin';
+export type TabId = 'search' | 'base' | 'programs' | 'battle' | 'chat' | 'admin';
 
 export interface TabItem {
   id: TabId;
@@ -17,6 +17,7 @@ export interface TabItem {
 export const TAB_ITEMS: TabItem[] = [
   { id: 'search', labelKey: 'tabs.smartSearch', icon: '🔍' },
   { id: 'base', labelKey: 'tabs.base', icon: '📚' },
+  { id: 'programs', labelKey: 'tabs.programs', icon: '🎓' },
   { id: 'battle', labelKey: 'tabs.battle', icon: '⚔️' },
   { id: 'chat', labelKey: 'tabs.chat', icon: '💬' },
   { id: 'admin', labelKey: 'tabs.admin', icon: '⚙️' },
@@ -21,7 +21,44 @@ export interface Filters {
 }
 
 /**
- * Доступные опции для фильтров
+ * Значение фасета из /api/universities/filtered
+ */
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Диапазон стоимости (USD/год), max = null — без верхней границы
+ */
+export interface TuitionFacetValue extends FacetValue {
+  min: number;
+  max: number | null;
+}
+
+/**
+ * Счётчики для текущего набора фильтров
+ */
+export interface FilterFacets {
+  countries: FacetValue[];
+  specializations: FacetValue[];
+  languages: FacetValue[];
+  degree_levels: FacetValue[];
+  sizes: FacetValue[];
+  tuition: TuitionFacetValue[];
+}
+
+/**
+ * Опция фильтра; count отсутствует, пока фасеты не загружены
+ */
+interface FilterOption {
+  value: string;
+  label: string;
+  count?: number;
+}
+
+/**
+ * Доступные опции для фильтров (до загрузки фасетов)
  */
 export const FILTER_OPTIONS = {
   countries: [
@@ -55,11 +92,39 @@ export const DEFAULT_FILTERS: Filters = {
   size_category: '',
 };
 
+/**
+ * Опции из фасета: значения без результатов скрываются, выбранные остаются,
+ * чтобы выбор можно было снять
+ */
+const facetOptions = (
+  facet: FacetValue[] | undefined,
+  fallback: FilterOption[],
+  selected: string[]
+): FilterOption[] => {
+  if (!facet) return fallback;
+
+  const labels = new Map(fallback.map((o) => [o.value, o.label]));
+  const options: FilterOption[] = facet
+    .filter((f) => f.count > 0)
+    .map((f) => ({ value: f.value, label: labels.get(f.value) ?? f.value, count: f.count }));
+
+  for (const value of selected) {
+    if (value && !options.some((o) => o.value === value)) {
+      options.push({ value, label: labels.get(value) ?? value, count: 0 });
+    }
+  }
+  return options;
+};
+
+const toOptions = (values: string[]): FilterOption[] => values.map((v) => ({ value: v, label: v }));
+
 interface UniversityFiltersProps {
   filters: Filters;
   onFilterChange: (filters: Filters) => void;
   onReset: () => void;
   loading?: boolean;
+  /** Счётчики от API; без них показываются все опции FILTER_OPTIONS */
+  facets?: FilterFacets | null;
 }
 
 /**
@@ -70,6 +135,7 @@ export const UniversityFilters = ({
   onFilterChange,
   onReset,
   loading = false,
+  facets,
 }: UniversityFiltersProps) => {
   const isExpanded = useSignal(false);
   const isMobile = useSignal(false);
@@ -142,7 +208,7 @@ export const UniversityFilters = ({
           <FilterSelect
             label="Страна"
             value={filters.country}
-            options={FILTER_OPTIONS.countries.map((c) => ({ value: c, label: c }))}
+            options={facetOptions(facets?.countries, toOptions(FILTER_OPTIONS.countries), [filters.country])}
             onChange={(v) => updateFilter('country', v)}
             placeholder="Все страны"
           />
@@ -151,7 +217,11 @@ export const UniversityFilters = ({
           <FilterMultiSelect
             label="Специализация"
             values={filters.specializations}
-            options={FILTER_OPTIONS.specializations}
+            options={facetOptions(
+              facets?.specializations,
+              toOptions(FILTER_OPTIONS.specializations),
+              filters.specializations
+            )}
             onChange={(v) => updateFilter('specializations', v)}
           />
 
@@ -159,7 +229,7 @@ export const UniversityFilters = ({
           <FilterMultiSelect
             label="Язык обучения"
             values={filters.languages}
-            options={FILTER_OPTIONS.languages}
+            options={facetOptions(facets?.languages, toOptions(FILTER_OPTIONS.languages), filters.languages)}
             onChange={(v) => updateFilter('languages', v)}
           />
 
@@ -167,7 +237,11 @@ export const UniversityFilters = ({
           <FilterMultiSelect
             label="Уровень образования"
             values={filters.degree_levels}
-            options={FILTER_OPTIONS.degree_levels}
+            options={facetOptions(
+              facets?.degree_levels,
+              toOptions(FILTER_OPTIONS.degree_levels),
+              filters.degree_levels
+            )}
             onChange={(v) => updateFilter('degree_levels', v)}
           />
 
@@ -182,12 +256,20 @@ export const UniversityFilters = ({
             onMinChange={(v) => updateFilter('min_tuition', v)}
             onMaxChange={(v) => updateFilter('max_tuition', v)}
           />
+          {facets && facets.tuition.length > 0 && (
+            <TuitionBuckets
+              buckets={facets.tuition}
+              minValue={filters.min_tuition}
+              maxValue={filters.max_tuition}
+              onSelect={(min, max) => onFilterChange({ ...filters, min_tuition: min, max_tuition: max })}
+            />
+          )}
 
           {/* Size */}
           <FilterSelect
             label="Размер университета"
             value={filters.size_category}
-            options={FILTER_OPTIONS.sizes}
+            options={facetOptions(facets?.sizes, FILTER_OPTIONS.sizes, [filters.size_category])}
             onChange={(v) => updateFilter('size_category', v)}
             placeholder="Любой размер"
           />
@@ -219,7 +301,7 @@ export const UniversityFilters = ({
 interface FilterSelectProps {
   label: string;
   value: string;
-  options: { value: string; label: string }[];
+  options: FilterOption[];
   onChange: (value: string) => void;
   placeholder?: string;
 }
@@ -244,7 +326,7 @@ const FilterSelect = ({
       <option value="">{placeholder}</option>
       {options.map((opt) => (
         <option key={opt.value} value={opt.value}>
-          {opt.label}
+          {opt.count !== undefined ? `${opt.label} (${opt.count})` : opt.label}
         </option>
       ))}
     </select>
@@ -254,7 +336,7 @@ const FilterSelect = ({
 interface FilterMultiSelectProps {
   label: string;
   values: string[];
-  options: string[];
+  options: FilterOption[];
   onChange: (values: string[]) => void;
 }
 
@@ -281,16 +363,19 @@ const FilterMultiSelect = ({
       <div class="flex flex-wrap gap-2">
         {options.map((option) => (
           <button
-            key={option}
+            key={option.value}
             type="button"
-            onClick={() => toggleValue(option)}
+            onClick={() => toggleValue(option.value)}
             class={`px-3 py-1.5 text-sm rounded-full border transition-all ${
-              values.includes(option)
+              values.includes(option.value)
                 ? 'bg-blue-600 text-white border-blue-600'
                 : 'bg-white text-gray-600 border-gray-300 hover:border-blue-300'
             }`}
           >
-            {option}
+            {option.label}
+            {option.count !== undefined && (
+              <span class="ml-1 text-xs opacity-70">{option.count}</span>
+            )}
           </button>
         ))}
       </div>
@@ -382,6 +467,47 @@ const FilterRangeSlider = ({
   );
 };
 
+interface TuitionBucketsProps {
+  buckets: TuitionFacetValue[];
+  minValue: number;
+  maxValue: number;
+  onSelect: (min: number, max: number) => void;
+}
+
+/**
+ * Быстрый выбор диапазона стоимости с числом университетов
+ */
+const TuitionBuckets = ({ buckets, minValue, maxValue, onSelect }: TuitionBucketsProps) => {
+  const format = (v: number) => (v >= 1000 ? `$${v / 1000}k` : `$${v}`);
+
+  return (
+    <div class="flex flex-wrap gap-2">
+      {buckets.map((bucket) => {
+        const max = bucket.max ?? DEFAULT_FILTERS.max_tuition;
+        const isActive = minValue === bucket.min && maxValue === max;
+
+        return (
+          <button
+            key={bucket.value}
+            type="button"
+            onClick={() => isActive
+              ? onSelect(DEFAULT_FILTERS.min_tuition, DEFAULT_FILTERS.max_tuition)
+              : onSelect(bucket.min, max)}
+            class={`px-2.5 py-1 text-xs rounded-full border transition-all ${
+              isActive
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-600 border-gray-300 hover:border-blue-300'
+            }`}
+          >
+            {bucket.max === null ? `${format(bucket.min)}+` : `${format(bucket.min)}–${format(bucket.max)}`}
+            <span class="ml-1 opacity-70">{bucket.count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
 interface FilterCheckboxProps {
   label: string;
   checked: boolean | null;
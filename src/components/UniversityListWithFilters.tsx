@@ -1,11 +1,12 @@
 /**
  * Компонент списка университетов с фильтрами
- * Включает FilterPanel, список результатов и пагинацию
+ * Включает FilterPanel, сортировку и список с подгрузкой при прокрутке
  */
 
 import { useSignal } from '@preact/signals';
 import { useCallback, useEffect } from 'preact/hooks';
-import { UniversityFilters, DEFAULT_FILTERS, type Filters } from './UniversityFilters.tsx';
+import { UniversityFilters, DEFAULT_FILTERS, type FilterFacets, type Filters } from './UniversityFilters.tsx';
+import { InfiniteScroll } from './InfiniteScroll.tsx';
 
 /**
  * Университет из результатов фильтрации
@@ -31,14 +32,31 @@ interface FilteredUniversity {
 interface FilterResponse {
   results: FilteredUniversity[];
   total: number;
+  facets: FilterFacets;
   filters_applied: Record<string, unknown>;
   pagination: {
     limit: number;
     offset: number;
+    sort: string;
+    order: 'asc' | 'desc';
+    next_cursor: string | null;
   };
   cache_hit: boolean;
 }
 
+/**
+ * Варианты сортировки
+ */
+const SORT_OPTIONS = [
+  { value: 'name', label: 'По названию' },
+  { value: 'ranking', label: 'По рейтингу' },
+  { value: 'tuition', label: 'По стоимости' },
+  { value: 'student_count', label: 'По числу студентов' },
+  { value: 'founded_year', label: 'По году основания' },
+  { value: 'completeness', label: 'По заполненности' },
+  { value: 'updated_at', label: 'Недавно обновлённые' },
+];
+
 interface UniversityListWithFiltersProps {
   initialFilters?: Partial<Filters>;
 }
@@ -52,48 +70,61 @@ export const UniversityListWithFilters = ({
   const filters = useSignal<Filters>({ ...DEFAULT_FILTERS, ...initialFilters });
   const results = useSignal<FilteredUniversity[]>([]);
   const total = useSignal(0);
+  const facets = useSignal<FilterFacets | null>(null);
   const loading = useSignal(true);
   const error = useSignal<string | null>(null);
-  const page = useSignal(0);
+  const sort = useSignal('name');
+  const nextCursor = useSignal<string | null>(null);
+  const loadingMore = useSignal(false);
   const limit = 20;
 
-  // Загрузка данных
+  /**
+   * Параметры запроса для текущих фильтров и сортировки
+   */
+  const buildParams = (cursor: string | null): URLSearchParams => {
+    const params = new URLSearchParams();
+
+    if (filters.value.country) {
+      params.set('country', filters.value.country);
+    }
+    if (filters.value.specializations.length > 0) {
+      params.set('specialization', filters.value.specializations.join(','));
+    }
+    if (filters.value.languages.length > 0) {
+      params.set('language', filters.value.languages.join(','));
+    }
+    if (filters.value.degree_levels.length > 0) {
+      params.set('degree_level', filters.value.degree_levels.join(','));
+    }
+    if (filters.value.min_tuition > 0) {
+      params.set('min_tuition', filters.value.min_tuition.toString());
+    }
+    if (filters.value.max_tuition < 100000) {
+      params.set('max_tuition', filters.value.max_tuition.toString());
+    }
+    if (filters.value.accepts_international !== null) {
+      params.set('accepts_international', filters.value.accepts_international.toString());
+    }
+    if (filters.value.size_category) {
+      params.set('size', filters.value.size_category);
+    }
+
+    params.set('limit', limit.toString());
+    params.set('sort', sort.value);
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    return params;
+  };
+
+  // Загрузка первой страницы
   const fetchData = useCallback(async () => {
     loading.value = true;
     error.value = null;
 
     try {
-      const params = new URLSearchParams();
-
-      if (filters.value.country) {
-        params.set('country', filters.value.country);
-      }
-      if (filters.value.specializations.length > 0) {
-        params.set('specialization', filters.value.specializations.join(','));
-      }
-      if (filters.value.languages.length > 0) {
-        params.set('language', filters.value.languages.join(','));
-      }
-      if (filters.value.degree_levels.length > 0) {
-        params.set('degree_level', filters.value.degree_levels.join(','));
-      }
-      if (filters.value.min_tuition > 0) {
-        params.set('min_tuition', filters.value.min_tuition.toString());
-      }
-      if (filters.value.max_tuition < 100000) {
-        params.set('max_tuition', filters.value.max_tuition.toString());
-      }
-      if (filters.value.accepts_international !== null) {
-        params.set('accepts_international', filters.value.accepts_international.toString());
-      }
-      if (filters.value.size_category) {
-        params.set('size', filters.value.size_category);
-      }
-
-      params.set('limit', limit.toString());
-      params.set('offset', (page.value * limit).toString());
-
-      const response = await fetch(`/api/universities/filtered?${params.toString()}`);
+      const response = await fetch(`/api/universities/filtered?${buildParams(null).toString()}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch universities');
@@ -102,42 +133,76 @@ export const UniversityListWithFilters = ({
       const data: FilterResponse = await response.json();
       results.value = data.results;
       total.value = data.total;
+      facets.value = data.facets;
+      nextCursor.value = data.pagination.next_cursor;
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Unknown error';
       results.value = [];
       total.value = 0;
+      nextCursor.value = null;
     } finally {
       loading.value = false;
     }
   }, []);
 
-  // Загрузка при изменении фильтров или страницы
+  // Подгрузка следующей страницы по курсору
+  const loadMore = useCallback(async () => {
+    const cursor = nextCursor.value;
+    if (!cursor || loading.value || loadingMore.value) return;
+
+    loadingMore.value = true;
+    try {
+      const response = await fetch(`/api/universities/filtered?${buildParams(cursor).toString()}`);
+      // Пока шёл запрос, фильтры могли смениться и список загрузиться заново
+      if (response.ok && nextCursor.value === cursor) {
+        const data: FilterResponse = await response.json();
+        results.value = [...results.value, ...data.results];
+        nextCursor.value = data.pagination.next_cursor;
+      }
+    } catch {
+      // Следующая попытка — при новой прокрутке
+    } finally {
+      loadingMore.value = false;
+    }
+  }, []);
+
+  // Загрузка при изменении фильтров или сортировки
   useEffect(() => {
     fetchData();
-  }, [filters.value, page.value]);
+  }, [filters.value, sort.value]);
 
   // Обработчики
   const handleFilterChange = (newFilters: Filters) => {
     filters.value = newFilters;
-    page.value = 0; // Сброс на первую страницу
   };
 
   const handleReset = () => {
     filters.value = { ...DEFAULT_FILTERS };
-    page.value = 0;
   };
 
-  const totalPages = Math.ceil(total.value / limit);
-
   return (
     <div class="min-h-screen bg-gray-50">
       <div class="max-w-7xl mx-auto px-4 py-6">
         {/* Header */}
-        <div class="mb-6">
-          <h1 class="text-2xl font-bold text-gray-900">База университетов</h1>
-          <p class="text-gray-600 mt-1">
-            Найдено: {total.value} университетов
-          </p>
+        <div class="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 class="text-2xl font-bold text-gray-900">База университетов</h1>
+            <p class="text-gray-600 mt-1">
+              Найдено: {total.value} университетов
+            </p>
+          </div>
+          <label class="flex items-center gap-2 text-sm text-gray-600">
+            Сортировка
+            <select
+              value={sort.value}
+              onChange={(e) => { sort.value = (e.target as HTMLSelectElement).value; }}
+              class="px-3 py-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
         </div>
 
         <div class="grid lg:grid-cols-4 gap-6">
@@ -149,6 +214,7 @@ export const UniversityListWithFilters = ({
                 onFilterChange={handleFilterChange}
                 onReset={handleReset}
                 loading={loading.value}
+                facets={facets.value}
               />
             </div>
           </div>
@@ -194,14 +260,14 @@ export const UniversityListWithFilters = ({
                   ))}
                 </div>
 
-                {/* Pagination */}
-                {totalPages > 1 && (
-                  <Pagination
-                    currentPage={page.value}
-                    totalPages={totalPages}
-                    onPageChange={(p) => { page.value = p; }}
+                {/* Infinite scroll */}
+                <div class="text-blue-600">
+                  <InfiniteScroll
+                    hasMore={nextCursor.value !== null}
+                    loading={loadingMore.value}
+                    onLoadMore={loadMore}
                   />
-                )}
+                </div>
               </>
             )}
           </div>
@@ -314,91 +380,4 @@ const EmptyState = ({ onReset }: EmptyStateProps) => (
   </div>
 );
 
-interface PaginationProps {
-  currentPage: number;
-  totalPages: number;
-  onPageChange: (page: number) => void;
-}
-
-/**
- * Компонент пагинации
- */
-const Pagination = ({ currentPage, totalPages, onPageChange }: PaginationProps) => {
-  const pages = [];
-  const maxVisible = 5;
-  let start = Math.max(0, currentPage - Math.floor(maxVisible / 2));
-  const end = Math.min(totalPages, start + maxVisible);
-
-  if (end - start < maxVisible) {
-    start = Math.max(0, end - maxVisible);
-  }
-
-  for (let i = start; i < end; i++) {
-    pages.push(i);
-  }
-
-  return (
-    <div class="flex items-center justify-center gap-2 mt-6">
-      <button
-        type="button"
-        onClick={() => onPageChange(currentPage - 1)}
-        disabled={currentPage === 0}
-        class="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        ← Назад
-      </button>
-
-      {start > 0 && (
-        <>
-          <button
-            type="button"
-            onClick={() => onPageChange(0)}
-            class="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
-          >
-            1
-          </button>
-          {start > 1 && <span class="text-gray-400">...</span>}
-        </>
-      )}
-
-      {pages.map((p) => (
-        <button
-          key={p}
-          type="button"
-          onClick={() => onPageChange(p)}
-          class={`px-3 py-2 text-sm border rounded-lg transition-colors ${
-            p === currentPage
-              ? 'bg-blue-600 text-white border-blue-600'
-              : 'border-gray-300 hover:bg-gray-50'
-          }`}
-        >
-          {p + 1}
-        </button>
-      ))}
-
-      {end < totalPages && (
-        <>
-          {end < totalPages - 1 && <span class="text-gray-400">...</span>}
-          <button
-            type="button"
-            onClick={() => onPageChange(totalPages - 1)}
-            class="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
-          >
-            {totalPages}
-          </button>
-        </>
-      )}
-
-      <button
-        type="button"
-        onClick={() => onPageChange(currentPage + 1)}
-        disabled={currentPage >= totalPages - 1}
-        class="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        Вперёд →
-      </button>
-    </div>
-  );
-};
-
 export default UniversityListWithFilters;
@@ -1,11 +1,17 @@
 /**
  * Контейнер для функции "Батл"
- * UI для сравнения двух университетов
+ * UI для сравнения от двух до пяти университетов
  */
 
 import { useSignal } from '@preact/signals';
 import { useEffect } from 'preact/hooks';
 import { useLanguage } from '../../contexts/LanguageContext.tsx';
+import {
+  type BattleWeights,
+  DEFAULT_BATTLE_WEIGHTS,
+  formatBattleWeights,
+} from '../../services/battle-scoring.service.ts';
+import { WeightSliders } from '../BattleMode/WeightSliders.tsx';
 
 interface University {
   id: string;
@@ -21,94 +27,109 @@ interface University {
 
 interface ComparisonResult {
   category: string;
-  uni1Value: string | number;
-  uni2Value: string | number;
-  winner: 'uni1' | 'uni2' | 'tie';
+  values: Array<string | number>;
+  /** Индексы лучших университетов (пусто — сравнить нельзя) */
+  winners: number[];
 }
 
+/**
+ * Сколько университетов можно сравнить за раз
+ */
+const MIN_SELECTED = 2;
+const MAX_SELECTED = 5;
+
+/**
+ * Подсказок в поиске; запрашивается с запасом на уже выбранные
+ */
+const SUGGESTIONS_LIMIT = 5;
+const SEARCH_DEBOUNCE = 300;
+
+/**
+ * Индексы лучших значений
+ * @param values - значения (undefined — нет данных)
+ * @param lowerIsBetter - меньше лучше (место в рейтинге)
+ */
+const findBest = (values: Array<number | undefined>, lowerIsBetter = false): number[] => {
+  const known = values.filter((v): v is number => v !== undefined && v !== null);
+  if (known.length < 2) return [];
+  const best = lowerIsBetter ? Math.min(...known) : Math.max(...known);
+  const winners = values.map((v, i) => (v === best ? i : -1)).filter((i) => i !== -1);
+  // Все равны — ничья
+  return winners.length === values.length ? [] : winners;
+};
+
 /**
  * Tab контейнер для сравнения (батла) университетов
  */
 export const BattleTab = () => {
   const { t, language } = useLanguage();
-  const universities = useSignal<University[]>([]);
-  const loading = useSignal(true);
-  const uni1 = useSignal<University | null>(null);
-  const uni2 = useSignal<University | null>(null);
-  const searchQuery1 = useSignal('');
-  const searchQuery2 = useSignal('');
+  const suggestions = useSignal<University[]>([]);
+  const selected = useSignal<University[]>([]);
+  const searchQuery = useSignal('');
+  const weights = useSignal<BattleWeights>({ ...DEFAULT_BATTLE_WEIGHTS });
   const aiComparing = useSignal(false);
-  const aiResult = useSignal<{ winner: string; recommendation: string } | null>(null);
+  const aiResult = useSignal<{ ranking: string[]; recommendation: string; shareUrl: string | null } | null>(null);
 
+  // Поиск по названию на сервере вместо загрузки всего списка
   useEffect(() => {
-    const fetchUniversities = async () => {
+    const search = searchQuery.value.trim();
+    if (!search) {
+      suggestions.value = [];
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
       try {
-        const response = await fetch('/api/universities?limit=500');
+        const params = new URLSearchParams({ search, limit: String(SUGGESTIONS_LIMIT + MAX_SELECTED) });
+        const response = await fetch(`/api/universities?${params}`, { signal: controller.signal });
         if (response.ok) {
           const data = await response.json();
-          universities.value = data.data || [];
+          suggestions.value = data.data || [];
         }
       } catch {
-        // ignore
-      } finally {
-        loading.value = false;
+        // ignore (в том числе отмену устаревшего запроса)
       }
-    };
-    fetchUniversities();
-  }, []);
+    }, SEARCH_DEBOUNCE);
 
-  const filteredUnis1 = universities.value.filter(
-    (u) =>
-      u.name.toLowerCase().includes(searchQuery1.value.toLowerCase()) &&
-      u.id !== uni2.value?.id
-  );
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery.value]);
 
-  const filteredUnis2 = universities.value.filter(
-    (u) =>
-      u.name.toLowerCase().includes(searchQuery2.value.toLowerCase()) &&
-      u.id !== uni1.value?.id
-  );
+  const selectedIds = new Set(selected.value.map((u) => u.id));
+  const filteredUnis = suggestions.value.filter((u) => !selectedIds.has(u.id));
 
-  const comparisons: ComparisonResult[] = uni1.value && uni2.value
+  const canCompare = selected.value.length >= MIN_SELECTED;
+  const comparisons: ComparisonResult[] = canCompare
     ? [
         {
           category: t('university.programs'),
-          uni1Value: uni1.value.programs_count,
-          uni2Value: uni2.value.programs_count,
-          winner:
-            uni1.value.programs_count > uni2.value.programs_count
-              ? 'uni1'
-              : uni1.value.programs_count < uni2.value.programs_count
-              ? 'uni2'
-              : 'tie',
+          values: selected.value.map((u) => u.programs_count),
+          winners: findBest(selected.value.map((u) => u.programs_count)),
         },
         {
           category: t('battle.dataCompleteness'),
-          uni1Value: `${uni1.value.completeness}%`,
-          uni2Value: `${uni2.value.completeness}%`,
-          winner:
-            uni1.value.completeness > uni2.value.completeness
-              ? 'uni1'
-              : uni1.value.completeness < uni2.value.completeness
-              ? 'uni2'
-              : 'tie',
+          values: selected.value.map((u) => `${u.completeness}%`),
+          winners: findBest(selected.value.map((u) => u.completeness)),
         },
         {
           category: t('battle.worldRanking'),
-          uni1Value: uni1.value.ranking_world || 'N/A',
-          uni2Value: uni2.value.ranking_world || 'N/A',
-          winner:
-            uni1.value.ranking_world && uni2.value.ranking_world
-              ? uni1.value.ranking_world < uni2.value.ranking_world
-                ? 'uni1'
-                : uni1.value.ranking_world > uni2.value.ranking_world
-                ? 'uni2'
-                : 'tie'
-              : 'tie',
+          values: selected.value.map((u) => u.ranking_world || 'N/A'),
+          winners: findBest(selected.value.map((u) => u.ranking_world || undefined), true),
         },
       ]
     : [];
 
+  const nameById = new Map(selected.value.map((u) => [u.id, u.name]));
+
+  const addLabel = selected.value.length === 0
+    ? t('battle.selectFirst')
+    : selected.value.length === 1
+    ? t('battle.selectSecond')
+    : t('battle.addUniversity');
+
   return (
     <div class="h-full flex flex-col bg-dark-900">
       {/* Header */}
@@ -124,65 +145,88 @@ export const BattleTab = () => {
       {/* Battle Arena */}
       <div class="flex-1 px-4 pb-8">
         <div class="max-w-5xl mx-auto">
-          <div class="grid md:grid-cols-2 gap-6">
-            {/* University 1 Selector */}
-            <UniversitySelector
-              label={t('battle.selectFirst')}
-              searchPlaceholder={t('battle.searchPlaceholder')}
-              programsLabel={t('university.programsCount')}
-              dataLabel={t('filters.activeFilters')}
-              selected={uni1.value}
-              searchQuery={searchQuery1.value}
-              onSearchChange={(q) => { searchQuery1.value = q; }}
-              filteredUniversities={filteredUnis1.slice(0, 5)}
-              onSelect={(u) => {
-                uni1.value = u;
-                searchQuery1.value = '';
-                aiResult.value = null;
-              }}
-              onClear={() => { uni1.value = null; aiResult.value = null; }}
-              color="blue"
-            />
+          <div class="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {selected.value.map((uni, index) => (
+              <UniversitySelector
+                key={uni.id}
+                label=""
+                searchPlaceholder={t('battle.searchPlaceholder')}
+                programsLabel={t('university.programsCount')}
+                dataLabel={t('filters.activeFilters')}
+                selected={uni}
+                searchQuery=""
+                onSearchChange={() => {}}
+                filteredUniversities={[]}
+                onSelect={() => {}}
+                onClear={() => {
+                  selected.value = selected.value.filter((u) => u.id !== uni.id);
+                  aiResult.value = null;
+                }}
+                color={index % 2 === 0 ? 'blue' : 'red'}
+              />
+            ))}
 
-            {/* University 2 Selector */}
-            <UniversitySelector
-              label={t('battle.selectSecond')}
-              searchPlaceholder={t('battle.searchPlaceholder')}
-              programsLabel={t('university.programsCount')}
-              dataLabel={t('filters.activeFilters')}
-              selected={uni2.value}
-              searchQuery={searchQuery2.value}
-              onSearchChange={(q) => { searchQuery2.value = q; }}
-              filteredUniversities={filteredUnis2.slice(0, 5)}
-              onSelect={(u) => {
-                uni2.value = u;
-                searchQuery2.value = '';
-                aiResult.value = null;
-              }}
-              onClear={() => { uni2.value = null; aiResult.value = null; }}
-              color="red"
-            />
+            {/* Добавить университет */}
+            {selected.value.length < MAX_SELECTED && (
+              <UniversitySelector
+                label={addLabel}
+                searchPlaceholder={t('battle.searchPlaceholder')}
+                programsLabel={t('university.programsCount')}
+                dataLabel={t('filters.activeFilters')}
+                selected={null}
+                searchQuery={searchQuery.value}
+                onSearchChange={(q) => { searchQuery.value = q; }}
+                filteredUniversities={filteredUnis.slice(0, SUGGESTIONS_LIMIT)}
+                onSelect={(u) => {
+                  selected.value = [...selected.value, u];
+                  searchQuery.value = '';
+                  aiResult.value = null;
+                }}
+                onClear={() => {}}
+                color={selected.value.length % 2 === 0 ? 'blue' : 'red'}
+              />
+            )}
           </div>
 
+          {/* Веса критериев для AI сравнения */}
+          {canCompare && (
+            <div class="mt-6 p-4 bg-dark-800 rounded-2xl border border-dark-600">
+              <WeightSliders
+                weights={weights.value}
+                onChange={(next) => {
+                  weights.value = next;
+                  aiResult.value = null;
+                }}
+                language={language.value}
+                title={`⚖️ ${t('battle.weights')}`}
+                resetLabel={t('battle.resetWeights')}
+                dark
+              />
+            </div>
+          )}
+
           {/* AI Compare Button */}
-          {uni1.value && uni2.value && !aiResult.value && (
+          {canCompare && !aiResult.value && (
             <div class="mt-6 text-center">
               <button
                 type="button"
                 onClick={async () => {
-                  if (!uni1.value || !uni2.value) return;
+                  if (selected.value.length < MIN_SELECTED) return;
                   aiComparing.value = true;
                   try {
-                    const response = await fetch(
-                      `/api/universities/compare?id1=${uni1.value.id}&id2=${uni2.value.id}&language=${language.value}`
-                    );
+                    const params = new URLSearchParams({
+                      ids: selected.value.map((u) => u.id).join(','),
+                      language: language.value,
+                    });
+                    const weightsParam = formatBattleWeights(weights.value);
+                    if (weightsParam) params.set('weights', weightsParam);
+                    const response = await fetch(`/api/universities/compare?${params}`);
                     const data = await response.json();
                     if (data.success && data.result) {
                       aiResult.value = {
-                        winner: data.result.overallWinner === 'A' ? uni1.value.name 
-                               : data.result.overallWinner === 'B' ? uni2.value.name 
-                               : t('battle.tie'),
+                        ranking: data.result.ranking || [],
                         recommendation: data.result.recommendation || '',
+                        shareUrl: data.share_url ?? null,
                       };
                     }
                   } catch {
@@ -212,52 +256,72 @@ export const BattleTab = () => {
               <div class="text-center">
                 <span class="text-3xl">🏆</span>
                 <h3 class="text-xl font-bold text-white mt-2">
-                  {aiResult.value.winner}
+                  {nameById.get(aiResult.value.ranking[0])}
                 </h3>
+                {aiResult.value.ranking.length > 2 && (
+                  <ol class="mt-3 inline-block text-left text-sm text-gray-300 space-y-1">
+                    {aiResult.value.ranking.map((id, i) => (
+                      <li key={id}>
+                        <span class="text-gray-500">{i + 1}.</span> {nameById.get(id)}
+                      </li>
+                    ))}
+                  </ol>
+                )}
                 {aiResult.value.recommendation && (
                   <p class="text-gray-400 mt-2">{aiResult.value.recommendation}</p>
                 )}
+                {aiResult.value.shareUrl && (
+                  <a
+                    href={aiResult.value.shareUrl}
+                    target="_blank"
+                    class="inline-block mt-4 px-4 py-2 text-sm text-cyber-400 border border-cyber-500/40 rounded-lg hover:bg-cyber-500/10 transition-colors"
+                  >
+                    🔗 {t('battle.share')}
+                  </a>
+                )}
               </div>
             </div>
           )}
 
           {/* Comparison Results */}
-          {uni1.value && uni2.value && (
-            <div class="mt-8 bg-dark-800 rounded-2xl border border-dark-600 overflow-hidden">
+          {canCompare && (
+            <div class="mt-8 bg-dark-800 rounded-2xl border border-dark-600 overflow-x-auto">
               <div class="bg-gradient-to-r from-cyber-600 to-neon-600 text-white text-center py-4">
                 <h2 class="text-lg font-semibold">{t('battle.results')}</h2>
               </div>
-              <div class="divide-y divide-dark-600">
-                {comparisons.map((comp) => (
-                  <div
-                    key={comp.category}
-                    class="grid grid-cols-3 py-4 px-4 text-center items-center"
-                  >
-                    <div
-                      class={`font-semibold ${
-                        comp.winner === 'uni1' ? 'text-cyber-400' : 'text-gray-400'
-                      }`}
-                    >
-                      {comp.uni1Value}
-                      {comp.winner === 'uni1' && <span class="ml-1">🏆</span>}
-                    </div>
-                    <div class="text-gray-500 font-medium">{comp.category}</div>
-                    <div
-                      class={`font-semibold ${
-                        comp.winner === 'uni2' ? 'text-neon-400' : 'text-gray-400'
-                      }`}
-                    >
-                      {comp.uni2Value}
-                      {comp.winner === 'uni2' && <span class="ml-1">🏆</span>}
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <table class="w-full text-center">
+                <thead>
+                  <tr class="border-b border-dark-600">
+                    <th class="py-3 px-4 text-gray-500 font-medium">{t('battle.category')}</th>
+                    {selected.value.map((u) => (
+                      <th key={u.id} class="py-3 px-4 text-gray-300 font-medium text-sm">{u.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody class="divide-y divide-dark-600">
+                  {comparisons.map((comp) => (
+                    <tr key={comp.category}>
+                      <td class="py-4 px-4 text-gray-500 font-medium">{comp.category}</td>
+                      {comp.values.map((value, i) => (
+                        <td
+                          key={selected.value[i].id}
+                          class={`py-4 px-4 font-semibold ${
+                            comp.winners.includes(i) ? 'text-cyber-400' : 'text-gray-400'
+                          }`}
+                        >
+                          {value}
+                          {comp.winners.includes(i) && <span class="ml-1">🏆</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           )}
 
           {/* Empty State */}
-          {(!uni1.value || !uni2.value) && (
+          {!canCompare && (
             <div class="mt-8 text-center py-12 bg-dark-800 rounded-2xl border border-dashed border-dark-600">
               <span class="text-4xl">⚔️</span>
               <p class="mt-4 text-gray-500">
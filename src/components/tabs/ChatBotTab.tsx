@@ -6,18 +6,21 @@
 import { useSignal } from '@preact/signals';
 import { useEffect, useRef } from 'preact/hooks';
 import { useLanguage } from '../../contexts/LanguageContext.tsx';
+import { streamChatMessage } from '../ChatBot/chatStream.ts';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  /** Университеты из базы, на которые ссылается ответ */
+  citations?: Array<{ id: string; name: string }>;
 }
 
 /**
  * Tab контейнер для чат-бота
  */
-const CHAT_STORAGE_KEY = 'university_chat_history';
+const CHAT_SESSION_KEY = 'university_chat_session_id';
 
 export const ChatBotTab = () => {
   const { t } = useLanguage();
@@ -26,58 +29,63 @@ export const ChatBotTab = () => {
   const isLoading = useSignal(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const isInitialized = useSignal(false);
+  const sessionId = useSignal<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Загрузка истории из localStorage или инициализация приветствия
+  // Восстановление разговора из сохранённой сессии или приветствие
   useEffect(() => {
-    if (!isInitialized.value) {
-      try {
-        const saved = localStorage.getItem(CHAT_STORAGE_KEY);
-        if (saved) {
-          const parsed = JSON.parse(saved);
-          if (Array.isArray(parsed) && parsed.length > 0) {
-            messages.value = parsed.map((m: Message) => ({
-              ...m,
-              timestamp: new Date(m.timestamp),
-            }));
-            isInitialized.value = true;
-            return;
-          }
+    if (isInitialized.value) return;
+    isInitialized.value = true;
+
+    const greeting: Message = {
+      id: '1',
+      role: 'assistant',
+      content: t('chat.greeting'),
+      timestamp: new Date(),
+    };
+    messages.value = [greeting];
+
+    const savedId = localStorage.getItem(CHAT_SESSION_KEY);
+    if (!savedId) return;
+
+    fetch(`/api/chat/sessions/${savedId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) {
+          localStorage.removeItem(CHAT_SESSION_KEY);
+          return;
         }
-      } catch {
+        sessionId.value = data.sessionId;
+        messages.value = [
+          greeting,
+          ...data.messages.map((m: Omit<Message, 'id' | 'timestamp'> & { timestamp: string }, i: number) => ({
+            id: `${data.sessionId}-${i}`,
+            role: m.role,
+            content: m.content,
+            timestamp: new Date(m.timestamp),
+            citations: m.citations,
+          })),
+        ];
+      })
+      .catch(() => {
         // ignore
-      }
-      
-      // Если нет сохранённых сообщений — показать приветствие
-      messages.value = [{
-        id: '1',
-        role: 'assistant',
-        content: t('chat.greeting'),
-        timestamp: new Date(),
-      }];
-      isInitialized.value = true;
-    }
+      });
   }, [t]);
 
-  // Сохранение в localStorage при изменении сообщений
-  useEffect(() => {
-    if (isInitialized.value && messages.value.length > 0) {
-      try {
-        localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(messages.value));
-      } catch {
-        // ignore
-      }
-    }
-  }, [messages.value]);
-
   // Очистка чата
   const handleClearChat = () => {
+    abortRef.current?.abort();
     messages.value = [{
       id: Date.now().toString(),
       role: 'assistant',
       content: t('chat.greeting'),
       timestamp: new Date(),
     }];
-    localStorage.removeItem(CHAT_STORAGE_KEY);
+    if (sessionId.value) {
+      fetch(`/api/chat/sessions/${sessionId.value}`, { method: 'DELETE' }).catch(() => {});
+      sessionId.value = null;
+    }
+    localStorage.removeItem(CHAT_SESSION_KEY);
   };
 
   const scrollToBottom = () => {
@@ -86,7 +94,7 @@ export const ChatBotTab = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages.value.length]);
+  }, [messages.value.length, messages.value[messages.value.length - 1]?.content]);
 
   const handleSend = async () => {
     if (!inputValue.value.trim() || isLoading.value) return;
@@ -103,45 +111,63 @@ export const ChatBotTab = () => {
     inputValue.value = '';
     isLoading.value = true;
 
-    try {
-      // Вызов реального API чат-бота
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: userInput,
-          history: messages.value.slice(-10).map(m => ({
-            role: m.role,
-            content: m.content,
-            timestamp: m.timestamp,
-          })),
-          language: 'ru',
-        }),
-      });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const assistantId = (Date.now() + 1).toString();
+    let streamed = '';
+
+    const upsertAssistant = (patch: Partial<Message>) => {
+      const exists = messages.value.some((m) => m.id === assistantId);
+      messages.value = exists
+        ? messages.value.map((m) => (m.id === assistantId ? { ...m, ...patch } : m))
+        : [...messages.value, {
+          id: assistantId,
+          role: 'assistant',
+          content: '',
+          timestamp: new Date(),
+          ...patch,
+        }];
+    };
 
-      const data = await response.json();
+    try {
+      // Потоковый ответ чат-бота: текст появляется по мере генерации
+      const result = await streamChatMessage(
+        { message: userInput, sessionId: sessionId.value, language: 'ru' },
+        {
+          onSession: (id) => {
+            if (id !== sessionId.value) {
+              sessionId.value = id;
+              localStorage.setItem(CHAT_SESSION_KEY, id);
+            }
+          },
+          onToken: (token) => {
+            streamed += token;
+            upsertAssistant({ content: streamed });
+          },
+        },
+        controller.signal
+      );
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.success ? data.response : getPlaceholderResponse(userInput),
-        timestamp: new Date(),
-      };
-      messages.value = [...messages.value, assistantMessage];
+      upsertAssistant({ content: result.response, citations: result.citations });
     } catch {
+      if (controller.signal.aborted) {
+        // Остановлено пользователем: оставляем то, что успело прийти
+        if (streamed) upsertAssistant({ content: `${streamed}…` });
+        return;
+      }
+
       // Fallback на placeholder если API недоступен
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: getPlaceholderResponse(userInput),
-        timestamp: new Date(),
-      };
-      messages.value = [...messages.value, assistantMessage];
+      upsertAssistant({ content: getPlaceholderResponse(userInput) });
     } finally {
       isLoading.value = false;
+      abortRef.current = null;
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -165,8 +191,8 @@ export const ChatBotTab = () => {
             <MessageBubble key={msg.id} message={msg} />
           ))}
           
-          {/* Loading indicator */}
-          {isLoading.value && (
+          {/* Loading indicator (до первого фрагмента ответа) */}
+          {isLoading.value && messages.value[messages.value.length - 1]?.role === 'user' && (
             <div class="flex items-start gap-3">
               <div class="w-8 h-8 bg-gradient-to-br from-cyber-400 to-cyber-600 rounded-full flex items-center justify-center text-white text-sm shadow-glow-sm">
                 🤖
@@ -228,15 +254,26 @@ export const ChatBotTab = () => {
               disabled={isLoading.value}
               class="flex-1 px-4 py-3 bg-dark-700 border border-dark-600 text-white rounded-xl focus:ring-2 focus:ring-cyber-500/20 focus:border-cyber-500 outline-none disabled:bg-dark-800 placeholder:text-gray-500 transition-all"
             />
-            <button
-              type="button"
-              onClick={handleSend}
-              disabled={!inputValue.value.trim() || isLoading.value}
-              class="px-6 py-3 bg-cyber-500 text-dark-900 font-medium rounded-xl hover:bg-cyber-400 hover:shadow-glow disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-            >
-              <span class="hidden sm:inline">{t('chat.send')}</span>
-              <span class="sm:hidden">➤</span>
-            </button>
+            {isLoading.value ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                class="px-6 py-3 bg-dark-700 border border-dark-600 text-gray-200 font-medium rounded-xl hover:border-red-500/50 hover:text-red-400 transition-all"
+              >
+                <span class="hidden sm:inline">{t('chat.stop')}</span>
+                <span class="sm:hidden">■</span>
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleSend}
+                disabled={!inputValue.value.trim()}
+                class="px-6 py-3 bg-cyber-500 text-dark-900 font-medium rounded-xl hover:bg-cyber-400 hover:shadow-glow disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                <span class="hidden sm:inline">{t('chat.send')}</span>
+                <span class="sm:hidden">➤</span>
+              </button>
+            )}
           </div>
           <p class="text-xs text-gray-500 mt-3 text-center">
             {t('chat.disclaimer')}
@@ -274,6 +311,19 @@ const MessageBubble = ({ message }: MessageBubbleProps) => {
         }`}
       >
         <p class="whitespace-pre-wrap">{message.content}</p>
+        {message.citations && message.citations.length > 0 && (
+          <div class="flex flex-wrap gap-2 mt-3">
+            {message.citations.map((c, i) => (
+              <a
+                key={c.id}
+                href={`/universities/${c.id}`}
+                class="text-xs px-2 py-1 rounded-lg bg-dark-700 border border-dark-600 text-cyber-400 hover:border-cyber-500 transition-colors"
+              >
+                [{i + 1}] {c.name}
+              </a>
+            ))}
+          </div>
+        )}
         <p
           class={`text-xs mt-2 ${
             isUser ? 'text-neon-200' : 'text-gray-500'
@@ -0,0 +1,305 @@
+/**
+ * Контейнер для функции "Программы"
+ * Поиск программ обучения по всем университетам
+ */
+
+import { useSignal } from '@preact/signals';
+import { useEffect } from 'preact/hooks';
+import { useLanguage } from '../../contexts/LanguageContext.tsx';
+import type { ProgramSearchHit } from '../../services/programs.service.ts';
+import { DISPLAY_CURRENCIES } from '../../utils/currency.ts';
+
+interface ProgramFilters {
+  q: string;
+  degreeLevel: string;
+  language: string;
+  maxDuration: string;
+  maxTuition: string;
+  currency: string;
+  deadlineFrom: string;
+}
+
+const EMPTY_FILTERS: ProgramFilters = {
+  q: '',
+  degreeLevel: '',
+  language: '',
+  maxDuration: '',
+  maxTuition: '',
+  currency: 'USD',
+  deadlineFrom: '',
+};
+
+const PAGE_SIZE = 20;
+const FILTER_DEBOUNCE = 300;
+
+const DEGREE_LEVELS = [
+  { value: 'Bachelor', labelKey: 'programs.bachelor' },
+  { value: 'Master', labelKey: 'programs.master' },
+  { value: 'PhD', labelKey: 'programs.phd' },
+  { value: 'Diploma', labelKey: 'programs.diploma' },
+];
+
+const inputClass =
+  'w-full px-4 py-2.5 bg-dark-700 border border-dark-600 text-white rounded-lg focus:ring-2 focus:ring-cyber-500/20 focus:border-cyber-500 outline-none placeholder:text-gray-500 transition-all';
+
+/**
+ * Параметры запроса /api/programs
+ */
+const buildParams = (filters: ProgramFilters, offset: number): URLSearchParams => {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.degreeLevel) params.set('degree_level', filters.degreeLevel);
+  if (filters.language.trim()) params.set('language', filters.language.trim());
+  if (filters.maxDuration) params.set('max_duration', filters.maxDuration);
+  if (filters.maxTuition) params.set('max_tuition', filters.maxTuition);
+  // Валюта нужна и без фильтра: в ней показывается стоимость в карточках
+  params.set('currency', filters.currency);
+  if (filters.deadlineFrom) params.set('deadline_from', filters.deadlineFrom);
+  return params;
+};
+
+/**
+ * Tab контейнер для поиска программ
+ */
+export const ProgramsTab = () => {
+  const { t } = useLanguage();
+  const filters = useSignal<ProgramFilters>(EMPTY_FILTERS);
+  const programs = useSignal<ProgramSearchHit[]>([]);
+  const total = useSignal(0);
+  const loading = useSignal(true);
+  const loadingMore = useSignal(false);
+
+  const updateFilter = (key: keyof ProgramFilters, value: string) => {
+    filters.value = { ...filters.value, [key]: value };
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loading.value = true;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/programs?${buildParams(filters.value, 0)}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = await response.json();
+          programs.value = data.data || [];
+          total.value = data.total || 0;
+        }
+      } catch {
+        // ignore (в том числе отмену устаревшего запроса)
+      } finally {
+        if (!controller.signal.aborted) loading.value = false;
+      }
+    }, FILTER_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [filters.value]);
+
+  const loadMore = async () => {
+    loadingMore.value = true;
+    try {
+      const response = await fetch(`/api/programs?${buildParams(filters.value, programs.value.length)}`);
+      if (response.ok) {
+        const data = await response.json();
+        programs.value = [...programs.value, ...(data.data || [])];
+        total.value = data.total || total.value;
+      }
+    } catch {
+      // ignore
+    } finally {
+      loadingMore.value = false;
+    }
+  };
+
+  return (
+    <div class="h-full flex flex-col bg-dark-900">
+      {/* Filters */}
+      <div class="bg-dark-800 border-b border-dark-600 p-4">
+        <div class="max-w-6xl mx-auto space-y-3">
+          <input
+            type="text"
+            placeholder={t('programs.searchPlaceholder')}
+            value={filters.value.q}
+            onInput={(e) => updateFilter('q', (e.target as HTMLInputElement).value)}
+            class={inputClass}
+          />
+
+          <div class="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            <select
+              value={filters.value.degreeLevel}
+              onChange={(e) => updateFilter('degreeLevel', (e.target as HTMLSelectElement).value)}
+              class={inputClass}
+            >
+              <option value="">{t('programs.anyDegree')}</option>
+              {DEGREE_LEVELS.map((level) => (
+                <option key={level.value} value={level.value}>{t(level.labelKey)}</option>
+              ))}
+            </select>
+
+            <input
+              type="text"
+              placeholder={t('programs.languagePlaceholder')}
+              value={filters.value.language}
+              onInput={(e) => updateFilter('language', (e.target as HTMLInputElement).value)}
+              class={inputClass}
+            />
+
+            <select
+              value={filters.value.maxDuration}
+              onChange={(e) => updateFilter('maxDuration', (e.target as HTMLSelectElement).value)}
+              class={inputClass}
+            >
+              <option value="">{t('programs.anyDuration')}</option>
+              {[1, 2, 3, 4, 5, 6].map((years) => (
+                <option key={years} value={String(years)}>≤ {years} {t('programs.years')}</option>
+              ))}
+            </select>
+
+            <div class="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                placeholder={t('programs.maxTuition')}
+                value={filters.value.maxTuition}
+                onInput={(e) => updateFilter('maxTuition', (e.target as HTMLInputElement).value)}
+                class={inputClass}
+              />
+              <select
+                value={filters.value.currency}
+                onChange={(e) => updateFilter('currency', (e.target as HTMLSelectElement).value)}
+                class="px-2 py-2.5 bg-dark-700 border border-dark-600 text-white rounded-lg outline-none"
+              >
+                {DISPLAY_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+
+            <label class="flex flex-col gap-1 text-xs text-gray-500">
+              {t('programs.deadlineFrom')}
+              <input
+                type="date"
+                value={filters.value.deadlineFrom}
+                onInput={(e) => updateFilter('deadlineFrom', (e.target as HTMLInputElement).value)}
+                class={inputClass}
+              />
+            </label>
+          </div>
+
+          <div class="flex items-center justify-between text-sm text-gray-500">
+            <span>
+              {t('programs.found')}: <span class="text-cyber-400">{total.value}</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => (filters.value = EMPTY_FILTERS)}
+              class="hover:text-cyber-400 transition-colors"
+            >
+              {t('filters.resetFilters')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Programs List */}
+      <div class="flex-1 overflow-y-auto p-4 scrollbar-thin">
+        <div class="max-w-6xl mx-auto">
+          {loading.value && programs.value.length === 0 ? (
+            <div class="flex items-center justify-center py-12">
+              <div class="animate-spin w-8 h-8 border-4 border-cyber-500 border-t-transparent rounded-full" />
+            </div>
+          ) : programs.value.length === 0 ? (
+            <div class="text-center py-12">
+              <span class="text-4xl">🎓</span>
+              <p class="mt-4 text-gray-500">{t('programs.noResults')}</p>
+            </div>
+          ) : (
+            <>
+              <div class={`grid gap-4 md:grid-cols-2 lg:grid-cols-3 transition-opacity ${loading.value ? 'opacity-60' : ''}`}>
+                {programs.value.map((hit) => (
+                  <ProgramCard key={`${hit.university.id}-${hit.program.id}-${hit.program.name}`} hit={hit} />
+                ))}
+              </div>
+
+              {programs.value.length < total.value && (
+                <div class="text-center mt-6">
+                  <button
+                    type="button"
+                    onClick={loadMore}
+                    disabled={loadingMore.value}
+                    class="px-6 py-2.5 bg-dark-800 border border-dark-600 text-gray-300 rounded-lg hover:border-cyber-500/50 hover:text-cyber-400 disabled:opacity-50 transition-all"
+                  >
+                    {loadingMore.value ? t('common.loading') : t('common.showMore')}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ProgramCardProps {
+  hit: ProgramSearchHit;
+}
+
+/**
+ * Карточка программы со ссылкой на профиль университета
+ */
+const ProgramCard = ({ hit }: ProgramCardProps) => {
+  const { t } = useLanguage();
+  const { program, university } = hit;
+  const tuition = program.tuition;
+  const converted = hit.converted_tuition;
+
+  const formatTuition = (amount: number, currency: string, perYear?: boolean) =>
+    `${amount.toLocaleString('ru-RU')} ${currency}${perYear ? ` ${t('programs.perYear')}` : ''}`;
+
+  return (
+    <a
+      href={`/universities/${university.id}`}
+      class="block p-4 bg-dark-800 border border-dark-600 rounded-xl hover:border-cyber-500/50 hover:shadow-glow transition-all duration-200 group"
+    >
+      <div class="flex items-start justify-between gap-2 mb-1">
+        <h3 class="font-semibold text-white line-clamp-2 group-hover:text-cyber-400 transition-colors">
+          {program.name}
+        </h3>
+        {program.degree_level && (
+          <span class="shrink-0 px-2 py-0.5 text-xs bg-cyber-500/10 text-cyber-400 rounded-full">
+            {program.degree_level}
+          </span>
+        )}
+      </div>
+      <p class="text-sm text-gray-400 line-clamp-1">🏛 {university.name}</p>
+      <p class="text-xs text-gray-500 mt-1">📍 {university.country}, {university.city}</p>
+
+      <div class="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+        {program.language && <span>🗣 {program.language}</span>}
+        {typeof program.duration_years === 'number' && (
+          <span>⏱ {program.duration_years} {t('programs.years')}</span>
+        )}
+        {tuition && typeof tuition.amount === 'number' && (
+          <span title={converted ? formatTuition(tuition.amount, tuition.currency, tuition.per_year) : undefined}>
+            💰 {tuition.amount === 0
+              ? t('programs.free')
+              : converted
+              ? formatTuition(converted.amount, converted.currency, converted.per_year)
+              : formatTuition(tuition.amount, tuition.currency, tuition.per_year)}
+          </span>
+        )}
+        {program.application_deadline && (
+          <span>📅 {t('programs.deadline')}: {program.application_deadline}</span>
+        )}
+      </div>
+    </a>
+  );
+};
+
+export default ProgramsTab;
@@ -7,6 +7,7 @@ import { useSignal } from '@preact/signals';
 import { useEffect } from 'preact/hooks';
 import UniversitySearch from '../../../islands/UniversitySearch.tsx';
 import { useLanguage } from '../../contexts/LanguageContext.tsx';
+import type { ContentSearchHit } from '../../services/full-text-search.service.ts';
 
 interface University {
   id: string;
@@ -17,14 +18,25 @@ interface University {
   completeness: number;
 }
 
+/**
+ * Задержка перед запросом полнотекстового поиска (мс)
+ */
+const CONTENT_SEARCH_DEBOUNCE = 300;
+
 /**
  * Tab контейнер для умного AI-поиска университетов
  */
 export const SmartSearchTab = () => {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const universities = useSignal<University[]>([]);
   const loading = useSignal(true);
 
+  // Полнотекстовый поиск по описаниям, программам и специализациям
+  const contentQuery = useSignal('');
+  const contentResults = useSignal<ContentSearchHit[] | null>(null);
+  const contentTotal = useSignal(0);
+  const contentLoading = useSignal(false);
+
   // Загрузить последние университеты
   useEffect(() => {
     const fetchUniversities = async () => {
@@ -43,6 +55,38 @@ export const SmartSearchTab = () => {
     fetchUniversities();
   }, []);
 
+  useEffect(() => {
+    const q = contentQuery.value.trim();
+    if (q.length < 2) {
+      contentResults.value = null;
+      contentLoading.value = false;
+      return;
+    }
+
+    const controller = new AbortController();
+    contentLoading.value = true;
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q, language: language.value, limit: '12' });
+        const response = await fetch(`/api/search?${params}`, { signal: controller.signal });
+        if (response.ok) {
+          const data = await response.json();
+          contentResults.value = data.results || [];
+          contentTotal.value = data.total || 0;
+        }
+      } catch {
+        // ignore (в том числе отмену устаревшего запроса)
+      } finally {
+        if (!controller.signal.aborted) contentLoading.value = false;
+      }
+    }, CONTENT_SEARCH_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [contentQuery.value, language.value]);
+
   return (
     <div class="h-full flex flex-col overflow-y-auto scrollbar-thin">
       {/* Hero Section */}
@@ -66,62 +110,83 @@ export const SmartSearchTab = () => {
       {/* Universities List */}
       <div class="flex-1 py-8 px-4 bg-dark-900">
         <div class="max-w-5xl mx-auto">
-          <div class="flex items-center justify-between mb-6">
-            <h2 class="text-lg font-semibold text-white flex items-center gap-2">
-              <span class="text-cyber-400">📚</span> {t('base.title')}
-              {!loading.value && (
-                <span class="ml-2 text-sm font-normal text-gray-500">
-                  ({universities.value.length})
-                </span>
-              )}
-            </h2>
+          {/* Поиск по содержимому профилей */}
+          <div class="mb-6">
+            <input
+              type="search"
+              value={contentQuery.value}
+              onInput={(e) => (contentQuery.value = (e.target as HTMLInputElement).value)}
+              placeholder={t('search.contentPlaceholder')}
+              class="w-full px-4 py-3 bg-dark-800 border border-dark-600 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:border-cyber-500"
+            />
           </div>
 
-          {loading.value ? (
-            <div class="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {[1, 2, 3, 4, 5, 6].map((i) => (
-                <div key={i} class="bg-dark-800 rounded-xl p-4 border border-dark-600 animate-shimmer">
-                  <div class="h-5 bg-dark-700 rounded w-3/4 mb-2" />
-                  <div class="h-4 bg-dark-700 rounded w-1/2" />
+          {contentResults.value !== null ? (
+            <ContentSearchResults
+              results={contentResults.value}
+              total={contentTotal.value}
+              loading={contentLoading.value}
+            />
+          ) : (
+            <>
+              <div class="flex items-center justify-between mb-6">
+                <h2 class="text-lg font-semibold text-white flex items-center gap-2">
+                  <span class="text-cyber-400">📚</span> {t('base.title')}
+                  {!loading.value && (
+                    <span class="ml-2 text-sm font-normal text-gray-500">
+                      ({universities.value.length})
+                    </span>
+                  )}
+                </h2>
+              </div>
+
+              {loading.value ? (
+                <div class="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {[1, 2, 3, 4, 5, 6].map((i) => (
+                    <div key={i} class="bg-dark-800 rounded-xl p-4 border border-dark-600 animate-shimmer">
+                      <div class="h-5 bg-dark-700 rounded w-3/4 mb-2" />
+                      <div class="h-4 bg-dark-700 rounded w-1/2" />
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          ) : universities.value.length > 0 ? (
-            <div class="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {universities.value.map((uni) => (
-                <a
-                  key={uni.id}
-                  href={`/universities/${uni.id}`}
-                  class="bg-dark-800 rounded-xl p-4 border border-dark-600 hover:border-cyber-500/50 hover:shadow-glow transition-all group"
-                >
-                  <h3 class="font-semibold text-white group-hover:text-cyber-400 line-clamp-2 transition-colors">
-                    {uni.name}
-                  </h3>
-                  <p class="text-sm text-gray-500 mt-1">
-                    📍 {uni.country}, {uni.city}
-                  </p>
-                  <div class="flex items-center gap-3 mt-3 text-xs text-gray-500">
-                    <span>{uni.programs_count} программ</span>
-                    <span class="flex items-center gap-1">
-                      <div 
-                        class="w-12 h-1.5 bg-dark-600 rounded-full overflow-hidden"
-                      >
-                        <div 
-                          class="h-full bg-gradient-to-r from-cyber-500 to-matrix-500 rounded-full"
-                          style={{ width: `${uni.completeness}%` }}
-                        />
+              ) : universities.value.length > 0 ? (
+                <div class="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {universities.value.map((uni) => (
+                    <a
+                      key={uni.id}
+                      href={`/universities/${uni.id}`}
+                      class="bg-dark-800 rounded-xl p-4 border border-dark-600 hover:border-cyber-500/50 hover:shadow-glow transition-all group"
+                    >
+                      <h3 class="font-semibold text-white group-hover:text-cyber-400 line-clamp-2 transition-colors">
+                        {uni.name}
+                      </h3>
+                      <p class="text-sm text-gray-500 mt-1">
+                        📍 {uni.country}, {uni.city}
+                      </p>
+                      <div class="flex items-center gap-3 mt-3 text-xs text-gray-500">
+                        <span>{uni.programs_count} программ</span>
+                        <span class="flex items-center gap-1">
+                          <div 
+                            class="w-12 h-1.5 bg-dark-600 rounded-full overflow-hidden"
+                          >
+                            <div 
+                              class="h-full bg-gradient-to-r from-cyber-500 to-matrix-500 rounded-full"
+                              style={{ width: `${uni.completeness}%` }}
+                            />
+                          </div>
+                          {uni.completeness}%
+                        </span>
                       </div>
-                      {uni.completeness}%
-                    </span>
-                  </div>
-                </a>
-              ))}
-            </div>
-          ) : (
-            <div class="text-center py-12 text-gray-500">
-              <span class="text-4xl">📭</span>
-              <p class="mt-4">{t('common.noResults')}</p>
-            </div>
+                    </a>
+                  ))}
+                </div>
+              ) : (
+                <div class="text-center py-12 text-gray-500">
+                  <span class="text-4xl">📭</span>
+                  <p class="mt-4">{t('common.noResults')}</p>
+                </div>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -164,4 +229,58 @@ export const SmartSearchTab = () => {
   );
 };
 
+interface ContentSearchResultsProps {
+  results: ContentSearchHit[];
+  total: number;
+  loading: boolean;
+}
+
+/**
+ * Результаты полнотекстового поиска с подсвеченными фрагментами
+ */
+const ContentSearchResults = ({ results, total, loading }: ContentSearchResultsProps) => {
+  const { t } = useLanguage();
+
+  if (results.length === 0) {
+    return (
+      <div class="text-center py-12 text-gray-500">
+        <span class="text-4xl">{loading ? '⏳' : '📭'}</span>
+        <p class="mt-4">{loading ? t('common.loading') : t('search.contentEmpty')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div class={`space-y-3 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+      <h2 class="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+        <span class="text-cyber-400">🔎</span> {t('search.contentResults')}
+        <span class="ml-2 text-sm font-normal text-gray-500">({total})</span>
+      </h2>
+      {results.map((hit) => (
+        <a
+          key={hit.id}
+          href={`/universities/${hit.id}`}
+          class="block bg-dark-800 rounded-xl p-4 border border-dark-600 hover:border-cyber-500/50 hover:shadow-glow transition-all group"
+        >
+          <h3 class="font-semibold text-white group-hover:text-cyber-400 transition-colors">
+            {hit.name}
+          </h3>
+          <p class="text-sm text-gray-500 mt-1">
+            📍 {hit.country}, {hit.city}
+          </p>
+          {hit.snippet.length > 0 && (
+            <p class="text-sm text-gray-400 mt-2 line-clamp-3">
+              {hit.snippet.map((part, i) =>
+                part.highlight
+                  ? <mark key={i} class="bg-cyber-500/20 text-cyber-300 rounded px-0.5">{part.text}</mark>
+                  : <span key={i}>{part.text}</span>
+              )}
+            </p>
+          )}
+        </a>
+      ))}
+    </div>
+  );
+};
+
 export default SmartSearchTab;
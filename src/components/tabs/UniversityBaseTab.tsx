@@ -4,8 +4,9 @@
  */
 
 import { useSignal } from '@preact/signals';
-import { useEffect } from 'preact/hooks';
+import { useCallback, useEffect } from 'preact/hooks';
 import { useLanguage } from '../../contexts/LanguageContext.tsx';
+import { InfiniteScroll } from '../InfiniteScroll.tsx';
 
 interface University {
   id: string;
@@ -20,48 +21,124 @@ interface University {
 interface Filters {
   country: string;
   search: string;
+  sort: string;
 }
 
+const PAGE_SIZE = 24;
+const FILTER_DEBOUNCE = 300;
+
+/**
+ * Варианты сортировки /api/universities
+ */
+const SORT_OPTIONS = [
+  { value: 'name', labelKey: 'filters.sortName' },
+  { value: 'ranking', labelKey: 'filters.sortRanking' },
+  { value: 'tuition', labelKey: 'filters.sortTuition' },
+  { value: 'student_count', labelKey: 'filters.sortStudentCount' },
+  { value: 'founded_year', labelKey: 'filters.sortFoundedYear' },
+  { value: 'completeness', labelKey: 'filters.sortCompleteness' },
+  { value: 'updated_at', labelKey: 'filters.sortUpdatedAt' },
+];
+
+const selectClass =
+  'w-full px-4 py-2.5 bg-dark-700 border border-dark-600 text-white rounded-lg focus:ring-2 focus:ring-cyber-500/20 focus:border-cyber-500 outline-none transition-all';
+
+/**
+ * Параметры запроса страницы списка
+ */
+const buildParams = (filters: Filters, cursor: string | null): URLSearchParams => {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort: filters.sort });
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.country) params.set('country', filters.country);
+  if (cursor) params.set('cursor', cursor);
+  return params;
+};
+
 /**
  * Tab контейнер для базы университетов с фильтрами
  */
 export const UniversityBaseTab = () => {
   const { t } = useLanguage();
   const universities = useSignal<University[]>([]);
+  const total = useSignal(0);
+  const nextCursor = useSignal<string | null>(null);
   const loading = useSignal(true);
-  const filters = useSignal<Filters>({ country: '', search: '' });
+  const loadingMore = useSignal(false);
+  const filters = useSignal<Filters>({ country: '', search: '', sort: 'name' });
   const countries = useSignal<string[]>([]);
 
+  const updateFilter = (key: keyof Filters, value: string) => {
+    filters.value = { ...filters.value, [key]: value };
+  };
+
+  // Список стран — из фасетов, без загрузки всех университетов
   useEffect(() => {
-    const fetchUniversities = async () => {
+    const fetchCountries = async () => {
       try {
-        loading.value = true;
-        const response = await fetch('/api/universities?limit=100');
+        const response = await fetch('/api/universities/filtered?limit=1');
         if (response.ok) {
           const data = await response.json();
-          universities.value = data.data || [];
-          
-          // Extract unique countries
-          const uniqueCountries = [...new Set(universities.value.map((u) => u.country))];
-          countries.value = uniqueCountries.sort();
+          countries.value = (data.facets?.countries || [])
+            .map((facet: { value: string }) => facet.value)
+            .sort();
         }
       } catch {
         // ignore
-      } finally {
-        loading.value = false;
       }
     };
-    fetchUniversities();
+    fetchCountries();
   }, []);
 
-  const filteredUniversities = universities.value.filter((u) => {
-    const matchesCountry = !filters.value.country || u.country === filters.value.country;
-    const matchesSearch =
-      !filters.value.search ||
-      u.name.toLowerCase().includes(filters.value.search.toLowerCase()) ||
-      (u.name_en && u.name_en.toLowerCase().includes(filters.value.search.toLowerCase()));
-    return matchesCountry && matchesSearch;
-  });
+  // Первая страница при изменении фильтров или сортировки
+  useEffect(() => {
+    const controller = new AbortController();
+    loading.value = true;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/universities?${buildParams(filters.value, null)}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = await response.json();
+          universities.value = data.data || [];
+          total.value = data.total || 0;
+          nextCursor.value = data.next_cursor ?? null;
+        }
+      } catch {
+        // ignore (в том числе отмену устаревшего запроса)
+      } finally {
+        if (!controller.signal.aborted) loading.value = false;
+      }
+    }, FILTER_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [filters.value]);
+
+  // Следующая страница по курсору
+  const loadMore = useCallback(async () => {
+    const cursor = nextCursor.value;
+    if (!cursor || loadingMore.value || loading.value) return;
+
+    const requested = filters.value;
+    loadingMore.value = true;
+    try {
+      const response = await fetch(`/api/universities?${buildParams(requested, cursor)}`);
+      // Фильтры могли смениться, пока шёл запрос
+      if (response.ok && filters.value === requested) {
+        const data = await response.json();
+        universities.value = [...universities.value, ...(data.data || [])];
+        nextCursor.value = data.next_cursor ?? null;
+      }
+    } catch {
+      // ignore
+    } finally {
+      loadingMore.value = false;
+    }
+  }, []);
 
   return (
     <div class="h-full flex flex-col bg-dark-900">
@@ -75,12 +152,7 @@ export const UniversityBaseTab = () => {
                 type="text"
                 placeholder={t('search.placeholder')}
                 value={filters.value.search}
-                onInput={(e) => {
-                  filters.value = {
-                    ...filters.value,
-                    search: (e.target as HTMLInputElement).value,
-                  };
-                }}
+                onInput={(e) => updateFilter('search', (e.target as HTMLInputElement).value)}
                 class="w-full px-4 py-2.5 bg-dark-700 border border-dark-600 text-white rounded-lg focus:ring-2 focus:ring-cyber-500/20 focus:border-cyber-500 outline-none placeholder:text-gray-500 transition-all"
               />
             </div>
@@ -89,13 +161,8 @@ export const UniversityBaseTab = () => {
             <div class="sm:w-48">
               <select
                 value={filters.value.country}
-                onChange={(e) => {
-                  filters.value = {
-                    ...filters.value,
-                    country: (e.target as HTMLSelectElement).value,
-                  };
-                }}
-                class="w-full px-4 py-2.5 bg-dark-700 border border-dark-600 text-white rounded-lg focus:ring-2 focus:ring-cyber-500/20 focus:border-cyber-500 outline-none transition-all"
+                onChange={(e) => updateFilter('country', (e.target as HTMLSelectElement).value)}
+                class={selectClass}
               >
                 <option value="">{t('filters.allCountries')}</option>
                 {countries.value.map((country) => (
@@ -105,11 +172,27 @@ export const UniversityBaseTab = () => {
                 ))}
               </select>
             </div>
+
+            {/* Sort */}
+            <div class="sm:w-56">
+              <select
+                value={filters.value.sort}
+                onChange={(e) => updateFilter('sort', (e.target as HTMLSelectElement).value)}
+                aria-label={t('filters.sortBy')}
+                class={selectClass}
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {t(option.labelKey)}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Stats */}
           <div class="mt-3 text-sm text-gray-500">
-            {t('search.found')}: <span class="text-cyber-400">{filteredUniversities.length}</span> / {universities.value.length}
+            {t('search.found')}: <span class="text-cyber-400">{total.value}</span>
           </div>
         </div>
       </div>
@@ -117,21 +200,31 @@ export const UniversityBaseTab = () => {
       {/* Universities List */}
       <div class="flex-1 overflow-y-auto p-4 scrollbar-thin">
         <div class="max-w-6xl mx-auto">
-          {loading.value ? (
+          {loading.value && universities.value.length === 0 ? (
             <div class="flex items-center justify-center py-12">
               <div class="animate-spin w-8 h-8 border-4 border-cyber-500 border-t-transparent rounded-full" />
             </div>
-          ) : filteredUniversities.length === 0 ? (
+          ) : universities.value.length === 0 ? (
             <div class="text-center py-12">
               <span class="text-4xl">📚</span>
               <p class="mt-4 text-gray-500">{t('common.noResults')}</p>
             </div>
           ) : (
-            <div class="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-              {filteredUniversities.map((uni) => (
-                <UniversityCard key={uni.id} university={uni} programsLabel={t('university.programsCount')} />
-              ))}
-            </div>
+            <>
+              <div class={`grid gap-4 md:grid-cols-2 lg:grid-cols-3 transition-opacity ${loading.value ? 'opacity-60' : ''}`}>
+                {universities.value.map((uni) => (
+                  <UniversityCard key={uni.id} university={uni} programsLabel={t('university.programsCount')} />
+                ))}
+              </div>
+
+              <div class="text-cyber-400">
+                <InfiniteScroll
+                  hasMore={nextCursor.value !== null && !loading.value}
+                  loading={loadingMore.value}
+                  onLoadMore={loadMore}
+                />
+              </div>
+            </>
           )}
         </div>
       </div>
@@ -4,6 +4,7 @@
 
 export { SmartSearchTab } from './SmartSearchTab.tsx';
 export { UniversityBaseTab } from './UniversityBaseTab.tsx';
+export { ProgramsTab } from './ProgramsTab.tsx';
 export { BattleTab } from './BattleTab.tsx';
 export { ChatBotTab } from './ChatBotTab.tsx';
 export { AdminTab } from './AdminTab.tsx';
@@ -1,5 +1,10 @@
 /**
  * Конфигурация админ-ключей
+ * Ключи предназначены для машинных клиентов (скрипты, CI); люди входят
+ * в админ-панель по логину и паролю (см. admin-auth.service.ts).
+ * Основные ключи выпускаются в админ-панели и хранятся в БД
+ * (см. api-keys.service.ts); ключи из окружения остаются для первичной
+ * настройки и работы без БД.
  */
 
 import { logger } from '../utils/logger.ts';
@@ -8,6 +13,12 @@ import { logger } from '../utils/logger.ts';
  * Информация об админе
  */
 export interface AdminInfo {
+  /** ID учётной записи (нет у API-ключей) */
+  id?: string;
+  /** Логин учётной записи (нет у API-ключей) */
+  username?: string;
+  /** ID ключа из admin_api_keys (нет у ключей из окружения) */
+  keyId?: string;
   name: string;
   email?: string;
   permissions: AdminPermission[];
@@ -25,6 +36,18 @@ export type AdminPermission =
   | 'manage_users'   // Управление пользователями
   | 'full_access';   // Полный доступ
 
+/**
+ * Все разрешения (для проверки ввода)
+ */
+export const ADMIN_PERMISSIONS: readonly AdminPermission[] = [
+  'read',
+  'write',
+  'delete',
+  'parse',
+  'manage_users',
+  'full_access',
+];
+
 /**
  * Конфигурация по умолчанию
  */
@@ -95,7 +118,7 @@ const getAdminKeys = (): Map<string, AdminInfo> => {
   return keys;
 };
 
-// Кэш ключей
+// Кэш ключей из окружения
 let adminKeysCache: Map<string, AdminInfo> | null = null;
 
 /**
@@ -104,7 +127,7 @@ let adminKeysCache: Map<string, AdminInfo> | null = null;
 const getCachedKeys = (): Map<string, AdminInfo> => {
   if (!adminKeysCache) {
     adminKeysCache = getAdminKeys();
-    logger.info('Admin keys loaded', { count: adminKeysCache.size });
+    logger.info('Admin keys loaded from environment', { count: adminKeysCache.size });
   }
   return adminKeysCache;
 };
@@ -117,36 +140,26 @@ export const clearAdminKeysCache = (): void => {
 };
 
 /**
- * Проверить валидность админ-ключа
- * @param key - ключ для проверки
- * @returns true если ключ валиден
- */
-export const validateAdminKey = (key: string | null | undefined): boolean => {
-  if (!key) return false;
-  return getCachedKeys().has(key);
-};
-
-/**
- * Получить информацию об админе по ключу
+ * Получить информацию об админе по ключу из окружения
+ * Ключи из БД проверяет authenticateApiKey (api-keys.service.ts).
  * @param key - админ-ключ
  * @returns информация об админе или null
  */
-export const getAdminInfo = (key: string | null | undefined): AdminInfo | null => {
+export const getEnvAdminInfo = (key: string | null | undefined): AdminInfo | null => {
   if (!key) return null;
   return getCachedKeys().get(key) ?? null;
 };
 
 /**
- * Проверить разрешение админа
- * @param key - админ-ключ
+ * Проверить разрешение у админа (ключа или учётной записи)
+ * @param admin - информация об админе
  * @param permission - требуемое разрешение
  * @returns true если разрешение есть
  */
-export const hasPermission = (
-  key: string | null | undefined,
+export const adminHasPermission = (
+  admin: AdminInfo | null | undefined,
   permission: AdminPermission
 ): boolean => {
-  const admin = getAdminInfo(key);
   if (!admin) return false;
   
   // full_access включает все разрешения
@@ -165,7 +178,7 @@ export const maskKey = (key: string | null | undefined): string => {
 };
 
 /**
- * Получить количество админов
+ * Получить количество ключей из окружения
  */
 export const getAdminCount = (): number => {
   return getCachedKeys().size;
@@ -1,5 +1,30 @@
 import { logger } from '../utils/logger.ts';
 
+/**
+ * Поддерживаемые LLM-провайдеры
+ * - ollama: нативный API Ollama (/api/generate)
+ * - openai: любой OpenAI-совместимый сервер (/v1/chat/completions) — llama.cpp, vLLM, LM Studio
+ */
+export type LlmProviderName = 'ollama' | 'openai';
+
+/**
+ * Задачи, для которых можно выбрать отдельную модель
+ */
+export type LlmTask = 'parsing' | 'chat' | 'battle' | 'search';
+
+export const LLM_TASKS: readonly LlmTask[] = ['parsing', 'chat', 'battle', 'search'];
+
+/**
+ * Настройки LLM для одной задачи
+ */
+export interface LlmTaskConfig {
+  provider: LlmProviderName;
+  /** Для openai — адрес вместе с /v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
 /**
  * Конфигурация окружения
  */
@@ -8,6 +33,7 @@ export interface EnvConfig {
   DENO_ENV: 'development' | 'production' | 'test';
   OLLAMA_URL: string;
   PORT: number;
+  LLM: Record<LlmTask, LlmTaskConfig>;
 }
 
 /**
@@ -55,6 +81,35 @@ const validateRequiredVars = (): void => {
   }
 };
 
+/**
+ * Получить настройки LLM для задачи
+ * LLM_<TASK>_* переопределяют общие LLM_*; без них используются OLLAMA_URL/OLLAMA_MODEL
+ * @param task - задача (parsing | chat | battle | search)
+ * @returns провайдер, адрес, модель и ключ
+ */
+export const getLlmConfig = (task: LlmTask): LlmTaskConfig => {
+  const prefix = `LLM_${task.toUpperCase()}_`;
+  const get = (name: string): string | undefined =>
+    getEnvVar(`${prefix}${name}`) ?? getEnvVar(`LLM_${name}`);
+
+  const providerValue = get('PROVIDER') ?? 'ollama';
+  if (providerValue !== 'ollama' && providerValue !== 'openai') {
+    throw new Error(`Unknown LLM provider "${providerValue}" for task ${task} (expected ollama | openai)`);
+  }
+  const provider: LlmProviderName = providerValue;
+
+  const defaultBaseUrl = provider === 'ollama'
+    ? getEnvVar('OLLAMA_URL', DEFAULTS.OLLAMA_URL)!
+    : 'http://localhost:8080/v1';
+
+  return {
+    provider,
+    baseUrl: (get('BASE_URL') ?? defaultBaseUrl).replace(/\/+$/, ''),
+    model: get('MODEL') ?? getEnvVar('OLLAMA_MODEL', 'deepseek-v3.1:671b-cloud')!,
+    apiKey: get('API_KEY'),
+  };
+};
+
 /**
  * Загрузить и валидировать переменные окружения
  * @returns конфигурация окружения
@@ -70,12 +125,21 @@ export const loadEnv = (): EnvConfig => {
       DENO_ENV: (getEnvVar('DENO_ENV', DEFAULTS.DENO_ENV) as EnvConfig['DENO_ENV']),
       OLLAMA_URL: getEnvVar('OLLAMA_URL', DEFAULTS.OLLAMA_URL)!,
       PORT: parseInt(getEnvVar('PORT', DEFAULTS.PORT)!, 10),
+      LLM: Object.fromEntries(
+        LLM_TASKS.map((task) => [task, getLlmConfig(task)])
+      ) as Record<LlmTask, LlmTaskConfig>,
     };
     
     logger.info('Environment configuration loaded', {
       DENO_ENV: config.DENO_ENV,
       PORT: config.PORT,
       OLLAMA_URL: config.OLLAMA_URL,
+      LLM: Object.fromEntries(
+        LLM_TASKS.map((task) => {
+          const { provider, baseUrl, model } = config.LLM[task];
+          return [task, `${provider}:${model} @ ${baseUrl}`];
+        })
+      ),
       DATABASE_URL: maskConnectionString(config.DATABASE_URL),
     });
     
@@ -7,7 +7,12 @@ export {
   isDevelopment,
   isProduction,
   getDatabaseUrl,
+  getLlmConfig,
+  LLM_TASKS,
   type EnvConfig,
+  type LlmProviderName,
+  type LlmTask,
+  type LlmTaskConfig,
 } from './env.ts';
 
 export {
@@ -22,9 +27,9 @@ export {
 } from './database.ts';
 
 export {
-  validateAdminKey,
-  getAdminInfo,
-  hasPermission,
+  getEnvAdminInfo,
+  adminHasPermission,
+  ADMIN_PERMISSIONS,
   maskKey,
   getAdminCount,
   clearAdminKeysCache,
@@ -1,5 +1,6 @@
 import { transaction } from '../config/database.ts';
 import { logger } from '../utils/logger.ts';
+import { buildProvenance } from '../services/provenance.service.ts';
 import type { University, Program, Rating } from '../types/university.ts';
 import type { PoolClient } from 'postgres';
 
@@ -258,7 +259,7 @@ const insertUniversity = async (
   const uniResult = await client.queryObject<{ id: string }>(`
     INSERT INTO universities (name, name_en, country, city, website_url, logo_url)
     VALUES ($1, $2, $3, $4, $5, $6)
-    ON CONFLICT (website_url) DO UPDATE SET
+    ON CONFLICT (website_url) WHERE website_url IS NOT NULL DO UPDATE SET
       name = EXCLUDED.name,
       updated_at = NOW()
     RETURNING id
@@ -280,13 +281,18 @@ const insertUniversity = async (
     updated_at: new Date().toISOString(),
   };
   
+  const provenance = buildProvenance(fullProfile, 'seed', {
+    sourceUrl: data.base.website_url,
+  });
+  
   // Вставить профиль
   await client.queryObject(`
-    INSERT INTO university_profiles (university_id, profile_json, language, version)
-    VALUES ($1, $2, 'ru', 1)
+    INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+    VALUES ($1, $2, $3, 'ru', 1)
     ON CONFLICT (university_id, language, version) DO UPDATE SET
-      profile_json = EXCLUDED.profile_json
-  `, [universityId, JSON.stringify(fullProfile)]);
+      profile_json = EXCLUDED.profile_json,
+      field_provenance = EXCLUDED.field_provenance
+  `, [universityId, JSON.stringify(fullProfile), JSON.stringify(provenance)]);
   
   return universityId;
 };
@@ -1,86 +1,96 @@
 /**
  * Middleware для аутентификации админов
+ * Люди входят по логину и паролю и получают HttpOnly cookie сессии,
+ * машинные клиенты передают API-ключ в заголовке X-Admin-Key.
  */
 
 import { logger } from '../utils/logger.ts';
 import { 
-  validateAdminKey, 
-  getAdminInfo, 
-  hasPermission, 
+  adminHasPermission, 
   maskKey,
+  isProduction,
   type AdminInfo,
   type AdminPermission 
-} from '../config/admin.ts';
+} from '../config/index.ts';
+import {
+  consumeRateLimit,
+  peekRateLimit,
+  resetRateLimit,
+} from '../services/rate-limit.service.ts';
+import {
+  accountToAdminInfo,
+  ADMIN_AUTH_CONFIG,
+  getAdminSession,
+} from '../services/admin-auth.service.ts';
+import { authenticateApiKey } from '../services/api-keys.service.ts';
+import { getClientIp } from './rate-limit.ts';
 
 /**
  * Результат проверки аутентификации
  */
 export interface AuthResult {
   valid: boolean;
+  /** API-ключ (null при входе по сессии) */
   adminKey: string | null;
   adminInfo: AdminInfo | null;
+  /** Способ входа */
+  method?: 'session' | 'api_key';
+  /** ID сессии при входе по cookie */
+  sessionId?: string;
+  /** Вход выполнен, но нет требуемого разрешения (403, а не 401) */
+  forbidden?: boolean;
   error?: string;
 }
 
 /**
- * Защита от brute-force
- * Простой rate limiter в памяти
+ * Получить токен сессии из cookie
  */
-const failedAttempts = new Map<string, { count: number; lastAttempt: number }>();
-const RATE_LIMIT_WINDOW = 60000; // 1 минута
-const MAX_FAILED_ATTEMPTS = 10; // максимум попыток за окно
+export const getSessionToken = (req: Request): string | null => {
+  const cookie = req.headers.get('cookie');
+  if (!cookie) return null;
 
-/**
- * Проверить rate limit для IP
- */
-const checkRateLimit = (ip: string): boolean => {
-  const now = Date.now();
-  const record = failedAttempts.get(ip);
-  
-  if (!record) return true;
-  
-  // Очистить старые записи
-  if (now - record.lastAttempt > RATE_LIMIT_WINDOW) {
-    failedAttempts.delete(ip);
-    return true;
-  }
-  
-  return record.count < MAX_FAILED_ATTEMPTS;
-};
-
-/**
- * Записать неудачную попытку
- */
-const recordFailedAttempt = (ip: string): void => {
-  const now = Date.now();
-  const record = failedAttempts.get(ip);
-  
-  if (!record || now - record.lastAttempt > RATE_LIMIT_WINDOW) {
-    failedAttempts.set(ip, { count: 1, lastAttempt: now });
-  } else {
-    record.count++;
-    record.lastAttempt = now;
+  for (const part of cookie.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === ADMIN_AUTH_CONFIG.cookieName) {
+      return value.join('=') || null;
+    }
   }
+  return null;
 };
 
 /**
- * Очистить запись после успешной авторизации
+ * Заголовок Set-Cookie для сессии
+ * SameSite=Strict не даёт другим сайтам слать запросы с cookie (CSRF).
  */
-const clearFailedAttempts = (ip: string): void => {
-  failedAttempts.delete(ip);
+export const sessionCookie = (token: string, expiresAt: Date): string => {
+  const maxAge = Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  return [
+    `${ADMIN_AUTH_CONFIG.cookieName}=${token}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Strict',
+    `Max-Age=${maxAge}`,
+    `Expires=${expiresAt.toUTCString()}`,
+    ...(isProduction() ? ['Secure'] : []),
+  ].join('; ');
 };
 
 /**
- * Получить IP из запроса
+ * Заголовок Set-Cookie, удаляющий сессию
  */
-const getClientIP = (req: Request): string => {
-  return req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() 
-    ?? req.headers.get('x-real-ip') 
-    ?? 'unknown';
-};
+export const clearSessionCookie = (): string =>
+  [
+    `${ADMIN_AUTH_CONFIG.cookieName}=`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Strict',
+    'Max-Age=0',
+    ...(isProduction() ? ['Secure'] : []),
+  ].join('; ');
 
 /**
- * Извлечь админ-ключ из запроса
+ * Извлечь API-ключ из заголовков запроса
+ * Ключ в query-параметре не принимается: он попадает в логи и историю браузера.
  */
 const extractAdminKey = (req: Request): string | null => {
   // Проверить заголовки (разные варианты)
@@ -97,23 +107,24 @@ const extractAdminKey = (req: Request): string | null => {
     }
   }
   
-  // Проверить query параметр (менее безопасно, но для тестирования)
-  const url = new URL(req.url);
-  return url.searchParams.get('admin_key');
+  return null;
 };
 
 /**
- * Проверить аутентификацию админа
+ * Проверить аутентификацию админа: сессия из cookie, затем API-ключ
+ * Неудачные попытки списываются из корзины группы admin-auth (защита от brute-force)
  * @param req - HTTP запрос
  * @returns результат проверки
  */
-export const requireAdmin = (req: Request): AuthResult => {
-  const ip = getClientIP(req);
+export const requireAdmin = async (req: Request): Promise<AuthResult> => {
+  const ip = getClientIp(req);
+  const sessionToken = getSessionToken(req);
   const adminKey = extractAdminKey(req);
   const maskedKey = maskKey(adminKey);
   
   // Rate limit check
-  if (!checkRateLimit(ip)) {
+  const limit = await peekRateLimit('admin-auth', ip);
+  if (!limit.allowed) {
     logger.warn('Rate limit exceeded', { ip, maskedKey });
     return {
       valid: false,
@@ -123,43 +134,67 @@ export const requireAdmin = (req: Request): AuthResult => {
     };
   }
   
-  // Проверить ключ
+  const fail = async (error: string): Promise<AuthResult> => {
+    await consumeRateLimit('admin-auth', ip);
+    return { valid: false, adminKey: null, adminInfo: null, error };
+  };
+  
+  // Сессия админ-панели
+  if (sessionToken) {
+    let session;
+    try {
+      session = await getAdminSession(sessionToken);
+    } catch (err) {
+      logger.error('Failed to load admin session', { error: err });
+      return { valid: false, adminKey: null, adminInfo: null, error: 'Authentication unavailable' };
+    }
+    
+    if (session) {
+      logger.debug('Admin authenticated', { ip, method: 'session', username: session.admin.username });
+      return {
+        valid: true,
+        adminKey: null,
+        adminInfo: accountToAdminInfo(session.admin),
+        method: 'session',
+        sessionId: session.id,
+      };
+    }
+    
+    if (!adminKey) {
+      logger.debug('Invalid or expired admin session', { ip });
+      return await fail('Session expired');
+    }
+  }
+  
+  // API-ключ машинного клиента
   if (!adminKey) {
-    logger.debug('Missing admin key', { ip });
-    recordFailedAttempt(ip);
-    return {
-      valid: false,
-      adminKey: null,
-      adminInfo: null,
-      error: 'Admin key is required',
-    };
+    logger.debug('Missing admin credentials', { ip });
+    return await fail('Authentication required');
   }
   
-  if (!validateAdminKey(adminKey)) {
+  const adminInfo = await authenticateApiKey(adminKey, ip);
+  if (!adminInfo) {
     logger.warn('Invalid admin key attempt', { ip, maskedKey });
-    recordFailedAttempt(ip);
-    return {
-      valid: false,
-      adminKey: null,
-      adminInfo: null,
-      error: 'Invalid admin key',
-    };
+    return await fail('Invalid admin key');
   }
   
   // Успешная авторизация
-  const adminInfo = getAdminInfo(adminKey);
-  clearFailedAttempts(ip);
+  if (limit.remaining < limit.limit) {
+    await resetRateLimit('admin-auth', ip);
+  }
   
   logger.debug('Admin authenticated', { 
     ip, 
+    method: 'api_key',
     maskedKey, 
-    adminName: adminInfo?.name 
+    adminName: adminInfo.name 
   });
   
   return {
     valid: true,
     adminKey,
     adminInfo,
+    method: 'api_key',
   };
 };
 
@@ -169,25 +204,27 @@ export const requireAdmin = (req: Request): AuthResult => {
  * @param permission - требуемое разрешение
  * @returns результат проверки
  */
-export const requirePermission = (
+export const requirePermission = async (
   req: Request,
   permission: AdminPermission
-): AuthResult => {
-  const authResult = requireAdmin(req);
+): Promise<AuthResult> => {
+  const authResult = await requireAdmin(req);
   
   if (!authResult.valid) {
     return authResult;
   }
   
-  if (!hasPermission(authResult.adminKey, permission)) {
+  if (!adminHasPermission(authResult.adminInfo, permission)) {
     logger.warn('Permission denied', { 
       maskedKey: maskKey(authResult.adminKey),
+      username: authResult.adminInfo?.username,
       permission,
       adminPermissions: authResult.adminInfo?.permissions,
     });
     return {
       ...authResult,
       valid: false,
+      forbidden: true,
       error: `Permission denied: ${permission}`,
     };
   }
@@ -222,3 +259,11 @@ export const forbiddenResponse = (error: string = 'Forbidden'): Response => {
     headers: { 'Content-Type': 'application/json' },
   });
 };
+
+/**
+ * Ответ на неудачную проверку requireAdmin/requirePermission:
+ * 403 при нехватке разрешения, иначе 401 (клиент выходит из админки только на 401)
+ */
+export const authErrorResponse = (auth: AuthResult): Response => {
+  return auth.forbidden ? forbiddenResponse(auth.error) : unauthorizedResponse(auth.error);
+};
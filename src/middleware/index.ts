@@ -7,5 +7,12 @@ export {
   requirePermission,
   unauthorizedResponse,
   forbiddenResponse,
+  authErrorResponse,
   type AuthResult,
 } from './auth.ts';
+
+export {
+  getClientIp,
+  rateLimitHeaders,
+  rateLimitedResponse,
+} from './rate-limit.ts';
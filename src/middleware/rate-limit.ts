@@ -0,0 +1,64 @@
+/**
+ * Middleware для rate limiting: IP клиента и стандартные заголовки
+ * RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset / RateLimit-Policy
+ * (IETF draft-ietf-httpapi-ratelimit-headers) и Retry-After при отказе
+ */
+
+import type { FreshContext } from '$fresh/server.ts';
+import type { RateLimitResult } from '../services/rate-limit.service.ts';
+
+/**
+ * Получить IP клиента
+ * @param req - HTTP запрос
+ * @param ctx - контекст Fresh (адрес соединения, если нет заголовков прокси)
+ */
+export const getClientIp = (req: Request, ctx?: FreshContext): string => {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  const realIp = req.headers.get('x-real-ip');
+  if (realIp) {
+    return realIp;
+  }
+  return ctx?.remoteAddr?.hostname || 'unknown';
+};
+
+/**
+ * Заголовки RateLimit-* для ответа
+ * Окно политики — время, за которое пустая корзина пополняется полностью.
+ */
+export const rateLimitHeaders = (result: RateLimitResult): Record<string, string> => {
+  const windowSeconds = Math.ceil((result.policy.capacity * 60) / result.policy.perMinute);
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${windowSeconds}`,
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+  return headers;
+};
+
+/**
+ * Создать Response 429 с заголовками лимита
+ * @param result - результат consumeRateLimit
+ * @param body - тело ответа (в него добавляется retry_after)
+ */
+export const rateLimitedResponse = (
+  result: RateLimitResult,
+  body: Record<string, unknown>
+): Response => {
+  return new Response(JSON.stringify({
+    ...body,
+    retry_after: result.retryAfterSeconds,
+  }), {
+    status: 429,
+    headers: {
+      'Content-Type': 'application/json',
+      ...rateLimitHeaders(result),
+    },
+  });
+};
@@ -0,0 +1,310 @@
+/**
+ * Admin Auth Service - учётные записи администраторов и серверные сессии
+ *
+ * Пароли хранятся как PBKDF2-SHA256 с солью, токен сессии отдаётся клиенту
+ * в HttpOnly cookie, а в БД хранится только его SHA-256.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne } from '../config/database.ts';
+import { ADMIN_PERMISSIONS, type AdminInfo, type AdminPermission } from '../config/admin.ts';
+import type { AdminRow } from '../types/database.ts';
+
+/**
+ * Настройки входа и сессий
+ */
+export const ADMIN_AUTH_CONFIG = {
+  /** Время жизни сессии (часы) */
+  sessionTtlHours: parseInt(Deno.env.get('ADMIN_SESSION_TTL_HOURS') ?? '12', 10),
+  /** Имя cookie сессии */
+  cookieName: 'admin_session',
+  /** Итерации PBKDF2 для новых паролей */
+  passwordIterations: 310000,
+  minPasswordLength: 10,
+};
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,100}$/i;
+
+/**
+ * Ошибка управления учётными записями
+ */
+export class AdminAccountError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_USERNAME' | 'WEAK_PASSWORD' | 'INVALID_PERMISSION' | 'DUPLICATE_USERNAME'
+  ) {
+    super(message);
+    this.name = 'AdminAccountError';
+  }
+}
+
+/**
+ * Учётная запись администратора (без хэша пароля)
+ */
+export interface AdminAccount {
+  id: string;
+  username: string;
+  name: string;
+  email: string | null;
+  permissions: AdminPermission[];
+  isActive: boolean;
+  createdAt: Date;
+  lastLoginAt: Date | null;
+}
+
+/**
+ * Активная сессия
+ */
+export interface AdminSession {
+  id: string;
+  admin: AdminAccount;
+  expiresAt: Date;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const toHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Сравнение без утечки времени
+ */
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+const derivePasswordKey = async (
+  password: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+/**
+ * Захэшировать пароль
+ * @returns строка pbkdf2-sha256$<итерации>$<соль>$<хэш>
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = ADMIN_AUTH_CONFIG.passwordIterations;
+  const hash = await derivePasswordKey(password, salt, iterations);
+  return `pbkdf2-sha256$${iterations}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+/**
+ * Проверить пароль по сохранённому хэшу
+ */
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2-sha256' || !iterations || !salt || !hash) return false;
+
+  try {
+    const expected = fromBase64(hash);
+    const actual = await derivePasswordKey(password, fromBase64(salt), parseInt(iterations, 10));
+    return timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Хэш для проверки пароля несуществующего пользователя,
+ * чтобы время ответа не выдавало наличие логина
+ */
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * SHA-256 токена сессии (hex)
+ */
+const hashSessionToken = async (token: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+
+const rowToAccount = (row: AdminRow): AdminAccount => ({
+  id: row.id,
+  username: row.username,
+  name: row.name,
+  email: row.email,
+  permissions: row.permissions,
+  isActive: row.is_active,
+  createdAt: row.created_at,
+  lastLoginAt: row.last_login_at,
+});
+
+/**
+ * Информация об админе для middleware и аудита
+ */
+export const accountToAdminInfo = (account: AdminAccount): AdminInfo => ({
+  id: account.id,
+  username: account.username,
+  name: account.name,
+  email: account.email ?? undefined,
+  permissions: account.permissions,
+  createdAt: account.createdAt.toISOString(),
+});
+
+/**
+ * Создать учётную запись администратора
+ * @throws AdminAccountError при неверных данных или занятом логине
+ */
+export const createAdminAccount = async (input: {
+  username: string;
+  password: string;
+  name?: string;
+  email?: string;
+  permissions?: AdminPermission[];
+}): Promise<AdminAccount> => {
+  const username = input.username.trim().toLowerCase();
+  const permissions = input.permissions ?? ['full_access'];
+
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new AdminAccountError(
+      'Username must be 3-100 characters: letters, digits, dot, dash, underscore',
+      'INVALID_USERNAME'
+    );
+  }
+  if (input.password.length < ADMIN_AUTH_CONFIG.minPasswordLength) {
+    throw new AdminAccountError(
+      `Password must be at least ${ADMIN_AUTH_CONFIG.minPasswordLength} characters`,
+      'WEAK_PASSWORD'
+    );
+  }
+  const unknown = permissions.filter((p) => !ADMIN_PERMISSIONS.includes(p));
+  if (unknown.length > 0) {
+    throw new AdminAccountError(`Unknown permissions: ${unknown.join(', ')}`, 'INVALID_PERMISSION');
+  }
+
+  const existing = await queryOne<{ id: string }>('SELECT id FROM admins WHERE username = $1', [username]);
+  if (existing) {
+    throw new AdminAccountError(`Admin "${username}" already exists`, 'DUPLICATE_USERNAME');
+  }
+
+  const row = await queryOne<AdminRow>(
+    `INSERT INTO admins (username, password_hash, name, email, permissions)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [
+      username,
+      await hashPassword(input.password),
+      input.name?.trim() || username,
+      input.email?.trim() || null,
+      JSON.stringify(permissions),
+    ]
+  );
+
+  logger.info('Admin account created', { username, permissions });
+  return rowToAccount(row!);
+};
+
+/**
+ * Проверить логин и пароль
+ * @returns учётная запись или null (нет такого логина, отключена или пароль неверный)
+ */
+export const authenticateAdmin = async (
+  username: string,
+  password: string
+): Promise<AdminAccount | null> => {
+  const row = await queryOne<AdminRow>(
+    'SELECT * FROM admins WHERE username = $1 AND is_active = true',
+    [username.trim().toLowerCase()]
+  );
+
+  if (!row) {
+    dummyHash ??= hashPassword('dummy-password-for-timing');
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+
+  return (await verifyPassword(password, row.password_hash)) ? rowToAccount(row) : null;
+};
+
+/**
+ * Создать сессию после успешного входа
+ * Заодно удаляет истёкшие сессии.
+ * @returns токен для cookie и время истечения
+ */
+export const createAdminSession = async (
+  adminId: string,
+  client: { ip?: string; userAgent?: string } = {}
+): Promise<{ token: string; expiresAt: Date }> => {
+  const token = toBase64(crypto.getRandomValues(new Uint8Array(32)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  const expiresAt = new Date(Date.now() + ADMIN_AUTH_CONFIG.sessionTtlHours * 60 * 60 * 1000);
+
+  await query(
+    `INSERT INTO admin_sessions (admin_id, token_hash, ip_address, user_agent, expires_at)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [adminId, await hashSessionToken(token), client.ip ?? null, client.userAgent ?? null, expiresAt]
+  );
+  await query('UPDATE admins SET last_login_at = NOW() WHERE id = $1', [adminId]);
+  await deleteExpiredAdminSessions();
+
+  return { token, expiresAt };
+};
+
+/**
+ * Найти активную сессию по токену из cookie
+ * @returns сессия или null (нет, истекла, учётная запись отключена)
+ */
+export const getAdminSession = async (token: string): Promise<AdminSession | null> => {
+  const row = await queryOne<AdminRow & { session_id: string; expires_at: Date }>(
+    `UPDATE admin_sessions s
+     SET last_seen_at = NOW()
+     FROM admins a
+     WHERE s.token_hash = $1
+       AND s.expires_at > NOW()
+       AND a.id = s.admin_id
+       AND a.is_active = true
+     RETURNING a.*, s.id AS session_id, s.expires_at`,
+    [await hashSessionToken(token)]
+  );
+
+  if (!row) return null;
+  return { id: row.session_id, admin: rowToAccount(row), expiresAt: row.expires_at };
+};
+
+/**
+ * Завершить сессию (выход)
+ * @returns true если сессия существовала
+ */
+export const deleteAdminSession = async (token: string): Promise<boolean> => {
+  const rows = await query<{ id: string }>(
+    'DELETE FROM admin_sessions WHERE token_hash = $1 RETURNING id',
+    [await hashSessionToken(token)]
+  );
+  return rows.length > 0;
+};
+
+/**
+ * Удалить истёкшие сессии
+ * @returns число удалённых
+ */
+export const deleteExpiredAdminSessions = async (): Promise<number> => {
+  const rows = await query<{ id: string }>(
+    'DELETE FROM admin_sessions WHERE expires_at <= NOW() RETURNING id'
+  );
+  if (rows.length > 0) {
+    logger.debug('Expired admin sessions removed', { count: rows.length });
+  }
+  return rows.length;
+};
@@ -5,7 +5,13 @@
 import { logger } from '../utils/logger.ts';
 import { query, queryOne, transaction } from '../config/database.ts';
 import { calculateCompletenessScore } from './parser.service.ts';
-import { NO_INFO, type University, type Program } from '../types/university.ts';
+import { buildProvenance, markManualChanges } from './provenance.service.ts';
+import {
+  NO_INFO,
+  type University,
+  type Program,
+  type ProfileProvenance,
+} from '../types/university.ts';
 import type { PoolClient } from 'postgres';
 
 /**
@@ -126,9 +132,9 @@ export const createUniversity = async (data: {
       };
 
       await client.queryObject(
-        `INSERT INTO university_profiles (university_id, profile_json, language, version)
-         VALUES ($1, $2, 'ru', 1)`,
-        [universityId, JSON.stringify(profile)]
+        `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+         VALUES ($1, $2, $3, 'ru', 1)`,
+        [universityId, JSON.stringify(profile), JSON.stringify(buildProvenance(profile, 'manual'))]
       );
 
       // Создать источник
@@ -221,6 +227,20 @@ export const getProfileForEdit = async (universityId: string): Promise<Universit
   return result?.profile_json ?? null;
 };
 
+/**
+ * Получить происхождение полей текущего профиля
+ */
+export const getProvenanceForEdit = async (universityId: string): Promise<ProfileProvenance> => {
+  const result = await queryOne<{ field_provenance: ProfileProvenance }>(
+    `SELECT field_provenance FROM university_profiles 
+     WHERE university_id = $1 
+     ORDER BY version DESC LIMIT 1`,
+    [universityId]
+  );
+
+  return result?.field_provenance ?? {};
+};
+
 /**
  * Обновить профиль университета (целиком)
  */
@@ -267,6 +287,10 @@ export const updateUniversityProfile = async (
       notes: 'Updated via admin',
     };
 
+    // Изменённые поля помечаются как ручные и не перезаписываются парсером
+    const previousProvenance = await getProvenanceForEdit(universityId);
+    const provenance = markManualChanges(currentProfile, updatedProfile, previousProvenance);
+
     await transaction(async (client: PoolClient) => {
       // Получить текущую версию
       const versionResult = await client.queryObject<{ version: number }>(
@@ -278,9 +302,9 @@ export const updateUniversityProfile = async (
 
       // Вставить новую версию
       await client.queryObject(
-        `INSERT INTO university_profiles (university_id, profile_json, language, version)
-         VALUES ($1, $2, 'ru', $3)`,
-        [universityId, JSON.stringify(updatedProfile), newVersion]
+        `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+         VALUES ($1, $2, $3, 'ru', $4)`,
+        [universityId, JSON.stringify(updatedProfile), JSON.stringify(provenance), newVersion]
       );
 
       // Обновить базовую информацию
@@ -311,6 +335,7 @@ export const updateUniversityProfile = async (
         ...changes,
         completeness_score: `${oldScore} → ${newScore}`,
       },
+      data: { provenance },
     };
   } catch (err) {
     logger.error('Admin: Failed to update profile', err);
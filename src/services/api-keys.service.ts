@@ -0,0 +1,366 @@
+/**
+ * API Keys Service - ключи admin API для машинных клиентов
+ *
+ * Ключ показывается один раз при создании или ротации; в БД хранится только
+ * его SHA-256, начало ключа для списка и время/IP последнего использования.
+ * Ключи из окружения (ADMIN_KEY*) проверяются после ключей из БД.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne, transaction } from '../config/database.ts';
+import {
+  ADMIN_PERMISSIONS,
+  adminHasPermission,
+  getEnvAdminInfo,
+  type AdminInfo,
+  type AdminPermission,
+} from '../config/admin.ts';
+import type { AdminApiKeyRow } from '../types/database.ts';
+import type { PoolClient } from 'postgres';
+
+/**
+ * Префикс выпускаемых ключей (отличает их от ключей из окружения в логах)
+ */
+const KEY_PREFIX = 'du_';
+
+/**
+ * Сколько символов ключа показывать в списке
+ */
+const DISPLAY_PREFIX_LENGTH = 10;
+
+/**
+ * Формат ID ключа (UUID)
+ */
+const KEY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Ошибка управления API-ключами
+ */
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_NAME' | 'INVALID_PERMISSION' | 'INVALID_EXPIRY' | 'NOT_FOUND' | 'NOT_ACTIVE'
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+/**
+ * Состояние ключа
+ */
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * Ключ в списке (без секрета)
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  permissions: AdminPermission[];
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  rotatedFrom: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  status: ApiKeyStatus;
+}
+
+/**
+ * Выпущенный ключ: секрет возвращается только здесь
+ */
+export interface IssuedApiKey {
+  key: string;
+  apiKey: ApiKeySummary;
+}
+
+const generateKey = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return KEY_PREFIX + btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * SHA-256 ключа (hex)
+ */
+const hashApiKey = async (key: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+const getStatus = (row: AdminApiKeyRow, now = new Date()): ApiKeyStatus => {
+  if (row.revoked_at) return 'revoked';
+  if (row.expires_at && row.expires_at <= now) return 'expired';
+  return 'active';
+};
+
+const rowToSummary = (row: AdminApiKeyRow): ApiKeySummary => ({
+  id: row.id,
+  name: row.name,
+  prefix: row.key_prefix,
+  permissions: row.permissions,
+  createdBy: row.created_by,
+  createdAt: row.created_at.toISOString(),
+  expiresAt: row.expires_at?.toISOString() ?? null,
+  revokedAt: row.revoked_at?.toISOString() ?? null,
+  rotatedFrom: row.rotated_from,
+  lastUsedAt: row.last_used_at?.toISOString() ?? null,
+  lastUsedIp: row.last_used_ip,
+  status: getStatus(row),
+});
+
+/**
+ * Подпись создателя ключа для списка
+ */
+const describeAdmin = (admin: AdminInfo): string => admin.username ?? admin.name;
+
+/**
+ * Проверить права нового ключа: известные и не шире, чем у выдающего
+ */
+const validatePermissions = (permissions: unknown, grantor: AdminInfo): AdminPermission[] => {
+  if (!Array.isArray(permissions) || permissions.length === 0) {
+    throw new ApiKeyError('At least one permission is required', 'INVALID_PERMISSION');
+  }
+
+  const unknown = permissions.filter((p) => !ADMIN_PERMISSIONS.includes(p));
+  if (unknown.length > 0) {
+    throw new ApiKeyError(`Unknown permissions: ${unknown.join(', ')}`, 'INVALID_PERMISSION');
+  }
+
+  const notHeld = (permissions as AdminPermission[]).filter((p) => !adminHasPermission(grantor, p));
+  if (notHeld.length > 0) {
+    throw new ApiKeyError(
+      `Cannot grant permissions you do not have: ${notHeld.join(', ')}`,
+      'INVALID_PERMISSION'
+    );
+  }
+
+  return [...new Set(permissions as AdminPermission[])];
+};
+
+/**
+ * Список ключей из БД (новые сверху)
+ */
+export const listApiKeys = async (): Promise<ApiKeySummary[]> => {
+  const rows = await query<AdminApiKeyRow>(
+    'SELECT * FROM admin_api_keys ORDER BY created_at DESC'
+  );
+  return rows.map(rowToSummary);
+};
+
+/**
+ * Выпустить новый ключ
+ * @param input - название, права и необязательный срок действия
+ * @param grantor - админ, выдающий ключ (права ключа не шире его прав)
+ * @throws ApiKeyError при неверных данных
+ */
+export const createApiKey = async (
+  input: { name: string; permissions: AdminPermission[]; expiresAt?: Date | null },
+  grantor: AdminInfo
+): Promise<IssuedApiKey> => {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 200) {
+    throw new ApiKeyError('Name must be 1-200 characters', 'INVALID_NAME');
+  }
+
+  const permissions = validatePermissions(input.permissions, grantor);
+  const expiresAt = input.expiresAt ?? null;
+  if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+    throw new ApiKeyError('Expiry must be a future date', 'INVALID_EXPIRY');
+  }
+
+  const key = generateKey();
+  const row = await queryOne<AdminApiKeyRow>(
+    `INSERT INTO admin_api_keys (name, key_prefix, key_hash, permissions, created_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      name,
+      key.slice(0, DISPLAY_PREFIX_LENGTH),
+      await hashApiKey(key),
+      JSON.stringify(permissions),
+      describeAdmin(grantor),
+      expiresAt,
+    ]
+  );
+
+  logger.info('API key created', { id: row!.id, name, permissions });
+  return { key, apiKey: rowToSummary(row!) };
+};
+
+/**
+ * Проверить ID до запроса: Postgres не сравнивает uuid с произвольной строкой
+ */
+const assertKeyId = (id: string): void => {
+  if (!KEY_ID_PATTERN.test(id)) {
+    throw new ApiKeyError('API key not found', 'NOT_FOUND');
+  }
+};
+
+/**
+ * Загрузить ключ под блокировкой и проверить, что он не отозван
+ */
+const lockActiveKey = async (client: PoolClient, id: string): Promise<AdminApiKeyRow> => {
+  const result = await client.queryObject<AdminApiKeyRow>(
+    'SELECT * FROM admin_api_keys WHERE id = $1 FOR UPDATE',
+    [id]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    throw new ApiKeyError('API key not found', 'NOT_FOUND');
+  }
+  if (row.revoked_at) {
+    throw new ApiKeyError('API key is revoked', 'NOT_ACTIVE');
+  }
+  return row;
+};
+
+/**
+ * Ротация: выпустить замену с теми же правами и сроком,
+ * старый ключ отозвать сразу или оставить на время переключения клиентов
+ * @param graceHours - сколько часов старый ключ ещё действует (0 — отозвать сразу)
+ * @throws ApiKeyError если ключа нет, он отозван или истёк
+ */
+export const rotateApiKey = async (
+  id: string,
+  graceHours: number,
+  grantor: AdminInfo
+): Promise<IssuedApiKey & { previous: ApiKeySummary }> => {
+  assertKeyId(id);
+  if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > 24 * 30) {
+    throw new ApiKeyError('Grace period must be between 0 and 720 hours', 'INVALID_EXPIRY');
+  }
+
+  const key = generateKey();
+  const keyHash = await hashApiKey(key);
+
+  const { created, previous } = await transaction(async (client: PoolClient) => {
+    const old = await lockActiveKey(client, id);
+    if (getStatus(old) !== 'active') {
+      throw new ApiKeyError('API key is expired', 'NOT_ACTIVE');
+    }
+    // Иначе ротация выдала бы секрет ключа с правами шире, чем у админа
+    validatePermissions(old.permissions, grantor);
+
+    const inserted = await client.queryObject<AdminApiKeyRow>(
+      `INSERT INTO admin_api_keys (name, key_prefix, key_hash, permissions, created_by, expires_at, rotated_from)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        old.name,
+        key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash,
+        JSON.stringify(old.permissions),
+        describeAdmin(grantor),
+        old.expires_at,
+        old.id,
+      ]
+    );
+
+    const updated = graceHours > 0
+      ? await client.queryObject<AdminApiKeyRow>(
+        `UPDATE admin_api_keys
+         SET expires_at = LEAST(COALESCE(expires_at, 'infinity'), NOW() + $2 * INTERVAL '1 hour')
+         WHERE id = $1
+         RETURNING *`,
+        [old.id, graceHours]
+      )
+      : await client.queryObject<AdminApiKeyRow>(
+        'UPDATE admin_api_keys SET revoked_at = NOW() WHERE id = $1 RETURNING *',
+        [old.id]
+      );
+
+    return { created: inserted.rows[0], previous: updated.rows[0] };
+  });
+
+  logger.info('API key rotated', { id, newId: created.id, graceHours });
+  return { key, apiKey: rowToSummary(created), previous: rowToSummary(previous) };
+};
+
+/**
+ * Изменить срок действия ключа
+ * @param expiresAt - новый срок; null — бессрочно, прошедшая дата — истечь сразу
+ * @throws ApiKeyError если ключа нет или он отозван
+ */
+export const setApiKeyExpiry = async (id: string, expiresAt: Date | null): Promise<ApiKeySummary> => {
+  assertKeyId(id);
+  if (expiresAt && isNaN(expiresAt.getTime())) {
+    throw new ApiKeyError('Invalid expiry date', 'INVALID_EXPIRY');
+  }
+
+  const row = await transaction(async (client: PoolClient) => {
+    await lockActiveKey(client, id);
+    const result = await client.queryObject<AdminApiKeyRow>(
+      'UPDATE admin_api_keys SET expires_at = $2 WHERE id = $1 RETURNING *',
+      [id, expiresAt]
+    );
+    return result.rows[0];
+  });
+
+  logger.info('API key expiry changed', { id, expiresAt });
+  return rowToSummary(row);
+};
+
+/**
+ * Отозвать ключ
+ * @throws ApiKeyError если ключа нет или он уже отозван
+ */
+export const revokeApiKey = async (id: string): Promise<ApiKeySummary> => {
+  assertKeyId(id);
+  const row = await transaction(async (client: PoolClient) => {
+    await lockActiveKey(client, id);
+    const result = await client.queryObject<AdminApiKeyRow>(
+      'UPDATE admin_api_keys SET revoked_at = NOW() WHERE id = $1 RETURNING *',
+      [id]
+    );
+    return result.rows[0];
+  });
+
+  logger.info('API key revoked', { id, name: row.name });
+  return rowToSummary(row);
+};
+
+/**
+ * Проверить API-ключ и отметить его использование
+ * Сначала ключи из БД, затем из окружения. Если БД недоступна,
+ * работают только ключи из окружения.
+ * @param key - ключ из заголовка
+ * @param ip - адрес клиента для last_used_ip
+ * @returns информация об админе или null
+ */
+export const authenticateApiKey = async (
+  key: string,
+  ip?: string
+): Promise<AdminInfo | null> => {
+  if (key.startsWith(KEY_PREFIX)) {
+    try {
+      const row = await queryOne<AdminApiKeyRow>(
+        `UPDATE admin_api_keys
+         SET last_used_at = NOW(), last_used_ip = $2
+         WHERE key_hash = $1
+           AND revoked_at IS NULL
+           AND (expires_at IS NULL OR expires_at > NOW())
+         RETURNING *`,
+        [await hashApiKey(key), ip ?? null]
+      );
+
+      if (row) {
+        return {
+          keyId: row.id,
+          name: row.name,
+          permissions: row.permissions,
+          createdAt: row.created_at.toISOString(),
+        };
+      }
+    } catch (err) {
+      logger.warn('API key lookup failed, falling back to environment keys', { error: err });
+    }
+  }
+
+  return getEnvAdminInfo(key);
+};
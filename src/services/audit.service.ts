@@ -3,8 +3,8 @@
  */
 
 import { logger } from '../utils/logger.ts';
-import { query } from '../config/database.ts';
-import { maskKey } from '../config/admin.ts';
+import { query, queryOne } from '../config/database.ts';
+import { maskKey, type AdminInfo } from '../config/admin.ts';
 
 /**
  * Типы админ действий
@@ -15,6 +15,7 @@ export type AdminActionType =
   | 'delete_university'
   | 'update_profile'
   | 'patch_profile'
+  | 'rollback_profile'
   | 'create_program'
   | 'update_program'
   | 'delete_program'
@@ -22,6 +23,17 @@ export type AdminActionType =
   | 'trigger_update'
   | 'view_data'
   | 'login_attempt'
+  | 'reset_rate_limit'
+  | 'create_api_key'
+  | 'rotate_api_key'
+  | 'update_api_key'
+  | 'revoke_api_key'
+  | 'cancel_parse_job'
+  | 'update_source_schedule'
+  | 'approve_profile_change'
+  | 'reject_profile_change'
+  | 'update_exchange_rate'
+  | 'delete_exchange_rate'
   | 'other';
 
 /**
@@ -55,12 +67,13 @@ export const logAdminAction = async (
     ip?: string;
     userAgent?: string;
     adminName?: string;
+    /** Логин учётной записи при входе по сессии (вместо ключа) */
+    username?: string;
   },
   success: boolean,
   errorMessage?: string
 ): Promise<void> => {
-  const maskedKey = maskKey(adminKey);
-  const timestamp = new Date().toISOString();
+  const maskedKey = !adminKey && details.username ? `session:${details.username}` : maskKey(adminKey);
 
   // Логируем в консоль
   const logData = {
@@ -82,28 +95,21 @@ export const logAdminAction = async (
   // Сохраняем в БД
   try {
     await query(
-      `INSERT INTO update_logs (source_id, status, changes_detected, error_message, processing_time_ms)
-       VALUES (
-         (SELECT id FROM university_sources LIMIT 1), 
-         $1, 
-         $2, 
-         $3, 
-         0
-       )`,
+      `INSERT INTO admin_audit_log (
+         admin_key_masked, admin_name, action, resource_type, resource_id,
+         details, success, error_message, ip_address, user_agent
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
       [
-        success ? 'success' : 'failed',
-        true,
-        JSON.stringify({
-          type: 'admin_action',
-          admin_key_masked: maskedKey,
-          admin_name: details.adminName,
-          action,
-          resource_type: details.resourceType,
-          resource_id: details.resourceId,
-          details: details.data,
-          ip: details.ip,
-          timestamp,
-        }),
+        maskedKey,
+        details.adminName ?? null,
+        action,
+        details.resourceType,
+        details.resourceId ?? null,
+        details.data ? JSON.stringify(details.data) : null,
+        success,
+        errorMessage ?? null,
+        details.ip ?? null,
+        details.userAgent ?? null,
       ]
     );
   } catch (err) {
@@ -115,7 +121,9 @@ export const logAdminAction = async (
 /**
  * Создать хелпер для логирования в роутах
  */
-export const createAuditLogger = (req: Request, adminKey: string | null, adminName?: string) => {
+export const createAuditLogger = (req: Request, adminKey: string | null, admin?: AdminInfo | null) => {
+  const adminName = admin?.name;
+  const username = admin?.username;
   const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() 
     ?? req.headers.get('x-real-ip') 
     ?? 'unknown';
@@ -133,7 +141,7 @@ export const createAuditLogger = (req: Request, adminKey: string | null, adminNa
       await logAdminAction(
         adminKey,
         action,
-        { resourceType, resourceId, data, ip, userAgent, adminName },
+        { resourceType, resourceId, data, ip, userAgent, adminName, username },
         success,
         errorMessage
       );
@@ -148,7 +156,7 @@ export const createAuditLogger = (req: Request, adminKey: string | null, adminNa
       await logAdminAction(
         adminKey,
         action,
-        { resourceType, resourceId, data, ip, userAgent, adminName },
+        { resourceType, resourceId, data, ip, userAgent, adminName, username },
         true
       );
     },
@@ -163,7 +171,7 @@ export const createAuditLogger = (req: Request, adminKey: string | null, adminNa
       await logAdminAction(
         adminKey,
         action,
-        { resourceType, resourceId, data, ip, userAgent, adminName },
+        { resourceType, resourceId, data, ip, userAgent, adminName, username },
         false,
         errorMessage
       );
@@ -172,40 +180,103 @@ export const createAuditLogger = (req: Request, adminKey: string | null, adminNa
 };
 
 /**
- * Получить последние админ действия
+ * Фильтры журнала админ-действий
  */
-export const getRecentAdminActions = async (limit: number = 50): Promise<AuditRecord[]> => {
-  const results = await query<{ error_message: string; created_at: string }>(
-    `SELECT error_message, created_at
-     FROM update_logs
-     WHERE error_message LIKE '%"type":"admin_action"%'
+export interface AuditLogFilters {
+  adminName?: string;
+  action?: AdminActionType;
+  resourceType?: string;
+  resourceId?: string;
+  success?: boolean;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Строка таблицы admin_audit_log
+ */
+interface AuditLogRow {
+  id: string;
+  admin_key_masked: string;
+  admin_name: string | null;
+  action: AdminActionType;
+  resource_type: string;
+  resource_id: string | null;
+  details: Record<string, unknown> | null;
+  success: boolean;
+  error_message: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+}
+
+/**
+ * Получить админ действия с фильтрами и пагинацией
+ * @param filters - админ, тип действия, ресурс, период
+ * @returns записи (от новых к старым) и общее количество
+ */
+export const getAdminActions = async (
+  filters: AuditLogFilters = {}
+): Promise<{ data: AuditRecord[]; total: number }> => {
+  const { limit = 50, offset = 0 } = filters;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const addCondition = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (filters.adminName) addCondition('admin_name ILIKE ?', `%${filters.adminName}%`);
+  if (filters.action) addCondition('action = ?', filters.action);
+  if (filters.resourceType) addCondition('resource_type = ?', filters.resourceType);
+  if (filters.resourceId) addCondition('resource_id = ?', filters.resourceId);
+  if (filters.success !== undefined) addCondition('success = ?', filters.success);
+  if (filters.from) addCondition('created_at >= ?', filters.from);
+  if (filters.to) addCondition('created_at <= ?', filters.to);
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) as count FROM admin_audit_log ${whereClause}`,
+    params
+  );
+
+  const rows = await query<AuditLogRow>(
+    `SELECT id, admin_key_masked, admin_name, action, resource_type, resource_id,
+            details, success, error_message, ip_address, user_agent, created_at
+     FROM admin_audit_log
+     ${whereClause}
      ORDER BY created_at DESC
-     LIMIT $1`,
-    [limit]
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
   );
 
-  return results.map((r) => {
-    try {
-      const data = JSON.parse(r.error_message);
-      return {
-        admin_key_masked: data.admin_key_masked,
-        admin_name: data.admin_name,
-        action: data.action,
-        resource_type: data.resource_type,
-        resource_id: data.resource_id,
-        details: data.details,
-        success: true,
-        ip_address: data.ip,
-        timestamp: data.timestamp ?? r.created_at,
-      };
-    } catch {
-      return {
-        admin_key_masked: 'unknown',
-        action: 'other' as AdminActionType,
-        resource_type: 'unknown',
-        success: false,
-        timestamp: r.created_at,
-      };
-    }
-  });
+  return {
+    data: rows.map((r) => ({
+      id: r.id,
+      admin_key_masked: r.admin_key_masked,
+      admin_name: r.admin_name ?? undefined,
+      action: r.action,
+      resource_type: r.resource_type,
+      resource_id: r.resource_id ?? undefined,
+      details: r.details ?? undefined,
+      success: r.success,
+      error_message: r.error_message ?? undefined,
+      ip_address: r.ip_address ?? undefined,
+      user_agent: r.user_agent ?? undefined,
+      timestamp: new Date(r.created_at).toISOString(),
+    })),
+    total: parseInt(countResult?.count ?? '0', 10),
+  };
+};
+
+/**
+ * Получить последние админ действия
+ */
+export const getRecentAdminActions = async (limit: number = 50): Promise<AuditRecord[]> => {
+  const result = await getAdminActions({ limit });
+  return result.data;
 };
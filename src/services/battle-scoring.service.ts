@@ -0,0 +1,253 @@
+/**
+ * Расчёт баллов Battle Mode по данным профиля
+ * Баллы не зависят от LLM: каждый критерий считается по формуле из конкретных полей,
+ * модель только объясняет результат. Модуль без обращений к БД — используется и в UI.
+ */
+
+import type { University } from '../types/university.ts';
+
+/**
+ * Критерии сравнения
+ */
+export const BATTLE_CRITERIA = [
+  'reputation',
+  'cost',
+  'international',
+  'breadth',
+  'scholarships',
+  'teaching',
+] as const;
+
+export type BattleCriterionKey = typeof BATTLE_CRITERIA[number];
+
+/**
+ * Веса критериев (0 — критерий не учитывается)
+ */
+export type BattleWeights = Record<BattleCriterionKey, number>;
+
+export const DEFAULT_BATTLE_WEIGHT = 1;
+export const MAX_BATTLE_WEIGHT = 5;
+
+export const DEFAULT_BATTLE_WEIGHTS: BattleWeights = {
+  reputation: DEFAULT_BATTLE_WEIGHT,
+  cost: DEFAULT_BATTLE_WEIGHT,
+  international: DEFAULT_BATTLE_WEIGHT,
+  breadth: DEFAULT_BATTLE_WEIGHT,
+  scholarships: DEFAULT_BATTLE_WEIGHT,
+  teaching: DEFAULT_BATTLE_WEIGHT,
+};
+
+/**
+ * Названия критериев по языкам
+ */
+export const BATTLE_CRITERIA_LABELS: Record<BattleCriterionKey, Record<string, string>> = {
+  reputation: { ru: 'Академическая репутация', kk: 'Академиялық беделі', en: 'Academic Reputation' },
+  cost: { ru: 'Стоимость обучения', kk: 'Оқу құны', en: 'Cost' },
+  international: { ru: 'Международное разнообразие', kk: 'Халықаралық әртүрлілік', en: 'International Diversity' },
+  breadth: { ru: 'Выбор программ', kk: 'Бағдарламалар таңдауы', en: 'Program Breadth' },
+  scholarships: { ru: 'Стипендии и гранты', kk: 'Стипендиялар мен гранттар', en: 'Scholarships' },
+  teaching: { ru: 'Студентов на преподавателя', kk: 'Бір оқытушыға студенттер', en: 'Student/Faculty Ratio' },
+};
+
+/**
+ * Параметры формул
+ */
+export const BATTLE_SCORING_CONFIG = {
+  maxScore: 10,
+  /** Стоимость (USD/год), при которой балл за цену равен 0 */
+  maxTuitionUsd: 50_000,
+  /** Доля иностранных студентов (%), дающая максимальный балл */
+  fullInternationalPercentage: 40,
+  /** Число программ, дающее максимальный балл */
+  fullProgramsCount: 100,
+  /** Число стипендий, дающее максимальный балл */
+  fullScholarshipsCount: 5,
+  /** Соотношение студентов к преподавателям: лучший и нулевой балл */
+  bestStudentFacultyRatio: 5,
+  worstStudentFacultyRatio: 30,
+};
+
+/**
+ * Данные университета для расчёта
+ */
+export interface BattleScoringInput {
+  profile: University;
+  /** Колонки universities.min_tuition / max_tuition (USD/год) */
+  minTuition?: number | null;
+  maxTuition?: number | null;
+}
+
+/**
+ * Балл по одному критерию
+ */
+export interface CriterionScoreValue {
+  /** 0–10, при отсутствии данных 0 */
+  score: number;
+  /** Данные, из которых получен балл (null — данных нет) */
+  basis: string | null;
+}
+
+/**
+ * Округлить до сотых
+ */
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Ограничить балл диапазоном 0–10 и округлить до десятых
+ */
+const toScore = (value: number): number =>
+  Math.round(Math.min(BATTLE_SCORING_CONFIG.maxScore, Math.max(0, value)) * 10) / 10;
+
+const noData = (): CriterionScoreValue => ({ score: 0, basis: null });
+
+/**
+ * Репутация: лучшее место в рейтингах, логарифмическая шкала
+ * #1 → 10, #10 → 8, #100 → 6, #1000 → 4
+ */
+const scoreReputation = ({ profile }: BattleScoringInput): CriterionScoreValue => {
+  const ranked = (profile.rankings || profile.ratings || [])
+    .filter((r) => typeof r.rank === 'number' && r.rank > 0);
+  if (ranked.length === 0) return noData();
+
+  const best = ranked.reduce((a, b) => (b.rank! < a.rank! ? b : a));
+  return {
+    score: toScore(BATTLE_SCORING_CONFIG.maxScore - 2 * Math.log10(best.rank!)),
+    basis: `${best.source} #${best.rank} (${best.year})`,
+  };
+};
+
+/**
+ * Стоимость: средняя из min/max стоимости, бесплатно → 10, maxTuitionUsd и дороже → 0
+ */
+const scoreCost = ({ minTuition, maxTuition }: BattleScoringInput): CriterionScoreValue => {
+  const known = [minTuition, maxTuition].filter((v): v is number => typeof v === 'number' && v >= 0);
+  if (known.length === 0) return noData();
+
+  const average = known.reduce((sum, v) => sum + v, 0) / known.length;
+  const { maxScore, maxTuitionUsd } = BATTLE_SCORING_CONFIG;
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return {
+    score: toScore(maxScore * (1 - Math.min(average, maxTuitionUsd) / maxTuitionUsd)),
+    basis: min === max ? `${min} USD` : `${min}–${max} USD`,
+  };
+};
+
+/**
+ * Международность: доля иностранных студентов, fullInternationalPercentage и выше → 10
+ */
+const scoreInternational = ({ profile }: BattleScoringInput): CriterionScoreValue => {
+  const percentage = profile.international?.international_percentage;
+  if (typeof percentage !== 'number') return noData();
+
+  const { maxScore, fullInternationalPercentage } = BATTLE_SCORING_CONFIG;
+  return {
+    score: toScore((maxScore * percentage) / fullInternationalPercentage),
+    basis: `${percentage}%`,
+  };
+};
+
+/**
+ * Выбор программ: число программ, логарифмическая шкала до fullProgramsCount
+ */
+const scoreBreadth = ({ profile }: BattleScoringInput): CriterionScoreValue => {
+  const count = profile.programs?.length ?? 0;
+  if (count === 0) return noData();
+
+  const { maxScore, fullProgramsCount } = BATTLE_SCORING_CONFIG;
+  return {
+    score: toScore((maxScore * Math.log10(1 + count)) / Math.log10(1 + fullProgramsCount)),
+    basis: String(count),
+  };
+};
+
+/**
+ * Стипендии: число стипендий и грантов, fullScholarshipsCount и больше → 10
+ */
+const scoreScholarships = ({ profile }: BattleScoringInput): CriterionScoreValue => {
+  const count = profile.scholarships?.length ?? 0;
+  if (count === 0) return noData();
+
+  const { maxScore, fullScholarshipsCount } = BATTLE_SCORING_CONFIG;
+  return {
+    score: toScore((maxScore * count) / fullScholarshipsCount),
+    basis: String(count),
+  };
+};
+
+/**
+ * Преподавание: студентов на одного преподавателя, меньше — лучше
+ */
+const scoreTeaching = ({ profile }: BattleScoringInput): CriterionScoreValue => {
+  const { student_count: students, faculty_count: faculty } = profile;
+  if (!students || !faculty) return noData();
+
+  const ratio = students / faculty;
+  const { maxScore, bestStudentFacultyRatio: best, worstStudentFacultyRatio: worst } = BATTLE_SCORING_CONFIG;
+  return {
+    score: toScore((maxScore * (worst - ratio)) / (worst - best)),
+    basis: `${Math.round(ratio * 10) / 10}:1`,
+  };
+};
+
+const SCORERS: Record<BattleCriterionKey, (input: BattleScoringInput) => CriterionScoreValue> = {
+  reputation: scoreReputation,
+  cost: scoreCost,
+  international: scoreInternational,
+  breadth: scoreBreadth,
+  scholarships: scoreScholarships,
+  teaching: scoreTeaching,
+};
+
+/**
+ * Посчитать балл университета по критерию
+ */
+export const scoreCriterion = (key: BattleCriterionKey, input: BattleScoringInput): CriterionScoreValue =>
+  SCORERS[key](input);
+
+/**
+ * Взвешенный итог 0–10 по учитываемым критериям
+ * @param scores - баллы по критериям
+ * @param weights - веса тех же критериев
+ */
+export const weightedTotal = (
+  scores: Partial<Record<BattleCriterionKey, number>>,
+  weights: BattleWeights
+): number => {
+  let sum = 0;
+  let weightSum = 0;
+  for (const [key, score] of Object.entries(scores) as Array<[BattleCriterionKey, number]>) {
+    sum += score * weights[key];
+    weightSum += weights[key];
+  }
+  return weightSum > 0 ? round2(sum / weightSum) : 0;
+};
+
+/**
+ * Разобрать веса из строки вида "reputation:3,cost:0"
+ * Не указанные критерии получают вес по умолчанию.
+ * @returns веса или null, если строка некорректна
+ */
+export const parseBattleWeights = (value: string | null | undefined): BattleWeights | null => {
+  const weights: BattleWeights = { ...DEFAULT_BATTLE_WEIGHTS };
+  if (!value) return weights;
+
+  for (const part of value.split(',')) {
+    const [key, raw] = part.split(':').map((s) => s.trim());
+    const weight = Number(raw);
+    if (!(BATTLE_CRITERIA as readonly string[]).includes(key)) return null;
+    if (raw === '' || !Number.isInteger(weight) || weight < 0 || weight > MAX_BATTLE_WEIGHT) return null;
+    weights[key as BattleCriterionKey] = weight;
+  }
+
+  return BATTLE_CRITERIA.some((key) => weights[key] > 0) ? weights : null;
+};
+
+/**
+ * Записать веса в строку для запроса (только отличные от значения по умолчанию)
+ */
+export const formatBattleWeights = (weights: BattleWeights): string =>
+  BATTLE_CRITERIA
+    .filter((key) => weights[key] !== DEFAULT_BATTLE_WEIGHT)
+    .map((key) => `${key}:${weights[key]}`)
+    .join(',');
@@ -0,0 +1,153 @@
+/**
+ * Battles Service - сохранённые сравнения университетов
+ *
+ * Каждый результат /api/universities/compare сохраняется в battles и получает
+ * постоянный id для ссылки /battle/{id}. Вместе с результатом хранятся версии
+ * профилей: если какой-то профиль с тех пор изменился, сравнение помечается
+ * устаревшим и его можно пересчитать — id при этом не меняется.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne } from '../config/database.ts';
+import { type BattleResult, compareUniversities } from './university-battle.service.ts';
+import type { BattleWeights } from './battle-scoring.service.ts';
+import type { BattleRow } from '../types/database.ts';
+
+/**
+ * Ошибка работы с сохранённым сравнением
+ */
+export class BattleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_STALE'
+  ) {
+    super(message);
+    this.name = 'BattleError';
+  }
+}
+
+/**
+ * Сохранённое сравнение
+ */
+export interface StoredBattle {
+  id: string;
+  universityIds: string[];
+  profileVersions: number[];
+  language: string;
+  weights: BattleWeights;
+  result: BattleResult;
+  /** Профиль хотя бы одного университета изменился после расчёта */
+  isStale: boolean;
+  /** Университеты, у которых сменилась версия профиля (или профиль удалён) */
+  changedUniversityIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Текущие версии профилей
+ */
+const getCurrentVersions = async (ids: string[]): Promise<Map<string, number>> => {
+  const rows = await query<{ university_id: string; version: number }>(
+    `SELECT university_id, MAX(version) AS version
+     FROM university_profiles
+     WHERE university_id = ANY($1::uuid[])
+     GROUP BY university_id`,
+    [ids]
+  );
+  return new Map(rows.map((r) => [r.university_id, Number(r.version)]));
+};
+
+const rowToBattle = (row: BattleRow, current: Map<string, number>): StoredBattle => {
+  const changedUniversityIds = row.university_ids.filter(
+    (id, i) => current.get(id) !== row.profile_versions[i]
+  );
+  return {
+    id: row.id,
+    universityIds: row.university_ids,
+    profileVersions: row.profile_versions,
+    language: row.language,
+    weights: row.weights as BattleWeights,
+    result: row.result as BattleResult,
+    isStale: changedUniversityIds.length > 0,
+    changedUniversityIds,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+};
+
+/**
+ * Сохранить результат сравнения
+ * Тот же набор, язык, веса и версии профилей возвращают уже сохранённую запись.
+ * @param result - результат compareUniversities
+ * @param language - язык результата
+ */
+export const saveBattle = async (result: BattleResult, language: string): Promise<StoredBattle> => {
+  const ids = result.universities.map((u) => u.id);
+  const versions = result.universities.map((u) => u.profileVersion);
+  const weights = JSON.stringify(result.weights);
+
+  let row = await queryOne<BattleRow>(
+    `SELECT * FROM battles
+     WHERE university_ids = $1::uuid[] AND language = $2
+       AND weights = $3::jsonb AND profile_versions = $4::int[]
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [ids, language, weights, versions]
+  );
+
+  if (!row) {
+    row = await queryOne<BattleRow>(
+      `INSERT INTO battles (university_ids, profile_versions, language, weights, result)
+       VALUES ($1::uuid[], $2::int[], $3, $4::jsonb, $5::jsonb)
+       RETURNING *`,
+      [ids, versions, language, weights, JSON.stringify(result)]
+    );
+    logger.info('Battle saved', { id: row!.id, ids });
+  }
+
+  return rowToBattle(row!, new Map(ids.map((id, i) => [id, versions[i]])));
+};
+
+/**
+ * Получить сохранённое сравнение
+ * @param id - ID сравнения
+ * @returns сравнение с признаком устаревания или null
+ */
+export const getBattle = async (id: string): Promise<StoredBattle | null> => {
+  const row = await queryOne<BattleRow>('SELECT * FROM battles WHERE id = $1', [id]);
+  if (!row) return null;
+
+  return rowToBattle(row, await getCurrentVersions(row.university_ids));
+};
+
+/**
+ * Пересчитать устаревшее сравнение по текущим профилям
+ * Ссылка остаётся прежней: обновляется та же запись.
+ * @param id - ID сравнения
+ */
+export const recomputeBattle = async (id: string): Promise<StoredBattle> => {
+  const battle = await getBattle(id);
+  if (!battle) {
+    throw new BattleError('Battle not found', 'NOT_FOUND');
+  }
+  if (!battle.isStale) {
+    throw new BattleError('Profiles have not changed since the battle was computed', 'NOT_STALE');
+  }
+
+  const result = await compareUniversities(battle.universityIds, battle.language, battle.weights, {
+    refresh: true,
+  });
+  const versions = result.universities.map((u) => u.profileVersion);
+
+  const row = await queryOne<BattleRow>(
+    `UPDATE battles
+     SET result = $2::jsonb, profile_versions = $3::int[], updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [id, JSON.stringify(result), versions]
+  );
+
+  logger.info('Battle recomputed', { id, changed: battle.changedUniversityIds });
+  return rowToBattle(row!, await getCurrentVersions(row!.university_ids));
+};
@@ -0,0 +1,402 @@
+/**
+ * Сервис поиска контекста для чат-бота (RAG)
+ * Находит университеты, о которых спрашивает пользователь, и готовит
+ * компактный фактический контекст из profile_json для промпта
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query } from '../config/database.ts';
+import { searchUniversitiesInDb } from './search.service.ts';
+import type { University } from '../types/university.ts';
+
+/**
+ * Настройки поиска контекста
+ */
+const RETRIEVAL_CONFIG = {
+  /** Максимум университетов в контексте */
+  maxUniversities: 5,
+  /** Минимальный score совпадения по названию */
+  minNameScore: 75,
+  /** Максимум кандидатов-названий из сообщения */
+  maxNameCandidates: 4,
+  /** Программ на университет в контексте */
+  maxProgramsPerUniversity: 5,
+  /** Длина текстовых полей в контексте */
+  maxTextLength: 200,
+  /** Время жизни кэша городов */
+  citiesCacheTtl: 1000 * 60 * 10,
+};
+
+/**
+ * Ключевые слова специализаций (значения — как в колонке specializations)
+ */
+const SPECIALIZATION_KEYWORDS: Record<string, string[]> = {
+  STEM: ['stem', 'it', 'айти', 'программир', 'информатик', 'computer', 'математик', 'физик', 'science'],
+  Engineering: ['инженер', 'engineering', 'техническ', 'инженерлік'],
+  Business: ['бизнес', 'business', 'менеджмент', 'management', 'экономик', 'economics', 'mba', 'финанс'],
+  Medicine: ['медицин', 'medicine', 'medical', 'врач', 'медицина'],
+  Law: ['юрид', 'право', 'law', 'юрист', 'құқық'],
+  Arts: ['искусств', 'arts', 'дизайн', 'design', 'музык', 'music'],
+  Humanities: ['гуманитар', 'humanities', 'филолог', 'истори', 'history'],
+  'Social Sciences': ['социал', 'social', 'психолог', 'psychology', 'политолог'],
+  Education: ['педагог', 'education', 'учител', 'teacher'],
+  Agriculture: ['аграр', 'agricultur', 'сельск'],
+};
+
+/**
+ * Ключевые слова уровней образования
+ */
+const DEGREE_KEYWORDS: Record<string, string[]> = {
+  Bachelor: ['бакалавр', 'bachelor', 'undergraduate', 'бакалавриат'],
+  Master: ['магистр', 'master', 'магистратур', 'mba'],
+  PhD: ['phd', 'доктор', 'докторантур', 'аспирантур'],
+};
+
+/**
+ * Распознанные параметры запроса пользователя
+ */
+export interface ChatQueryIntent {
+  nameCandidates: string[];
+  cities: string[];
+  specializations: string[];
+  degreeLevels: string[];
+  maxTuition: number | null;
+}
+
+/**
+ * Университет, использованный как источник ответа
+ */
+export interface ChatCitation {
+  id: string;
+  name: string;
+}
+
+/**
+ * Результат поиска контекста
+ */
+export interface RetrievedContext {
+  intent: ChatQueryIntent;
+  universities: ChatCitation[];
+  /** Текст контекста для промпта (пустая строка если ничего не найдено) */
+  context: string;
+}
+
+/**
+ * Кэш списка городов
+ */
+let citiesCache: { cities: string[]; timestamp: number } | null = null;
+
+/**
+ * Получить список городов (с кэшем)
+ */
+const getKnownCities = async (): Promise<string[]> => {
+  if (citiesCache && Date.now() - citiesCache.timestamp < RETRIEVAL_CONFIG.citiesCacheTtl) {
+    return citiesCache.cities;
+  }
+
+  const rows = await query<{ city: string }>(
+    `SELECT DISTINCT city FROM universities WHERE is_active = true AND city IS NOT NULL`
+  );
+  citiesCache = { cities: rows.map((r) => r.city), timestamp: Date.now() };
+  return citiesCache.cities;
+};
+
+/**
+ * Проверить упоминание слова с учётом окончаний (Астана → Астане, Астаны)
+ */
+const mentionsWord = (text: string, word: string): boolean => {
+  const lower = word.toLowerCase();
+  if (text.includes(lower)) return true;
+  return lower.length >= 5 && text.includes(lower.slice(0, -1));
+};
+
+/**
+ * Слово с заглавной буквы, включая составное через дефис
+ */
+const CAPITALIZED_WORD = String.raw`\p{Lu}\p{Ll}+(?:-\p{L}+)*(?!\p{L})`;
+
+/**
+ * Слова с заглавной буквы подряд, не в начале предложения
+ */
+const CAPITALIZED_WORDS_PATTERN = new RegExp(
+  String.raw`(?<=[^.!?]\s)${CAPITALIZED_WORD}(?:\s+${CAPITALIZED_WORD})*`,
+  'gu'
+);
+
+/**
+ * Найти кандидатов в названия университетов: аббревиатуры и слова с заглавной буквы
+ * (кроме первого слова предложения)
+ */
+export const extractNameCandidates = (message: string): string[] => {
+  const candidates = new Set<string>();
+
+  // Аббревиатуры: MIT, КБТУ, КазНУ (\b в JS видит только латиницу, границы — по \p{L})
+  for (const match of message.matchAll(/(?<!\p{L})\p{Lu}\p{L}*\p{Lu}\p{L}*(?!\p{L})/gu)) {
+    candidates.add(match[0]);
+  }
+
+  // Последовательности слов с заглавной буквы: "Назарбаев Университет", "Әл-Фараби"
+  for (const match of message.matchAll(CAPITALIZED_WORDS_PATTERN)) {
+    candidates.add(match[0]);
+  }
+
+  return [...candidates]
+    .filter((c) => c.length >= 3)
+    .slice(0, RETRIEVAL_CONFIG.maxNameCandidates);
+};
+
+/**
+ * Найти ограничение по стоимости: "до 5000$", "дешевле 3000 долларов", "under $10000"
+ */
+const extractMaxTuition = (text: string): number | null => {
+  const match = text.match(
+    /(?:до|дешевле|меньше|не больше|under|below|less than|up to)\s*\$?\s*(\d[\d\s,]*)\s*(?:\$|usd|долл|dollars?)?/
+  );
+  if (!match) return null;
+
+  const amount = parseInt(match[1].replace(/[\s,]/g, ''), 10);
+  return isNaN(amount) || amount < 100 ? null : amount;
+};
+
+/**
+ * Распознать параметры запроса
+ * @param message - сообщение пользователя
+ * @returns названия, города, специализации, уровни и бюджет
+ */
+export const extractQueryIntent = async (message: string): Promise<ChatQueryIntent> => {
+  const text = message.toLowerCase();
+
+  const matchKeywords = (dictionary: Record<string, string[]>): string[] =>
+    Object.entries(dictionary)
+      .filter(([, keywords]) => keywords.some((k) => new RegExp(`(^|[^a-zа-яё])${k}`).test(text)))
+      .map(([value]) => value);
+
+  let cities: string[] = [];
+  try {
+    cities = (await getKnownCities()).filter((city) => mentionsWord(text, city));
+  } catch (err) {
+    logger.warn('Failed to load cities for chat retrieval', { error: err });
+  }
+
+  return {
+    nameCandidates: extractNameCandidates(message),
+    cities,
+    specializations: matchKeywords(SPECIALIZATION_KEYWORDS),
+    degreeLevels: matchKeywords(DEGREE_KEYWORDS),
+    maxTuition: extractMaxTuition(text),
+  };
+};
+
+/**
+ * Найти университеты по упомянутым названиям
+ */
+const findByNames = async (candidates: string[]): Promise<string[]> => {
+  const ids: string[] = [];
+
+  for (const candidate of candidates) {
+    const { results } = await searchUniversitiesInDb(candidate, 3);
+    for (const r of results) {
+      if (r.score >= RETRIEVAL_CONFIG.minNameScore && !ids.includes(r.id)) {
+        ids.push(r.id);
+      }
+    }
+  }
+
+  return ids;
+};
+
+/**
+ * Найти университеты по колонкам фильтрации
+ */
+const findByFilters = async (intent: ChatQueryIntent, limit: number): Promise<string[]> => {
+  const conditions: string[] = ['is_active = true'];
+  const values: unknown[] = [];
+
+  if (intent.cities.length > 0) {
+    values.push(intent.cities);
+    conditions.push(`city = ANY($${values.length})`);
+  }
+
+  if (intent.specializations.length > 0) {
+    values.push(JSON.stringify(intent.specializations));
+    conditions.push(`specializations ?| ARRAY(SELECT jsonb_array_elements_text($${values.length}::jsonb))`);
+  }
+
+  if (intent.degreeLevels.length > 0) {
+    values.push(JSON.stringify(intent.degreeLevels));
+    conditions.push(`degree_levels @> $${values.length}::jsonb`);
+  }
+
+  if (intent.maxTuition !== null) {
+    values.push(intent.maxTuition);
+    conditions.push(`min_tuition <= $${values.length}`);
+  }
+
+  // Без распознанных фильтров выборка была бы случайной — не добавляем контекст
+  if (values.length === 0) return [];
+
+  values.push(limit);
+  const rows = await query<{ id: string }>(
+    `SELECT id FROM universities
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY student_count DESC NULLS LAST, name
+     LIMIT $${values.length}`,
+    values
+  );
+
+  return rows.map((r) => r.id);
+};
+
+/**
+ * Обрезать текст для контекста
+ */
+const truncate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || value.trim() === '' || value === 'Нет информации') return null;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length > RETRIEVAL_CONFIG.maxTextLength
+    ? `${text.slice(0, RETRIEVAL_CONFIG.maxTextLength)}…`
+    : text;
+};
+
+/**
+ * Сформировать компактное описание университета для промпта
+ */
+const formatUniversityContext = (
+  index: number,
+  row: {
+    name: string;
+    city: string;
+    country: string;
+    website_url: string | null;
+    min_tuition: number | null;
+    max_tuition: number | null;
+    specializations: string[] | null;
+    languages: string[] | null;
+    profile_json: University | null;
+  }
+): string => {
+  const profile = row.profile_json;
+  const lines: string[] = [`[${index}] ${row.name} — ${row.city}, ${row.country}`];
+
+  if (row.website_url) lines.push(`Website: ${row.website_url}`);
+  if (profile?.founded_year) lines.push(`Founded: ${profile.founded_year}`);
+  if (profile?.student_count) lines.push(`Students: ${profile.student_count}`);
+  if (row.min_tuition !== null || row.max_tuition !== null) {
+    lines.push(`Tuition (USD/year): ${row.min_tuition ?? '?'}–${row.max_tuition ?? '?'}`);
+  }
+  if (row.specializations?.length) lines.push(`Fields: ${row.specializations.join(', ')}`);
+  if (row.languages?.length) lines.push(`Languages: ${row.languages.join(', ')}`);
+
+  const programs = (profile?.programs ?? []).slice(0, RETRIEVAL_CONFIG.maxProgramsPerUniversity);
+  if (programs.length > 0) {
+    const formatted = programs.map((p) => {
+      const tuition = p.tuition?.amount ? `, ${p.tuition.amount} ${p.tuition.currency}` : '';
+      return `${p.name} (${p.degree_level}${tuition})`;
+    });
+    lines.push(`Programs: ${formatted.join('; ')}`);
+  }
+
+  const admissions = truncate(profile?.admissions?.requirements);
+  if (admissions) lines.push(`Admissions: ${admissions}`);
+
+  const scholarships = (profile?.scholarships ?? []).map((s) => s.name).filter(Boolean);
+  if (scholarships.length > 0) lines.push(`Scholarships: ${scholarships.slice(0, 3).join('; ')}`);
+
+  const international = truncate(profile?.tuition_general?.international_students);
+  if (international) lines.push(`International tuition: ${international}`);
+
+  return lines.join('\n');
+};
+
+/**
+ * Найти университеты, относящиеся к сообщению, и собрать контекст
+ * @param message - сообщение пользователя
+ * @returns найденные университеты и текст контекста
+ */
+export const retrieveChatContext = async (message: string): Promise<RetrievedContext> => {
+  const intent = await extractQueryIntent(message);
+
+  const ids = await findByNames(intent.nameCandidates);
+  if (ids.length < RETRIEVAL_CONFIG.maxUniversities) {
+    const filtered = await findByFilters(intent, RETRIEVAL_CONFIG.maxUniversities);
+    for (const id of filtered) {
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+
+  const selected = ids.slice(0, RETRIEVAL_CONFIG.maxUniversities);
+  if (selected.length === 0) {
+    return { intent, universities: [], context: '' };
+  }
+
+  const rows = await query<{
+    id: string;
+    name: string;
+    city: string;
+    country: string;
+    website_url: string | null;
+    min_tuition: number | null;
+    max_tuition: number | null;
+    specializations: string[] | null;
+    languages: string[] | null;
+    profile_json: University | null;
+  }>(
+    `SELECT u.id, u.name, u.city, u.country, u.website_url, u.min_tuition, u.max_tuition,
+            u.specializations, u.languages, up.profile_json
+     FROM universities u
+     LEFT JOIN LATERAL (
+       SELECT profile_json FROM university_profiles
+       WHERE university_id = u.id
+       ORDER BY version DESC LIMIT 1
+     ) up ON true
+     WHERE u.id = ANY($1)`,
+    [selected]
+  );
+
+  // Сохранить порядок релевантности
+  const ordered = selected
+    .map((id) => rows.find((r) => r.id === id))
+    .filter((r): r is NonNullable<typeof r> => r !== undefined);
+
+  logger.debug('Chat context retrieved', {
+    intent,
+    universities: ordered.map((r) => r.name),
+  });
+
+  return {
+    intent,
+    universities: ordered.map((r) => ({ id: r.id, name: r.name })),
+    context: ordered.map((r, i) => formatUniversityContext(i + 1, r)).join('\n\n'),
+  };
+};
+
+/**
+ * Определить, на какие университеты из контекста ссылается ответ
+ * Ссылка — маркер [n] или упоминание названия. Маркеры в ответе
+ * перенумеровываются по порядку списка источников.
+ * @param response - ответ модели
+ * @param universities - университеты из контекста (в порядке нумерации)
+ * @returns ответ с перенумерованными маркерами и процитированные университеты
+ */
+export const linkCitations = (
+  response: string,
+  universities: ChatCitation[]
+): { response: string; citations: ChatCitation[] } => {
+  const text = response.toLowerCase();
+
+  const citedIndexes = universities
+    .map((_, i) => i)
+    .filter((i) =>
+      response.includes(`[${i + 1}]`) || text.includes(universities[i].name.toLowerCase())
+    );
+
+  const renumbered = response.replace(/\[(\d+)\]/g, (marker, n: string) => {
+    const position = citedIndexes.indexOf(parseInt(n, 10) - 1);
+    return position >= 0 ? `[${position + 1}]` : marker;
+  });
+
+  return {
+    response: renumbered,
+    citations: citedIndexes.map((i) => universities[i]),
+  };
+};
@@ -3,7 +3,14 @@
  */
 
 import { logger } from '../utils/logger.ts';
-import { callOllamaForText } from '../utils/ollama.client.ts';
+import { callLlm, streamLlm } from '../utils/llm/index.ts';
+import { query, queryOne } from '../config/database.ts';
+import {
+  retrieveChatContext,
+  linkCitations,
+  type ChatCitation,
+  type RetrievedContext,
+} from './chat-retrieval.service.ts';
 
 /**
  * Сообщение чата
@@ -12,6 +19,17 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  /** Университеты, на которые ссылается ответ ассистента */
+  citations?: ChatCitation[];
+}
+
+/**
+ * Ответ чат-бота с источниками
+ */
+export interface ChatbotReply {
+  response: string;
+  /** Университеты из базы, использованные в ответе */
+  citations: ChatCitation[];
 }
 
 /**
@@ -27,43 +45,51 @@ export interface ChatSession {
 }
 
 /**
- * Хранилище сессий
+ * Настройки хранения сессий
  */
-const sessions = new Map<string, ChatSession>();
+export const CHAT_SESSION_CONFIG = {
+  /** Время жизни сессии без активности (часы) */
+  ttlHours: parseInt(Deno.env.get('CHAT_SESSION_TTL_HOURS') ?? '24', 10),
+  /** Сколько последних сообщений передавать в промпт */
+  historyLimit: 10,
+  /** Максимальная длина ответа (символы) */
+  maxResponseLength: 800,
+};
 
 /**
- * Rate limiter для чата
+ * Языки сессий чата
  */
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
-const RATE_LIMIT_MAX = 10;
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 минута
+export const CHAT_LANGUAGES = ['ru', 'kk', 'en'];
 
 /**
- * Кэш частых ответов
+ * Формат ID сессии (UUID)
  */
-const responseCache = new Map<string, { response: string; timestamp: number }>();
-const CACHE_TTL = 1000 * 60 * 60; // 1 час
-
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
- * Проверить rate limit
+ * Проверить формат ID сессии
  */
-export const checkChatRateLimit = (ip: string): boolean => {
-  const now = Date.now();
-  const entry = rateLimitMap.get(ip);
+export const isValidSessionId = (sessionId: unknown): sessionId is string => {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+};
 
-  if (!entry || now > entry.resetAt) {
-    rateLimitMap.set(ip, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
-    return true;
-  }
+/**
+ * Строка таблицы chat_sessions
+ */
+interface ChatSessionRow {
+  id: string;
+  user_id: string | null;
+  language: string;
+  created_at: Date;
+  expires_at: Date;
+}
 
-  if (entry.count >= RATE_LIMIT_MAX) {
-    return false;
-  }
+/**
+ * Кэш частых ответов
+ */
+const responseCache = new Map<string, { reply: ChatbotReply; timestamp: number }>();
+const CACHE_TTL = 1000 * 60 * 60; // 1 час
 
-  entry.count++;
-  return true;
-};
 
 /**
  * Валидировать сообщение
@@ -107,16 +133,22 @@ TOPIC RULES:
 
 STYLE RULES:
 1. Be friendly, supportive, and encouraging.
-2. Keep answers brief (1-3 paragraphs, max 400 characters).
-3. For detailed info, suggest searching in our database.`;
+2. Keep answers brief (1-3 paragraphs, max 600 characters).
+3. For detailed info, suggest searching in our database.
+
+FACT RULES:
+1. When a "University database facts" section is provided, use ONLY those facts for names, tuition, programs and admission details.
+2. Cite the universities you mention with their number in square brackets, e.g. [1].
+3. If the facts do not answer the question, say that the database has no such information instead of guessing.`;
 
 /**
- * Построить промпт для Ollama
+ * Построить промпт для LLM
  */
 const buildChatPrompt = (
   message: string,
   history: ChatMessage[],
-  _language: string
+  _language: string,
+  context: string
 ): string => {
   // Форматировать историю
   const historyText = history
@@ -126,6 +158,7 @@ const buildChatPrompt = (
 
   return `${SYSTEM_PROMPT}
 
+${context ? `University database facts:\n${context}\n` : ''}
 ${historyText ? `Conversation history:\n${historyText}\n` : ''}
 User message: "${message}"
 
@@ -133,19 +166,36 @@ IMPORTANT: Detect the language of the user's message above and respond in THE SA
 };
 
 /**
- * Генерировать ответ чат-бота
- * @param message - сообщение пользователя
- * @param history - история чата
- * @param language - язык (ru | kk | en)
- * @returns ответ бота
+ * Ответ при ошибке генерации
  */
-export const generateChatbotResponse = async (
+const getFallbackReply = (language: string): ChatbotReply => {
+  if (language === 'ru') {
+    return { response: 'Извините, произошла ошибка. Попробуйте переформулировать вопрос.', citations: [] };
+  } else if (language === 'kk') {
+    return { response: 'Кешіріңіз, қате орын алды. Сұрақты қайта құрып көріңіз.', citations: [] };
+  }
+  return { response: 'Sorry, an error occurred. Please try rephrasing your question.', citations: [] };
+};
+
+/**
+ * Подготовленный запрос к модели
+ */
+interface PreparedChatRequest {
+  cacheKey: string;
+  cacheable: boolean;
+  cached: ChatbotReply | null;
+  prompt: string;
+  retrieved: RetrievedContext | null;
+}
+
+/**
+ * Проверить сообщение, кэш и собрать промпт с контекстом из базы
+ */
+const prepareChatRequest = async (
   message: string,
   history: ChatMessage[],
-  language: string = 'ru'
-): Promise<string> => {
-  const startTime = Date.now();
-
+  language: string
+): Promise<PreparedChatRequest> => {
   // Валидация
   const validation = validateMessage(message);
   if (!validation.valid) {
@@ -156,10 +206,11 @@ export const generateChatbotResponse = async (
 
   // Проверить кэш для частых вопросов
   const cacheKey = `${normalizedMessage}:${language}`;
+  const cacheable = history.length === 0 && normalizedMessage.length < 100;
   const cached = responseCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
     logger.debug('Chat cache hit', { message: normalizedMessage.slice(0, 50) });
-    return cached.response;
+    return { cacheKey, cacheable, cached: cached.reply, prompt: '', retrieved: null };
   }
 
   logger.info('Generating chatbot response', {
@@ -168,117 +219,276 @@ export const generateChatbotResponse = async (
     language,
   });
 
-  // Построить промпт и вызвать Ollama
-  const prompt = buildChatPrompt(message, history, language);
-
-  let response: string;
+  // Найти университеты из базы, относящиеся к вопросу
+  let retrieved: RetrievedContext | null = null;
   try {
-    response = await callOllamaForText(prompt);
+    retrieved = await retrieveChatContext(message);
   } catch (err) {
-    logger.error('Chatbot generation failed', { error: err });
-    
-    // Fallback ответ
-    if (language === 'ru') {
-      return 'Извините, произошла ошибка. Попробуйте переформулировать вопрос.';
-    } else if (language === 'kk') {
-      return 'Кешіріңіз, қате орын алды. Сұрақты қайта құрып көріңіз.';
-    }
-    return 'Sorry, an error occurred. Please try rephrasing your question.';
+    logger.warn('Chat context retrieval failed, answering without context', { error: err });
   }
 
+  return {
+    cacheKey,
+    cacheable,
+    cached: null,
+    prompt: buildChatPrompt(message, history, language, retrieved?.context ?? ''),
+    retrieved,
+  };
+};
+
+/**
+ * Обрезать ответ, связать источники и положить в кэш
+ */
+const finalizeReply = (
+  prepared: PreparedChatRequest,
+  rawResponse: string,
+  startTime: number
+): ChatbotReply => {
+  let response = rawResponse;
+
   // Обрезать ответ если слишком длинный
-  if (response.length > 500) {
-    response = response.slice(0, 497) + '...';
+  const maxLength = CHAT_SESSION_CONFIG.maxResponseLength;
+  if (response.length > maxLength) {
+    response = response.slice(0, maxLength - 3) + '...';
   }
 
+  const reply: ChatbotReply = prepared.retrieved
+    ? linkCitations(response, prepared.retrieved.universities)
+    : { response, citations: [] };
+
   // Кэшировать ответ для простых вопросов
-  if (history.length === 0 && normalizedMessage.length < 100) {
-    responseCache.set(cacheKey, { response, timestamp: Date.now() });
+  if (prepared.cacheable) {
+    responseCache.set(prepared.cacheKey, { reply, timestamp: Date.now() });
   }
 
-  const duration = Date.now() - startTime;
   logger.info('Chatbot response generated', {
     responseLength: response.length,
-    duration,
+    contextUniversities: prepared.retrieved?.universities.length ?? 0,
+    citations: reply.citations.length,
+    duration: Date.now() - startTime,
   });
 
-  return response;
+  return reply;
 };
 
 /**
- * Создать новую сессию чата
+ * Генерировать ответ чат-бота
+ * @param message - сообщение пользователя
+ * @param history - история чата
+ * @param language - язык (ru | kk | en)
+ * @returns ответ бота и университеты, на которые он ссылается
  */
-export const createChatSession = (language: string = 'ru', userId?: string): ChatSession => {
-  const id = crypto.randomUUID();
-  const now = new Date();
+export const generateChatbotResponse = async (
+  message: string,
+  history: ChatMessage[],
+  language: string = 'ru'
+): Promise<ChatbotReply> => {
+  const startTime = Date.now();
 
-  const session: ChatSession = {
-    id,
-    userId,
-    language,
-    messages: [],
-    createdAt: now,
-    expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000), // 24 часа
-  };
+  const prepared = await prepareChatRequest(message, history, language);
+  if (prepared.cached) return prepared.cached;
+
+  let response: string;
+  try {
+    response = await callLlm('chat', prepared.prompt);
+  } catch (err) {
+    logger.error('Chatbot generation failed', { error: err });
+    return getFallbackReply(language);
+  }
+
+  return finalizeReply(prepared, response, startTime);
+};
+
+/**
+ * Генерировать ответ чат-бота потоково
+ * Фрагменты текста передаются в onToken; после maxResponseLength генерация
+ * останавливается. Итоговый ответ (с перенумерованными ссылками [n])
+ * возвращается так же, как в generateChatbotResponse.
+ * @param message - сообщение пользователя
+ * @param history - история чата
+ * @param language - язык (ru | kk | en)
+ * @param onToken - обработчик очередного фрагмента
+ * @param signal - отмена генерации (например, клиент закрыл соединение)
+ * @returns ответ бота и университеты, на которые он ссылается
+ */
+export const streamChatbotResponse = async (
+  message: string,
+  history: ChatMessage[],
+  language: string,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<ChatbotReply> => {
+  const startTime = Date.now();
+
+  const prepared = await prepareChatRequest(message, history, language);
+  if (prepared.cached) {
+    onToken(prepared.cached.response);
+    return prepared.cached;
+  }
+
+  // Собственный контроллер: отмена клиентом или превышение длины ответа
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
 
-  sessions.set(id, session);
-  return session;
+  let received = '';
+  try {
+    await streamLlm('chat', prepared.prompt, {
+      temperature: 0.1,
+      signal: controller.signal,
+      onToken: (token) => {
+        received += token;
+        onToken(token);
+        if (received.length >= CHAT_SESSION_CONFIG.maxResponseLength) {
+          controller.abort();
+        }
+      },
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+
+    // Остановлено по длине — ответ уже получен
+    if (!controller.signal.aborted) {
+      logger.error('Chatbot streaming failed', { error: err, receivedLength: received.length });
+      if (received.length === 0) {
+        const fallback = getFallbackReply(language);
+        onToken(fallback.response);
+        return fallback;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+
+  return finalizeReply(prepared, received, startTime);
 };
 
 /**
- * Получить сессию чата
+ * Создать новую сессию чата
+ * @param language - язык сессии
+ * @param userId - идентификатор пользователя (если есть)
  */
-export const getChatSession = (sessionId: string): ChatSession | null => {
-  const session = sessions.get(sessionId);
-  if (!session) return null;
-
-  // Проверить срок действия
-  if (new Date() > session.expiresAt) {
-    sessions.delete(sessionId);
-    return null;
+export const createChatSession = async (
+  language: string = 'ru',
+  userId?: string
+): Promise<ChatSession> => {
+  const row = await queryOne<ChatSessionRow>(
+    `INSERT INTO chat_sessions (user_id, language, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(hours => $3))
+     RETURNING id, user_id, language, created_at, expires_at`,
+    [userId ?? null, language, CHAT_SESSION_CONFIG.ttlHours]
+  );
+
+  if (!row) {
+    throw new Error('Failed to create chat session');
   }
 
-  return session;
+  logger.debug('Chat session created', { id: row.id, language });
+
+  return {
+    id: row.id,
+    userId: row.user_id ?? undefined,
+    language: row.language,
+    messages: [],
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+  };
+};
+
+/**
+ * Получить сессию чата вместе с сообщениями
+ * @param sessionId - ID сессии
+ * @returns сессия или null, если не найдена или истекла
+ */
+export const getChatSession = async (sessionId: string): Promise<ChatSession | null> => {
+  // Некорректный UUID — сессии точно нет, не отправляем запрос в БД
+  if (!isValidSessionId(sessionId)) return null;
+
+  const row = await queryOne<ChatSessionRow>(
+    `SELECT id, user_id, language, created_at, expires_at
+     FROM chat_sessions
+     WHERE id = $1 AND expires_at > NOW()`,
+    [sessionId]
+  );
+  if (!row) return null;
+
+  const messages = await query<{
+    role: 'user' | 'assistant';
+    content: string;
+    citations: ChatCitation[] | null;
+    created_at: Date;
+  }>(
+    `SELECT role, content, citations, created_at
+     FROM chat_messages
+     WHERE session_id = $1
+     ORDER BY created_at, id`,
+    [sessionId]
+  );
+
+  return {
+    id: row.id,
+    userId: row.user_id ?? undefined,
+    language: row.language,
+    messages: messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+      timestamp: new Date(m.created_at),
+      ...(m.role === 'assistant' ? { citations: m.citations ?? [] } : {}),
+    })),
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+  };
 };
 
 /**
- * Добавить сообщение в сессию
+ * Добавить сообщение в сессию и продлить её срок действия
+ * @param citations - университеты, на которые ссылается ответ ассистента
  */
-export const addMessageToSession = (
+export const addMessageToSession = async (
   sessionId: string,
   role: 'user' | 'assistant',
-  content: string
-): void => {
-  const session = sessions.get(sessionId);
-  if (!session) return;
-
-  session.messages.push({
-    role,
-    content,
-    timestamp: new Date(),
-  });
+  content: string,
+  citations: ChatCitation[] = []
+): Promise<void> => {
+  await query(
+    `INSERT INTO chat_messages (session_id, role, content, citations) VALUES ($1, $2, $3, $4)`,
+    [sessionId, role, content, JSON.stringify(citations)]
+  );
+
+  await query(
+    `UPDATE chat_sessions
+     SET last_activity_at = NOW(), expires_at = NOW() + make_interval(hours => $2)
+     WHERE id = $1`,
+    [sessionId, CHAT_SESSION_CONFIG.ttlHours]
+  );
 };
 
 /**
- * Очистить старые сессии
+ * Удалить сессию чата вместе с сообщениями
+ * @returns true если сессия была удалена
  */
-export const cleanupExpiredSessions = (): number => {
-  const now = new Date();
-  let cleaned = 0;
-
-  for (const [id, session] of sessions.entries()) {
-    if (now > session.expiresAt) {
-      sessions.delete(id);
-      cleaned++;
-    }
-  }
+export const deleteChatSession = async (sessionId: string): Promise<boolean> => {
+  if (!isValidSessionId(sessionId)) return false;
+
+  const deleted = await query<{ id: string }>(
+    'DELETE FROM chat_sessions WHERE id = $1 RETURNING id',
+    [sessionId]
+  );
+  return deleted.length > 0;
+};
+
+/**
+ * Удалить истёкшие сессии (сообщения удаляются каскадно)
+ * @returns количество удалённых сессий
+ */
+export const purgeExpiredChatSessions = async (): Promise<number> => {
+  const deleted = await query<{ id: string }>(
+    'DELETE FROM chat_sessions WHERE expires_at <= NOW() RETURNING id'
+  );
 
-  if (cleaned > 0) {
-    logger.debug('Cleaned expired chat sessions', { count: cleaned });
+  if (deleted.length > 0) {
+    logger.info('Purged expired chat sessions', { count: deleted.length });
   }
 
-  return cleaned;
+  return deleted.length;
 };
-
-// Автоочистка каждый час
-setInterval(cleanupExpiredSessions, 60 * 60 * 1000);
@@ -0,0 +1,512 @@
+import { logger } from '../utils/logger.ts';
+import { htmlToMarkdown } from '../utils/markdown.converter.ts';
+import { politeFetch, setDomainCrawlDelay } from './http-fetch.service.ts';
+import type { SourcePageValidator } from '../types/database.ts';
+
+/**
+ * Конфигурация краулера
+ */
+const CRAWLER_CONFIG = {
+  maxDepth: 2, // Глубина обхода от главной страницы
+  maxPages: 8, // Максимум страниц (включая главную)
+  fetchTimeout: 15000, // 15 секунд на страницу (паузы между запросами — в politeFetch)
+  robotsTimeout: 5000,
+  robotsAgent: 'digitaluniversity',
+};
+
+/**
+ * Ключевые слова в URL и тексте ссылки с весами приоритета
+ */
+const PRIORITY_KEYWORDS: Array<{ keywords: string[]; weight: number }> = [
+  {
+    keywords: ['admission', 'apply', 'applicant', 'enrol', 'поступ', 'абитуриент', 'прием', 'приём', 'қабылдау', 'талапкер'],
+    weight: 10,
+  },
+  {
+    keywords: ['tuition', 'fee', 'cost', 'price', 'стоимост', 'оплат', 'цены', 'ақы'],
+    weight: 9,
+  },
+  {
+    keywords: ['program', 'programme', 'degree', 'bachelor', 'master', 'phd', 'программ', 'специальност', 'бакалавр', 'магистр', 'докторант', 'бағдарлама'],
+    weight: 9,
+  },
+  {
+    keywords: ['scholarship', 'grant', 'стипенд', 'грант'],
+    weight: 7,
+  },
+  {
+    keywords: ['international', 'foreign', 'иностран', 'международ', 'шетел'],
+    weight: 6,
+  },
+  {
+    keywords: ['about', 'university', 'history', 'об-университете', 'о-университете', 'университет', 'туралы'],
+    weight: 5,
+  },
+  {
+    keywords: ['contact', 'контакт', 'байланыс'],
+    weight: 4,
+  },
+  {
+    keywords: ['campus', 'dormitor', 'hostel', 'кампус', 'общежит', 'жатақхана'],
+    weight: 3,
+  },
+];
+
+/**
+ * Разделы сайта, которые почти никогда не содержат данных для профиля
+ */
+const PENALTY_KEYWORDS = [
+  'news', 'event', 'gallery', 'photo', 'video', 'login', 'logout', 'auth', 'search',
+  'calendar', 'tag', 'print', 'новост', 'событи', 'галере', 'жаңалық',
+];
+
+/**
+ * Расширения файлов, которые не являются HTML страницами
+ */
+const SKIP_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|rar|7z|jpe?g|png|gif|webp|svg|ico|mp4|mp3|avi|mov|css|js|json|xml|rss)$/i;
+
+/**
+ * Загруженная страница сайта
+ */
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  html: string;
+  markdown: string;
+  /** Валидаторы ответа для условных запросов при следующей проверке */
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * Опции обхода сайта
+ */
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+}
+
+/**
+ * Кандидат на загрузку
+ */
+interface CrawlCandidate {
+  url: string;
+  depth: number;
+  score: number;
+}
+
+/**
+ * Правило robots.txt
+ */
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/**
+ * Разделитель страниц в объединённом markdown
+ */
+const PAGE_MARKER = /^<!-- page: (\S+) -->$/gm;
+
+/**
+ * Нормализовать URL для сравнения (без якоря и завершающего слэша)
+ */
+const normalizeUrl = (url: URL): string => {
+  const copy = new URL(url.toString());
+  copy.hash = '';
+  const path = copy.pathname.length > 1 ? copy.pathname.replace(/\/+$/, '') : copy.pathname;
+  return `${copy.protocol}//${copy.host}${path}${copy.search}`;
+};
+
+/**
+ * Хост без www для проверки принадлежности одному домену
+ */
+const bareHost = (url: URL): string => url.hostname.toLowerCase().replace(/^www\./, '');
+
+/**
+ * Оценить приоритет ссылки по URL и тексту
+ * @param url - абсолютный URL
+ * @param text - текст ссылки
+ * @returns приоритет (больше — важнее)
+ */
+export const scoreLink = (url: string, text: string): number => {
+  let decoded = url;
+  try {
+    decoded = decodeURIComponent(url);
+  } catch {
+    // Некорректное percent-кодирование — используем URL как есть
+  }
+
+  const haystack = `${decoded} ${text}`.toLowerCase();
+  let score = 0;
+
+  for (const group of PRIORITY_KEYWORDS) {
+    if (group.keywords.some((kw) => haystack.includes(kw))) {
+      score = Math.max(score, group.weight);
+    }
+  }
+
+  if (PENALTY_KEYWORDS.some((kw) => haystack.includes(kw))) {
+    score -= 5;
+  }
+
+  return score;
+};
+
+/**
+ * Извлечь ссылки на страницы того же домена
+ * @param html - HTML страницы
+ * @param baseUrl - URL страницы
+ * @returns ссылки с текстом
+ */
+export const extractSameDomainLinks = (
+  html: string,
+  baseUrl: string
+): Array<{ url: string; text: string }> => {
+  const base = new URL(baseUrl);
+  const links = new Map<string, string>();
+  const linkRegex = /<a\s+(?:[^>]*?\s+)?href=["']([^"'#][^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+  let match;
+  while ((match = linkRegex.exec(html)) !== null) {
+    let resolved: URL;
+    try {
+      resolved = new URL(match[1], base);
+    } catch {
+      continue;
+    }
+
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') continue;
+    if (bareHost(resolved) !== bareHost(base)) continue;
+    if (SKIP_EXTENSIONS.test(resolved.pathname)) continue;
+
+    const url = normalizeUrl(resolved);
+    const text = match[2].replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+    if (!links.has(url)) {
+      links.set(url, text);
+    }
+  }
+
+  return Array.from(links, ([url, text]) => ({ url, text }));
+};
+
+/**
+ * Разобрать robots.txt и получить правила для нашего агента
+ * @param content - текст robots.txt
+ * @returns правила Allow/Disallow
+ */
+export const parseRobotsTxt = (content: string): RobotsRule[] => {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // Пустой Disallow означает "разрешено всё"
+      if (value) {
+        current.rules.push({ allow: field === 'allow', path: value });
+      }
+    }
+  }
+
+  const specific = groups.find((g) =>
+    g.agents.some((a) => a !== '*' && CRAWLER_CONFIG.robotsAgent.includes(a))
+  );
+  const wildcard = groups.find((g) => g.agents.includes('*'));
+
+  return (specific ?? wildcard)?.rules ?? [];
+};
+
+/**
+ * Получить Crawl-delay для нашего агента (или для *)
+ * @param content - текст robots.txt
+ * @returns задержка в секундах или null, если не задана
+ */
+export const parseRobotsCrawlDelay = (content: string): number | null => {
+  let agents: string[] = [];
+  let inRules = false;
+  let specific: number | null = null;
+  let wildcard: number | null = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+      continue;
+    }
+
+    inRules = true;
+    if (field !== 'crawl-delay') continue;
+
+    const delay = parseFloat(value);
+    if (!Number.isFinite(delay) || delay < 0) continue;
+
+    if (agents.some((a) => a !== '*' && CRAWLER_CONFIG.robotsAgent.includes(a))) {
+      specific = delay;
+    } else if (agents.includes('*')) {
+      wildcard = delay;
+    }
+  }
+
+  return specific ?? wildcard;
+};
+
+/**
+ * Проверить разрешён ли путь правилами robots.txt (побеждает самое длинное совпадение)
+ * @param rules - правила
+ * @param url - проверяемый URL
+ */
+export const isAllowedByRobots = (rules: RobotsRule[], url: string): boolean => {
+  const parsed = new URL(url);
+  const path = `${parsed.pathname}${parsed.search}`;
+  let best: RobotsRule | null = null;
+
+  for (const rule of rules) {
+    const pattern = new RegExp(
+      '^' +
+        rule.path
+          .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*/g, '.*')
+          .replace(/\\\$$/, '$')
+    );
+
+    if (pattern.test(path) && (!best || rule.path.length > best.path.length)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+};
+
+/**
+ * Загрузить правила robots.txt для сайта и запомнить Crawl-delay домена
+ * Если файл недоступен — обход разрешён
+ */
+const loadRobotsRules = async (origin: string): Promise<RobotsRule[]> => {
+  try {
+    const response = await politeFetch(`${origin}/robots.txt`, { timeout: CRAWLER_CONFIG.robotsTimeout });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return [];
+    }
+
+    const content = await response.text();
+    setDomainCrawlDelay(origin, parseRobotsCrawlDelay(content));
+    return parseRobotsTxt(content);
+  } catch (err) {
+    logger.debug('robots.txt unavailable', { origin, error: err instanceof Error ? err.message : err });
+    return [];
+  }
+};
+
+/**
+ * Загрузить одну внутреннюю страницу (без retry — ошибка подстраницы не критична)
+ */
+const fetchPage = async (
+  url: string
+): Promise<{ html: string; etag: string | null; lastModified: string | null } | null> => {
+  try {
+    const response = await politeFetch(url, { timeout: CRAWLER_CONFIG.fetchTimeout });
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!response.ok || !contentType.includes('html')) {
+      await response.body?.cancel();
+      logger.debug('Skipping page', { url, status: response.status, contentType });
+      return null;
+    }
+
+    return {
+      html: await response.text(),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    };
+  } catch (err) {
+    logger.warn('Failed to fetch page', { url, error: err instanceof Error ? err.message : err });
+    return null;
+  }
+};
+
+/**
+ * Проверить условными запросами, что внутренние страницы не менялись
+ * Страница без валидаторов, ответ не 304 или ошибка считаются изменением:
+ * тогда сайт нужно обойти заново.
+ * @param pages - валидаторы страниц прошлого обхода
+ * @returns true, если на все страницы сервер ответил 304
+ */
+export const checkPagesNotModified = async (pages: SourcePageValidator[]): Promise<boolean> => {
+  for (const page of pages) {
+    if (!page.etag && !page.lastModified) return false;
+
+    const headers: Record<string, string> = {};
+    if (page.etag) headers['If-None-Match'] = page.etag;
+    if (page.lastModified) headers['If-Modified-Since'] = page.lastModified;
+
+    try {
+      const response = await politeFetch(page.url, { timeout: CRAWLER_CONFIG.fetchTimeout, headers });
+      await response.body?.cancel();
+
+      if (response.status !== 304) {
+        logger.debug('Page changed', { url: page.url, status: response.status });
+        return false;
+      }
+    } catch (err) {
+      logger.warn('Failed to check page', { url: page.url, error: err instanceof Error ? err.message : err });
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Обойти сайт университета в пределах домена
+ * Главная страница уже загружена вызывающим кодом, далее загружаются
+ * наиболее релевантные внутренние страницы (поступление, программы, стоимость)
+ * @param startUrl - URL главной страницы
+ * @param startHtml - HTML главной страницы
+ * @param options - лимиты глубины и количества страниц
+ * @returns загруженные страницы (главная — первая)
+ */
+export const crawlWebsite = async (
+  startUrl: string,
+  startHtml: string,
+  options: CrawlOptions = {}
+): Promise<CrawledPage[]> => {
+  const maxDepth = options.maxDepth ?? CRAWLER_CONFIG.maxDepth;
+  const maxPages = options.maxPages ?? CRAWLER_CONFIG.maxPages;
+  const startTime = Date.now();
+
+  const pages: CrawledPage[] = [{
+    url: startUrl,
+    depth: 0,
+    html: startHtml,
+    markdown: htmlToMarkdown(startHtml),
+  }];
+
+  if (maxPages <= 1 || maxDepth < 1) {
+    return pages;
+  }
+
+  const origin = new URL(startUrl).origin;
+  const robotsRules = await loadRobotsRules(origin);
+  const seen = new Set<string>([normalizeUrl(new URL(startUrl))]);
+  const frontier: CrawlCandidate[] = [];
+
+  const enqueueLinks = (html: string, pageUrl: string, depth: number): void => {
+    if (depth > maxDepth) return;
+
+    for (const link of extractSameDomainLinks(html, pageUrl)) {
+      if (seen.has(link.url)) continue;
+      seen.add(link.url);
+
+      const score = scoreLink(link.url, link.text);
+      // Страницы без ключевых слов не загружаем: в них редко есть данные для профиля
+      if (score <= 0) continue;
+
+      frontier.push({ url: link.url, depth, score });
+    }
+  };
+
+  enqueueLinks(startHtml, startUrl, 1);
+
+  while (pages.length < maxPages && frontier.length > 0) {
+    // Выбрать самого приоритетного кандидата (при равенстве — менее глубокого)
+    frontier.sort((a, b) => b.score - a.score || a.depth - b.depth);
+    const candidate = frontier.shift()!;
+
+    if (!isAllowedByRobots(robotsRules, candidate.url)) {
+      logger.debug('Disallowed by robots.txt', { url: candidate.url });
+      continue;
+    }
+
+    const page = await fetchPage(candidate.url);
+    if (!page) continue;
+
+    pages.push({
+      url: candidate.url,
+      depth: candidate.depth,
+      html: page.html,
+      markdown: htmlToMarkdown(page.html),
+      etag: page.etag,
+      lastModified: page.lastModified,
+    });
+
+    enqueueLinks(page.html, candidate.url, candidate.depth + 1);
+  }
+
+  logger.info('Website crawled', {
+    startUrl,
+    pagesCount: pages.length,
+    pages: pages.map((p) => p.url),
+    duration_ms: Date.now() - startTime,
+  });
+
+  return pages;
+};
+
+/**
+ * Объединить markdown нескольких страниц с маркерами источника
+ * @param pages - загруженные страницы
+ * @returns единый markdown для парсера
+ */
+export const mergePagesMarkdown = (pages: Array<Pick<CrawledPage, 'url' | 'markdown'>>): string => {
+  return pages
+    .map((page) => `<!-- page: ${page.url} -->\n${page.markdown}`)
+    .join('\n\n');
+};
+
+/**
+ * Разделить объединённый markdown обратно на страницы
+ * Текст без маркеров считается одной страницей с URL по умолчанию
+ * @param markdown - объединённый markdown
+ * @param defaultUrl - URL для текста без маркера
+ * @returns секции по страницам
+ */
+export const splitMergedMarkdown = (
+  markdown: string,
+  defaultUrl: string
+): Array<{ url: string; markdown: string }> => {
+  const sections: Array<{ url: string; markdown: string }> = [];
+  const markers = Array.from(markdown.matchAll(PAGE_MARKER));
+
+  const leading = markdown.slice(0, markers[0]?.index ?? markdown.length).trim();
+  if (leading) {
+    sections.push({ url: defaultUrl, markdown: leading });
+  }
+
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = markers[i + 1]?.index ?? markdown.length;
+    const content = markdown.slice(start, end).trim();
+
+    if (content) {
+      sections.push({ url: marker[1], markdown: content });
+    }
+  });
+
+  return sections;
+};
@@ -0,0 +1,156 @@
+/**
+ * Exchange Rates Service - курсы валют для стоимости обучения
+ *
+ * Курсы хранятся в exchange_rates как число единиц валюты за 1 USD и
+ * редактируются администратором. Чтение кэшируется в памяти процесса:
+ * курсы нужны при каждом сохранении профиля и в публичных API.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne } from '../config/database.ts';
+import { BASE_CURRENCY, type ExchangeRates } from '../utils/currency.ts';
+
+/**
+ * Время жизни кэша курсов
+ */
+const RATES_CACHE_TTL = 1000 * 60 * 5; // 5 минут
+
+/**
+ * Ошибка изменения курса
+ */
+export class ExchangeRateError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_CURRENCY' | 'INVALID_RATE' | 'BASE_CURRENCY' | 'NOT_FOUND'
+  ) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
+
+/**
+ * Курс для админки
+ */
+export interface ExchangeRate {
+  currency: string;
+  unitsPerUsd: number;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+interface ExchangeRateDbRow {
+  currency: string;
+  units_per_usd: string;
+  updated_by: string | null;
+  updated_at: Date;
+}
+
+const toExchangeRate = (row: ExchangeRateDbRow): ExchangeRate => ({
+  currency: row.currency.trim(),
+  unitsPerUsd: Number(row.units_per_usd),
+  updatedBy: row.updated_by,
+  updatedAt: new Date(row.updated_at).toISOString(),
+});
+
+let ratesCache: { rates: ExchangeRates; loadedAt: number } | null = null;
+
+/**
+ * Сбросить кэш курсов (после изменения и в тестах)
+ */
+export const clearExchangeRatesCache = (): void => {
+  ratesCache = null;
+};
+
+/**
+ * Курсы всех валют: код → единиц за 1 USD
+ */
+export const getExchangeRates = async (): Promise<ExchangeRates> => {
+  if (ratesCache && Date.now() - ratesCache.loadedAt < RATES_CACHE_TTL) {
+    return ratesCache.rates;
+  }
+
+  const rows = await query<{ currency: string; units_per_usd: string }>(
+    'SELECT currency, units_per_usd FROM exchange_rates'
+  );
+
+  const rates: ExchangeRates = { [BASE_CURRENCY]: 1 };
+  for (const row of rows) {
+    rates[row.currency.trim()] = Number(row.units_per_usd);
+  }
+
+  ratesCache = { rates, loadedAt: Date.now() };
+  return rates;
+};
+
+/**
+ * Список курсов для админки
+ */
+export const listExchangeRates = async (): Promise<ExchangeRate[]> => {
+  const rows = await query<ExchangeRateDbRow>(
+    'SELECT currency, units_per_usd, updated_by, updated_at FROM exchange_rates ORDER BY currency'
+  );
+
+  return rows.map(toExchangeRate);
+};
+
+/**
+ * Задать курс валюты
+ * @param currency - код ISO 4217
+ * @param unitsPerUsd - единиц валюты за 1 USD
+ * @param updatedBy - администратор, изменивший курс
+ * @throws ExchangeRateError при неверном коде или курсе, при попытке изменить USD
+ */
+export const setExchangeRate = async (
+  currency: string,
+  unitsPerUsd: number,
+  updatedBy: string | null
+): Promise<ExchangeRate> => {
+  const code = currency.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new ExchangeRateError('Currency must be an ISO 4217 code', 'INVALID_CURRENCY');
+  }
+  if (code === BASE_CURRENCY) {
+    throw new ExchangeRateError('USD is the base currency', 'BASE_CURRENCY');
+  }
+  if (!Number.isFinite(unitsPerUsd) || unitsPerUsd <= 0) {
+    throw new ExchangeRateError('Rate must be a positive number', 'INVALID_RATE');
+  }
+
+  const row = await queryOne<ExchangeRateDbRow>(
+    `INSERT INTO exchange_rates (currency, units_per_usd, updated_by, updated_at)
+     VALUES ($1, $2, $3, NOW())
+     ON CONFLICT (currency) DO UPDATE
+       SET units_per_usd = EXCLUDED.units_per_usd,
+           updated_by = EXCLUDED.updated_by,
+           updated_at = NOW()
+     RETURNING currency, units_per_usd, updated_by, updated_at`,
+    [code, unitsPerUsd, updatedBy]
+  );
+
+  clearExchangeRatesCache();
+  logger.info('Exchange rate updated', { currency: code, unitsPerUsd, updatedBy });
+
+  return toExchangeRate(row!);
+};
+
+/**
+ * Удалить курс валюты
+ * @throws ExchangeRateError если курса нет или это USD
+ */
+export const deleteExchangeRate = async (currency: string): Promise<void> => {
+  const code = currency.trim().toUpperCase();
+  if (code === BASE_CURRENCY) {
+    throw new ExchangeRateError('USD is the base currency', 'BASE_CURRENCY');
+  }
+
+  const rows = await query<{ currency: string }>(
+    'DELETE FROM exchange_rates WHERE currency = $1 RETURNING currency',
+    [code]
+  );
+  if (rows.length === 0) {
+    throw new ExchangeRateError(`No rate for ${code}`, 'NOT_FOUND');
+  }
+
+  clearExchangeRatesCache();
+  logger.info('Exchange rate deleted', { currency: code });
+};
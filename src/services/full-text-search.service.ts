@@ -0,0 +1,197 @@
+/**
+ * Full-text Search Service - полнотекстовый поиск по содержимому профилей
+ *
+ * Ищет по поисковым документам university_search_documents (миграция 021):
+ * названия, переводы, описание, программы, специализации и направления
+ * исследований. Запрос разбирается сразу в трёх конфигурациях (russian,
+ * english, simple для казахского), университет находится, если совпал хотя бы
+ * один язык. Фрагмент с подсветкой строится по тексту на языке интерфейса.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query } from '../config/database.ts';
+
+/**
+ * Языки поиска
+ */
+export type SearchLanguage = 'ru' | 'en' | 'kk';
+
+export const SEARCH_LANGUAGES: SearchLanguage[] = ['ru', 'en', 'kk'];
+
+/**
+ * Конфигурации текстового поиска PostgreSQL по языкам
+ */
+const TEXT_SEARCH_CONFIGS: Record<SearchLanguage, string> = {
+  ru: 'russian',
+  en: 'english',
+  kk: 'simple',
+};
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Границы подсветки в ts_headline (символы, которых нет в текстах профилей)
+ */
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+
+const HEADLINE_OPTIONS =
+  `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxWords=30, MinWords=12, ` +
+  `MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Часть фрагмента: совпадение с запросом или обычный текст
+ */
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Найденный университет
+ */
+export interface ContentSearchHit {
+  id: string;
+  name: string;
+  name_en: string | null;
+  country: string;
+  city: string;
+  /** ts_rank_cd по лучшему из языков */
+  rank: number;
+  /** Языки, в которых совпал запрос */
+  matched_languages: SearchLanguage[];
+  snippet: SnippetPart[];
+}
+
+export interface ContentSearchOptions {
+  language?: SearchLanguage;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ContentSearchResult {
+  results: ContentSearchHit[];
+  total: number;
+}
+
+/**
+ * Разобрать результат ts_headline на части с подсветкой
+ * @param headline - текст с маркерами MARK_START / MARK_END
+ */
+export const parseHeadline = (headline: string | null): SnippetPart[] => {
+  if (!headline) return [];
+
+  const parts: SnippetPart[] = [];
+  const push = (text: string, highlight: boolean) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && last.highlight === highlight) {
+      last.text += text;
+    } else {
+      parts.push({ text, highlight });
+    }
+  };
+
+  for (const [i, chunk] of headline.split(MARK_START).entries()) {
+    if (i === 0) {
+      push(chunk.replaceAll(MARK_END, ''), false);
+      continue;
+    }
+    const end = chunk.indexOf(MARK_END);
+    if (end === -1) {
+      push(chunk, true);
+      continue;
+    }
+    push(chunk.slice(0, end), true);
+    push(chunk.slice(end + 1).replaceAll(MARK_END, ''), false);
+  }
+
+  return parts;
+};
+
+/**
+ * Полнотекстовый поиск университетов по содержимому профилей
+ * @param searchQuery - запрос в синтаксисе websearch_to_tsquery ("фраза", or, -слово)
+ * @param options - язык фрагмента, limit и offset
+ */
+export const searchUniversityContent = async (
+  searchQuery: string,
+  options: ContentSearchOptions = {}
+): Promise<ContentSearchResult> => {
+  // Язык подставляется в SQL, поэтому принимаются только известные значения
+  const language = options.language && SEARCH_LANGUAGES.includes(options.language)
+    ? options.language
+    : 'ru';
+  const limit = Math.min(Math.max(options.limit ?? 20, 1), MAX_SEARCH_LIMIT);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const config = TEXT_SEARCH_CONFIGS[language];
+
+  const rows = await query<{
+    id: string;
+    name: string;
+    name_en: string | null;
+    country: string;
+    city: string;
+    rank: number;
+    match_ru: boolean;
+    match_en: boolean;
+    match_kk: boolean;
+    headline: string | null;
+    total: number;
+  }>(
+    `WITH q AS (
+       SELECT websearch_to_tsquery('russian', $1) AS ru,
+              websearch_to_tsquery('english', $1) AS en,
+              websearch_to_tsquery('simple', $1) AS kk
+     ),
+     hits AS (
+       SELECT d.*, u.name, u.name_en, u.country, u.city,
+              d.document_ru @@ q.ru AS match_ru,
+              d.document_en @@ q.en AS match_en,
+              d.document_kk @@ q.kk AS match_kk,
+              GREATEST(
+                ts_rank_cd(d.document_ru, q.ru),
+                ts_rank_cd(d.document_en, q.en),
+                ts_rank_cd(d.document_kk, q.kk)
+              ) AS rank,
+              COUNT(*) OVER () AS total
+       FROM university_search_documents d
+       JOIN universities u ON u.id = d.university_id AND u.is_active = true
+       CROSS JOIN q
+       WHERE d.document_ru @@ q.ru OR d.document_en @@ q.en OR d.document_kk @@ q.kk
+       ORDER BY rank DESC, u.name
+       LIMIT $2 OFFSET $3
+     )
+     SELECT h.university_id AS id, h.name, h.name_en, h.country, h.city, h.rank,
+            h.match_ru, h.match_en, h.match_kk, h.total,
+            CASE
+              WHEN h.content_${language} <> '' AND h.match_${language}
+                THEN ts_headline('${config}', h.content_${language}, q.${language}, $4)
+              ELSE ts_headline('russian', h.content_ru, q.ru, $4)
+            END AS headline
+     FROM hits h
+     CROSS JOIN q
+     ORDER BY h.rank DESC, h.name`,
+    [searchQuery, limit, offset, HEADLINE_OPTIONS]
+  );
+
+  logger.debug('Content search completed', { query: searchQuery, language, count: rows.length });
+
+  return {
+    results: rows.map((r) => {
+      const matches: Record<SearchLanguage, boolean> = { ru: r.match_ru, en: r.match_en, kk: r.match_kk };
+      return {
+        id: r.id,
+        name: r.name,
+        name_en: r.name_en,
+        country: r.country,
+        city: r.city,
+        rank: Math.round(Number(r.rank) * 10000) / 10000,
+        matched_languages: SEARCH_LANGUAGES.filter((lang) => matches[lang]),
+        snippet: parseHeadline(r.headline),
+      };
+    }),
+    total: rows.length > 0 ? Number(rows[0].total) : 0,
+  };
+};
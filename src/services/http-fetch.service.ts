@@ -0,0 +1,322 @@
+/**
+ * HTTP Fetch Service - вежливая загрузка сайтов университетов
+ *
+ * Все запросы парсера и краулера идут через politeFetch: не больше
+ * CRAWL_DOMAIN_CONCURRENCY одновременных запросов к домену, пауза между
+ * запросами не меньше Crawl-delay из robots.txt, после 429/503 с Retry-After
+ * домен не запрашивается до указанного времени. Результаты загрузки главной
+ * страницы источника пишутся в source_http_log.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query } from '../config/database.ts';
+
+/**
+ * Конфигурация загрузки
+ */
+export const HTTP_FETCH_CONFIG = {
+  userAgent: 'DigitalUniversity/1.0 (Educational Parser)',
+  /** Одновременных запросов к одному домену */
+  domainConcurrency: Math.max(1, parseInt(Deno.env.get('CRAWL_DOMAIN_CONCURRENCY') || '1') || 1),
+  /** Минимальная пауза между запросами к одному домену (мс) */
+  minDelayMs: parseInt(Deno.env.get('CRAWL_MIN_DELAY_MS') || '1000'),
+  /** Crawl-delay больше этого ограничивается (мс) */
+  maxCrawlDelayMs: 30_000,
+  /** Retry-After дальше этого ограничивается (мс) */
+  maxRetryAfterMs: 24 * 60 * 60 * 1000,
+  /** Сколько записей истории хранить на источник */
+  historyPerSource: 100,
+};
+
+/**
+ * Сайт попросил повторить позже (Retry-After) — запрос не выполнялся или получил 429/503
+ */
+export class RetryLaterError extends Error {
+  constructor(message: string, public readonly retryAt: Date) {
+    super(message);
+    this.name = 'RetryLaterError';
+  }
+}
+
+/**
+ * Состояние домена в этом процессе
+ */
+interface DomainState {
+  active: number;
+  waiters: Array<() => void>;
+  /** Не начинать запрос раньше (epoch ms) */
+  nextRequestAt: number;
+  crawlDelayMs: number;
+  /** Retry-After: до этого времени домен не запрашивается (epoch ms) */
+  blockedUntil: number;
+}
+
+const domains = new Map<string, DomainState>();
+
+const getDomainState = (url: string): DomainState => {
+  const host = new URL(url).hostname.toLowerCase();
+  let state = domains.get(host);
+  if (!state) {
+    state = { active: 0, waiters: [], nextRequestAt: 0, crawlDelayMs: 0, blockedUntil: 0 };
+    domains.set(host, state);
+  }
+  return state;
+};
+
+const acquireSlot = async (state: DomainState): Promise<void> => {
+  if (state.active < HTTP_FETCH_CONFIG.domainConcurrency) {
+    state.active++;
+    return;
+  }
+  // Слот передаётся ожидающему без уменьшения счётчика
+  await new Promise<void>((resolve) => state.waiters.push(resolve));
+};
+
+const releaseSlot = (state: DomainState): void => {
+  const next = state.waiters.shift();
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+};
+
+/**
+ * Разобрать Retry-After: секунды или HTTP-дата
+ * @returns время повтора или null, если заголовка нет или он неверный
+ */
+export const parseRetryAfter = (value: string | null, now: Date = new Date()): Date | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const ms = /^\d+$/.test(trimmed)
+    ? parseInt(trimmed, 10) * 1000
+    : Date.parse(trimmed) - now.getTime();
+  if (Number.isNaN(ms)) return null;
+
+  return new Date(now.getTime() + Math.min(Math.max(ms, 0), HTTP_FETCH_CONFIG.maxRetryAfterMs));
+};
+
+/**
+ * Запомнить Crawl-delay домена из robots.txt
+ * @param delaySeconds - значение директивы (null — не задана)
+ */
+export const setDomainCrawlDelay = (url: string, delaySeconds: number | null): void => {
+  const state = getDomainState(url);
+  state.crawlDelayMs = delaySeconds === null
+    ? 0
+    : Math.min(delaySeconds * 1000, HTTP_FETCH_CONFIG.maxCrawlDelayMs);
+};
+
+/**
+ * Сбросить состояние доменов (для тестов)
+ */
+export const resetDomainStates = (): void => {
+  domains.clear();
+};
+
+/**
+ * Загрузить URL с учётом ограничений домена
+ * @param options.timeout - таймаут запроса (мс)
+ * @param options.headers - дополнительные заголовки (например, условные)
+ * @throws RetryLaterError если срок Retry-After домена ещё не истёк
+ */
+export const politeFetch = async (
+  url: string,
+  options: { timeout: number; headers?: Record<string, string> }
+): Promise<Response> => {
+  const state = getDomainState(url);
+
+  if (state.blockedUntil > Date.now()) {
+    const retryAt = new Date(state.blockedUntil);
+    throw new RetryLaterError(`Site asked to retry after ${retryAt.toISOString()}`, retryAt);
+  }
+
+  await acquireSlot(state);
+  try {
+    const wait = state.nextRequestAt - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    state.nextRequestAt = Date.now() + Math.max(HTTP_FETCH_CONFIG.minDelayMs, state.crawlDelayMs);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          'User-Agent': HTTP_FETCH_CONFIG.userAgent,
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'ru,en;q=0.9',
+          ...options.headers,
+        },
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.status === 429 || response.status === 503) {
+      const retryAt = parseRetryAfter(response.headers.get('retry-after'));
+      if (retryAt) {
+        state.blockedUntil = retryAt.getTime();
+        logger.warn('Site asked to slow down', { url, status: response.status, retryAt: retryAt.toISOString() });
+      }
+    }
+
+    return response;
+  } finally {
+    releaseSlot(state);
+  }
+};
+
+/**
+ * Запись истории загрузки
+ */
+export interface HttpFetchRecord {
+  url: string;
+  /** null — таймаут или сетевая ошибка */
+  status: number | null;
+  error?: string;
+  durationMs: number;
+  retryAt?: Date | null;
+}
+
+/**
+ * Записать результат загрузки главной страницы источника
+ * Хранятся последние HTTP_FETCH_CONFIG.historyPerSource записей.
+ */
+export const recordSourceFetch = async (sourceId: string, record: HttpFetchRecord): Promise<void> => {
+  try {
+    await query(
+      `INSERT INTO source_http_log (source_id, url, status_code, error_message, response_time_ms, retry_after)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [sourceId, record.url, record.status, record.error ?? null, record.durationMs, record.retryAt ?? null]
+    );
+    await query(
+      'UPDATE university_sources SET last_http_status = $2, last_http_status_at = NOW() WHERE id = $1',
+      [sourceId, record.status]
+    );
+    await query(
+      `DELETE FROM source_http_log
+       WHERE source_id = $1 AND id NOT IN (
+         SELECT id FROM source_http_log WHERE source_id = $1 ORDER BY created_at DESC LIMIT $2
+       )`,
+      [sourceId, HTTP_FETCH_CONFIG.historyPerSource]
+    );
+  } catch (err) {
+    logger.error('Failed to record HTTP status', { sourceId, error: err });
+  }
+};
+
+/**
+ * Запись истории HTTP-статусов
+ */
+export interface SourceHttpLogEntry {
+  url: string;
+  statusCode: number | null;
+  errorMessage: string | null;
+  responseTimeMs: number | null;
+  retryAfter: string | null;
+  createdAt: string;
+}
+
+/**
+ * История загрузок источника (новые сверху)
+ */
+export const getSourceHttpHistory = async (
+  sourceId: string,
+  limit: number = 20
+): Promise<SourceHttpLogEntry[]> => {
+  const rows = await query<{
+    url: string;
+    status_code: number | null;
+    error_message: string | null;
+    response_time_ms: number | null;
+    retry_after: Date | null;
+    created_at: Date;
+  }>(
+    `SELECT url, status_code, error_message, response_time_ms, retry_after, created_at
+     FROM source_http_log WHERE source_id = $1
+     ORDER BY created_at DESC LIMIT $2`,
+    [sourceId, limit]
+  );
+
+  return rows.map((row) => ({
+    url: row.url,
+    statusCode: row.status_code,
+    errorMessage: row.error_message,
+    responseTimeMs: row.response_time_ms,
+    retryAfter: row.retry_after?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+  }));
+};
+
+/**
+ * Сайт с проблемами загрузки
+ */
+export interface FailingSource {
+  sourceId: string;
+  universityId: string;
+  universityName: string;
+  url: string;
+  lastStatus: number | null;
+  lastStatusAt: string | null;
+  failures: number;
+  attempts: number;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Источники, у которых последняя загрузка неудачна (не 2xx и не 304)
+ * @param days - за сколько дней считать попытки и ошибки
+ */
+export const listFailingSources = async (days: number = 7): Promise<FailingSource[]> => {
+  const rows = await query<{
+    source_id: string;
+    university_id: string;
+    university_name: string;
+    url: string;
+    last_http_status: number | null;
+    last_http_status_at: Date | null;
+    failures: number;
+    attempts: number;
+    last_success_at: Date | null;
+    last_error: string | null;
+  }>(
+    `SELECT s.id AS source_id, s.university_id, u.name AS university_name, s.url,
+            s.last_http_status, s.last_http_status_at,
+            COUNT(l.id) FILTER (
+              WHERE l.status_code IS NULL OR NOT (l.status_code BETWEEN 200 AND 299 OR l.status_code = 304)
+            )::int AS failures,
+            COUNT(l.id)::int AS attempts,
+            (SELECT MAX(created_at) FROM source_http_log ok
+             WHERE ok.source_id = s.id AND (ok.status_code BETWEEN 200 AND 299 OR ok.status_code = 304)
+            ) AS last_success_at,
+            (SELECT error_message FROM source_http_log e
+             WHERE e.source_id = s.id ORDER BY e.created_at DESC LIMIT 1) AS last_error
+     FROM university_sources s
+     JOIN universities u ON u.id = s.university_id
+     LEFT JOIN source_http_log l ON l.source_id = s.id AND l.created_at > NOW() - $1 * INTERVAL '1 day'
+     WHERE s.last_http_status_at IS NOT NULL
+       AND (s.last_http_status IS NULL OR NOT (s.last_http_status BETWEEN 200 AND 299 OR s.last_http_status = 304))
+     GROUP BY s.id, u.name
+     ORDER BY failures DESC, s.last_http_status_at DESC`,
+    [days]
+  );
+
+  return rows.map((row) => ({
+    sourceId: row.source_id,
+    universityId: row.university_id,
+    universityName: row.university_name,
+    url: row.url,
+    lastStatus: row.last_http_status,
+    lastStatusAt: row.last_http_status_at?.toISOString() ?? null,
+    failures: row.failures,
+    attempts: row.attempts,
+    lastSuccessAt: row.last_success_at?.toISOString() ?? null,
+    lastError: row.last_error,
+  }));
+};
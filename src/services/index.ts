@@ -9,6 +9,7 @@ export {
 
 export {
   fetchAndHashWebsite,
+  crawlAndHashWebsite,
   markdownToUniversityProfile,
   checkAndUpdateWebsite,
   updateAllSources,
@@ -17,11 +18,27 @@ export {
   ParserError,
 } from './parser.service.ts';
 
+export {
+  crawlWebsite,
+  mergePagesMarkdown,
+  type CrawledPage,
+  type CrawlOptions,
+} from './crawler.service.ts';
+
+export {
+  buildProvenance,
+  buildLlmProvenance,
+  carryOverProvenance,
+  preserveManualFields,
+  markManualChanges,
+} from './provenance.service.ts';
+
 export {
   createUniversity,
   deleteUniversity,
   updateUniversityProfile as adminUpdateProfile,
   patchUniversityProfile,
+  getProvenanceForEdit,
   getPrograms,
   createProgram,
   updateProgram,
@@ -34,14 +51,45 @@ export {
   type ChangesDiff,
 } from './admin.service.ts';
 
+export {
+  listProfileVersions,
+  getProfileVersion,
+  diffProfileVersions,
+  diffProfiles,
+  rollbackToVersion,
+  type ProfileVersionSummary,
+  type ProfileVersion,
+  type FieldDiff,
+  type VersionsDiff,
+} from './profile-versions.service.ts';
+
 export {
   logAdminAction,
   createAuditLogger,
+  getAdminActions,
   getRecentAdminActions,
   type AdminActionType,
   type AuditRecord,
+  type AuditLogFilters,
 } from './audit.service.ts';
 
+export {
+  consumeRateLimit,
+  peekRateLimit,
+  resetRateLimit,
+  listThrottledClients,
+  getRateLimitPolicy,
+  getRateLimitPolicies,
+  getRateLimitStoreName,
+  resetRateLimitStore,
+  RATE_LIMIT_GROUPS,
+  type RateLimitGroup,
+  type RateLimitPolicy,
+  type RateLimitResult,
+  type RateLimitStoreName,
+  type ThrottledClient,
+} from './rate-limit.service.ts';
+
 export {
   checkUniversityExists,
   searchUniversityByName,
@@ -61,6 +109,26 @@ export {
   type DbSearchResult,
 } from './search.service.ts';
 
+export {
+  searchUniversityContent,
+  parseHeadline,
+  SEARCH_LANGUAGES,
+  type SearchLanguage,
+  type SnippetPart,
+  type ContentSearchHit,
+  type ContentSearchResult,
+} from './full-text-search.service.ts';
+
+export {
+  getExchangeRates,
+  listExchangeRates,
+  setExchangeRate,
+  deleteExchangeRate,
+  clearExchangeRatesCache,
+  ExchangeRateError,
+  type ExchangeRate,
+} from './exchange-rates.service.ts';
+
 // 3D Tour services
 export {
   TourService,
@@ -0,0 +1,466 @@
+/**
+ * Parse Jobs Service - очередь заданий парсинга в PostgreSQL
+ *
+ * Воркер обновления забирает задания по приоритету (FOR UPDATE SKIP LOCKED),
+ * ошибки откладывают повтор экспоненциально, задания зависшего процесса
+ * возвращаются в очередь. Ручной запуск из админки получает высокий приоритет.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne } from '../config/database.ts';
+import type { ParseJobRow, ParseJobStatus, ParseJobType } from '../types/database.ts';
+
+/**
+ * Настройки очереди
+ */
+export const PARSE_JOB_CONFIG = {
+  /** Попыток до статуса failed */
+  maxAttempts: parseInt(Deno.env.get('PARSE_JOB_MAX_ATTEMPTS') ?? '5', 10),
+  /** Пауза перед первым повтором (мс), дальше удваивается */
+  backoffBaseMs: parseInt(Deno.env.get('PARSE_JOB_BACKOFF_SECONDS') ?? '60', 10) * 1000,
+  /** Максимальная пауза между повторами (мс) */
+  backoffMaxMs: 6 * 60 * 60 * 1000,
+  /** Как часто воркер продлевает блокировку выполняющегося задания (мс) */
+  heartbeatMs: 60 * 1000,
+  /** Через сколько без продления блокировки задание считается брошенным (мс) */
+  lockTimeoutMs: 5 * 60 * 1000,
+};
+
+/**
+ * Приоритеты заданий
+ */
+export const PARSE_JOB_PRIORITY = {
+  scheduled: 0,
+  manual: 100,
+} as const;
+
+/**
+ * Ошибка операций с заданием
+ */
+export class ParseJobError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_CANCELLABLE'
+  ) {
+    super(message);
+    this.name = 'ParseJobError';
+  }
+}
+
+/**
+ * Задание для API и админ-панели
+ */
+export interface ParseJob {
+  id: string;
+  universityId: string;
+  universityName: string | null;
+  sourceId: string | null;
+  type: ParseJobType;
+  options: ParseJobRow['options'];
+  status: ParseJobStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lockedBy: string | null;
+  lastError: string | null;
+  result: Record<string, unknown> | null;
+  requestedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+type ParseJobRowWithName = ParseJobRow & { university_name?: string | null };
+
+const rowToJob = (row: ParseJobRowWithName): ParseJob => ({
+  id: row.id,
+  universityId: row.university_id,
+  universityName: row.university_name ?? null,
+  sourceId: row.source_id,
+  type: row.job_type,
+  options: row.options,
+  status: row.status,
+  priority: row.priority,
+  attempts: row.attempts,
+  maxAttempts: row.max_attempts,
+  nextRunAt: row.next_run_at.toISOString(),
+  lockedBy: row.locked_by,
+  lastError: row.last_error,
+  result: row.result,
+  requestedBy: row.requested_by,
+  createdAt: row.created_at.toISOString(),
+  updatedAt: row.updated_at.toISOString(),
+  finishedAt: row.finished_at?.toISOString() ?? null,
+});
+
+/**
+ * Пауза перед следующей попыткой: base * 2^(attempts-1), не больше backoffMaxMs
+ * @param attempts - сколько попыток уже сделано (>= 1)
+ */
+export const computeBackoffMs = (attempts: number): number =>
+  Math.min(
+    PARSE_JOB_CONFIG.backoffBaseMs * 2 ** Math.max(0, attempts - 1),
+    PARSE_JOB_CONFIG.backoffMaxMs
+  );
+
+/**
+ * Поставить задание в очередь
+ * Если у университета уже есть незавершённое задание, оно переиспользуется:
+ * ожидающее получает больший из приоритетов, reparse заменяет check,
+ * флаги options объединяются по ИЛИ (ручной forceUpdate не теряется).
+ * @returns задание (новое или существующее)
+ */
+export const enqueueParseJob = async (input: {
+  universityId: string;
+  sourceId?: string | null;
+  type: ParseJobType;
+  priority?: number;
+  options?: ParseJobRow['options'];
+  requestedBy?: string;
+}): Promise<ParseJob> => {
+  const priority = input.priority ?? PARSE_JOB_PRIORITY.scheduled;
+
+  // Выполнявшееся задание может завершиться между вставкой и выборкой —
+  // тогда вставка повторяется уже без конфликта
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    const row = await queryOne<ParseJobRow>(
+      `INSERT INTO parse_jobs (university_id, source_id, job_type, options, priority, max_attempts, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (university_id) WHERE status IN ('pending', 'running')
+       DO UPDATE SET
+         priority = GREATEST(parse_jobs.priority, EXCLUDED.priority),
+         next_run_at = CASE WHEN EXCLUDED.priority > parse_jobs.priority
+                            THEN LEAST(parse_jobs.next_run_at, NOW())
+                            ELSE parse_jobs.next_run_at END,
+         job_type = CASE WHEN EXCLUDED.job_type = 'reparse' THEN 'reparse' ELSE parse_jobs.job_type END,
+         options = parse_jobs.options || EXCLUDED.options || jsonb_strip_nulls(jsonb_build_object(
+           'forceUpdate', CASE WHEN (parse_jobs.options->>'forceUpdate')::boolean
+                                 OR (EXCLUDED.options->>'forceUpdate')::boolean THEN true END,
+           'overwriteManual', CASE WHEN (parse_jobs.options->>'overwriteManual')::boolean
+                                     OR (EXCLUDED.options->>'overwriteManual')::boolean THEN true END
+         )),
+         requested_by = COALESCE(EXCLUDED.requested_by, parse_jobs.requested_by),
+         updated_at = NOW()
+       WHERE parse_jobs.status = 'pending'
+       RETURNING *`,
+      [
+        input.universityId,
+        input.sourceId ?? null,
+        input.type,
+        JSON.stringify(input.options ?? {}),
+        priority,
+        PARSE_JOB_CONFIG.maxAttempts,
+        input.requestedBy ?? null,
+      ]
+    );
+
+    if (row) {
+      logger.debug('Parse job enqueued', {
+        id: row.id,
+        universityId: input.universityId,
+        type: row.job_type,
+        priority: row.priority,
+      });
+      return rowToJob(row);
+    }
+
+    // Задание уже выполняется — вернуть его
+    const running = await queryOne<ParseJobRow>(
+      `SELECT * FROM parse_jobs WHERE university_id = $1 AND status IN ('pending', 'running')`,
+      [input.universityId]
+    );
+    if (running) {
+      return rowToJob(running);
+    }
+  }
+
+  throw new Error(`Failed to enqueue parse job for university ${input.universityId}`);
+};
+
+/**
+ * Поставить проверку всех активных источников (без дублей)
+ * @returns сколько заданий добавлено
+ */
+export const enqueueChecksForAllSources = async (
+  priority: number = PARSE_JOB_PRIORITY.scheduled,
+  requestedBy?: string
+): Promise<number> => {
+  const rows = await query<{ id: string }>(
+    `INSERT INTO parse_jobs (university_id, source_id, job_type, priority, max_attempts, requested_by)
+     SELECT DISTINCT ON (s.university_id) s.university_id, s.id, 'check', $1, $2, $3
+     FROM university_sources s
+     JOIN universities u ON u.id = s.university_id
+     WHERE s.is_active = true AND u.is_active = true
+     ORDER BY s.university_id, s.last_checked_at ASC NULLS FIRST
+     ON CONFLICT (university_id) WHERE status IN ('pending', 'running') DO NOTHING
+     RETURNING id`,
+    [priority, PARSE_JOB_CONFIG.maxAttempts, requestedBy ?? null]
+  );
+
+  if (rows.length > 0) {
+    logger.info('Source checks enqueued', { count: rows.length, priority });
+  }
+  return rows.length;
+};
+
+/**
+ * Забрать следующее готовое задание
+ * @param workerId - идентификатор процесса воркера
+ * @returns задание в статусе running или null, если очередь пуста
+ */
+export const claimNextParseJob = async (workerId: string): Promise<ParseJob | null> => {
+  const row = await queryOne<ParseJobRow>(
+    `UPDATE parse_jobs
+     SET status = 'running', attempts = attempts + 1, locked_at = NOW(), locked_by = $1, updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM parse_jobs
+       WHERE status = 'pending' AND next_run_at <= NOW()
+       ORDER BY priority DESC, next_run_at ASC, created_at ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [workerId]
+  );
+  return row ? rowToJob(row) : null;
+};
+
+/**
+ * Отметить задание выполненным
+ */
+export const completeParseJob = async (id: string, result: Record<string, unknown>): Promise<void> => {
+  await query(
+    `UPDATE parse_jobs
+     SET status = 'succeeded', result = $2, last_error = NULL,
+         locked_at = NULL, locked_by = NULL, finished_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'running'`,
+    [id, JSON.stringify(result)]
+  );
+};
+
+/**
+ * Записать ошибку: повтор с backoff или failed, если попытки исчерпаны
+ * @param options.retry - false для ошибок, которые повтор не исправит
+ * @param options.retryAt - не повторять раньше (Retry-After сайта)
+ * @returns новый статус задания
+ */
+export const failParseJob = async (
+  id: string,
+  error: string,
+  options: { retry?: boolean; retryAt?: Date } = {}
+): Promise<ParseJobStatus | null> => {
+  const job = await queryOne<ParseJobRow>('SELECT * FROM parse_jobs WHERE id = $1', [id]);
+  if (!job || job.status !== 'running') return job?.status ?? null;
+
+  if (options.retry === false || job.attempts >= job.max_attempts) {
+    await query(
+      `UPDATE parse_jobs
+       SET status = 'failed', last_error = $2, locked_at = NULL, locked_by = NULL,
+           finished_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [id, error]
+    );
+    logger.warn('Parse job failed permanently', { id, attempts: job.attempts, error });
+    return 'failed';
+  }
+
+  // Сайт сам назвал время повтора (Retry-After) — раньше него не пробуем
+  const delayMs = Math.max(
+    computeBackoffMs(job.attempts),
+    options.retryAt ? options.retryAt.getTime() - Date.now() : 0
+  );
+  await query(
+    `UPDATE parse_jobs
+     SET status = 'pending', last_error = $2, locked_at = NULL, locked_by = NULL,
+         next_run_at = NOW() + $3 * INTERVAL '1 millisecond', updated_at = NOW()
+     WHERE id = $1`,
+    [id, error, delayMs]
+  );
+  logger.info('Parse job will be retried', { id, attempts: job.attempts, retryInMs: delayMs });
+  return 'pending';
+};
+
+/**
+ * Продлить блокировку выполняющегося задания
+ * Воркер вызывает её каждые heartbeatMs, пока задание выполняется,
+ * чтобы долгий обход сайта не был возвращён в очередь и выполнен дважды.
+ * @returns false, если задание уже не принадлежит этому воркеру
+ */
+export const heartbeatParseJob = async (id: string, workerId: string): Promise<boolean> => {
+  const rows = await query<{ id: string }>(
+    `UPDATE parse_jobs SET locked_at = NOW()
+     WHERE id = $1 AND status = 'running' AND locked_by = $2
+     RETURNING id`,
+    [id, workerId]
+  );
+  return rows.length > 0;
+};
+
+/**
+ * Вернуть в очередь задания, брошенные упавшим или перезапущенным воркером:
+ * блокировка не продлевалась дольше lockTimeoutMs
+ * @returns число возвращённых заданий
+ */
+export const requeueStaleParseJobs = async (): Promise<number> => {
+  const rows = await query<{ id: string }>(
+    `UPDATE parse_jobs
+     SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+         finished_at = CASE WHEN attempts >= max_attempts THEN NOW() ELSE NULL END,
+         last_error = 'Worker stopped while the job was running',
+         locked_at = NULL, locked_by = NULL, updated_at = NOW()
+     WHERE status = 'running'
+       AND locked_at < NOW() - $1 * INTERVAL '1 millisecond'
+     RETURNING id`,
+    [PARSE_JOB_CONFIG.lockTimeoutMs]
+  );
+
+  if (rows.length > 0) {
+    logger.warn('Stale parse jobs requeued', { count: rows.length });
+  }
+  return rows.length;
+};
+
+/**
+ * Отменить ожидающее задание
+ * @throws ParseJobError если задания нет или оно уже выполняется/завершено
+ */
+export const cancelParseJob = async (id: string): Promise<ParseJob> => {
+  const row = await queryOne<ParseJobRow>(
+    `UPDATE parse_jobs
+     SET status = 'cancelled', finished_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'pending'
+     RETURNING *`,
+    [id]
+  );
+
+  if (!row) {
+    const existing = await getParseJob(id);
+    if (!existing) {
+      throw new ParseJobError('Job not found', 'NOT_FOUND');
+    }
+    throw new ParseJobError(`Job is ${existing.status} and cannot be cancelled`, 'NOT_CANCELLABLE');
+  }
+
+  logger.info('Parse job cancelled', { id });
+  return rowToJob(row);
+};
+
+/**
+ * Получить задание по ID
+ */
+export const getParseJob = async (id: string): Promise<ParseJob | null> => {
+  const row = await queryOne<ParseJobRowWithName>(
+    `SELECT j.*, u.name AS university_name
+     FROM parse_jobs j
+     LEFT JOIN universities u ON u.id = j.university_id
+     WHERE j.id = $1`,
+    [id]
+  );
+  return row ? rowToJob(row) : null;
+};
+
+/**
+ * Фильтры списка заданий
+ */
+export interface ParseJobFilters {
+  status?: ParseJobStatus;
+  universityId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Список заданий: незавершённые по порядку выполнения, затем завершённые (новые сверху)
+ * @returns задания и общее количество
+ */
+export const listParseJobs = async (
+  filters: ParseJobFilters = {}
+): Promise<{ data: ParseJob[]; total: number }> => {
+  const { limit = 50, offset = 0 } = filters;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`j.status = $${params.length}`);
+  }
+  if (filters.universityId) {
+    params.push(filters.universityId);
+    conditions.push(`j.university_id = $${params.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) as count FROM parse_jobs j ${whereClause}`,
+    params
+  );
+
+  const rows = await query<ParseJobRowWithName>(
+    `SELECT j.*, u.name AS university_name
+     FROM parse_jobs j
+     LEFT JOIN universities u ON u.id = j.university_id
+     ${whereClause}
+     ORDER BY
+       CASE j.status WHEN 'running' THEN 0 WHEN 'pending' THEN 1 ELSE 2 END,
+       CASE WHEN j.status = 'pending' THEN j.priority END DESC,
+       CASE WHEN j.status = 'pending' THEN j.next_run_at END ASC,
+       j.updated_at DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: rows.map(rowToJob),
+    total: parseInt(countResult?.count ?? '0', 10),
+  };
+};
+
+/**
+ * Количество заданий по статусам
+ */
+export const getParseJobStats = async (): Promise<Record<ParseJobStatus, number>> => {
+  const rows = await query<{ status: ParseJobStatus; count: string }>(
+    'SELECT status, COUNT(*) AS count FROM parse_jobs GROUP BY status'
+  );
+
+  const stats: Record<ParseJobStatus, number> = {
+    pending: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  for (const row of rows) {
+    stats[row.status] = parseInt(row.count, 10);
+  }
+  return stats;
+};
+
+/**
+ * Дождаться завершения задания (для ручного запуска из админки)
+ * Ожидание прекращается и после неудачной попытки, отложенной на повтор.
+ * @param timeoutMs - сколько ждать; по истечении возвращается текущее состояние
+ */
+export const waitForParseJob = async (
+  id: string,
+  timeoutMs: number,
+  pollMs: number = 1000
+): Promise<ParseJob | null> => {
+  const deadline = Date.now() + timeoutMs;
+  let startAttempts: number | null = null;
+
+  while (true) {
+    const job = await getParseJob(id);
+    if (!job) return null;
+    startAttempts ??= job.status === 'running' ? job.attempts - 1 : job.attempts;
+
+    const finished = job.status !== 'pending' && job.status !== 'running';
+    const retryScheduled = job.status === 'pending' && job.attempts > startAttempts;
+    if (finished || retryScheduled || Date.now() >= deadline) {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+  }
+};
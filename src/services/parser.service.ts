@@ -1,17 +1,37 @@
 import { logger } from '../utils/logger.ts';
-import { htmlToMarkdown, computeHash, normalizeText, stripHtmlTags } from '../utils/markdown.converter.ts';
-import { callOllamaForJson } from '../utils/ollama.client.ts';
+import { computeHash, normalizeText, stripHtmlTags } from '../utils/markdown.converter.ts';
+import { callLlmForJson, getLlmModel, LlmSchemaError } from '../utils/llm/index.ts';
+import type { SchemaViolation } from '../utils/json-schema.ts';
 import { query, queryOne, transaction } from '../config/database.ts';
 import { buildParserPrompt } from '../prompts/index.ts';
+import {
+  checkPagesNotModified,
+  crawlWebsite,
+  mergePagesMarkdown,
+  splitMergedMarkdown,
+  type CrawledPage,
+  type CrawlOptions,
+} from './crawler.service.ts';
+import { parseRetryAfter, politeFetch, recordSourceFetch, RetryLaterError } from './http-fetch.service.ts';
+import {
+  buildLlmProvenance,
+  carryOverProvenance,
+  preserveManualFields,
+} from './provenance.service.ts';
 import { 
   NO_INFO, 
+  type ProfileProvenance,
   type University, 
   type Program,
+  type TuitionInfo,
   type UniversityThreeDTour,
   type ThreeDTourSource,
   type ThreeDTourProvider,
 } from '../types/university.ts';
-import type { UniversitySourceRow, UpdateStatus } from '../types/database.ts';
+import { PROGRAM_LIST_SCHEMA, UNIVERSITY_PROFILE_SCHEMA } from '../types/university.schema.ts';
+import { BASE_CURRENCY, convertAmount, detectCurrency, normalizeCurrency, type ExchangeRates } from '../utils/currency.ts';
+import { getExchangeRates } from './exchange-rates.service.ts';
+import type { SourcePageValidator, UniversitySourceRow, UpdateStatus } from '../types/database.ts';
 import type { PoolClient } from 'postgres';
 
 /**
@@ -19,7 +39,6 @@ import type { PoolClient } from 'postgres';
  */
 const PARSER_CONFIG = {
   fetchTimeout: 15000, // 15 секунд
-  userAgent: 'DigitalUniversity/1.0 (Educational Parser)',
   maxRetries: 3,
   llmRetries: 3, // Retry для LLM парсинга
   llmRetryDelay: 2000, // Задержка между retry
@@ -34,6 +53,31 @@ interface FetchResult {
   html: string;
   hash: string;
   contentLength: number;
+  status: number;
+  /** Сервер ответил 304 на условный запрос — html и hash пустые */
+  notModified: boolean;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Валидаторы для условного запроса (сохранённые ETag/Last-Modified)
+ */
+export interface ConditionalValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * Результат обхода сайта
+ */
+interface CrawlFetchResult {
+  pages: CrawledPage[];
+  markdown: string;
+  hash: string;
+  contentLength: number;
+  /** Валидаторы внутренних страниц (главная — в etag/lastModified FetchResult) */
+  pageValidators: SourcePageValidator[];
 }
 
 /**
@@ -44,6 +88,12 @@ interface UpdateResult {
   message: string;
   newHash?: string;
   error?: string;
+  /** Поля с ручными правками, которые парсер не стал перезаписывать */
+  preservedFields?: string[];
+  /** Сайт попросил повторить не раньше этого времени (Retry-After) */
+  retryAt?: string;
+  /** Изменения сохранены в profile_changes и ждут проверки */
+  stagedChangeId?: string;
 }
 
 /**
@@ -52,7 +102,7 @@ interface UpdateResult {
 export class ParserError extends Error {
   constructor(
     message: string,
-    public code: 'FETCH_ERROR' | 'PARSE_ERROR' | 'LLM_ERROR' | 'DB_ERROR',
+    public code: 'FETCH_ERROR' | 'PARSE_ERROR' | 'LLM_ERROR' | 'VALIDATION_ERROR' | 'DB_ERROR',
     public details?: unknown
   ) {
     super(message);
@@ -60,39 +110,68 @@ export class ParserError extends Error {
   }
 }
 
+/**
+ * Ошибка в поле профиля, которую модель не исправила (см. callLlmForJson)
+ */
+export interface ParseFieldError extends SchemaViolation {
+  /** Страница сайта, по тексту которой получен ответ */
+  page?: string;
+}
+
+/**
+ * Получить ошибки полей из ошибки парсинга
+ */
+const getFieldErrors = (err: unknown): ParseFieldError[] => {
+  if (err instanceof ParserError && err.code === 'VALIDATION_ERROR') {
+    return (err.details as { fieldErrors?: ParseFieldError[] } | undefined)?.fieldErrors ?? [];
+  }
+  return [];
+};
+
 /**
  * Загрузить HTML с сайта и вычислить хэш
+ * Запрос идёт через politeFetch (лимиты домена, Retry-After). На 429/503
+ * повторов нет: в details ошибки передаётся retryAt.
  * @param url - URL сайта
- * @returns HTML и хэш
+ * @param validators - ETag/Last-Modified для условного запроса
+ * @returns HTML, хэш и валидаторы ответа
  */
-export const fetchAndHashWebsite = async (url: string): Promise<FetchResult> => {
-  logger.info('Fetching website', { url });
+export const fetchAndHashWebsite = async (
+  url: string,
+  validators: ConditionalValidators = {}
+): Promise<FetchResult> => {
+  logger.info('Fetching website', { url, conditional: Boolean(validators.etag || validators.lastModified) });
   const startTime = Date.now();
 
+  const conditionalHeaders: Record<string, string> = {};
+  if (validators.etag) conditionalHeaders['If-None-Match'] = validators.etag;
+  if (validators.lastModified) conditionalHeaders['If-Modified-Since'] = validators.lastModified;
+
   for (let attempt = 1; attempt <= PARSER_CONFIG.maxRetries; attempt++) {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        PARSER_CONFIG.fetchTimeout
-      );
-
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': PARSER_CONFIG.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'ru,en;q=0.9',
-        },
-        signal: controller.signal,
+      const response = await politeFetch(url, {
+        timeout: PARSER_CONFIG.fetchTimeout,
+        headers: conditionalHeaders,
       });
 
-      clearTimeout(timeoutId);
+      const etag = response.headers.get('etag');
+      const lastModified = response.headers.get('last-modified');
+
+      if (response.status === 304) {
+        await response.body?.cancel();
+        logger.info('Website not modified', { url, duration_ms: Date.now() - startTime });
+        return { html: '', hash: '', contentLength: 0, status: 304, notModified: true, etag, lastModified };
+      }
 
       if (!response.ok) {
+        await response.body?.cancel();
+        const retryAt = response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get('retry-after'))
+          : null;
         throw new ParserError(
           `HTTP ${response.status}: ${response.statusText}`,
           'FETCH_ERROR',
-          { status: response.status }
+          { url, status: response.status, retryAt }
         );
       }
 
@@ -114,15 +193,21 @@ export const fetchAndHashWebsite = async (url: string): Promise<FetchResult> =>
         html,
         hash,
         contentLength: html.length,
+        status: response.status,
+        notModified: false,
+        etag,
+        lastModified,
       };
     } catch (err) {
       const isLastAttempt = attempt === PARSER_CONFIG.maxRetries;
 
-      if (err instanceof Error && err.name === 'AbortError') {
+      if (err instanceof RetryLaterError) {
+        throw new ParserError(err.message, 'FETCH_ERROR', { url, status: null, retryAt: err.retryAt });
+      } else if (err instanceof Error && err.name === 'AbortError') {
         logger.error('Fetch timeout', { url, attempt, timeout: PARSER_CONFIG.fetchTimeout });
         
         if (isLastAttempt) {
-          throw new ParserError('Request timed out', 'FETCH_ERROR', { url });
+          throw new ParserError('Request timed out', 'FETCH_ERROR', { url, status: null });
         }
       } else if (err instanceof ParserError) {
         throw err;
@@ -133,7 +218,7 @@ export const fetchAndHashWebsite = async (url: string): Promise<FetchResult> =>
           throw new ParserError(
             `Failed to fetch: ${err instanceof Error ? err.message : String(err)}`,
             'FETCH_ERROR',
-            { url }
+            { url, status: null }
           );
         }
       }
@@ -143,7 +228,92 @@ export const fetchAndHashWebsite = async (url: string): Promise<FetchResult> =>
     }
   }
 
-  throw new ParserError('Failed to fetch after all retries', 'FETCH_ERROR', { url });
+  throw new ParserError('Failed to fetch after all retries', 'FETCH_ERROR', { url, status: null });
+};
+
+/**
+ * Обойти сайт от уже загруженной главной страницы
+ */
+const crawlFromRoot = async (
+  url: string,
+  root: FetchResult,
+  options?: CrawlOptions
+): Promise<CrawlFetchResult> => {
+  const pages = await crawlWebsite(url, root.html, options);
+
+  const hash = pages.length > 1
+    ? await computeHash(pages.map((p) => normalizeText(stripHtmlTags(p.html))).join('\n'))
+    : root.hash;
+
+  return {
+    pages,
+    markdown: mergePagesMarkdown(pages),
+    hash,
+    contentLength: pages.reduce((sum, p) => sum + p.html.length, 0),
+    pageValidators: pages.slice(1).map((p) => ({
+      url: p.url,
+      etag: p.etag ?? null,
+      lastModified: p.lastModified ?? null,
+    })),
+  };
+};
+
+/**
+ * Загрузить главную страницу и релевантные внутренние страницы сайта
+ * Хэш считается по тексту всех страниц, чтобы изменения на страницах
+ * поступления или стоимости тоже запускали перепарсинг
+ * @param url - URL главной страницы
+ * @param options - лимиты обхода
+ * @returns страницы, объединённый markdown и хэш
+ */
+export const crawlAndHashWebsite = async (
+  url: string,
+  options?: CrawlOptions
+): Promise<CrawlFetchResult> => {
+  const root = await fetchAndHashWebsite(url);
+  return crawlFromRoot(url, root, options);
+};
+
+/**
+ * Загрузить главную страницу источника и записать HTTP-статус в историю
+ * @param sourceId - ID источника
+ * @param url - URL главной страницы
+ * @param validators - ETag/Last-Modified для условного запроса
+ */
+const fetchSourceRoot = async (
+  sourceId: string,
+  url: string,
+  validators: ConditionalValidators = {}
+): Promise<FetchResult> => {
+  const startTime = Date.now();
+  try {
+    const root = await fetchAndHashWebsite(url, validators);
+    await recordSourceFetch(sourceId, { url, status: root.status, durationMs: Date.now() - startTime });
+    return root;
+  } catch (err) {
+    const details = err instanceof ParserError
+      ? err.details as { status?: number | null; retryAt?: Date | null } | undefined
+      : undefined;
+    await recordSourceFetch(sourceId, {
+      url,
+      status: details?.status ?? null,
+      error: err instanceof Error ? err.message : String(err),
+      durationMs: Date.now() - startTime,
+      retryAt: details?.retryAt ?? null,
+    });
+    throw err;
+  }
+};
+
+/**
+ * Время повтора из ошибки загрузки (Retry-After), если сайт его указал
+ */
+const getRetryAt = (err: unknown): string | undefined => {
+  if (err instanceof ParserError && err.code === 'FETCH_ERROR') {
+    const retryAt = (err.details as { retryAt?: Date | null } | undefined)?.retryAt;
+    return retryAt ? retryAt.toISOString() : undefined;
+  }
+  return undefined;
 };
 
 /**
@@ -238,10 +408,43 @@ const mergeProfileResults = (results: Partial<University>[]): Partial<University
   return merged;
 };
 
+/**
+ * Поля профиля, которые объединяются из нескольких страниц, а не берутся с первой
+ */
+const ARRAY_MERGE_FIELDS = new Set<string>(['programs', 'scholarships', 'rankings']);
+
+/**
+ * Определить, с каких страниц получено каждое поле профиля
+ * Для скалярных полей источник — первая страница, где поле заполнено
+ * (так же, как в mergeProfileResults), для списков — все страницы
+ * @param results - результаты парсинга чанков вместе с URL страницы
+ * @returns карта поле → URL страниц
+ */
+const collectFieldSources = (
+  results: Array<{ url: string; profile: Partial<University> }>
+): Record<string, string[]> => {
+  const sources: Record<string, string[]> = {};
+
+  for (const { url, profile } of results) {
+    for (const [key, value] of Object.entries(profile)) {
+      if (key === 'metadata' || !isFieldFilled(value)) continue;
+
+      if (!sources[key]) {
+        sources[key] = [url];
+      } else if (ARRAY_MERGE_FIELDS.has(key) && !sources[key].includes(url)) {
+        sources[key].push(url);
+      }
+    }
+  }
+
+  return sources;
+};
+
 /**
  * Преобразовать Markdown в профиль университета через LLM (версия 2)
  * Использует улучшенный промпт с retry логикой
  * Поддерживает разбиение на части для больших текстов
+ * и объединённый markdown нескольких страниц (см. crawler.service)
  * @param markdown - текст в формате Markdown
  * @param sourceUrl - URL источника
  * @param existingData - существующие данные для контекста
@@ -258,22 +461,34 @@ export const markdownToUniversityProfile = async (
     hasExistingData: !!existingData,
   });
 
-  // Разбить на чанки если текст слишком большой
-  const chunks = splitIntoChunks(markdown, PARSER_CONFIG.maxChunkSize, PARSER_CONFIG.chunkOverlap);
-  
+  // Разбить по страницам, затем каждую страницу на чанки,
+  // чтобы каждый чанк относился ровно к одной странице
+  const pages = splitMergedMarkdown(markdown, sourceUrl);
+  const chunks = pages.flatMap((page) =>
+    splitIntoChunks(page.markdown, PARSER_CONFIG.maxChunkSize, PARSER_CONFIG.chunkOverlap)
+      .map((text) => ({ url: page.url, text }))
+  );
+  const sourcePages = pages.map((page) => page.url);
+
   if (chunks.length > 1) {
-    logger.info('Processing in multiple chunks', { chunksCount: chunks.length });
+    logger.info('Processing in multiple chunks', {
+      chunksCount: chunks.length,
+      pagesCount: pages.length,
+    });
     
-    const results: Partial<University>[] = [];
+    const results: Array<{ url: string; profile: Partial<University> }> = [];
+    const fieldErrors: ParseFieldError[] = [];
     
     for (let i = 0; i < chunks.length; i++) {
-      logger.debug(`Processing chunk ${i + 1}/${chunks.length}`);
+      logger.debug(`Processing chunk ${i + 1}/${chunks.length}`, { page: chunks[i].url });
       
       try {
-        const chunkResult = await parseSingleChunk(chunks[i], sourceUrl, i === 0 ? existingData : undefined);
-        results.push(chunkResult);
+        const chunkResult = await parseSingleChunk(chunks[i].text, sourceUrl, i === 0 ? existingData : undefined);
+        results.push({ url: chunks[i].url, profile: chunkResult });
+        fieldErrors.push(...(chunkResult.metadata?.field_errors ?? []).map((e) => ({ ...e, page: chunks[i].url })));
       } catch (err) {
-        logger.warn(`Chunk ${i + 1} parsing failed`, { error: err });
+        logger.warn(`Chunk ${i + 1} parsing failed`, { error: err, page: chunks[i].url });
+        fieldErrors.push(...getFieldErrors(err).map((e) => ({ ...e, page: chunks[i].url })));
         // Продолжаем с остальными чанками
       }
       
@@ -284,10 +499,14 @@ export const markdownToUniversityProfile = async (
     }
     
     if (results.length === 0) {
-      throw new ParserError('All chunks failed to parse', 'LLM_ERROR', { chunksCount: chunks.length });
+      throw new ParserError(
+        'All chunks failed to parse',
+        fieldErrors.length > 0 ? 'VALIDATION_ERROR' : 'LLM_ERROR',
+        { chunksCount: chunks.length, fieldErrors }
+      );
     }
     
-    const merged = mergeProfileResults(results);
+    const merged = mergeProfileResults(results.map((r) => r.profile));
     
     // Добавить metadata
     const completenessScore = calculateCompletenessScore(merged as University);
@@ -296,14 +515,28 @@ export const markdownToUniversityProfile = async (
       source_url: sourceUrl,
       completeness_score: completenessScore,
       missing_fields: getMissingFieldsList(merged),
-      notes: `Parsed in ${chunks.length} chunks, ${results.length} successful`,
+      notes: `Parsed ${pages.length} pages in ${chunks.length} chunks, ${results.length} successful`,
+      source_pages: sourcePages,
+      field_sources: collectFieldSources(results),
+      ...(fieldErrors.length > 0 ? { field_errors: fieldErrors } : {}),
     };
     
     return merged;
   }
 
   // Одиночный чанк - обычная обработка
-  return parseSingleChunk(markdown, sourceUrl, existingData);
+  const profile = await parseSingleChunk(chunks[0]?.text ?? markdown, sourceUrl, existingData);
+  const pageUrl = chunks[0]?.url ?? sourceUrl;
+  profile.metadata = {
+    ...profile.metadata!,
+    source_pages: [pageUrl],
+    field_sources: collectFieldSources([{ url: pageUrl, profile }]),
+  };
+  if (profile.metadata.field_errors) {
+    profile.metadata.field_errors = profile.metadata.field_errors.map((e) => ({ ...e, page: pageUrl }));
+  }
+
+  return profile;
 };
 
 /**
@@ -324,7 +557,14 @@ const parseSingleChunk = async (
       // Построить промпт с новым шаблоном v2
       const prompt = await buildParserPrompt(markdown, sourceUrl);
 
-      const result = await callOllamaForJson<Partial<University>>(prompt);
+      // Ответ проверяется по схеме University; нарушения модель исправляет сама
+      let droppedFields: ParseFieldError[] = [];
+      const result = await callLlmForJson<Partial<University>>('parsing', prompt, {
+        schema: UNIVERSITY_PROFILE_SCHEMA,
+        onDroppedViolations: (violations) => {
+          droppedFields = violations;
+        },
+      });
 
       // Валидация и нормализация результата
       const validated = validateAndNormalizeProfile(result, existingData, sourceUrl);
@@ -339,6 +579,7 @@ const parseSingleChunk = async (
         completeness_score: completenessScore,
         missing_fields: getMissingFieldsList(validated),
         notes: `Parsed on attempt ${attempt}`,
+        ...(droppedFields.length > 0 ? { field_errors: droppedFields } : {}),
       };
 
       logger.info('Profile extracted successfully', {
@@ -350,6 +591,19 @@ const parseSingleChunk = async (
 
       return validated;
     } catch (err) {
+      // Исправления по схеме уже запрошены в callLlmForJson — повтор не поможет
+      if (err instanceof LlmSchemaError) {
+        logger.warn('LLM output failed schema validation', {
+          sourceUrl,
+          violations: err.violations.slice(0, 20),
+        });
+        throw new ParserError(
+          `LLM output failed schema validation: ${err.violations.map((v) => v.path || 'root').join(', ')}`,
+          'VALIDATION_ERROR',
+          { fieldErrors: err.violations, sourceUrl }
+        );
+      }
+
       lastError = err instanceof Error ? err : new Error(String(err));
       
       logger.warn(`LLM parsing attempt ${attempt} failed`, {
@@ -508,7 +762,9 @@ Return JSON array of programs with structure:
 Extract ALL programs you can find. Return ONLY JSON array.`;
 
     try {
-      const programs = await callOllamaForJson<Program[]>(programsPrompt);
+      const programs = await callLlmForJson<Program[]>('parsing', programsPrompt, {
+        schema: PROGRAM_LIST_SCHEMA,
+      });
       
       if (Array.isArray(programs)) {
         return programs.map((p, i) => normalizeProgram(p, i));
@@ -521,6 +777,15 @@ Extract ALL programs you can find. Return ONLY JSON array.`;
   return [];
 };
 
+/**
+ * Привести валюту стоимости к коду ISO 4217 (нераспознанная остаётся как есть)
+ */
+const normalizeTuition = (tuition: TuitionInfo | undefined): TuitionInfo | undefined => {
+  if (!tuition) return tuition;
+  const currency = normalizeCurrency(tuition.currency);
+  return currency ? { ...tuition, currency } : tuition;
+};
+
 /**
  * Нормализовать программу, заполнить пустые поля
  */
@@ -532,7 +797,7 @@ const normalizeProgram = (program: Partial<Program>, index: number): Program =>
     duration_years: program.duration_years || 4,
     language: program.language || NO_INFO,
     description: program.description || NO_INFO,
-    tuition: program.tuition,
+    tuition: normalizeTuition(program.tuition),
     admission_requirements: program.admission_requirements || NO_INFO,
     language_requirements: program.language_requirements,
     application_deadline: program.application_deadline,
@@ -583,7 +848,7 @@ const validateAndNormalizeProfile = (
       degree_level: validateDegreeLevel(p.degree_level),
       duration_years: p.duration_years || 4,
       language: p.language || 'Unknown',
-      tuition: p.tuition,
+      tuition: normalizeTuition(p.tuition),
       admission_requirements: p.admission_requirements,
     }));
   } else {
@@ -746,38 +1011,46 @@ interface TuitionRange {
 }
 
 /**
- * Извлечь диапазон стоимости обучения
+ * Извлечь диапазон стоимости обучения в USD
+ * Суммы пересчитываются по курсам; суммы в нераспознанной валюте
+ * или в валюте без курса не учитываются.
  * @param university - профиль университета
- * @returns минимальная и максимальная стоимость
+ * @param rates - курсы валют (единиц за 1 USD)
+ * @returns минимальная и максимальная стоимость, USD
  */
-export const extractTuitionRange = (university: Partial<University>): TuitionRange => {
+export const extractTuitionRange = (university: Partial<University>, rates: ExchangeRates): TuitionRange => {
   const programs = university.programs || [];
   const amounts: number[] = [];
 
-  // Собрать все суммы из программ
-  for (const program of programs) {
-    if (program.tuition?.amount && typeof program.tuition.amount === 'number') {
-      amounts.push(program.tuition.amount);
+  const addAmount = (amount: number, currency: string | null | undefined) => {
+    const usd = convertAmount(amount, currency, BASE_CURRENCY, rates);
+    if (usd !== null) amounts.push(Math.round(usd));
+  };
+
+  // Собрать все суммы из программ и общей стоимости профиля
+  // (её же поиск программ берёт для программ без своей стоимости)
+  for (const tuition of [...programs.map((program) => program.tuition), university.tuition]) {
+    if (tuition?.amount && typeof tuition.amount === 'number') {
+      addAmount(tuition.amount, tuition.currency);
     }
   }
 
-  // Проверить общие данные о стоимости
+  // Проверить общие данные о стоимости ("1 200 000 тенге в год", "$5,000")
   const generalTuition = university.tuition_general;
   if (generalTuition) {
     const parseAmount = (str: string | undefined): number | null => {
       if (!str) return null;
-      const match = str.match(/[\d,]+/);
+      const match = str.match(/\d[\d,\s\u00a0]*/);
       if (match) {
-        return parseInt(match[0].replace(/,/g, ''), 10);
+        return parseInt(match[0].replace(/[,\s\u00a0]/g, ''), 10);
       }
       return null;
     };
 
-    const intAmount = parseAmount(generalTuition.international_students);
-    const domAmount = parseAmount(generalTuition.domestic_students);
-    
-    if (intAmount) amounts.push(intAmount);
-    if (domAmount) amounts.push(domAmount);
+    for (const text of [generalTuition.international_students, generalTuition.domestic_students]) {
+      const amount = parseAmount(text);
+      if (amount) addAmount(amount, detectCurrency(text));
+    }
   }
 
   if (amounts.length === 0) {
@@ -862,10 +1135,11 @@ export const extractDegreeLevels = (university: Partial<University>): string[] =
 /**
  * Подготовить данные для расширенных колонок БД
  * @param university - профиль университета
+ * @param rates - курсы валют для min_tuition/max_tuition
  * @returns объект с данными для новых колонок
  */
-export const prepareExtendedDbFields = (university: Partial<University>) => {
-  const tuitionRange = extractTuitionRange(university);
+export const prepareExtendedDbFields = (university: Partial<University>, rates: ExchangeRates) => {
+  const tuitionRange = extractTuitionRange(university, rates);
   
   return {
     specializations: JSON.stringify(extractSpecializations(university)),
@@ -881,22 +1155,205 @@ export const prepareExtendedDbFields = (university: Partial<University>) => {
   };
 };
 
+/**
+ * Получить последнюю версию профиля вместе с происхождением полей
+ */
+const getLatestProfileWithProvenance = async (
+  universityId: string
+): Promise<{ profile_json: University; field_provenance: ProfileProvenance } | null> => {
+  return await queryOne<{ profile_json: University; field_provenance: ProfileProvenance }>(
+    `SELECT profile_json, field_provenance FROM university_profiles 
+     WHERE university_id = $1 
+     ORDER BY version DESC LIMIT 1`,
+    [universityId]
+  );
+};
+
+/**
+ * Сохранить профиль как новую версию и обновить колонки фильтров университета
+ * @param client - клиент открытой транзакции
+ * @returns номер созданной версии
+ */
+export const saveProfileVersion = async (
+  client: PoolClient,
+  universityId: string,
+  fullProfile: University,
+  provenance: ProfileProvenance
+): Promise<number> => {
+  const versionResult = await client.queryObject<{ version: number }>(
+    `SELECT COALESCE(MAX(version), 0) as version 
+     FROM university_profiles WHERE university_id = $1`,
+    [universityId]
+  );
+  const newVersion = (versionResult.rows[0]?.version ?? 0) + 1;
+
+  await client.queryObject(
+    `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+     VALUES ($1, $2, $3, 'ru', $4)`,
+    [universityId, JSON.stringify(fullProfile), JSON.stringify(provenance), newVersion]
+  );
+
+  // Обновить университет с расширенными полями
+  const extendedFields = prepareExtendedDbFields(fullProfile, await getExchangeRates());
+  await client.queryObject(
+    `UPDATE universities SET 
+      updated_at = NOW(),
+      specializations = $2,
+      languages = $3,
+      degree_levels = $4,
+      min_tuition = $5,
+      max_tuition = $6,
+      size_category = $7,
+      rankings = $8,
+      accepts_international = $9,
+      founded_year = $10,
+      student_count = $11,
+      indexed_at = NOW()
+    WHERE id = $1`,
+    [
+      universityId,
+      extendedFields.specializations,
+      extendedFields.languages,
+      extendedFields.degree_levels,
+      extendedFields.min_tuition,
+      extendedFields.max_tuition,
+      extendedFields.size_category,
+      extendedFields.rankings,
+      extendedFields.accepts_international,
+      extendedFields.founded_year,
+      extendedFields.student_count,
+    ]
+  );
+
+  return newVersion;
+};
+
+/**
+ * Пересчитать min_tuition/max_tuition всех университетов по текущим курсам
+ * Вызывается после изменения курсов; updated_at не меняется — профиль тот же.
+ * @returns число университетов, у которых изменился диапазон
+ */
+export const recalculateTuitionColumns = async (): Promise<number> => {
+  const rates = await getExchangeRates();
+  const rows = await query<{
+    id: string;
+    min_tuition: number | null;
+    max_tuition: number | null;
+    profile_json: University;
+  }>(
+    `SELECT u.id, u.min_tuition, u.max_tuition, p.profile_json
+     FROM universities u
+     JOIN LATERAL (
+       SELECT profile_json
+       FROM university_profiles
+       WHERE university_id = u.id
+       ORDER BY version DESC, created_at DESC
+       LIMIT 1
+     ) p ON true`
+  );
+
+  let updated = 0;
+  for (const row of rows) {
+    const range = extractTuitionRange(row.profile_json, rates);
+    if (range.min === row.min_tuition && range.max === row.max_tuition) continue;
+
+    await query(
+      'UPDATE universities SET min_tuition = $2, max_tuition = $3 WHERE id = $1',
+      [row.id, range.min, range.max]
+    );
+    updated++;
+  }
+
+  logger.info('Tuition columns recalculated', { total: rows.length, updated });
+  return updated;
+};
+
+/**
+ * Сохранить результат парсинга как изменение, ожидающее проверки
+ * Прежнее непроверенное изменение университета помечается superseded.
+ * Хэш и валидаторы источника обновляются, чтобы тот же контент не парсился повторно.
+ * @returns ID изменения
+ */
+const stageProfileChange = async (
+  universityId: string,
+  sourceId: string,
+  fullProfile: University,
+  provenance: ProfileProvenance,
+  fetched: {
+    hash: string;
+    etag: string | null;
+    lastModified: string | null;
+    pageValidators: SourcePageValidator[];
+  }
+): Promise<string> => {
+  return await transaction(async (client: PoolClient) => {
+    const versionResult = await client.queryObject<{ version: number }>(
+      `SELECT COALESCE(MAX(version), 0) as version 
+       FROM university_profiles WHERE university_id = $1`,
+      [universityId]
+    );
+
+    await client.queryObject(
+      `UPDATE profile_changes SET status = 'superseded'
+       WHERE university_id = $1 AND status = 'pending'`,
+      [universityId]
+    );
+
+    const inserted = await client.queryObject<{ id: string }>(
+      `INSERT INTO profile_changes (university_id, source_id, base_version, profile_json, field_provenance)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [
+        universityId,
+        sourceId,
+        versionResult.rows[0]?.version ?? 0,
+        JSON.stringify(fullProfile),
+        JSON.stringify(provenance),
+      ]
+    );
+
+    await client.queryObject(
+      `UPDATE university_sources 
+       SET current_hash = $1, last_checked_at = NOW(), last_parsed_at = NOW(),
+           last_error = NULL, last_error_at = NULL, last_validation_errors = $6,
+           http_etag = $3, http_last_modified = $4, page_validators = $5
+       WHERE id = $2`,
+      [
+        fetched.hash,
+        sourceId,
+        fetched.etag,
+        fetched.lastModified,
+        JSON.stringify(fetched.pageValidators),
+        JSON.stringify(fullProfile.metadata?.field_errors ?? []),
+      ]
+    );
+
+    return inserted.rows[0].id;
+  });
+};
+
 /**
  * Удалить все профили университета и создать заново с нуля
+ * Поля с ручными правками администратора переносятся в новый профиль
  * @param universityId - ID университета
  * @param sourceId - ID источника
  * @param url - URL сайта
+ * @param overwriteManual - перезаписать и ручные правки
  * @returns результат обновления
  */
 export const resetAndReparseUniversity = async (
   universityId: string,
   sourceId: string,
-  url: string
+  url: string,
+  overwriteManual: boolean = false
 ): Promise<UpdateResult> => {
-  logger.info('Resetting and reparsing university', { universityId, sourceId, url });
+  logger.info('Resetting and reparsing university', { universityId, sourceId, url, overwriteManual });
   const startTime = Date.now();
 
   try {
+    // 0. Запомнить ручные правки до удаления профилей
+    const previous = overwriteManual ? null : await getLatestProfileWithProvenance(universityId);
+
     // 1. Удалить ВСЕ старые профили для этого университета
     await query(
       `DELETE FROM university_profiles WHERE university_id = $1`,
@@ -913,15 +1370,25 @@ export const resetAndReparseUniversity = async (
     );
     logger.info('Reset source hash', { sourceId });
 
-    // 3. Загрузить сайт
-    const { html, hash } = await fetchAndHashWebsite(url);
-
-    // 4. Конвертировать HTML в Markdown
-    const markdown = htmlToMarkdown(html);
-    logger.info('Converting to profile via LLM', { markdownLength: markdown.length });
+    // 3. Загрузить сайт (главная + релевантные внутренние страницы)
+    // 4. и объединить их Markdown
+    const root = await fetchSourceRoot(sourceId, url);
+    const { markdown, hash, pages, pageValidators } = await crawlFromRoot(url, root);
+    logger.info('Converting to profile via LLM', {
+      markdownLength: markdown.length,
+      pagesCount: pages.length,
+    });
 
     // 5. Извлечь профиль через LLM (без существующих данных - начинаем с нуля)
-    const newProfile = await markdownToUniversityProfile(markdown, url);
+    const parsedProfile = await markdownToUniversityProfile(markdown, url);
+
+    // Вернуть поля, отредактированные вручную
+    const { profile: newProfile, provenance, preserved } = preserveManualFields(
+      parsedProfile,
+      buildLlmProvenance(parsedProfile, url, getLlmModel('parsing')),
+      previous?.profile_json,
+      previous?.field_provenance ?? {}
+    );
 
     // 6. Сохранить новый профиль в БД
     await transaction(async (client: PoolClient) => {
@@ -934,6 +1401,7 @@ export const resetAndReparseUniversity = async (
 
       // Создать полный профиль
       const fullProfile: University = {
+        ...newProfile,
         id: universityId,
         name: newProfile.name || uni?.name || 'Unknown',
         name_en: newProfile.name_en,
@@ -961,50 +1429,23 @@ export const resetAndReparseUniversity = async (
         updated_at: new Date().toISOString(),
       };
 
-      // Вставить новый профиль с версией 1
-      await client.queryObject(
-        `INSERT INTO university_profiles (university_id, profile_json, language, version)
-         VALUES ($1, $2, 'ru', 1)`,
-        [universityId, JSON.stringify(fullProfile)]
-      );
+      // Профили удалены выше, поэтому это версия 1
+      await saveProfileVersion(client, universityId, fullProfile, provenance);
 
       // Обновить source
       await client.queryObject(
         `UPDATE university_sources 
-         SET current_hash = $1, last_checked_at = NOW(), last_parsed_at = NOW()
+         SET current_hash = $1, last_checked_at = NOW(), last_parsed_at = NOW(),
+             last_error = NULL, last_error_at = NULL, last_validation_errors = $6,
+             http_etag = $3, http_last_modified = $4, page_validators = $5
          WHERE id = $2`,
-        [hash, sourceId]
-      );
-
-      // Обновить университет с расширенными полями
-      const extendedFields = prepareExtendedDbFields(fullProfile);
-      await client.queryObject(
-        `UPDATE universities SET 
-          updated_at = NOW(),
-          specializations = $2,
-          languages = $3,
-          degree_levels = $4,
-          min_tuition = $5,
-          max_tuition = $6,
-          size_category = $7,
-          rankings = $8,
-          accepts_international = $9,
-          founded_year = $10,
-          student_count = $11,
-          indexed_at = NOW()
-        WHERE id = $1`,
         [
-          universityId,
-          extendedFields.specializations,
-          extendedFields.languages,
-          extendedFields.degree_levels,
-          extendedFields.min_tuition,
-          extendedFields.max_tuition,
-          extendedFields.size_category,
-          extendedFields.rankings,
-          extendedFields.accepts_international,
-          extendedFields.founded_year,
-          extendedFields.student_count,
+          hash,
+          sourceId,
+          root.etag,
+          root.lastModified,
+          JSON.stringify(pageValidators),
+          JSON.stringify(fullProfile.metadata?.field_errors ?? []),
         ]
       );
     });
@@ -1018,6 +1459,7 @@ export const resetAndReparseUniversity = async (
       universityId,
       completenessScore,
       programsCount: newProfile.programs?.length ?? 0,
+      preservedFields: preserved,
       duration_ms: processingTime,
     });
 
@@ -1025,11 +1467,18 @@ export const resetAndReparseUniversity = async (
       updated: true,
       message: `Profile recreated from scratch (completeness: ${completenessScore}%)`,
       newHash: hash,
+      preservedFields: preserved,
     };
   } catch (err) {
     const processingTime = Date.now() - startTime;
     const errorMessage = err instanceof Error ? err.message : String(err);
 
+    try {
+      await saveFailedParseData(sourceId, errorMessage, getFieldErrors(err));
+    } catch (saveErr) {
+      logger.warn('Failed to save debug data', { error: saveErr });
+    }
+
     await logUpdate(sourceId, 'failed', false, errorMessage, processingTime);
 
     logger.error('University reset failed', {
@@ -1042,31 +1491,36 @@ export const resetAndReparseUniversity = async (
       updated: false,
       message: 'Reset and reparse failed',
       error: errorMessage,
+      retryAt: getRetryAt(err),
     };
   }
 };
 
 /**
  * Проверить и обновить данные сайта университета
+ * Поля с происхождением "manual" не перезаписываются, если не указан overwriteManual
  * @param universityId - ID университета
  * @param sourceId - ID источника
  * @param url - URL сайта
  * @param forceUpdate - принудительное обновление (игнорировать хэш)
+ * @param overwriteManual - перезаписать и ручные правки администратора
  * @returns результат обновления
  */
 export const checkAndUpdateWebsite = async (
   universityId: string,
   sourceId: string,
   url: string,
-  forceUpdate: boolean = false
+  forceUpdate: boolean = false,
+  overwriteManual: boolean = false
 ): Promise<UpdateResult> => {
-  logger.info('Checking website for updates', { universityId, sourceId, url, forceUpdate });
+  logger.info('Checking website for updates', { universityId, sourceId, url, forceUpdate, overwriteManual });
   const startTime = Date.now();
 
   try {
     // 1. Получить текущий хэш и completeness из БД
     const source = await queryOne<UniversitySourceRow>(
-      `SELECT current_hash, last_checked_at FROM university_sources WHERE id = $1`,
+      `SELECT current_hash, last_checked_at, http_etag, http_last_modified, page_validators, publish_mode
+       FROM university_sources WHERE id = $1`,
       [sourceId]
     );
 
@@ -1085,18 +1539,53 @@ export const checkAndUpdateWebsite = async (
     const currentCompleteness = currentProfile?.profile_json?.metadata?.completeness_score ?? 0;
     const needsReparse = currentCompleteness < 30; // Если заполнено меньше 30% - нужно перепарсить
 
-    // 2. Загрузить и хэшировать сайт
-    const { html, hash } = await fetchAndHashWebsite(url);
+    // 2. Загрузить главную страницу: условный запрос, если перепарсинг не обязателен.
+    // Ответ 304 означает, что главная не менялась, но страницы поступления и
+    // стоимости могли измениться: они проверяются своими условными запросами
+    const validators: ConditionalValidators = forceUpdate || needsReparse
+      ? {}
+      : { etag: source.http_etag, lastModified: source.http_last_modified };
+    let root = await fetchSourceRoot(sourceId, url, validators);
+
+    const pagesNotModified = root.notModified && source.page_validators !== null &&
+      await checkPagesNotModified(source.page_validators);
+
+    if (root.notModified && !pagesNotModified) {
+      // Для обхода нужен HTML главной — загружаем её без условных заголовков
+      logger.info('Root not modified, inner pages changed or unknown', { universityId });
+      root = await fetchSourceRoot(sourceId, url);
+    }
+
+    if (pagesNotModified) {
+      await query(
+        `UPDATE university_sources SET last_checked_at = NOW() WHERE id = $1`,
+        [sourceId]
+      );
+
+      await logUpdate(sourceId, 'skipped', false);
+
+      logger.info('Not modified (HTTP 304)', { universityId, duration_ms: Date.now() - startTime });
+
+      return {
+        updated: false,
+        message: 'Not modified',
+      };
+    }
+
+    // Загрузить релевантные внутренние страницы и хэшировать весь текст
+    const { markdown, hash, pageValidators } = await crawlFromRoot(url, root);
 
     // 3. Проверить нужно ли обновлять
     const hasChanges = source.current_hash !== hash;
     const shouldUpdate = forceUpdate || hasChanges || needsReparse;
 
     if (!shouldUpdate) {
-      // Обновить только last_checked_at
+      // Обновить last_checked_at и валидаторы для следующего условного запроса
       await query(
-        `UPDATE university_sources SET last_checked_at = NOW() WHERE id = $1`,
-        [sourceId]
+        `UPDATE university_sources
+         SET last_checked_at = NOW(), http_etag = $2, http_last_modified = $3, page_validators = $4
+         WHERE id = $1`,
+        [sourceId, root.etag, root.lastModified, JSON.stringify(pageValidators)]
       );
 
       await logUpdate(sourceId, 'skipped', false);
@@ -1120,97 +1609,93 @@ export const checkAndUpdateWebsite = async (
     logger.info('Changes detected, parsing new content', { universityId });
 
     // Получить существующие данные
-    const existingProfile = await queryOne<{ profile_json: University }>(
-      `SELECT profile_json FROM university_profiles 
-       WHERE university_id = $1 
-       ORDER BY version DESC LIMIT 1`,
-      [universityId]
-    );
-
-    // Конвертировать HTML в Markdown
-    const markdown = htmlToMarkdown(html);
+    const existingProfile = await getLatestProfileWithProvenance(universityId);
+    const previousProvenance = existingProfile?.field_provenance ?? {};
 
     // Извлечь профиль через LLM v2
-    const newProfile = await markdownToUniversityProfile(
+    const parsedProfile = await markdownToUniversityProfile(
       markdown,
       url,
       existingProfile?.profile_json
     );
 
-    // 5. Сохранить в БД
-    await transaction(async (client: PoolClient) => {
-      // Получить текущую версию
-      const versionResult = await client.queryObject<{ version: number }>(
-        `SELECT COALESCE(MAX(version), 0) as version 
-         FROM university_profiles WHERE university_id = $1`,
-        [universityId]
-      );
-      const newVersion = (versionResult.rows[0]?.version ?? 0) + 1;
+    // Неизменившиеся поля сохраняют прежнее происхождение
+    let provenance = carryOverProvenance(
+      parsedProfile,
+      buildLlmProvenance(parsedProfile, url, getLlmModel('parsing')),
+      existingProfile?.profile_json,
+      previousProvenance
+    );
+    let newProfile = parsedProfile;
+    let preserved: string[] = [];
+
+    if (!overwriteManual) {
+      ({ profile: newProfile, provenance, preserved } = preserveManualFields(
+        parsedProfile,
+        provenance,
+        existingProfile?.profile_json,
+        previousProvenance
+      ));
+
+      if (preserved.length > 0) {
+        logger.info('Keeping manually edited fields', { universityId, fields: preserved });
+      }
+    }
 
-      // Создать полный профиль
-      const fullProfile: University = {
-        id: universityId,
-        name: newProfile.name!,
-        name_en: newProfile.name_en,
-        country: newProfile.country!,
-        city: newProfile.city!,
-        website_url: newProfile.website_url!,
-        logo_url: newProfile.logo_url,
-        description: newProfile.description!,
-        mission: newProfile.mission,
-        programs: newProfile.programs ?? [],
-        tuition: newProfile.tuition,
-        admissions: newProfile.admissions!,
-        scholarships: newProfile.scholarships,
-        contacts: newProfile.contacts!,
-        ratings: newProfile.ratings,
-        updated_at: new Date().toISOString(),
+    // Создать полный профиль (все извлечённые разделы, включая сохранённые ручные поля)
+    const fullProfile: University = {
+      ...newProfile,
+      id: universityId,
+      name: newProfile.name!,
+      country: newProfile.country!,
+      city: newProfile.city!,
+      website_url: newProfile.website_url!,
+      description: newProfile.description!,
+      programs: newProfile.programs ?? [],
+      updated_at: new Date().toISOString(),
+    };
+
+    // 5a. Источник с проверкой: изменения ждут администратора, профиль на сайте не меняется
+    if (source.publish_mode === 'review' && existingProfile) {
+      const changeId = await stageProfileChange(universityId, sourceId, fullProfile, provenance, {
+        hash,
+        etag: root.etag,
+        lastModified: root.lastModified,
+        pageValidators,
+      });
+
+      const processingTime = Date.now() - startTime;
+      await logUpdate(sourceId, 'success', true, undefined, processingTime, newProfile.metadata?.completeness_score);
+
+      logger.info('Profile changes staged for review', { universityId, changeId, duration_ms: processingTime });
+
+      return {
+        updated: false,
+        message: 'Changes staged for review',
+        newHash: hash,
+        preservedFields: preserved,
+        stagedChangeId: changeId,
       };
+    }
 
-      // Вставить новую версию профиля
-      await client.queryObject(
-        `INSERT INTO university_profiles (university_id, profile_json, language, version)
-         VALUES ($1, $2, 'ru', $3)`,
-        [universityId, JSON.stringify(fullProfile), newVersion]
-      );
+    // 5. Сохранить в БД
+    await transaction(async (client: PoolClient) => {
+      await saveProfileVersion(client, universityId, fullProfile, provenance);
 
       // Обновить source
       await client.queryObject(
         `UPDATE university_sources 
-         SET current_hash = $1, last_checked_at = NOW(), last_parsed_at = NOW()
+         SET current_hash = $1, last_checked_at = NOW(), last_parsed_at = NOW(),
+             last_error = NULL, last_error_at = NULL, last_validation_errors = $6,
+             http_etag = $3, http_last_modified = $4, page_validators = $5
          WHERE id = $2`,
-        [hash, sourceId]
-      );
-
-      // Обновить университет с расширенными полями
-      const extendedFields = prepareExtendedDbFields(fullProfile);
-      await client.queryObject(
-        `UPDATE universities SET 
-          updated_at = NOW(),
-          specializations = $2,
-          languages = $3,
-          degree_levels = $4,
-          min_tuition = $5,
-          max_tuition = $6,
-          size_category = $7,
-          rankings = $8,
-          accepts_international = $9,
-          founded_year = $10,
-          student_count = $11,
-          indexed_at = NOW()
-        WHERE id = $1`,
         [
-          universityId,
-          extendedFields.specializations,
-          extendedFields.languages,
-          extendedFields.degree_levels,
-          extendedFields.min_tuition,
-          extendedFields.max_tuition,
-          extendedFields.size_category,
-          extendedFields.rankings,
-          extendedFields.accepts_international,
-          extendedFields.founded_year,
-          extendedFields.student_count,
+          hash,
+          sourceId,
+          root.etag,
+          root.lastModified,
+          JSON.stringify(pageValidators),
+          JSON.stringify(fullProfile.metadata?.field_errors ?? []),
         ]
       );
     });
@@ -1226,6 +1711,7 @@ export const checkAndUpdateWebsite = async (
       newHash: hash.substring(0, 16) + '...',
       completenessScore,
       programsCount: newProfile.programs?.length ?? 0,
+      preservedFields: preserved,
       duration_ms: processingTime,
     });
 
@@ -1233,14 +1719,15 @@ export const checkAndUpdateWebsite = async (
       updated: true,
       message: `Profile updated (completeness: ${completenessScore}%)`,
       newHash: hash,
+      preservedFields: preserved,
     };
   } catch (err) {
     const processingTime = Date.now() - startTime;
     const errorMessage = err instanceof Error ? err.message : String(err);
 
-    // Сохранить markdown для отладки при ошибке
+    // Сохранить ошибку (и ошибки полей профиля) для отладки
     try {
-      await saveFailedParseData(sourceId, errorMessage);
+      await saveFailedParseData(sourceId, errorMessage, getFieldErrors(err));
     } catch (saveErr) {
       logger.warn('Failed to save debug data', { error: saveErr });
     }
@@ -1257,22 +1744,25 @@ export const checkAndUpdateWebsite = async (
       updated: false,
       message: 'Update failed',
       error: errorMessage,
+      retryAt: getRetryAt(err),
     };
   }
 };
 
 /**
  * Сохранить данные неудачного парсинга для отладки
+ * @param fieldErrors - поля, не прошедшие проверку по схеме профиля
  */
 const saveFailedParseData = async (
   sourceId: string,
-  errorMessage: string
+  errorMessage: string,
+  fieldErrors: ParseFieldError[] = []
 ): Promise<void> => {
   await query(
     `UPDATE university_sources 
-     SET last_error = $1, last_error_at = NOW() 
+     SET last_error = $1, last_error_at = NOW(), last_validation_errors = $3
      WHERE id = $2`,
-    [errorMessage, sourceId]
+    [errorMessage, sourceId, JSON.stringify(fieldErrors)]
   );
 };
 
@@ -0,0 +1,388 @@
+/**
+ * Profile Changes Service - проверка результатов парсинга перед публикацией
+ *
+ * Для источников с publish_mode = review воркер не создаёт новую версию
+ * профиля, а сохраняет результат в profile_changes. Администратор видит
+ * diff по полям относительно версии, с которой сравнивал парсер, и принимает
+ * изменение целиком, частично (выбранные пути) или отклоняет его.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne, transaction } from '../config/database.ts';
+import { calculateDiffs, type ChangesDiff } from './admin.service.ts';
+import { calculateCompletenessScore, saveProfileVersion } from './parser.service.ts';
+import { diffProfiles, type FieldDiff } from './profile-versions.service.ts';
+import type { ProfileProvenance, University } from '../types/university.ts';
+import type { ProfileChangeRow, ProfileChangeStatus } from '../types/database.ts';
+import type { PoolClient } from 'postgres';
+
+/**
+ * Ошибка проверки изменения
+ */
+export class ProfileChangeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_PENDING' | 'INVALID_FIELDS'
+  ) {
+    super(message);
+    this.name = 'ProfileChangeError';
+  }
+}
+
+/**
+ * Изменение профиля для списка в админ-панели
+ */
+export interface ProfileChange {
+  id: string;
+  universityId: string;
+  universityName: string | null;
+  sourceId: string | null;
+  sourceUrl: string | null;
+  status: ProfileChangeStatus;
+  baseVersion: number;
+  /** Текущая версия профиля; отличается от baseVersion, если профиль правили после парсинга */
+  currentVersion: number;
+  acceptedFields: string[] | null;
+  publishedVersion: number | null;
+  reviewedBy: string | null;
+  reviewComment: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+}
+
+/**
+ * Изменение с diff по полям
+ */
+export interface ProfileChangeDetail extends ProfileChange {
+  summary: Record<string, ChangesDiff | string>;
+  fields: FieldDiff[];
+  /** Пути, которые после парсинга изменились и в текущем профиле (будут перезаписаны при принятии) */
+  conflicts: string[];
+}
+
+/**
+ * Фильтры списка изменений
+ */
+export interface ProfileChangeFilters {
+  status?: ProfileChangeStatus;
+  universityId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+type ProfileChangeRowWithNames = ProfileChangeRow & {
+  university_name?: string | null;
+  source_url?: string | null;
+  current_version?: number | null;
+};
+
+const rowToChange = (row: ProfileChangeRowWithNames): ProfileChange => ({
+  id: row.id,
+  universityId: row.university_id,
+  universityName: row.university_name ?? null,
+  sourceId: row.source_id,
+  sourceUrl: row.source_url ?? null,
+  status: row.status,
+  baseVersion: row.base_version,
+  currentVersion: row.current_version ?? 0,
+  acceptedFields: row.accepted_fields,
+  publishedVersion: row.published_version,
+  reviewedBy: row.reviewed_by,
+  reviewComment: row.review_comment,
+  createdAt: row.created_at.toISOString(),
+  reviewedAt: row.reviewed_at?.toISOString() ?? null,
+});
+
+const CHANGE_SELECT = `
+  SELECT c.*, u.name AS university_name, s.url AS source_url,
+    (SELECT COALESCE(MAX(version), 0) FROM university_profiles p WHERE p.university_id = c.university_id)
+      AS current_version
+  FROM profile_changes c
+  LEFT JOIN universities u ON u.id = c.university_id
+  LEFT JOIN university_sources s ON s.id = c.source_id`;
+
+/**
+ * Значение по пути через точку
+ */
+const getPath = (obj: unknown, path: string): unknown => {
+  let current = obj;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+};
+
+/**
+ * Записать значение по пути через точку (undefined удаляет поле)
+ * Недостающие промежуточные объекты создаются
+ */
+const setPath = (obj: Record<string, unknown>, path: string, value: unknown): void => {
+  const keys = path.split('.');
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  const last = keys[keys.length - 1];
+  if (value === undefined) {
+    delete current[last];
+  } else {
+    current[last] = value;
+  }
+};
+
+/**
+ * Выбрать изменения, попадающие под принятые пути
+ * Путь принимает само поле и все вложенные ('contacts' → 'contacts.phone')
+ */
+const selectDiffs = (fields: FieldDiff[], accepted: string[]): FieldDiff[] =>
+  fields.filter((diff) => accepted.some((path) => diff.path === path || diff.path.startsWith(`${path}.`)));
+
+/**
+ * Наложить выбранные изменения на профиль
+ * @returns новый профиль (исходный не меняется)
+ */
+export const applyFieldDiffs = (profile: University, diffs: FieldDiff[]): University => {
+  const result = structuredClone(profile) as unknown as Record<string, unknown>;
+  for (const diff of diffs) {
+    setPath(result, diff.path, diff.change === 'removed' ? undefined : structuredClone(diff.new_value));
+  }
+  return result as unknown as University;
+};
+
+/**
+ * Профиль версии (внутри транзакции)
+ */
+const loadVersion = async (
+  client: PoolClient,
+  universityId: string,
+  version?: number
+): Promise<{ version: number; profile_json: University; field_provenance: ProfileProvenance } | null> => {
+  const result = version === undefined
+    ? await client.queryObject<{ version: number; profile_json: University; field_provenance: ProfileProvenance }>(
+      `SELECT version, profile_json, field_provenance FROM university_profiles
+       WHERE university_id = $1 ORDER BY version DESC LIMIT 1`,
+      [universityId]
+    )
+    : await client.queryObject<{ version: number; profile_json: University; field_provenance: ProfileProvenance }>(
+      `SELECT version, profile_json, field_provenance FROM university_profiles
+       WHERE university_id = $1 AND version = $2`,
+      [universityId, version]
+    );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Список изменений (ожидающие сверху, затем новые)
+ */
+export const listProfileChanges = async (
+  filters: ProfileChangeFilters = {}
+): Promise<{ data: ProfileChange[]; total: number }> => {
+  const { limit = 50, offset = 0 } = filters;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`c.status = $${params.length}`);
+  }
+  if (filters.universityId) {
+    params.push(filters.universityId);
+    conditions.push(`c.university_id = $${params.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) as count FROM profile_changes c ${whereClause}`,
+    params
+  );
+
+  const rows = await query<ProfileChangeRowWithNames>(
+    `${CHANGE_SELECT}
+     ${whereClause}
+     ORDER BY CASE c.status WHEN 'pending' THEN 0 ELSE 1 END, c.created_at DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+
+  return {
+    data: rows.map(rowToChange),
+    total: parseInt(countResult?.count ?? '0', 10),
+  };
+};
+
+/**
+ * Число изменений, ожидающих проверки
+ */
+export const countPendingProfileChanges = async (): Promise<number> => {
+  const row = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) as count FROM profile_changes WHERE status = 'pending'`
+  );
+  return parseInt(row?.count ?? '0', 10);
+};
+
+/**
+ * Изменение с diff относительно базовой версии
+ * @returns null, если изменения нет
+ */
+export const getProfileChange = async (id: string): Promise<ProfileChangeDetail | null> => {
+  const row = await queryOne<ProfileChangeRowWithNames>(`${CHANGE_SELECT} WHERE c.id = $1`, [id]);
+  if (!row) return null;
+
+  const [base, current] = await Promise.all([
+    queryOne<{ profile_json: University }>(
+      'SELECT profile_json FROM university_profiles WHERE university_id = $1 AND version = $2',
+      [row.university_id, row.base_version]
+    ),
+    queryOne<{ profile_json: University }>(
+      `SELECT profile_json FROM university_profiles
+       WHERE university_id = $1 ORDER BY version DESC LIMIT 1`,
+      [row.university_id]
+    ),
+  ]);
+
+  const baseProfile = base?.profile_json ?? ({} as University);
+  const fields = diffProfiles(baseProfile, row.profile_json);
+  const conflicts = current && row.current_version !== row.base_version
+    ? fields
+      .filter((diff) =>
+        JSON.stringify(getPath(current.profile_json, diff.path) ?? null) !==
+          JSON.stringify(getPath(baseProfile, diff.path) ?? null)
+      )
+      .map((diff) => diff.path)
+    : [];
+
+  return {
+    ...rowToChange(row),
+    summary: calculateDiffs(baseProfile, row.profile_json),
+    fields,
+    conflicts,
+  };
+};
+
+/**
+ * Заблокировать ожидающее изменение для проверки
+ */
+const lockPendingChange = async (client: PoolClient, id: string): Promise<ProfileChangeRow> => {
+  const result = await client.queryObject<ProfileChangeRow>(
+    'SELECT * FROM profile_changes WHERE id = $1 FOR UPDATE',
+    [id]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    throw new ProfileChangeError('Change not found', 'NOT_FOUND');
+  }
+  if (row.status !== 'pending') {
+    throw new ProfileChangeError(`Change is already ${row.status}`, 'NOT_PENDING');
+  }
+  return row;
+};
+
+/**
+ * Принять изменение и опубликовать новую версию профиля
+ * Изменения накладываются на текущую версию, поэтому правки, сделанные после
+ * парсинга в других полях, сохраняются.
+ * @param options.fields - принимаемые пути (поле или вложенный путь); без него — всё изменение
+ * @throws ProfileChangeError если изменения нет, оно уже проверено или пути неверные
+ */
+export const approveProfileChange = async (
+  id: string,
+  options: { fields?: string[]; reviewedBy?: string; comment?: string } = {}
+): Promise<ProfileChange> => {
+  const partial = options.fields !== undefined;
+  if (partial && options.fields!.length === 0) {
+    throw new ProfileChangeError('Select at least one field or reject the change', 'INVALID_FIELDS');
+  }
+
+  const publishedVersion = await transaction(async (client: PoolClient) => {
+    const change = await lockPendingChange(client, id);
+
+    const base = await loadVersion(client, change.university_id, change.base_version);
+    const current = await loadVersion(client, change.university_id);
+    if (!current) {
+      throw new ProfileChangeError('University profile not found', 'NOT_FOUND');
+    }
+
+    const fields = diffProfiles(base?.profile_json ?? ({} as University), change.profile_json);
+    const accepted = partial ? options.fields! : fields.map((diff) => diff.path);
+    const selected = selectDiffs(fields, accepted);
+
+    const unknownFields = accepted.filter((path) => !fields.some((diff) => diff.path === path || diff.path.startsWith(`${path}.`)));
+    if (unknownFields.length > 0) {
+      throw new ProfileChangeError(`Fields are not part of this change: ${unknownFields.join(', ')}`, 'INVALID_FIELDS');
+    }
+
+    // Происхождение берётся из результата парсинга для затронутых полей верхнего уровня
+    const provenance: ProfileProvenance = { ...current.field_provenance };
+    for (const field of new Set(selected.map((diff) => diff.path.split('.')[0]))) {
+      if (change.field_provenance[field]) {
+        provenance[field] = change.field_provenance[field];
+      } else {
+        delete provenance[field];
+      }
+    }
+
+    const profile = applyFieldDiffs(current.profile_json, selected);
+    profile.id = change.university_id;
+    profile.updated_at = new Date().toISOString();
+    profile.metadata = {
+      ...current.profile_json.metadata,
+      ...(partial ? {} : change.profile_json.metadata),
+      completeness_score: calculateCompletenessScore(profile),
+    } as University['metadata'];
+
+    const version = await saveProfileVersion(client, change.university_id, profile, provenance);
+
+    await client.queryObject(
+      `UPDATE profile_changes
+       SET status = $2, accepted_fields = $3, published_version = $4,
+           reviewed_by = $5, review_comment = $6, reviewed_at = NOW()
+       WHERE id = $1`,
+      [
+        id,
+        partial ? 'partially_approved' : 'approved',
+        JSON.stringify(accepted),
+        version,
+        options.reviewedBy ?? null,
+        options.comment ?? null,
+      ]
+    );
+
+    return version;
+  });
+
+  logger.info('Profile change approved', { id, partial, publishedVersion });
+
+  const row = await queryOne<ProfileChangeRowWithNames>(`${CHANGE_SELECT} WHERE c.id = $1`, [id]);
+  return rowToChange(row!);
+};
+
+/**
+ * Отклонить изменение: профиль на сайте не меняется
+ * @throws ProfileChangeError если изменения нет или оно уже проверено
+ */
+export const rejectProfileChange = async (
+  id: string,
+  options: { reviewedBy?: string; comment?: string } = {}
+): Promise<ProfileChange> => {
+  await transaction(async (client: PoolClient) => {
+    await lockPendingChange(client, id);
+    await client.queryObject(
+      `UPDATE profile_changes
+       SET status = 'rejected', reviewed_by = $2, review_comment = $3, reviewed_at = NOW()
+       WHERE id = $1`,
+      [id, options.reviewedBy ?? null, options.comment ?? null]
+    );
+  });
+
+  logger.info('Profile change rejected', { id });
+
+  const row = await queryOne<ProfileChangeRowWithNames>(`${CHANGE_SELECT} WHERE c.id = $1`, [id]);
+  return rowToChange(row!);
+};
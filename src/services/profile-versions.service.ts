@@ -0,0 +1,275 @@
+/**
+ * Profile Versions Service - история версий профиля
+ * Список версий, сравнение двух версий и откат к предыдущей
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne, transaction } from '../config/database.ts';
+import { calculateDiffs, type AdminOperationResult, type ChangesDiff } from './admin.service.ts';
+import { saveProfileVersion } from './parser.service.ts';
+import type { University, ProfileProvenance } from '../types/university.ts';
+import type { PoolClient } from 'postgres';
+
+/**
+ * Служебные поля, которые не участвуют в сравнении версий
+ */
+const IGNORED_DIFF_FIELDS = new Set(['id', 'metadata', 'updated_at', 'created_at']);
+
+/**
+ * Краткая информация о версии профиля
+ */
+export interface ProfileVersionSummary {
+  version: number;
+  created_at: string;
+  completeness_score: number | null;
+  notes: string | null;
+  source_url: string | null;
+}
+
+/**
+ * Полная версия профиля
+ */
+export interface ProfileVersion {
+  version: number;
+  created_at: string;
+  profile_json: University;
+  field_provenance: ProfileProvenance;
+}
+
+/**
+ * Изменение одного поля между версиями
+ * path — путь через точку, например 'contacts.phone'
+ */
+export interface FieldDiff {
+  path: string;
+  change: 'added' | 'removed' | 'updated';
+  old_value?: unknown;
+  new_value?: unknown;
+}
+
+/**
+ * Результат сравнения двух версий
+ */
+export interface VersionsDiff {
+  from: number;
+  to: number;
+  summary: Record<string, ChangesDiff | string>;
+  fields: FieldDiff[];
+}
+
+/**
+ * Проверить является ли значение простым объектом (не массив)
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Проверить пустое ли значение для сравнения
+ */
+const isEmptyValue = (value: unknown): boolean => {
+  return value === undefined || value === null || value === '';
+};
+
+/**
+ * Рекурсивно сравнить значения и собрать изменения по путям
+ * Вложенные объекты раскрываются, массивы сравниваются целиком
+ */
+const collectFieldDiffs = (
+  oldValue: unknown,
+  newValue: unknown,
+  path: string,
+  diffs: FieldDiff[]
+): void => {
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+    for (const key of [...keys].sort()) {
+      collectFieldDiffs(oldValue[key], newValue[key], path ? `${path}.${key}` : key, diffs);
+    }
+    return;
+  }
+
+  if (JSON.stringify(oldValue ?? null) === JSON.stringify(newValue ?? null)) {
+    return;
+  }
+
+  if (isEmptyValue(oldValue)) {
+    diffs.push({ path, change: 'added', new_value: newValue });
+  } else if (isEmptyValue(newValue)) {
+    diffs.push({ path, change: 'removed', old_value: oldValue });
+  } else {
+    diffs.push({ path, change: 'updated', old_value: oldValue, new_value: newValue });
+  }
+};
+
+/**
+ * Построить структурированный diff двух профилей
+ * @param oldProfile - старая версия
+ * @param newProfile - новая версия
+ * @returns список изменённых полей
+ */
+export const diffProfiles = (oldProfile: University, newProfile: University): FieldDiff[] => {
+  const diffs: FieldDiff[] = [];
+  const keys = new Set([...Object.keys(oldProfile), ...Object.keys(newProfile)]);
+
+  for (const key of [...keys].sort()) {
+    if (IGNORED_DIFF_FIELDS.has(key)) continue;
+    collectFieldDiffs(
+      (oldProfile as unknown as Record<string, unknown>)[key],
+      (newProfile as unknown as Record<string, unknown>)[key],
+      key,
+      diffs
+    );
+  }
+
+  return diffs;
+};
+
+/**
+ * Получить список версий профиля (от новой к старой)
+ * @param universityId - ID университета
+ */
+export const listProfileVersions = async (universityId: string): Promise<ProfileVersionSummary[]> => {
+  return await query<ProfileVersionSummary>(
+    `SELECT version, created_at,
+       (profile_json->'metadata'->>'completeness_score')::int as completeness_score,
+       profile_json->'metadata'->>'notes' as notes,
+       profile_json->'metadata'->>'source_url' as source_url
+     FROM university_profiles
+     WHERE university_id = $1
+     ORDER BY version DESC`,
+    [universityId]
+  );
+};
+
+/**
+ * Получить конкретную версию профиля
+ * @param universityId - ID университета
+ * @param version - номер версии
+ */
+export const getProfileVersion = async (
+  universityId: string,
+  version: number
+): Promise<ProfileVersion | null> => {
+  return await queryOne<ProfileVersion>(
+    `SELECT version, created_at, profile_json, field_provenance
+     FROM university_profiles
+     WHERE university_id = $1 AND version = $2`,
+    [universityId, version]
+  );
+};
+
+/**
+ * Сравнить две версии профиля
+ * @param universityId - ID университета
+ * @param from - исходная версия
+ * @param to - целевая версия
+ * @returns diff или null если одна из версий не найдена
+ */
+export const diffProfileVersions = async (
+  universityId: string,
+  from: number,
+  to: number
+): Promise<VersionsDiff | null> => {
+  const [oldVersion, newVersion] = await Promise.all([
+    getProfileVersion(universityId, from),
+    getProfileVersion(universityId, to),
+  ]);
+
+  if (!oldVersion || !newVersion) {
+    return null;
+  }
+
+  return {
+    from,
+    to,
+    summary: calculateDiffs(oldVersion.profile_json, newVersion.profile_json),
+    fields: diffProfiles(oldVersion.profile_json, newVersion.profile_json),
+  };
+};
+
+/**
+ * Откатить профиль к предыдущей версии
+ * Старые версии не удаляются: содержимое выбранной версии сохраняется как новая версия
+ * @param universityId - ID университета
+ * @param version - версия, к которой выполняется откат
+ * @returns success: false, только если версии нет; ошибки БД пробрасываются
+ */
+export const rollbackToVersion = async (
+  universityId: string,
+  version: number
+): Promise<AdminOperationResult> => {
+  logger.info('Admin: Rolling back profile', { id: universityId, version });
+
+  const target = await getProfileVersion(universityId, version);
+  if (!target) {
+    return { success: false, message: `Version ${version} not found` };
+  }
+
+  const result = await transaction(async (client: PoolClient) => {
+    const current = await client.queryObject<{ profile_json: University }>(
+      `SELECT profile_json FROM university_profiles
+       WHERE university_id = $1
+       ORDER BY version DESC LIMIT 1`,
+      [universityId]
+    );
+    const latest = current.rows[0];
+
+    const restoredProfile: University = {
+      ...target.profile_json,
+      id: universityId,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (restoredProfile.metadata) {
+      restoredProfile.metadata = {
+        ...restoredProfile.metadata,
+        notes: `Rolled back to version ${version}`,
+      };
+    }
+
+    // Происхождение восстанавливается вместе с данными версии,
+    // колонки фильтров (стоимость, флаги) пересчитываются по восстановленному профилю
+    const newVersion = await saveProfileVersion(
+      client,
+      universityId,
+      restoredProfile,
+      target.field_provenance ?? {}
+    );
+
+    await client.queryObject(
+      `UPDATE universities
+       SET name = $1, name_en = $2, country = $3, city = $4, website_url = $5, updated_at = NOW()
+       WHERE id = $6`,
+      [
+        restoredProfile.name,
+        restoredProfile.name_en ?? null,
+        restoredProfile.country,
+        restoredProfile.city,
+        restoredProfile.website_url,
+        universityId,
+      ]
+    );
+
+    return {
+      newVersion,
+      changes: latest ? diffProfiles(latest.profile_json, restoredProfile) : [],
+    };
+  });
+
+  logger.info('Admin: Profile rolled back', {
+    id: universityId,
+    restoredFrom: version,
+    newVersion: result.newVersion,
+  });
+
+  return {
+    success: true,
+    message: `Rolled back to version ${version}`,
+    data: {
+      version: result.newVersion,
+      restored_from: version,
+      changes: result.changes,
+    },
+  };
+};
@@ -0,0 +1,292 @@
+/**
+ * Programs Service - поиск программ обучения по всем университетам
+ *
+ * Программы хранятся внутри profile_json.programs последней версии профиля,
+ * поэтому запрос разворачивает массив через jsonb_array_elements и фильтрует
+ * отдельные программы. Значения из парсера не всегда типизированы, так что
+ * числа и даты приводятся только если имеют ожидаемый формат.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query } from '../config/database.ts';
+import type { Program, TuitionInfo } from '../types/university.ts';
+import {
+  BASE_CURRENCY,
+  CURRENCY_ALIASES,
+  type DisplayCurrency,
+  parseDisplayCurrency,
+} from '../utils/currency.ts';
+import { getExchangeRates } from './exchange-rates.service.ts';
+
+export const MAX_PROGRAMS_LIMIT = 100;
+export const DEFAULT_PROGRAMS_LIMIT = 20;
+
+/**
+ * Ошибка в параметрах поиска программ
+ */
+export class ProgramFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgramFilterError';
+  }
+}
+
+/**
+ * Фильтры поиска программ
+ */
+export interface ProgramSearchFilters {
+  /** Слово в названии, описании или карьерных перспективах */
+  q?: string;
+  /** Уровни (Bachelor, Master, PhD, Diploma), без учёта регистра */
+  degreeLevels?: string[];
+  /** Язык обучения: подстрока, "English" находит и "English/Russian" */
+  language?: string;
+  minDuration?: number;
+  maxDuration?: number;
+  /** Границы стоимости в валюте `currency` за год */
+  minTuition?: number;
+  maxTuition?: number;
+  /** Валюта границ стоимости и пересчитанной стоимости в ответе (по умолчанию USD) */
+  currency?: DisplayCurrency;
+  /** Дедлайн подачи не раньше даты (YYYY-MM-DD) */
+  deadlineFrom?: string;
+  /** Дедлайн подачи не позже даты (YYYY-MM-DD) */
+  deadlineTo?: string;
+  country?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Найденная программа с университетом
+ */
+export interface ProgramSearchHit {
+  /** Программа; tuition при отсутствии берётся из общей стоимости профиля */
+  program: Program;
+  /** Стоимость в валюте запроса; null — суммы нет или валюта не распознана */
+  converted_tuition: { amount: number; currency: DisplayCurrency; per_year: boolean } | null;
+  university: {
+    id: string;
+    name: string;
+    name_en: string | null;
+    country: string;
+    city: string;
+  };
+}
+
+export interface ProgramSearchResult {
+  data: ProgramSearchHit[];
+  currency: DisplayCurrency;
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Разобрать параметры запроса /api/programs
+ * @throws ProgramFilterError при неверном значении
+ */
+export const parseProgramFilters = (params: URLSearchParams): ProgramSearchFilters => {
+  const number = (key: string): number | undefined => {
+    const value = params.get(key);
+    if (value === null || value === '') return undefined;
+    const num = Number(value);
+    if (!Number.isFinite(num) || num < 0) {
+      throw new ProgramFilterError(`Invalid ${key}`);
+    }
+    return num;
+  };
+
+  const date = (key: string): string | undefined => {
+    const value = params.get(key);
+    if (!value) return undefined;
+    if (!DATE_REGEX.test(value) || isNaN(Date.parse(value))) {
+      throw new ProgramFilterError(`Invalid ${key}`);
+    }
+    return value;
+  };
+
+  const limit = number('limit') ?? DEFAULT_PROGRAMS_LIMIT;
+  const offset = number('offset') ?? 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PROGRAMS_LIMIT || !Number.isInteger(offset)) {
+    throw new ProgramFilterError('Invalid pagination');
+  }
+
+  const currency = parseDisplayCurrency(params.get('currency'));
+  if (!currency) {
+    throw new ProgramFilterError('Invalid currency');
+  }
+
+  const q = params.get('q')?.trim() || undefined;
+  if (q && q.length > 100) {
+    throw new ProgramFilterError('Query too long');
+  }
+
+  return {
+    q,
+    degreeLevels: params.get('degree_level')?.split(',').map((s) => s.trim()).filter(Boolean),
+    language: params.get('language')?.trim() || undefined,
+    minDuration: number('min_duration'),
+    maxDuration: number('max_duration'),
+    minTuition: number('min_tuition'),
+    maxTuition: number('max_tuition'),
+    currency,
+    deadlineFrom: date('deadline_from'),
+    deadlineTo: date('deadline_to'),
+    country: params.get('country')?.trim() || undefined,
+    limit,
+    offset,
+  };
+};
+
+/**
+ * Найти программы по всем активным университетам
+ * @param filters - фильтры и пагинация
+ */
+export const searchPrograms = async (filters: ProgramSearchFilters = {}): Promise<ProgramSearchResult> => {
+  const limit = Math.min(filters.limit ?? DEFAULT_PROGRAMS_LIMIT, MAX_PROGRAMS_LIMIT);
+  const offset = filters.offset ?? 0;
+
+  const currency = filters.currency ?? BASE_CURRENCY;
+  const rates = await getExchangeRates();
+  if (!rates[currency]) {
+    throw new ProgramFilterError(`No exchange rate for ${currency}`);
+  }
+
+  const conditions: string[] = ['u.is_active = true', `jsonb_typeof(p.program) = 'object'`];
+  const values: unknown[] = [];
+  const param = (value: unknown): string => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  // Пересчёт стоимости в валюту запроса: валюта программы приводится к коду
+  // ISO 4217 по тем же написаниям, что и при сохранении профиля
+  const aliases = param(JSON.stringify(CURRENCY_ALIASES));
+  const ratesParam = param(JSON.stringify(rates));
+  const targetRate = param(rates[currency]);
+
+  if (filters.q) {
+    const like = param(`%${filters.q}%`);
+    conditions.push(
+      `(p.program->>'name' ILIKE ${like} OR p.program->>'description' ILIKE ${like}` +
+        ` OR p.program->>'career_outcomes' ILIKE ${like})`
+    );
+  }
+
+  if (filters.degreeLevels && filters.degreeLevels.length > 0) {
+    conditions.push(
+      `LOWER(p.program->>'degree_level') = ANY(${param(filters.degreeLevels.map((d) => d.toLowerCase()))}::text[])`
+    );
+  }
+
+  if (filters.language) {
+    conditions.push(`p.program->>'language' ILIKE ${param(`%${filters.language}%`)}`);
+  }
+
+  if (filters.minDuration !== undefined) {
+    conditions.push(`p.duration >= ${param(filters.minDuration)}`);
+  }
+  if (filters.maxDuration !== undefined) {
+    conditions.push(`p.duration <= ${param(filters.maxDuration)}`);
+  }
+
+  // Стоимость сравнивается после пересчёта; бесплатные программы подходят в любой валюте
+  if (filters.minTuition !== undefined || filters.maxTuition !== undefined) {
+    const range: string[] = ['c.amount IS NOT NULL'];
+    if (filters.minTuition !== undefined) range.push(`c.amount >= ${param(filters.minTuition)}`);
+    if (filters.maxTuition !== undefined) range.push(`c.amount <= ${param(filters.maxTuition)}`);
+
+    const free = filters.minTuition === undefined || filters.minTuition === 0
+      ? ' OR p.tuition_amount = 0'
+      : '';
+    conditions.push(`((${range.join(' AND ')})${free})`);
+  }
+
+  if (filters.deadlineFrom) {
+    conditions.push(`p.deadline >= ${param(filters.deadlineFrom)}::date`);
+  }
+  if (filters.deadlineTo) {
+    conditions.push(`p.deadline <= ${param(filters.deadlineTo)}::date`);
+  }
+
+  if (filters.country) {
+    conditions.push(`u.country = ${param(filters.country)}`);
+  }
+
+  const rows = await query<{
+    program: Program;
+    tuition: TuitionInfo | null;
+    converted_amount: string | null;
+    university_id: string;
+    university_name: string;
+    university_name_en: string | null;
+    country: string;
+    city: string;
+    total: string;
+  }>(
+    `SELECT p.program, p.tuition, c.amount AS converted_amount,
+            u.id AS university_id, u.name AS university_name, u.name_en AS university_name_en,
+            u.country, u.city,
+            COUNT(*) OVER () AS total
+     FROM universities u
+     JOIN LATERAL (
+       SELECT profile_json
+       FROM university_profiles
+       WHERE university_id = u.id
+       ORDER BY version DESC, created_at DESC
+       LIMIT 1
+     ) up ON true
+     CROSS JOIN LATERAL (
+       SELECT e.value AS program,
+              COALESCE(e.value->'tuition', up.profile_json->'tuition') AS tuition,
+              CASE WHEN jsonb_typeof(e.value->'duration_years') = 'number'
+                   THEN (e.value->>'duration_years')::numeric END AS duration,
+              CASE WHEN jsonb_typeof(COALESCE(e.value->'tuition', up.profile_json->'tuition')->'amount') = 'number'
+                   THEN (COALESCE(e.value->'tuition', up.profile_json->'tuition')->>'amount')::numeric END AS tuition_amount,
+              CASE WHEN e.value->>'application_deadline' ~ '^\\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])'
+                   THEN LEFT(e.value->>'application_deadline', 10)::date END AS deadline
+       FROM jsonb_array_elements(
+         CASE WHEN jsonb_typeof(up.profile_json->'programs') = 'array'
+              THEN up.profile_json->'programs' ELSE '[]'::jsonb END
+       ) AS e
+     ) p
+     CROSS JOIN LATERAL (
+       SELECT p.tuition_amount / NULLIF((${ratesParam}::jsonb ->> cur.code)::numeric, 0) * ${targetRate}::numeric AS amount
+       FROM (
+         SELECT COALESCE(
+           ${aliases}::jsonb ->> RTRIM(LOWER(TRIM(p.tuition->>'currency')), '.'),
+           UPPER(TRIM(p.tuition->>'currency'))
+         ) AS code
+       ) cur
+     ) c
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY p.program->>'name', u.name
+     LIMIT ${param(limit)} OFFSET ${param(offset)}`,
+    values
+  );
+
+  logger.debug('Programs search completed', { filters, count: rows.length });
+
+  return {
+    data: rows.map((r) => ({
+      program: r.tuition ? { ...r.program, tuition: r.tuition } : r.program,
+      converted_tuition: r.converted_amount !== null
+        ? { amount: Math.round(Number(r.converted_amount)), currency, per_year: r.tuition?.per_year ?? true }
+        : null,
+      university: {
+        id: r.university_id,
+        name: r.university_name,
+        name_en: r.university_name_en,
+        country: r.country,
+        city: r.city,
+      },
+    })),
+    currency,
+    total: rows.length > 0 ? parseInt(rows[0].total, 10) : 0,
+    limit,
+    offset,
+  };
+};
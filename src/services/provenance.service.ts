@@ -0,0 +1,231 @@
+/**
+ * Provenance Service - происхождение полей профиля
+ * Отслеживает, откуда взято каждое поле верхнего уровня profile_json
+ */
+
+import {
+  isNoInfo,
+  type FieldProvenance,
+  type ProfileProvenance,
+  type ProvenanceMethod,
+  type University,
+} from '../types/university.ts';
+
+/**
+ * Служебные поля профиля, для которых происхождение не отслеживается
+ */
+const SYSTEM_FIELDS = new Set(['id', 'metadata', 'updated_at', 'created_at']);
+
+/**
+ * Уверенность по умолчанию для каждого метода
+ */
+const DEFAULT_CONFIDENCE: Record<ProvenanceMethod, number> = {
+  manual: 1,
+  seed: 0.8,
+  llm: 0.7,
+  search: 0.4,
+};
+
+/**
+ * Уверенность LLM для поля, найденного на специализированной странице (не главной)
+ */
+const DEDICATED_PAGE_CONFIDENCE = 0.85;
+
+/**
+ * Проверить заполнено ли значение
+ */
+const hasValue = (value: unknown): boolean => {
+  if (isNoInfo(value)) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value as object).length > 0;
+  return true;
+};
+
+/**
+ * Сравнить значения полей (глубоко, через JSON)
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+/**
+ * Получить поля профиля, для которых отслеживается происхождение
+ * @param profile - профиль университета
+ * @returns список ключей верхнего уровня
+ */
+export const getTrackedFields = (profile: Partial<University>): string[] => {
+  return Object.keys(profile).filter((key) => !SYSTEM_FIELDS.has(key));
+};
+
+/**
+ * Построить происхождение для всех заполненных полей профиля одним методом
+ * @param profile - профиль университета
+ * @param method - способ получения данных
+ * @param options - URL источника, модель, уверенность
+ * @returns карта происхождения
+ */
+export const buildProvenance = (
+  profile: Partial<University>,
+  method: ProvenanceMethod,
+  options: { sourceUrl?: string; model?: string; confidence?: number } = {}
+): ProfileProvenance => {
+  const extractedAt = new Date().toISOString();
+  const provenance: ProfileProvenance = {};
+
+  for (const field of getTrackedFields(profile)) {
+    const value = (profile as Record<string, unknown>)[field];
+    if (!hasValue(value)) continue;
+
+    provenance[field] = {
+      method,
+      source_url: options.sourceUrl,
+      model: options.model,
+      extracted_at: extractedAt,
+      confidence: options.confidence ?? DEFAULT_CONFIDENCE[method],
+    };
+  }
+
+  return provenance;
+};
+
+/**
+ * Построить происхождение для профиля, извлечённого LLM со страниц сайта
+ * Источник берётся из metadata.field_sources; поле со специализированной
+ * страницы (не главной) получает более высокую уверенность
+ * @param profile - профиль после markdownToUniversityProfile
+ * @param sourceUrl - URL главной страницы
+ * @param model - модель LLM
+ * @returns карта происхождения только для полей, найденных на страницах
+ */
+export const buildLlmProvenance = (
+  profile: Partial<University>,
+  sourceUrl: string,
+  model: string
+): ProfileProvenance => {
+  const extractedAt = new Date().toISOString();
+  const fieldSources = profile.metadata?.field_sources ?? {};
+  const provenance: ProfileProvenance = {};
+
+  for (const [field, pages] of Object.entries(fieldSources)) {
+    if (SYSTEM_FIELDS.has(field) || pages.length === 0) continue;
+
+    const dedicatedPage = pages.find((page) => page !== sourceUrl);
+    provenance[field] = {
+      method: 'llm',
+      source_url: dedicatedPage ?? pages[0],
+      model,
+      extracted_at: extractedAt,
+      confidence: dedicatedPage ? DEDICATED_PAGE_CONFIDENCE : DEFAULT_CONFIDENCE.llm,
+    };
+  }
+
+  return provenance;
+};
+
+/**
+ * Сохранить прежнее происхождение для полей, значение которых не изменилось
+ * @param profile - новый профиль
+ * @param provenance - происхождение нового профиля
+ * @param previous - предыдущий профиль
+ * @param previousProvenance - происхождение предыдущего профиля
+ * @returns объединённая карта происхождения
+ */
+export const carryOverProvenance = (
+  profile: Partial<University>,
+  provenance: ProfileProvenance,
+  previous: Partial<University> | undefined,
+  previousProvenance: ProfileProvenance
+): ProfileProvenance => {
+  if (!previous) return provenance;
+
+  const result: ProfileProvenance = { ...provenance };
+
+  for (const field of getTrackedFields(profile)) {
+    const unchanged = isSameValue(
+      (profile as Record<string, unknown>)[field],
+      (previous as Record<string, unknown>)[field]
+    );
+
+    if (unchanged && previousProvenance[field]) {
+      result[field] = previousProvenance[field];
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Вернуть в новый профиль поля, отредактированные администратором вручную
+ * @param profile - новый профиль (например, после парсинга)
+ * @param provenance - происхождение нового профиля
+ * @param previous - предыдущий профиль
+ * @param previousProvenance - происхождение предыдущего профиля
+ * @returns профиль и происхождение с сохранёнными ручными полями, список этих полей
+ */
+export const preserveManualFields = <T extends Partial<University>>(
+  profile: T,
+  provenance: ProfileProvenance,
+  previous: Partial<University> | undefined,
+  previousProvenance: ProfileProvenance
+): { profile: T; provenance: ProfileProvenance; preserved: string[] } => {
+  if (!previous) {
+    return { profile, provenance, preserved: [] };
+  }
+
+  const merged = { ...profile } as Record<string, unknown>;
+  const mergedProvenance: ProfileProvenance = { ...provenance };
+  const preserved: string[] = [];
+
+  for (const [field, entry] of Object.entries(previousProvenance)) {
+    if (entry.method !== 'manual') continue;
+
+    const previousValue = (previous as Record<string, unknown>)[field];
+    if (!isSameValue(merged[field], previousValue)) {
+      preserved.push(field);
+    }
+
+    merged[field] = previousValue;
+    mergedProvenance[field] = entry;
+  }
+
+  return { profile: merged as T, provenance: mergedProvenance, preserved };
+};
+
+/**
+ * Отметить поля, изменённые администратором, как ручные
+ * @param previous - профиль до редактирования
+ * @param updated - профиль после редактирования
+ * @param previousProvenance - происхождение до редактирования
+ * @returns новая карта происхождения
+ */
+export const markManualChanges = (
+  previous: Partial<University>,
+  updated: Partial<University>,
+  previousProvenance: ProfileProvenance
+): ProfileProvenance => {
+  const extractedAt = new Date().toISOString();
+  const result: ProfileProvenance = {};
+
+  for (const field of getTrackedFields(updated)) {
+    const value = (updated as Record<string, unknown>)[field];
+    const changed = !isSameValue(value, (previous as Record<string, unknown>)[field]);
+
+    if (changed) {
+      // Очищенное вручную поле тоже защищаем от перезаписи парсером
+      result[field] = manualEntry(extractedAt);
+    } else if (previousProvenance[field]) {
+      result[field] = previousProvenance[field];
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Запись происхождения для ручной правки
+ */
+const manualEntry = (extractedAt: string): FieldProvenance => ({
+  method: 'manual',
+  extracted_at: extractedAt,
+  confidence: DEFAULT_CONFIDENCE.manual,
+});
@@ -0,0 +1,529 @@
+/**
+ * Rate Limit Service - единый rate limiting для групп маршрутов
+ *
+ * Алгоритм token bucket: корзина клиента вмещает `capacity` токенов и
+ * пополняется со скоростью `perMinute` токенов в минуту, каждый запрос
+ * списывает токен. Корзины хранятся в памяти процесса (по умолчанию) или
+ * в PostgreSQL (`RATE_LIMIT_STORE=postgres`) — тогда лимиты общие для всех
+ * инстансов и переживают перезапуск.
+ */
+
+import type { PoolClient } from 'postgres';
+import { logger } from '../utils/logger.ts';
+import { query, transaction } from '../config/database.ts';
+
+/**
+ * Группы маршрутов с отдельной политикой
+ * - chat: POST /api/chat
+ * - search: GET /api/search/autocomplete
+ * - verify: GET /api/search/verify (запрос к LLM)
+ * - admin-auth: неудачные попытки входа в admin API
+ */
+export type RateLimitGroup = 'chat' | 'search' | 'verify' | 'admin-auth';
+
+export const RATE_LIMIT_GROUPS: readonly RateLimitGroup[] = ['chat', 'search', 'verify', 'admin-auth'];
+
+/**
+ * Политика token bucket
+ */
+export interface RateLimitPolicy {
+  /** Размер корзины — сколько запросов можно сделать подряд */
+  capacity: number;
+  /** Скорость пополнения (токенов в минуту) */
+  perMinute: number;
+}
+
+export type RateLimitStoreName = 'memory' | 'postgres';
+
+/**
+ * Результат проверки лимита
+ */
+export interface RateLimitResult {
+  group: RateLimitGroup;
+  key: string;
+  allowed: boolean;
+  /** Размер корзины (RateLimit-Limit) */
+  limit: number;
+  /** Целых токенов осталось (RateLimit-Remaining) */
+  remaining: number;
+  /** Секунд до полного пополнения корзины (RateLimit-Reset) */
+  resetSeconds: number;
+  /** Секунд до следующего токена, 0 если запрос разрешён (Retry-After) */
+  retryAfterSeconds: number;
+  policy: RateLimitPolicy;
+}
+
+/**
+ * Клиент, упёршийся в лимит
+ */
+export interface ThrottledClient {
+  group: RateLimitGroup;
+  key: string;
+  /** Токенов в корзине сейчас (меньше одного) */
+  tokens: number;
+  deniedCount: number;
+  lastDeniedAt: string | null;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Политики по умолчанию (совпадают с прежними лимитами 10 запросов в минуту)
+ */
+const DEFAULT_POLICIES: Record<RateLimitGroup, RateLimitPolicy> = {
+  chat: { capacity: 10, perMinute: 10 },
+  search: { capacity: 10, perMinute: 10 },
+  verify: { capacity: 10, perMinute: 10 },
+  'admin-auth': { capacity: 10, perMinute: 10 },
+};
+
+/**
+ * Настройки хранилищ
+ */
+const RATE_LIMIT_CONFIG = {
+  /** Сколько корзин держать в памяти до очистки полных */
+  maxMemoryBuckets: 10000,
+  /** Раз в сколько списаний удалять полные корзины из PostgreSQL */
+  pruneEvery: 500,
+};
+
+/**
+ * Состояние корзины
+ */
+interface BucketState {
+  tokens: number;
+  /** Момент, на который посчитаны tokens (мс) */
+  updatedAt: number;
+  deniedCount: number;
+  lastDeniedAt: number | null;
+}
+
+interface StoredBucket {
+  group: RateLimitGroup;
+  key: string;
+  state: BucketState;
+  /** Текущее время хранилища (мс) */
+  now: number;
+}
+
+/**
+ * Хранилище корзин
+ */
+interface RateLimitStore {
+  readonly name: RateLimitStoreName;
+  /**
+   * Пополнить корзину и атомарно списать cost токенов
+   * cost = 0 — только посмотреть состояние
+   */
+  take(
+    group: RateLimitGroup,
+    key: string,
+    policy: RateLimitPolicy,
+    cost: number
+  ): Promise<{ state: BucketState; allowed: boolean }>;
+  /** Удалить корзины группы (или одного клиента); возвращает число удалённых */
+  reset(group: RateLimitGroup, key?: string): Promise<number>;
+  /** Корзины, в которых были отказы */
+  listDenied(): Promise<StoredBucket[]>;
+}
+
+/**
+ * Политика группы: RATE_LIMIT_<GROUP>_CAPACITY и RATE_LIMIT_<GROUP>_PER_MINUTE
+ * переопределяют значения по умолчанию (например, RATE_LIMIT_ADMIN_AUTH_CAPACITY)
+ * @param group - группа маршрутов
+ * @returns политика token bucket
+ */
+export const getRateLimitPolicy = (group: RateLimitGroup): RateLimitPolicy => {
+  const prefix = `RATE_LIMIT_${group.toUpperCase().replace(/-/g, '_')}_`;
+  const defaults = DEFAULT_POLICIES[group];
+
+  const read = (name: string, fallback: number): number => {
+    const raw = Deno.env.get(`${prefix}${name}`);
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+      logger.warn('Invalid rate limit setting, using default', { variable: `${prefix}${name}`, value: raw });
+      return fallback;
+    }
+    return value;
+  };
+
+  return {
+    capacity: read('CAPACITY', defaults.capacity),
+    perMinute: read('PER_MINUTE', defaults.perMinute),
+  };
+};
+
+/**
+ * Политики всех групп
+ */
+export const getRateLimitPolicies = (): Record<RateLimitGroup, RateLimitPolicy> =>
+  Object.fromEntries(
+    RATE_LIMIT_GROUPS.map((group) => [group, getRateLimitPolicy(group)])
+  ) as Record<RateLimitGroup, RateLimitPolicy>;
+
+/**
+ * Пополнить корзину на момент now
+ */
+const refillBucket = (state: BucketState, policy: RateLimitPolicy, now: number): BucketState => {
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return {
+    ...state,
+    tokens: Math.min(policy.capacity, state.tokens + (elapsed * policy.perMinute) / 60000),
+    updatedAt: now,
+  };
+};
+
+/**
+ * Пополнить корзину и списать cost токенов, если их хватает
+ */
+const takeTokens = (
+  state: BucketState,
+  policy: RateLimitPolicy,
+  cost: number,
+  now: number
+): { state: BucketState; allowed: boolean } => {
+  const current = refillBucket(state, policy, now);
+
+  if (cost === 0) {
+    return { state: current, allowed: current.tokens >= 1 };
+  }
+  if (current.tokens >= cost) {
+    return { state: { ...current, tokens: current.tokens - cost }, allowed: true };
+  }
+  return {
+    state: { ...current, deniedCount: current.deniedCount + 1, lastDeniedAt: now },
+    allowed: false,
+  };
+};
+
+const newBucket = (policy: RateLimitPolicy, now: number): BucketState => ({
+  tokens: policy.capacity,
+  updatedAt: now,
+  deniedCount: 0,
+  lastDeniedAt: null,
+});
+
+/**
+ * Секунд до накопления tokens токенов
+ */
+const secondsToRefill = (tokens: number, policy: RateLimitPolicy): number =>
+  Math.max(0, Math.ceil((tokens * 60) / policy.perMinute));
+
+/**
+ * Самое долгое полное пополнение среди политик (секунды)
+ * Корзина, не менявшаяся дольше, гарантированно полная
+ */
+const maxRefillSeconds = (): number =>
+  Math.max(
+    ...Object.values(getRateLimitPolicies()).map((policy) => secondsToRefill(policy.capacity, policy))
+  );
+
+/**
+ * Хранилище в памяти процесса
+ */
+class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory' as const;
+  private buckets = new Map<string, { group: RateLimitGroup; key: string; state: BucketState }>();
+
+  take(group: RateLimitGroup, key: string, policy: RateLimitPolicy, cost: number) {
+    const id = `${group}:${key}`;
+    const now = Date.now();
+    const entry = this.buckets.get(id);
+    const result = takeTokens(entry?.state ?? newBucket(policy, now), policy, cost, now);
+
+    if (entry || cost > 0) {
+      this.buckets.set(id, { group, key, state: result.state });
+      if (this.buckets.size > RATE_LIMIT_CONFIG.maxMemoryBuckets) this.prune(now);
+    }
+
+    return Promise.resolve(result);
+  }
+
+  reset(group: RateLimitGroup, key?: string): Promise<number> {
+    let count = 0;
+    for (const [id, entry] of this.buckets) {
+      if (entry.group === group && (key === undefined || entry.key === key)) {
+        this.buckets.delete(id);
+        count++;
+      }
+    }
+    return Promise.resolve(count);
+  }
+
+  listDenied(): Promise<StoredBucket[]> {
+    const now = Date.now();
+    return Promise.resolve(
+      [...this.buckets.values()]
+        .filter((entry) => entry.state.lastDeniedAt !== null)
+        .map((entry) => ({ ...entry, now }))
+    );
+  }
+
+  /**
+   * Удалить полные корзины — они ничем не отличаются от отсутствующих
+   */
+  private prune(now: number): void {
+    const policies = getRateLimitPolicies();
+    for (const [id, entry] of this.buckets) {
+      const policy = policies[entry.group];
+      if (refillBucket(entry.state, policy, now).tokens >= policy.capacity) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Строка rate_limit_buckets
+ */
+interface BucketRow {
+  group_name: RateLimitGroup;
+  client_key: string;
+  tokens: number;
+  updated_at: Date;
+  denied_count: number;
+  last_denied_at: Date | null;
+  now: Date;
+}
+
+const rowToState = (row: BucketRow): BucketState => ({
+  tokens: Number(row.tokens),
+  updatedAt: new Date(row.updated_at).getTime(),
+  deniedCount: row.denied_count,
+  lastDeniedAt: row.last_denied_at ? new Date(row.last_denied_at).getTime() : null,
+});
+
+/**
+ * Хранилище в PostgreSQL (таблица rate_limit_buckets)
+ * Время берётся из БД, чтобы часы инстансов не влияли на пополнение
+ */
+class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres' as const;
+  private takesSincePrune = 0;
+
+  async take(group: RateLimitGroup, key: string, policy: RateLimitPolicy, cost: number) {
+    if (cost === 0) {
+      const rows = await query<BucketRow>(
+        `SELECT tokens, updated_at, denied_count, last_denied_at, NOW() AS now
+         FROM rate_limit_buckets
+         WHERE group_name = $1 AND client_key = $2`,
+        [group, key]
+      );
+      if (rows.length === 0) return { state: newBucket(policy, Date.now()), allowed: true };
+      return takeTokens(rowToState(rows[0]), policy, 0, new Date(rows[0].now).getTime());
+    }
+
+    const result = await transaction(async (client: PoolClient) => {
+      await client.queryObject(
+        `INSERT INTO rate_limit_buckets (group_name, client_key, tokens)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (group_name, client_key) DO NOTHING`,
+        [group, key, policy.capacity]
+      );
+
+      // Блокировка строки делает списание атомарным между инстансами
+      const { rows } = await client.queryObject<BucketRow>(
+        `SELECT tokens, updated_at, denied_count, last_denied_at, NOW() AS now
+         FROM rate_limit_buckets
+         WHERE group_name = $1 AND client_key = $2
+         FOR UPDATE`,
+        [group, key]
+      );
+
+      const taken = takeTokens(rowToState(rows[0]), policy, cost, new Date(rows[0].now).getTime());
+      const { state } = taken;
+
+      await client.queryObject(
+        `UPDATE rate_limit_buckets
+         SET tokens = $3, updated_at = $4, denied_count = $5, last_denied_at = $6
+         WHERE group_name = $1 AND client_key = $2`,
+        [
+          group,
+          key,
+          state.tokens,
+          new Date(state.updatedAt),
+          state.deniedCount,
+          state.lastDeniedAt === null ? null : new Date(state.lastDeniedAt),
+        ]
+      );
+
+      return taken;
+    });
+
+    if (++this.takesSincePrune >= RATE_LIMIT_CONFIG.pruneEvery) {
+      this.takesSincePrune = 0;
+      await this.prune();
+    }
+
+    return result;
+  }
+
+  async reset(group: RateLimitGroup, key?: string): Promise<number> {
+    const rows = key === undefined
+      ? await query<{ client_key: string }>(
+        'DELETE FROM rate_limit_buckets WHERE group_name = $1 RETURNING client_key',
+        [group]
+      )
+      : await query<{ client_key: string }>(
+        'DELETE FROM rate_limit_buckets WHERE group_name = $1 AND client_key = $2 RETURNING client_key',
+        [group, key]
+      );
+    return rows.length;
+  }
+
+  async listDenied(): Promise<StoredBucket[]> {
+    const rows = await query<BucketRow>(
+      `SELECT group_name, client_key, tokens, updated_at, denied_count, last_denied_at, NOW() AS now
+       FROM rate_limit_buckets
+       WHERE last_denied_at IS NOT NULL
+       ORDER BY last_denied_at DESC`
+    );
+    return rows.map((row) => ({
+      group: row.group_name,
+      key: row.client_key,
+      state: rowToState(row),
+      now: new Date(row.now).getTime(),
+    }));
+  }
+
+  /**
+   * Удалить корзины, которые давно не менялись и уже полностью пополнились
+   */
+  private async prune(): Promise<void> {
+    try {
+      await query(
+        `DELETE FROM rate_limit_buckets WHERE updated_at < NOW() - $1 * INTERVAL '1 second'`,
+        [maxRefillSeconds()]
+      );
+    } catch (err) {
+      logger.warn('Failed to prune rate limit buckets', { error: err });
+    }
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Получить хранилище (RATE_LIMIT_STORE: memory | postgres)
+ */
+const getStore = (): RateLimitStore => {
+  if (!store) {
+    const name = Deno.env.get('RATE_LIMIT_STORE') ?? 'memory';
+    if (name !== 'memory' && name !== 'postgres') {
+      logger.warn('Unknown RATE_LIMIT_STORE, using memory', { value: name });
+    }
+    store = name === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+    logger.info('Rate limit store initialized', { store: store.name });
+  }
+  return store;
+};
+
+/**
+ * Сбросить хранилище (после смены RATE_LIMIT_STORE, в тестах)
+ */
+export const resetRateLimitStore = (): void => {
+  store = null;
+};
+
+/**
+ * Имя текущего хранилища
+ */
+export const getRateLimitStoreName = (): RateLimitStoreName => getStore().name;
+
+const toResult = (
+  group: RateLimitGroup,
+  key: string,
+  policy: RateLimitPolicy,
+  state: BucketState,
+  allowed: boolean,
+  cost: number
+): RateLimitResult => ({
+  group,
+  key,
+  allowed,
+  limit: policy.capacity,
+  remaining: Math.max(0, Math.floor(state.tokens)),
+  resetSeconds: secondsToRefill(policy.capacity - state.tokens, policy),
+  retryAfterSeconds: allowed ? 0 : Math.max(1, secondsToRefill(Math.max(cost, 1) - state.tokens, policy)),
+  policy,
+});
+
+/**
+ * Списать запрос из корзины клиента
+ * При недоступности хранилища запрос пропускается (fail open), ошибка логируется.
+ * @param group - группа маршрутов
+ * @param key - идентификатор клиента (обычно IP)
+ * @param cost - сколько токенов стоит запрос
+ * @returns разрешён ли запрос и данные для заголовков RateLimit-*
+ */
+export const consumeRateLimit = async (
+  group: RateLimitGroup,
+  key: string,
+  cost: number = 1
+): Promise<RateLimitResult> => {
+  const policy = getRateLimitPolicy(group);
+
+  try {
+    const { state, allowed } = await getStore().take(group, key, policy, cost);
+    if (!allowed) {
+      logger.warn('Rate limit exceeded', { group, key, deniedCount: state.deniedCount });
+    }
+    return toResult(group, key, policy, state, allowed, cost);
+  } catch (err) {
+    logger.error('Rate limit store failed, request allowed', { group, error: err });
+    return toResult(group, key, policy, newBucket(policy, Date.now()), true, cost);
+  }
+};
+
+/**
+ * Проверить лимит без списания (есть ли в корзине хотя бы один токен)
+ * @param group - группа маршрутов
+ * @param key - идентификатор клиента
+ */
+export const peekRateLimit = async (group: RateLimitGroup, key: string): Promise<RateLimitResult> => {
+  const policy = getRateLimitPolicy(group);
+
+  try {
+    const { state, allowed } = await getStore().take(group, key, policy, 0);
+    return toResult(group, key, policy, state, allowed, 1);
+  } catch (err) {
+    logger.error('Rate limit store failed, request allowed', { group, error: err });
+    return toResult(group, key, policy, newBucket(policy, Date.now()), true, 1);
+  }
+};
+
+/**
+ * Сбросить лимит клиента (или всей группы)
+ * @returns число удалённых корзин
+ */
+export const resetRateLimit = async (group: RateLimitGroup, key?: string): Promise<number> => {
+  const count = await getStore().reset(group, key);
+  logger.info('Rate limit reset', { group, key, count });
+  return count;
+};
+
+/**
+ * Клиенты, которые сейчас ограничены (в корзине меньше одного токена)
+ * @returns список от последних отказов к более ранним
+ */
+export const listThrottledClients = async (): Promise<ThrottledClient[]> => {
+  const policies = getRateLimitPolicies();
+  const buckets = await getStore().listDenied();
+
+  return buckets
+    .filter((bucket) => policies[bucket.group])
+    .map((bucket) => {
+      const policy = policies[bucket.group];
+      return { bucket, policy, state: refillBucket(bucket.state, policy, bucket.now) };
+    })
+    .filter(({ state }) => state.tokens < 1)
+    .map(({ bucket, policy, state }) => ({
+      group: bucket.group,
+      key: bucket.key,
+      tokens: Math.round(state.tokens * 100) / 100,
+      deniedCount: state.deniedCount,
+      lastDeniedAt: state.lastDeniedAt === null ? null : new Date(state.lastDeniedAt).toISOString(),
+      retryAfterSeconds: Math.max(1, secondsToRefill(1 - state.tokens, policy)),
+    }))
+    .sort((a, b) => (b.lastDeniedAt ?? '').localeCompare(a.lastDeniedAt ?? ''));
+};
@@ -37,13 +37,6 @@ const DB_CACHE_TTL = 1000 * 60 * 5; // 5 минут
 const aiVerifyCache = new Map<string, { result: UniversitySearchResult; timestamp: number }>();
 const AI_CACHE_TTL = 1000 * 60 * 60; // 1 час
 
-/**
- * Rate limiting для AI запросов
- */
-const rateLimitMap = new Map<string, { count: number; windowStart: number }>();
-const RATE_LIMIT_WINDOW = 60000; // 1 минута
-const RATE_LIMIT_MAX = 10; // максимум запросов за окно
-
 /**
  * Очистить все кэши
  */
@@ -60,31 +53,6 @@ const normalizeKey = (str: string): string => {
   return str.toLowerCase().trim().replace(/\s+/g, ' ');
 };
 
-/**
- * Проверить rate limit
- */
-const checkRateLimit = (ip: string): { allowed: boolean; remaining: number; resetIn: number } => {
-  const now = Date.now();
-  const record = rateLimitMap.get(ip);
-
-  if (!record || now - record.windowStart > RATE_LIMIT_WINDOW) {
-    rateLimitMap.set(ip, { count: 1, windowStart: now });
-    return { allowed: true, remaining: RATE_LIMIT_MAX - 1, resetIn: RATE_LIMIT_WINDOW };
-  }
-
-  if (record.count >= RATE_LIMIT_MAX) {
-    const resetIn = RATE_LIMIT_WINDOW - (now - record.windowStart);
-    return { allowed: false, remaining: 0, resetIn };
-  }
-
-  record.count++;
-  return { 
-    allowed: true, 
-    remaining: RATE_LIMIT_MAX - record.count, 
-    resetIn: RATE_LIMIT_WINDOW - (now - record.windowStart) 
-  };
-};
-
 /**
  * Вычислить score совпадения
  */
@@ -192,35 +160,20 @@ export const searchUniversitiesInDb = async (
 };
 
 /**
- * Верификация университета через AI с rate limiting
+ * Верификация университета через AI
+ * Rate limiting (группа verify) выполняется в маршруте до вызова
  */
 export const verifyUniversityWithAI = async (
   name: string,
   clientIp: string = 'unknown'
-): Promise<{ result: UniversitySearchResult | null; rateLimited: boolean; remaining?: number; resetIn?: number }> => {
-  // Rate limit check
-  const rateLimit = checkRateLimit(clientIp);
-  if (!rateLimit.allowed) {
-    logger.warn('Rate limit exceeded for AI verify', { ip: clientIp });
-    return { 
-      result: null, 
-      rateLimited: true, 
-      remaining: rateLimit.remaining,
-      resetIn: rateLimit.resetIn 
-    };
-  }
-
+): Promise<UniversitySearchResult> => {
   const cacheKey = normalizeKey(name);
 
   // Проверить кэш
   const cached = aiVerifyCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < AI_CACHE_TTL) {
     logger.debug('AI verify cache hit', { name });
-    return { 
-      result: cached.result, 
-      rateLimited: false, 
-      remaining: rateLimit.remaining 
-    };
+    return cached.result;
   }
 
   logger.info('Verifying university via AI', { name, ip: clientIp });
@@ -234,11 +187,7 @@ export const verifyUniversityWithAI = async (
     // Логировать поиск
     await logSearch(name, 'ai_verify', result.found, clientIp);
 
-    return { 
-      result, 
-      rateLimited: false, 
-      remaining: rateLimit.remaining 
-    };
+    return result;
   } catch (err) {
     logger.error('AI verification failed', { name, error: err });
     throw err;
@@ -330,11 +279,9 @@ const logSearch = async (
 export const getSearchStats = (): {
   dbCacheSize: number;
   aiCacheSize: number;
-  rateLimitEntries: number;
 } => {
   return {
     dbCacheSize: dbSearchCache.size,
     aiCacheSize: aiVerifyCache.size,
-    rateLimitEntries: rateLimitMap.size,
   };
 };
@@ -0,0 +1,353 @@
+/**
+ * Source Schedules Service - расписание проверки источников
+ *
+ * У каждого источника свой режим: fixed — проверка по выражению cron (UTC),
+ * adaptive — интервал сокращается, если страница часто меняется, и растёт,
+ * если изменений нет. История берётся из update_logs.changes_detected.
+ */
+
+import { logger } from '../utils/logger.ts';
+import { query, queryOne, transaction } from '../config/database.ts';
+import { CronError, getNextCronRun } from '../utils/cron.ts';
+import { PARSE_JOB_CONFIG, PARSE_JOB_PRIORITY } from './parse-jobs.service.ts';
+import type { SourcePublishMode, SourceRefreshMode, SourceType, UniversitySourceRow } from '../types/database.ts';
+import type { PoolClient } from 'postgres';
+
+/**
+ * Параметры адаптивного интервала
+ */
+export const ADAPTIVE_SCHEDULE_CONFIG = {
+  /** Сколько последних проверок учитывать */
+  window: 10,
+  /** Минимум проверок без изменений, чтобы увеличить интервал */
+  minSamples: 3,
+  /** Доля проверок с изменениями, при которой интервал сокращается */
+  shortenAtRate: 0.5,
+  shortenFactor: 0.5,
+  lengthenFactor: 1.5,
+  /** Границы, которые может задать администратор (минуты) */
+  minAllowedMinutes: 5,
+  maxAllowedMinutes: 90 * 24 * 60,
+};
+
+/**
+ * Ошибка настройки расписания
+ */
+export class SourceScheduleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_MODE' | 'INVALID_CRON' | 'INVALID_INTERVAL' | 'INVALID_PUBLISH_MODE' | 'NOT_FOUND'
+  ) {
+    super(message);
+    this.name = 'SourceScheduleError';
+  }
+}
+
+/**
+ * Расписание источника для админки
+ */
+export interface SourceSchedule {
+  id: string;
+  url: string;
+  sourceType: SourceType;
+  isActive: boolean;
+  mode: SourceRefreshMode;
+  cron: string | null;
+  intervalMinutes: number;
+  minIntervalMinutes: number;
+  maxIntervalMinutes: number;
+  lastCheckedAt: string | null;
+  nextCheckAt: string | null;
+  /** Проверок в окне адаптации и сколько из них нашли изменения */
+  recentChecks: number;
+  recentChanges: number;
+  /** HTTP-статус последней загрузки главной страницы (null — сетевая ошибка) */
+  lastHttpStatus: number | null;
+  lastHttpStatusAt: string | null;
+  /** review — результаты парсинга ждут проверки администратором */
+  publishMode: SourcePublishMode;
+}
+
+/**
+ * Изменение расписания (незаданные поля не меняются)
+ */
+export interface SourceScheduleInput {
+  mode?: SourceRefreshMode;
+  cron?: string | null;
+  intervalMinutes?: number;
+  minIntervalMinutes?: number;
+  maxIntervalMinutes?: number;
+  publishMode?: SourcePublishMode;
+}
+
+type SourceScheduleRow = UniversitySourceRow & { recent_checks: number; recent_changes: number };
+
+const rowToSchedule = (row: SourceScheduleRow): SourceSchedule => ({
+  id: row.id,
+  url: row.url,
+  sourceType: row.source_type,
+  isActive: row.is_active,
+  mode: row.refresh_mode,
+  cron: row.refresh_cron,
+  intervalMinutes: row.refresh_interval_minutes,
+  minIntervalMinutes: row.refresh_min_minutes,
+  maxIntervalMinutes: row.refresh_max_minutes,
+  lastCheckedAt: row.last_checked_at?.toISOString() ?? null,
+  nextCheckAt: row.next_check_at?.toISOString() ?? null,
+  recentChecks: row.recent_checks ?? 0,
+  recentChanges: row.recent_changes ?? 0,
+  lastHttpStatus: row.last_http_status,
+  lastHttpStatusAt: row.last_http_status_at?.toISOString() ?? null,
+  publishMode: row.publish_mode,
+});
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Новый адаптивный интервал по истории проверок
+ * @param current - текущий интервал (минуты)
+ * @param recentChanges - были ли изменения, от последней проверки к ранним
+ * @param bounds - границы интервала источника
+ */
+export const computeAdaptiveInterval = (
+  current: number,
+  recentChanges: boolean[],
+  bounds: { min: number; max: number }
+): number => {
+  const history = recentChanges.slice(0, ADAPTIVE_SCHEDULE_CONFIG.window);
+  const changes = history.filter(Boolean).length;
+  let next = current;
+
+  if (history.length > 0 && changes / history.length >= ADAPTIVE_SCHEDULE_CONFIG.shortenAtRate) {
+    next = current * ADAPTIVE_SCHEDULE_CONFIG.shortenFactor;
+  } else if (changes === 0 && history.length >= ADAPTIVE_SCHEDULE_CONFIG.minSamples) {
+    next = current * ADAPTIVE_SCHEDULE_CONFIG.lengthenFactor;
+  }
+
+  return Math.round(clamp(next, bounds.min, bounds.max));
+};
+
+/**
+ * Время следующей проверки
+ * @param from - для adaptive — время последней проверки, для fixed — текущее время
+ */
+export const computeNextCheckAt = (
+  policy: { mode: SourceRefreshMode; cron: string | null; intervalMinutes: number },
+  from: Date
+): Date => {
+  if (policy.mode === 'fixed' && policy.cron) {
+    const next = getNextCronRun(policy.cron, from);
+    if (next) return next;
+  }
+  return new Date(from.getTime() + policy.intervalMinutes * 60_000);
+};
+
+/**
+ * Источники с расписанием и статистикой последних проверок
+ * @param where - условие на university_sources s
+ */
+const selectSchedules = (where: string, params: unknown[]): Promise<SourceScheduleRow[]> =>
+  query<SourceScheduleRow>(
+    `SELECT s.*, COALESCE(h.checks, 0)::int AS recent_checks, COALESCE(h.changes, 0)::int AS recent_changes
+     FROM university_sources s
+     LEFT JOIN LATERAL (
+       SELECT COUNT(*) AS checks, COUNT(*) FILTER (WHERE recent.changes_detected) AS changes
+       FROM (
+         SELECT changes_detected FROM update_logs l
+         WHERE l.source_id = s.id AND l.status IN ('success', 'skipped')
+         ORDER BY l.created_at DESC
+         LIMIT ${ADAPTIVE_SCHEDULE_CONFIG.window}
+       ) recent
+     ) h ON true
+     WHERE ${where}
+     ORDER BY s.created_at`,
+    params
+  );
+
+/**
+ * Расписания источников университета
+ */
+export const listSourceSchedules = async (universityId: string): Promise<SourceSchedule[]> => {
+  const rows = await selectSchedules('s.university_id = $1', [universityId]);
+  return rows.map(rowToSchedule);
+};
+
+/**
+ * Проверить и нормализовать итоговое расписание
+ * @throws SourceScheduleError
+ */
+const validatePolicy = (row: UniversitySourceRow, input: SourceScheduleInput) => {
+  const mode = input.mode ?? row.refresh_mode;
+  if (mode !== 'fixed' && mode !== 'adaptive') {
+    throw new SourceScheduleError('mode must be "fixed" or "adaptive"', 'INVALID_MODE');
+  }
+
+  const cron = input.cron !== undefined ? (input.cron?.trim() || null) : row.refresh_cron;
+  if (mode === 'fixed') {
+    if (!cron) {
+      throw new SourceScheduleError('cron is required for fixed schedule', 'INVALID_CRON');
+    }
+    try {
+      if (!getNextCronRun(cron, new Date())) {
+        throw new SourceScheduleError('cron expression never fires', 'INVALID_CRON');
+      }
+    } catch (err) {
+      if (err instanceof CronError) {
+        throw new SourceScheduleError(err.message, 'INVALID_CRON');
+      }
+      throw err;
+    }
+  }
+
+  const min = input.minIntervalMinutes ?? row.refresh_min_minutes;
+  const max = input.maxIntervalMinutes ?? row.refresh_max_minutes;
+  const { minAllowedMinutes, maxAllowedMinutes } = ADAPTIVE_SCHEDULE_CONFIG;
+  for (const value of [min, max, input.intervalMinutes ?? row.refresh_interval_minutes]) {
+    if (!Number.isInteger(value) || value < minAllowedMinutes || value > maxAllowedMinutes) {
+      throw new SourceScheduleError(
+        `Intervals must be whole minutes between ${minAllowedMinutes} and ${maxAllowedMinutes}`,
+        'INVALID_INTERVAL'
+      );
+    }
+  }
+  if (min > max) {
+    throw new SourceScheduleError('Minimum interval exceeds maximum', 'INVALID_INTERVAL');
+  }
+  if (input.intervalMinutes !== undefined && (input.intervalMinutes < min || input.intervalMinutes > max)) {
+    throw new SourceScheduleError('Interval must be within minimum and maximum', 'INVALID_INTERVAL');
+  }
+
+  // Текущий интервал подтягивается в новые границы
+  const intervalMinutes = clamp(input.intervalMinutes ?? row.refresh_interval_minutes, min, max);
+
+  const publishMode = input.publishMode ?? row.publish_mode;
+  if (publishMode !== 'auto' && publishMode !== 'review') {
+    throw new SourceScheduleError('publish_mode must be "auto" or "review"', 'INVALID_PUBLISH_MODE');
+  }
+
+  return { mode, cron, intervalMinutes, min, max, publishMode };
+};
+
+/**
+ * Изменить расписание источника и пересчитать следующую проверку
+ * @throws SourceScheduleError при неверных параметрах или если источника нет
+ */
+export const updateSourceSchedule = async (
+  universityId: string,
+  sourceId: string,
+  input: SourceScheduleInput
+): Promise<SourceSchedule> => {
+  await transaction(async (client: PoolClient) => {
+    const result = await client.queryObject<UniversitySourceRow>(
+      'SELECT * FROM university_sources WHERE id = $1 AND university_id = $2 FOR UPDATE',
+      [sourceId, universityId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw new SourceScheduleError('Source not found', 'NOT_FOUND');
+    }
+
+    const policy = validatePolicy(row, input);
+    const nextCheckAt = computeNextCheckAt(
+      policy,
+      policy.mode === 'fixed' ? new Date() : (row.last_checked_at ?? new Date())
+    );
+
+    await client.queryObject(
+      `UPDATE university_sources
+       SET refresh_mode = $2, refresh_cron = $3, refresh_interval_minutes = $4,
+           refresh_min_minutes = $5, refresh_max_minutes = $6, next_check_at = $7, publish_mode = $8
+       WHERE id = $1`,
+      [sourceId, policy.mode, policy.cron, policy.intervalMinutes, policy.min, policy.max, nextCheckAt, policy.publishMode]
+    );
+  });
+
+  logger.info('Source schedule updated', { sourceId, ...input });
+  const [row] = await selectSchedules('s.id = $1', [sourceId]);
+  return rowToSchedule(row);
+};
+
+/**
+ * Назначить следующую проверку после выполненного задания
+ * @param options.adapt - пересчитать адаптивный интервал по истории (только для обычных проверок)
+ * @returns новый интервал и время следующей проверки
+ */
+export const scheduleNextSourceCheck = async (
+  sourceId: string,
+  options: { adapt?: boolean } = {}
+): Promise<{ intervalMinutes: number; nextCheckAt: Date } | null> => {
+  const row = await queryOne<UniversitySourceRow>('SELECT * FROM university_sources WHERE id = $1', [sourceId]);
+  if (!row) return null;
+
+  let intervalMinutes = row.refresh_interval_minutes;
+  if (row.refresh_mode === 'adaptive' && options.adapt) {
+    const history = await query<{ changes_detected: boolean }>(
+      `SELECT changes_detected FROM update_logs
+       WHERE source_id = $1 AND status IN ('success', 'skipped')
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [sourceId, ADAPTIVE_SCHEDULE_CONFIG.window]
+    );
+    intervalMinutes = computeAdaptiveInterval(
+      intervalMinutes,
+      history.map((h) => h.changes_detected),
+      { min: row.refresh_min_minutes, max: row.refresh_max_minutes }
+    );
+  }
+
+  const nextCheckAt = computeNextCheckAt(
+    { mode: row.refresh_mode, cron: row.refresh_cron, intervalMinutes },
+    new Date()
+  );
+
+  await query(
+    'UPDATE university_sources SET refresh_interval_minutes = $2, next_check_at = $3 WHERE id = $1',
+    [sourceId, intervalMinutes, nextCheckAt]
+  );
+
+  if (intervalMinutes !== row.refresh_interval_minutes) {
+    logger.info('Adaptive refresh interval changed', {
+      sourceId,
+      from: row.refresh_interval_minutes,
+      to: intervalMinutes,
+    });
+  }
+  return { intervalMinutes, nextCheckAt };
+};
+
+/**
+ * Поставить в очередь проверки источников, которым пора
+ * next_check_at сразу сдвигается на интервал источника, чтобы отменённое или
+ * проваленное задание не ставилось заново при каждом обходе; после выполнения
+ * задания время уточняет scheduleNextSourceCheck.
+ * @returns сколько заданий добавлено
+ */
+export const enqueueDueSourceChecks = async (): Promise<number> => {
+  const rows = await query<{ id: string }>(
+    `WITH due AS (
+       SELECT DISTINCT ON (s.university_id) s.id, s.university_id
+       FROM university_sources s
+       JOIN universities u ON u.id = s.university_id
+       WHERE s.is_active = true AND u.is_active = true
+         AND (s.next_check_at IS NULL OR s.next_check_at <= NOW())
+       ORDER BY s.university_id, s.next_check_at ASC NULLS FIRST
+     ), queued AS (
+       INSERT INTO parse_jobs (university_id, source_id, job_type, priority, max_attempts)
+       SELECT university_id, id, 'check', $1, $2 FROM due
+       ON CONFLICT (university_id) WHERE status IN ('pending', 'running') DO NOTHING
+       RETURNING source_id
+     )
+     UPDATE university_sources s
+     SET next_check_at = NOW() + s.refresh_interval_minutes * INTERVAL '1 minute'
+     FROM queued
+     WHERE s.id = queued.source_id
+     RETURNING s.id`,
+    [PARSE_JOB_PRIORITY.scheduled, PARSE_JOB_CONFIG.maxAttempts]
+  );
+
+  if (rows.length > 0) {
+    logger.info('Due source checks enqueued', { count: rows.length });
+  }
+  return rows.length;
+};
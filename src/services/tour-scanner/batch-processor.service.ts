@@ -4,7 +4,7 @@
 
 import { query } from '../../../lib/db.ts';
 import { getWebScraperService } from './web-scraper.service.ts';
-import { getOllamaService } from './ollama.service.ts';
+import { getTourLlmService } from './llm.service.ts';
 import { getLinkValidatorService } from './link-validator.service.ts';
 import { getTourService } from '../tour.service.ts';
 import type { ThreeDTourProvider, ThreeDTourSource } from '../../types/university.ts';
@@ -51,7 +51,7 @@ interface UniversityRecord {
  */
 export class BatchProcessorService {
   private scraper = getWebScraperService();
-  private ollama = getOllamaService();
+  private llm = getTourLlmService();
   private validator = getLinkValidatorService();
   private tourService = getTourService();
 
@@ -198,10 +198,10 @@ export class BatchProcessorService {
 
       if (useAI) {
         console.log('   🤖 AI анализ...');
-        const ollamaAvailable = await this.ollama.checkAvailability();
+        const llmAvailable = await this.llm.checkAvailability();
         
-        if (ollamaAvailable) {
-          const aiResult = await this.ollama.findTourLinks(html, university.name);
+        if (llmAvailable) {
+          const aiResult = await this.llm.findTourLinks(html, university.name);
           aiTours = aiResult.found_tours
             .filter(t => t.source !== 'other')
             .map(t => ({
@@ -211,7 +211,7 @@ export class BatchProcessorService {
               longitude: t.longitude,
             }));
         } else {
-          console.log('   ⚠️  Ollama недоступна, используем только regex');
+          console.log('   ⚠️  LLM недоступна, используем только regex');
         }
       }
 
@@ -250,7 +250,7 @@ export class BatchProcessorService {
       // 6. Извлечь координаты
       for (const link of validated) {
         if (!link.latitude || !link.longitude) {
-          const coords = await this.ollama.extractCoordinates(link.url);
+          const coords = await this.llm.extractCoordinates(link.url);
           if (coords) {
             link.latitude = coords.lat;
             link.longitude = coords.lng;
@@ -3,7 +3,7 @@
  */
 
 export { WebScraperService, getWebScraperService } from './web-scraper.service.ts';
-export { OllamaService, getOllamaService } from './ollama.service.ts';
-export type { FoundTour, TourAnalysisResult } from './ollama.service.ts';
+export { TourLlmService, getTourLlmService } from './llm.service.ts';
+export type { FoundTour, TourAnalysisResult } from './llm.service.ts';
 export { LinkValidatorService, getLinkValidatorService } from './link-validator.service.ts';
 export type { LinkValidationResult } from './link-validator.service.ts';
@@ -1,8 +1,9 @@
 /**
- * Сервис для AI анализа через Ollama
+ * Сервис для AI анализа страниц через LLM (провайдер задачи parsing)
  */
 
 import type { ThreeDTourProvider } from '../../types/university.ts';
+import { callLlm, checkLlmHealth } from '../../utils/llm/index.ts';
 
 /**
  * Найденный тур
@@ -31,27 +32,14 @@ export interface TourAnalysisResult {
 }
 
 /**
- * Сервис для работы с Ollama AI
+ * Сервис AI анализа для поиска 3D-туров
  */
-export class OllamaService {
-  private baseUrl: string;
-  private model: string;
-
-  constructor(baseUrl?: string, model?: string) {
-    this.baseUrl = baseUrl || Deno.env.get('OLLAMA_URL') || 'http://localhost:11434';
-    this.model = model || Deno.env.get('OLLAMA_MODEL') || 'llama2';
-  }
-
+export class TourLlmService {
   /**
-   * Проверить доступность Ollama
+   * Проверить доступность LLM
    */
-  async checkAvailability(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/tags`);
-      return response.ok;
-    } catch {
-      return false;
-    }
+  checkAvailability(): Promise<boolean> {
+    return checkLlmHealth('parsing');
   }
 
   /**
@@ -105,27 +93,11 @@ ${truncatedHtml}
 }`;
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: this.model,
-          prompt,
-          stream: false,
-          options: {
-            temperature: 0.1,
-            num_predict: 2000,
-          },
-        }),
+      const responseText = await callLlm('parsing', prompt, {
+        temperature: 0.1,
+        maxTokens: 2000,
       });
 
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const responseText = data.response;
-
       // Попытаться извлечь JSON из ответа
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
@@ -147,7 +119,7 @@ ${truncatedHtml}
         analysis: responseText.slice(0, 200),
       };
     } catch (error) {
-      console.error('Ollama error:', error);
+      console.error('LLM error:', error);
       return {
         found_tours: [],
         best_candidate: null,
@@ -189,14 +161,14 @@ ${truncatedHtml}
 }
 
 // Singleton instance
-let ollamaInstance: OllamaService | null = null;
+let llmInstance: TourLlmService | null = null;
 
 /**
  * Получить экземпляр сервиса
  */
-export const getOllamaService = (): OllamaService => {
-  if (!ollamaInstance) {
-    ollamaInstance = new OllamaService();
+export const getTourLlmService = (): TourLlmService => {
+  if (!llmInstance) {
+    llmInstance = new TourLlmService();
   }
-  return ollamaInstance;
+  return llmInstance;
 };
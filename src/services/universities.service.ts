@@ -8,12 +8,105 @@ import type {
   CreateUpdateLogInput,
 } from '../types/database.ts';
 import type { University } from '../types/university.ts';
+import { markManualChanges } from './provenance.service.ts';
+import {
+  buildKeysetCondition,
+  buildKeysetOrder,
+  decodeCursor,
+  isCursorValueOfType,
+  takeKeysetPage,
+  type KeysetCursor,
+  type SortDirection,
+} from '../utils/keyset.ts';
+import { BASE_CURRENCY, convertTuition, type DisplayCurrency } from '../utils/currency.ts';
+import { getExchangeRates } from './exchange-rates.service.ts';
+
+/**
+ * Поле сортировки списка университетов
+ */
+export type UniversitySort =
+  | 'name'
+  | 'founded_year'
+  | 'student_count'
+  | 'tuition'
+  | 'ranking'
+  | 'completeness'
+  | 'updated_at';
+
+/**
+ * Направление по умолчанию и тип значения для параметра курсора
+ */
+export const UNIVERSITY_SORTS: Record<UniversitySort, { direction: SortDirection; cast: string }> = {
+  name: { direction: 'asc', cast: 'text' },
+  founded_year: { direction: 'asc', cast: 'int' },
+  student_count: { direction: 'desc', cast: 'int' },
+  tuition: { direction: 'asc', cast: 'int' },
+  ranking: { direction: 'asc', cast: 'int' },
+  completeness: { direction: 'desc', cast: 'int' },
+  updated_at: { direction: 'desc', cast: 'timestamptz' },
+};
+
+/**
+ * Ошибка в параметрах сортировки или курсора
+ */
+export class UniversityListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UniversityListError';
+  }
+}
+
+/**
+ * Сортировка и позиция для keyset-пагинации
+ */
+export interface UniversityListSort {
+  sort: UniversitySort;
+  direction: SortDirection;
+  /** Позиция после последней строки предыдущей страницы */
+  cursor: KeysetCursor | null;
+}
+
+/**
+ * Ключ сортировки, к которому привязан курсор
+ */
+export const universitySortKey = (sort: UniversitySort, direction: SortDirection): string =>
+  `${sort}:${direction}`;
+
+/**
+ * Разобрать параметры sort, order и cursor
+ * @throws UniversityListError при неизвестной сортировке, чужом курсоре
+ *   или значении курсора не того типа
+ */
+export const parseUniversityListSort = (params: URLSearchParams): UniversityListSort => {
+  const sort = params.get('sort') || 'name';
+  if (!Object.hasOwn(UNIVERSITY_SORTS, sort)) {
+    throw new UniversityListError('Invalid sort');
+  }
+
+  const order = params.get('order');
+  if (order && order !== 'asc' && order !== 'desc') {
+    throw new UniversityListError('Invalid order');
+  }
+  const direction = (order as SortDirection | null) ?? UNIVERSITY_SORTS[sort as UniversitySort].direction;
+
+  const rawCursor = params.get('cursor');
+  let cursor: KeysetCursor | null = null;
+  if (rawCursor) {
+    cursor = decodeCursor(rawCursor, universitySortKey(sort as UniversitySort, direction));
+    if (!cursor || !isCursorValueOfType(cursor.value, UNIVERSITY_SORTS[sort as UniversitySort].cast)) {
+      throw new UniversityListError('Invalid cursor');
+    }
+  }
+
+  return { sort: sort as UniversitySort, direction, cursor };
+};
 
 /**
  * Параметры пагинации
  */
-interface PaginationParams {
+interface PaginationParams extends Partial<UniversityListSort> {
   limit?: number;
+  /** Игнорируется, если передан cursor */
   offset?: number;
 }
 
@@ -24,6 +117,8 @@ interface SearchParams extends PaginationParams {
   search?: string;
   country?: string;
   city?: string;
+  /** Валюта tuition_min/tuition_max в ответе (по умолчанию USD) */
+  currency?: DisplayCurrency;
 }
 
 /**
@@ -34,30 +129,58 @@ interface PaginatedResult<T> {
   total: number;
   limit: number;
   offset: number;
+  /** Курсор следующей страницы, null — страница последняя */
+  next_cursor: string | null;
 }
 
 /**
  * Расширенная строка университета с данными из профиля
  */
 export interface UniversityRowExtended extends UniversityRow {
+  founded_year: number | null;
+  student_count: number | null;
   programs_count: number;
   completeness: number;
   ranking_world: number | null;
+  /** Диапазон стоимости в год в валюте запроса */
   tuition_min: number | null;
   tuition_max: number | null;
 }
 
+/**
+ * Список университетов и валюта стоимости в нём
+ */
+interface UniversityListResult extends PaginatedResult<UniversityRowExtended> {
+  currency: DisplayCurrency;
+}
+
+/**
+ * Выражения сортировки над строкой списка (алиас s)
+ * Время обрезается до миллисекунд — с такой точностью оно попадает в курсор.
+ */
+const SORT_EXPRESSIONS: Record<UniversitySort, string> = {
+  name: 's.name',
+  founded_year: 's.founded_year',
+  student_count: 's.student_count',
+  tuition: 's.tuition_min',
+  ranking: 's.ranking_world',
+  completeness: 's.completeness',
+  updated_at: "date_trunc('milliseconds', s.updated_at)",
+};
+
 /**
  * Получить список университетов
- * @param params - параметры пагинации и поиска
+ * @param params - параметры пагинации, сортировки, поиска и валюты
  * @returns список университетов с пагинацией
  */
 export const getAllUniversities = async (
   params: SearchParams = {}
-): Promise<PaginatedResult<UniversityRowExtended>> => {
-  const { limit = 20, offset = 0, search, country, city } = params;
+): Promise<UniversityListResult> => {
+  const { limit = 20, search, country, city, sort = 'name', cursor = null, currency = BASE_CURRENCY } = params;
+  const direction = params.direction ?? UNIVERSITY_SORTS[sort].direction;
+  const offset = cursor ? 0 : params.offset ?? 0;
 
-  logger.debug('Fetching universities', { limit, offset, search, country, city });
+  logger.debug('Fetching universities', { limit, offset, search, country, city, sort, direction });
 
   try {
     // Базовый запрос
@@ -93,9 +216,23 @@ export const getAllUniversities = async (
     );
     const total = parseInt(countResult[0]?.count ?? '0', 10);
 
-    // Получить данные с пагинацией и данными из профиля
-    const data = await query<UniversityRowExtended>(
-      `SELECT 
+    // Курсор и пагинация добавляются после параметров фильтров
+    const pageParams = [...queryParams];
+    const param = (value: unknown): string => {
+      pageParams.push(value);
+      return `$${pageParams.length}`;
+    };
+
+    const sortExpr = SORT_EXPRESSIONS[sort];
+    const keysetClause = cursor
+      ? `WHERE ${buildKeysetCondition(sortExpr, 's.id', UNIVERSITY_SORTS[sort].cast, direction, cursor, param)}`
+      : '';
+
+    // Получить данные с пагинацией и данными из профиля (на одну строку больше — для курсора)
+    const rows = await query<UniversityRowExtended & { sort_value: unknown }>(
+      `SELECT s.*, ${sortExpr} AS sort_value
+       FROM (
+        SELECT 
         u.id, 
         u.name, 
         u.name_en, 
@@ -106,6 +243,8 @@ export const getAllUniversities = async (
         u.is_active, 
         u.created_at, 
         u.updated_at,
+        u.founded_year,
+        u.student_count,
         COALESCE(jsonb_array_length(p.profile_json->'programs'), 0)::int as programs_count,
         COALESCE((p.profile_json->'metadata'->>'completeness_score')::int, 0) as completeness,
         (
@@ -115,16 +254,8 @@ export const getAllUniversities = async (
           ) as r
           WHERE r->>'source' ILIKE '%QS World%' OR r->>'source' ILIKE '%QS%World%'
         ) as ranking_world,
-        (
-          SELECT MIN((prog->'tuition'->>'amount')::numeric)::int
-          FROM jsonb_array_elements(COALESCE(p.profile_json->'programs', '[]'::jsonb)) as prog
-          WHERE (prog->'tuition'->>'amount') IS NOT NULL AND (prog->'tuition'->>'amount')::numeric > 0
-        ) as tuition_min,
-        (
-          SELECT MAX((prog->'tuition'->>'amount')::numeric)::int
-          FROM jsonb_array_elements(COALESCE(p.profile_json->'programs', '[]'::jsonb)) as prog
-          WHERE (prog->'tuition'->>'amount') IS NOT NULL
-        ) as tuition_max
+        u.min_tuition as tuition_min,
+        u.max_tuition as tuition_max
        FROM universities u
        LEFT JOIN LATERAL (
          SELECT profile_json 
@@ -134,14 +265,27 @@ export const getAllUniversities = async (
          LIMIT 1
        ) p ON true
        ${whereClause}
-       ORDER BY u.name ASC
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, limit, offset]
+       ) s
+       ${keysetClause}
+       ORDER BY ${buildKeysetOrder(sortExpr, 's.id', direction)}
+       LIMIT ${param(limit + 1)} OFFSET ${param(offset)}`,
+      pageParams
     );
 
+    const { data, nextCursor } = takeKeysetPage(rows, limit, universitySortKey(sort, direction));
+
+    // Колонки стоимости хранятся в USD
+    if (currency !== BASE_CURRENCY) {
+      const rates = await getExchangeRates();
+      for (const row of data) {
+        row.tuition_min = convertTuition(row.tuition_min, BASE_CURRENCY, currency, rates);
+        row.tuition_max = convertTuition(row.tuition_max, BASE_CURRENCY, currency, rates);
+      }
+    }
+
     logger.info('Universities fetched', { count: data.length, total });
 
-    return { data, total, limit, offset };
+    return { data, total, limit, offset, next_cursor: nextCursor, currency };
   } catch (err) {
     logger.error('Failed to fetch universities', err);
     throw err;
@@ -272,14 +416,16 @@ export const updateUniversityProfile = async (
 
   try {
     // Получить текущую версию
-    const currentVersion = await queryOne<{ version: number }>(
-      `SELECT COALESCE(MAX(version), 0) as version
+    const current = await queryOne<Pick<UniversityProfileRow, 'profile_json' | 'field_provenance' | 'version'>>(
+      `SELECT profile_json, field_provenance, version
        FROM university_profiles
-       WHERE university_id = $1`,
+       WHERE university_id = $1
+       ORDER BY version DESC
+       LIMIT 1`,
       [id]
     );
 
-    const newVersion = (currentVersion?.version ?? 0) + 1;
+    const newVersion = (current?.version ?? 0) + 1;
 
     // Обновить timestamp в профиле
     const updatedProfile: University = {
@@ -288,12 +434,19 @@ export const updateUniversityProfile = async (
       updated_at: new Date().toISOString(),
     };
 
+    // Изменённые поля считаются ручной правкой
+    const provenance = markManualChanges(
+      current?.profile_json ?? {},
+      updatedProfile,
+      current?.field_provenance ?? {}
+    );
+
     // Вставить новую версию профиля
     const result = await queryOne<UniversityProfileRow>(
-      `INSERT INTO university_profiles (university_id, profile_json, language, version)
-       VALUES ($1, $2, 'ru', $3)
-       RETURNING id, university_id, profile_json, language, version, created_at`,
-      [id, JSON.stringify(updatedProfile), newVersion]
+      `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+       VALUES ($1, $2, $3, 'ru', $4)
+       RETURNING id, university_id, profile_json, field_provenance, language, version, created_at`,
+      [id, JSON.stringify(updatedProfile), JSON.stringify(provenance), newVersion]
     );
 
     if (!result) {
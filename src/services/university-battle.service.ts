@@ -1,21 +1,60 @@
 /**
  * Сервис для сравнения университетов (Battle Mode)
+ * Баллы считаются по данным профиля (battle-scoring.service.ts), LLM пишет только объяснения
  */
 
 import { logger } from '../utils/logger.ts';
-import { callOllamaForJson } from '../utils/ollama.client.ts';
+import { callLlmForJson } from '../utils/llm/index.ts';
 import { queryOne } from '../config/database.ts';
 import type { University } from '../types/university.ts';
+import {
+  BATTLE_CRITERIA,
+  BATTLE_CRITERIA_LABELS,
+  type BattleCriterionKey,
+  type BattleScoringInput,
+  type BattleWeights,
+  DEFAULT_BATTLE_WEIGHTS,
+  formatBattleWeights,
+  scoreCriterion,
+  weightedTotal,
+} from './battle-scoring.service.ts';
+
+/**
+ * Допустимое число университетов в одном сравнении
+ */
+export const MIN_BATTLE_UNIVERSITIES = 2;
+export const MAX_BATTLE_UNIVERSITIES = 5;
+
+/**
+ * Метки университетов в промпте (A, B, C...)
+ */
+const UNIVERSITY_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+/**
+ * Балл университета по критерию
+ */
+export interface CriterionScore {
+  universityId: string;
+  /** 0–10 по формуле критерия, 0 при отсутствии данных */
+  score: number;
+  /** Место по критерию (1 — лучший, равные баллы делят место) */
+  rank: number;
+  /** Данные, из которых получен балл (null — данных нет) */
+  basis: string | null;
+}
 
 /**
  * Критерий сравнения
  */
 export interface ComparisonCriterion {
+  key: BattleCriterionKey;
   name: string;
   nameRu: string;
-  scoreA: number;
-  scoreB: number;
-  winner: 'A' | 'B' | 'Tie';
+  weight: number;
+  /** Баллы в порядке BattleResult.universities */
+  scores: CriterionScore[];
+  /** Университеты с лучшим баллом (больше одного — ничья) */
+  winnerIds: string[];
   explanation: string;
 }
 
@@ -24,11 +63,21 @@ export interface ComparisonCriterion {
  */
 export interface BattleUniversity {
   id: string;
+  /** Метка в промпте (A, B, C...) */
+  label: string;
   name: string;
   name_en?: string;
   country: string;
   city: string;
+  /** Взвешенный итог 0–10 */
   totalScore: number;
+  /** Итоговое место (1 — победитель) */
+  rank: number;
+  /** Число критериев, где университет единолично первый */
+  wins: number;
+  /** Версия профиля, по которой посчитаны баллы */
+  profileVersion: number;
+  strengths: string[];
   // Расширенные данные для отображения
   description?: string;
   website_url?: string;
@@ -49,16 +98,19 @@ export interface BattleUniversity {
  * Результат сравнения
  */
 export interface BattleResult {
-  universityA: BattleUniversity;
-  universityB: BattleUniversity;
+  /** Университеты в порядке запроса */
+  universities: BattleUniversity[];
+  /** Критерии с ненулевым весом, по которым есть данные хотя бы у одного университета */
   criteria: ComparisonCriterion[];
-  overallWinner: 'A' | 'B' | 'Tie';
-  strengthsA: string[];
-  strengthsB: string[];
+  weights: BattleWeights;
+  /** ID университетов по итоговому месту */
+  ranking: string[];
+  overallWinner: string;
   recommendation: string;
-  winsA: number;
-  winsB: number;
+  /** Число критериев с разделённым первым местом */
   ties: number;
+  /** false — LLM не ответил, объяснений и рекомендации нет */
+  hasNarrative: boolean;
 }
 
 /**
@@ -71,43 +123,40 @@ const CACHE_TTL = 1000 * 60 * 60 * 24; // 24 часа
  * Rate limiter для сравнений
  */
 const rateLimitMap = new Map<string, number>();
-const RATE_LIMIT_COOLDOWN = 1000; // 1 секунда между запросами на одну пару
+const RATE_LIMIT_COOLDOWN = 1000; // 1 секунда между запросами на один набор
 
 /**
- * Генерация ключа кэша
+ * Генерация ключа кэша (не зависит от порядка университетов)
  */
-const getCacheKey = (id1: string, id2: string, language: string): string => {
-  const sortedIds = [id1, id2].sort();
-  return `${sortedIds[0]}:${sortedIds[1]}:${language}`;
-};
+const getCacheKey = (ids: string[], language: string, weights: BattleWeights): string =>
+  `${[...ids].sort().join(':')}:${language}:${formatBattleWeights(weights)}`;
 
 /**
- * Получить университет из БД
+ * Получить университет из БД вместе с колонками стоимости и версией профиля
  */
-const getUniversityById = async (id: string): Promise<University | null> => {
-  const result = await queryOne<{ profile_json: University }>(
-    `SELECT up.profile_json 
+const getUniversityById = async (id: string): Promise<(BattleScoringInput & { version: number }) | null> => {
+  const result = await queryOne<{
+    profile_json: University;
+    version: number;
+    min_tuition: number | null;
+    max_tuition: number | null;
+  }>(
+    `SELECT up.profile_json, up.version, u.min_tuition, u.max_tuition
      FROM university_profiles up
+     JOIN universities u ON u.id = up.university_id
      WHERE up.university_id = $1
      ORDER BY up.version DESC
      LIMIT 1`,
     [id]
   );
-  return result?.profile_json || null;
-};
-
-/**
- * Языковые метки для критериев
- */
-const CRITERIA_LABELS: Record<string, Record<string, string>> = {
-  'Academic Reputation': { ru: 'Академическая репутация', kk: 'Академиялық беделі', en: 'Academic Reputation' },
-  'Teaching Quality': { ru: 'Качество преподавания', kk: 'Оқыту сапасы', en: 'Teaching Quality' },
-  'Research Output': { ru: 'Научная деятельность', kk: 'Ғылыми қызмет', en: 'Research Output' },
-  'International Diversity': { ru: 'Международное разнообразие', kk: 'Халықаралық әртүрлілік', en: 'International Diversity' },
-  'Cost Effectiveness': { ru: 'Соотношение цены и качества', kk: 'Баға мен сапа арақатынасы', en: 'Cost Effectiveness' },
-  'Student Life': { ru: 'Студенческая жизнь', kk: 'Студенттік өмір', en: 'Student Life' },
-  'Career Outcomes': { ru: 'Карьерные перспективы', kk: 'Мансаптық перспективалар', en: 'Career Outcomes' },
-  'Faculty Quality': { ru: 'Качество преподавательского состава', kk: 'Оқытушылар сапасы', en: 'Faculty Quality' },
+  return result
+    ? {
+      profile: result.profile_json,
+      version: result.version,
+      minTuition: result.min_tuition,
+      maxTuition: result.max_tuition,
+    }
+    : null;
 };
 
 /**
@@ -217,107 +266,114 @@ const formatUniversityData = (uni: University): string => {
 };
 
 /**
- * Построить промпт для Ollama
+ * Построить промпт для LLM: объяснить уже посчитанные баллы
  */
-const buildComparisonPrompt = (
-  uniA: University,
-  uniB: University,
+const buildNarrativePrompt = (
+  universities: University[],
+  criteria: ComparisonCriterion[],
+  ranking: string[],
+  ids: string[],
   language: string
 ): string => {
   const langName = language === 'ru' ? 'Russian' : language === 'kk' ? 'Kazakh' : 'English';
+  const labels = UNIVERSITY_LABELS.slice(0, universities.length);
+  const labelList = labels.join(', ');
 
-  const uniAData = formatUniversityData(uniA);
-  const uniBData = formatUniversityData(uniB);
+  const sections = universities.map((uni, i) => `═══════════════════════════════════════════════════════════════
+UNIVERSITY ${labels[i]} - FULL DATA:
+═══════════════════════════════════════════════════════════════
+${formatUniversityData(uni)}`).join('\n\n');
 
-  return `You are an expert university analyst and career advisor. Your task is to provide a COMPREHENSIVE comparison of two universities to help students make the best choice.
+  const scoreLines = criteria.map((c) => {
+    const cells = c.scores.map((s, i) => `${labels[i]}=${s.score} (${s.basis ?? 'no data'})`).join(', ');
+    return `- ${c.key} "${c.name}", weight ${c.weight}: ${cells}`;
+  }).join('\n');
+  const rankingLine = ranking.map((id) => labels[ids.indexOf(id)]).join(' > ');
 
-CRITICAL: Use ONLY the actual data provided. Do NOT guess or make up information.
+  const exampleExplanations = criteria
+    .map((c) => `    "${c.key}": "2-3 предложения: почему баллы именно такие, со ссылкой на данные"`)
+    .join(',\n');
+  const exampleStrengths = labels
+    .map((label) => `    "${label}": ["Детальная сила 1 с конкретикой", "Детальная сила 2", "Детальная сила 3"]`)
+    .join(',\n');
 
-Compare on these criteria (score 1-10 based on the data):
-1. Academic Reputation - based on rankings, accreditations, achievements
-2. Teaching Quality - based on faculty count, student/faculty ratio, programs quality
-3. Research Output - based on research focus, notable alumni, achievements
-4. International Diversity - based on international students %, exchange programs, languages
-5. Cost Effectiveness - based on tuition costs vs rankings/quality
-6. Student Life - based on campus, facilities, student count
-7. Career Outcomes - based on employer reputation, notable alumni
-8. Faculty Quality - based on faculty count, accreditations
+  return `You are an expert university analyst and career advisor. ${universities.length} universities (${labelList}) have ALREADY been scored from their data. Your task is to EXPLAIN the result to a student. Do NOT change or re-score anything.
 
-═══════════════════════════════════════════════════════════════
-UNIVERSITY A - FULL DATA:
-═══════════════════════════════════════════════════════════════
-${uniAData}
+${sections}
 
 ═══════════════════════════════════════════════════════════════
-UNIVERSITY B - FULL DATA:
-═══════════════════════════════════════════════════════════════
-${uniBData}
+COMPUTED SCORES (0-10, source data in brackets):
+${scoreLines}
 
+OVERALL RANKING (weighted): ${rankingLine}
 ═══════════════════════════════════════════════════════════════
 
 INSTRUCTIONS:
-1. For each criterion, analyze the actual data provided above
-2. Give scores 1-10 based on real data, not assumptions
-3. If data is missing for a criterion, score based on available related data
-4. Write ALL text in ${langName}
-5. Be objective and fair
-6. IMPORTANT: Provide DETAILED explanations (2-3 sentences per criterion)
-7. IMPORTANT: The recommendation field must be VERY DETAILED (300-500 characters):
-   - Explain WHO should choose University A (what type of student, goals, priorities)
-   - Explain WHO should choose University B (what type of student, goals, priorities)
-   - Give specific advice based on career goals, budget, international aspirations
-   - Mention specific programs or features that stand out
+1. Explain each criterion's scores using ONLY the data above; mention missing data explicitly
+2. Write ALL text in ${langName}
+3. Be objective and fair
+4. The recommendation must be VERY DETAILED (300-500 characters): WHO should choose each university, considering career goals, budget and international aspirations
 
 Return ONLY valid JSON in this exact format:
 {
-  "criteria": [
-    { "name": "Academic Reputation", "scoreA": 8, "scoreB": 7, "winner": "A", "explanation": "Детальное объяснение с конкретными фактами из данных. Упоминание рейтингов, достижений и аккредитаций..." },
-    { "name": "Teaching Quality", "scoreA": 7, "scoreB": 8, "winner": "B", "explanation": "Детальное объяснение качества преподавания, соотношения студентов и преподавателей..." },
-    { "name": "Research Output", "scoreA": 8, "scoreB": 6, "winner": "A", "explanation": "..." },
-    { "name": "International Diversity", "scoreA": 9, "scoreB": 5, "winner": "A", "explanation": "..." },
-    { "name": "Cost Effectiveness", "scoreA": 6, "scoreB": 8, "winner": "B", "explanation": "..." },
-    { "name": "Student Life", "scoreA": 7, "scoreB": 7, "winner": "Tie", "explanation": "..." },
-    { "name": "Career Outcomes", "scoreA": 8, "scoreB": 7, "winner": "A", "explanation": "..." },
-    { "name": "Faculty Quality", "scoreA": 8, "scoreB": 7, "winner": "A", "explanation": "..." }
-  ],
-  "overallWinner": "A",
-  "strengthsA": ["Детальная сила 1 с конкретикой", "Детальная сила 2", "Детальная сила 3", "Детальная сила 4"],
-  "strengthsB": ["Детальная сила 1 с конкретикой", "Детальная сила 2", "Детальная сила 3", "Детальная сила 4"],
-  "recommendation": "ПОДРОБНАЯ рекомендация (300-500 символов): Университет A подойдёт тем, кто... (конкретные цели, специальности, приоритеты). Университет B лучше выбрать тем, кто... (другие цели и приоритеты). Если ваш бюджет ограничен... Если вы планируете международную карьеру... Для технических специальностей рекомендуем... Для гуманитарных направлений..."
+  "explanations": {
+${exampleExplanations}
+  },
+  "strengths": {
+${exampleStrengths}
+  },
+  "recommendation": "ПОДРОБНАЯ рекомендация (300-500 символов): Университет A подойдёт тем, кто... Университет B лучше выбрать тем, кто..."
 }`;
 };
 
 /**
- * Результат парсинга от Ollama
+ * Результат парсинга ответа LLM
  */
-interface OllamaComparisonResult {
-  criteria: Array<{
-    name: string;
-    scoreA: number;
-    scoreB: number;
-    winner: 'A' | 'B' | 'Tie';
-    explanation: string;
-  }>;
-  overallWinner: 'A' | 'B' | 'Tie';
-  strengthsA: string[];
-  strengthsB: string[];
-  recommendation: string;
+interface LlmNarrativeResult {
+  explanations?: Partial<Record<BattleCriterionKey, string>>;
+  strengths?: Record<string, string[]>;
+  recommendation?: string;
 }
 
 /**
- * Сравнить два университета
- * @param id1 - ID первого университета
- * @param id2 - ID второго университета
+ * Места с учётом равенства (1, 1, 3...)
+ * @param values - значения, больше — лучше
+ */
+const competitionRanks = (values: number[]): number[] =>
+  values.map((v) => 1 + values.filter((other) => other > v).length);
+
+/**
+ * Итоговый порядок: взвешенный итог, затем число побед, затем порядок запроса
+ * @returns индексы университетов от лучшего к худшему
+ */
+export const rankBattleUniversities = (totals: number[], wins: number[]): number[] =>
+  totals
+    .map((_, i) => i)
+    .sort((a, b) => totals[b] - totals[a] || wins[b] - wins[a] || a - b);
+
+/**
+ * Сравнить несколько университетов
+ * @param ids - ID университетов (от 2 до 5, без повторов)
  * @param language - язык результатов (ru | kk | en)
- * @returns результат сравнения
+ * @param weights - веса критериев (по умолчанию все равны)
+ * @param options.refresh - посчитать заново, не читая кэш
+ * @returns результат сравнения с местами по каждому критерию и итоговым рейтингом
  */
 export const compareUniversities = async (
-  id1: string,
-  id2: string,
-  language: string = 'ru'
+  ids: string[],
+  language: string = 'ru',
+  weights: BattleWeights = DEFAULT_BATTLE_WEIGHTS,
+  options: { refresh?: boolean } = {}
 ): Promise<BattleResult> => {
+  if (ids.length < MIN_BATTLE_UNIVERSITIES || ids.length > MAX_BATTLE_UNIVERSITIES) {
+    throw new Error(`Between ${MIN_BATTLE_UNIVERSITIES} and ${MAX_BATTLE_UNIVERSITIES} universities can be compared`);
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Cannot compare university with itself');
+  }
+
   const startTime = Date.now();
-  const cacheKey = getCacheKey(id1, id2, language);
+  const cacheKey = getCacheKey(ids, language, weights);
 
   // Проверить rate limit
   const lastRequest = rateLimitMap.get(cacheKey);
@@ -327,62 +383,82 @@ export const compareUniversities = async (
   rateLimitMap.set(cacheKey, Date.now());
 
   // Проверить кэш
-  const cached = battleCache.get(cacheKey);
+  const cached = options.refresh ? undefined : battleCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    logger.debug('Battle cache hit', { id1, id2, language });
+    logger.debug('Battle cache hit', { ids, language });
     return cached.result;
   }
 
-  logger.info('Comparing universities', { id1, id2, language });
+  logger.info('Comparing universities', { ids, language, weights });
 
   // Получить университеты из БД
-  const [uniA, uniB] = await Promise.all([
-    getUniversityById(id1),
-    getUniversityById(id2),
-  ]);
-
-  if (!uniA) {
-    throw new Error(`University A not found: ${id1}`);
+  const universities = await Promise.all(ids.map((id) => getUniversityById(id)));
+  for (let i = 0; i < universities.length; i++) {
+    if (!universities[i]) {
+      throw new Error(`University ${UNIVERSITY_LABELS[i]} not found: ${ids[i]}`);
+    }
   }
-  if (!uniB) {
-    throw new Error(`University B not found: ${id2}`);
+  const inputs = universities as Array<BattleScoringInput & { version: number }>;
+  const found = inputs.map((input) => input.profile);
+  const labels = UNIVERSITY_LABELS.slice(0, found.length);
+
+  // Посчитать баллы по данным
+  const wins = found.map(() => 0);
+  const scoresByUniversity = found.map((): Partial<Record<BattleCriterionKey, number>> => ({}));
+  let ties = 0;
+
+  const criteria: ComparisonCriterion[] = [];
+  for (const key of BATTLE_CRITERIA) {
+    if (weights[key] <= 0) continue;
+
+    const values = inputs.map((input) => scoreCriterion(key, input));
+    // Данных нет ни у кого — критерий ничего не различает
+    if (values.every((v) => v.basis === null)) continue;
+
+    const ranks = competitionRanks(values.map((v) => v.score));
+    const winnerIds = ids.filter((_, i) => ranks[i] === 1);
+
+    values.forEach((v, i) => { scoresByUniversity[i][key] = v.score; });
+    if (winnerIds.length === 1) {
+      wins[ids.indexOf(winnerIds[0])]++;
+    } else {
+      ties++;
+    }
+
+    criteria.push({
+      key,
+      name: BATTLE_CRITERIA_LABELS[key].en,
+      nameRu: BATTLE_CRITERIA_LABELS[key][language] || BATTLE_CRITERIA_LABELS[key].en,
+      weight: weights[key],
+      scores: ids.map((id, i) => ({
+        universityId: id,
+        score: values[i].score,
+        rank: ranks[i],
+        basis: values[i].basis,
+      })),
+      winnerIds,
+      explanation: '',
+    });
   }
 
-  // Вызвать Ollama для сравнения
-  const prompt = buildComparisonPrompt(uniA, uniB, language);
-  
-  let ollamaResult: OllamaComparisonResult;
+  const totals = scoresByUniversity.map((scores) => weightedTotal(scores, weights));
+  const order = rankBattleUniversities(totals, wins);
+  const ranking = order.map((i) => ids[i]);
+
+  // LLM только объясняет посчитанный результат
+  let narrative: LlmNarrativeResult | null = null;
   try {
-    ollamaResult = await callOllamaForJson<OllamaComparisonResult>(prompt);
+    narrative = await callLlmForJson<LlmNarrativeResult>(
+      'battle',
+      buildNarrativePrompt(found, criteria, ranking, ids, language)
+    );
   } catch (err) {
-    logger.error('Ollama comparison failed', { error: err });
-    throw new Error('Failed to generate comparison. Please try again.');
+    logger.warn('Battle narrative failed, returning scores only', { ids, error: err });
   }
 
-  // Подсчитать статистику
-  let winsA = 0;
-  let winsB = 0;
-  let ties = 0;
-  let totalA = 0;
-  let totalB = 0;
-
-  const criteria: ComparisonCriterion[] = ollamaResult.criteria.map((c) => {
-    if (c.winner === 'A') winsA++;
-    else if (c.winner === 'B') winsB++;
-    else ties++;
-
-    totalA += c.scoreA;
-    totalB += c.scoreB;
-
-    return {
-      name: c.name,
-      nameRu: CRITERIA_LABELS[c.name]?.[language] || c.name,
-      scoreA: c.scoreA,
-      scoreB: c.scoreB,
-      winner: c.winner,
-      explanation: c.explanation,
-    };
-  });
+  for (const criterion of criteria) {
+    criterion.explanation = narrative?.explanations?.[criterion.key] || '';
+  }
 
   /**
    * Вспомогательная функция для форматирования информации о стоимости
@@ -397,75 +473,58 @@ export const compareUniversities = async (
     return undefined;
   };
 
+  const battleUniversities: BattleUniversity[] = found.map((uni, i) => ({
+    id: ids[i],
+    label: labels[i],
+    name: uni.name,
+    name_en: uni.name_en,
+    country: uni.country,
+    city: uni.city,
+    totalScore: totals[i],
+    rank: order.indexOf(i) + 1,
+    wins: wins[i],
+    profileVersion: inputs[i].version,
+    strengths: narrative?.strengths?.[labels[i]] || [],
+    description: uni.description,
+    website_url: uni.website_url,
+    logo_url: uni.logo_url,
+    founded_year: uni.founded_year,
+    student_count: uni.student_count,
+    faculty_count: uni.faculty_count,
+    rankings: (uni.rankings || uni.ratings || []).map((r) => ({
+      source: r.source,
+      rank: r.rank,
+      year: r.year,
+    })),
+    programs_count: uni.programs?.length || 0,
+    tuition_info: formatTuitionInfo(uni),
+    scholarships_count: uni.scholarships?.length || 0,
+    international_percentage: uni.international?.international_percentage,
+    languages: uni.international?.languages_of_instruction,
+    accreditations: uni.accreditations,
+  }));
+
   const result: BattleResult = {
-    universityA: {
-      id: id1,
-      name: uniA.name,
-      name_en: uniA.name_en,
-      country: uniA.country,
-      city: uniA.city,
-      totalScore: totalA,
-      description: uniA.description,
-      website_url: uniA.website_url,
-      logo_url: uniA.logo_url,
-      founded_year: uniA.founded_year,
-      student_count: uniA.student_count,
-      faculty_count: uniA.faculty_count,
-      rankings: (uniA.rankings || uniA.ratings || []).map((r) => ({
-        source: r.source,
-        rank: r.rank,
-        year: r.year,
-      })),
-      programs_count: uniA.programs?.length || 0,
-      tuition_info: formatTuitionInfo(uniA),
-      scholarships_count: uniA.scholarships?.length || 0,
-      international_percentage: uniA.international?.international_percentage,
-      languages: uniA.international?.languages_of_instruction,
-      accreditations: uniA.accreditations,
-    },
-    universityB: {
-      id: id2,
-      name: uniB.name,
-      name_en: uniB.name_en,
-      country: uniB.country,
-      city: uniB.city,
-      totalScore: totalB,
-      description: uniB.description,
-      website_url: uniB.website_url,
-      logo_url: uniB.logo_url,
-      founded_year: uniB.founded_year,
-      student_count: uniB.student_count,
-      faculty_count: uniB.faculty_count,
-      rankings: (uniB.rankings || uniB.ratings || []).map((r) => ({
-        source: r.source,
-        rank: r.rank,
-        year: r.year,
-      })),
-      programs_count: uniB.programs?.length || 0,
-      tuition_info: formatTuitionInfo(uniB),
-      scholarships_count: uniB.scholarships?.length || 0,
-      international_percentage: uniB.international?.international_percentage,
-      languages: uniB.international?.languages_of_instruction,
-      accreditations: uniB.accreditations,
-    },
+    universities: battleUniversities,
     criteria,
-    overallWinner: ollamaResult.overallWinner,
-    strengthsA: ollamaResult.strengthsA || [],
-    strengthsB: ollamaResult.strengthsB || [],
-    recommendation: ollamaResult.recommendation || '',
-    winsA,
-    winsB,
+    weights,
+    ranking,
+    overallWinner: ranking[0],
+    recommendation: narrative?.recommendation || '',
     ties,
+    hasNarrative: narrative !== null,
   };
 
-  // Сохранить в кэш
-  battleCache.set(cacheKey, { result, timestamp: Date.now() });
+  // Без объяснений не кэшируем — следующий запрос попробует LLM снова
+  if (result.hasNarrative) {
+    battleCache.set(cacheKey, { result, timestamp: Date.now() });
+  }
 
   const duration = Date.now() - startTime;
   logger.info('Battle completed', {
-    id1,
-    id2,
+    ids,
     winner: result.overallWinner,
+    hasNarrative: result.hasNarrative,
     duration,
   });
 
@@ -4,10 +4,11 @@
  */
 
 import { logger } from '../utils/logger.ts';
-import { callOllamaForJson } from '../utils/ollama.client.ts';
+import { callLlmForJson, getLlmModel } from '../utils/llm/index.ts';
 import { query, queryOne, transaction } from '../config/database.ts';
 import { NO_INFO, type University } from '../types/university.ts';
 import type { PoolClient } from 'postgres';
+import { buildProvenance } from './provenance.service.ts';
 
 /**
  * Результат автодополнения
@@ -133,13 +134,6 @@ const CACHE_TTL = 1000 * 60 * 30; // 30 минут
 const autocompleteCache = new Map<string, { results: AutocompleteResult[]; timestamp: number }>();
 const AUTOCOMPLETE_CACHE_TTL = 1000 * 60 * 60; // 1 час
 
-/**
- * Rate limiter для autocomplete (по IP)
- */
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
-const RATE_LIMIT_MAX = 10;
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 минута
-
 /**
  * Очистить кэш поиска
  */
@@ -219,7 +213,7 @@ export const checkUniversityExists = async (name: string): Promise<UniversitySea
     try {
       logger.debug(`AI search attempt ${attempt}/${maxRetries}`);
       
-      const result = await callOllamaForJson<UniversitySearchResult>(fullPrompt);
+      const result = await callLlmForJson<UniversitySearchResult>('search', fullPrompt);
 
       // Валидация результата
       const validated = validateSearchResult(result);
@@ -569,11 +563,16 @@ export const createUniversityFromSearch = async (
 
     // Создать профиль
     const fullProfile: University = { ...profile, id };
+    // Данные AI-поиска не подтверждены страницей сайта — уверенность по умолчанию для 'search'
+    const provenance = buildProvenance(fullProfile, 'search', {
+      sourceUrl: searchResult.website || undefined,
+      model: getLlmModel('search'),
+    });
     
     await client.queryObject(
-      `INSERT INTO university_profiles (university_id, profile_json, language, version)
-       VALUES ($1, $2, 'ru', 1)`,
-      [id, JSON.stringify(fullProfile)]
+      `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+       VALUES ($1, $2, $3, 'ru', 1)`,
+      [id, JSON.stringify(fullProfile), JSON.stringify(provenance)]
     );
 
     // Создать источник если есть website
@@ -640,28 +639,6 @@ export const findOrCreateUniversity = async (
   };
 };
 
-/**
- * Проверить rate limit для IP
- * @param ip - IP адрес клиента
- * @returns true если лимит не превышен
- */
-export const checkRateLimit = (ip: string): boolean => {
-  const now = Date.now();
-  const entry = rateLimitMap.get(ip);
-
-  if (!entry || now > entry.resetAt) {
-    rateLimitMap.set(ip, { count: 1, resetAt: now + RATE_LIMIT_WINDOW });
-    return true;
-  }
-
-  if (entry.count >= RATE_LIMIT_MAX) {
-    return false;
-  }
-
-  entry.count++;
-  return true;
-};
-
 /**
  * Поиск университетов в БД для autocomplete
  * @param searchQuery - строка поиска
@@ -731,7 +708,7 @@ Return ONLY a valid JSON array, no explanations.
 Example: [{"name": "Harvard University", "country": "USA", "exists_in_our_db": false}]`;
 
   try {
-    const results = await callOllamaForJson<OllamaAutocompleteResult[]>(prompt);
+    const results = await callLlmForJson<OllamaAutocompleteResult[]>('search', prompt);
 
     const duration = Date.now() - startTime;
     if (duration > 500) {
@@ -762,12 +739,10 @@ Example: [{"name": "Harvard University", "country": "USA", "exists_in_our_db": f
  * Поиск университетов с автодополнением
  * Параллельно ищет в БД и через Ollama
  * @param searchQuery - строка поиска (минимум 2 символа)
- * @param ip - IP для rate limiting (опционально)
  * @returns результаты autocomplete
  */
 export const searchUniversitiesAutocomplete = async (
-  searchQuery: string,
-  ip?: string
+  searchQuery: string
 ): Promise<AutocompleteResponse> => {
   const startTime = Date.now();
   const normalizedQuery = normalizeSearchQuery(searchQuery);
@@ -777,12 +752,6 @@ export const searchUniversitiesAutocomplete = async (
     return { results: [], query: searchQuery, total: 0, cache_hit: false };
   }
 
-  // Проверить rate limit
-  if (ip && !checkRateLimit(ip)) {
-    logger.warn('Autocomplete rate limit exceeded', { ip });
-    throw new Error('Rate limit exceeded. Please wait before making more requests.');
-  }
-
   // Проверить кэш
   const cached = autocompleteCache.get(normalizedQuery);
   if (cached && Date.now() - cached.timestamp < AUTOCOMPLETE_CACHE_TTL) {
@@ -1,4 +1,5 @@
-import type { University } from './university.ts';
+import type { ProfileProvenance, University } from './university.ts';
+import type { AdminPermission } from '../config/admin.ts';
 
 /**
  * Строка таблицы universities
@@ -23,6 +24,7 @@ export interface UniversityProfileRow {
   id: string;
   university_id: string;
   profile_json: University;
+  field_provenance: ProfileProvenance;
   language: string;
   version: number;
   created_at: Date;
@@ -41,8 +43,45 @@ export interface UniversitySourceRow {
   last_parsed_at: Date | null;
   is_active: boolean;
   created_at: Date;
+  last_error: string | null;
+  last_error_at: Date | null;
+  /** Ошибки полей профиля при последнем неудачном парсинге */
+  last_validation_errors: Array<{ path: string; message: string; fatal: boolean; page?: string }>;
+  refresh_mode: SourceRefreshMode;
+  /** Расписание cron (UTC) для режима fixed */
+  refresh_cron: string | null;
+  refresh_interval_minutes: number;
+  refresh_min_minutes: number;
+  refresh_max_minutes: number;
+  next_check_at: Date | null;
+  http_etag: string | null;
+  http_last_modified: string | null;
+  /** Валидаторы внутренних страниц последнего обхода (NULL — ещё не сохранялись) */
+  page_validators: SourcePageValidator[] | null;
+  last_http_status: number | null;
+  last_http_status_at: Date | null;
+  publish_mode: SourcePublishMode;
 }
 
+/**
+ * ETag/Last-Modified внутренней страницы источника
+ */
+export interface SourcePageValidator {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Режим расписания проверки источника
+ */
+export type SourceRefreshMode = 'fixed' | 'adaptive';
+
+/**
+ * Публикация результатов парсинга: сразу или после проверки администратором
+ */
+export type SourcePublishMode = 'auto' | 'review';
+
 /**
  * Тип источника данных
  */
@@ -66,6 +105,111 @@ export interface UpdateLogRow {
   created_at: Date;
 }
 
+/**
+ * Строка таблицы admins (учётные записи админ-панели)
+ */
+export interface AdminRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  name: string;
+  email: string | null;
+  permissions: AdminPermission[];
+  is_active: boolean;
+  created_at: Date;
+  last_login_at: Date | null;
+}
+
+/**
+ * Строка таблицы admin_api_keys (ключи машинных клиентов)
+ */
+export interface AdminApiKeyRow {
+  id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  permissions: AdminPermission[];
+  created_by: string | null;
+  created_at: Date;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  rotated_from: string | null;
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+}
+
+/**
+ * Тип задания парсинга
+ */
+export type ParseJobType = 'check' | 'reparse';
+
+/**
+ * Статус задания парсинга
+ */
+export type ParseJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Строка таблицы parse_jobs (очередь воркера обновления)
+ */
+export interface ParseJobRow {
+  id: string;
+  university_id: string;
+  source_id: string | null;
+  job_type: ParseJobType;
+  options: { forceUpdate?: boolean; overwriteManual?: boolean };
+  status: ParseJobStatus;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  next_run_at: Date;
+  locked_at: Date | null;
+  locked_by: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  requested_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+}
+
+/**
+ * Статус изменения профиля, ожидающего проверки
+ */
+export type ProfileChangeStatus = 'pending' | 'approved' | 'partially_approved' | 'rejected' | 'superseded';
+
+/**
+ * Строка таблицы profile_changes (результат парсинга до публикации)
+ */
+export interface ProfileChangeRow {
+  id: string;
+  university_id: string;
+  source_id: string | null;
+  base_version: number;
+  profile_json: University;
+  field_provenance: ProfileProvenance;
+  status: ProfileChangeStatus;
+  accepted_fields: string[] | null;
+  published_version: number | null;
+  reviewed_by: string | null;
+  review_comment: string | null;
+  created_at: Date;
+  reviewed_at: Date | null;
+}
+
+/**
+ * Строка таблицы battles (сохранённое сравнение университетов)
+ */
+export interface BattleRow {
+  id: string;
+  university_ids: string[];
+  profile_versions: number[];
+  language: string;
+  weights: Record<string, number>;
+  result: unknown;
+  created_at: Date;
+  updated_at: Date;
+}
+
 /**
  * Входные данные для создания университета
  */
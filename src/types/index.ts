@@ -21,6 +21,9 @@ export type {
   International,
   Other,
   ParseMetadata,
+  ProvenanceMethod,
+  FieldProvenance,
+  ProfileProvenance,
   University,
   UniversitySummary,
   UniversityFilters,
@@ -33,12 +36,27 @@ export {
   createEmptyUniversity,
 } from './university.ts';
 
+export {
+  UNIVERSITY_PROFILE_SCHEMA,
+  PROGRAM_LIST_SCHEMA,
+} from './university.schema.ts';
+
 export type {
   UniversityRow,
   UniversityProfileRow,
   UniversitySourceRow,
   UpdateLogRow,
+  AdminRow,
+  AdminApiKeyRow,
+  ParseJobRow,
+  ParseJobType,
+  ParseJobStatus,
+  ProfileChangeRow,
+  BattleRow,
+  ProfileChangeStatus,
   SourceType,
+  SourceRefreshMode,
+  SourcePublishMode,
   UpdateStatus,
   CreateUniversityInput,
   UpdateUniversityInput,
@@ -0,0 +1,186 @@
+/**
+ * JSON Schema профиля университета для структурированного вывода LLM
+ * Соответствует интерфейсам из university.ts (только поля, которые извлекает модель:
+ * без id, updated_at, metadata и 3d_tour). При изменении интерфейсов обновите схему.
+ */
+
+import type { JsonSchema } from '../utils/json-schema.ts';
+
+const str = (description?: string): JsonSchema =>
+  description ? { type: 'string', description } : { type: 'string' };
+
+/**
+ * Число или null (модель пишет null, если данных нет)
+ */
+const num = (type: 'number' | 'integer', minimum: number, maximum?: number): JsonSchema => ({
+  type: [type, 'null'],
+  minimum,
+  ...(maximum !== undefined && { maximum }),
+});
+
+/**
+ * TuitionInfo
+ */
+export const TUITION_INFO_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    amount: num('number', 0),
+    currency: str('USD, EUR, KZT, RUB'),
+    per_year: { type: 'boolean' },
+    additional_info: str(),
+  },
+};
+
+/**
+ * Program
+ */
+export const PROGRAM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: str(),
+    name: str(),
+    degree_level: str('Bachelor | Master | PhD | Diploma'),
+    duration_years: num('number', 0.5, 10),
+    language: str(),
+    description: str(),
+    tuition: TUITION_INFO_SCHEMA,
+    admission_requirements: str(),
+    language_requirements: str(),
+    application_deadline: str(),
+    career_outcomes: str(),
+  },
+  required: ['name'],
+};
+
+/**
+ * Список программ (ответ extractAllPrograms)
+ */
+export const PROGRAM_LIST_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: PROGRAM_SCHEMA,
+};
+
+const SCHOLARSHIP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: str(),
+    amount: str(),
+    eligibility: str(),
+    description: str(),
+  },
+  required: ['name'],
+};
+
+const RANKING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    source: str('QS, THE, ...'),
+    rank: num('integer', 1),
+    year: num('integer', 1900, 2100),
+    category: str(),
+  },
+  required: ['source'],
+};
+
+const CONTACTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    main_email: str(),
+    admissions_email: str(),
+    phone: str(),
+    address: str(),
+    social_media: {
+      type: 'object',
+      properties: {
+        website: str(),
+        facebook: str(),
+        twitter: str(),
+        instagram: str(),
+        linkedin: str(),
+      },
+    },
+    email: str(),
+  },
+};
+
+/**
+ * Профиль университета (Partial<University>)
+ */
+export const UNIVERSITY_PROFILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: str('full university name'),
+    name_en: str(),
+    country: str(),
+    city: str(),
+    website_url: str(),
+    logo_url: str(),
+    description: str(),
+    mission: str(),
+    founded_year: num('integer', 800, 2100),
+    student_count: num('integer', 0),
+    faculty_count: num('integer', 0),
+    leadership: str(),
+    achievements: str(),
+    accreditations: str(),
+    notable_alumni: str(),
+    research_focus: str(),
+    special_programs: str(),
+    latitude: num('number', -90, 90),
+    longitude: num('number', -180, 180),
+    campus_location: str(),
+    programs: { type: 'array', items: PROGRAM_SCHEMA },
+    tuition_general: {
+      type: 'object',
+      properties: {
+        international_students: str(),
+        domestic_students: str(),
+        payment_options: str(),
+        financial_aid: str(),
+      },
+    },
+    scholarships: { type: 'array', items: SCHOLARSHIP_SCHEMA },
+    admissions: {
+      type: 'object',
+      properties: {
+        requirements: str(),
+        english_proficiency: str(),
+        test_requirements: str(),
+        documents_needed: str(),
+        application_process: str(),
+        intake_dates: str(),
+      },
+    },
+    campus: {
+      type: 'object',
+      properties: {
+        location: str(),
+        facilities: str(),
+        accommodation: str(),
+        student_life: str(),
+      },
+    },
+    rankings: { type: 'array', items: RANKING_SCHEMA },
+    contacts: CONTACTS_SCHEMA,
+    international: {
+      type: 'object',
+      properties: {
+        accepts_international: { type: 'boolean' },
+        international_percentage: num('number', 0, 100),
+        visa_support: str(),
+        exchange_programs: str(),
+        languages_of_instruction: { type: 'array', items: str() },
+      },
+    },
+    other: {
+      type: 'object',
+      properties: {
+        accreditations: str(),
+        notable_alumni: str(),
+        research_focus: str(),
+        special_programs: str(),
+      },
+    },
+  },
+  required: ['name'],
+};
@@ -238,8 +238,44 @@ export interface ParseMetadata {
   completeness_score: number;
   missing_fields: string[];
   notes?: string;
+  /** Страницы сайта, использованные при парсинге */
+  source_pages?: string[];
+  /** Страницы, из которых получено каждое поле профиля */
+  field_sources?: Record<string, string[]>;
+  /** Ошибки полей по схеме, с которыми парсинг всё же завершился (поле удалено или часть текста не разобрана) */
+  field_errors?: Array<{ path: string; message: string; fatal: boolean; page?: string }>;
 }
 
+// ============================================
+// Происхождение данных
+// ============================================
+
+/**
+ * Способ получения значения поля
+ * - llm: извлечено LLM со страниц сайта
+ * - search: сгенерировано AI-поиском без страницы-источника
+ * - seed: загружено скриптом начального заполнения
+ * - manual: отредактировано администратором
+ */
+export type ProvenanceMethod = 'llm' | 'search' | 'seed' | 'manual';
+
+/**
+ * Происхождение одного поля профиля
+ */
+export interface FieldProvenance {
+  method: ProvenanceMethod;
+  source_url?: string;
+  model?: string;
+  extracted_at: string;
+  /** Уверенность от 0 до 1 */
+  confidence: number;
+}
+
+/**
+ * Происхождение полей профиля (ключ — поле верхнего уровня University)
+ */
+export type ProfileProvenance = Record<string, FieldProvenance>;
+
 // ============================================
 // Главный интерфейс университета
 // ============================================
@@ -0,0 +1,167 @@
+/**
+ * Расписания в формате cron (5 полей, время UTC)
+ * минута час день_месяца месяц день_недели; поддерживаются *, списки (1,15),
+ * диапазоны (1-5) и шаги (0-30/10, в том числе после звёздочки).
+ * День недели: 0-7, 0 и 7 — воскресенье.
+ */
+
+/**
+ * Разобранное выражение
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Ограничены ли день месяца и день недели (если оба — достаточно любого) */
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+/**
+ * Неверное выражение cron
+ */
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+/**
+ * Сколько минут вперёд искать следующий запуск (чуть больше 4 лет — покрывает 29 февраля)
+ */
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60;
+
+const parseNumber = (value: string, field: typeof FIELDS[number]): number => {
+  if (!/^\d+$/.test(value)) {
+    throw new CronError(`Invalid ${field.name} value "${value}"`);
+  }
+  const n = parseInt(value, 10);
+  if (n < field.min || n > field.max) {
+    throw new CronError(`${field.name} must be between ${field.min} and ${field.max}`);
+  }
+  return n;
+};
+
+const parseField = (text: string, field: typeof FIELDS[number]): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new CronError(`Invalid step "${stepText}" in ${field.name}`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      from = parseNumber(a, field);
+      to = parseNumber(b, field);
+      if (from > to) {
+        throw new CronError(`Invalid range "${range}" in ${field.name}`);
+      }
+    } else {
+      from = parseNumber(range, field);
+      to = stepText === undefined ? from : field.max;
+    }
+
+    for (let n = from; n <= to; n += step) {
+      values.add(n);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Разобрать выражение cron
+ * @throws CronError при неверном синтаксисе или значениях вне диапазона
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronError('Cron expression must have 5 fields: minute hour day month weekday');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i])
+  );
+
+  // 7 — тоже воскресенье
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: parts[2] !== '*',
+    restrictsDayOfWeek: parts[4] !== '*',
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dom || dow;
+  }
+  return dom && dow;
+};
+
+/**
+ * Ближайший запуск строго после from
+ * @returns дата запуска или null, если расписание никогда не срабатывает (например, 31 февраля)
+ */
+export const getNextCronRun = (expression: string | CronSchedule, from: Date): Date | null => {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const date = new Date(from.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const deadline = date.getTime() + MAX_SEARCH_MINUTES * 60_000;
+
+  while (date.getTime() <= deadline) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+};
@@ -0,0 +1,163 @@
+/**
+ * Валюты стоимости обучения
+ *
+ * LLM возвращает валюту как придётся: "KZT", "тенге", "₸", "$", "руб."…
+ * Здесь она приводится к коду ISO 4217, а суммы пересчитываются по курсам,
+ * заданным как число единиц валюты за 1 USD.
+ */
+
+/**
+ * Валюты, в которых публичные API показывают стоимость
+ */
+export const DISPLAY_CURRENCIES = ['KZT', 'USD', 'RUB', 'EUR'] as const;
+
+export type DisplayCurrency = typeof DISPLAY_CURRENCIES[number];
+
+/**
+ * Базовая валюта курсов и колонок min_tuition/max_tuition
+ */
+export const BASE_CURRENCY = 'USD';
+
+/**
+ * Курсы: код ISO 4217 → единиц валюты за 1 USD
+ */
+export type ExchangeRates = Record<string, number>;
+
+/**
+ * Написания валют, которые встречаются в ответах LLM и на сайтах (в нижнем регистре)
+ * Трёхбуквенные коды сюда не входят — они приводятся к верхнему регистру.
+ */
+export const CURRENCY_ALIASES: Record<string, string> = {
+  '₸': 'KZT',
+  'тг': 'KZT',
+  'тенге': 'KZT',
+  'теңге': 'KZT',
+  'tenge': 'KZT',
+  '$': 'USD',
+  'us$': 'USD',
+  'доллар': 'USD',
+  'долларов': 'USD',
+  'доллара': 'USD',
+  'долл': 'USD',
+  'dollar': 'USD',
+  'dollars': 'USD',
+  '€': 'EUR',
+  'евро': 'EUR',
+  'euro': 'EUR',
+  'euros': 'EUR',
+  '₽': 'RUB',
+  'руб': 'RUB',
+  'рубль': 'RUB',
+  'рублей': 'RUB',
+  'рубля': 'RUB',
+  'р': 'RUB',
+  // Код рубля до деноминации 1998 года
+  'rur': 'RUB',
+  'ruble': 'RUB',
+  'rubles': 'RUB',
+  '£': 'GBP',
+  'фунт': 'GBP',
+  'фунтов': 'GBP',
+  '¥': 'CNY',
+  'юань': 'CNY',
+  'юаней': 'CNY',
+  'yuan': 'CNY',
+  'rmb': 'CNY',
+  'сом': 'KGS',
+  'сум': 'UZS',
+};
+
+/**
+ * Коды, которые распознаются в тексте: любое трёхбуквенное слово
+ * ("the", "per") за валюту не принимается
+ */
+const ISO_CODES_IN_TEXT = new Set(['KZT', 'USD', 'EUR', 'RUB', 'GBP', 'CNY', 'KGS', 'UZS', 'TRY', 'KRW', 'JPY']);
+
+/**
+ * Привести обозначение валюты к коду ISO 4217
+ * @returns код или null, если валюта не распознана
+ */
+export const normalizeCurrency = (raw: string | null | undefined): string | null => {
+  if (!raw) return null;
+  const value = raw.trim().toLowerCase().replace(/\.$/, '');
+  if (!value) return null;
+
+  if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value];
+  return /^[a-z]{3}$/.test(value) ? value.toUpperCase() : null;
+};
+
+/**
+ * Найти валюту в свободном тексте ("1 200 000 тенге в год", "$5,000")
+ * @returns код первой найденной валюты или null
+ */
+export const detectCurrency = (text: string | null | undefined): string | null => {
+  if (!text) return null;
+
+  // Символы могут стоять вплотную к числу
+  const symbol = text.match(/[₸$€₽£¥]/);
+  const tokens = text.toLowerCase().match(/[a-z\u0400-\u04ff]+/g) ?? [];
+
+  for (const token of tokens) {
+    if (/^[a-z]{3}$/.test(token) && ISO_CODES_IN_TEXT.has(token.toUpperCase())) {
+      return token.toUpperCase();
+    }
+    if (CURRENCY_ALIASES[token] && token.length > 1) {
+      return CURRENCY_ALIASES[token];
+    }
+  }
+
+  return symbol ? CURRENCY_ALIASES[symbol[0]] : null;
+};
+
+/**
+ * Пересчитать сумму из одной валюты в другую
+ * @param from - валюта суммы (любое написание)
+ * @param to - код целевой валюты
+ * @returns сумма или null, если для одной из валют нет курса
+ */
+export const convertAmount = (
+  amount: number,
+  from: string | null | undefined,
+  to: string,
+  rates: ExchangeRates
+): number | null => {
+  const source = normalizeCurrency(from);
+  if (!source) return null;
+  if (source === to) return amount;
+
+  const fromRate = rates[source];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return (amount / fromRate) * toRate;
+};
+
+/**
+ * Пересчитать стоимость обучения с округлением до целых
+ * @returns сумма или null, если суммы нет или пересчитать нельзя
+ */
+export const convertTuition = (
+  amount: number | null,
+  from: string | null | undefined,
+  to: string,
+  rates: ExchangeRates
+): number | null => {
+  if (amount === null) return null;
+  const converted = convertAmount(amount, from, to, rates);
+  return converted === null ? null : Math.round(converted);
+};
+
+/**
+ * Проверить код валюты для показа
+ */
+export const isDisplayCurrency = (value: string): value is DisplayCurrency =>
+  (DISPLAY_CURRENCIES as readonly string[]).includes(value);
+
+/**
+ * Разобрать параметр currency публичных API
+ * @returns код валюты (USD, если не задан) или null, если валюта не поддерживается
+ */
+export const parseDisplayCurrency = (value: string | null | undefined): DisplayCurrency | null => {
+  const code = value?.trim().toUpperCase() || BASE_CURRENCY;
+  return isDisplayCurrency(code) ? code : null;
+};
@@ -21,9 +21,55 @@ export {
 } from './markdown.converter.ts';
 
 export {
-  callOllama,
-  callOllamaForJson,
-  checkOllamaHealth,
-  getAvailableModels,
-  OllamaError,
-} from './ollama.client.ts';
+  callLlm,
+  callLlmForJson,
+  checkLlmHealth,
+  getLlmModel,
+  getLlmProvider,
+  LlmError,
+  LlmSchemaError,
+  streamLlm,
+  type LlmJsonOptions,
+  type LlmProvider,
+  type LlmTask,
+} from './llm/index.ts';
+
+export {
+  formatSchemaViolations,
+  validateJsonSchema,
+  type JsonSchema,
+  type SchemaViolation,
+} from './json-schema.ts';
+
+export {
+  CronError,
+  getNextCronRun,
+  parseCron,
+  type CronSchedule,
+} from './cron.ts';
+
+export {
+  buildKeysetCondition,
+  buildKeysetOrder,
+  decodeCursor,
+  encodeCursor,
+  takeKeysetPage,
+  toCursorValue,
+  type CursorValue,
+  type KeysetCursor,
+  type SortDirection,
+} from './keyset.ts';
+
+export {
+  BASE_CURRENCY,
+  convertAmount,
+  convertTuition,
+  CURRENCY_ALIASES,
+  detectCurrency,
+  DISPLAY_CURRENCIES,
+  isDisplayCurrency,
+  normalizeCurrency,
+  parseDisplayCurrency,
+  type DisplayCurrency,
+  type ExchangeRates,
+} from './currency.ts';
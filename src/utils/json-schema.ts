@@ -0,0 +1,330 @@
+/**
+ * Проверка и исправление данных по JSON Schema
+ * Поддерживается подмножество JSON Schema, достаточное для структурированного
+ * вывода LLM: type, properties, required, additionalProperties, items, enum,
+ * minimum/maximum. Та же схема передаётся Ollama в поле format.
+ */
+
+/**
+ * Тип значения JSON Schema
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * JSON Schema (подмножество)
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false — лишние поля удаляются */
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Нарушение схемы в конкретном поле
+ */
+export interface SchemaViolation {
+  /** Путь к полю: programs[2].tuition.amount ('' — корень) */
+  path: string;
+  message: string;
+  /** Неисправимо: корень неверного типа или нет обязательного поля */
+  fatal: boolean;
+}
+
+/**
+ * Результат проверки
+ */
+export interface SchemaValidationResult<T> {
+  /** Значение после приведения типов; невалидные необязательные поля удалены */
+  value: T;
+  /** Нарушения, которые не удалось исправить автоматически */
+  violations: SchemaViolation[];
+  /** Автоматические исправления (для логов) */
+  repairs: string[];
+}
+
+/**
+ * Значения, которые модель пишет вместо отсутствующих данных
+ */
+const EMPTY_MARKERS = new Set(['', 'null', 'none', 'n/a', 'нет информации', 'нет данных', 'unknown']);
+
+const TRUE_VALUES = new Set(['true', 'yes', 'да', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'нет', '0']);
+
+/**
+ * Значение пустое с точки зрения схемы (нет данных)
+ */
+const isEmptyMarker = (value: unknown): boolean =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && EMPTY_MARKERS.has(value.trim().toLowerCase()));
+
+const typesOf = (schema: JsonSchema): JsonSchemaType[] =>
+  schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Привести строку вида "1 200 000 ₸", "4 года", "12,5" к числу
+ */
+const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[\s ]/g, '').replace(/,(?=\d{3}(?!\d))/g, '');
+  const match = cleaned.match(/-?\d+(?:[.,]\d+)?/);
+  if (!match) return null;
+  const num = parseFloat(match[0].replace(',', '.'));
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Контекст одной проверки
+ */
+interface ValidationContext {
+  violations: SchemaViolation[];
+  repairs: string[];
+}
+
+/**
+ * Результат проверки одного узла
+ */
+type NodeResult = { ok: true; value: unknown } | { ok: false; message: string };
+
+const coerceScalar = (
+  value: unknown,
+  type: JsonSchemaType,
+  path: string,
+  ctx: ValidationContext
+): NodeResult => {
+  switch (type) {
+    case 'string':
+      if (typeof value === 'string') return { ok: true, value };
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        ctx.repairs.push(`${path}: ${typeof value} → string`);
+        return { ok: true, value: String(value) };
+      }
+      return { ok: false, message: `expected string, got ${Array.isArray(value) ? 'array' : typeof value}` };
+
+    case 'number':
+    case 'integer': {
+      let num: number | null = typeof value === 'number' ? value : null;
+      if (typeof value === 'string') {
+        num = parseNumber(value);
+        if (num !== null) ctx.repairs.push(`${path}: "${value}" → ${num}`);
+      }
+      if (num === null || !Number.isFinite(num)) {
+        return { ok: false, message: `expected ${type}, got ${JSON.stringify(value)}` };
+      }
+      if (type === 'integer' && !Number.isInteger(num)) {
+        ctx.repairs.push(`${path}: ${num} rounded`);
+        num = Math.round(num);
+      }
+      return { ok: true, value: num };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { ok: true, value };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.has(text) || FALSE_VALUES.has(text)) {
+        ctx.repairs.push(`${path}: "${value}" → boolean`);
+        return { ok: true, value: TRUE_VALUES.has(text) };
+      }
+      return { ok: false, message: `expected boolean, got ${JSON.stringify(value)}` };
+    }
+
+    case 'null':
+      return value === null ? { ok: true, value } : { ok: false, message: 'expected null' };
+
+    default:
+      return { ok: false, message: `expected ${type}` };
+  }
+};
+
+/**
+ * Проверить узел по схеме
+ */
+const validateNode = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  ctx: ValidationContext
+): NodeResult => {
+  const types = typesOf(schema);
+  let result: NodeResult = { ok: true, value };
+
+  if (types.includes('object') && !types.includes('array')) {
+    result = validateObject(value, schema, path, ctx);
+  } else if (types.includes('array')) {
+    result = validateArray(value, schema, path, ctx);
+  } else if (types.length > 0 && !(value === null && types.includes('null'))) {
+    const attempts = types.map((type) => coerceScalar(value, type, path, ctx));
+    result = attempts.find((a) => a.ok) ?? attempts[0];
+  }
+
+  if (!result.ok) return result;
+  let checked = result.value;
+
+  if (schema.enum) {
+    const match = schema.enum.find((option) =>
+      option === checked ||
+      (typeof option === 'string' && typeof checked === 'string' &&
+        option.toLowerCase() === checked.trim().toLowerCase())
+    );
+    if (match === undefined) {
+      return { ok: false, message: `must be one of ${schema.enum.join(', ')}` };
+    }
+    if (match !== checked) ctx.repairs.push(`${path}: "${checked}" → "${match}"`);
+    checked = match;
+  }
+
+  if (typeof checked === 'number') {
+    if (schema.minimum !== undefined && checked < schema.minimum) {
+      return { ok: false, message: `must be >= ${schema.minimum}` };
+    }
+    if (schema.maximum !== undefined && checked > schema.maximum) {
+      return { ok: false, message: `must be <= ${schema.maximum}` };
+    }
+  }
+
+  return { ok: true, value: checked };
+};
+
+const validateObject = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  ctx: ValidationContext
+): NodeResult => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, message: `expected object, got ${Array.isArray(value) ? 'array' : typeof value}` };
+  }
+
+  const input = value as Record<string, unknown>;
+  const output: Record<string, unknown> = {};
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required ?? []);
+
+  for (const [key, raw] of Object.entries(input)) {
+    const propSchema = properties[key];
+    const propPath = joinPath(path, key);
+
+    if (!propSchema) {
+      if (schema.additionalProperties === false) {
+        ctx.repairs.push(`${propPath}: unknown field removed`);
+      } else {
+        output[key] = raw;
+      }
+      continue;
+    }
+
+    // "Нет информации" в нестроковом поле — то же, что отсутствие значения
+    const acceptsString = typesOf(propSchema).includes('string');
+    if (isEmptyMarker(raw) && !(acceptsString && typeof raw === 'string')) {
+      if (!required.has(key)) {
+        if (raw !== undefined && raw !== null) ctx.repairs.push(`${propPath}: empty marker removed`);
+        continue;
+      }
+    }
+
+    const result = validateNode(raw, propSchema, propPath, ctx);
+    if (result.ok) {
+      output[key] = result.value;
+    } else {
+      ctx.violations.push({ path: propPath, message: result.message, fatal: required.has(key) });
+    }
+  }
+
+  for (const key of required) {
+    if (!(key in input) || isEmptyMarker(input[key])) {
+      if (!ctx.violations.some((v) => v.path === joinPath(path, key))) {
+        ctx.violations.push({ path: joinPath(path, key), message: 'is required', fatal: true });
+      }
+    }
+  }
+
+  return { ok: true, value: output };
+};
+
+const validateArray = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  ctx: ValidationContext
+): NodeResult => {
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if ((typeof value === 'object' && value !== null) || typeof value === 'string') {
+    // Одиночное значение вместо списка
+    ctx.repairs.push(`${path || 'root'}: wrapped into array`);
+    items = [value];
+  } else {
+    return { ok: false, message: `expected array, got ${typeof value}` };
+  }
+
+  if (!schema.items) return { ok: true, value: items };
+
+  const output: unknown[] = [];
+  items.forEach((item, index) => {
+    if (isEmptyMarker(item)) return;
+
+    const itemPath = joinPath(path, index);
+    // Нарушения внутри элемента, делающие его непригодным, отбрасывают элемент
+    const nested: ValidationContext = { violations: [], repairs: ctx.repairs };
+    const result = validateNode(item, schema.items!, itemPath, nested);
+
+    if (!result.ok) {
+      ctx.violations.push({ path: itemPath, message: result.message, fatal: false });
+      return;
+    }
+
+    const itemFatal = nested.violations.some((v) => v.fatal);
+    ctx.violations.push(...nested.violations.map((v) => ({ ...v, fatal: false })));
+    if (itemFatal) {
+      ctx.repairs.push(`${itemPath}: invalid item removed`);
+      return;
+    }
+    output.push(result.value);
+  });
+
+  return { ok: true, value: output };
+};
+
+/**
+ * Проверить значение по схеме, приводя типы и удаляя то, что исправить нельзя
+ * Примеры исправлений: "1 200 000 ₸" → 1200000, "да" → true, объект → [объект],
+ * "Нет информации" в числовом поле → поле удаляется, регистр значений enum.
+ * @param value - данные (обычно распарсенный ответ модели)
+ * @param schema - схема
+ * @returns исправленное значение, оставшиеся нарушения и список исправлений
+ */
+export const validateJsonSchema = <T>(
+  value: unknown,
+  schema: JsonSchema
+): SchemaValidationResult<T> => {
+  const ctx: ValidationContext = { violations: [], repairs: [] };
+  const result = validateNode(value, schema, '', ctx);
+
+  if (!result.ok) {
+    ctx.violations.unshift({ path: '', message: result.message, fatal: true });
+  }
+
+  return {
+    value: (result.ok ? result.value : value) as T,
+    violations: ctx.violations,
+    repairs: ctx.repairs,
+  };
+};
+
+/**
+ * Форматировать нарушения для промпта исправления и логов
+ */
+export const formatSchemaViolations = (violations: SchemaViolation[]): string =>
+  violations
+    .map((v) => `- ${v.path || '(root)'}: ${v.message}`)
+    .join('\n');
@@ -0,0 +1,152 @@
+/**
+ * Keyset-пагинация по паре (значение сортировки, id)
+ *
+ * Курсор — base64url от JSON с последней выданной строкой и ключом сортировки,
+ * для которого он выдан: курсор от другой сортировки не принимается.
+ * Пустые значения сортировки всегда идут в конце (NULLS LAST) в любом
+ * направлении, при равных значениях порядок задаёт id по возрастанию.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Значение сортировки в курсоре
+ */
+export type CursorValue = string | number | null;
+
+/**
+ * Позиция после последней выданной строки
+ */
+export interface KeysetCursor {
+  /** Ключ сортировки, например "tuition:asc" */
+  key: string;
+  value: CursorValue;
+  id: string;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Привести значение строки к виду, пригодному для курсора
+ */
+export const toCursorValue = (value: unknown): CursorValue => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  // numeric и bigint драйвер может вернуть строкой или BigInt
+  return String(value);
+};
+
+/**
+ * Закодировать курсор
+ */
+export const encodeCursor = (cursor: KeysetCursor): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify([cursor.key, cursor.value, cursor.id]));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Раскодировать курсор
+ * @param expectedKey - ключ текущей сортировки
+ * @returns курсор или null, если строка повреждена или выдана для другой сортировки
+ */
+export const decodeCursor = (raw: string, expectedKey: string): KeysetCursor | null => {
+  try {
+    const binary = atob(raw.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    const parsed = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+    const [key, value, id] = parsed;
+    if (key !== expectedKey) return null;
+    if (typeof id !== 'string' || !UUID_REGEX.test(id)) return null;
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number') return null;
+
+    return { key, value, id };
+  } catch {
+    return null;
+  }
+};
+
+const INT_MIN = -2147483648;
+const INT_MAX = 2147483647;
+const ISO_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Проверить, что значение курсора приводится к типу сортировки
+ * Иначе подделанный курсор превратился бы в ошибку приведения в Postgres.
+ * @param cast - тип значения сортировки (text, int, timestamptz)
+ */
+export const isCursorValueOfType = (value: CursorValue, cast: string): boolean => {
+  if (value === null) return true;
+
+  switch (cast) {
+    case 'int': {
+      const number = typeof value === 'string' && /^-?\d{1,10}$/.test(value) ? Number(value) : value;
+      return typeof number === 'number' && Number.isInteger(number) && number >= INT_MIN && number <= INT_MAX;
+    }
+    case 'timestamptz':
+      return typeof value === 'string' && ISO_TIMESTAMP_REGEX.test(value) && !isNaN(Date.parse(value));
+    default:
+      return typeof value === 'string';
+  }
+};
+
+/**
+ * Условие "строка идёт после курсора"
+ * @param expr - SQL-выражение сортировки
+ * @param idExpr - SQL-выражение id
+ * @param cast - тип значения сортировки для параметра (text, int, timestamptz)
+ * @param param - добавляет значение в список параметров и возвращает плейсхолдер
+ */
+export const buildKeysetCondition = (
+  expr: string,
+  idExpr: string,
+  cast: string,
+  direction: SortDirection,
+  cursor: KeysetCursor,
+  param: (value: unknown) => string
+): string => {
+  const id = `${param(cursor.id)}::uuid`;
+
+  // После строки с пустым значением остаются только такие же строки
+  if (cursor.value === null) {
+    return `(${expr} IS NULL AND ${idExpr} > ${id})`;
+  }
+
+  const value = `${param(cursor.value)}::${cast}`;
+  const op = direction === 'asc' ? '>' : '<';
+  return `(${expr} ${op} ${value} OR (${expr} = ${value} AND ${idExpr} > ${id}) OR ${expr} IS NULL)`;
+};
+
+/**
+ * ORDER BY для keyset-пагинации
+ */
+export const buildKeysetOrder = (expr: string, idExpr: string, direction: SortDirection): string =>
+  `${expr} ${direction.toUpperCase()} NULLS LAST, ${idExpr} ASC`;
+
+/**
+ * Отрезать страницу из выборки с запасом в одну строку
+ * @param rows - строки с колонкой sort_value, выбранные с LIMIT limit + 1
+ * @param key - ключ сортировки для курсора
+ * @returns строки без sort_value и курсор следующей страницы (null, если это последняя)
+ */
+export const takeKeysetPage = <T extends { id: string; sort_value: unknown }>(
+  rows: T[],
+  limit: number,
+  key: string
+): { data: Omit<T, 'sort_value'>[]; nextCursor: string | null } => {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? encodeCursor({ key, value: toCursorValue(last.sort_value), id: last.id })
+    : null;
+
+  return {
+    data: page.map(({ sort_value: _sortValue, ...row }) => row),
+    nextCursor,
+  };
+};
@@ -0,0 +1,124 @@
+/**
+ * HTTP-помощники для LLM-провайдеров
+ */
+
+import type { LlmProviderName } from '../../config/env.ts';
+import { LlmError } from './types.ts';
+
+/**
+ * Таймаут запроса (для потока — ожидания следующего фрагмента)
+ * 120 секунд: cloud модели могут быть медленными
+ */
+export const LLM_REQUEST_TIMEOUT = 120000;
+
+/**
+ * POST с JSON-телом, таймаутом и внешним сигналом отмены
+ * Для потоковых ответов таймаут продлевается вызовом touch()
+ * @returns ответ, функция продления таймаута и функция очистки
+ */
+export const postJson = async (
+  provider: LlmProviderName,
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; signal?: AbortSignal } = {}
+): Promise<{ response: Response; touch: () => void; dispose: () => void }> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort);
+
+  let timeoutId = setTimeout(abort, LLM_REQUEST_TIMEOUT);
+  const touch = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(abort, LLM_REQUEST_TIMEOUT);
+  };
+  const dispose = () => {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', abort);
+  };
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LlmError(
+        `${provider} API error: ${response.status}`,
+        provider,
+        response.status,
+        errorText
+      );
+    }
+
+    return { response, touch, dispose };
+  } catch (err) {
+    dispose();
+    throw normalizeError(provider, err, options.signal);
+  }
+};
+
+/**
+ * Привести ошибку fetch/таймаута/отмены к LlmError
+ */
+export const normalizeError = (
+  provider: LlmProviderName,
+  err: unknown,
+  signal?: AbortSignal
+): LlmError => {
+  if (err instanceof LlmError) return err;
+
+  if (signal?.aborted) {
+    return new LlmError(`${provider} request cancelled`, provider);
+  }
+
+  if (err instanceof Error && err.name === 'AbortError') {
+    return new LlmError(`${provider} request timed out`, provider, 408);
+  }
+
+  return new LlmError(
+    `Failed to call ${provider}: ${err instanceof Error ? err.message : String(err)}`,
+    provider
+  );
+};
+
+/**
+ * Читать тело ответа построчно
+ * @param onLine - обработчик строки; вернуть true, чтобы прекратить чтение
+ */
+export const readLines = async (
+  response: Response,
+  onLine: (line: string) => boolean | void,
+  onChunk?: () => void
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Response has no body');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      onChunk?.();
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim() && onLine(line.trim())) return;
+      }
+    }
+
+    if (buffer.trim()) onLine(buffer.trim());
+  } finally {
+    // Освободить соединение, если чтение остановлено раньше конца потока
+    await reader.cancel().catch(() => {});
+  }
+};
@@ -0,0 +1,322 @@
+/**
+ * LLM-клиент с выбором провайдера по задаче
+ * Провайдер, адрес и модель для каждой задачи задаются через EnvConfig (LLM_*, LLM_<TASK>_*)
+ */
+
+import { logger } from '../logger.ts';
+import { getLlmConfig, type LlmTask } from '../../config/env.ts';
+import { createOllamaProvider } from './ollama.provider.ts';
+import { createOpenAiCompatibleProvider } from './openai-compatible.provider.ts';
+import {
+  LlmError,
+  type LlmGenerateOptions,
+  type LlmProvider,
+  LlmSchemaError,
+  type LlmStreamOptions,
+} from './types.ts';
+import {
+  formatSchemaViolations,
+  type JsonSchema,
+  type SchemaViolation,
+  validateJsonSchema,
+} from '../json-schema.ts';
+
+export { LlmError, LlmSchemaError };
+export type { LlmGenerateOptions, LlmProvider, LlmStreamOptions };
+export type { LlmTask };
+
+/**
+ * Настройки повторов
+ */
+const RETRY_CONFIG = {
+  maxRetries: 2,
+  /** Пауза перед повтором: attempt * backoffMs */
+  backoffMs: 2000,
+};
+
+/**
+ * Настройки генерации JSON
+ */
+const JSON_CONFIG = {
+  /** Повторных запросов с перечнем нарушений схемы */
+  maxCorrections: 2,
+};
+
+/**
+ * Провайдеры по задачам (создаются при первом обращении)
+ */
+const providers = new Map<LlmTask, LlmProvider>();
+
+/**
+ * Получить провайдер для задачи
+ * @param task - parsing | chat | battle | search
+ */
+export const getLlmProvider = (task: LlmTask): LlmProvider => {
+  let provider = providers.get(task);
+  if (!provider) {
+    const config = getLlmConfig(task);
+    provider = config.provider === 'openai'
+      ? createOpenAiCompatibleProvider(config)
+      : createOllamaProvider(config);
+    providers.set(task, provider);
+  }
+  return provider;
+};
+
+/**
+ * Сбросить созданные провайдеры (после изменения LLM_* в окружении, например в тестах)
+ */
+export const resetLlmProviders = (): void => {
+  providers.clear();
+};
+
+/**
+ * Получить имя модели задачи (для provenance и логов)
+ */
+export const getLlmModel = (task: LlmTask): string => getLlmProvider(task).model;
+
+/**
+ * Проверить доступность LLM для задачи
+ * @returns true если сервер отвечает
+ */
+export const checkLlmHealth = (task: LlmTask): Promise<boolean> =>
+  getLlmProvider(task).checkHealth();
+
+/**
+ * Сгенерировать текст с повторами при сбоях
+ * @param task - задача (определяет провайдера и модель)
+ * @param prompt - промпт для модели
+ * @param options - системный промпт, температура и т.п.
+ * @returns сгенерированный текст
+ */
+export const callLlm = async (
+  task: LlmTask,
+  prompt: string,
+  options: LlmGenerateOptions = {}
+): Promise<string> => {
+  const provider = getLlmProvider(task);
+
+  logger.info('Calling LLM', {
+    task,
+    provider: provider.name,
+    model: provider.model,
+    promptLength: prompt.length,
+    hasSystem: !!options.system,
+  });
+
+  const startTime = Date.now();
+
+  for (let attempt = 1; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
+    try {
+      const response = await provider.generate(prompt, options);
+
+      logger.info('LLM response received', {
+        task,
+        model: provider.model,
+        responseLength: response.length,
+        duration_ms: Date.now() - startTime,
+      });
+
+      return response;
+    } catch (err) {
+      const error = err instanceof LlmError ? err : new LlmError(String(err), provider.name);
+      logger.error('LLM request failed', { task, attempt, error: error.message });
+
+      if (attempt === RETRY_CONFIG.maxRetries || options.signal?.aborted) {
+        throw error;
+      }
+
+      // Ждем перед retry
+      const waitTime = attempt * RETRY_CONFIG.backoffMs;
+      logger.info(`Retrying LLM in ${waitTime}ms...`);
+      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    }
+  }
+
+  throw new LlmError('Failed to call LLM after all retries', provider.name);
+};
+
+/**
+ * Сгенерировать текст потоково
+ * Повторов нет: после первого фрагмента повторить запрос без дублирования текста нельзя.
+ * @param task - задача (определяет провайдера и модель)
+ * @param prompt - промпт для модели
+ * @param options - обработчик фрагментов, сигнал отмены и т.п.
+ * @returns полный сгенерированный текст
+ */
+export const streamLlm = async (
+  task: LlmTask,
+  prompt: string,
+  options: LlmStreamOptions
+): Promise<string> => {
+  const provider = getLlmProvider(task);
+
+  logger.info('Streaming from LLM', {
+    task,
+    provider: provider.name,
+    model: provider.model,
+    promptLength: prompt.length,
+  });
+
+  const startTime = Date.now();
+  const text = await provider.stream(prompt, options);
+
+  logger.info('LLM stream finished', {
+    task,
+    model: provider.model,
+    responseLength: text.length,
+    duration_ms: Date.now() - startTime,
+  });
+
+  return text;
+};
+
+/**
+ * Параметры генерации JSON
+ */
+export interface LlmJsonOptions {
+  /** Схема ответа: передаётся модели, ответ проверяется и исправляется по ней */
+  schema?: JsonSchema;
+  /** Сколько раз просить модель исправить нарушения схемы */
+  maxCorrections?: number;
+  /** Вызывается, если ответ принят после удаления невалидных необязательных полей */
+  onDroppedViolations?: (violations: SchemaViolation[]) => void;
+}
+
+/**
+ * Извлечь JSON из ответа модели
+ * Убирает markdown-блоки, текст вокруг JSON и висячие запятые
+ */
+const parseLlmJson = (response: string): { ok: true; value: unknown } | { ok: false; error: string } => {
+  let jsonStr = response.trim();
+
+  // Убрать markdown code blocks если есть
+  const fenced = jsonStr.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) jsonStr = fenced[1];
+
+  try {
+    return { ok: true, value: JSON.parse(jsonStr) };
+  } catch (err) {
+    // Текст до/после JSON и висячие запятые
+    const start = jsonStr.search(/[[{]/);
+    const end = Math.max(jsonStr.lastIndexOf('}'), jsonStr.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      const repaired = jsonStr.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+      try {
+        return { ok: true, value: JSON.parse(repaired) };
+      } catch {
+        // вернём исходную ошибку
+      }
+    }
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+/**
+ * Промпт с просьбой исправить конкретные поля предыдущего ответа
+ */
+const buildCorrectionPrompt = (
+  prompt: string,
+  previousResponse: string,
+  violations: SchemaViolation[]
+): string => `${prompt}
+
+---
+YOUR PREVIOUS ANSWER:
+${previousResponse.slice(0, 8000)}
+
+The previous answer does not match the expected JSON schema:
+${formatSchemaViolations(violations)}
+
+Return the complete corrected JSON. Fix the listed fields and keep all other fields unchanged.`;
+
+/**
+ * Сгенерировать и распарсить JSON
+ * Со схемой: ответ приводится к схеме (validateJsonSchema), при нарушениях модель
+ * получает промпт с перечнем полей для исправления. Если после всех исправлений
+ * остались неисправимые нарушения (корень не того типа, нет обязательного поля),
+ * выбрасывается LlmSchemaError со списком нарушений; остальные невалидные поля
+ * удаляются из результата и передаются в onDroppedViolations.
+ * @param task - задача (определяет провайдера и модель)
+ * @param prompt - промпт
+ * @param options - схема ответа и число исправлений
+ * @returns распарсенный JSON
+ */
+export const callLlmForJson = async <T>(
+  task: LlmTask,
+  prompt: string,
+  options: LlmJsonOptions = {}
+): Promise<T> => {
+  const { schema, maxCorrections = JSON_CONFIG.maxCorrections, onDroppedViolations } = options;
+  const providerName = getLlmProvider(task).name;
+
+  const schemaHint = schema
+    ? `\n\nExpected JSON Schema:\n${JSON.stringify(schema)}`
+    : '';
+
+  const systemPrompt = `You are a data extraction assistant. Extract information from the provided text and return it as valid JSON.
+Only output valid JSON, nothing else. Do not include any explanations, markdown formatting, or code blocks - just pure JSON.${schemaHint}`;
+
+  let currentPrompt = prompt;
+  let violations: SchemaViolation[] = [];
+
+  for (let attempt = 0; attempt <= maxCorrections; attempt++) {
+    const response = await callLlm(task, currentPrompt, {
+      system: systemPrompt,
+      temperature: 0.1,
+      jsonSchema: schema,
+    });
+
+    const parsed = parseLlmJson(response);
+
+    if (!parsed.ok) {
+      logger.error('Failed to parse LLM JSON response', {
+        task,
+        attempt,
+        response: response.substring(0, 500),
+        error: parsed.error,
+      });
+      // Без схемы исправления не запрашиваем: как и раньше, это ошибка
+      if (!schema) {
+        throw new LlmError('Failed to parse JSON from LLM response', providerName);
+      }
+      violations = [{ path: '', message: `invalid JSON: ${parsed.error}`, fatal: true }];
+    } else if (!schema) {
+      return parsed.value as T;
+    } else {
+      const result = validateJsonSchema<T>(parsed.value, schema);
+      violations = result.violations;
+
+      if (result.repairs.length > 0) {
+        logger.debug('LLM JSON repaired', { task, repairs: result.repairs.slice(0, 20) });
+      }
+
+      const fatal = violations.some((v) => v.fatal);
+      if (violations.length === 0 || (!fatal && attempt === maxCorrections)) {
+        if (violations.length > 0) {
+          logger.warn('LLM JSON fields dropped after validation', {
+            task,
+            violations: violations.slice(0, 20),
+          });
+          onDroppedViolations?.(violations);
+        }
+        return result.value;
+      }
+    }
+
+    if (attempt < maxCorrections) {
+      logger.info('LLM JSON does not match schema, requesting correction', {
+        task,
+        attempt: attempt + 1,
+        violations: violations.length,
+      });
+      currentPrompt = buildCorrectionPrompt(prompt, response, violations);
+    }
+  }
+
+  throw new LlmSchemaError(
+    `LLM response does not match schema: ${violations.length} violation(s)`,
+    violations,
+    providerName
+  );
+};
@@ -0,0 +1,138 @@
+/**
+ * LLM-провайдер Ollama (нативный API /api/generate)
+ */
+
+import { logger } from '../logger.ts';
+import type { LlmTaskConfig } from '../../config/env.ts';
+import { LlmError, type LlmGenerateOptions, type LlmProvider } from './types.ts';
+import { normalizeError, postJson, readLines } from './http.ts';
+
+/**
+ * Ответ (или фрагмент потока) Ollama /api/generate
+ */
+interface OllamaResponse {
+  model: string;
+  created_at: string;
+  response: string;
+  done: boolean;
+  error?: string;
+  context?: number[];
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  eval_duration?: number;
+}
+
+/**
+ * Создать провайдер Ollama
+ * @param config - адрес сервера и модель
+ */
+export const createOllamaProvider = (config: LlmTaskConfig): LlmProvider => {
+  const { baseUrl, model } = config;
+
+  const buildBody = (
+    prompt: string,
+    options: LlmGenerateOptions,
+    stream: boolean
+  ): Record<string, unknown> => {
+    const body: Record<string, unknown> = {
+      model,
+      prompt,
+      stream,
+      options: {
+        temperature: options.temperature ?? 0.1,
+        num_predict: options.maxTokens ?? 4096,
+      },
+    };
+    if (options.system) body.system = options.system;
+    // Структурированный вывод: модель генерирует JSON строго по схеме
+    if (options.jsonSchema) body.format = options.jsonSchema;
+    return body;
+  };
+
+  return {
+    name: 'ollama',
+    model,
+    baseUrl,
+
+    async generate(prompt, options = {}) {
+      const { response, dispose } = await postJson(
+        'ollama',
+        `${baseUrl}/api/generate`,
+        buildBody(prompt, options, false),
+        { signal: options.signal }
+      );
+
+      try {
+        const data: OllamaResponse = await response.json();
+
+        logger.debug('Ollama response received', {
+          model: data.model,
+          responseLength: data.response.length,
+          eval_count: data.eval_count,
+        });
+
+        return data.response;
+      } catch (err) {
+        throw normalizeError('ollama', err, options.signal);
+      } finally {
+        dispose();
+      }
+    },
+
+    async stream(prompt, options) {
+      const { response, touch, dispose } = await postJson(
+        'ollama',
+        `${baseUrl}/api/generate`,
+        buildBody(prompt, options, true),
+        { signal: options.signal }
+      );
+
+      // Ollama отдаёт NDJSON: одна строка — один фрагмент ответа
+      let text = '';
+      try {
+        await readLines(response, (line) => {
+          const chunk: OllamaResponse = JSON.parse(line);
+          if (chunk.error) {
+            throw new LlmError(`Ollama stream error: ${chunk.error}`, 'ollama');
+          }
+
+          if (chunk.response) {
+            text += chunk.response;
+            options.onToken(chunk.response);
+          }
+
+          return chunk.done;
+        }, touch);
+
+        return text;
+      } catch (err) {
+        throw normalizeError('ollama', err, options.signal);
+      } finally {
+        dispose();
+      }
+    },
+
+    async checkHealth() {
+      try {
+        const response = await fetch(`${baseUrl}/api/tags`, {
+          signal: AbortSignal.timeout(5000),
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+
+    async listModels() {
+      const response = await fetch(`${baseUrl}/api/tags`);
+      if (!response.ok) {
+        throw new LlmError('Failed to get models', 'ollama', response.status);
+      }
+
+      const data = await response.json();
+      return data.models?.map((m: { name: string }) => m.name) ?? [];
+    },
+  };
+};
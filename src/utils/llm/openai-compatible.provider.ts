@@ -0,0 +1,141 @@
+/**
+ * LLM-провайдер для OpenAI-совместимых серверов (/v1/chat/completions)
+ * llama.cpp server, vLLM, LM Studio и т.п.
+ */
+
+import { logger } from '../logger.ts';
+import type { LlmTaskConfig } from '../../config/env.ts';
+import { LlmError, type LlmGenerateOptions, type LlmProvider } from './types.ts';
+import { normalizeError, postJson, readLines } from './http.ts';
+
+/**
+ * Ответ /chat/completions
+ */
+interface ChatCompletionResponse {
+  model: string;
+  choices: Array<{
+    message?: { content: string | null };
+    delta?: { content?: string | null };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+/**
+ * Создать провайдер для OpenAI-совместимого сервера
+ * @param config - адрес вместе с /v1, модель и (необязательно) API-ключ
+ */
+export const createOpenAiCompatibleProvider = (config: LlmTaskConfig): LlmProvider => {
+  const { baseUrl, model, apiKey } = config;
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const buildBody = (
+    prompt: string,
+    options: LlmGenerateOptions,
+    stream: boolean
+  ): Record<string, unknown> => ({
+    model,
+    messages: [
+      ...(options.system ? [{ role: 'system', content: options.system }] : []),
+      { role: 'user', content: prompt },
+    ],
+    temperature: options.temperature ?? 0.1,
+    max_tokens: options.maxTokens ?? 4096,
+    stream,
+  });
+
+  return {
+    name: 'openai',
+    model,
+    baseUrl,
+
+    async generate(prompt, options = {}) {
+      const { response, dispose } = await postJson(
+        'openai',
+        `${baseUrl}/chat/completions`,
+        buildBody(prompt, options, false),
+        { headers, signal: options.signal }
+      );
+
+      try {
+        const data: ChatCompletionResponse = await response.json();
+        const content = data.choices[0]?.message?.content;
+        if (typeof content !== 'string') {
+          throw new LlmError('Empty completion from OpenAI-compatible server', 'openai', 502, data);
+        }
+
+        logger.debug('OpenAI-compatible response received', {
+          model: data.model,
+          responseLength: content.length,
+          completion_tokens: data.usage?.completion_tokens,
+        });
+
+        return content;
+      } catch (err) {
+        throw normalizeError('openai', err, options.signal);
+      } finally {
+        dispose();
+      }
+    },
+
+    async stream(prompt, options) {
+      const { response, touch, dispose } = await postJson(
+        'openai',
+        `${baseUrl}/chat/completions`,
+        buildBody(prompt, options, true),
+        { headers, signal: options.signal }
+      );
+
+      // Поток SSE: "data: {...}" на каждый фрагмент, "data: [DONE]" в конце
+      let text = '';
+      try {
+        await readLines(response, (line) => {
+          if (!line.startsWith('data:')) return false;
+
+          const payload = line.slice(5).trim();
+          if (payload === '[DONE]') return true;
+
+          const chunk: ChatCompletionResponse = JSON.parse(payload);
+          const token = chunk.choices[0]?.delta?.content;
+          if (token) {
+            text += token;
+            options.onToken(token);
+          }
+
+          return false;
+        }, touch);
+
+        return text;
+      } catch (err) {
+        throw normalizeError('openai', err, options.signal);
+      } finally {
+        dispose();
+      }
+    },
+
+    async checkHealth() {
+      try {
+        const response = await fetch(`${baseUrl}/models`, {
+          headers,
+          signal: AbortSignal.timeout(5000),
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+
+    async listModels() {
+      const response = await fetch(`${baseUrl}/models`, { headers });
+      if (!response.ok) {
+        throw new LlmError('Failed to get models', 'openai', response.status);
+      }
+
+      const data = await response.json();
+      return data.data?.map((m: { id: string }) => m.id) ?? [];
+    },
+  };
+};
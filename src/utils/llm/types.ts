@@ -0,0 +1,74 @@
+/**
+ * Общие типы LLM-провайдеров
+ */
+
+import type { LlmProviderName } from '../../config/env.ts';
+import type { JsonSchema, SchemaViolation } from '../json-schema.ts';
+
+/**
+ * Параметры генерации
+ */
+export interface LlmGenerateOptions {
+  /** Системный промпт */
+  system?: string;
+  temperature?: number;
+  /** Максимум токенов ответа */
+  maxTokens?: number;
+  /** Схема JSON-ответа (Ollama передаёт её в format для структурированного вывода) */
+  jsonSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+/**
+ * Параметры потоковой генерации
+ */
+export interface LlmStreamOptions extends LlmGenerateOptions {
+  /** Очередной фрагмент текста */
+  onToken: (token: string) => void;
+}
+
+/**
+ * LLM-провайдер: один протокол (Ollama, OpenAI-совместимый) с конкретным адресом и моделью
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  readonly baseUrl: string;
+  /** Сгенерировать ответ целиком (один запрос, без повторов) */
+  generate(prompt: string, options?: LlmGenerateOptions): Promise<string>;
+  /** Сгенерировать ответ потоково; возвращает полный текст */
+  stream(prompt: string, options: LlmStreamOptions): Promise<string>;
+  /** Проверить доступность сервера */
+  checkHealth(): Promise<boolean>;
+  /** Список моделей на сервере */
+  listModels(): Promise<string[]>;
+}
+
+/**
+ * Ошибка LLM-провайдера
+ */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public provider?: LlmProviderName,
+    public statusCode?: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+/**
+ * Ответ модели не прошёл проверку по схеме и после исправлений
+ */
+export class LlmSchemaError extends LlmError {
+  constructor(
+    message: string,
+    public violations: SchemaViolation[],
+    provider?: LlmProviderName
+  ) {
+    super(message, provider, undefined, { violations });
+    this.name = 'LlmSchemaError';
+  }
+}
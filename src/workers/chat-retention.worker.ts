@@ -0,0 +1,60 @@
+import { logger } from '../utils/logger.ts';
+import { purgeExpiredChatSessions } from '../services/chatbot.service.ts';
+
+/**
+ * Конфигурация очистки сессий чата
+ */
+const RETENTION_CONFIG = {
+  /** Интервал очистки в миллисекундах (по умолчанию 1 час) */
+  intervalMs: parseInt(Deno.env.get('CHAT_RETENTION_INTERVAL_MS') ?? String(60 * 60 * 1000), 10),
+
+  /** Включена ли очистка */
+  enabled: Deno.env.get('CHAT_RETENTION_ENABLED') !== 'false',
+};
+
+/**
+ * ID интервала для возможности остановки
+ */
+let retentionIntervalId: number | null = null;
+
+/**
+ * Выполнить один цикл очистки
+ */
+const runRetentionCycle = async (): Promise<void> => {
+  try {
+    await purgeExpiredChatSessions();
+  } catch (err) {
+    logger.error('Chat retention cycle failed', err);
+  }
+};
+
+/**
+ * Запустить периодическую очистку истёкших сессий чата
+ */
+export const startChatRetentionWorker = (): void => {
+  if (!RETENTION_CONFIG.enabled) {
+    logger.info('Chat retention worker is disabled');
+    return;
+  }
+
+  if (retentionIntervalId !== null) {
+    logger.warn('Chat retention worker already running');
+    return;
+  }
+
+  runRetentionCycle();
+  retentionIntervalId = setInterval(runRetentionCycle, RETENTION_CONFIG.intervalMs);
+
+  logger.info('Chat retention worker started', { interval_ms: RETENTION_CONFIG.intervalMs });
+};
+
+/**
+ * Остановить очистку сессий чата
+ */
+export const stopChatRetentionWorker = (): void => {
+  if (retentionIntervalId !== null) {
+    clearInterval(retentionIntervalId);
+    retentionIntervalId = null;
+    logger.info('Chat retention worker stopped');
+  }
+};
@@ -9,3 +9,8 @@ export {
   triggerManualUpdate,
   updateUniversityNow,
 } from './update.worker.ts';
+
+export {
+  startChatRetentionWorker,
+  stopChatRetentionWorker,
+} from './chat-retention.worker.ts';
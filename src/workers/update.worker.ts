@@ -1,15 +1,32 @@
 import { logger } from '../utils/logger.ts';
 import { query } from '../config/database.ts';
 import { checkAndUpdateWebsite, resetAndReparseUniversity } from '../services/parser.service.ts';
+import {
+  claimNextParseJob,
+  completeParseJob,
+  enqueueChecksForAllSources,
+  enqueueParseJob,
+  failParseJob,
+  heartbeatParseJob,
+  PARSE_JOB_CONFIG,
+  PARSE_JOB_PRIORITY,
+  type ParseJob,
+  requeueStaleParseJobs,
+} from '../services/parse-jobs.service.ts';
+import { enqueueDueSourceChecks, scheduleNextSourceCheck } from '../services/source-schedules.service.ts';
 
 /**
  * Конфигурация воркера
  */
 const WORKER_CONFIG = {
-  /** Интервал проверки в миллисекундах (60 сек для MVP, 24 часа для прода) */
-  intervalMs: Deno.env.get('DENO_ENV') === 'production' 
-    ? 24 * 60 * 60 * 1000  // 24 часа
-    : 60 * 1000,           // 60 секунд для dev
+  /**
+   * Как часто искать источники, которым пора на проверку (мс)
+   * Интервал каждого источника задаётся его расписанием (university_sources.refresh_*)
+   */
+  scheduleTickMs: 60 * 1000,
+  
+  /** Как часто забирать задания из очереди (мс) */
+  pollIntervalMs: 5000,
   
   /** Максимум одновременных обновлений */
   maxConcurrent: 3,
@@ -17,7 +34,7 @@ const WORKER_CONFIG = {
   /** Пауза между запросами (мс) */
   delayBetweenRequests: 2000,
   
-  /** Включен ли воркер */
+  /** Включены ли плановые проверки */
   enabled: Deno.env.get('UPDATE_WORKER_ENABLED') !== 'false',
 };
 
@@ -40,37 +57,49 @@ interface UpdateSourceResult {
   success: boolean;
   updated: boolean;
   error?: string;
+  preservedFields?: string[];
+  /** Сайт попросил повторить не раньше этого времени (Retry-After) */
+  retryAt?: string;
+  /** Изменения ждут проверки администратором (publish_mode = review) */
+  stagedChangeId?: string;
   duration_ms: number;
 }
 
 /**
- * ID интервала для возможности остановки
+ * ID таймеров для возможности остановки
  */
-let workerIntervalId: number | null = null;
+let pollIntervalId: number | null = null;
+let scheduleIntervalId: number | null = null;
+let scheduleTimeoutId: number | null = null;
 
 /**
- * Флаг что обновление сейчас выполняется
+ * Задания, выполняемые этим процессом
  */
-let isUpdating = false;
+const activeJobs = new Set<string>();
 
 /**
- * Получить список источников для обновления
- * @returns список источников отсортированный по давности проверки
+ * Флаг что идёт выборка заданий (не запускать параллельно)
  */
-const getSourcesForUpdate = async (): Promise<UpdateSource[]> => {
-  const sources = await query<UpdateSource>(`
-    SELECT 
-      s.id,
-      s.university_id,
-      s.url,
-      u.name as university_name
-    FROM university_sources s
-    JOIN universities u ON u.id = s.university_id
-    WHERE s.is_active = true AND u.is_active = true
-    ORDER BY s.last_checked_at ASC NULLS FIRST
-  `);
-  
-  return sources;
+let isPolling = false;
+
+let workerId: string | null = null;
+
+/**
+ * Идентификатор воркера для locked_by
+ * Уникален для каждого процесса: несколько процессов на одном хосте (или с
+ * одинаковым UPDATE_WORKER_ID) не продлевают и не перехватывают чужие задания.
+ */
+const getWorkerId = (): string => {
+  if (!workerId) {
+    let name: string;
+    try {
+      name = Deno.env.get('UPDATE_WORKER_ID') ?? Deno.hostname();
+    } catch {
+      name = 'worker';
+    }
+    workerId = `${name}:${Deno.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  }
+  return workerId;
 };
 
 /**
@@ -105,6 +134,9 @@ const updateSource = async (source: UpdateSource, forceUpdate: boolean = false):
       success: !result.error,
       updated: result.updated,
       error: result.error,
+      preservedFields: result.preservedFields,
+      retryAt: result.retryAt,
+      stagedChangeId: result.stagedChangeId,
       duration_ms: duration,
     };
   } catch (err) {
@@ -128,231 +160,18 @@ const updateSource = async (source: UpdateSource, forceUpdate: boolean = false):
   }
 };
 
-/**
- * Обработать пакет источников с ограничением параллелизма
- * @param sources - список источников
- * @param concurrency - максимум одновременных запросов
- * @returns результаты обновления
- */
-const processBatch = async (
-  sources: UpdateSource[],
-  concurrency: number
-): Promise<UpdateSourceResult[]> => {
-  const results: UpdateSourceResult[] = [];
-  const queue = [...sources];
-  const activePromises: Promise<void>[] = [];
-  
-  const processNext = async (): Promise<void> => {
-    const source = queue.shift();
-    if (!source) return;
-    
-    const result = await updateSource(source);
-    results.push(result);
-    
-    // Пауза между запросами
-    await new Promise((resolve) => 
-      setTimeout(resolve, WORKER_CONFIG.delayBetweenRequests)
-    );
-    
-    // Обработать следующий
-    await processNext();
-  };
-  
-  // Запустить начальные воркеры
-  for (let i = 0; i < Math.min(concurrency, sources.length); i++) {
-    activePromises.push(processNext());
-  }
-  
-  // Ждать завершения всех
-  await Promise.all(activePromises);
-  
-  return results;
-};
-
-/**
- * Выполнить цикл обновления
- */
-const runUpdateCycle = async (): Promise<void> => {
-  if (isUpdating) {
-    logger.warn('Update cycle already in progress, skipping');
-    return;
-  }
-  
-  isUpdating = true;
-  const cycleStartTime = Date.now();
-  
-  logger.info('=== Starting update cycle ===');
-  
-  try {
-    // Получить источники
-    const sources = await getSourcesForUpdate();
-    
-    if (sources.length === 0) {
-      logger.info('No sources to update');
-      return;
-    }
-    
-    logger.info(`Found ${sources.length} sources to check`);
-    
-    // Обработать источники
-    const results = await processBatch(sources, WORKER_CONFIG.maxConcurrent);
-    
-    // Подсчитать статистику
-    const stats = {
-      total: results.length,
-      successful: results.filter((r) => r.success).length,
-      updated: results.filter((r) => r.updated).length,
-      failed: results.filter((r) => !r.success).length,
-      duration_ms: Date.now() - cycleStartTime,
-    };
-    
-    logger.info('=== Update cycle completed ===', stats);
-    
-    // Логировать детали ошибок
-    const errors = results.filter((r) => !r.success);
-    if (errors.length > 0) {
-      logger.warn('Failed updates:', {
-        count: errors.length,
-        sources: errors.map((e) => ({
-          name: e.universityName,
-          error: e.error,
-        })),
-      });
-    }
-  } catch (err) {
-    logger.error('Update cycle failed', err);
-  } finally {
-    isUpdating = false;
-  }
-};
-
-/**
- * Запустить воркер обновления
- */
-export const startUpdateWorker = (): void => {
-  if (!WORKER_CONFIG.enabled) {
-    logger.info('Update worker is disabled');
-    return;
-  }
-  
-  if (workerIntervalId !== null) {
-    logger.warn('Update worker already running');
-    return;
-  }
-  
-  logger.info('Starting update worker', {
-    interval_ms: WORKER_CONFIG.intervalMs,
-    interval_human: WORKER_CONFIG.intervalMs >= 3600000 
-      ? `${WORKER_CONFIG.intervalMs / 3600000} hours`
-      : `${WORKER_CONFIG.intervalMs / 1000} seconds`,
-    maxConcurrent: WORKER_CONFIG.maxConcurrent,
-  });
-  
-  // Запустить первый цикл через 10 секунд после старта
-  setTimeout(() => {
-    runUpdateCycle();
-  }, 10000);
-  
-  // Запланировать регулярные обновления
-  workerIntervalId = setInterval(() => {
-    runUpdateCycle();
-  }, WORKER_CONFIG.intervalMs);
-  
-  logger.info('Update worker started');
-};
-
-/**
- * Остановить воркер обновления
- */
-export const stopUpdateWorker = (): void => {
-  if (workerIntervalId !== null) {
-    clearInterval(workerIntervalId);
-    workerIntervalId = null;
-    logger.info('Update worker stopped');
-  }
-};
-
-/**
- * Проверить статус воркера
- */
-export const getWorkerStatus = (): {
-  running: boolean;
-  isUpdating: boolean;
-  config: typeof WORKER_CONFIG;
-} => {
-  return {
-    running: workerIntervalId !== null,
-    isUpdating,
-    config: WORKER_CONFIG,
-  };
-};
-
-/**
- * Запустить обновление вручную (для админ API)
- */
-export const triggerManualUpdate = async (): Promise<{
-  total: number;
-  updated: number;
-  failed: number;
-  duration_ms: number;
-}> => {
-  logger.info('Manual update triggered');
-  
-  const startTime = Date.now();
-  const sources = await getSourcesForUpdate();
-  const results = await processBatch(sources, WORKER_CONFIG.maxConcurrent);
-  
-  return {
-    total: results.length,
-    updated: results.filter((r) => r.updated).length,
-    failed: results.filter((r) => !r.success).length,
-    duration_ms: Date.now() - startTime,
-  };
-};
-
-/**
- * Обновить конкретный университет
- * @param universityId - ID университета
- * @param forceUpdate - принудительное обновление (игнорировать хэш и completeness)
- * @returns результат обновления
- */
-export const updateUniversityNow = async (
-  universityId: string,
-  forceUpdate: boolean = true // По умолчанию принудительно обновляем при ручном запуске
-): Promise<UpdateSourceResult | null> => {
-  logger.info('Manual university update triggered', { universityId, forceUpdate });
-  
-  // Найти источник
-  const sources = await query<UpdateSource>(`
-    SELECT 
-      s.id,
-      s.university_id,
-      s.url,
-      u.name as university_name
-    FROM university_sources s
-    JOIN universities u ON u.id = s.university_id
-    WHERE s.university_id = $1 AND s.is_active = true
-    LIMIT 1
-  `, [universityId]);
-  
-  if (sources.length === 0) {
-    logger.warn('No active source found for university', { universityId });
-    return null;
-  }
-  
-  return await updateSource(sources[0], forceUpdate);
-};
-
 /**
  * Полностью сбросить и перепарсить университет с нуля
  * Удаляет все старые профили и создаёт новый
  * @param universityId - ID университета
+ * @param overwriteManual - не сохранять ручные правки администратора
  * @returns результат обновления
  */
-export const resetUniversityNow = async (
-  universityId: string
+const reparseUniversity = async (
+  universityId: string,
+  overwriteManual: boolean = false
 ): Promise<UpdateSourceResult | null> => {
-  logger.info('University RESET triggered - will delete old profile and reparse', { universityId });
+  logger.info('University RESET triggered - will delete old profile and reparse', { universityId, overwriteManual });
   
   // Найти источник
   let sources = await query<UpdateSource>(`
@@ -432,7 +251,8 @@ export const resetUniversityNow = async (
     const result = await resetAndReparseUniversity(
       source.university_id,
       source.id,
-      source.url
+      source.url,
+      overwriteManual
     );
     
     return {
@@ -441,6 +261,8 @@ export const resetUniversityNow = async (
       success: !result.error,
       updated: result.updated,
       error: result.error,
+      preservedFields: result.preservedFields,
+      retryAt: result.retryAt,
       duration_ms: Date.now() - startTime,
     };
   } catch (err) {
@@ -455,3 +277,285 @@ export const resetUniversityNow = async (
     };
   }
 };
+
+/**
+ * Найти активный источник университета
+ * @param sourceId - конкретный источник (если задан в задании)
+ */
+const getSourceForUniversity = async (
+  universityId: string,
+  sourceId?: string | null
+): Promise<UpdateSource | null> => {
+  const sources = await query<UpdateSource>(`
+    SELECT 
+      s.id,
+      s.university_id,
+      s.url,
+      u.name as university_name
+    FROM university_sources s
+    JOIN universities u ON u.id = s.university_id
+    WHERE s.university_id = $1 AND s.is_active = true
+      AND ($2::uuid IS NULL OR s.id = $2::uuid)
+    ORDER BY s.last_checked_at ASC NULLS FIRST
+    LIMIT 1
+  `, [universityId, sourceId ?? null]);
+  
+  return sources[0] ?? null;
+};
+
+/**
+ * Выполнить задание из очереди и записать результат
+ * @param job - задание в статусе running
+ */
+const runParseJob = async (job: ParseJob): Promise<void> => {
+  logger.info('Running parse job', {
+    id: job.id,
+    type: job.type,
+    university: job.universityName,
+    attempt: job.attempts,
+    priority: job.priority,
+  });
+  
+  // Продлевать блокировку, пока идёт обход и парсинг: иначе долгое задание
+  // будет возвращено в очередь и выполнено вторым воркером
+  const heartbeatId = setInterval(() => {
+    heartbeatParseJob(job.id, getWorkerId())
+      .then((owned) => {
+        if (!owned) logger.warn('Parse job lock lost', { id: job.id });
+      })
+      .catch((err) => logger.error('Failed to extend parse job lock', { id: job.id, error: err }));
+  }, PARSE_JOB_CONFIG.heartbeatMs);
+
+  let result: UpdateSourceResult | null;
+  try {
+    if (job.type === 'reparse') {
+      result = await reparseUniversity(job.universityId, job.options.overwriteManual ?? false);
+    } else {
+      const source = await getSourceForUniversity(job.universityId, job.sourceId);
+      result = source ? await updateSource(source, job.options.forceUpdate ?? false) : null;
+    }
+  } catch (err) {
+    await failParseJob(job.id, err instanceof Error ? err.message : String(err));
+    return;
+  } finally {
+    clearInterval(heartbeatId);
+  }
+  
+  if (!result) {
+    await failParseJob(job.id, 'No active source found for this university', { retry: false });
+    return;
+  }
+  
+  if (!result.success) {
+    await failParseJob(job.id, result.error ?? 'Unknown error', {
+      retryAt: result.retryAt ? new Date(result.retryAt) : undefined,
+    });
+    return;
+  }
+  
+  await completeParseJob(job.id, {
+    updated: result.updated,
+    preserved_fields: result.preservedFields ?? [],
+    staged_change_id: result.stagedChangeId ?? null,
+    duration_ms: result.duration_ms,
+  });
+  
+  // Принудительные обновления не говорят о частоте изменений сайта
+  try {
+    await scheduleNextSourceCheck(result.sourceId, {
+      adapt: job.type === 'check' && !job.options.forceUpdate,
+    });
+  } catch (err) {
+    logger.error('Failed to schedule next source check', { sourceId: result.sourceId, error: err });
+  }
+};
+
+/**
+ * Забрать готовые задания до лимита параллелизма
+ * Каждое место освобождается после задания и паузы между запросами.
+ */
+const pollParseJobs = async (): Promise<void> => {
+  if (isPolling) return;
+  isPolling = true;
+  
+  try {
+    while (activeJobs.size < WORKER_CONFIG.maxConcurrent) {
+      const job = await claimNextParseJob(getWorkerId());
+      if (!job) break;
+      
+      activeJobs.add(job.id);
+      runParseJob(job)
+        .catch((err) => logger.error('Parse job crashed', { id: job.id, error: err }))
+        .finally(() => {
+          setTimeout(() => {
+            activeJobs.delete(job.id);
+            pollParseJobs();
+          }, WORKER_CONFIG.delayBetweenRequests);
+        });
+    }
+  } catch (err) {
+    logger.error('Failed to poll parse jobs', err);
+  } finally {
+    isPolling = false;
+  }
+};
+
+/**
+ * Плановая постановка проверок источников, которым пора по расписанию
+ */
+const scheduleSourceChecks = async (): Promise<void> => {
+  try {
+    await requeueStaleParseJobs();
+    const queued = await enqueueDueSourceChecks();
+    if (queued > 0) {
+      logger.info('=== Scheduled source checks ===', { queued });
+    }
+    await pollParseJobs();
+  } catch (err) {
+    logger.error('Failed to schedule source checks', err);
+  }
+};
+
+/**
+ * Запустить воркер обновления
+ * Очередь заданий обрабатывается всегда (ручные запуски из админки),
+ * UPDATE_WORKER_ENABLED управляет только плановыми проверками.
+ */
+export const startUpdateWorker = (): void => {
+  if (pollIntervalId !== null) {
+    logger.warn('Update worker already running');
+    return;
+  }
+  
+  logger.info('Starting update worker', {
+    workerId: getWorkerId(),
+    scheduled: WORKER_CONFIG.enabled,
+    scheduleTickMs: WORKER_CONFIG.scheduleTickMs,
+    maxConcurrent: WORKER_CONFIG.maxConcurrent,
+  });
+  
+  // Задания процессов, которые остановились, не завершив их
+  requeueStaleParseJobs()
+    .catch((err) => logger.error('Failed to requeue stale parse jobs', err))
+    .finally(() => pollParseJobs());
+  
+  pollIntervalId = setInterval(() => {
+    pollParseJobs();
+  }, WORKER_CONFIG.pollIntervalMs);
+  
+  if (WORKER_CONFIG.enabled) {
+    // Первая плановая проверка через 10 секунд после старта
+    scheduleTimeoutId = setTimeout(() => {
+      scheduleTimeoutId = null;
+      scheduleSourceChecks();
+    }, 10000);
+    
+    scheduleIntervalId = setInterval(() => {
+      scheduleSourceChecks();
+    }, WORKER_CONFIG.scheduleTickMs);
+  } else {
+    logger.info('Scheduled source checks are disabled, processing manual jobs only');
+  }
+  
+  logger.info('Update worker started');
+};
+
+/**
+ * Остановить воркер обновления
+ * Выполняющиеся задания дорабатывают; брошенные вернутся в очередь при следующем старте.
+ */
+export const stopUpdateWorker = (): void => {
+  for (const id of [pollIntervalId, scheduleIntervalId]) {
+    if (id !== null) clearInterval(id);
+  }
+  if (scheduleTimeoutId !== null) clearTimeout(scheduleTimeoutId);
+  
+  if (pollIntervalId !== null) {
+    logger.info('Update worker stopped', { activeJobs: activeJobs.size });
+  }
+  pollIntervalId = null;
+  scheduleIntervalId = null;
+  scheduleTimeoutId = null;
+};
+
+/**
+ * Проверить статус воркера
+ */
+export const getWorkerStatus = (): {
+  running: boolean;
+  isUpdating: boolean;
+  workerId: string;
+  activeJobs: string[];
+  config: typeof WORKER_CONFIG;
+} => {
+  return {
+    running: pollIntervalId !== null,
+    isUpdating: activeJobs.size > 0,
+    workerId: getWorkerId(),
+    activeJobs: [...activeJobs],
+    config: WORKER_CONFIG,
+  };
+};
+
+/**
+ * Поставить проверку всех университетов с ручным приоритетом (для админ API)
+ * @returns сколько заданий добавлено (уже стоящие в очереди не дублируются)
+ */
+export const triggerManualUpdate = async (requestedBy?: string): Promise<{ queued: number }> => {
+  logger.info('Manual update triggered', { requestedBy });
+  
+  const queued = await enqueueChecksForAllSources(PARSE_JOB_PRIORITY.manual, requestedBy);
+  pollParseJobs();
+  
+  return { queued };
+};
+
+/**
+ * Поставить проверку конкретного университета с ручным приоритетом
+ * @param universityId - ID университета
+ * @param forceUpdate - принудительное обновление (игнорировать хэш и completeness)
+ * @returns задание в очереди
+ */
+export const updateUniversityNow = async (
+  universityId: string,
+  forceUpdate: boolean = true, // По умолчанию принудительно обновляем при ручном запуске
+  requestedBy?: string
+): Promise<ParseJob> => {
+  logger.info('Manual university update triggered', { universityId, forceUpdate });
+  
+  const job = await enqueueParseJob({
+    universityId,
+    type: 'check',
+    priority: PARSE_JOB_PRIORITY.manual,
+    options: { forceUpdate },
+    requestedBy,
+  });
+  pollParseJobs();
+  
+  return job;
+};
+
+/**
+ * Поставить полный перепарсинг университета с ручным приоритетом
+ * @param universityId - ID университета
+ * @param overwriteManual - не сохранять ручные правки администратора
+ * @returns задание в очереди
+ */
+export const resetUniversityNow = async (
+  universityId: string,
+  overwriteManual: boolean = false,
+  requestedBy?: string
+): Promise<ParseJob> => {
+  logger.info('University RESET queued', { universityId, overwriteManual });
+  
+  const job = await enqueueParseJob({
+    universityId,
+    type: 'reparse',
+    priority: PARSE_JOB_PRIORITY.manual,
+    options: { overwriteManual },
+    requestedBy,
+  });
+  pollParseJobs();
+  
+  return job;
+};
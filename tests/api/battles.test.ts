@@ -0,0 +1,18 @@
+/**
+ * Тесты API сохранённых сравнений
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import { handler as battleHandler } from '../../routes/api/battles/[id].ts';
+import { handler as recomputeHandler } from '../../routes/api/battles/[id]/recompute.ts';
+import { callRoute } from '../helpers/routes.ts';
+
+Deno.test('battle endpoints reject malformed id', async () => {
+  const res = await callRoute(battleHandler, 'GET', '/api/battles/abc', { params: { id: 'abc' } });
+  assertEquals(res.status, 400);
+
+  const recompute = await callRoute(recomputeHandler, 'POST', '/api/battles/abc/recompute', {
+    params: { id: 'abc' },
+  });
+  assertEquals(recompute.status, 400);
+});
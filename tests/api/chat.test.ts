@@ -0,0 +1,118 @@
+/**
+ * Тесты API чат-бота: валидация, JSON- и SSE-ответы, сессии
+ */
+
+import { assert, assertEquals } from '$std/assert/mod.ts';
+import { handler as chatHandler } from '../../routes/api/chat.ts';
+import { handler as sessionsHandler } from '../../routes/api/chat/sessions/index.ts';
+import { handler as sessionHandler } from '../../routes/api/chat/sessions/[id].ts';
+import { loadLlmFixtures, startFakeLlmServer } from '../helpers/fake_llm.ts';
+import { callRoute, readSseEvents } from '../helpers/routes.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('POST /api/chat rejects invalid body', async () => {
+  const invalidJson = await callRoute(chatHandler, 'POST', '/api/chat', { body: '{' });
+  assertEquals(invalidJson.status, 400);
+  assertEquals((await invalidJson.json()).error, 'Invalid JSON');
+
+  const empty = await callRoute(chatHandler, 'POST', '/api/chat', { body: { message: '  ' } });
+  assertEquals(empty.status, 400);
+  assertEquals((await empty.json()).error, 'Invalid message');
+
+  const language = await callRoute(chatHandler, 'POST', '/api/chat', {
+    body: { message: 'Привет', language: 'ru-RU-x-very-long' },
+  });
+  assertEquals(language.status, 400);
+  assertEquals((await language.json()).error, 'Invalid language');
+});
+
+Deno.test({
+  name: 'chat API on test database',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const db = await createTestDatabase({ seed: true });
+    const llm = startFakeLlmServer(await loadLlmFixtures('chatbot'));
+
+    try {
+      let sessionId = '';
+
+      await t.step('POST /api/chat answers and creates a session', async () => {
+        const res = await callRoute(chatHandler, 'POST', '/api/chat', {
+          body: { message: 'Как поступить в университет?', language: 'ru' },
+          headers: { 'X-Forwarded-For': '10.0.0.2' },
+        });
+        assertEquals(res.status, 200);
+
+        const body = await res.json();
+        assertEquals(body.success, true);
+        assert(body.response.includes('ЕНТ'));
+        sessionId = body.sessionId;
+      });
+
+      await t.step('GET /api/chat/sessions/:id returns the transcript', async () => {
+        const res = await callRoute(sessionHandler, 'GET', `/api/chat/sessions/${sessionId}`, {
+          params: { id: sessionId },
+        });
+        assertEquals(res.status, 200);
+
+        const body = await res.json();
+        assertEquals(body.messages.length, 2);
+        assertEquals(body.messages[0].role, 'user');
+        assertEquals(body.messages[1].role, 'assistant');
+      });
+
+      await t.step('POST /api/chat streams tokens over SSE', async () => {
+        const res = await callRoute(chatHandler, 'POST', '/api/chat', {
+          body: { message: 'Где учиться в Алматы?', sessionId, stream: true },
+          headers: { 'X-Forwarded-For': '10.0.0.2' },
+        });
+        assertEquals(res.headers.get('Content-Type'), 'text/event-stream');
+
+        const events = await readSseEvents(res);
+        assertEquals(events[0], { event: 'session', data: { sessionId } });
+
+        const tokens = events.filter((e) => e.event === 'token');
+        assert(tokens.length > 1);
+
+        const done = events.at(-1)!;
+        assertEquals(done.event, 'done');
+        assertEquals((done.data.citations as unknown[]).length, 2);
+        assertEquals(done.data.sessionId, sessionId);
+      });
+
+      await t.step('streamed exchange is saved to the session', async () => {
+        const res = await callRoute(sessionHandler, 'GET', `/api/chat/sessions/${sessionId}`, {
+          params: { id: sessionId },
+        });
+        const body = await res.json();
+        assertEquals(body.messages.length, 4);
+        assertEquals(body.messages[3].citations.length, 2);
+      });
+
+      await t.step('POST /api/chat/sessions creates an empty session', async () => {
+        const res = await callRoute(sessionsHandler, 'POST', '/api/chat/sessions', {
+          body: { language: 'kk' },
+        });
+        assertEquals(res.status, 201);
+        assertEquals((await res.json()).language, 'kk');
+      });
+
+      await t.step('DELETE /api/chat/sessions/:id removes the session', async () => {
+        const deleted = await callRoute(sessionHandler, 'DELETE', `/api/chat/sessions/${sessionId}`, {
+          params: { id: sessionId },
+        });
+        assertEquals(deleted.status, 200);
+
+        const missing = await callRoute(sessionHandler, 'GET', `/api/chat/sessions/${sessionId}`, {
+          params: { id: sessionId },
+        });
+        assertEquals(missing.status, 404);
+      });
+    } finally {
+      await llm.close();
+      await db.drop();
+    }
+  },
+});
@@ -0,0 +1,38 @@
+/**
+ * Тесты API парсера: авторизация и статус LLM
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import { handler } from '../../routes/api/parser.ts';
+import { FAKE_LLM_MODEL, startFakeLlmServer } from '../helpers/fake_llm.ts';
+import { callRoute } from '../helpers/routes.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('POST /api/parser requires admin key', async () => {
+  const res = await callRoute(handler, 'POST', '/api/parser', { body: { action: 'update-all' } });
+  assertEquals(res.status, 401);
+});
+
+Deno.test({
+  name: 'GET /api/parser reports LLM and source status',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+    const llm = startFakeLlmServer([]);
+
+    try {
+      const res = await callRoute(handler, 'GET', '/api/parser');
+      assertEquals(res.status, 200);
+
+      const body = await res.json();
+      assertEquals(body.ollama, 'connected');
+      assertEquals(body.llm, { status: 'connected', provider: 'ollama', model: FAKE_LLM_MODEL });
+      assertEquals(body.sources.total, 0);
+    } finally {
+      await llm.close();
+      await db.drop();
+    }
+  },
+});
@@ -0,0 +1,21 @@
+/**
+ * Тесты API поиска программ
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import { handler as programsHandler } from '../../routes/api/programs/index.ts';
+import { callRoute } from '../helpers/routes.ts';
+
+Deno.test('GET /api/programs rejects invalid filters', async () => {
+  const tuition = await callRoute(programsHandler, 'GET', '/api/programs?max_tuition=cheap');
+  assertEquals(tuition.status, 400);
+  assertEquals((await tuition.json()).message, 'Invalid max_tuition');
+
+  const deadline = await callRoute(programsHandler, 'GET', '/api/programs?deadline_from=tomorrow');
+  assertEquals(deadline.status, 400);
+  assertEquals((await deadline.json()).message, 'Invalid deadline_from');
+
+  const currency = await callRoute(programsHandler, 'GET', '/api/programs?currency=CNY');
+  assertEquals(currency.status, 400);
+  assertEquals((await currency.json()).message, 'Invalid currency');
+});
@@ -0,0 +1,43 @@
+/**
+ * Тесты API полнотекстового поиска
+ */
+
+import { assert, assertEquals } from '$std/assert/mod.ts';
+import { handler as searchHandler } from '../../routes/api/search/index.ts';
+import { callRoute } from '../helpers/routes.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('GET /api/search validates parameters', async () => {
+  const short = await callRoute(searchHandler, 'GET', '/api/search?q=a');
+  assertEquals(short.status, 400);
+
+  const language = await callRoute(searchHandler, 'GET', '/api/search?q=data&language=de');
+  assertEquals(language.status, 400);
+  assertEquals((await language.json()).error, 'Invalid language');
+
+  const limit = await callRoute(searchHandler, 'GET', '/api/search?q=data&limit=500');
+  assertEquals(limit.status, 400);
+  assertEquals((await limit.json()).error, 'Invalid pagination');
+});
+
+Deno.test({
+  name: 'GET /api/search on seeded database',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+
+    try {
+      const res = await callRoute(searchHandler, 'GET', '/api/search?q=software&language=en');
+      assertEquals(res.status, 200);
+      const body = await res.json();
+      assertEquals(body.success, true);
+      assertEquals(body.total, 1);
+      assertEquals(body.results[0].name_en, 'International IT University');
+      assert(body.results[0].snippet.some((p: { highlight: boolean }) => p.highlight));
+    } finally {
+      await db.drop();
+    }
+  },
+});
@@ -0,0 +1,330 @@
+/**
+ * Тесты API университетов: список, карточка, фильтры и сравнение
+ */
+
+import { assert, assertEquals } from '$std/assert/mod.ts';
+import { handler as listHandler } from '../../routes/api/universities/index.ts';
+import { handler as detailHandler } from '../../routes/api/universities/[id].ts';
+import { clearFilterCache, handler as filteredHandler } from '../../routes/api/universities/filtered.ts';
+import { handler as compareHandler } from '../../routes/api/universities/compare.ts';
+import { handler as battleHandler } from '../../routes/api/battles/[id].ts';
+import { clearBattleCache } from '../../src/services/university-battle.service.ts';
+import { query } from '../../src/config/database.ts';
+import { encodeCursor } from '../../src/utils/keyset.ts';
+import { loadLlmFixtures, startFakeLlmServer } from '../helpers/fake_llm.ts';
+import { callRoute } from '../helpers/routes.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('GET /api/universities/:id rejects malformed id', async () => {
+  const res = await callRoute(detailHandler, 'GET', '/api/universities/abc', {
+    params: { id: 'abc' },
+  });
+  assertEquals(res.status, 400);
+});
+
+Deno.test('GET /api/universities rejects unknown sort and malformed cursor', async () => {
+  const sort = await callRoute(listHandler, 'GET', '/api/universities?sort=popularity');
+  assertEquals(sort.status, 400);
+  assertEquals((await sort.json()).message, 'Invalid sort');
+
+  const order = await callRoute(listHandler, 'GET', '/api/universities?sort=tuition&order=up');
+  assertEquals(order.status, 400);
+  assertEquals((await order.json()).message, 'Invalid order');
+
+  const cursor = await callRoute(filteredHandler, 'GET', '/api/universities/filtered?cursor=not-a-cursor');
+  assertEquals(cursor.status, 400);
+  assertEquals((await cursor.json()).message, 'Invalid cursor');
+
+  // Значение курсора не приводится к int сортировки по стоимости
+  const tampered = encodeCursor({ key: 'tuition:asc', value: 'abc', id: crypto.randomUUID() });
+  const typed = await callRoute(listHandler, 'GET', `/api/universities?sort=tuition&cursor=${tampered}`);
+  assertEquals(typed.status, 400);
+  assertEquals((await typed.json()).message, 'Invalid cursor');
+});
+
+Deno.test('GET /api/universities rejects unsupported display currency', async () => {
+  const list = await callRoute(listHandler, 'GET', '/api/universities?currency=GBP');
+  assertEquals(list.status, 400);
+  assertEquals((await list.json()).message, 'Invalid currency');
+
+  const filtered = await callRoute(filteredHandler, 'GET', '/api/universities/filtered?currency=тенге');
+  assertEquals(filtered.status, 400);
+  assertEquals((await filtered.json()).message, 'Invalid currency');
+});
+
+Deno.test('GET /api/universities/compare validates parameters', async () => {
+  const id = crypto.randomUUID();
+
+  const missing = await callRoute(compareHandler, 'GET', `/api/universities/compare?id1=${id}`);
+  assertEquals(missing.status, 400);
+  assertEquals((await missing.json()).error, 'Missing parameters');
+
+  const same = await callRoute(compareHandler, 'GET', `/api/universities/compare?id1=${id}&id2=${id}`);
+  assertEquals(same.status, 400);
+  assertEquals((await same.json()).error, 'Invalid parameters');
+
+  const invalid = await callRoute(compareHandler, 'GET', `/api/universities/compare?id1=${id}&id2=nope`);
+  assertEquals(invalid.status, 400);
+  assertEquals((await invalid.json()).error, 'Invalid UUID format');
+
+  const six = Array.from({ length: 6 }, () => crypto.randomUUID()).join(',');
+  const tooMany = await callRoute(compareHandler, 'GET', `/api/universities/compare?ids=${six}`);
+  assertEquals(tooMany.status, 400);
+  assertEquals((await tooMany.json()).error, 'Invalid parameters');
+
+  const badWeights = await callRoute(
+    compareHandler,
+    'GET',
+    `/api/universities/compare?ids=${id},${crypto.randomUUID()}&weights=fame:3`
+  );
+  assertEquals(badWeights.status, 400);
+  assertEquals((await badWeights.json()).error, 'Invalid parameters');
+});
+
+Deno.test({
+  name: 'universities API on seeded database',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const db = await createTestDatabase({ seed: true });
+
+    // Языки и стоимость NU (0–4000 USD) и КБТУ (12000–15000 USD) задаются только
+    // на время шага и восстанавливаются, чтобы шаги не зависели от порядка
+    const withFilterColumns = async (fn: () => Promise<void>): Promise<void> => {
+      const saved = await query<{
+        id: string;
+        languages: unknown;
+        min_tuition: number | null;
+        max_tuition: number | null;
+      }>(
+        `SELECT id, languages, min_tuition, max_tuition FROM universities
+         WHERE website_url IN ('https://nu.edu.kz', 'https://kbtu.edu.kz')`
+      );
+      await query(
+        `UPDATE universities SET languages = '["English", "Kazakh"]'::jsonb, min_tuition = 0, max_tuition = 4000
+         WHERE website_url = 'https://nu.edu.kz'`
+      );
+      await query(
+        `UPDATE universities SET languages = '["English"]'::jsonb, min_tuition = 12000, max_tuition = 15000
+         WHERE website_url = 'https://kbtu.edu.kz'`
+      );
+      clearFilterCache();
+
+      try {
+        await fn();
+      } finally {
+        for (const row of saved) {
+          await query(
+            'UPDATE universities SET languages = $2, min_tuition = $3, max_tuition = $4 WHERE id = $1',
+            [
+              row.id,
+              row.languages === null ? null : JSON.stringify(row.languages),
+              row.min_tuition,
+              row.max_tuition,
+            ]
+          );
+        }
+        clearFilterCache();
+      }
+    };
+
+    try {
+      await t.step('GET /api/universities lists seeded universities', async () => {
+        const res = await callRoute(listHandler, 'GET', '/api/universities?limit=2');
+        assertEquals(res.status, 200);
+
+        const body = await res.json();
+        assertEquals(body.total, 5);
+        assertEquals(body.data.length, 2);
+      });
+
+      await t.step('GET /api/universities filters by city', async () => {
+        const res = await callRoute(listHandler, 'GET', `/api/universities?city=${encodeURIComponent('Алматы')}`);
+        const body = await res.json();
+        assertEquals(body.total, 2);
+        assert(body.data.every((u: { city: string }) => u.city === 'Алматы'));
+      });
+
+      await t.step('GET /api/universities/:id returns profile', async () => {
+        const id = await getUniversityIdByWebsite('https://nu.edu.kz');
+        const res = await callRoute(detailHandler, 'GET', `/api/universities/${id}`, { params: { id } });
+        assertEquals(res.status, 200);
+
+        const body = await res.json();
+        assertEquals(body.name, 'Назарбаев Университет');
+        assertEquals(body.profile.programs.length, 2);
+      });
+
+      await t.step('GET /api/universities/:id returns 404 for unknown id', async () => {
+        const id = crypto.randomUUID();
+        const res = await callRoute(detailHandler, 'GET', `/api/universities/${id}`, { params: { id } });
+        assertEquals(res.status, 404);
+      });
+
+      await t.step('GET /api/universities/filtered paginates results', async () => {
+        const res = await callRoute(filteredHandler, 'GET', '/api/universities/filtered?limit=3&offset=0');
+        assertEquals(res.status, 200);
+
+        const body = await res.json();
+        assertEquals(body.total, 5);
+        assertEquals(body.results.length, 3);
+        const { next_cursor: nextCursor, ...pagination } = body.pagination;
+        assertEquals(pagination, { limit: 3, offset: 0, sort: 'name', order: 'asc' });
+        assert(nextCursor);
+        assertEquals(body.cache_hit, false);
+      });
+
+      await t.step('GET /api/universities/filtered returns facet counts', () =>
+        withFilterColumns(async () => {
+          const res = await callRoute(
+            filteredHandler,
+            'GET',
+            '/api/universities/filtered?country=Казахстан&language=English'
+          );
+          assertEquals(res.status, 200);
+
+          const { total, facets } = await res.json();
+          assertEquals(total, 2);
+          // Страна считается без собственного фильтра: остальные страны без English отсеяны
+          assertEquals(facets.countries, [{ value: 'Казахстан', count: 2 }]);
+          assertEquals(facets.languages, [{ value: 'English', count: 2 }, { value: 'Kazakh', count: 1 }]);
+          assertEquals(facets.specializations, []);
+          assertEquals(facets.tuition, [
+            { min: 0, max: 5000, value: '0-5000', count: 1 },
+            { min: 10000, max: 20000, value: '10000-20000', count: 1 },
+          ]);
+        }));
+
+      await t.step('GET /api/universities/filtered converts tuition bounds and results', () =>
+        withFilterColumns(async () => {
+          // NU — 0–4000 USD, КБТУ — 12000–15000 USD; KZT по курсу 500
+          const nu = await getUniversityIdByWebsite('https://nu.edu.kz');
+          const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+          type Row = { id: string; min_tuition: number | null; max_tuition: number | null };
+
+          const kzt = await callRoute(
+            filteredHandler,
+            'GET',
+            '/api/universities/filtered?country=Казахстан&max_tuition=2500000&currency=KZT'
+          );
+          assertEquals(kzt.status, 200);
+          const kztBody = await kzt.json();
+          const nuRow = kztBody.results.find((u: Row) => u.id === nu);
+          assertEquals([nuRow.min_tuition, nuRow.max_tuition], [0, 2_000_000]);
+          assertEquals(kztBody.results.some((u: Row) => u.id === kbtu), false);
+          assertEquals(kztBody.filters_applied.currency, 'KZT');
+
+          // 5000 EUR по курсу 0.92 — 5434.78 USD, граница округляется для целочисленной колонки
+          const eur = await callRoute(filteredHandler, 'GET', '/api/universities/filtered?max_tuition=5000&currency=EUR');
+          assertEquals(eur.status, 200);
+          const eurIds = (await eur.json()).results.map((u: Row) => u.id);
+          assert(eurIds.includes(nu));
+          assert(!eurIds.includes(kbtu));
+        }));
+
+      await t.step('GET /api/universities/filtered walks pages by cursor', () =>
+        withFilterColumns(async () => {
+          // NU — 0, КБТУ — 12000, у остальных стоимость не задана
+          const nu = await getUniversityIdByWebsite('https://nu.edu.kz');
+          const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+
+          const ids: string[] = [];
+          let cursor: string | null = null;
+          do {
+            const path: string = `/api/universities/filtered?sort=tuition&limit=2${cursor ? `&cursor=${cursor}` : ''}`;
+            const body = await (await callRoute(filteredHandler, 'GET', path)).json();
+            ids.push(...body.results.map((u: { id: string }) => u.id));
+            cursor = body.pagination.next_cursor;
+          } while (cursor);
+
+          assertEquals(ids.length, 5);
+          assertEquals(ids.slice(0, 2), [nu, kbtu]);
+          // Без стоимости — в конце, по id
+          assertEquals(ids.slice(2), [...ids.slice(2)].sort());
+        }));
+
+      await t.step('GET /api/universities sorts and paginates by cursor', async () => {
+        const first = await (await callRoute(listHandler, 'GET', '/api/universities?sort=name&order=desc&limit=3')).json();
+        assertEquals(first.data.length, 3);
+        assert(first.next_cursor);
+
+        const second = await (await callRoute(
+          listHandler,
+          'GET',
+          `/api/universities?sort=name&order=desc&limit=3&cursor=${first.next_cursor}`
+        )).json();
+        assertEquals(second.data.length, 2);
+        assertEquals(second.next_cursor, null);
+        assertEquals(second.total, 5);
+
+        const names = [...first.data, ...second.data].map((u: { name: string }) => u.name);
+        assertEquals(new Set(names).size, 5);
+        const rows = await query<{ name: string }>(
+          'SELECT name FROM universities WHERE is_active = true ORDER BY name DESC, id'
+        );
+        assertEquals(names, rows.map((r) => r.name));
+
+        // Курсор выдан для другой сортировки
+        const mismatch = await callRoute(
+          listHandler,
+          'GET',
+          `/api/universities?sort=name&limit=3&cursor=${first.next_cursor}`
+        );
+        assertEquals(mismatch.status, 400);
+      });
+
+      await t.step('GET /api/universities/compare returns battle result', async () => {
+        const llm = startFakeLlmServer(await loadLlmFixtures('battle'));
+        try {
+          const nu = await getUniversityIdByWebsite('https://nu.edu.kz');
+          const msu = await getUniversityIdByWebsite('https://msu.ru');
+
+          const res = await callRoute(
+            compareHandler,
+            'GET',
+            `/api/universities/compare?id1=${nu}&id2=${msu}&language=en`
+          );
+          assertEquals(res.status, 200);
+
+          const body = await res.json();
+          assertEquals(body.success, true);
+          assertEquals(body.result.criteria.length, 3);
+          assertEquals(body.result.criteria[0].nameRu, 'Academic Reputation');
+          assertEquals(body.result.ranking, [nu, msu]);
+          assertEquals(body.share_url, `/battle/${body.battle_id}`);
+
+          const stored = await callRoute(battleHandler, 'GET', `/api/battles/${body.battle_id}`, {
+            params: { id: body.battle_id },
+          });
+          assertEquals(stored.status, 200);
+          const storedBody = await stored.json();
+          assertEquals(storedBody.battle.isStale, false);
+          assertEquals(storedBody.battle.result.ranking, [nu, msu]);
+
+          const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+          const threeWay = await callRoute(
+            compareHandler,
+            'GET',
+            `/api/universities/compare?ids=${nu},${msu},${kbtu}&weights=reputation:5,scholarships:0`
+          );
+          assertEquals(threeWay.status, 200);
+          assertEquals((await threeWay.json()).result.ranking, [msu, kbtu, nu]);
+
+          const missing = crypto.randomUUID();
+          const notFound = await callRoute(
+            compareHandler,
+            'GET',
+            `/api/universities/compare?id1=${nu}&id2=${missing}`
+          );
+          assertEquals(notFound.status, 404);
+        } finally {
+          clearBattleCache();
+          await llm.close();
+        }
+      });
+    } finally {
+      await db.drop();
+    }
+  },
+});
@@ -0,0 +1,169 @@
+/**
+ * Фейковый LLM-сервер для тестов
+ * Реализует Ollama /api/generate (обычный и потоковый режим) и /api/tags,
+ * отвечая по записанным фикстурам prompt → response из tests/fixtures/llm
+ */
+
+import { LLM_TASKS } from '../../src/config/env.ts';
+import { resetLlmProviders } from '../../src/utils/llm/index.ts';
+
+/**
+ * Записанный ответ модели
+ */
+export interface LlmFixture {
+  /** Название (попадает в журнал запросов) */
+  name: string;
+  /** Подстроки, которые все должны встретиться в system + prompt */
+  match: string[];
+  /** Ответ модели: строка как есть, объект/массив сериализуется в JSON */
+  response: unknown;
+  /** Вернуть HTTP-ошибку вместо ответа */
+  status?: number;
+}
+
+/**
+ * Запрос, полученный фейковым сервером
+ */
+export interface FakeLlmRequest {
+  prompt: string;
+  system?: string;
+  model: string;
+  stream: boolean;
+  /** JSON Schema из поля format (структурированный вывод) */
+  format?: unknown;
+  /** Имя сработавшей фикстуры (null — подходящей не нашлось) */
+  fixture: string | null;
+}
+
+export interface FakeLlmServer {
+  url: string;
+  requests: FakeLlmRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Модель, которую видит приложение в тестах
+ */
+export const FAKE_LLM_MODEL = 'fake-llm';
+
+/**
+ * Загрузить фикстуры из tests/fixtures/llm/<name>.json
+ */
+export const loadLlmFixtures = async (name: string): Promise<LlmFixture[]> => {
+  const file = new URL(`../fixtures/llm/${name}.json`, import.meta.url);
+  return JSON.parse(await Deno.readTextFile(file));
+};
+
+/**
+ * Найти фикстуру для промпта
+ */
+const findFixture = (fixtures: LlmFixture[], text: string): LlmFixture | undefined =>
+  fixtures.find((f) => f.match.every((m) => text.includes(m)));
+
+/**
+ * Разбить ответ на фрагменты по словам (для потокового режима)
+ */
+const splitIntoTokens = (text: string): string[] => text.match(/\S+\s*|\s+/g) ?? [text];
+
+/**
+ * Запустить фейковый сервер и направить на него все LLM-задачи приложения
+ * Переменные LLM_* восстанавливаются при close()
+ * @param fixtures - записанные ответы
+ */
+export const startFakeLlmServer = (fixtures: LlmFixture[]): FakeLlmServer => {
+  const requests: FakeLlmRequest[] = [];
+  const encoder = new TextEncoder();
+
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async (req) => {
+    const { pathname } = new URL(req.url);
+
+    if (pathname === '/api/tags') {
+      return Response.json({ models: [{ name: FAKE_LLM_MODEL }] });
+    }
+
+    if (pathname !== '/api/generate' || req.method !== 'POST') {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const body = await req.json();
+    const fixture = findFixture(fixtures, `${body.system ?? ''}\n${body.prompt}`);
+    requests.push({
+      prompt: body.prompt,
+      system: body.system,
+      model: body.model,
+      stream: body.stream === true,
+      format: body.format,
+      fixture: fixture?.name ?? null,
+    });
+
+    if (!fixture) {
+      return Response.json({ error: 'no fixture matches prompt' }, { status: 404 });
+    }
+
+    if (fixture.status) {
+      return Response.json({ error: `fixture ${fixture.name}` }, { status: fixture.status });
+    }
+
+    const text = typeof fixture.response === 'string'
+      ? fixture.response
+      : JSON.stringify(fixture.response);
+
+    if (!body.stream) {
+      return Response.json({
+        model: body.model,
+        created_at: new Date().toISOString(),
+        response: text,
+        done: true,
+      });
+    }
+
+    // NDJSON: по строке на фрагмент, последняя — done
+    const lines = [
+      ...splitIntoTokens(text).map((token) => ({ model: body.model, response: token, done: false })),
+      { model: body.model, response: '', done: true },
+    ];
+    return new Response(
+      new ReadableStream({
+        start(controller) {
+          for (const line of lines) {
+            controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+          }
+          controller.close();
+        },
+      }),
+      { headers: { 'Content-Type': 'application/x-ndjson' } }
+    );
+  });
+
+  const url = `http://127.0.0.1:${server.addr.port}`;
+
+  // Все задачи — на фейковый Ollama; переопределения LLM_<TASK>_* убираем
+  const overridden = [
+    'LLM_PROVIDER',
+    'LLM_BASE_URL',
+    'LLM_MODEL',
+    'LLM_API_KEY',
+    ...LLM_TASKS.flatMap((task) =>
+      ['PROVIDER', 'BASE_URL', 'MODEL', 'API_KEY'].map((name) => `LLM_${task.toUpperCase()}_${name}`)
+    ),
+  ];
+  const previous = new Map(overridden.map((key) => [key, Deno.env.get(key)]));
+  overridden.forEach((key) => Deno.env.delete(key));
+  Deno.env.set('LLM_PROVIDER', 'ollama');
+  Deno.env.set('LLM_BASE_URL', url);
+  Deno.env.set('LLM_MODEL', FAKE_LLM_MODEL);
+  resetLlmProviders();
+
+  return {
+    url,
+    requests,
+    async close() {
+      await server.shutdown();
+      for (const [key, value] of previous) {
+        if (value === undefined) Deno.env.delete(key);
+        else Deno.env.set(key, value);
+      }
+      resetLlmProviders();
+    },
+  };
+};
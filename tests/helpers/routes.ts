@@ -0,0 +1,72 @@
+/**
+ * Вызов обработчиков Fresh-маршрутов без запуска сервера
+ */
+
+import type { FreshContext, Handlers } from '$fresh/server.ts';
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Вызвать обработчик маршрута
+ * @param handlers - экспорт `handler` из файла routes/...
+ * @param method - HTTP-метод
+ * @param path - путь с query, например `/api/universities?limit=2`
+ * @param options - параметры маршрута, тело (строка передаётся как есть,
+ *   остальное сериализуется в JSON) и заголовки
+ */
+export const callRoute = async (
+  handlers: Handlers,
+  method: Method,
+  path: string,
+  options: {
+    params?: Record<string, string>;
+    body?: unknown;
+    headers?: Record<string, string>;
+  } = {}
+): Promise<Response> => {
+  const handler = handlers[method];
+  if (!handler) {
+    throw new Error(`Route has no ${method} handler`);
+  }
+
+  const req = new Request(`http://localhost${path}`, {
+    method,
+    headers: {
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...options.headers,
+    },
+    body: options.body === undefined || typeof options.body === 'string'
+      ? options.body
+      : JSON.stringify(options.body),
+  });
+
+  const ctx = {
+    params: options.params ?? {},
+    remoteAddr: { transport: 'tcp', hostname: '127.0.0.1', port: 0 },
+    url: new URL(req.url),
+    state: {},
+    render: () => new Response('render is not supported in route tests', { status: 500 }),
+    renderNotFound: () => new Response('Not found', { status: 404 }),
+  } as unknown as FreshContext;
+
+  return await handler(req, ctx);
+};
+
+/**
+ * Прочитать SSE-ответ целиком
+ * @returns события в порядке получения
+ */
+export const readSseEvents = async (
+  response: Response
+): Promise<Array<{ event: string; data: Record<string, unknown> }>> => {
+  const text = await response.text();
+
+  return text
+    .split('\n\n')
+    .filter((frame) => frame.trim())
+    .map((frame) => {
+      const event = frame.match(/^event: (.+)$/m)?.[1] ?? 'message';
+      const data = frame.match(/^data: (.+)$/m)?.[1] ?? '{}';
+      return { event, data: JSON.parse(data) };
+    });
+};
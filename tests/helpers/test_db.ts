@@ -0,0 +1,100 @@
+/**
+ * Одноразовая база PostgreSQL для тестов
+ * TEST_DATABASE_URL — подключение к серверу с правом CREATE DATABASE.
+ * Для каждого набора тестов создаётся отдельная база, к ней применяются
+ * миграции из sql/, после набора база удаляется.
+ * Без TEST_DATABASE_URL тесты, которым нужна БД, пропускаются.
+ */
+
+import { Client } from 'postgres';
+import { closePool, query } from '../../src/config/database.ts';
+import { runMigrations } from '../../src/db/migrations.ts';
+import { seedUniversities } from '../../src/db/seed.ts';
+
+const TEST_DATABASE_URL = Deno.env.get('TEST_DATABASE_URL');
+
+/**
+ * Доступен ли сервер для одноразовых баз (для `ignore` в Deno.test)
+ */
+export const hasTestDatabase = TEST_DATABASE_URL !== undefined;
+
+export interface TestDatabase {
+  name: string;
+  url: string;
+  /** Закрыть пул и удалить базу */
+  drop(): Promise<void>;
+}
+
+/**
+ * Выполнить команду на сервере через служебное подключение
+ */
+const runAdminCommand = async (sql: string): Promise<void> => {
+  const admin = new Client(TEST_DATABASE_URL!);
+  await admin.connect();
+  try {
+    await admin.queryArray(sql);
+  } finally {
+    await admin.end();
+  }
+};
+
+/**
+ * Создать базу, применить миграции и переключить на неё пул приложения
+ * @param options.seed - заполнить тестовыми университетами из src/db/seed.ts
+ */
+export const createTestDatabase = async (
+  options: { seed?: boolean } = {}
+): Promise<TestDatabase> => {
+  if (!TEST_DATABASE_URL) {
+    throw new Error('TEST_DATABASE_URL is not set');
+  }
+
+  const name = `du_test_${crypto.randomUUID().replaceAll('-', '').slice(0, 12)}`;
+  await runAdminCommand(`CREATE DATABASE ${name}`);
+
+  const url = new URL(TEST_DATABASE_URL);
+  url.pathname = `/${name}`;
+
+  const previousUrl = Deno.env.get('DATABASE_URL');
+  Deno.env.set('DATABASE_URL', url.toString());
+  await closePool();
+
+  const drop = async () => {
+    await closePool();
+    if (previousUrl === undefined) Deno.env.delete('DATABASE_URL');
+    else Deno.env.set('DATABASE_URL', previousUrl);
+    await runAdminCommand(`DROP DATABASE IF EXISTS ${name} WITH (FORCE)`);
+  };
+
+  const migrations = await runMigrations(new URL('../../sql', import.meta.url).pathname);
+  const failed = migrations.find((m) => !m.success);
+  if (failed) {
+    await drop();
+    throw new Error(`Migration ${failed.filename} failed: ${failed.error}`);
+  }
+
+  if (options.seed) {
+    try {
+      await seedUniversities();
+    } catch (err) {
+      await drop();
+      throw err;
+    }
+  }
+
+  return { name, url: url.toString(), drop };
+};
+
+/**
+ * Найти ID университета по сайту (тестовые данные из seed)
+ */
+export const getUniversityIdByWebsite = async (websiteUrl: string): Promise<string> => {
+  const rows = await query<{ id: string }>(
+    'SELECT id FROM universities WHERE website_url = $1',
+    [websiteUrl]
+  );
+  if (rows.length === 0) {
+    throw new Error(`University ${websiteUrl} not found in test database`);
+  }
+  return rows[0].id;
+};
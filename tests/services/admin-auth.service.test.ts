@@ -0,0 +1,134 @@
+/**
+ * Тесты входа в админ-панель: хэши паролей, cookie сессии,
+ * вход/выход и приём сессии в requireAdmin
+ */
+
+import { assert, assertEquals, assertMatch } from '$std/assert/mod.ts';
+import {
+  createAdminAccount,
+  hashPassword,
+  verifyPassword,
+} from '../../src/services/admin-auth.service.ts';
+import { getSessionToken, requireAdmin, sessionCookie } from '../../src/middleware/auth.ts';
+import { resetRateLimitStore } from '../../src/services/rate-limit.service.ts';
+import { handler as loginHandler } from '../../routes/api/admin/auth/login.ts';
+import { handler as logoutHandler } from '../../routes/api/admin/auth/logout.ts';
+import { handler as meHandler } from '../../routes/api/admin/auth/me.ts';
+import { handler as rateLimitsHandler } from '../../routes/api/admin/rate-limits.ts';
+import { callRoute } from '../helpers/routes.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('hashPassword produces salted PBKDF2 hashes that verifyPassword accepts', async () => {
+  const first = await hashPassword('correct horse battery');
+  const second = await hashPassword('correct horse battery');
+
+  assertMatch(first, /^pbkdf2-sha256\$\d+\$[^$]+\$[^$]+$/);
+  assert(first !== second, 'salt must differ between hashes');
+  assertEquals(await verifyPassword('correct horse battery', first), true);
+  assertEquals(await verifyPassword('wrong password', first), false);
+  assertEquals(await verifyPassword('correct horse battery', 'plain-text'), false);
+});
+
+Deno.test('session cookie is HttpOnly and parsed back from the Cookie header', () => {
+  const cookie = sessionCookie('abc123', new Date(Date.now() + 60_000));
+  assertMatch(cookie, /^admin_session=abc123; Path=\/; HttpOnly; SameSite=Strict; Max-Age=(59|60);/);
+
+  const req = new Request('http://localhost/api/admin/auth/me', {
+    headers: { Cookie: 'theme=dark; admin_session=abc123' },
+  });
+  assertEquals(getSessionToken(req), 'abc123');
+  assertEquals(getSessionToken(new Request('http://localhost/')), null);
+});
+
+Deno.test('requireAdmin no longer accepts the key in the query string', async () => {
+  resetRateLimitStore();
+  const auth = await requireAdmin(new Request('http://localhost/api/admin/logs?admin_key=dev-admin-key'));
+  assertEquals(auth.valid, false);
+
+  const header = await requireAdmin(new Request('http://localhost/api/admin/logs', {
+    headers: { 'X-Admin-Key': Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key' },
+  }));
+  assertEquals([header.valid, header.method], [true, 'api_key']);
+  resetRateLimitStore();
+});
+
+Deno.test({
+  name: 'login issues a session cookie accepted by admin endpoints until logout',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase();
+    resetRateLimitStore();
+    try {
+      await createAdminAccount({ username: 'Alice', password: 'long-enough-password', name: 'Alice' });
+
+      const wrong = await callRoute(loginHandler, 'POST', '/api/admin/auth/login', {
+        body: { username: 'alice', password: 'nope' },
+      });
+      assertEquals(wrong.status, 401);
+      assertEquals(wrong.headers.get('Set-Cookie'), null);
+
+      const login = await callRoute(loginHandler, 'POST', '/api/admin/auth/login', {
+        body: { username: 'alice', password: 'long-enough-password' },
+      });
+      assertEquals(login.status, 200);
+      assertEquals((await login.json()).admin.username, 'alice');
+
+      const token = login.headers.get('Set-Cookie')?.match(/^admin_session=([^;]+)/)?.[1];
+      assert(token, 'login must set admin_session cookie');
+      const headers = { Cookie: `admin_session=${token}` };
+
+      const me = await callRoute(meHandler, 'GET', '/api/admin/auth/me', { headers });
+      assertEquals(me.status, 200);
+      const body = await me.json();
+      assertEquals([body.method, body.admin.username], ['session', 'alice']);
+
+      const logout = await callRoute(logoutHandler, 'POST', '/api/admin/auth/logout', { headers });
+      assertEquals((await logout.json()).session_ended, true);
+      assertMatch(logout.headers.get('Set-Cookie') ?? '', /admin_session=; .*Max-Age=0/);
+
+      const after = await callRoute(meHandler, 'GET', '/api/admin/auth/me', { headers });
+      assertEquals(after.status, 401);
+    } finally {
+      resetRateLimitStore();
+      await db.drop();
+    }
+  },
+});
+
+Deno.test({
+  name: 'missing permission answers 403 and keeps the session',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase();
+    resetRateLimitStore();
+    try {
+      await createAdminAccount({ username: 'viewer', password: 'long-enough-password', permissions: ['read'] });
+
+      const login = await callRoute(loginHandler, 'POST', '/api/admin/auth/login', {
+        body: { username: 'viewer', password: 'long-enough-password' },
+      });
+      const token = login.headers.get('Set-Cookie')?.match(/^admin_session=([^;]+)/)?.[1];
+      const headers = { Cookie: `admin_session=${token}` };
+
+      const read = await callRoute(rateLimitsHandler, 'GET', '/api/admin/rate-limits', { headers });
+      assertEquals(read.status, 200);
+
+      const reset = await callRoute(rateLimitsHandler, 'DELETE', '/api/admin/rate-limits?group=chat', { headers });
+      assertEquals(reset.status, 403);
+      assertEquals((await reset.json()).error, 'Permission denied: write');
+
+      const anonymous = await callRoute(rateLimitsHandler, 'DELETE', '/api/admin/rate-limits?group=chat');
+      assertEquals(anonymous.status, 401);
+
+      const me = await callRoute(meHandler, 'GET', '/api/admin/auth/me', { headers });
+      assertEquals(me.status, 200);
+    } finally {
+      resetRateLimitStore();
+      await db.drop();
+    }
+  },
+});
@@ -0,0 +1,119 @@
+/**
+ * Тесты API-ключей: проверка прав при выпуске, ключи из окружения,
+ * выпуск/ротация/отзыв с хранением только хэша
+ */
+
+import { assert, assertEquals, assertRejects } from '$std/assert/mod.ts';
+import {
+  ApiKeyError,
+  authenticateApiKey,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  setApiKeyExpiry,
+} from '../../src/services/api-keys.service.ts';
+import type { AdminInfo } from '../../src/config/admin.ts';
+import { queryOne } from '../../src/config/database.ts';
+import { requireAdmin } from '../../src/middleware/auth.ts';
+import { resetRateLimitStore } from '../../src/services/rate-limit.service.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+const ROOT: AdminInfo = { name: 'Root', username: 'root', permissions: ['full_access'] };
+const KEY_MANAGER: AdminInfo = { name: 'Ops', username: 'ops', permissions: ['read', 'manage_users'] };
+
+const requestWithKey = (key: string): Request =>
+  new Request('http://localhost/api/admin/universities', { headers: { 'X-Admin-Key': key } });
+
+Deno.test('createApiKey rejects unknown permissions and permissions the grantor lacks', async () => {
+  const error = await assertRejects(
+    () => createApiKey({ name: 'ci', permissions: ['write'] }, KEY_MANAGER),
+    ApiKeyError
+  ) as ApiKeyError;
+  assertEquals(error.code, 'INVALID_PERMISSION');
+
+  await assertRejects(
+    () => createApiKey({ name: 'ci', permissions: ['superuser' as 'read'] }, ROOT),
+    ApiKeyError,
+    'Unknown permissions'
+  );
+  await assertRejects(
+    () => createApiKey({ name: '  ', permissions: ['read'] }, ROOT),
+    ApiKeyError,
+    'Name must be'
+  );
+  await assertRejects(
+    () => createApiKey({ name: 'ci', permissions: ['read'], expiresAt: new Date(Date.now() - 1000) }, ROOT),
+    ApiKeyError,
+    'future date'
+  );
+});
+
+Deno.test('malformed key ids are reported as not found before querying', async () => {
+  for (const call of [
+    () => rotateApiKey('not-a-uuid', 0, ROOT),
+    () => setApiKeyExpiry('1; DROP TABLE', null),
+    () => revokeApiKey(''),
+  ]) {
+    const error = await assertRejects(call, ApiKeyError) as ApiKeyError;
+    assertEquals(error.code, 'NOT_FOUND');
+  }
+});
+
+Deno.test('authenticateApiKey still accepts keys from the environment', async () => {
+  const envKey = Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key';
+  assertEquals((await authenticateApiKey(envKey))?.permissions, ['full_access']);
+  assertEquals(await authenticateApiKey('not-a-key'), null);
+});
+
+Deno.test({
+  name: 'issued keys are stored hashed, authenticate, rotate with grace and revoke',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase();
+    resetRateLimitStore();
+    try {
+      const { key, apiKey } = await createApiKey({ name: 'CI', permissions: ['read', 'parse'] }, ROOT);
+      assert(key.startsWith(apiKey.prefix));
+
+      const stored = await queryOne<{ key_hash: string }>(
+        'SELECT key_hash FROM admin_api_keys WHERE id = $1',
+        [apiKey.id]
+      );
+      assert(stored && stored.key_hash !== key && stored.key_hash.length === 64);
+
+      const auth = await requireAdmin(requestWithKey(key));
+      assertEquals([auth.valid, auth.adminInfo?.keyId, auth.adminInfo?.permissions], [
+        true,
+        apiKey.id,
+        ['read', 'parse'],
+      ]);
+      const [listed] = await listApiKeys();
+      assert(listed.lastUsedAt !== null);
+      assertEquals(listed.lastUsedIp, 'unknown');
+
+      // Менеджер ключей без parse не может получить секрет этого ключа ротацией
+      await assertRejects(() => rotateApiKey(apiKey.id, 0, KEY_MANAGER), ApiKeyError);
+
+      const rotated = await rotateApiKey(apiKey.id, 2, ROOT);
+      assertEquals(rotated.apiKey.rotatedFrom, apiKey.id);
+      assertEquals(rotated.previous.status, 'active');
+      assert(rotated.previous.expiresAt !== null);
+      assertEquals((await requireAdmin(requestWithKey(rotated.key))).valid, true);
+      assertEquals((await requireAdmin(requestWithKey(key))).valid, true);
+
+      await setApiKeyExpiry(apiKey.id, new Date(Date.now() - 1000));
+      assertEquals((await requireAdmin(requestWithKey(key))).valid, false);
+
+      const revoked = await revokeApiKey(rotated.apiKey.id);
+      assertEquals(revoked.status, 'revoked');
+      assertEquals((await requireAdmin(requestWithKey(rotated.key))).valid, false);
+      await assertRejects(() => revokeApiKey(rotated.apiKey.id), ApiKeyError, 'revoked');
+    } finally {
+      resetRateLimitStore();
+      await db.drop();
+    }
+  },
+});
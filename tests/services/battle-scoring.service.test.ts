@@ -0,0 +1,92 @@
+/**
+ * Тесты расчёта баллов Battle Mode по данным профиля
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import {
+  DEFAULT_BATTLE_WEIGHTS,
+  formatBattleWeights,
+  parseBattleWeights,
+  scoreCriterion,
+  weightedTotal,
+} from '../../src/services/battle-scoring.service.ts';
+import type { University } from '../../src/types/university.ts';
+
+const profile = (data: Partial<University>): University => ({
+  name: 'Тест',
+  country: 'Казахстан',
+  city: 'Алматы',
+  ...data,
+} as University);
+
+Deno.test('scoreCriterion derives scores from profile data', () => {
+  const uni = profile({
+    rankings: [
+      { source: 'QS', rank: 150, year: 2024, category: 'Overall' },
+      { source: 'THE', rank: 10, year: 2024, category: 'Overall' },
+    ],
+    international: { accepts_international: true, international_percentage: 20, languages_of_instruction: [] },
+    programs: new Array(9).fill({ name: 'P' }),
+    scholarships: [{ name: 'Грант' }, { name: 'Скидка' }] as University['scholarships'],
+    student_count: 12000,
+    faculty_count: 1000,
+  });
+
+  assertEquals(scoreCriterion('reputation', { profile: uni }), { score: 8, basis: 'THE #10 (2024)' });
+  assertEquals(scoreCriterion('international', { profile: uni }), { score: 5, basis: '20%' });
+  assertEquals(scoreCriterion('breadth', { profile: uni }), { score: 5, basis: '9' });
+  assertEquals(scoreCriterion('scholarships', { profile: uni }), { score: 4, basis: '2' });
+  assertEquals(scoreCriterion('teaching', { profile: uni }), { score: 7.2, basis: '12:1' });
+  assertEquals(
+    scoreCriterion('cost', { profile: uni, minTuition: 5000, maxTuition: 15000 }),
+    { score: 8, basis: '5000–15000 USD' }
+  );
+});
+
+Deno.test('scoreCriterion gives zero without data and clamps extremes', () => {
+  const empty = profile({});
+  for (const key of ['reputation', 'cost', 'international', 'breadth', 'scholarships', 'teaching'] as const) {
+    assertEquals(scoreCriterion(key, { profile: empty }), { score: 0, basis: null });
+  }
+
+  assertEquals(scoreCriterion('cost', { profile: empty, minTuition: 0, maxTuition: 0 }).score, 10);
+  assertEquals(scoreCriterion('cost', { profile: empty, minTuition: 90000 }).score, 0);
+  assertEquals(
+    scoreCriterion('international', {
+      profile: profile({
+        international: { accepts_international: true, international_percentage: 75, languages_of_instruction: [] },
+      }),
+    }).score,
+    10
+  );
+  assertEquals(
+    scoreCriterion('teaching', { profile: profile({ student_count: 40000, faculty_count: 500 }) }).score,
+    0
+  );
+});
+
+Deno.test('weightedTotal averages only the scored criteria by weight', () => {
+  const weights = { ...DEFAULT_BATTLE_WEIGHTS, reputation: 3 };
+  assertEquals(weightedTotal({ reputation: 8, cost: 4 }, weights), 7);
+  assertEquals(weightedTotal({}, weights), 0);
+});
+
+Deno.test('parseBattleWeights validates keys and range', () => {
+  assertEquals(parseBattleWeights(null), DEFAULT_BATTLE_WEIGHTS);
+  assertEquals(parseBattleWeights('reputation:3, cost:0'), {
+    ...DEFAULT_BATTLE_WEIGHTS,
+    reputation: 3,
+    cost: 0,
+  });
+  assertEquals(parseBattleWeights('fame:2'), null);
+  assertEquals(parseBattleWeights('cost:9'), null);
+  assertEquals(parseBattleWeights('cost:1.5'), null);
+  assertEquals(parseBattleWeights('cost'), null);
+  assertEquals(
+    parseBattleWeights('reputation:0,cost:0,international:0,breadth:0,scholarships:0,teaching:0'),
+    null
+  );
+
+  assertEquals(formatBattleWeights({ ...DEFAULT_BATTLE_WEIGHTS, cost: 4 }), 'cost:4');
+  assertEquals(parseBattleWeights(formatBattleWeights({ ...DEFAULT_BATTLE_WEIGHTS, cost: 4 }))!.cost, 4);
+});
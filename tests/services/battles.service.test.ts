@@ -0,0 +1,63 @@
+/**
+ * Тесты сохранённых сравнений: постоянный id, устаревание, пересчёт
+ */
+
+import { assertEquals, assertRejects } from '$std/assert/mod.ts';
+import { BattleError, getBattle, recomputeBattle, saveBattle } from '../../src/services/battles.service.ts';
+import { clearBattleCache, compareUniversities } from '../../src/services/university-battle.service.ts';
+import { query } from '../../src/config/database.ts';
+import { loadLlmFixtures, startFakeLlmServer } from '../helpers/fake_llm.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test({
+  name: 'battles are stored once per profile versions and recomputed in place',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+    const llm = startFakeLlmServer(await loadLlmFixtures('battle'));
+
+    try {
+      const nu = await getUniversityIdByWebsite('https://nu.edu.kz');
+      const msu = await getUniversityIdByWebsite('https://msu.ru');
+
+      const result = await compareUniversities([nu, msu], 'ru');
+      const saved = await saveBattle(result, 'ru');
+      assertEquals(saved.universityIds, [nu, msu]);
+      assertEquals(saved.profileVersions, [1, 1]);
+      assertEquals(saved.isStale, false);
+
+      // Тот же результат не создаёт новую запись
+      assertEquals((await saveBattle(result, 'ru')).id, saved.id);
+      await assertRejects(() => recomputeBattle(saved.id), BattleError, 'have not changed');
+
+      // Новая версия профиля МГУ: без рейтинга
+      await query(
+        `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+         SELECT university_id, profile_json - 'ratings', field_provenance, language, version + 1
+         FROM university_profiles WHERE university_id = $1 AND version = 1`,
+        [msu]
+      );
+
+      const stale = await getBattle(saved.id);
+      assertEquals(stale!.isStale, true);
+      assertEquals(stale!.changedUniversityIds, [msu]);
+
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+      const recomputed = await recomputeBattle(saved.id);
+      assertEquals(recomputed.id, saved.id);
+      assertEquals(recomputed.isStale, false);
+      assertEquals(recomputed.profileVersions, [1, 2]);
+      const reputation = recomputed.result.criteria.find((c) => c.key === 'reputation')!;
+      assertEquals(reputation.scores[1].basis, null);
+
+      assertEquals(await getBattle(crypto.randomUUID()), null);
+      await assertRejects(() => recomputeBattle(crypto.randomUUID()), BattleError, 'not found');
+    } finally {
+      clearBattleCache();
+      await llm.close();
+      await db.drop();
+    }
+  },
+});
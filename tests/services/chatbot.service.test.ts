@@ -0,0 +1,196 @@
+/**
+ * Тесты чат-бота: валидация, генерация и поток по фикстурам,
+ * сессии и ответы с источниками на одноразовой БД
+ */
+
+import { assert, assertEquals, assertStringIncludes } from '$std/assert/mod.ts';
+import {
+  addMessageToSession,
+  CHAT_SESSION_CONFIG,
+  createChatSession,
+  deleteChatSession,
+  generateChatbotResponse,
+  getChatSession,
+  isValidSessionId,
+  streamChatbotResponse,
+  validateMessage,
+} from '../../src/services/chatbot.service.ts';
+import { extractNameCandidates, linkCitations } from '../../src/services/chat-retrieval.service.ts';
+import { loadLlmFixtures, startFakeLlmServer } from '../helpers/fake_llm.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('validateMessage rejects empty and too long messages', () => {
+  assertEquals(validateMessage('Привет').valid, true);
+  assertEquals(validateMessage('   ').valid, false);
+  assertEquals(validateMessage('a'.repeat(501)).valid, false);
+});
+
+Deno.test('isValidSessionId accepts only UUIDs', () => {
+  assert(isValidSessionId(crypto.randomUUID()));
+  assert(!isValidSessionId('not-a-uuid'));
+  assert(!isValidSessionId(42));
+});
+
+Deno.test('extractNameCandidates finds Cyrillic and Latin abbreviations', () => {
+  assertEquals(extractNameCandidates('Расскажи про КБТУ'), ['КБТУ']);
+  assertEquals(extractNameCandidates('КБТУ или МУИТ?'), ['КБТУ', 'МУИТ']);
+  assertEquals(extractNameCandidates('Где учиться: КазНУ или MIT'), ['КазНУ', 'MIT']);
+  assertEquals(
+    extractNameCandidates('Сравни Назарбаев Университет и Әл-Фараби'),
+    ['Назарбаев Университет', 'Әл-Фараби']
+  );
+});
+
+Deno.test('linkCitations keeps cited universities and renumbers markers', () => {
+  const universities = [
+    { id: 'a', name: 'Университет А' },
+    { id: 'b', name: 'Университет Б' },
+    { id: 'c', name: 'Университет В' },
+  ];
+
+  const linked = linkCitations('Подходят [3] и Университет А.', universities);
+  assertEquals(linked.citations.map((c) => c.id), ['a', 'c']);
+  assertEquals(linked.response, 'Подходят [2] и Университет А.');
+});
+
+Deno.test({
+  name: 'generateChatbotResponse',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const llm = startFakeLlmServer(await loadLlmFixtures('chatbot'));
+
+    try {
+      await t.step('returns recorded answer', async () => {
+        const reply = await generateChatbotResponse('What documents do I need to apply?', [], 'en');
+        assertStringIncludes(reply.response, 'school certificate');
+        assertEquals(reply.citations, []);
+        assertEquals(llm.requests.at(-1)?.fixture, 'english-question');
+      });
+
+      await t.step('answers repeated simple question from cache', async () => {
+        const before = llm.requests.length;
+        const reply = await generateChatbotResponse('what documents do I need to apply?', [], 'en');
+        assertStringIncludes(reply.response, 'school certificate');
+        assertEquals(llm.requests.length, before);
+      });
+
+      await t.step('includes history in the prompt', async () => {
+        await generateChatbotResponse('Как поступить в университет?', [
+          { role: 'user', content: 'Я из Караганды', timestamp: new Date() },
+        ], 'ru');
+        assertStringIncludes(llm.requests.at(-1)!.prompt, 'User: Я из Караганды');
+      });
+
+      await t.step('truncates long answers', async () => {
+        const reply = await generateChatbotResponse('Расскажи всё о грантах', [], 'ru');
+        assertEquals(reply.response.length, CHAT_SESSION_CONFIG.maxResponseLength);
+        assert(reply.response.endsWith('...'));
+      });
+
+      await t.step('falls back when the model fails', async () => {
+        const reply = await generateChatbotResponse('Ошибка модели', [], 'ru');
+        assertStringIncludes(reply.response, 'произошла ошибка');
+      });
+    } finally {
+      await llm.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'streamChatbotResponse',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const llm = startFakeLlmServer(await loadLlmFixtures('chatbot'));
+
+    try {
+      await t.step('passes tokens as they arrive', async () => {
+        const tokens: string[] = [];
+        const reply = await streamChatbotResponse(
+          'Как поступить в университет?',
+          [{ role: 'assistant', content: 'Здравствуйте!', timestamp: new Date() }],
+          'ru',
+          (token) => tokens.push(token)
+        );
+
+        assert(tokens.length > 1);
+        assertEquals(tokens.join(''), reply.response);
+        assert(llm.requests.at(-1)!.stream);
+      });
+
+      await t.step('stops at maximum response length', async () => {
+        const tokens: string[] = [];
+        const reply = await streamChatbotResponse(
+          'Расскажи всё о грантах',
+          [{ role: 'user', content: 'Привет', timestamp: new Date() }],
+          'ru',
+          (token) => tokens.push(token)
+        );
+
+        assert(tokens.join('').length >= CHAT_SESSION_CONFIG.maxResponseLength);
+        assertEquals(reply.response.length, CHAT_SESSION_CONFIG.maxResponseLength);
+      });
+
+      await t.step('emits fallback when the model fails', async () => {
+        const tokens: string[] = [];
+        const reply = await streamChatbotResponse('Ошибка модели', [], 'en', (token) => tokens.push(token));
+        assertEquals(tokens, [reply.response]);
+        assertStringIncludes(reply.response, 'Sorry');
+      });
+    } finally {
+      await llm.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'chat sessions and cited answers',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const db = await createTestDatabase({ seed: true });
+    const llm = startFakeLlmServer(await loadLlmFixtures('chatbot'));
+
+    try {
+      await t.step('stores messages with citations', async () => {
+        const session = await createChatSession('ru');
+        const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+
+        await addMessageToSession(session.id, 'user', 'Где учиться в Алматы?');
+        await addMessageToSession(session.id, 'assistant', 'Например, КБТУ [1].', [
+          { id: kbtu, name: 'КБТУ' },
+        ]);
+
+        const restored = await getChatSession(session.id);
+        assertEquals(restored?.messages.length, 2);
+        assertEquals(restored?.messages[1].citations, [{ id: kbtu, name: 'КБТУ' }]);
+
+        assert(await deleteChatSession(session.id));
+        assertEquals(await getChatSession(session.id), null);
+      });
+
+      await t.step('grounds answer in universities from the database', async () => {
+        const reply = await generateChatbotResponse('Какие университеты есть в Алматы?', [], 'ru');
+
+        const prompt = llm.requests.at(-1)!.prompt;
+        assertStringIncludes(prompt, 'University database facts');
+        assertEquals(llm.requests.at(-1)!.fixture, 'almaty-universities');
+
+        const almaty = [
+          await getUniversityIdByWebsite('https://kbtu.edu.kz'),
+          await getUniversityIdByWebsite('https://iitu.edu.kz'),
+        ];
+        assertEquals(reply.citations.length, 2);
+        assert(reply.citations.every((c) => almaty.includes(c.id)));
+        assertStringIncludes(reply.response, '[1]');
+        assertStringIncludes(reply.response, '[2]');
+      });
+    } finally {
+      await llm.close();
+      await db.drop();
+    }
+  },
+});
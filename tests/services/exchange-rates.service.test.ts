@@ -0,0 +1,74 @@
+/**
+ * Тесты курсов валют: проверка значений и пересчёт колонок стоимости
+ */
+
+import { assertEquals, assertRejects } from '$std/assert/mod.ts';
+import {
+  clearExchangeRatesCache,
+  deleteExchangeRate,
+  ExchangeRateError,
+  getExchangeRates,
+  setExchangeRate,
+} from '../../src/services/exchange-rates.service.ts';
+import { recalculateTuitionColumns } from '../../src/services/parser.service.ts';
+import { queryOne } from '../../src/config/database.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('setExchangeRate rejects invalid currency and rate', async () => {
+  await assertRejects(() => setExchangeRate('тенге', 500, null), ExchangeRateError, 'ISO 4217');
+  await assertRejects(() => setExchangeRate('USD', 2, null), ExchangeRateError, 'base currency');
+  await assertRejects(() => setExchangeRate('KZT', 0, null), ExchangeRateError, 'positive');
+  await assertRejects(() => setExchangeRate('KZT', NaN, null), ExchangeRateError, 'positive');
+});
+
+Deno.test({
+  name: 'exchange rates drive min_tuition/max_tuition',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const db = await createTestDatabase({ seed: true });
+    clearExchangeRatesCache();
+
+    try {
+      const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+      const tuition = () =>
+        queryOne<{ min_tuition: number | null; max_tuition: number | null }>(
+          'SELECT min_tuition, max_tuition FROM universities WHERE id = $1',
+          [kbtu]
+        );
+
+      await t.step('rates from migration', async () => {
+        const rates = await getExchangeRates();
+        assertEquals([rates.USD, rates.KZT], [1, 500]);
+      });
+
+      await t.step('recalculation uses current rates', async () => {
+        await recalculateTuitionColumns();
+        // 3 200 000 KZT по 500 за USD
+        assertEquals(await tuition(), { min_tuition: 6400, max_tuition: 6400 });
+
+        const rate = await setExchangeRate('kzt', 400, 'Admin');
+        assertEquals([rate.currency, rate.unitsPerUsd, rate.updatedBy], ['KZT', 400, 'Admin']);
+        assertEquals((await getExchangeRates()).KZT, 400);
+
+        const updated = await recalculateTuitionColumns();
+        assertEquals(updated > 0, true);
+        assertEquals(await tuition(), { min_tuition: 8000, max_tuition: 8000 });
+        assertEquals(await recalculateTuitionColumns(), 0);
+      });
+
+      await t.step('currency without rate is left out', async () => {
+        await deleteExchangeRate('KZT');
+        await recalculateTuitionColumns();
+        assertEquals(await tuition(), { min_tuition: null, max_tuition: null });
+
+        await assertRejects(() => deleteExchangeRate('KZT'), ExchangeRateError, 'No rate');
+        await assertRejects(() => deleteExchangeRate('USD'), ExchangeRateError, 'base currency');
+      });
+    } finally {
+      clearExchangeRatesCache();
+      await db.drop();
+    }
+  },
+});
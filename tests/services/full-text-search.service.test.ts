@@ -0,0 +1,90 @@
+/**
+ * Тесты полнотекстового поиска: разбор подсветки и поиск по документам
+ */
+
+import { assert, assertEquals } from '$std/assert/mod.ts';
+import { parseHeadline, searchUniversityContent } from '../../src/services/full-text-search.service.ts';
+import { query } from '../../src/config/database.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('parseHeadline splits highlighted fragments', () => {
+  assertEquals(parseHeadline(null), []);
+  assertEquals(parseHeadline('без совпадений'), [{ text: 'без совпадений', highlight: false }]);
+  assertEquals(parseHeadline('Автономный \u0002исследовательский\u0003 университет \u0002мирового\u0003'), [
+    { text: 'Автономный ', highlight: false },
+    { text: 'исследовательский', highlight: true },
+    { text: ' университет ', highlight: false },
+    { text: 'мирового', highlight: true },
+  ]);
+  // Соседние совпадения склеиваются
+  assertEquals(parseHeadline('\u0002Data\u0003\u0002 Science\u0003'), [{ text: 'Data Science', highlight: true }]);
+});
+
+Deno.test({
+  name: 'content search covers descriptions, programs and translations',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const db = await createTestDatabase({ seed: true });
+
+    try {
+      const nu = await getUniversityIdByWebsite('https://nu.edu.kz');
+      const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+
+      await t.step('russian morphology in description', async () => {
+        const { results, total } = await searchUniversityContent('исследовательских университетов');
+        assertEquals(total, 1);
+        assertEquals(results[0].id, nu);
+        assert(results[0].matched_languages.includes('ru'));
+        const highlighted = results[0].snippet.filter((p) => p.highlight).map((p) => p.text.toLowerCase());
+        assert(highlighted.some((text) => text.startsWith('исследовательск')));
+      });
+
+      await t.step('program names in english', async () => {
+        const { results } = await searchUniversityContent('petroleum engineering', { language: 'en' });
+        assertEquals(results.map((r) => r.id), [kbtu]);
+        assert(results[0].matched_languages.includes('en'));
+        assert(results[0].snippet.some((p) => p.highlight && p.text === 'Petroleum'));
+      });
+
+      await t.step('new profile version refreshes the document', async () => {
+        assertEquals((await searchUniversityContent('нанотехнологии')).total, 0);
+
+        await query(
+          `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+           SELECT university_id,
+                  jsonb_set(profile_json, '{research_focus}', '"Нанотехнологии и робототехника"'),
+                  field_provenance, language, version + 1
+           FROM university_profiles WHERE university_id = $1 AND version = 1`,
+          [nu]
+        );
+
+        const { results } = await searchUniversityContent('нанотехнологии');
+        assertEquals(results.map((r) => r.id), [nu]);
+      });
+
+      await t.step('kazakh translation', async () => {
+        await query(
+          `UPDATE universities
+           SET translations = jsonb_build_object('kk', jsonb_build_object(
+             'name', 'Назарбаев Университеті',
+             'description', 'Әлемдік деңгейдегі зерттеу университеті'))
+           WHERE id = $1`,
+          [nu]
+        );
+
+        const { results } = await searchUniversityContent('зерттеу', { language: 'kk' });
+        assertEquals(results.map((r) => r.id), [nu]);
+        assert(results[0].matched_languages.includes('kk'));
+        assert(results[0].snippet.some((p) => p.highlight && p.text === 'зерттеу'));
+      });
+
+      await t.step('no matches', async () => {
+        assertEquals(await searchUniversityContent('квазипространственный'), { results: [], total: 0 });
+      });
+    } finally {
+      await db.drop();
+    }
+  },
+});
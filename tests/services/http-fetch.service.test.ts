@@ -0,0 +1,171 @@
+/**
+ * Тесты вежливой загрузки: Retry-After, Crawl-delay, лимиты домена, условные запросы
+ */
+
+import { assert, assertEquals, assertRejects } from '$std/assert/mod.ts';
+import {
+  HTTP_FETCH_CONFIG,
+  parseRetryAfter,
+  politeFetch,
+  resetDomainStates,
+  RetryLaterError,
+  setDomainCrawlDelay,
+} from '../../src/services/http-fetch.service.ts';
+import {
+  checkPagesNotModified,
+  crawlWebsite,
+  parseRobotsCrawlDelay,
+} from '../../src/services/crawler.service.ts';
+import { fetchAndHashWebsite, ParserError } from '../../src/services/parser.service.ts';
+
+/**
+ * Локальный сервер на случайном порту
+ */
+const withServer = async (
+  handler: (req: Request) => Response | Promise<Response>,
+  fn: (baseUrl: string) => Promise<void>
+): Promise<void> => {
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, handler);
+  resetDomainStates();
+  const minDelayMs = HTTP_FETCH_CONFIG.minDelayMs;
+  HTTP_FETCH_CONFIG.minDelayMs = 0;
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`);
+  } finally {
+    HTTP_FETCH_CONFIG.minDelayMs = minDelayMs;
+    resetDomainStates();
+    await server.shutdown();
+  }
+};
+
+Deno.test('parseRetryAfter accepts seconds and HTTP dates', () => {
+  const now = new Date('2025-01-10T12:00:00Z');
+  assertEquals(parseRetryAfter('120', now), new Date('2025-01-10T12:02:00Z'));
+  assertEquals(parseRetryAfter('Fri, 10 Jan 2025 12:05:00 GMT', now), new Date('2025-01-10T12:05:00Z'));
+  // Дата в прошлом — повторять можно сразу
+  assertEquals(parseRetryAfter('Fri, 10 Jan 2025 11:00:00 GMT', now), now);
+  assertEquals(parseRetryAfter('soon', now), null);
+  assertEquals(parseRetryAfter(null, now), null);
+  // Слишком далёкий срок ограничивается
+  assertEquals(
+    parseRetryAfter('999999999', now)!.getTime() - now.getTime(),
+    HTTP_FETCH_CONFIG.maxRetryAfterMs
+  );
+});
+
+Deno.test('parseRobotsCrawlDelay prefers our agent over the wildcard group', () => {
+  assertEquals(parseRobotsCrawlDelay('User-agent: *\nCrawl-delay: 5\nDisallow: /admin'), 5);
+  assertEquals(
+    parseRobotsCrawlDelay('User-agent: *\nCrawl-delay: 5\n\nUser-agent: DigitalUniversity\nCrawl-delay: 2'),
+    2
+  );
+  assertEquals(parseRobotsCrawlDelay('User-agent: Googlebot\nCrawl-delay: 10'), null);
+  assertEquals(parseRobotsCrawlDelay('User-agent: *\nCrawl-delay: abc'), null);
+});
+
+Deno.test('politeFetch blocks the domain after 429 with Retry-After', async () => {
+  let hits = 0;
+  await withServer(() => {
+    hits++;
+    return new Response('slow down', { status: 429, headers: { 'Retry-After': '120' } });
+  }, async (baseUrl) => {
+    const response = await politeFetch(`${baseUrl}/`, { timeout: 5000 });
+    await response.body?.cancel();
+    assertEquals(response.status, 429);
+
+    const err = await assertRejects(() => politeFetch(`${baseUrl}/other`, { timeout: 5000 }), RetryLaterError);
+    assert((err as RetryLaterError).retryAt.getTime() > Date.now() + 100_000);
+    assertEquals(hits, 1);
+  });
+});
+
+Deno.test('politeFetch limits concurrency and honours Crawl-delay per domain', async () => {
+  let active = 0;
+  let maxActive = 0;
+  const startedAt: number[] = [];
+  await withServer(async () => {
+    active++;
+    maxActive = Math.max(maxActive, active);
+    startedAt.push(Date.now());
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    active--;
+    return new Response('ok');
+  }, async (baseUrl) => {
+    setDomainCrawlDelay(baseUrl, 0.15);
+    const responses = await Promise.all(
+      [1, 2, 3].map((n) => politeFetch(`${baseUrl}/page-${n}`, { timeout: 5000 }))
+    );
+    await Promise.all(responses.map((r) => r.text()));
+
+    assertEquals(maxActive, 1);
+    assertEquals(startedAt.length, 3);
+    for (let i = 1; i < startedAt.length; i++) {
+      assert(startedAt[i] - startedAt[i - 1] >= 140, `requests ${i - 1} and ${i} were not spaced`);
+    }
+  });
+});
+
+Deno.test('fetchAndHashWebsite sends validators and reports 304 as not modified', async () => {
+  await withServer((req) => {
+    if (req.headers.get('if-none-match') === '"v1"') {
+      return new Response(null, { status: 304, headers: { 'ETag': '"v1"' } });
+    }
+    return new Response('<html><body>Hello</body></html>', {
+      headers: { 'ETag': '"v1"', 'Last-Modified': 'Fri, 10 Jan 2025 12:00:00 GMT' },
+    });
+  }, async (baseUrl) => {
+    const first = await fetchAndHashWebsite(baseUrl);
+    assertEquals(first.notModified, false);
+    assertEquals(first.etag, '"v1"');
+    assertEquals(first.lastModified, 'Fri, 10 Jan 2025 12:00:00 GMT');
+    assert(first.hash.length > 0);
+
+    const second = await fetchAndHashWebsite(baseUrl, { etag: first.etag, lastModified: first.lastModified });
+    assertEquals(second.notModified, true);
+    assertEquals(second.status, 304);
+  });
+});
+
+Deno.test('inner pages keep validators and are rechecked conditionally', async () => {
+  let tuitionVersion = '"t1"';
+  await withServer((req) => {
+    const path = new URL(req.url).pathname;
+    if (path !== '/tuition') return new Response('not found', { status: 404 });
+
+    if (req.headers.get('if-none-match') === tuitionVersion) {
+      return new Response(null, { status: 304, headers: { 'ETag': tuitionVersion } });
+    }
+    return new Response('<html><body>Стоимость обучения</body></html>', {
+      headers: { 'Content-Type': 'text/html', 'ETag': tuitionVersion },
+    });
+  }, async (baseUrl) => {
+    const pages = await crawlWebsite(baseUrl, '<a href="/tuition">Стоимость обучения</a>');
+    assertEquals(pages.map((p) => p.url), [baseUrl, `${baseUrl}/tuition`]);
+    assertEquals(pages[1].etag, '"t1"');
+
+    const validators = [{ url: pages[1].url, etag: pages[1].etag!, lastModified: null }];
+    assertEquals(await checkPagesNotModified(validators), true);
+
+    // Страница стоимости изменилась при неизменной главной
+    tuitionVersion = '"t2"';
+    assertEquals(await checkPagesNotModified(validators), false);
+
+    // Без валидаторов изменение не исключить
+    assertEquals(await checkPagesNotModified([{ url: pages[1].url, etag: null, lastModified: null }]), false);
+    assertEquals(await checkPagesNotModified([]), true);
+  });
+});
+
+Deno.test('fetchAndHashWebsite does not retry 503 and passes Retry-After on', async () => {
+  let hits = 0;
+  await withServer(() => {
+    hits++;
+    return new Response('maintenance', { status: 503, headers: { 'Retry-After': '60' } });
+  }, async (baseUrl) => {
+    const err = await assertRejects(() => fetchAndHashWebsite(baseUrl), ParserError, 'HTTP 503');
+    const details = (err as ParserError).details as { status: number; retryAt: Date };
+    assertEquals(details.status, 503);
+    assert(details.retryAt.getTime() > Date.now());
+    assertEquals(hits, 1);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Тесты очереди парсинга: backoff, приоритеты, повторы и отмена
+ */
+
+import { assert, assertEquals, assertRejects } from '$std/assert/mod.ts';
+import {
+  cancelParseJob,
+  claimNextParseJob,
+  completeParseJob,
+  computeBackoffMs,
+  enqueueParseJob,
+  failParseJob,
+  getParseJob,
+  getParseJobStats,
+  heartbeatParseJob,
+  PARSE_JOB_CONFIG,
+  PARSE_JOB_PRIORITY,
+  ParseJobError,
+  requeueStaleParseJobs,
+} from '../../src/services/parse-jobs.service.ts';
+import { query } from '../../src/config/database.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('computeBackoffMs doubles the delay per attempt and caps it', () => {
+  const base = PARSE_JOB_CONFIG.backoffBaseMs;
+  assertEquals(computeBackoffMs(1), base);
+  assertEquals(computeBackoffMs(2), base * 2);
+  assertEquals(computeBackoffMs(4), base * 8);
+  assertEquals(computeBackoffMs(100), PARSE_JOB_CONFIG.backoffMaxMs);
+});
+
+Deno.test({
+  name: 'parse jobs are deduplicated, claimed by priority, retried with backoff and cancellable',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+    try {
+      const [first, second] = await query<{ id: string }>(
+        'SELECT id FROM universities ORDER BY name LIMIT 2'
+      );
+
+      const scheduled = await enqueueParseJob({ universityId: first.id, type: 'check' });
+      const manual = await enqueueParseJob({
+        universityId: second.id,
+        type: 'reparse',
+        priority: PARSE_JOB_PRIORITY.manual,
+        requestedBy: 'admin',
+      });
+
+      // Повторная постановка переиспользует ожидающее задание и поднимает приоритет
+      const upgraded = await enqueueParseJob({
+        universityId: first.id,
+        type: 'reparse',
+        priority: PARSE_JOB_PRIORITY.manual,
+        options: { overwriteManual: true },
+      });
+      assertEquals(upgraded.id, scheduled.id);
+      assertEquals([upgraded.type, upgraded.priority, upgraded.options.overwriteManual], [
+        'reparse',
+        PARSE_JOB_PRIORITY.manual,
+        true,
+      ]);
+
+      // При равном приоритете первым выдаётся задание, готовое раньше
+      const claimed = await claimNextParseJob('worker-a');
+      assertEquals([claimed?.id, claimed?.status, claimed?.attempts], [scheduled.id, 'running', 1]);
+
+      // Выполняющееся задание не дублируется и не отменяется
+      assertEquals((await enqueueParseJob({ universityId: first.id, type: 'check' })).id, scheduled.id);
+      const error = await assertRejects(() => cancelParseJob(scheduled.id), ParseJobError) as ParseJobError;
+      assertEquals(error.code, 'NOT_CANCELLABLE');
+
+      // Ошибка — повтор отложен на backoff, задание не выдаётся раньше срока
+      assertEquals(await failParseJob(scheduled.id, 'LLM timeout'), 'pending');
+      const retried = await getParseJob(scheduled.id);
+      assertEquals(retried?.lastError, 'LLM timeout');
+      assert(new Date(retried!.nextRunAt).getTime() > Date.now() + computeBackoffMs(1) - 5000);
+
+      const next = await claimNextParseJob('worker-a');
+      assertEquals(next?.id, manual.id);
+      await completeParseJob(manual.id, { updated: true });
+      assertEquals(await claimNextParseJob('worker-a'), null);
+
+      // Блокировку продлевает только воркер-владелец; без продления задание возвращается в очередь
+      await query('UPDATE parse_jobs SET next_run_at = NOW() WHERE id = $1', [scheduled.id]);
+      assertEquals((await claimNextParseJob('worker-a'))?.attempts, 2);
+      await query(`UPDATE parse_jobs SET locked_at = NOW() - INTERVAL '1 hour' WHERE id = $1`, [scheduled.id]);
+      assertEquals(await heartbeatParseJob(scheduled.id, 'worker-b'), false);
+      assertEquals(await heartbeatParseJob(scheduled.id, 'worker-a'), true);
+      assertEquals(await requeueStaleParseJobs(), 0);
+
+      await query(`UPDATE parse_jobs SET locked_at = NOW() - INTERVAL '1 hour' WHERE id = $1`, [scheduled.id]);
+      assertEquals(await requeueStaleParseJobs(), 1);
+      assertEquals((await getParseJob(scheduled.id))?.status, 'pending');
+
+      assertEquals((await cancelParseJob(scheduled.id)).status, 'cancelled');
+      await assertRejects(() => cancelParseJob(crypto.randomUUID()), ParseJobError, 'not found');
+
+      const stats = await getParseJobStats();
+      assertEquals([stats.succeeded, stats.cancelled, stats.pending], [1, 1, 0]);
+    } finally {
+      await db.drop();
+    }
+  },
+});
+
+Deno.test({
+  name: 'enqueueParseJob keeps forceUpdate when merging into a pending check',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+    try {
+      const [university] = await query<{ id: string }>('SELECT id FROM universities ORDER BY name LIMIT 1');
+
+      const scheduled = await enqueueParseJob({ universityId: university.id, type: 'check' });
+      const manual = await enqueueParseJob({
+        universityId: university.id,
+        type: 'check',
+        priority: PARSE_JOB_PRIORITY.manual,
+        options: { forceUpdate: true },
+      });
+      assertEquals(manual.id, scheduled.id);
+      assertEquals([manual.priority, manual.options.forceUpdate], [PARSE_JOB_PRIORITY.manual, true]);
+
+      // Повторная плановая постановка флаг не сбрасывает
+      const again = await enqueueParseJob({ universityId: university.id, type: 'check', options: { forceUpdate: false } });
+      assertEquals(again.options.forceUpdate, true);
+
+      // Задание завершилось — следующая постановка создаёт новое
+      await claimNextParseJob('worker-a');
+      await completeParseJob(scheduled.id, { updated: false });
+      const fresh = await enqueueParseJob({ universityId: university.id, type: 'check' });
+      assert(fresh.id !== scheduled.id);
+      assertEquals(fresh.options, {});
+    } finally {
+      await db.drop();
+    }
+  },
+});
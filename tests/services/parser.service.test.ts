@@ -0,0 +1,324 @@
+/**
+ * Тесты парсера: извлечение полей профиля, LLM-парсинг по фикстурам
+ * и полный цикл обновления источника на одноразовой БД
+ */
+
+import { assert, assertEquals, assertRejects, assertStringIncludes } from '$std/assert/mod.ts';
+import {
+  calculateCompletenessScore,
+  checkAndUpdateWebsite,
+  extractAllPrograms,
+  extractDegreeLevels,
+  extractLanguages,
+  extractSpecializations,
+  extractTuitionRange,
+  markdownToUniversityProfile,
+  type ParseFieldError,
+  ParserError,
+  prepareExtendedDbFields,
+} from '../../src/services/parser.service.ts';
+import { UNIVERSITY_PROFILE_SCHEMA } from '../../src/types/university.schema.ts';
+import { query, queryOne } from '../../src/config/database.ts';
+import type { University } from '../../src/types/index.ts';
+import { loadLlmFixtures, startFakeLlmServer } from '../helpers/fake_llm.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+const SITE_MARKDOWN = `# Test Polytechnic University
+
+Технический университет в Алматы. Основан в 1995 году.
+
+## Программы
+- Bachelor program Computer Science, 4 года, English
+- Master program Data Science, 2 года
+
+Приёмная комиссия: admission@tpu.example.kz`;
+
+const SAMPLE_PROFILE: Partial<University> = {
+  name: 'Sample University',
+  description: 'Исследовательский университет: информатика и бизнес',
+  programs: [
+    {
+      id: 'p1',
+      name: 'Computer Science',
+      degree_level: 'Bachelor',
+      duration_years: 4,
+      language: 'English',
+      tuition: { amount: 2000000, currency: 'KZT', per_year: true },
+    },
+    {
+      id: 'p2',
+      name: 'Finance',
+      degree_level: 'Master',
+      duration_years: 2,
+      language: 'Русский',
+      tuition: { amount: 3500000, currency: 'KZT', per_year: true },
+    },
+  ],
+  international: {
+    accepts_international: true,
+    languages_of_instruction: ['English', 'Қазақ тілі'],
+  },
+  student_count: 12000,
+};
+
+const RATES = { USD: 1, KZT: 500, RUB: 90 };
+
+Deno.test('extractSpecializations finds categories in program names and description', () => {
+  const specializations = extractSpecializations(SAMPLE_PROFILE);
+  assert(specializations.includes('STEM'));
+  assert(specializations.includes('Business'));
+  assert(!specializations.includes('Medicine'));
+});
+
+Deno.test('extractTuitionRange converts program, profile and general tuition to USD', () => {
+  assertEquals(extractTuitionRange(SAMPLE_PROFILE, RATES), { min: 4000, max: 7000 });
+  assertEquals(
+    extractTuitionRange({ tuition_general: { domestic_students: '1,200,000 KZT в год' } }, RATES),
+    { min: 2400, max: 2400 }
+  );
+  assertEquals(
+    extractTuitionRange({
+      tuition_general: { domestic_students: '1 500 000 тенге', international_students: '$5,000 в год' },
+    }, RATES),
+    { min: 3000, max: 5000 }
+  );
+  // Валюта без курса и сумма без валюты не учитываются
+  assertEquals(
+    extractTuitionRange({
+      programs: [{ ...SAMPLE_PROFILE.programs![0], tuition: { amount: 90000, currency: 'CNY', per_year: true } }],
+      tuition_general: { domestic_students: '5000 в год' },
+    }, RATES),
+    { min: null, max: null }
+  );
+  // Общая стоимость профиля учитывается вместе с программами
+  assertEquals(
+    extractTuitionRange({ programs: [], tuition: { amount: 3200000, currency: 'KZT', per_year: true } }, RATES),
+    { min: 6400, max: 6400 }
+  );
+  assertEquals(
+    extractTuitionRange({ ...SAMPLE_PROFILE, tuition: { amount: 9000, currency: 'USD', per_year: true } }, RATES),
+    { min: 4000, max: 9000 }
+  );
+  assertEquals(extractTuitionRange({ programs: [] }, RATES), { min: null, max: null });
+});
+
+Deno.test('extractLanguages and extractDegreeLevels deduplicate values', () => {
+  assertEquals(extractLanguages(SAMPLE_PROFILE).sort(), ['English', 'Русский', 'Қазақ тілі'].sort());
+  assertEquals(extractDegreeLevels(SAMPLE_PROFILE), ['Bachelor', 'Master']);
+});
+
+Deno.test('prepareExtendedDbFields serialises filter columns', () => {
+  const fields = prepareExtendedDbFields(SAMPLE_PROFILE, RATES);
+  assertEquals(JSON.parse(fields.degree_levels), ['Bachelor', 'Master']);
+  assertEquals(fields.min_tuition, 4000);
+  assertEquals(fields.max_tuition, 7000);
+  assertEquals(fields.size_category, 'medium');
+  assertEquals(fields.accepts_international, true);
+});
+
+Deno.test('calculateCompletenessScore grows with filled fields', () => {
+  const empty = calculateCompletenessScore({ name: 'X' });
+  const filled = calculateCompletenessScore(SAMPLE_PROFILE);
+  assert(filled > empty);
+  assert(filled <= 100);
+});
+
+Deno.test({
+  name: 'markdownToUniversityProfile parses recorded LLM response',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const llm = startFakeLlmServer(await loadLlmFixtures('parser'));
+    try {
+      const profile = await markdownToUniversityProfile(SITE_MARKDOWN, 'https://tpu.example.kz');
+
+      assertEquals(profile.name, 'Test Polytechnic University');
+      assertEquals(profile.city, 'Алматы');
+      assertEquals(profile.programs?.length, 2);
+      assertEquals(profile.programs?.[1].degree_level, 'Master');
+      assertEquals(profile.metadata?.source_url, 'https://tpu.example.kz');
+      assertEquals(profile.metadata?.source_pages, ['https://tpu.example.kz']);
+      assert((profile.metadata?.completeness_score ?? 0) > 0);
+
+      // Промпт содержит текст сайта и ушёл с системной инструкцией JSON
+      assertEquals(llm.requests.length, 1);
+      assertEquals(llm.requests[0].fixture, 'profile');
+      assertStringIncludes(llm.requests[0].prompt, 'SOURCE URL: https://tpu.example.kz');
+      assertStringIncludes(llm.requests[0].system ?? '', 'valid JSON');
+      assertEquals(llm.requests[0].format, UNIVERSITY_PROFILE_SCHEMA);
+    } finally {
+      await llm.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'markdownToUniversityProfile asks model to correct schema violations',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const llm = startFakeLlmServer(await loadLlmFixtures('parser'));
+    try {
+      const profile = await markdownToUniversityProfile(
+        '# Steppe Institute of Technology\nГорное дело, Караганда',
+        'https://sit.example.kz'
+      );
+
+      assertEquals(profile.name, 'Steppe Institute of Technology');
+      assertEquals(profile.founded_year, 1961);
+      assertEquals(profile.programs?.[0].duration_years, 4);
+
+      assertEquals(llm.requests.map((r) => r.fixture), ['invalid-profile', 'corrected-profile']);
+      const correction = llm.requests[1].prompt;
+      assertStringIncludes(correction, '- name: is required');
+      assertStringIncludes(correction, '- programs[0].duration_years: expected number');
+      assertStringIncludes(correction, '- rankings[0].source: is required');
+    } finally {
+      await llm.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'markdownToUniversityProfile reports field errors when corrections fail',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const llm = startFakeLlmServer(await loadLlmFixtures('parser'));
+    try {
+      const err = (await assertRejects(
+        () => markdownToUniversityProfile('# Unnamed College\nШымкент', 'https://uc.example.kz'),
+        ParserError
+      )) as ParserError;
+
+      assertEquals(err.code, 'VALIDATION_ERROR');
+      const { fieldErrors } = err.details as { fieldErrors: ParseFieldError[] };
+      assertEquals(fieldErrors, [{ path: 'name', message: 'is required', fatal: true }]);
+
+      // Первый ответ и два запроса на исправление, без повторов парсинга
+      assertEquals(llm.requests.length, 3);
+    } finally {
+      await llm.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'markdownToUniversityProfile keeps field errors of dropped optional fields',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const llm = startFakeLlmServer(await loadLlmFixtures('parser'));
+    try {
+      const profile = await markdownToUniversityProfile('# Prairie College\nКостанай', 'https://pc.example.kz');
+
+      assertEquals(profile.name, 'Prairie College');
+      assertEquals(profile.founded_year, undefined);
+      assertEquals(profile.metadata?.field_errors?.map((e) => [e.path, e.fatal, e.page]), [
+        ['founded_year', false, 'https://pc.example.kz'],
+      ]);
+      assertEquals(llm.requests.length, 3);
+    } finally {
+      await llm.close();
+    }
+  },
+});
+
+Deno.test({
+  name: 'extractAllPrograms normalises programs returned by LLM',
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const llm = startFakeLlmServer(await loadLlmFixtures('parser'));
+    try {
+      const programs = await extractAllPrograms(SITE_MARKDOWN);
+
+      assertEquals(programs.length, 2);
+      assertEquals(programs[0].id, 'cs-bsc');
+      // Пропущенные поля заполняются, id генерируется по позиции
+      assertEquals(programs[1].id, 'prog-2');
+      assertEquals(programs[1].degree_level, 'Master');
+      assertEquals(programs[1].admission_requirements, 'Нет информации');
+      assertEquals(llm.requests[0].fixture, 'programs');
+    } finally {
+      await llm.close();
+    }
+  },
+});
+
+Deno.test('extractAllPrograms skips LLM when text has no program mentions', async () => {
+  const llm = startFakeLlmServer([]);
+  try {
+    assertEquals(await extractAllPrograms('# Контакты\nТелефон: 123'), []);
+    assertEquals(llm.requests.length, 0);
+  } finally {
+    await llm.close();
+  }
+});
+
+Deno.test({
+  name: 'checkAndUpdateWebsite stores new profile version and filter columns',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase();
+    const llm = startFakeLlmServer(await loadLlmFixtures('parser'));
+    const site = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, () =>
+      new Response(
+        `<html><body><h1>Test Polytechnic University</h1><p>Технический университет в Алматы.</p></body></html>`,
+        { headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+      ));
+    const siteUrl = `http://127.0.0.1:${site.addr.port}/`;
+
+    try {
+      const university = await queryOne<{ id: string }>(
+        `INSERT INTO universities (name, country, city, website_url)
+         VALUES ('Test Polytechnic University', 'Казахстан', 'Алматы', $1)
+         RETURNING id`,
+        [siteUrl]
+      );
+      const source = await queryOne<{ id: string }>(
+        `INSERT INTO university_sources (university_id, url) VALUES ($1, $2) RETURNING id`,
+        [university!.id, siteUrl]
+      );
+
+      const result = await checkAndUpdateWebsite(university!.id, source!.id, siteUrl, true);
+      assertEquals(result.error, undefined);
+      assert(result.updated);
+      assert(result.newHash);
+
+      const profiles = await query<{ version: number; profile_json: University }>(
+        'SELECT version, profile_json FROM university_profiles WHERE university_id = $1',
+        [university!.id]
+      );
+      assertEquals(profiles.length, 1);
+      assertEquals(profiles[0].version, 1);
+      assertEquals(profiles[0].profile_json.programs.length, 2);
+
+      const row = await queryOne<{ min_tuition: string; max_tuition: string; size_category: string }>(
+        'SELECT min_tuition, max_tuition, size_category FROM universities WHERE id = $1',
+        [university!.id]
+      );
+      // KZT пересчитаны в USD по начальному курсу миграции (500 ₸ за 1 USD)
+      assertEquals(Number(row!.min_tuition), 5000);
+      assertEquals(Number(row!.max_tuition), 6200);
+      assertEquals(row!.size_category, 'small');
+
+      const sourceRow = await queryOne<{ current_hash: string; last_validation_errors: unknown[] }>(
+        'SELECT current_hash, last_validation_errors FROM university_sources WHERE id = $1',
+        [source!.id]
+      );
+      assertEquals(sourceRow!.current_hash, result.newHash);
+      assertEquals(sourceRow!.last_validation_errors, []);
+
+      // Повторная проверка без изменений на сайте не создаёт новую версию
+      const second = await checkAndUpdateWebsite(university!.id, source!.id, siteUrl);
+      assertEquals(second.updated, false);
+    } finally {
+      await site.shutdown();
+      await llm.close();
+      await db.drop();
+    }
+  },
+});
@@ -0,0 +1,101 @@
+/**
+ * Тесты проверки изменений парсера: наложение diff, частичное принятие, отклонение
+ */
+
+import { assert, assertEquals, assertRejects } from '$std/assert/mod.ts';
+import {
+  applyFieldDiffs,
+  approveProfileChange,
+  getProfileChange,
+  ProfileChangeError,
+  rejectProfileChange,
+} from '../../src/services/profile-changes.service.ts';
+import { query, queryOne } from '../../src/config/database.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+import type { University } from '../../src/types/university.ts';
+
+Deno.test('applyFieldDiffs sets nested paths and removes fields without mutating the profile', () => {
+  const profile = {
+    name: 'КазНУ',
+    description: 'old',
+    contacts: { phone: '1', email: 'a@b.kz' },
+  } as unknown as University;
+
+  const result = applyFieldDiffs(profile, [
+    { path: 'contacts.phone', change: 'updated', old_value: '1', new_value: '2' },
+    { path: 'contacts.email', change: 'removed', old_value: 'a@b.kz' },
+    { path: 'campus.city', change: 'added', new_value: 'Алматы' },
+  ]);
+
+  assertEquals(result.contacts, { phone: '2' });
+  assertEquals((result as unknown as { campus: unknown }).campus, { city: 'Алматы' });
+  assertEquals(result.description, 'old');
+  assertEquals(profile.contacts, { phone: '1', email: 'a@b.kz' });
+});
+
+Deno.test({
+  name: 'profile changes publish only accepted fields and cannot be reviewed twice',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+    try {
+      const [current] = await query<{ university_id: string; version: number; profile_json: University }>(
+        `SELECT DISTINCT ON (university_id) university_id, version, profile_json
+         FROM university_profiles ORDER BY university_id, version DESC LIMIT 1`
+      );
+      const universityId = current.university_id;
+
+      const proposed: University = {
+        ...current.profile_json,
+        description: 'Новое описание с сайта',
+        mission: 'Новая миссия',
+      };
+      const stage = async (): Promise<string> => {
+        const [row] = await query<{ id: string }>(
+          `INSERT INTO profile_changes (university_id, base_version, profile_json)
+           VALUES ($1, $2, $3) RETURNING id`,
+          [universityId, current.version, JSON.stringify(proposed)]
+        );
+        return row.id;
+      };
+
+      const changeId = await stage();
+      const detail = await getProfileChange(changeId);
+      assertEquals(detail!.status, 'pending');
+      assertEquals(detail!.fields.map((f) => f.path).sort(), ['description', 'mission']);
+      assertEquals(detail!.conflicts, []);
+
+      await assertRejects(
+        () => approveProfileChange(changeId, { fields: ['programs'] }),
+        ProfileChangeError,
+        'not part of this change'
+      );
+
+      const approved = await approveProfileChange(changeId, { fields: ['description'], reviewedBy: 'admin' });
+      assertEquals(approved.status, 'partially_approved');
+      assertEquals(approved.publishedVersion, current.version + 1);
+
+      const published = await queryOne<{ profile_json: University }>(
+        `SELECT profile_json FROM university_profiles WHERE university_id = $1 ORDER BY version DESC LIMIT 1`,
+        [universityId]
+      );
+      assertEquals(published!.profile_json.description, 'Новое описание с сайта');
+      assertEquals(published!.profile_json.mission, current.profile_json.mission);
+
+      await assertRejects(() => rejectProfileChange(changeId), ProfileChangeError, 'already');
+
+      // Профиль изменился после парсинга — следующее изменение показывает конфликт
+      const secondId = await stage();
+      const second = await getProfileChange(secondId);
+      assert(second!.conflicts.includes('description'));
+
+      const rejected = await rejectProfileChange(secondId, { comment: 'Ошибка парсинга' });
+      assertEquals(rejected.status, 'rejected');
+      assertEquals(rejected.reviewComment, 'Ошибка парсинга');
+    } finally {
+      await db.drop();
+    }
+  },
+});
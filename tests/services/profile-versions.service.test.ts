@@ -0,0 +1,80 @@
+/**
+ * Тесты версий профиля: структурированный diff и откат с пересчётом колонок фильтров
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import { diffProfiles, rollbackToVersion } from '../../src/services/profile-versions.service.ts';
+import { saveProfileVersion } from '../../src/services/parser.service.ts';
+import { clearExchangeRatesCache } from '../../src/services/exchange-rates.service.ts';
+import { queryOne, transaction } from '../../src/config/database.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+import { callRoute } from '../helpers/routes.ts';
+import { handler as rollbackHandler } from '../../routes/api/admin/universities/[id]/versions/[version]/rollback.ts';
+import type { University } from '../../src/types/university.ts';
+
+Deno.test('diffProfiles reports nested changes and skips service fields', () => {
+  const before = { name: 'КБТУ', updated_at: '1', contacts: { phone: '1' } } as unknown as University;
+  const after = {
+    name: 'КБТУ',
+    updated_at: '2',
+    contacts: { phone: '2', email: 'a@b.kz' },
+  } as unknown as University;
+
+  assertEquals(diffProfiles(before, after), [
+    { path: 'contacts.email', change: 'added', new_value: 'a@b.kz' },
+    { path: 'contacts.phone', change: 'updated', old_value: '1', new_value: '2' },
+  ]);
+});
+
+Deno.test({
+  name: 'rollbackToVersion restores filter columns together with the profile',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+    clearExchangeRatesCache();
+
+    try {
+      const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+      const latest = await queryOne<{ version: number; profile_json: University }>(
+        `SELECT version, profile_json FROM university_profiles
+         WHERE university_id = $1 ORDER BY version DESC LIMIT 1`,
+        [kbtu]
+      );
+      const tuition = () =>
+        queryOne<{ min_tuition: number | null; accepts_international: boolean }>(
+          'SELECT min_tuition, accepts_international FROM universities WHERE id = $1',
+          [kbtu]
+        );
+
+      // Исходная версия: 3 200 000 KZT по 500 за USD
+      await transaction((client) => saveProfileVersion(client, kbtu, latest!.profile_json, {}));
+      const original = await tuition();
+      assertEquals(Number(original!.min_tuition), 6400);
+
+      const changed: University = {
+        ...latest!.profile_json,
+        tuition: { amount: 5000000, currency: 'KZT', per_year: true },
+        international: { accepts_international: false, languages_of_instruction: [] },
+      };
+      await transaction((client) => saveProfileVersion(client, kbtu, changed, {}));
+      assertEquals(await tuition(), { min_tuition: 10000, accepts_international: false });
+
+      const result = await rollbackToVersion(kbtu, latest!.version + 1);
+      assertEquals(result.success, true);
+      assertEquals(await tuition(), original);
+
+      // Через маршрут 404 — только для отсутствующей версии или университета
+      const headers = { 'X-Admin-Key': Deno.env.get('ADMIN_KEY') ?? 'dev-admin-key' };
+      for (const params of [{ id: kbtu, version: '999' }, { id: 'not-a-uuid', version: '1' }]) {
+        const path = `/api/admin/universities/${params.id}/versions/${params.version}/rollback`;
+        const res = await callRoute(rollbackHandler, 'POST', path, { params, headers });
+        assertEquals(res.status, 404);
+      }
+    } finally {
+      clearExchangeRatesCache();
+      await db.drop();
+    }
+  },
+});
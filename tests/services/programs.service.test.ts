@@ -0,0 +1,129 @@
+/**
+ * Тесты поиска программ: разбор фильтров и выборка по всем университетам
+ */
+
+import { assertEquals, assertThrows } from '$std/assert/mod.ts';
+import {
+  parseProgramFilters,
+  ProgramFilterError,
+  searchPrograms,
+} from '../../src/services/programs.service.ts';
+import { query } from '../../src/config/database.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('parseProgramFilters reads and validates query parameters', () => {
+  const filters = parseProgramFilters(new URLSearchParams(
+    'q=data&degree_level=Master,PhD&language=English&max_duration=2&max_tuition=5000&currency=usd&deadline_from=2025-01-01&limit=10&offset=20'
+  ));
+  assertEquals(filters.q, 'data');
+  assertEquals(filters.degreeLevels, ['Master', 'PhD']);
+  assertEquals(filters.language, 'English');
+  assertEquals(filters.maxDuration, 2);
+  assertEquals(filters.maxTuition, 5000);
+  assertEquals(filters.currency, 'USD');
+  assertEquals(filters.deadlineFrom, '2025-01-01');
+  assertEquals([filters.limit, filters.offset], [10, 20]);
+
+  assertEquals(parseProgramFilters(new URLSearchParams()).limit, 20);
+
+  assertThrows(() => parseProgramFilters(new URLSearchParams('max_tuition=-1')), ProgramFilterError);
+  assertThrows(() => parseProgramFilters(new URLSearchParams('limit=500')), ProgramFilterError, 'Invalid pagination');
+  assertThrows(() => parseProgramFilters(new URLSearchParams('currency=dollars')), ProgramFilterError);
+  assertThrows(() => parseProgramFilters(new URLSearchParams('currency=GBP')), ProgramFilterError, 'Invalid currency');
+  assertThrows(() => parseProgramFilters(new URLSearchParams('deadline_from=01.02.2025')), ProgramFilterError);
+});
+
+Deno.test({
+  name: 'searchPrograms filters programs across universities',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const db = await createTestDatabase({ seed: true });
+
+    try {
+      const nu = await getUniversityIdByWebsite('https://nu.edu.kz');
+      const iitu = await getUniversityIdByWebsite('https://iitu.edu.kz');
+
+      // Новая версия профиля МУИТ: стоимость и дедлайны у программ
+      await query(
+        `INSERT INTO university_profiles (university_id, profile_json, field_provenance, language, version)
+         SELECT university_id,
+                jsonb_set(profile_json, '{programs}', $2::jsonb),
+                field_provenance, language, version + 1
+         FROM university_profiles WHERE university_id = $1 AND version = 1`,
+        [iitu, JSON.stringify([
+          {
+            id: 'iitu-ds-msc', name: 'Data Science', degree_level: 'Master', duration_years: 2,
+            language: 'English', tuition: { amount: 4500, currency: 'USD', per_year: true },
+            application_deadline: '2025-07-15',
+          },
+          {
+            id: 'iitu-se-bsc', name: 'Software Engineering', degree_level: 'Bachelor', duration_years: 4,
+            language: 'English', tuition: { amount: 6000, currency: 'USD', per_year: true },
+            application_deadline: 'до 1 августа',
+          },
+        ])]
+      );
+
+      await t.step('all programs of latest profiles', async () => {
+        const { total } = await searchPrograms();
+        // У МУИТ учитываются только программы новой версии
+        const countRows = await query<{ count: string }>(
+          `SELECT SUM(jsonb_array_length(profile_json->'programs'))::text AS count
+           FROM university_profiles up
+           WHERE version = (SELECT MAX(version) FROM university_profiles WHERE university_id = up.university_id)`
+        );
+        assertEquals(total, parseInt(countRows[0].count, 10));
+      });
+
+      await t.step('english master in data science under 5000 USD', async () => {
+        const { data, total } = await searchPrograms({
+          q: 'data science',
+          degreeLevels: ['master'],
+          language: 'english',
+          maxTuition: 5000,
+        });
+        assertEquals(total, 2);
+        // NU бесплатно (общая стоимость профиля 0 KZT), МУИТ — 4500 USD
+        assertEquals(data.map((hit) => hit.university.id).sort(), [iitu, nu].sort());
+        const nuHit = data.find((hit) => hit.university.id === nu)!;
+        assertEquals(nuHit.program.tuition?.amount, 0);
+      });
+
+      await t.step('tuition converted to the requested currency', async () => {
+        // 6000 USD по курсу 500 KZT из миграции — 3 000 000 KZT
+        const within = await searchPrograms({ q: 'software', maxTuition: 3_000_000, currency: 'KZT' });
+        assertEquals(within.currency, 'KZT');
+        const se = within.data.find((hit) => hit.program.id === 'iitu-se-bsc')!;
+        assertEquals(se.program.tuition?.amount, 6000);
+        assertEquals(se.converted_tuition, { amount: 3_000_000, currency: 'KZT', per_year: true });
+
+        const below = await searchPrograms({ q: 'software', maxTuition: 2_000_000, currency: 'KZT' });
+        assertEquals(below.data.some((hit) => hit.program.id === 'iitu-se-bsc'), false);
+      });
+
+      await t.step('duration and deadline', async () => {
+        const short = await searchPrograms({ maxDuration: 2, country: 'Казахстан' });
+        assertEquals(short.data.every((hit) => hit.program.duration_years <= 2), true);
+
+        // Дедлайн в свободной форме не участвует в фильтре по дате
+        const open = await searchPrograms({ deadlineFrom: '2025-07-01' });
+        assertEquals(open.data.map((hit) => hit.program.id), ['iitu-ds-msc']);
+      });
+
+      await t.step('pagination', async () => {
+        const first = await searchPrograms({ limit: 2 });
+        const second = await searchPrograms({ limit: 2, offset: 2 });
+        assertEquals(first.data.length, 2);
+        assertEquals(second.total, first.total);
+        assertEquals(
+          first.data.some((a) => second.data.some((b) => a.program.id === b.program.id)),
+          false
+        );
+      });
+    } finally {
+      await db.drop();
+    }
+  },
+});
@@ -0,0 +1,145 @@
+/**
+ * Тесты rate limiting: token bucket в памяти, политики из окружения,
+ * заголовки RateLimit-* и ответ 429
+ */
+
+import { assert, assertEquals } from '$std/assert/mod.ts';
+import {
+  consumeRateLimit,
+  getRateLimitPolicy,
+  listThrottledClients,
+  peekRateLimit,
+  resetRateLimit,
+  resetRateLimitStore,
+} from '../../src/services/rate-limit.service.ts';
+import { rateLimitedResponse, rateLimitHeaders } from '../../src/middleware/rate-limit.ts';
+import { handler as chatHandler } from '../../routes/api/chat.ts';
+import { queryOne } from '../../src/config/database.ts';
+import { callRoute } from '../helpers/routes.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+/**
+ * Выполнить fn с временными переменными окружения
+ */
+const withEnv = async (vars: Record<string, string>, fn: () => Promise<void>): Promise<void> => {
+  const previous = Object.fromEntries(Object.keys(vars).map((name) => [name, Deno.env.get(name)]));
+  Object.entries(vars).forEach(([name, value]) => Deno.env.set(name, value));
+  resetRateLimitStore();
+  try {
+    await fn();
+  } finally {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+    resetRateLimitStore();
+  }
+};
+
+Deno.test('getRateLimitPolicy reads overrides and ignores invalid values', async () => {
+  assertEquals(getRateLimitPolicy('chat'), { capacity: 10, perMinute: 10 });
+
+  await withEnv({ RATE_LIMIT_ADMIN_AUTH_CAPACITY: '3', RATE_LIMIT_ADMIN_AUTH_PER_MINUTE: 'fast' }, () => {
+    assertEquals(getRateLimitPolicy('admin-auth'), { capacity: 3, perMinute: 10 });
+    return Promise.resolve();
+  });
+});
+
+Deno.test('consumeRateLimit drains the bucket and reports retry time', async () => {
+  await withEnv({ RATE_LIMIT_VERIFY_CAPACITY: '2', RATE_LIMIT_VERIFY_PER_MINUTE: '6' }, async () => {
+    const first = await consumeRateLimit('verify', '10.1.0.1');
+    assertEquals([first.allowed, first.remaining, first.limit], [true, 1, 2]);
+
+    const second = await consumeRateLimit('verify', '10.1.0.1');
+    assertEquals([second.allowed, second.remaining], [true, 0]);
+
+    const denied = await consumeRateLimit('verify', '10.1.0.1');
+    assertEquals(denied.allowed, false);
+    // Один токен в 10 секунд
+    assert(denied.retryAfterSeconds > 0 && denied.retryAfterSeconds <= 10);
+    assert(denied.resetSeconds > 10 && denied.resetSeconds <= 20);
+
+    // Корзины клиентов независимы
+    assertEquals((await consumeRateLimit('verify', '10.1.0.2')).allowed, true);
+    assertEquals((await consumeRateLimit('chat', '10.1.0.1')).allowed, true);
+
+    const throttled = await listThrottledClients();
+    assertEquals(throttled.map((c) => [c.group, c.key, c.deniedCount]), [['verify', '10.1.0.1', 1]]);
+
+    assertEquals(await resetRateLimit('verify', '10.1.0.1'), 1);
+    assertEquals((await peekRateLimit('verify', '10.1.0.1')).remaining, 2);
+    assertEquals(await listThrottledClients(), []);
+  });
+});
+
+Deno.test('peekRateLimit does not consume tokens', async () => {
+  await withEnv({ RATE_LIMIT_SEARCH_CAPACITY: '1' }, async () => {
+    assertEquals((await peekRateLimit('search', '10.2.0.1')).allowed, true);
+    assertEquals((await peekRateLimit('search', '10.2.0.1')).allowed, true);
+    await consumeRateLimit('search', '10.2.0.1');
+    assertEquals((await peekRateLimit('search', '10.2.0.1')).allowed, false);
+  });
+});
+
+Deno.test('rate limit headers follow RateLimit-* fields', async () => {
+  await withEnv({ RATE_LIMIT_CHAT_CAPACITY: '1' }, async () => {
+    const allowed = await consumeRateLimit('chat', '10.3.0.1');
+    assertEquals(rateLimitHeaders(allowed), {
+      'RateLimit-Limit': '1',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '6',
+      'RateLimit-Policy': '1;w=6',
+    });
+
+    const denied = await consumeRateLimit('chat', '10.3.0.1');
+    const res = rateLimitedResponse(denied, { error: 'Rate limit exceeded' });
+    assertEquals(res.status, 429);
+    assertEquals(res.headers.get('Retry-After'), String(denied.retryAfterSeconds));
+    assertEquals((await res.json()).retry_after, denied.retryAfterSeconds);
+  });
+});
+
+Deno.test('POST /api/chat returns 429 when the chat bucket is empty', async () => {
+  await withEnv({ RATE_LIMIT_CHAT_CAPACITY: '1' }, async () => {
+    const headers = { 'X-Forwarded-For': '10.4.0.1' };
+
+    // Первый запрос проходит лимит и отклоняется валидацией
+    const first = await callRoute(chatHandler, 'POST', '/api/chat', { body: { message: '' }, headers });
+    assertEquals(first.status, 400);
+
+    const second = await callRoute(chatHandler, 'POST', '/api/chat', { body: { message: 'Привет' }, headers });
+    assertEquals(second.status, 429);
+    assertEquals(second.headers.get('RateLimit-Remaining'), '0');
+    assert(Number(second.headers.get('Retry-After')) > 0);
+    assertEquals((await second.json()).error, 'Rate limit exceeded');
+  });
+});
+
+Deno.test({
+  name: 'PostgreSQL store shares buckets through rate_limit_buckets',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase();
+    try {
+      await withEnv({ RATE_LIMIT_STORE: 'postgres', RATE_LIMIT_VERIFY_CAPACITY: '1' }, async () => {
+        assertEquals((await consumeRateLimit('verify', '10.5.0.1')).allowed, true);
+        assertEquals((await consumeRateLimit('verify', '10.5.0.1')).allowed, false);
+
+        const row = await queryOne<{ denied_count: number }>(
+          `SELECT denied_count FROM rate_limit_buckets WHERE group_name = 'verify' AND client_key = '10.5.0.1'`
+        );
+        assertEquals(row?.denied_count, 1);
+        assertEquals((await listThrottledClients()).map((c) => c.key), ['10.5.0.1']);
+
+        // Новый экземпляр хранилища видит то же состояние (как другой инстанс)
+        resetRateLimitStore();
+        assertEquals((await peekRateLimit('verify', '10.5.0.1')).allowed, false);
+        assertEquals(await resetRateLimit('verify'), 1);
+      });
+    } finally {
+      await db.drop();
+    }
+  },
+});
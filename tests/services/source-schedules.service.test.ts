@@ -0,0 +1,98 @@
+/**
+ * Тесты расписания источников: адаптивный интервал, cron, постановка в очередь
+ */
+
+import { assert, assertEquals, assertRejects } from '$std/assert/mod.ts';
+import {
+  computeAdaptiveInterval,
+  computeNextCheckAt,
+  enqueueDueSourceChecks,
+  listSourceSchedules,
+  scheduleNextSourceCheck,
+  SourceScheduleError,
+  updateSourceSchedule,
+} from '../../src/services/source-schedules.service.ts';
+import { query } from '../../src/config/database.ts';
+import { createTestDatabase, hasTestDatabase } from '../helpers/test_db.ts';
+
+const BOUNDS = { min: 60, max: 10080 };
+
+Deno.test('computeAdaptiveInterval shortens on frequent changes and lengthens when nothing changes', () => {
+  assertEquals(computeAdaptiveInterval(1440, [true, false, true, false], BOUNDS), 720);
+  assertEquals(computeAdaptiveInterval(1440, [false, false, false], BOUNDS), 2160);
+  // Мало истории или изменения редкие — интервал не меняется
+  assertEquals(computeAdaptiveInterval(1440, [false, false], BOUNDS), 1440);
+  assertEquals(computeAdaptiveInterval(1440, [true, false, false, false], BOUNDS), 1440);
+  // Границы источника
+  assertEquals(computeAdaptiveInterval(90, [true], BOUNDS), 60);
+  assertEquals(computeAdaptiveInterval(9000, [false, false, false], BOUNDS), 10080);
+});
+
+Deno.test('computeNextCheckAt uses cron for fixed and the interval for adaptive schedules', () => {
+  const from = new Date('2025-01-10T12:00:00Z');
+  assertEquals(
+    computeNextCheckAt({ mode: 'fixed', cron: '0 3 * * *', intervalMinutes: 1440 }, from),
+    new Date('2025-01-11T03:00:00Z')
+  );
+  assertEquals(
+    computeNextCheckAt({ mode: 'adaptive', cron: '0 3 * * *', intervalMinutes: 90 }, from),
+    new Date('2025-01-10T13:30:00Z')
+  );
+});
+
+Deno.test({
+  name: 'source schedules are validated, enqueue due sources once and adapt after checks',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn() {
+    const db = await createTestDatabase({ seed: true });
+    try {
+      const [university] = await query<{ id: string }>('SELECT id FROM universities ORDER BY name LIMIT 1');
+      const [source] = await query<{ id: string }>(
+        `INSERT INTO university_sources (university_id, url) VALUES ($1, 'https://example.edu') RETURNING id`,
+        [university.id]
+      );
+
+      await assertRejects(
+        () => updateSourceSchedule(university.id, source.id, { mode: 'fixed', cron: '61 * * * *' }),
+        SourceScheduleError,
+        'minute'
+      );
+      await assertRejects(
+        () => updateSourceSchedule(university.id, source.id, { minIntervalMinutes: 600, maxIntervalMinutes: 300 }),
+        SourceScheduleError,
+        'exceeds'
+      );
+
+      const fixed = await updateSourceSchedule(university.id, source.id, { mode: 'fixed', cron: '0 3 * * *' });
+      assertEquals(new Date(fixed.nextCheckAt!).getUTCHours(), 3);
+
+      // Источник не пора проверять, пока не наступило next_check_at
+      assertEquals(await enqueueDueSourceChecks(), 0);
+      await query('UPDATE university_sources SET next_check_at = NOW() - INTERVAL \'1 minute\' WHERE id = $1', [source.id]);
+      assertEquals(await enqueueDueSourceChecks(), 1);
+      assertEquals(await enqueueDueSourceChecks(), 0);
+
+      await updateSourceSchedule(university.id, source.id, { mode: 'adaptive', intervalMinutes: 1440 });
+      await query(
+        `INSERT INTO update_logs (source_id, status, changes_detected)
+         SELECT $1, 'skipped', false FROM generate_series(1, 3)`,
+        [source.id]
+      );
+      const next = await scheduleNextSourceCheck(source.id, { adapt: true });
+      assertEquals(next?.intervalMinutes, 2160);
+      assert(next!.nextCheckAt.getTime() > Date.now() + 2159 * 60_000);
+
+      const [listed] = await listSourceSchedules(university.id);
+      assertEquals([listed.mode, listed.intervalMinutes, listed.recentChecks, listed.recentChanges], [
+        'adaptive',
+        2160,
+        3,
+        0,
+      ]);
+    } finally {
+      await db.drop();
+    }
+  },
+});
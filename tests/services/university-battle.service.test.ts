@@ -0,0 +1,138 @@
+/**
+ * Тесты сравнения университетов на одноразовой БД с фейковым LLM
+ */
+
+import { assert, assertEquals, assertRejects } from '$std/assert/mod.ts';
+import {
+  clearBattleCache,
+  compareUniversities,
+  rankBattleUniversities,
+} from '../../src/services/university-battle.service.ts';
+import { DEFAULT_BATTLE_WEIGHTS } from '../../src/services/battle-scoring.service.ts';
+import { loadLlmFixtures, startFakeLlmServer } from '../helpers/fake_llm.ts';
+import { createTestDatabase, getUniversityIdByWebsite, hasTestDatabase } from '../helpers/test_db.ts';
+
+Deno.test('rankBattleUniversities orders by total, then wins, then request order', () => {
+  assertEquals(rankBattleUniversities([5, 6.3, 5.8], [1, 3, 2]), [1, 2, 0]);
+  assertEquals(rankBattleUniversities([6.3, 6.3, 5.8], [2, 3, 1]), [1, 0, 2]);
+  assertEquals(rankBattleUniversities([4, 4, 4], [0, 0, 0]), [0, 1, 2]);
+});
+
+Deno.test({
+  name: 'compareUniversities',
+  ignore: !hasTestDatabase,
+  sanitizeResources: false,
+  sanitizeOps: false,
+  async fn(t) {
+    const db = await createTestDatabase({ seed: true });
+    const llm = startFakeLlmServer(await loadLlmFixtures('battle'));
+
+    try {
+      const nu = await getUniversityIdByWebsite('https://nu.edu.kz');
+      const msu = await getUniversityIdByWebsite('https://msu.ru');
+      const spbu = await getUniversityIdByWebsite('https://spbu.ru');
+      const kbtu = await getUniversityIdByWebsite('https://kbtu.edu.kz');
+
+      await t.step('scores criteria from profile data and adds narrative', async () => {
+        const result = await compareUniversities([nu, msu], 'ru');
+        const [a, b] = result.universities;
+
+        assertEquals(a.id, nu);
+        assertEquals(a.name, 'Назарбаев Университет');
+        assertEquals(b.name, 'Московский государственный университет');
+        // Стоимость, международность и преподавание в seed не заполнены — критерии пропущены
+        assertEquals(result.criteria.map((c) => c.key), ['reputation', 'breadth', 'scholarships']);
+        assertEquals(result.criteria[0].nameRu, 'Академическая репутация');
+
+        const reputation = result.criteria[0];
+        assertEquals(reputation.scores.map((s) => s.score), [5.4, 6.1]);
+        assertEquals(reputation.scores[1].basis, 'QS World #87 (2024)');
+        assertEquals(reputation.winnerIds, [msu]);
+        assertEquals(reputation.explanation, 'Место в рейтинге QS определяет балл репутации.');
+
+        assertEquals(a.wins + b.wins + result.ties, 3);
+        assertEquals(a.totalScore, 3.27);
+        assertEquals(b.totalScore, 2.83);
+        assertEquals(result.ranking, [nu, msu]);
+        assertEquals(result.overallWinner, nu);
+        assertEquals(result.hasNarrative, true);
+        assertEquals(a.strengths, ['Обучение на английском', 'Гранты']);
+        assertEquals(a.programs_count, 2);
+
+        assertEquals(llm.requests.length, 1);
+        assertEquals(llm.requests[0].fixture, 'nu-vs-msu');
+      });
+
+      await t.step('repeated comparison within cooldown is rejected', async () => {
+        await assertRejects(() => compareUniversities([msu, nu], 'ru'), Error, 'wait');
+      });
+
+      await t.step('weights change the ranking', async () => {
+        const result = await compareUniversities([nu, msu], 'ru', {
+          ...DEFAULT_BATTLE_WEIGHTS,
+          reputation: 5,
+          scholarships: 0,
+        });
+
+        assertEquals(result.criteria.map((c) => c.key), ['reputation', 'breadth']);
+        assertEquals(result.criteria[0].weight, 5);
+        assertEquals(result.universities.map((u) => u.totalScore), [4.9, 5.48]);
+        assertEquals(result.ranking, [msu, nu]);
+      });
+
+      await t.step('ranks three universities per criterion and overall', async () => {
+        const result = await compareUniversities([nu, msu, kbtu], 'ru');
+
+        assertEquals(result.universities.map((u) => u.label), ['A', 'B', 'C']);
+        assertEquals(result.universities.map((u) => u.totalScore), [3.27, 2.83, 2.73]);
+        assertEquals(result.universities.map((u) => u.wins), [1, 1, 0]);
+        assertEquals(result.ties, 1);
+        assertEquals(result.ranking, [nu, msu, kbtu]);
+        assertEquals(result.universities.map((u) => u.rank), [1, 2, 3]);
+        // Пояснения получены для всех трёх, а не из ответа для пары
+        assertEquals(result.hasNarrative, true);
+        assertEquals(result.universities[2].strengths, ['Доступная стоимость']);
+
+        const breadth = result.criteria.find((c) => c.key === 'breadth')!;
+        assertEquals(breadth.winnerIds, [nu, msu, kbtu]);
+        const scholarships = result.criteria.find((c) => c.key === 'scholarships')!;
+        assertEquals(scholarships.scores.map((s) => s.rank), [1, 2, 2]);
+        assertEquals(scholarships.scores[1].basis, null);
+        assertEquals(llm.requests.at(-1)!.fixture, 'nu-msu-kbtu');
+      });
+
+      await t.step('rejects duplicates and more than five universities', async () => {
+        await assertRejects(() => compareUniversities([nu, nu], 'ru'), Error, 'itself');
+        const six = Array.from({ length: 6 }, () => crypto.randomUUID());
+        await assertRejects(() => compareUniversities(six, 'ru'), Error, 'Between 2 and 5');
+      });
+
+      await t.step('cached result is returned after cooldown', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1100));
+        const result = await compareUniversities([nu, msu], 'ru');
+        assertEquals(result.criteria.length, 3);
+        assertEquals(llm.requests.filter((r) => r.fixture === 'nu-vs-msu').length, 2);
+      });
+
+      await t.step('unknown university is reported as not found', async () => {
+        const missing = crypto.randomUUID();
+        await assertRejects(() => compareUniversities([nu, missing], 'ru'), Error, 'not found');
+      });
+
+      await t.step('invalid LLM output keeps scores without narrative', async () => {
+        clearBattleCache();
+        const result = await compareUniversities([nu, spbu], 'en');
+        assertEquals(result.hasNarrative, false);
+        assertEquals(result.recommendation, '');
+        assertEquals(result.criteria[0].nameRu, 'Academic Reputation');
+        assertEquals(result.criteria[0].scores.map((s) => s.score), [5.4, 5.2]);
+        assertEquals(result.ranking, [nu, spbu]);
+        assert(llm.requests.some((r) => r.fixture === 'broken-json'));
+      });
+    } finally {
+      clearBattleCache();
+      await llm.close();
+      await db.drop();
+    }
+  },
+});
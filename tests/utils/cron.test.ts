@@ -0,0 +1,31 @@
+/**
+ * Тесты расписаний cron
+ */
+
+import { assertEquals, assertThrows } from '$std/assert/mod.ts';
+import { CronError, getNextCronRun, parseCron } from '../../src/utils/cron.ts';
+
+const at = (iso: string) => new Date(iso);
+
+Deno.test('getNextCronRun finds the next matching minute in UTC', () => {
+  assertEquals(getNextCronRun('0 3 * * *', at('2025-01-10T02:59:30Z')), at('2025-01-10T03:00:00Z'));
+  assertEquals(getNextCronRun('0 3 * * *', at('2025-01-10T03:00:00Z')), at('2025-01-11T03:00:00Z'));
+  assertEquals(getNextCronRun('*/15 * * * *', at('2025-01-10T10:07:00Z')), at('2025-01-10T10:15:00Z'));
+  assertEquals(getNextCronRun('30 9 1 */3 *', at('2025-02-15T00:00:00Z')), at('2025-04-01T09:30:00Z'));
+});
+
+Deno.test('getNextCronRun handles weekdays and day-of-month OR day-of-week', () => {
+  // 2025-01-10 — пятница; 7 — воскресенье
+  assertEquals(getNextCronRun('0 6 * * 1-5', at('2025-01-10T12:00:00Z')), at('2025-01-13T06:00:00Z'));
+  assertEquals(getNextCronRun('0 0 * * 7', at('2025-01-10T12:00:00Z')), at('2025-01-12T00:00:00Z'));
+  assertEquals(getNextCronRun('0 0 15 * 1', at('2025-01-10T12:00:00Z')), at('2025-01-13T00:00:00Z'));
+  assertEquals(getNextCronRun('0 0 31 2 *', at('2025-01-10T12:00:00Z')), null);
+});
+
+Deno.test('parseCron rejects malformed expressions', () => {
+  assertThrows(() => parseCron('0 3 * *'), CronError, '5 fields');
+  assertThrows(() => parseCron('60 * * * *'), CronError, 'minute');
+  assertThrows(() => parseCron('0 5-2 * * *'), CronError, 'range');
+  assertThrows(() => parseCron('*/0 * * * *'), CronError, 'step');
+  assertThrows(() => parseCron('a * * * *'), CronError);
+});
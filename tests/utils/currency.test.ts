@@ -0,0 +1,58 @@
+/**
+ * Тесты валют: нормализация написаний и пересчёт по курсам
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import {
+  convertAmount,
+  convertTuition,
+  detectCurrency,
+  normalizeCurrency,
+  parseDisplayCurrency,
+} from '../../src/utils/currency.ts';
+
+const RATES = { USD: 1, KZT: 500, RUB: 90, EUR: 0.92 };
+
+Deno.test('normalizeCurrency maps spellings to ISO 4217', () => {
+  assertEquals(normalizeCurrency('KZT'), 'KZT');
+  assertEquals(normalizeCurrency(' kzt '), 'KZT');
+  assertEquals(normalizeCurrency('тенге'), 'KZT');
+  assertEquals(normalizeCurrency('₸'), 'KZT');
+  assertEquals(normalizeCurrency('руб.'), 'RUB');
+  assertEquals(normalizeCurrency('RUR'), 'RUB');
+  assertEquals(normalizeCurrency('$'), 'USD');
+  assertEquals(normalizeCurrency('евро'), 'EUR');
+  assertEquals(normalizeCurrency('чего-то'), null);
+  assertEquals(normalizeCurrency(''), null);
+  assertEquals(normalizeCurrency(null), null);
+});
+
+Deno.test('detectCurrency finds currency in free text', () => {
+  assertEquals(detectCurrency('1 200 000 тенге в год'), 'KZT');
+  assertEquals(detectCurrency('$5,000 per year'), 'USD');
+  assertEquals(detectCurrency('от 3000 EUR'), 'EUR');
+  assertEquals(detectCurrency('450 000 ₽'), 'RUB');
+  // Трёхбуквенные слова — не валюта
+  assertEquals(detectCurrency('5000 for the year'), null);
+  assertEquals(detectCurrency('бесплатно'), null);
+});
+
+Deno.test('convertAmount and convertTuition use units per USD', () => {
+  assertEquals(convertAmount(1_000_000, 'KZT', 'USD', RATES), 2000);
+  assertEquals(convertAmount(2000, 'USD', 'KZT', RATES), 1_000_000);
+  assertEquals(convertAmount(100, 'тенге', 'KZT', RATES), 100);
+  assertEquals(convertAmount(100, 'CNY', 'USD', RATES), null);
+  assertEquals(convertAmount(100, null, 'USD', RATES), null);
+
+  assertEquals(convertTuition(9000, 'RUB', 'USD', RATES), 100);
+  assertEquals(convertTuition(1000, 'USD', 'EUR', RATES), 920);
+  assertEquals(convertTuition(null, 'USD', 'KZT', RATES), null);
+});
+
+Deno.test('parseDisplayCurrency accepts only display currencies', () => {
+  assertEquals(parseDisplayCurrency(null), 'USD');
+  assertEquals(parseDisplayCurrency(''), 'USD');
+  assertEquals(parseDisplayCurrency('kzt'), 'KZT');
+  assertEquals(parseDisplayCurrency('GBP'), null);
+  assertEquals(parseDisplayCurrency('тенге'), null);
+});
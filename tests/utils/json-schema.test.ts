@@ -0,0 +1,96 @@
+/**
+ * Тесты проверки и исправления JSON по схеме
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import { type JsonSchema, validateJsonSchema } from '../../src/utils/json-schema.ts';
+import {
+  PROGRAM_LIST_SCHEMA,
+  UNIVERSITY_PROFILE_SCHEMA,
+} from '../../src/types/university.schema.ts';
+
+Deno.test('validateJsonSchema coerces scalar types', () => {
+  const { value, violations } = validateJsonSchema<Record<string, unknown>>(
+    {
+      name: 'Test University',
+      founded_year: '1995 г.',
+      student_count: '12 500',
+      latitude: '43,24',
+      international: { accepts_international: 'да', languages_of_instruction: 'English' },
+      programs: [{ name: 'Law', duration_years: '4 года', tuition: { amount: '1,200,000 ₸' } }],
+    },
+    UNIVERSITY_PROFILE_SCHEMA
+  );
+
+  assertEquals(violations, []);
+  assertEquals(value.founded_year, 1995);
+  assertEquals(value.student_count, 12500);
+  assertEquals(value.latitude, 43.24);
+  assertEquals(value.international, {
+    accepts_international: true,
+    languages_of_instruction: ['English'],
+  });
+  assertEquals(value.programs, [{ name: 'Law', duration_years: 4, tuition: { amount: 1200000 } }]);
+});
+
+Deno.test('validateJsonSchema drops empty markers in non-string fields', () => {
+  const { value, violations } = validateJsonSchema<Record<string, unknown>>(
+    { name: 'X', description: 'Нет информации', founded_year: 'Нет информации', student_count: null },
+    UNIVERSITY_PROFILE_SCHEMA
+  );
+
+  assertEquals(violations, []);
+  // В строковых полях "Нет информации" — допустимое значение
+  assertEquals(value, { name: 'X', description: 'Нет информации' });
+});
+
+Deno.test('validateJsonSchema reports field violations with paths', () => {
+  const { value, violations } = validateJsonSchema<Record<string, unknown>>(
+    {
+      name: 'X',
+      founded_year: 3050,
+      contacts: { phone: ['+7 700'] },
+      programs: [{ name: 'Ok' }, { duration_years: 4 }, 'Physics'],
+    },
+    UNIVERSITY_PROFILE_SCHEMA
+  );
+
+  assertEquals(violations, [
+    { path: 'founded_year', message: 'must be <= 2100', fatal: false },
+    { path: 'contacts.phone', message: 'expected string, got array', fatal: false },
+    { path: 'programs[1].name', message: 'is required', fatal: false },
+    { path: 'programs[2]', message: 'expected object, got string', fatal: false },
+  ]);
+  // Невалидные поля и элементы удалены, остальное сохранено
+  assertEquals(value, { name: 'X', contacts: {}, programs: [{ name: 'Ok' }] });
+});
+
+Deno.test('validateJsonSchema marks missing required and wrong root as fatal', () => {
+  assertEquals(
+    validateJsonSchema({ city: 'Алматы' }, UNIVERSITY_PROFILE_SCHEMA).violations,
+    [{ path: 'name', message: 'is required', fatal: true }]
+  );
+  assertEquals(
+    validateJsonSchema('not json object', UNIVERSITY_PROFILE_SCHEMA).violations,
+    [{ path: '', message: 'expected object, got string', fatal: true }]
+  );
+});
+
+Deno.test('validateJsonSchema wraps single item into array', () => {
+  const { value, repairs } = validateJsonSchema<unknown[]>({ name: 'Math' }, PROGRAM_LIST_SCHEMA);
+  assertEquals(value, [{ name: 'Math' }]);
+  assertEquals(repairs, ['root: wrapped into array']);
+});
+
+Deno.test('validateJsonSchema normalises enum case and removes unknown fields', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: { winner: { type: 'string', enum: ['A', 'B', 'Tie'] } },
+    additionalProperties: false,
+  };
+
+  assertEquals(validateJsonSchema({ winner: 'tie', extra: 1 }, schema).value, { winner: 'Tie' });
+  assertEquals(validateJsonSchema({ winner: 'C' }, schema).violations, [
+    { path: 'winner', message: 'must be one of A, B, Tie', fatal: false },
+  ]);
+});
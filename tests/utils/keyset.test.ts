@@ -0,0 +1,96 @@
+/**
+ * Тесты keyset-пагинации: курсоры и условия выборки
+ */
+
+import { assertEquals } from '$std/assert/mod.ts';
+import {
+  buildKeysetCondition,
+  decodeCursor,
+  encodeCursor,
+  isCursorValueOfType,
+  takeKeysetPage,
+} from '../../src/utils/keyset.ts';
+
+const ID = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+
+const createParams = () => {
+  const values: unknown[] = [];
+  const param = (value: unknown): string => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  return { values, param };
+};
+
+Deno.test('encodeCursor and decodeCursor round-trip', () => {
+  const cursor = { key: 'name:asc', value: 'Назарбаев Университет', id: ID };
+  const encoded = encodeCursor(cursor);
+  assertEquals(/^[A-Za-z0-9_-]+$/.test(encoded), true);
+  assertEquals(decodeCursor(encoded, 'name:asc'), cursor);
+
+  const empty = { key: 'tuition:asc', value: null, id: ID };
+  assertEquals(decodeCursor(encodeCursor(empty), 'tuition:asc'), empty);
+});
+
+Deno.test('decodeCursor rejects foreign and malformed cursors', () => {
+  const encoded = encodeCursor({ key: 'name:asc', value: 'МУИТ', id: ID });
+  assertEquals(decodeCursor(encoded, 'name:desc'), null);
+  assertEquals(decodeCursor('not-a-cursor', 'name:asc'), null);
+  assertEquals(decodeCursor(encodeCursor({ key: 'name:asc', value: 'x', id: 'abc' }), 'name:asc'), null);
+  assertEquals(decodeCursor(btoa('{"key":"name:asc"}'), 'name:asc'), null);
+});
+
+Deno.test('isCursorValueOfType matches values to the sort cast', () => {
+  assertEquals(isCursorValueOfType(null, 'int'), true);
+  assertEquals(isCursorValueOfType(4000, 'int'), true);
+  assertEquals(isCursorValueOfType('4000', 'int'), true);
+  assertEquals(isCursorValueOfType('abc', 'int'), false);
+  assertEquals(isCursorValueOfType(1.5, 'int'), false);
+  assertEquals(isCursorValueOfType(2 ** 31, 'int'), false);
+
+  assertEquals(isCursorValueOfType('2025-01-02T03:04:05.000Z', 'timestamptz'), true);
+  assertEquals(isCursorValueOfType('yesterday', 'timestamptz'), false);
+  assertEquals(isCursorValueOfType('2025-13-45T99:00:00Z', 'timestamptz'), false);
+
+  assertEquals(isCursorValueOfType('МУИТ', 'text'), true);
+  assertEquals(isCursorValueOfType(5, 'text'), false);
+});
+
+Deno.test('buildKeysetCondition keeps empty values last', () => {
+  const asc = createParams();
+  assertEquals(
+    buildKeysetCondition('s.v', 's.id', 'int', 'asc', { key: 'k', value: 10, id: ID }, asc.param),
+    '(s.v > $2::int OR (s.v = $2::int AND s.id > $1::uuid) OR s.v IS NULL)'
+  );
+  assertEquals(asc.values, [ID, 10]);
+
+  const desc = createParams();
+  assertEquals(
+    buildKeysetCondition('s.v', 's.id', 'int', 'desc', { key: 'k', value: 10, id: ID }, desc.param),
+    '(s.v < $2::int OR (s.v = $2::int AND s.id > $1::uuid) OR s.v IS NULL)'
+  );
+
+  const nulls = createParams();
+  assertEquals(
+    buildKeysetCondition('s.v', 's.id', 'int', 'asc', { key: 'k', value: null, id: ID }, nulls.param),
+    '(s.v IS NULL AND s.id > $1::uuid)'
+  );
+  assertEquals(nulls.values, [ID]);
+});
+
+Deno.test('takeKeysetPage cuts the extra row into a cursor', () => {
+  const rows = [
+    { id: ID, name: 'a', sort_value: new Date('2025-01-10T10:00:00.123Z') },
+    { id: crypto.randomUUID(), name: 'b', sort_value: null },
+  ];
+
+  const page = takeKeysetPage(rows, 1, 'updated_at:desc');
+  assertEquals(page.data, [{ id: ID, name: 'a' }]);
+  assertEquals(decodeCursor(page.nextCursor!, 'updated_at:desc'), {
+    key: 'updated_at:desc',
+    value: '2025-01-10T10:00:00.123Z',
+    id: ID,
+  });
+
+  assertEquals(takeKeysetPage(rows, 2, 'updated_at:desc').nextCursor, null);
+});